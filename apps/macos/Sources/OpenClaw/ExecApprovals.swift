@@ -87,6 +87,16 @@ enum ExecApprovalDecision: String, Codable, Sendable {
 struct ExecAllowlistEntry: Codable, Hashable, Identifiable {
     var id: UUID
     var pattern: String
+    /// "deny" entries veto matching commands; nil or "allow" grants them.
+    var action: String?
+    /// Argument globs; the app cannot evaluate these, so constrained entries never auto-allow here.
+    var args: [String]?
+    /// "workspace" or "outside-workspace"; evaluated by the node host only.
+    var paths: String?
+    /// Epoch ms after which the entry is ignored.
+    var expiresAt: Double?
+    /// Limits the entry to one session ("allow for this session").
+    var sessionKey: String?
     var lastUsedAt: Double?
     var lastUsedCommand: String?
     var lastResolvedPath: String?
@@ -94,20 +104,52 @@ struct ExecAllowlistEntry: Codable, Hashable, Identifiable {
     init(
         id: UUID = UUID(),
         pattern: String,
+        action: String? = nil,
+        args: [String]? = nil,
+        paths: String? = nil,
+        expiresAt: Double? = nil,
+        sessionKey: String? = nil,
         lastUsedAt: Double? = nil,
         lastUsedCommand: String? = nil,
         lastResolvedPath: String? = nil)
     {
         self.id = id
         self.pattern = pattern
+        self.action = action
+        self.args = args
+        self.paths = paths
+        self.expiresAt = expiresAt
+        self.sessionKey = sessionKey
         self.lastUsedAt = lastUsedAt
         self.lastUsedCommand = lastUsedCommand
         self.lastResolvedPath = lastResolvedPath
     }
 
+    var isDeny: Bool {
+        self.action?.trimmingCharacters(in: .whitespacesAndNewlines).lowercased() == "deny"
+    }
+
+    /// Whether the entry has argument or path constraints the app cannot check.
+    var hasConstraints: Bool {
+        self.args != nil || (self.paths?.isEmpty == false)
+    }
+
+    func isActive(sessionKey: String?, nowMs: Double) -> Bool {
+        if let expiresAt = self.expiresAt, nowMs >= expiresAt { return false }
+        if let scoped = self.sessionKey?.trimmingCharacters(in: .whitespacesAndNewlines), !scoped.isEmpty {
+            return scoped == sessionKey?.trimmingCharacters(in: .whitespacesAndNewlines)
+        }
+        return true
+    }
+
     private enum CodingKeys: String, CodingKey {
         case id
         case pattern
+        case action
+        case args
+        case paths
+        case expiresAt
+        case sessionKey
         case lastUsedAt
         case lastUsedCommand
         case lastResolvedPath
@@ -117,6 +159,11 @@ struct ExecAllowlistEntry: Codable, Hashable, Identifiable {
         let container = try decoder.container(keyedBy: CodingKeys.self)
         self.id = try container.decodeIfPresent(UUID.self, forKey: .id) ?? UUID()
         self.pattern = try container.decode(String.self, forKey: .pattern)
+        self.action = try container.decodeIfPresent(String.self, forKey: .action)
+        self.args = try container.decodeIfPresent([String].self, forKey: .args)
+        self.paths = try container.decodeIfPresent(String.self, forKey: .paths)
+        self.expiresAt = try container.decodeIfPresent(Double.self, forKey: .expiresAt)
+        self.sessionKey = try container.decodeIfPresent(String.self, forKey: .sessionKey)
         self.lastUsedAt = try container.decodeIfPresent(Double.self, forKey: .lastUsedAt)
         self.lastUsedCommand = try container.decodeIfPresent(String.self, forKey: .lastUsedCommand)
         self.lastResolvedPath = try container.decodeIfPresent(String.self, forKey: .lastResolvedPath)
@@ -126,6 +173,11 @@ struct ExecAllowlistEntry: Codable, Hashable, Identifiable {
         var container = encoder.container(keyedBy: CodingKeys.self)
         try container.encode(self.id, forKey: .id)
         try container.encode(self.pattern, forKey: .pattern)
+        try container.encodeIfPresent(self.action, forKey: .action)
+        try container.encodeIfPresent(self.args, forKey: .args)
+        try container.encodeIfPresent(self.paths, forKey: .paths)
+        try container.encodeIfPresent(self.expiresAt, forKey: .expiresAt)
+        try container.encodeIfPresent(self.sessionKey, forKey: .sessionKey)
         try container.encodeIfPresent(self.lastUsedAt, forKey: .lastUsedAt)
         try container.encodeIfPresent(self.lastUsedCommand, forKey: .lastUsedCommand)
         try container.encodeIfPresent(self.lastResolvedPath, forKey: .lastResolvedPath)
@@ -335,12 +387,9 @@ enum ExecApprovalsStore {
                 ?? resolvedDefaults.autoAllowSkills)
         let allowlist = ((wildcardEntry.allowlist ?? []) + (agentEntry.allowlist ?? []))
             .map { entry in
-                ExecAllowlistEntry(
-                    id: entry.id,
-                    pattern: entry.pattern.trimmingCharacters(in: .whitespacesAndNewlines),
-                    lastUsedAt: entry.lastUsedAt,
-                    lastUsedCommand: entry.lastUsedCommand,
-                    lastResolvedPath: entry.lastResolvedPath)
+                var trimmed = entry
+                trimmed.pattern = entry.pattern.trimmingCharacters(in: .whitespacesAndNewlines)
+                return trimmed
             }
             .filter { !$0.pattern.isEmpty }
         let socketPath = self.expandPath(file.socket?.path ?? self.socketPath())
@@ -400,7 +449,9 @@ enum ExecApprovalsStore {
             var agents = file.agents ?? [:]
             var entry = agents[key] ?? ExecApprovalsAgent()
             var allowlist = entry.allowlist ?? []
-            if allowlist.contains(where: { $0.pattern == trimmed }) { return }
+            if allowlist.contains(where: { $0.pattern == trimmed && !$0.isDeny && !$0.hasConstraints }) {
+                return
+            }
             allowlist.append(ExecAllowlistEntry(pattern: trimmed, lastUsedAt: Date().timeIntervalSince1970 * 1000))
             entry.allowlist = allowlist
             agents[key] = entry
@@ -419,13 +470,12 @@ enum ExecApprovalsStore {
             var agents = file.agents ?? [:]
             var entry = agents[key] ?? ExecApprovalsAgent()
             let allowlist = (entry.allowlist ?? []).map { item -> ExecAllowlistEntry in
-                guard item.pattern == pattern else { return item }
-                return ExecAllowlistEntry(
-                    id: item.id,
-                    pattern: item.pattern,
-                    lastUsedAt: Date().timeIntervalSince1970 * 1000,
-                    lastUsedCommand: command,
-                    lastResolvedPath: resolvedPath)
+                guard item.pattern == pattern, !item.isDeny else { return item }
+                var used = item
+                used.lastUsedAt = Date().timeIntervalSince1970 * 1000
+                used.lastUsedCommand = command
+                used.lastResolvedPath = resolvedPath
+                return used
             }
             entry.allowlist = allowlist
             agents[key] = entry
@@ -440,12 +490,9 @@ enum ExecApprovalsStore {
             var entry = agents[key] ?? ExecApprovalsAgent()
             let cleaned = allowlist
                 .map { item in
-                    ExecAllowlistEntry(
-                        id: item.id,
-                        pattern: item.pattern.trimmingCharacters(in: .whitespacesAndNewlines),
-                        lastUsedAt: item.lastUsedAt,
-                        lastUsedCommand: item.lastUsedCommand,
-                        lastResolvedPath: item.lastResolvedPath)
+                    var trimmed = item
+                    trimmed.pattern = item.pattern.trimmingCharacters(in: .whitespacesAndNewlines)
+                    return trimmed
                 }
                 .filter { !$0.pattern.isEmpty }
             entry.allowlist = cleaned
@@ -666,7 +713,36 @@ enum ExecApprovalHelpers {
 }
 
 enum ExecAllowlistMatcher {
-    static func match(entries: [ExecAllowlistEntry], resolution: ExecCommandResolution?) -> ExecAllowlistEntry? {
+    /// First active allow entry for the executable. Entries with argument or path constraints are
+    /// skipped because only the node host can evaluate them; those commands fall through to a prompt.
+    static func match(
+        entries: [ExecAllowlistEntry],
+        resolution: ExecCommandResolution?,
+        sessionKey: String? = nil,
+        nowMs: Double = Date().timeIntervalSince1970 * 1000) -> ExecAllowlistEntry?
+    {
+        let candidates = entries.filter {
+            !$0.isDeny && !$0.hasConstraints && $0.isActive(sessionKey: sessionKey, nowMs: nowMs)
+        }
+        return self.firstMatch(entries: candidates, resolution: resolution)
+    }
+
+    /// First active deny entry for the executable. Constrained deny entries veto unconditionally
+    /// here, since the app cannot tell whether their arguments or paths apply.
+    static func denyMatch(
+        entries: [ExecAllowlistEntry],
+        resolution: ExecCommandResolution?,
+        sessionKey: String? = nil,
+        nowMs: Double = Date().timeIntervalSince1970 * 1000) -> ExecAllowlistEntry?
+    {
+        let candidates = entries.filter { $0.isDeny && $0.isActive(sessionKey: sessionKey, nowMs: nowMs) }
+        return self.firstMatch(entries: candidates, resolution: resolution)
+    }
+
+    private static func firstMatch(
+        entries: [ExecAllowlistEntry],
+        resolution: ExecCommandResolution?) -> ExecAllowlistEntry?
+    {
         guard let resolution, !entries.isEmpty else { return nil }
         let rawExecutable = resolution.rawExecutable
         let resolvedPath = resolution.resolvedPath
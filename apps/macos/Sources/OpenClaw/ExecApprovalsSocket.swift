@@ -354,6 +354,7 @@ private enum ExecHostExecutor {
         let env: [String: String]?
         let resolution: ExecCommandResolution?
         let allowlistMatch: ExecAllowlistEntry?
+        let allowlistDenied: ExecAllowlistEntry?
         let skillAllow: Bool
     }
 
@@ -389,6 +390,13 @@ private enum ExecHostExecutor {
                 reason: "security=deny")
         }
 
+        if context.security == .allowlist, let denied = context.allowlistDenied {
+            return self.errorResponse(
+                code: "UNAVAILABLE",
+                message: "SYSTEM_RUN_DENIED: denied by \(denied.pattern)",
+                reason: "allowlist-deny")
+        }
+
         let approvalDecision = request.approvalDecision
         if approvalDecision == .deny {
             return self.errorResponse(
@@ -479,7 +487,16 @@ private enum ExecHostExecutor {
             cwd: request.cwd,
             env: env)
         let allowlistMatch = security == .allowlist
-            ? ExecAllowlistMatcher.match(entries: approvals.allowlist, resolution: resolution)
+            ? ExecAllowlistMatcher.match(
+                entries: approvals.allowlist,
+                resolution: resolution,
+                sessionKey: request.sessionKey)
+            : nil
+        let allowlistDenied = security == .allowlist
+            ? ExecAllowlistMatcher.denyMatch(
+                entries: approvals.allowlist,
+                resolution: resolution,
+                sessionKey: request.sessionKey)
             : nil
         let skillAllow: Bool
         if autoAllowSkills, let name = resolution?.executableName {
@@ -499,6 +516,7 @@ private enum ExecHostExecutor {
             env: env,
             resolution: resolution,
             allowlistMatch: allowlistMatch,
+            allowlistDenied: allowlistDenied,
             skillAllow: skillAllow)
     }
 
@@ -460,7 +460,16 @@ actor MacNodeRuntime {
             cwd: params.cwd,
             env: env)
         let allowlistMatch = security == .allowlist
-            ? ExecAllowlistMatcher.match(entries: approvals.allowlist, resolution: resolution)
+            ? ExecAllowlistMatcher.match(
+                entries: approvals.allowlist,
+                resolution: resolution,
+                sessionKey: sessionKey)
+            : nil
+        let allowlistDenied = security == .allowlist
+            ? ExecAllowlistMatcher.denyMatch(
+                entries: approvals.allowlist,
+                resolution: resolution,
+                sessionKey: sessionKey)
             : nil
         let skillAllow: Bool
         if autoAllowSkills, let name = resolution?.executableName {
@@ -485,6 +494,21 @@ actor MacNodeRuntime {
                 message: "SYSTEM_RUN_DISABLED: security=deny")
         }
 
+        if let denied = allowlistDenied {
+            await self.emitExecEvent(
+                "exec.denied",
+                payload: ExecEventPayload(
+                    sessionKey: sessionKey,
+                    runId: runId,
+                    host: "node",
+                    command: displayCommand,
+                    reason: "allowlist-deny"))
+            return Self.errorResponse(
+                req,
+                code: .unavailable,
+                message: "SYSTEM_RUN_DENIED: denied by \(denied.pattern)")
+        }
+
         let approval = await self.resolveSystemRunApproval(
             req: req,
             params: params,
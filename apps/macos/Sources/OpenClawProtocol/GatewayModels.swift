@@ -173,19 +173,22 @@ public struct EventFrame: Codable, Sendable {
     public let payload: AnyCodable?
     public let seq: Int?
     public let stateversion: [String: AnyCodable]?
+    public let filtered: Bool?
 
     public init(
         type: String,
         event: String,
         payload: AnyCodable?,
         seq: Int?,
-        stateversion: [String: AnyCodable]?
+        stateversion: [String: AnyCodable]?,
+        filtered: Bool?
     ) {
         self.type = type
         self.event = event
         self.payload = payload
         self.seq = seq
         self.stateversion = stateversion
+        self.filtered = filtered
     }
     private enum CodingKeys: String, CodingKey {
         case type
@@ -193,6 +196,49 @@ public struct EventFrame: Codable, Sendable {
         case payload
         case seq
         case stateversion = "stateVersion"
+        case filtered
+    }
+}
+
+public struct SubscribeParams: Codable, Sendable {
+    public let events: [String]?
+    public let agentids: [String]?
+    public let sessionkeys: [String]?
+    public let channels: [String]?
+    public let since: Int?
+
+    public init(
+        events: [String]?,
+        agentids: [String]?,
+        sessionkeys: [String]?,
+        channels: [String]?,
+        since: Int?
+    ) {
+        self.events = events
+        self.agentids = agentids
+        self.sessionkeys = sessionkeys
+        self.channels = channels
+        self.since = since
+    }
+    private enum CodingKeys: String, CodingKey {
+        case events
+        case agentids = "agentIds"
+        case sessionkeys = "sessionKeys"
+        case channels
+        case since
+    }
+}
+
+public struct UnsubscribeParams: Codable, Sendable {
+    public let events: [String]?
+
+    public init(
+        events: [String]?
+    ) {
+        self.events = events
+    }
+    private enum CodingKeys: String, CodingKey {
+        case events
     }
 }
 
@@ -467,6 +513,73 @@ public struct PollParams: Codable, Sendable {
     }
 }
 
+public struct OutboxListParams: Codable, Sendable {
+}
+
+public struct OutboxReleaseParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct OutboxDiscardParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct HooksDeliveriesParams: Codable, Sendable {
+    public let limit: Int?
+    public let status: AnyCodable?
+    public let id: String?
+
+    public init(
+        limit: Int?,
+        status: AnyCodable?,
+        id: String?
+    ) {
+        self.limit = limit
+        self.status = status
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case limit
+        case status
+        case id
+    }
+}
+
+public struct HooksReplayParams: Codable, Sendable {
+    public let id: String
+    public let remap: Bool?
+
+    public init(
+        id: String,
+        remap: Bool?
+    ) {
+        self.id = id
+        self.remap = remap
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case remap
+    }
+}
+
 public struct AgentParams: Codable, Sendable {
     public let message: String
     public let agentid: String?
@@ -1902,6 +2015,51 @@ public struct AgentsListResult: Codable, Sendable {
     }
 }
 
+public struct RoutingExplainParams: Codable, Sendable {
+    public let channel: String
+    public let accountid: String?
+    public let peer: [String: AnyCodable]?
+    public let parentpeer: [String: AnyCodable]?
+    public let guildid: String?
+    public let teamid: String?
+    public let text: String?
+    public let mediatypes: [String]?
+    public let atms: Int?
+
+    public init(
+        channel: String,
+        accountid: String?,
+        peer: [String: AnyCodable]?,
+        parentpeer: [String: AnyCodable]?,
+        guildid: String?,
+        teamid: String?,
+        text: String?,
+        mediatypes: [String]?,
+        atms: Int?
+    ) {
+        self.channel = channel
+        self.accountid = accountid
+        self.peer = peer
+        self.parentpeer = parentpeer
+        self.guildid = guildid
+        self.teamid = teamid
+        self.text = text
+        self.mediatypes = mediatypes
+        self.atms = atms
+    }
+    private enum CodingKeys: String, CodingKey {
+        case channel
+        case accountid = "accountId"
+        case peer
+        case parentpeer = "parentPeer"
+        case guildid = "guildId"
+        case teamid = "teamId"
+        case text
+        case mediatypes = "mediaTypes"
+        case atms = "atMs"
+    }
+}
+
 public struct ModelChoice: Codable, Sendable {
     public let id: String
     public let name: String
@@ -2036,6 +2194,8 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: [String: AnyCodable]?
+    public let retry: [String: AnyCodable]?
+    public let exclusions: [String: AnyCodable]?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2052,6 +2212,8 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: [String: AnyCodable]?,
+        retry: [String: AnyCodable]?,
+        exclusions: [String: AnyCodable]?,
         state: [String: AnyCodable]
     ) {
         self.id = id
@@ -2067,6 +2229,8 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.exclusions = exclusions
         self.state = state
     }
     private enum CodingKeys: String, CodingKey {
@@ -2083,6 +2247,8 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case exclusions
         case state
     }
 }
@@ -2114,8 +2280,69 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: [String: AnyCodable]?
+    public let retry: [String: AnyCodable]?
+    public let exclusions: [String: AnyCodable]?
+
+    public init(
+        name: String,
+        agentid: AnyCodable?,
+        description: String?,
+        enabled: Bool?,
+        deleteafterrun: Bool?,
+        schedule: AnyCodable,
+        sessiontarget: AnyCodable,
+        wakemode: AnyCodable,
+        payload: AnyCodable,
+        delivery: [String: AnyCodable]?,
+        retry: [String: AnyCodable]?,
+        exclusions: [String: AnyCodable]?
+    ) {
+        self.name = name
+        self.agentid = agentid
+        self.description = description
+        self.enabled = enabled
+        self.deleteafterrun = deleteafterrun
+        self.schedule = schedule
+        self.sessiontarget = sessiontarget
+        self.wakemode = wakemode
+        self.payload = payload
+        self.delivery = delivery
+        self.retry = retry
+        self.exclusions = exclusions
+    }
+    private enum CodingKeys: String, CodingKey {
+        case name
+        case agentid = "agentId"
+        case description
+        case enabled
+        case deleteafterrun = "deleteAfterRun"
+        case schedule
+        case sessiontarget = "sessionTarget"
+        case wakemode = "wakeMode"
+        case payload
+        case delivery
+        case retry
+        case exclusions
+    }
+}
+
+public struct CronJobDefinition: Codable, Sendable {
+    public let id: String
+    public let name: String
+    public let agentid: AnyCodable?
+    public let description: String?
+    public let enabled: Bool?
+    public let deleteafterrun: Bool?
+    public let schedule: AnyCodable
+    public let sessiontarget: AnyCodable
+    public let wakemode: AnyCodable
+    public let payload: AnyCodable
+    public let delivery: [String: AnyCodable]?
+    public let retry: [String: AnyCodable]?
+    public let exclusions: [String: AnyCodable]?
 
     public init(
+        id: String,
         name: String,
         agentid: AnyCodable?,
         description: String?,
@@ -2125,8 +2352,11 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: [String: AnyCodable]?
+        delivery: [String: AnyCodable]?,
+        retry: [String: AnyCodable]?,
+        exclusions: [String: AnyCodable]?
     ) {
+        self.id = id
         self.name = name
         self.agentid = agentid
         self.description = description
@@ -2137,8 +2367,11 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.exclusions = exclusions
     }
     private enum CodingKeys: String, CodingKey {
+        case id
         case name
         case agentid = "agentId"
         case description
@@ -2149,6 +2382,54 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case exclusions
+    }
+}
+
+public struct CronExportParams: Codable, Sendable {
+    public let ids: [String]?
+    public let includedisabled: Bool?
+
+    public init(
+        ids: [String]?,
+        includedisabled: Bool?
+    ) {
+        self.ids = ids
+        self.includedisabled = includedisabled
+    }
+    private enum CodingKeys: String, CodingKey {
+        case ids
+        case includedisabled = "includeDisabled"
+    }
+}
+
+public struct CronImportParams: Codable, Sendable {
+    public let version: Double
+    public let jobs: [CronJobDefinition]
+    public let dryrun: Bool?
+    public let onconflict: AnyCodable?
+    public let prune: Bool?
+
+    public init(
+        version: Double,
+        jobs: [CronJobDefinition],
+        dryrun: Bool?,
+        onconflict: AnyCodable?,
+        prune: Bool?
+    ) {
+        self.version = version
+        self.jobs = jobs
+        self.dryrun = dryrun
+        self.onconflict = onconflict
+        self.prune = prune
+    }
+    private enum CodingKeys: String, CodingKey {
+        case version
+        case jobs
+        case dryrun = "dryRun"
+        case onconflict = "onConflict"
+        case prune
     }
 }
 
@@ -2164,6 +2445,8 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let runatms: Int?
     public let durationms: Int?
     public let nextrunatms: Int?
+    public let triggeredby: String?
+    public let chain: [String]?
 
     public init(
         ts: Int,
@@ -2176,7 +2459,9 @@ public struct CronRunLogEntry: Codable, Sendable {
         sessionkey: String?,
         runatms: Int?,
         durationms: Int?,
-        nextrunatms: Int?
+        nextrunatms: Int?,
+        triggeredby: String?,
+        chain: [String]?
     ) {
         self.ts = ts
         self.jobid = jobid
@@ -2189,6 +2474,8 @@ public struct CronRunLogEntry: Codable, Sendable {
         self.runatms = runatms
         self.durationms = durationms
         self.nextrunatms = nextrunatms
+        self.triggeredby = triggeredby
+        self.chain = chain
     }
     private enum CodingKeys: String, CodingKey {
         case ts
@@ -2202,6 +2489,8 @@ public struct CronRunLogEntry: Codable, Sendable {
         case runatms = "runAtMs"
         case durationms = "durationMs"
         case nextrunatms = "nextRunAtMs"
+        case triggeredby = "triggeredBy"
+        case chain
     }
 }
 
@@ -2262,6 +2551,35 @@ public struct LogsTailResult: Codable, Sendable {
 public struct ExecApprovalsGetParams: Codable, Sendable {
 }
 
+public struct ExecApprovalsAuditParams: Codable, Sendable {
+    public let approvalid: String?
+    public let agentid: String?
+    public let event: AnyCodable?
+    public let sincems: Int?
+    public let limit: Int?
+
+    public init(
+        approvalid: String?,
+        agentid: String?,
+        event: AnyCodable?,
+        sincems: Int?,
+        limit: Int?
+    ) {
+        self.approvalid = approvalid
+        self.agentid = agentid
+        self.event = event
+        self.sincems = sincems
+        self.limit = limit
+    }
+    private enum CodingKeys: String, CodingKey {
+        case approvalid = "approvalId"
+        case agentid = "agentId"
+        case event
+        case sincems = "sinceMs"
+        case limit
+    }
+}
+
 public struct ExecApprovalsSetParams: Codable, Sendable {
     public let file: [String: AnyCodable]
     public let basehash: String?
@@ -2348,6 +2666,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
     public let agentid: AnyCodable?
     public let resolvedpath: AnyCodable?
     public let sessionkey: AnyCodable?
+    public let reason: AnyCodable?
     public let timeoutms: Int?
 
     public init(
@@ -2360,6 +2679,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         agentid: AnyCodable?,
         resolvedpath: AnyCodable?,
         sessionkey: AnyCodable?,
+        reason: AnyCodable?,
         timeoutms: Int?
     ) {
         self.id = id
@@ -2371,6 +2691,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         self.agentid = agentid
         self.resolvedpath = resolvedpath
         self.sessionkey = sessionkey
+        self.reason = reason
         self.timeoutms = timeoutms
     }
     private enum CodingKeys: String, CodingKey {
@@ -2383,6 +2704,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         case agentid = "agentId"
         case resolvedpath = "resolvedPath"
         case sessionkey = "sessionKey"
+        case reason
         case timeoutms = "timeoutMs"
     }
 }
@@ -2390,17 +2712,25 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
 public struct ExecApprovalResolveParams: Codable, Sendable {
     public let id: String
     public let decision: String
+    public let approver: String?
+    public let channel: String?
 
     public init(
         id: String,
-        decision: String
+        decision: String,
+        approver: String?,
+        channel: String?
     ) {
         self.id = id
         self.decision = decision
+        self.approver = approver
+        self.channel = channel
     }
     private enum CodingKeys: String, CodingKey {
         case id
         case decision
+        case approver
+        case channel
     }
 }
 
@@ -46,4 +46,34 @@ struct ExecAllowlistTests {
         let match = ExecAllowlistMatcher.match(entries: [entry], resolution: resolution)
         #expect(match?.pattern == entry.pattern)
     }
+
+    @Test func denyEntriesNeverAllow() {
+        let deny = ExecAllowlistEntry(pattern: "/bin/rm", action: "deny", paths: "outside-workspace")
+        let resolution = ExecCommandResolution(
+            rawExecutable: "rm",
+            resolvedPath: "/bin/rm",
+            executableName: "rm",
+            cwd: nil)
+        #expect(ExecAllowlistMatcher.match(entries: [deny], resolution: resolution) == nil)
+        #expect(ExecAllowlistMatcher.denyMatch(entries: [deny], resolution: resolution)?.pattern == "/bin/rm")
+    }
+
+    @Test func sessionGrantsExpireAndStayInTheirSession() {
+        let grant = ExecAllowlistEntry(pattern: "make", expiresAt: 2000, sessionKey: "agent:main:main")
+        let resolution = ExecCommandResolution(
+            rawExecutable: "make",
+            resolvedPath: "/usr/bin/make",
+            executableName: "make",
+            cwd: nil)
+        let match = { (sessionKey: String?, nowMs: Double) in
+            ExecAllowlistMatcher.match(
+                entries: [grant],
+                resolution: resolution,
+                sessionKey: sessionKey,
+                nowMs: nowMs)
+        }
+        #expect(match("agent:main:main", 1000)?.pattern == "make")
+        #expect(match("agent:main:main", 2000) == nil)
+        #expect(match("agent:main:other", 1000) == nil)
+    }
 }
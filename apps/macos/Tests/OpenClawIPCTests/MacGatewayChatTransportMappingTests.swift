@@ -39,7 +39,8 @@ import Testing
             event: "health",
             payload: OpenClawProtocol.AnyCodable(["ok": OpenClawProtocol.AnyCodable(true)]),
             seq: 1,
-            stateversion: nil)
+            stateversion: nil,
+            filtered: nil)
 
         let mapped = MacGatewayChatTransport.mapPushToTransportEvent(.event(frame))
         switch mapped {
@@ -51,7 +52,13 @@ import Testing
     }
 
     @Test func tickEventMapsToTick() {
-        let frame = EventFrame(type: "event", event: "tick", payload: nil, seq: 1, stateversion: nil)
+        let frame = EventFrame(
+            type: "event",
+            event: "tick",
+            payload: nil,
+            seq: 1,
+            stateversion: nil,
+            filtered: nil)
         let mapped = MacGatewayChatTransport.mapPushToTransportEvent(.event(frame))
         #expect({
             if case .tick = mapped { return true }
@@ -65,7 +72,13 @@ import Testing
             "sessionKey": OpenClawProtocol.AnyCodable("main"),
             "state": OpenClawProtocol.AnyCodable("final"),
         ])
-        let frame = EventFrame(type: "event", event: "chat", payload: payload, seq: 1, stateversion: nil)
+        let frame = EventFrame(
+            type: "event",
+            event: "chat",
+            payload: payload,
+            seq: 1,
+            stateversion: nil,
+            filtered: nil)
         let mapped = MacGatewayChatTransport.mapPushToTransportEvent(.event(frame))
 
         switch mapped {
@@ -84,7 +97,8 @@ import Testing
             event: "unknown",
             payload: OpenClawProtocol.AnyCodable(["a": OpenClawProtocol.AnyCodable(1)]),
             seq: 1,
-            stateversion: nil)
+            stateversion: nil,
+            filtered: nil)
         let mapped = MacGatewayChatTransport.mapPushToTransportEvent(.event(frame))
         #expect(mapped == nil)
     }
@@ -17,7 +17,8 @@ import Testing
             event: "voicewake.changed",
             payload: payload,
             seq: nil,
-            stateversion: nil)
+            stateversion: nil,
+            filtered: nil)
 
         await VoiceWakeGlobalSettingsSync.shared.handle(push: .event(evt))
 
@@ -42,7 +43,8 @@ import Testing
             event: "voicewake.changed",
             payload: payload,
             seq: nil,
-            stateversion: nil)
+            stateversion: nil,
+            filtered: nil)
 
         await VoiceWakeGlobalSettingsSync.shared.handle(push: .event(evt))
 
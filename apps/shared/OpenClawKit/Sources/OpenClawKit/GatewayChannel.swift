@@ -483,7 +483,8 @@ public actor GatewayChannelActor {
         case let .event(evt):
             if evt.event == "connect.challenge" { return }
             if let seq = evt.seq {
-                if let last = lastSeq, seq > last + 1 {
+                // Filtered streams skip broadcasts on purpose; a jump there is not a loss.
+                if let last = lastSeq, seq > last + 1, evt.filtered != true {
                     await self.pushHandler?(.seqGap(expected: last + 1, received: seq))
                 }
                 self.lastSeq = seq
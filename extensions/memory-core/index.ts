@@ -21,9 +21,21 @@ const memoryCorePlugin = {
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        const memoryFactTools = api.runtime.tools.createMemoryFactTools({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        return [memorySearchTool, memoryGetTool, ...(memoryFactTools ?? [])];
+      },
+      {
+        names: [
+          "memory_search",
+          "memory_get",
+          "memory_fact_set",
+          "memory_fact_query",
+          "memory_fact_expire",
+        ],
       },
-      { names: ["memory_search", "memory_get"] },
     );
 
     api.registerCli(
@@ -4,13 +4,18 @@ import { Type } from "@sinclair/typebox";
 import crypto from "node:crypto";
 import path from "node:path";
 import type { BashSandboxConfig } from "./bash-tools.shared.js";
+import {
+  type ExecApprovalAuditEntry,
+  recordExecApprovalAudit,
+} from "../infra/exec-approval-audit.js";
 import {
   type ExecAsk,
   type ExecHost,
   type ExecSecurity,
   type ExecApprovalsFile,
-  addAllowlistEntry,
+  addApprovalGrants,
   evaluateShellAllowlist,
+  formatExecAllowlistExplanation,
   maxAsk,
   minSecurity,
   requiresExecApproval,
@@ -40,7 +45,7 @@ import {
   tail,
 } from "./bash-process-registry.js";
 import {
-  buildDockerExecArgs,
+  buildSandboxExecArgv,
   buildSandboxEnv,
   chunkString,
   clampWithDefault,
@@ -52,6 +57,7 @@ import {
   truncateMiddle,
 } from "./bash-tools.shared.js";
 import { buildCursorPositionResponse, stripDsrRequests } from "./pty-dsr.js";
+import { formatSandboxEgressDenials, listSandboxEgressDenials } from "./sandbox/egress.js";
 import { getShellConfig, sanitizeBinaryOutput } from "./shell-utils.js";
 import { callGatewayTool } from "./tools/gateway.js";
 import { listNodes, resolveNodeIdFromList } from "./tools/nodes-utils.js";
@@ -155,6 +161,24 @@ type ExecProcessOutcome = {
   reason?: string;
 };
 
+/** Connections the egress proxy refused during the run fail the tool call so the agent sees why. */
+function applySandboxEgressDenials(
+  outcome: ExecProcessOutcome,
+  containerName: string,
+  startedAt: number,
+): ExecProcessOutcome {
+  const denials = listSandboxEgressDenials(containerName, startedAt);
+  if (denials.length === 0) {
+    return outcome;
+  }
+  const base = outcome.reason ?? (outcome.aggregated || "(no output)");
+  return {
+    ...outcome,
+    status: "failed",
+    reason: `${base}\n\n${formatSandboxEgressDenials(denials)}`,
+  };
+}
+
 type ExecProcessHandle = {
   session: ProcessSession;
   startedAt: number;
@@ -418,6 +442,12 @@ function emitExecSystemEvent(text: string, opts: { sessionKey?: string; contextK
   requestHeartbeatNow({ reason: "exec-event" });
 }
 
+function auditExecOutcome(entry: ExecApprovalAuditEntry) {
+  recordExecApprovalAudit(entry, (err) => {
+    logWarn(`exec: audit append failed: ${String(err)}`);
+  });
+}
+
 async function runExecProcess(opts: {
   command: string;
   workdir: string;
@@ -442,16 +472,13 @@ async function runExecProcess(opts: {
 
   if (opts.sandbox) {
     const { child: spawned } = await spawnWithFallback({
-      argv: [
-        "docker",
-        ...buildDockerExecArgs({
-          containerName: opts.sandbox.containerName,
-          command: opts.command,
-          workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
-          env: opts.env,
-          tty: opts.usePty,
-        }),
-      ],
+      argv: buildSandboxExecArgv({
+        sandbox: opts.sandbox,
+        command: opts.command,
+        workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
+        env: opts.env,
+        tty: opts.usePty,
+      }),
       options: {
         cwd: opts.workdir,
         env: process.env,
@@ -610,7 +637,11 @@ async function runExecProcess(opts: {
       return;
     }
     settled = true;
-    resolveFn?.(outcome);
+    resolveFn?.(
+      opts.sandbox
+        ? applySandboxEgressDenials(outcome, opts.sandbox.containerName, startedAt)
+        : outcome,
+    );
   };
 
   const finalizeTimeout = () => {
@@ -1055,6 +1086,8 @@ export function createExecTool(
         });
         let analysisOk = baseAllowlistEval.analysisOk;
         let allowlistSatisfied = false;
+        let allowlistReason: string | undefined;
+        let allowlistDenial: string | undefined;
         if (hostAsk === "on-miss" && hostSecurity === "allowlist" && analysisOk) {
           try {
             const approvalsSnapshot = await callGatewayTool<{ file: string }>(
@@ -1078,16 +1111,34 @@ export function createExecTool(
                 allowlist: resolved.allowlist,
                 safeBins: new Set(),
                 cwd: workdir,
+                workspaceDir: defaults?.cwd,
+                sessionKey: defaults?.sessionKey,
                 env,
                 platform: nodeInfo?.platform,
               });
               allowlistSatisfied = allowlistEval.allowlistSatisfied;
               analysisOk = allowlistEval.analysisOk;
+              allowlistReason = formatExecAllowlistExplanation(allowlistEval.explanations);
+              if (allowlistEval.denied) {
+                allowlistDenial = `${allowlistEval.denied.command}: ${allowlistEval.denied.reason}`;
+              }
             }
           } catch {
             // Fall back to requiring approval if node approvals cannot be fetched.
           }
         }
+        if (allowlistDenial) {
+          auditExecOutcome({
+            event: "denied",
+            command: params.command,
+            host: "node",
+            nodeId,
+            agentId,
+            sessionKey: defaults?.sessionKey,
+            reason: `allowlist-deny: ${allowlistDenial}`,
+          });
+          throw new Error(`exec denied: host=node ${allowlistDenial}`);
+        }
         const requiresAsk = requiresExecApproval({
           ask: hostAsk,
           security: hostSecurity,
@@ -1101,7 +1152,7 @@ export function createExecTool(
         );
         const buildInvokeParams = (
           approvedByAsk: boolean,
-          approvalDecision: "allow-once" | "allow-always" | null,
+          approvalDecision: "allow-once" | "allow-session" | "allow-always" | null,
           runId?: string,
         ) =>
           ({
@@ -1146,6 +1197,7 @@ export function createExecTool(
                   agentId,
                   resolvedPath: undefined,
                   sessionKey: defaults?.sessionKey,
+                  reason: allowlistReason,
                   timeoutMs: DEFAULT_APPROVAL_TIMEOUT_MS,
                 },
               );
@@ -1155,6 +1207,16 @@ export function createExecTool(
                   : undefined;
               decision = typeof decisionValue === "string" ? decisionValue : null;
             } catch {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                host: "node",
+                nodeId,
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: "approval-request-failed",
+              });
               emitExecSystemEvent(
                 `Exec denied (node=${nodeId} id=${approvalId}, approval-request-failed): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1163,7 +1225,7 @@ export function createExecTool(
             }
 
             let approvedByAsk = false;
-            let approvalDecision: "allow-once" | "allow-always" | null = null;
+            let approvalDecision: "allow-once" | "allow-session" | "allow-always" | null = null;
             let deniedReason: string | null = null;
 
             if (decision === "deny") {
@@ -1180,12 +1242,22 @@ export function createExecTool(
             } else if (decision === "allow-once") {
               approvedByAsk = true;
               approvalDecision = "allow-once";
-            } else if (decision === "allow-always") {
+            } else if (decision === "allow-session" || decision === "allow-always") {
               approvedByAsk = true;
-              approvalDecision = "allow-always";
+              approvalDecision = decision;
             }
 
             if (deniedReason) {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                host: "node",
+                nodeId,
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: deniedReason,
+              });
               emitExecSystemEvent(
                 `Exec denied (node=${nodeId} id=${approvalId}, ${deniedReason}): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1210,6 +1282,16 @@ export function createExecTool(
                 buildInvokeParams(approvedByAsk, approvalDecision, approvalId),
               );
             } catch {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                host: "node",
+                nodeId,
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: "invoke-failed",
+              });
               emitExecSystemEvent(
                 `Exec denied (node=${nodeId} id=${approvalId}, invoke-failed): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1288,9 +1370,25 @@ export function createExecTool(
           allowlist: approvals.allowlist,
           safeBins,
           cwd: workdir,
+          workspaceDir: defaults?.cwd,
+          sessionKey: defaults?.sessionKey,
           env,
           platform: process.platform,
         });
+        if (hostSecurity === "allowlist" && allowlistEval.denied) {
+          auditExecOutcome({
+            event: "denied",
+            command: params.command,
+            cwd: workdir,
+            host: "gateway",
+            agentId,
+            sessionKey: defaults?.sessionKey,
+            reason: `allowlist-deny: ${allowlistEval.denied.command}: ${allowlistEval.denied.reason}`,
+          });
+          throw new Error(
+            `exec denied: host=gateway ${allowlistEval.denied.command}: ${allowlistEval.denied.reason}`,
+          );
+        }
         const allowlistMatches = allowlistEval.allowlistMatches;
         const analysisOk = allowlistEval.analysisOk;
         const allowlistSatisfied =
@@ -1330,6 +1428,7 @@ export function createExecTool(
                   agentId,
                   resolvedPath,
                   sessionKey: defaults?.sessionKey,
+                  reason: formatExecAllowlistExplanation(allowlistEval.explanations),
                   timeoutMs: DEFAULT_APPROVAL_TIMEOUT_MS,
                 },
               );
@@ -1339,6 +1438,16 @@ export function createExecTool(
                   : undefined;
               decision = typeof decisionValue === "string" ? decisionValue : null;
             } catch {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                cwd: workdir,
+                host: "gateway",
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: "approval-request-failed",
+              });
               emitExecSystemEvent(
                 `Exec denied (gateway id=${approvalId}, approval-request-failed): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1365,15 +1474,16 @@ export function createExecTool(
               }
             } else if (decision === "allow-once") {
               approvedByAsk = true;
-            } else if (decision === "allow-always") {
+            } else if (decision === "allow-session" || decision === "allow-always") {
               approvedByAsk = true;
               if (hostSecurity === "allowlist") {
-                for (const segment of allowlistEval.segments) {
-                  const pattern = segment.resolution?.resolvedPath ?? "";
-                  if (pattern) {
-                    addAllowlistEntry(approvals.file, agentId, pattern);
-                  }
-                }
+                addApprovalGrants({
+                  approvals: approvals.file,
+                  agentId,
+                  decision,
+                  segments: allowlistEval.segments,
+                  sessionKey: defaults?.sessionKey,
+                });
               }
             }
 
@@ -1386,6 +1496,16 @@ export function createExecTool(
             }
 
             if (deniedReason) {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                cwd: workdir,
+                host: "gateway",
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: deniedReason,
+              });
               emitExecSystemEvent(
                 `Exec denied (gateway id=${approvalId}, ${deniedReason}): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1396,10 +1516,10 @@ export function createExecTool(
             if (allowlistMatches.length > 0) {
               const seen = new Set<string>();
               for (const match of allowlistMatches) {
-                if (seen.has(match.pattern)) {
+                if (seen.has(match.id ?? match.pattern)) {
                   continue;
                 }
-                seen.add(match.pattern);
+                seen.add(match.id ?? match.pattern);
                 recordAllowlistUse(
                   approvals.file,
                   agentId,
@@ -1428,6 +1548,16 @@ export function createExecTool(
                 timeoutSec: effectiveTimeout,
               });
             } catch {
+              auditExecOutcome({
+                event: "denied",
+                approvalId,
+                command: commandText,
+                cwd: workdir,
+                host: "gateway",
+                agentId,
+                sessionKey: defaults?.sessionKey,
+                reason: "spawn-failed",
+              });
               emitExecSystemEvent(
                 `Exec denied (gateway id=${approvalId}, spawn-failed): ${commandText}`,
                 { sessionKey: notifySessionKey, contextKey },
@@ -1454,6 +1584,17 @@ export function createExecTool(
             const output = normalizeNotifyOutput(
               tail(outcome.aggregated || "", DEFAULT_NOTIFY_TAIL_CHARS),
             );
+            auditExecOutcome({
+              event: "executed",
+              approvalId,
+              command: commandText,
+              cwd: workdir,
+              host: "gateway",
+              agentId,
+              sessionKey: defaults?.sessionKey,
+              exitCode: outcome.exitCode ?? undefined,
+              timedOut: outcome.timedOut || undefined,
+            });
             const exitLabel = outcome.timedOut ? "timeout" : `code ${outcome.exitCode ?? "?"}`;
             const summary = output
               ? `Exec finished (gateway id=${approvalId}, session=${run.session.id}, ${exitLabel})\n${output}`
@@ -1483,16 +1624,21 @@ export function createExecTool(
         }
 
         if (hostSecurity === "allowlist" && (!analysisOk || !allowlistSatisfied)) {
-          throw new Error("exec denied: allowlist miss");
+          const missReason = formatExecAllowlistExplanation(allowlistEval.explanations);
+          throw new Error(
+            missReason
+              ? `exec denied: allowlist miss\n${missReason}`
+              : "exec denied: allowlist miss",
+          );
         }
 
         if (allowlistMatches.length > 0) {
           const seen = new Set<string>();
           for (const match of allowlistMatches) {
-            if (seen.has(match.pattern)) {
+            if (seen.has(match.id ?? match.pattern)) {
               continue;
             }
-            seen.add(match.pattern);
+            seen.add(match.id ?? match.pattern);
             recordAllowlistUse(
               approvals.file,
               agentId,
@@ -3,6 +3,7 @@ import { existsSync, statSync } from "node:fs";
 import fs from "node:fs/promises";
 import { homedir } from "node:os";
 import path from "node:path";
+import type { SandboxRuntimeKind } from "./sandbox/types.js";
 import { sliceUtf16Safe } from "../utils.js";
 import { assertSandboxPath } from "./sandbox-paths.js";
 import { killProcessTree } from "./shell-utils.js";
@@ -14,6 +15,10 @@ export type BashSandboxConfig = {
   workspaceDir: string;
   containerWorkdir: string;
   env?: Record<string, string>;
+  /** Defaults to docker. */
+  runtime?: SandboxRuntimeKind;
+  /** Namespace + mount args for `bwrap` (bubblewrap runtime only). */
+  bubblewrapArgs?: string[];
 };
 
 export function buildSandboxEnv(params: {
@@ -48,6 +53,21 @@ export function coerceEnv(env?: NodeJS.ProcessEnv | Record<string, string>) {
   return record;
 }
 
+function resolveSandboxShellEnv(env: Record<string, string>, command: string) {
+  const hasCustomPath = typeof env.PATH === "string" && env.PATH.length > 0;
+  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
+  // overriding both Docker ENV and -e PATH=... environment variables.
+  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
+  // while preserving system paths that /etc/profile may have added.
+  // PATH travels via OPENCLAW_PREPEND_PATH instead of being interpolated into the command.
+  return {
+    prependPath: hasCustomPath ? env.PATH : undefined,
+    script: hasCustomPath
+      ? `export PATH="\${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; ${command}`
+      : command,
+  };
+}
+
 export function buildDockerExecArgs(params: {
   containerName: string;
   command: string;
@@ -65,22 +85,66 @@ export function buildDockerExecArgs(params: {
   for (const [key, value] of Object.entries(params.env)) {
     args.push("-e", `${key}=${value}`);
   }
-  const hasCustomPath = typeof params.env.PATH === "string" && params.env.PATH.length > 0;
-  if (hasCustomPath) {
-    // Avoid interpolating PATH into the shell command; pass it via env instead.
-    args.push("-e", `OPENCLAW_PREPEND_PATH=${params.env.PATH}`);
+  const shell = resolveSandboxShellEnv(params.env, params.command);
+  if (shell.prependPath) {
+    args.push("-e", `OPENCLAW_PREPEND_PATH=${shell.prependPath}`);
   }
-  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
-  // overriding both Docker ENV and -e PATH=... environment variables.
-  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
-  // while preserving system paths that /etc/profile may have added.
-  const pathExport = hasCustomPath
-    ? 'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; '
-    : "";
-  args.push(params.containerName, "sh", "-lc", `${pathExport}${params.command}`);
+  args.push(params.containerName, "sh", "-lc", shell.script);
   return args;
 }
 
+export function buildBubblewrapExecArgs(params: {
+  sandboxArgs: string[];
+  command: string;
+  workdir?: string;
+  env: Record<string, string>;
+}) {
+  const args = [...params.sandboxArgs, "--clearenv"];
+  for (const [key, value] of Object.entries(params.env)) {
+    args.push("--setenv", key, value);
+  }
+  const shell = resolveSandboxShellEnv(params.env, params.command);
+  if (shell.prependPath) {
+    args.push("--setenv", "OPENCLAW_PREPEND_PATH", shell.prependPath);
+  }
+  if (params.workdir) {
+    args.push("--chdir", params.workdir);
+  }
+  args.push("sh", "-lc", shell.script);
+  return args;
+}
+
+/** Full argv (binary first) for running a command inside the session sandbox. */
+export function buildSandboxExecArgv(params: {
+  sandbox: BashSandboxConfig;
+  command: string;
+  workdir?: string;
+  env: Record<string, string>;
+  tty: boolean;
+}): string[] {
+  if (params.sandbox.runtime === "bubblewrap") {
+    return [
+      "bwrap",
+      ...buildBubblewrapExecArgs({
+        sandboxArgs: params.sandbox.bubblewrapArgs ?? [],
+        command: params.command,
+        workdir: params.workdir,
+        env: params.env,
+      }),
+    ];
+  }
+  return [
+    params.sandbox.runtime === "podman" ? "podman" : "docker",
+    ...buildDockerExecArgs({
+      containerName: params.sandbox.containerName,
+      command: params.command,
+      workdir: params.workdir,
+      env: params.env,
+      tty: params.tty,
+    }),
+  ];
+}
+
 export async function resolveSandboxWorkdir(params: {
   workdir: string;
   sandbox: BashSandboxConfig;
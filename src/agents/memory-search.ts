@@ -63,6 +63,29 @@ export type ResolvedMemorySearchConfig = {
       textWeight: number;
       candidateMultiplier: number;
     };
+    rerank: {
+      provider: "none" | "voyage" | "http" | "local";
+      model?: string;
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+      local?: {
+        modelPath?: string;
+        modelCacheDir?: string;
+      };
+    };
+    recency: {
+      halfLifeDays: {
+        memory: number;
+        sessions: number;
+      };
+    };
+    mmr: {
+      enabled: boolean;
+      lambda: number;
+    };
   };
   cache: {
     enabled: boolean;
@@ -84,6 +107,9 @@ const DEFAULT_HYBRID_ENABLED = true;
 const DEFAULT_HYBRID_VECTOR_WEIGHT = 0.7;
 const DEFAULT_HYBRID_TEXT_WEIGHT = 0.3;
 const DEFAULT_HYBRID_CANDIDATE_MULTIPLIER = 4;
+const DEFAULT_MMR_LAMBDA = 0.7;
+const DEFAULT_MEMORY_HALF_LIFE_DAYS = 0;
+const DEFAULT_SESSIONS_HALF_LIFE_DAYS = 0;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -237,6 +263,28 @@ function mergeConfig(
       defaults?.query?.hybrid?.candidateMultiplier ??
       DEFAULT_HYBRID_CANDIDATE_MULTIPLIER,
   };
+  const rerankRemote = overrides?.query?.rerank?.remote ?? defaults?.query?.rerank?.remote;
+  const rerankLocal = overrides?.query?.rerank?.local ?? defaults?.query?.rerank?.local;
+  const rerank = {
+    provider: overrides?.query?.rerank?.provider ?? defaults?.query?.rerank?.provider ?? "none",
+    model: overrides?.query?.rerank?.model ?? defaults?.query?.rerank?.model,
+    remote: rerankRemote ? { ...rerankRemote } : undefined,
+    local: rerankLocal ? { ...rerankLocal } : undefined,
+  };
+  const halfLifeDays = {
+    memory:
+      overrides?.query?.recency?.halfLifeDays?.memory ??
+      defaults?.query?.recency?.halfLifeDays?.memory ??
+      DEFAULT_MEMORY_HALF_LIFE_DAYS,
+    sessions:
+      overrides?.query?.recency?.halfLifeDays?.sessions ??
+      defaults?.query?.recency?.halfLifeDays?.sessions ??
+      DEFAULT_SESSIONS_HALF_LIFE_DAYS,
+  };
+  const mmr = {
+    enabled: overrides?.query?.mmr?.enabled ?? defaults?.query?.mmr?.enabled ?? false,
+    lambda: overrides?.query?.mmr?.lambda ?? defaults?.query?.mmr?.lambda ?? DEFAULT_MMR_LAMBDA,
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -282,6 +330,17 @@ function mergeConfig(
         textWeight: normalizedTextWeight,
         candidateMultiplier,
       },
+      rerank,
+      recency: {
+        halfLifeDays: {
+          memory: Math.max(0, halfLifeDays.memory),
+          sessions: Math.max(0, halfLifeDays.sessions),
+        },
+      },
+      mmr: {
+        enabled: Boolean(mmr.enabled),
+        lambda: clampNumber(mmr.lambda, 0, 1),
+      },
     },
     cache: {
       enabled: Boolean(cache.enabled),
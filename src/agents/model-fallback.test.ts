@@ -8,6 +8,7 @@ import type { AuthProfileStore } from "./auth-profiles.js";
 import { saveAuthProfileStore } from "./auth-profiles.js";
 import { AUTH_STORE_VERSION } from "./auth-profiles/constants.js";
 import { runWithModelFallback } from "./model-fallback.js";
+import { getModelHealth, recordModelAttempt, resetModelRoutingForTests } from "./model-routing.js";
 
 function makeCfg(overrides: Partial<OpenClawConfig> = {}): OpenClawConfig {
   return {
@@ -541,4 +542,101 @@ describe("runWithModelFallback", () => {
     expect(result.provider).toBe("openai");
     expect(result.model).toBe("gpt-4.1-mini");
   });
+
+  it("skips a provider for later runs once its circuit opens", async () => {
+    resetModelRoutingForTests();
+    const cfg = makeCfg({
+      agents: {
+        defaults: {
+          model: {
+            primary: "openai/gpt-4.1-mini",
+            fallbacks: ["anthropic/claude-haiku-3-5"],
+          },
+          modelRouting: { circuitBreaker: { failureThreshold: 2 } },
+        },
+      },
+    });
+    const overloaded = () => Object.assign(new Error("overloaded"), { status: 429 });
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(overloaded())
+      .mockResolvedValueOnce("first")
+      .mockRejectedValueOnce(overloaded())
+      .mockResolvedValueOnce("second")
+      .mockResolvedValueOnce("third");
+
+    for (const expected of ["first", "second"]) {
+      const result = await runWithModelFallback({
+        cfg,
+        provider: "openai",
+        model: "gpt-4.1-mini",
+        run,
+      });
+      expect(result.result).toBe(expected);
+    }
+    const third = await runWithModelFallback({
+      cfg,
+      provider: "openai",
+      model: "gpt-4.1-mini",
+      run,
+    });
+
+    expect(third.result).toBe("third");
+    expect(third.provider).toBe("anthropic");
+    expect(third.attempts[0]?.error).toContain("circuit open");
+    expect(run).toHaveBeenCalledTimes(5);
+    resetModelRoutingForTests();
+  });
+
+  it("keeps an explicit model override first and records provider latency and cost", async () => {
+    resetModelRoutingForTests();
+    const cfg = makeCfg({
+      agents: {
+        defaults: {
+          model: {
+            primary: "openai/gpt-4.1-mini",
+            fallbacks: ["anthropic/claude-haiku-3-5", "google/gemini-2.5-flash"],
+          },
+          modelRouting: { mode: "cheapest-healthy" },
+        },
+      },
+    });
+    recordModelAttempt({
+      cfg,
+      provider: "google",
+      model: "gemini-2.5-flash",
+      ok: true,
+      costUsd: 0.001,
+      usage: { input: 1_000, output: 100 },
+    });
+    const run = vi.fn().mockResolvedValue({
+      meta: {
+        durationMs: 60_000,
+        firstTokenMs: 400,
+        agentMeta: { costUsd: 0.2, usage: { input: 1_000, output: 100 } },
+      },
+    });
+
+    const pinned = await runWithModelFallback({
+      cfg,
+      provider: "anthropic",
+      model: "claude-haiku-3-5",
+      run,
+    });
+    expect(pinned.provider).toBe("anthropic");
+    expect(getModelHealth("anthropic", "claude-haiku-3-5")).toMatchObject({
+      p50LatencyMs: 400,
+      tokens: { input: 1_000, output: 100, cacheRead: 0, cacheWrite: 0 },
+    });
+
+    // The configured primary is not an override, so routing reorders it.
+    const routed = await runWithModelFallback({
+      cfg,
+      provider: "openai",
+      model: "gpt-4.1-mini",
+      run,
+    });
+    expect(routed.provider).toBe("google");
+    resetModelRoutingForTests();
+  });
 });
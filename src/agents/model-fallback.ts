@@ -1,4 +1,5 @@
 import type { OpenClawConfig } from "../config/config.js";
+import type { UsageTotals } from "../utils/usage-format.js";
 import type { FailoverReason } from "./pi-embedded-helpers.js";
 import {
   ensureAuthProfileStore,
@@ -12,6 +13,7 @@ import {
   isFailoverError,
   isTimeoutError,
 } from "./failover-error.js";
+import { isProviderCircuitOpen, rankModelCandidates, recordModelAttempt } from "./model-routing.js";
 import {
   buildConfiguredAllowlistKeys,
   buildModelAliasIndex,
@@ -125,6 +127,45 @@ function resolveImageFallbackCandidates(params: {
   return candidates;
 }
 
+/**
+ * Routing samples from an agent run result: provider latency (time to first token), token
+ * usage and the cost the provider reported. Results without them (e.g. CLI backends) record health only.
+ */
+function resolveRunTelemetry(result: unknown): {
+  latencyMs?: number;
+  costUsd?: number;
+  usage?: UsageTotals;
+} {
+  const meta = (result as { meta?: unknown } | null)?.meta as
+    | { firstTokenMs?: unknown; agentMeta?: { costUsd?: unknown; usage?: UsageTotals } }
+    | undefined;
+  const finite = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+  return {
+    latencyMs: finite(meta?.firstTokenMs),
+    costUsd: finite(meta?.agentMeta?.costUsd),
+    usage: meta?.agentMeta?.usage,
+  };
+}
+
+/**
+ * A requested model other than the configured primary was picked explicitly (`/model`,
+ * `--model`, a hook or cron job model); routing must not move it behind the fallbacks.
+ */
+function isExplicitModelOverride(cfg: OpenClawConfig | undefined, candidate?: ModelCandidate) {
+  if (!cfg || !candidate) {
+    return false;
+  }
+  const primary = resolveConfiguredModelRef({
+    cfg,
+    defaultProvider: DEFAULT_PROVIDER,
+    defaultModel: DEFAULT_MODEL,
+  });
+  return (
+    modelKey(primary.provider, primary.model) !== modelKey(candidate.provider, candidate.model)
+  );
+}
+
 function resolveFallbackCandidates(params: {
   cfg: OpenClawConfig | undefined;
   provider: string;
@@ -225,12 +266,15 @@ export async function runWithModelFallback<T>(params: {
   model: string;
   attempts: FallbackAttempt[];
 }> {
-  const candidates = resolveFallbackCandidates({
+  const resolved = resolveFallbackCandidates({
     cfg: params.cfg,
     provider: params.provider,
     model: params.model,
     fallbacksOverride: params.fallbacksOverride,
   });
+  const candidates = isExplicitModelOverride(params.cfg, resolved[0])
+    ? [resolved[0], ...rankModelCandidates(params.cfg, resolved.slice(1))]
+    : rankModelCandidates(params.cfg, resolved);
   const authStore = params.cfg
     ? ensureAuthProfileStore(params.agentDir, { allowKeychainPrompt: false })
     : null;
@@ -258,8 +302,24 @@ export async function runWithModelFallback<T>(params: {
         continue;
       }
     }
+    if (isProviderCircuitOpen(params.cfg, candidate.provider)) {
+      attempts.push({
+        provider: candidate.provider,
+        model: candidate.model,
+        error: `Provider ${candidate.provider} is temporarily disabled (circuit open after repeated failures)`,
+        reason: "unknown",
+      });
+      continue;
+    }
     try {
       const result = await params.run(candidate.provider, candidate.model);
+      recordModelAttempt({
+        cfg: params.cfg,
+        provider: candidate.provider,
+        model: candidate.model,
+        ok: true,
+        ...resolveRunTelemetry(result),
+      });
       return {
         result,
         provider: candidate.provider,
@@ -281,6 +341,13 @@ export async function runWithModelFallback<T>(params: {
 
       lastError = normalized;
       const described = describeFailoverError(normalized);
+      recordModelAttempt({
+        cfg: params.cfg,
+        provider: candidate.provider,
+        model: candidate.model,
+        ok: false,
+        reason: described.reason,
+      });
       attempts.push({
         provider: candidate.provider,
         model: candidate.model,
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  getModelHealth,
+  isProviderCircuitOpen,
+  rankModelCandidates,
+  recordModelAttempt,
+  resetModelRoutingForTests,
+  resolveModelTokenPrice,
+} from "./model-routing.js";
+
+const candidates = [
+  { provider: "anthropic", model: "claude-opus-4-5" },
+  { provider: "openai", model: "gpt-4.1-mini" },
+  { provider: "ollama", model: "llama3" },
+];
+
+function makeCfg(modelRouting: Record<string, unknown>): OpenClawConfig {
+  return { agents: { defaults: { modelRouting } } } as OpenClawConfig;
+}
+
+const usage = { input: 10_000, output: 2_000 };
+
+function record(
+  provider: string,
+  model: string,
+  ok: boolean,
+  latencyMs?: number,
+  costUsd?: number,
+  now = 1_000,
+) {
+  recordModelAttempt({
+    cfg: undefined,
+    provider,
+    model,
+    ok,
+    latencyMs,
+    costUsd,
+    usage: costUsd === undefined ? undefined : usage,
+    reason: ok ? undefined : "timeout",
+    now,
+  });
+}
+
+describe("model routing", () => {
+  beforeEach(() => {
+    resetModelRoutingForTests();
+  });
+
+  it("orders candidates by cost, latency or a weighted score", () => {
+    for (const latency of [900, 1100, 1000]) {
+      record("anthropic", "claude-opus-4-5", true, latency, 0.3);
+      record("openai", "gpt-4.1-mini", true, latency * 3, 0.01);
+    }
+    const health = getModelHealth("anthropic", "claude-opus-4-5", 1_000);
+    expect(health).toMatchObject({
+      samples: 3,
+      errorRate: 0,
+      p50LatencyMs: 1000,
+      tokens: { input: 30_000, output: 6_000, cacheRead: 0, cacheWrite: 0 },
+    });
+    expect(health.reportedCostPerMTokUsd).toBeCloseTo(25);
+
+    const order = (mode: string) =>
+      rankModelCandidates(makeCfg({ mode }), candidates, 1_000).map((entry) => entry.provider);
+    expect(order("ordered")).toEqual(["anthropic", "openai", "ollama"]);
+    // Unsampled ollama ranks at the median of the known values, not last.
+    expect(order("cheapest-healthy")).toEqual(["openai", "ollama", "anthropic"]);
+    expect(order("fastest")).toEqual(["anthropic", "ollama", "openai"]);
+
+    // openai keeps failing: it drops behind healthy models even though it is cheapest.
+    for (let i = 0; i < 4; i += 1) {
+      record("openai", "gpt-4.1-mini", false);
+    }
+    expect(order("cheapest-healthy")).toEqual(["ollama", "anthropic", "openai"]);
+    expect(
+      rankModelCandidates(
+        makeCfg({ mode: "weighted", weights: { errorRate: 0 } }),
+        candidates,
+        1_000,
+      ).map((entry) => entry.provider),
+    ).toEqual(["ollama", "openai", "anthropic"]);
+  });
+
+  it("prices candidates with configured per-token rates over reported cost", () => {
+    for (const latency of [900, 1100, 1000]) {
+      record("anthropic", "claude-opus-4-5", true, latency, 0.3);
+      record("openai", "gpt-4.1-mini", true, latency, 0.01);
+    }
+    const rates = (input: number, output: number) => ({
+      input,
+      output,
+      cacheRead: 0,
+      cacheWrite: 0,
+    });
+    const cfg = {
+      ...makeCfg({ mode: "cheapest-healthy" }),
+      models: {
+        providers: {
+          anthropic: { models: [{ id: "claude-opus-4-5", cost: rates(0.1, 0.1) }] },
+          ollama: { models: [{ id: "llama3", cost: rates(1, 3) }] },
+        },
+      },
+    } as unknown as OpenClawConfig;
+
+    expect(
+      resolveModelTokenPrice(
+        cfg,
+        "anthropic",
+        "claude-opus-4-5",
+        getModelHealth("anthropic", "claude-opus-4-5", 1_000),
+      ),
+    ).toBeCloseTo(0.1);
+    // Before any run the configured input and output rates count evenly.
+    expect(
+      resolveModelTokenPrice(cfg, "ollama", "llama3", getModelHealth("ollama", "llama3", 1_000)),
+    ).toBe(2);
+    expect(rankModelCandidates(cfg, candidates, 1_000).map((entry) => entry.provider)).toEqual([
+      "anthropic",
+      "openai",
+      "ollama",
+    ]);
+  });
+
+  it("opens the provider circuit after repeated provider failures and probes after cooldown", () => {
+    const cfg = makeCfg({
+      circuitBreaker: { failureThreshold: 2, windowSeconds: 60, cooldownSeconds: 30 },
+    });
+    const fail = (now: number, reason: "timeout" | "auth" = "timeout") =>
+      recordModelAttempt({
+        cfg,
+        provider: "openai",
+        model: "gpt-4.1-mini",
+        ok: false,
+        reason,
+        now,
+      });
+
+    fail(0, "auth");
+    fail(1_000);
+    expect(isProviderCircuitOpen(cfg, "openai", 1_000)).toBe(false);
+    fail(2_000);
+    expect(isProviderCircuitOpen(cfg, "OpenAI", 2_000)).toBe(true);
+    expect(isProviderCircuitOpen(makeCfg({}), "openai", 2_000)).toBe(false);
+
+    // One probe after the cooldown; a failed probe re-opens immediately.
+    expect(isProviderCircuitOpen(cfg, "openai", 33_000)).toBe(false);
+    expect(isProviderCircuitOpen(cfg, "openai", 33_000)).toBe(true);
+    fail(34_000);
+    expect(isProviderCircuitOpen(cfg, "openai", 40_000)).toBe(true);
+
+    expect(isProviderCircuitOpen(cfg, "openai", 65_000)).toBe(false);
+    recordModelAttempt({ cfg, provider: "openai", model: "gpt-4.1-mini", ok: true, now: 66_000 });
+    expect(isProviderCircuitOpen(cfg, "openai", 66_000)).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { AgentModelRoutingConfig, ModelRoutingMode } from "../config/types.agent-defaults.js";
+import type { FailoverReason } from "./pi-embedded-helpers.js";
+import {
+  estimateUsageCost,
+  resolveModelCostConfig,
+  type UsageTotals,
+} from "../utils/usage-format.js";
+import { modelKey } from "./model-selection.js";
+
+type RoutingCandidate = {
+  provider: string;
+  model: string;
+};
+
+type ModelSample = {
+  at: number;
+  ok: boolean;
+  latencyMs?: number;
+  costUsd?: number;
+  usage?: UsageTotals;
+};
+
+type TokenMix = { input: number; output: number; cacheRead: number; cacheWrite: number };
+
+type ProviderCircuit = {
+  failures: number[];
+  openUntil?: number;
+  /** When the single post-cooldown probe was let through. */
+  probeStartedAt?: number;
+};
+
+export type ModelHealth = {
+  samples: number;
+  errorRate: number;
+  p50LatencyMs?: number;
+  /** Tokens used by successful runs, by kind; configured rates are weighted by this mix. */
+  tokens?: TokenMix;
+  /** Provider-reported cost per million tokens, over runs that reported both. */
+  reportedCostPerMTokUsd?: number;
+};
+
+const MAX_SAMPLES_PER_MODEL = 50;
+const SAMPLE_MAX_AGE_MS = 30 * 60_000;
+/** Below this many samples a model's error rate is not trusted for health checks. */
+const MIN_SAMPLES_FOR_HEALTH = 3;
+
+const DEFAULT_MAX_ERROR_RATE = 0.5;
+const DEFAULT_WEIGHTS = { latency: 1, errorRate: 2, cost: 1 };
+const DEFAULT_BREAKER_THRESHOLD = 5;
+const DEFAULT_BREAKER_WINDOW_MS = 60_000;
+const DEFAULT_BREAKER_COOLDOWN_MS = 5 * 60_000;
+
+// Failures that say something about the provider, not the request or the credential.
+const BREAKER_REASONS = new Set<FailoverReason>(["rate_limit", "timeout", "unknown"]);
+
+// Shared by every session in the process so one failing provider is skipped everywhere.
+const modelSamples = new Map<string, ModelSample[]>();
+const providerCircuits = new Map<string, ProviderCircuit>();
+
+function resolveRoutingConfig(cfg: OpenClawConfig | undefined): AgentModelRoutingConfig {
+  return cfg?.agents?.defaults?.modelRouting ?? {};
+}
+
+function resolveBreakerSettings(cfg: OpenClawConfig | undefined) {
+  const breaker = resolveRoutingConfig(cfg).circuitBreaker;
+  if (!breaker || breaker.enabled === false) {
+    return null;
+  }
+  const seconds = (value: number | undefined, fallbackMs: number) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value * 1000 : fallbackMs;
+  return {
+    threshold: Math.max(1, Math.floor(breaker.failureThreshold ?? DEFAULT_BREAKER_THRESHOLD)),
+    windowMs: seconds(breaker.windowSeconds, DEFAULT_BREAKER_WINDOW_MS),
+    cooldownMs: seconds(breaker.cooldownSeconds, DEFAULT_BREAKER_COOLDOWN_MS),
+  };
+}
+
+function normalizeProvider(provider: string) {
+  return provider.trim().toLowerCase();
+}
+
+export function recordModelAttempt(params: {
+  cfg: OpenClawConfig | undefined;
+  provider: string;
+  model: string;
+  ok: boolean;
+  /** Time to first token (or the provider call), not the whole agent turn. */
+  latencyMs?: number;
+  /** Cost recorded from the provider's usage report. */
+  costUsd?: number;
+  /** Token counts from the provider's usage report. */
+  usage?: UsageTotals;
+  reason?: FailoverReason;
+  now?: number;
+}) {
+  const now = params.now ?? Date.now();
+  const key = modelKey(params.provider, params.model);
+  const samples = (modelSamples.get(key) ?? []).filter(
+    (sample) => now - sample.at <= SAMPLE_MAX_AGE_MS,
+  );
+  samples.push({
+    at: now,
+    ok: params.ok,
+    latencyMs: params.ok ? params.latencyMs : undefined,
+    costUsd: params.ok ? params.costUsd : undefined,
+    usage: params.ok ? params.usage : undefined,
+  });
+  modelSamples.set(key, samples.slice(-MAX_SAMPLES_PER_MODEL));
+
+  const breaker = resolveBreakerSettings(params.cfg);
+  if (!breaker) {
+    return;
+  }
+  const providerId = normalizeProvider(params.provider);
+  const circuit = providerCircuits.get(providerId) ?? { failures: [] };
+  if (params.ok) {
+    providerCircuits.delete(providerId);
+    return;
+  }
+  const probing = circuit.probeStartedAt !== undefined;
+  if (!params.reason || !BREAKER_REASONS.has(params.reason)) {
+    if (probing) {
+      // The probe reached the provider and got a request-level answer; it is up.
+      providerCircuits.delete(providerId);
+    }
+    return;
+  }
+  circuit.failures = circuit.failures.filter((at) => now - at <= breaker.windowMs);
+  circuit.failures.push(now);
+  if (probing || circuit.failures.length >= breaker.threshold) {
+    circuit.openUntil = now + breaker.cooldownMs;
+    circuit.failures = [];
+    circuit.probeStartedAt = undefined;
+  }
+  providerCircuits.set(providerId, circuit);
+}
+
+/**
+ * True while the provider's circuit is open. Once the cooldown elapses one caller
+ * is let through as a probe; its outcome closes or re-opens the circuit.
+ */
+export function isProviderCircuitOpen(
+  cfg: OpenClawConfig | undefined,
+  provider: string,
+  now = Date.now(),
+): boolean {
+  const breaker = resolveBreakerSettings(cfg);
+  if (!breaker) {
+    return false;
+  }
+  const circuit = providerCircuits.get(normalizeProvider(provider));
+  if (!circuit?.openUntil) {
+    return false;
+  }
+  if (now < circuit.openUntil) {
+    return true;
+  }
+  // A probe that never reported back (e.g. the process moved on) expires after a cooldown.
+  if (circuit.probeStartedAt !== undefined && now - circuit.probeStartedAt < breaker.cooldownMs) {
+    return true;
+  }
+  circuit.probeStartedAt = now;
+  return false;
+}
+
+function readTokenMix(usage: UsageTotals | undefined) {
+  const value = (entry: number | undefined) =>
+    typeof entry === "number" && Number.isFinite(entry) && entry > 0 ? entry : 0;
+  return {
+    input: value(usage?.input),
+    output: value(usage?.output),
+    cacheRead: value(usage?.cacheRead),
+    cacheWrite: value(usage?.cacheWrite),
+  };
+}
+
+function totalTokens(mix: TokenMix) {
+  return mix.input + mix.output + mix.cacheRead + mix.cacheWrite;
+}
+
+export function getModelHealth(provider: string, model: string, now = Date.now()): ModelHealth {
+  const samples = (modelSamples.get(modelKey(provider, model)) ?? []).filter(
+    (sample) => now - sample.at <= SAMPLE_MAX_AGE_MS,
+  );
+  const failures = samples.filter((sample) => !sample.ok).length;
+  const latencies = samples
+    .map((sample) => sample.latencyMs)
+    .filter((value): value is number => typeof value === "number")
+    .toSorted((a, b) => a - b);
+  const tokens: TokenMix = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+  let reportedCost = 0;
+  let reportedTokens = 0;
+  for (const sample of samples) {
+    const mix = readTokenMix(sample.usage);
+    tokens.input += mix.input;
+    tokens.output += mix.output;
+    tokens.cacheRead += mix.cacheRead;
+    tokens.cacheWrite += mix.cacheWrite;
+    if (typeof sample.costUsd === "number" && totalTokens(mix) > 0) {
+      reportedCost += sample.costUsd;
+      reportedTokens += totalTokens(mix);
+    }
+  }
+  return {
+    samples: samples.length,
+    errorRate: samples.length > 0 ? failures / samples.length : 0,
+    p50LatencyMs:
+      latencies.length > 0 ? latencies[Math.floor((latencies.length - 1) / 2)] : undefined,
+    tokens: totalTokens(tokens) > 0 ? tokens : undefined,
+    reportedCostPerMTokUsd:
+      reportedTokens > 0 ? (reportedCost / reportedTokens) * 1_000_000 : undefined,
+  };
+}
+
+/**
+ * USD per million tokens. Configured (catalog) rates are used when known, the same rates
+ * session cost reports price transcripts with, weighted by the model's observed token mix
+ * (input and output evenly before it has run). Otherwise the provider-reported cost per token.
+ */
+export function resolveModelTokenPrice(
+  cfg: OpenClawConfig | undefined,
+  provider: string,
+  model: string,
+  health: ModelHealth,
+): number | undefined {
+  const rates = resolveModelCostConfig({ provider, model, config: cfg });
+  if (rates) {
+    const mix = health.tokens ?? { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 };
+    const cost = estimateUsageCost({ usage: mix, cost: rates });
+    return cost === undefined ? undefined : (cost / totalTokens(mix)) * 1_000_000;
+  }
+  return health.reportedCostPerMTokUsd;
+}
+
+/** Scale to 0..1 against the largest known value; unknown values land in the middle. */
+function normalizeAgainstMax(value: number | undefined, max: number) {
+  if (value === undefined) {
+    return 0.5;
+  }
+  return max > 0 ? value / max : 0;
+}
+
+/** Median of the known values; unmeasured candidates rank as typical, not as worst. */
+function neutralValue(values: Array<number | undefined>) {
+  const known = values
+    .filter((value): value is number => value !== undefined)
+    .toSorted((a, b) => a - b);
+  if (known.length === 0) {
+    return 0;
+  }
+  const mid = Math.floor(known.length / 2);
+  return known.length % 2 === 1 ? known[mid] : (known[mid - 1] + known[mid]) / 2;
+}
+
+function isHealthy(health: ModelHealth, maxErrorRate: number) {
+  return health.samples < MIN_SAMPLES_FOR_HEALTH || health.errorRate <= maxErrorRate;
+}
+
+/**
+ * Reorder fallback candidates according to `agents.defaults.modelRouting.mode`.
+ * "ordered" keeps the configured order; the other modes only change the order, so
+ * every candidate stays available as a fallback.
+ */
+export function rankModelCandidates<T extends RoutingCandidate>(
+  cfg: OpenClawConfig | undefined,
+  candidates: T[],
+  now = Date.now(),
+): T[] {
+  const routing = resolveRoutingConfig(cfg);
+  const mode: ModelRoutingMode = routing.mode ?? "ordered";
+  if (mode === "ordered" || candidates.length <= 1) {
+    return candidates;
+  }
+  const maxErrorRate = routing.maxErrorRate ?? DEFAULT_MAX_ERROR_RATE;
+  const scored = candidates.map((candidate, index) => {
+    const health = getModelHealth(candidate.provider, candidate.model, now);
+    return {
+      candidate,
+      index,
+      health,
+      healthy: isHealthy(health, maxErrorRate),
+      cost: resolveModelTokenPrice(cfg, candidate.provider, candidate.model, health),
+    };
+  });
+  const byIndex = (a: (typeof scored)[number], b: (typeof scored)[number]) => a.index - b.index;
+  const healthyFirst = (a: (typeof scored)[number], b: (typeof scored)[number]) =>
+    Number(b.healthy) - Number(a.healthy);
+
+  let ranked: typeof scored;
+  if (mode === "cheapest-healthy") {
+    const neutralCost = neutralValue(scored.map((entry) => entry.cost));
+    ranked = scored.toSorted(
+      (a, b) =>
+        healthyFirst(a, b) || (a.cost ?? neutralCost) - (b.cost ?? neutralCost) || byIndex(a, b),
+    );
+  } else if (mode === "fastest") {
+    const neutralLatency = neutralValue(scored.map((entry) => entry.health.p50LatencyMs));
+    ranked = scored.toSorted(
+      (a, b) =>
+        healthyFirst(a, b) ||
+        (a.health.p50LatencyMs ?? neutralLatency) - (b.health.p50LatencyMs ?? neutralLatency) ||
+        byIndex(a, b),
+    );
+  } else {
+    const weights = { ...DEFAULT_WEIGHTS, ...routing.weights };
+    const maxLatency = Math.max(0, ...scored.map((entry) => entry.health.p50LatencyMs ?? 0));
+    const maxCost = Math.max(0, ...scored.map((entry) => entry.cost ?? 0));
+    const score = (entry: (typeof scored)[number]) =>
+      weights.latency * normalizeAgainstMax(entry.health.p50LatencyMs, maxLatency) +
+      weights.errorRate * entry.health.errorRate +
+      weights.cost * normalizeAgainstMax(entry.cost, maxCost);
+    ranked = scored.toSorted((a, b) => score(a) - score(b) || byIndex(a, b));
+  }
+  return ranked.map((entry) => entry.candidate);
+}
+
+export function resetModelRoutingForTests() {
+  modelSamples.clear();
+  providerCircuits.clear();
+}
@@ -387,6 +387,7 @@ export async function runEmbeddedPiAgent(
       let overflowCompactionAttempts = 0;
       let toolResultTruncationAttempted = false;
       const usageAccumulator = createUsageAccumulator();
+      let costAccumulator = 0;
       let autoCompactionCount = 0;
       try {
         while (true) {
@@ -458,6 +459,7 @@ export async function runEmbeddedPiAgent(
             usageAccumulator,
             attempt.attemptUsage ?? normalizeUsage(lastAssistant?.usage as UsageLike),
           );
+          costAccumulator += attempt.attemptCostUsd ?? 0;
           autoCompactionCount += Math.max(0, attempt.compactionCount ?? 0);
           const formattedAssistantErrorText = lastAssistant
             ? formatAssistantErrorText(lastAssistant, {
@@ -802,6 +804,7 @@ export async function runEmbeddedPiAgent(
             provider: lastAssistant?.provider ?? provider,
             model: lastAssistant?.model ?? model.id,
             usage,
+            costUsd: costAccumulator > 0 ? costAccumulator : undefined,
             compactionCount: autoCompactionCount > 0 ? autoCompactionCount : undefined,
           };
 
@@ -838,6 +841,7 @@ export async function runEmbeddedPiAgent(
             payloads: payloads.length ? payloads : undefined,
             meta: {
               durationMs: Date.now() - started,
+              firstTokenMs: attempt.firstTokenMs,
               agentMeta,
               aborted,
               systemPromptReport: attempt.systemPromptReport,
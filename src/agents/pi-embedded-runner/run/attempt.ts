@@ -155,6 +155,7 @@ export async function runEmbeddedAttempt(
     config: params.config,
     sessionKey: sandboxSessionKey,
     workspaceDir: resolvedWorkspace,
+    snapshotWorkspace: true,
   });
   const effectiveWorkspace = sandbox?.enabled
     ? sandbox.workspaceAccess === "rw"
@@ -228,6 +229,8 @@ export async function runEmbeddedAttempt(
           senderE164: params.senderE164,
           senderIsOwner: params.senderIsOwner,
           sessionKey: params.sessionKey ?? params.sessionId,
+          sessionId: params.sessionId,
+          runId: params.runId,
           agentDir,
           workspaceDir: effectiveWorkspace,
           config: params.config,
@@ -621,6 +624,9 @@ export async function runEmbeddedAttempt(
         });
       };
 
+      // Provider latency: prompt dispatch until the first assistant message starts streaming.
+      let providerCallStartedAt: number | undefined;
+      let firstAssistantStartAt: number | undefined;
       const subscription = subscribeEmbeddedPiSession({
         session: activeSession,
         runId: params.runId,
@@ -636,7 +642,10 @@ export async function runEmbeddedAttempt(
         blockReplyBreak: params.blockReplyBreak,
         blockReplyChunking: params.blockReplyChunking,
         onPartialReply: params.onPartialReply,
-        onAssistantMessageStart: params.onAssistantMessageStart,
+        onAssistantMessageStart: () => {
+          firstAssistantStartAt ??= Date.now();
+          return params.onAssistantMessageStart?.();
+        },
         onAgentEvent: params.onAgentEvent,
         enforceFinalTag: params.enforceFinalTag,
       });
@@ -651,6 +660,7 @@ export async function runEmbeddedAttempt(
         didSendViaMessagingTool,
         getLastToolError,
         getUsageTotals,
+        getCostTotal,
         getCompactionCount,
       } = subscription;
 
@@ -814,6 +824,7 @@ export async function runEmbeddedAttempt(
             });
           }
 
+          providerCallStartedAt = Date.now();
           // Only pass images option if there are actually images to pass
           // This avoids potential issues with models that don't expect the images parameter
           if (imageResult.images.length > 0) {
@@ -911,6 +922,11 @@ export async function runEmbeddedAttempt(
           lastAssistant?.errorMessage && isCloudCodeAssistFormatError(lastAssistant.errorMessage),
         ),
         attemptUsage: getUsageTotals(),
+        attemptCostUsd: getCostTotal(),
+        firstTokenMs:
+          providerCallStartedAt !== undefined && firstAssistantStartAt !== undefined
+            ? Math.max(0, firstAssistantStartAt - providerCallStartedAt)
+            : undefined,
         compactionCount: getCompactionCount(),
         // Client tool call detected (OpenResponses hosted tools)
         clientToolCall: clientToolCallDetected ?? undefined,
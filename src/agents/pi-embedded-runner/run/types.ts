@@ -108,6 +108,10 @@ export type EmbeddedRunAttemptResult = {
   messagingToolSentTargets: MessagingToolSend[];
   cloudCodeAssistFormatError: boolean;
   attemptUsage?: NormalizedUsage;
+  /** Provider-reported cost of this attempt (sum of `usage.cost.total`). */
+  attemptCostUsd?: number;
+  /** Time from prompt dispatch to the first assistant message start. */
+  firstTokenMs?: number;
   compactionCount?: number;
   /** Client tool call detected (OpenResponses hosted tools). */
   clientToolCall?: { name: string; params: Record<string, unknown> };
@@ -13,10 +13,14 @@ export type EmbeddedPiAgentMeta = {
     cacheWrite?: number;
     total?: number;
   };
+  /** Provider-reported cost of the run, when the provider returns one. */
+  costUsd?: number;
 };
 
 export type EmbeddedPiRunMeta = {
   durationMs: number;
+  /** Time to the first assistant output of the final attempt (provider latency). */
+  firstTokenMs?: number;
   agentMeta?: EmbeddedPiAgentMeta;
   aborted?: boolean;
   systemPromptReport?: SessionSystemPromptReport;
@@ -77,6 +77,8 @@ export function subscribeEmbeddedPiSession(params: SubscribeEmbeddedPiSessionPar
     cacheWrite: 0,
     total: 0,
   };
+  // Provider-reported cost (usage.cost.total), summed across the run's assistant messages.
+  let costTotal = 0;
   let compactionCount = 0;
 
   const assistantTexts = state.assistantTexts;
@@ -232,6 +234,10 @@ export function subscribeEmbeddedPiSession(params: SubscribeEmbeddedPiSessionPar
     }
   };
   const recordAssistantUsage = (usageLike: unknown) => {
+    const cost = (usageLike as { cost?: { total?: unknown } } | undefined)?.cost?.total;
+    if (typeof cost === "number" && Number.isFinite(cost) && cost > 0) {
+      costTotal += cost;
+    }
     const usage = normalizeUsage((usageLike ?? undefined) as UsageLike | undefined);
     if (!hasNonzeroUsage(usage)) {
       return;
@@ -597,6 +603,7 @@ export function subscribeEmbeddedPiSession(params: SubscribeEmbeddedPiSessionPar
     didSendViaMessagingTool: () => messagingToolSentTexts.length > 0,
     getLastToolError: () => (state.lastToolError ? { ...state.lastToolError } : undefined),
     getUsageTotals,
+    getCostTotal: () => (costTotal > 0 ? costTotal : undefined),
     getCompactionCount: () => compactionCount,
     waitForCompactionRetry: () => {
       if (state.compactionInFlight || state.pendingCompactionRetry > 0) {
@@ -1,7 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { toClientToolDefinitions } from "./pi-tool-definition-adapter.js";
 import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
+import { resetToolQuotasForTests } from "./tool-quotas.js";
 
 vi.mock("../plugins/hook-runner-global.js");
 
@@ -150,3 +152,29 @@ describe("before_tool_call hook integration for client tools", () => {
     });
   });
 });
+
+describe("tool quota enforcement", () => {
+  beforeEach(() => {
+    resetToolQuotasForTests();
+    // oxlint-disable-next-line typescript/no-explicit-any
+    mockGetGlobalHookRunner.mockReturnValue({ hasHooks: vi.fn(() => false) } as any);
+  });
+
+  it("rejects calls once the per-run budget is spent", async () => {
+    const execute = vi.fn().mockResolvedValue({ content: [], details: { ok: true } });
+    const config = { tools: { quotas: { web_search: { perRun: 1 } } } } as OpenClawConfig;
+    // oxlint-disable-next-line typescript/no-explicit-any
+    const tool = wrapToolWithBeforeToolCallHook({ name: "web_search", execute } as any, {
+      agentId: "main",
+      sessionKey: "agent:main:main",
+      config,
+      runId: "run-1",
+    });
+
+    await tool.execute("call-1", { query: "a" }, undefined, undefined);
+    await expect(tool.execute("call-2", { query: "b" }, undefined, undefined)).rejects.toThrow(
+      "Tool quota exhausted: web_search used 1/1 this run",
+    );
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
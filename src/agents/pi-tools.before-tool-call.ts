@@ -1,11 +1,18 @@
+import type { OpenClawConfig } from "../config/config.js";
 import type { AnyAgentTool } from "./tools/common.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { normalizeToolName } from "./tool-policy.js";
+import { consumeToolQuota } from "./tool-quotas.js";
 
 type HookContext = {
   agentId?: string;
   sessionKey?: string;
+  /** Scopes per-session tool quotas, so a reset session starts with a fresh budget. */
+  sessionId?: string;
+  /** Used for `tools.quotas` enforcement (per-run counters key off runId). */
+  config?: OpenClawConfig;
+  runId?: string;
 };
 
 type HookOutcome = { blocked: true; reason: string } | { blocked: false; params: unknown };
@@ -85,6 +92,18 @@ export function wrapToolWithBeforeToolCallHook(
       if (outcome.blocked) {
         throw new Error(outcome.reason);
       }
+      const quota = consumeToolQuota({
+        config: ctx?.config,
+        agentId: ctx?.agentId,
+        sessionId: ctx?.sessionId,
+        sessionKey: ctx?.sessionKey,
+        runId: ctx?.runId,
+        toolName,
+        toolParams: outcome.params,
+      });
+      if (!quota.allowed) {
+        throw new Error(quota.reason);
+      }
       return await execute(toolCallId, outcome.params, signal, onUpdate);
     },
   };
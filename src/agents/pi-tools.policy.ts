@@ -82,6 +82,7 @@ const DEFAULT_SUBAGENT_TOOL_DENY = [
   "sessions_history",
   "sessions_send",
   "sessions_spawn",
+  "sessions_result",
   // System admin - dangerous from subagent
   "gateway",
   "agents_list",
@@ -93,6 +94,9 @@ const DEFAULT_SUBAGENT_TOOL_DENY = [
   // Memory - pass relevant info in spawn prompt instead
   "memory_search",
   "memory_get",
+  "memory_fact_set",
+  "memory_fact_query",
+  "memory_fact_expire",
 ];
 
 export function resolveSubagentToolPolicy(cfg?: OpenClawConfig): SandboxToolPolicy {
@@ -120,6 +120,10 @@ export function createOpenClawCodingTools(options?: {
   messageThreadId?: string | number;
   sandbox?: SandboxContext | null;
   sessionKey?: string;
+  /** Current session id (scopes per-session tool quotas). */
+  sessionId?: string;
+  /** Current agent run id (scopes per-run tool quotas). */
+  runId?: string;
   agentDir?: string;
   workspaceDir?: string;
   config?: OpenClawConfig;
@@ -297,6 +301,8 @@ export function createOpenClawCodingTools(options?: {
           workspaceDir: sandbox.workspaceDir,
           containerWorkdir: sandbox.containerWorkdir,
           env: sandbox.docker.env,
+          runtime: sandbox.runtime,
+          bubblewrapArgs: sandbox.bubblewrapArgs,
         }
       : undefined,
   });
@@ -440,6 +446,9 @@ export function createOpenClawCodingTools(options?: {
     wrapToolWithBeforeToolCallHook(tool, {
       agentId,
       sessionKey: options?.sessionKey,
+      sessionId: options?.sessionId,
+      config: options?.config,
+      runId: options?.runId,
     }),
   );
   const withAbort = options?.abortSignal
@@ -57,6 +57,9 @@ describe("sandbox explain helpers", () => {
     expect(policy.allow).toEqual([
       "memory_search",
       "memory_get",
+      "memory_fact_set",
+      "memory_fact_query",
+      "memory_fact_expire",
       "read",
       "write",
       "edit",
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { buildSandboxExecArgv } from "./bash-tools.shared.js";
+import { resolveSandboxConfigForAgent, type SandboxDockerConfig } from "./sandbox.js";
+import { buildBubblewrapArgs, listBubblewrapIgnoredSettings } from "./sandbox/bubblewrap.js";
+import { computeSandboxConfigHash } from "./sandbox/config-hash.js";
+
+const baseDocker: SandboxDockerConfig = {
+  image: "openclaw-sandbox:bookworm-slim",
+  containerPrefix: "openclaw-sbx-",
+  workdir: "/workspace",
+  readOnlyRoot: true,
+  tmpfs: ["/tmp", "/run:size=64m"],
+  network: "none",
+  capDrop: ["ALL"],
+};
+
+describe("sandbox runtime selection", () => {
+  it("defaults to docker and lets agents override the runtime", () => {
+    const cfg: OpenClawConfig = {
+      agents: {
+        defaults: { sandbox: { mode: "all", runtime: "podman" } },
+        list: [
+          { id: "main" },
+          { id: "ops", sandbox: { runtime: "bubblewrap" } },
+          { id: "shared", sandbox: { scope: "shared", runtime: "bubblewrap" } },
+        ],
+      },
+    };
+
+    expect(resolveSandboxConfigForAgent({}, "main").runtime).toBe("docker");
+    expect(resolveSandboxConfigForAgent(cfg, "main").runtime).toBe("podman");
+    expect(resolveSandboxConfigForAgent(cfg, "ops").runtime).toBe("bubblewrap");
+    // Shared sandboxes ignore per-agent overrides, like docker settings.
+    expect(resolveSandboxConfigForAgent(cfg, "shared").runtime).toBe("podman");
+  });
+
+  it("keeps docker hashes stable and changes the hash for other runtimes", () => {
+    const input = {
+      docker: baseDocker,
+      workspaceAccess: "rw" as const,
+      workspaceDir: "/tmp/ws",
+      agentWorkspaceDir: "/tmp/agent",
+    };
+    const legacy = computeSandboxConfigHash(input);
+    expect(computeSandboxConfigHash({ ...input, runtime: undefined })).toBe(legacy);
+    expect(computeSandboxConfigHash({ ...input, runtime: "podman" })).not.toBe(legacy);
+  });
+});
+
+describe("buildBubblewrapArgs", () => {
+  it("maps docker sandbox settings onto bwrap namespaces and mounts", () => {
+    const args = buildBubblewrapArgs({
+      cfg: {
+        ...baseDocker,
+        user: "1000:1000",
+        capDrop: ["NET_RAW", "CAP_SYS_ADMIN"],
+        binds: ["/srv/data:/data:ro", "/srv/cache:/cache"],
+      },
+      workspaceDir: "/tmp/sandboxes/main",
+      agentWorkspaceDir: "/home/me/agent",
+      workspaceAccess: "ro",
+    });
+
+    expect(args.slice(0, 3)).toEqual(["--die-with-parent", "--new-session", "--unshare-all"]);
+    expect(args).not.toContain("--share-net");
+    expect(args.join(" ")).toContain("--uid 1000 --gid 1000");
+    expect(args.join(" ")).toContain("--cap-drop CAP_NET_RAW --cap-drop CAP_SYS_ADMIN");
+    expect(args.join(" ")).toContain("--tmpfs /tmp --tmpfs /run");
+    expect(args.join(" ")).toContain("--bind /tmp/sandboxes/main /workspace");
+    expect(args.join(" ")).toContain("--ro-bind /home/me/agent /agent");
+    expect(args.join(" ")).toContain("--ro-bind /srv/data /data --bind /srv/cache /cache");
+    expect(args.slice(-2)).toEqual(["--remount-ro", "/"]);
+  });
+
+  it("keeps the network unshared when an egress allowlist is set", () => {
+    const params = {
+      cfg: { ...baseDocker, network: "bridge" },
+      workspaceDir: "/tmp/sandboxes/main",
+      agentWorkspaceDir: "/tmp/sandboxes/main",
+      workspaceAccess: "rw" as const,
+    };
+    expect(buildBubblewrapArgs(params)).toContain("--share-net");
+    expect(buildBubblewrapArgs({ ...params, egressAllowlist: true })).not.toContain("--share-net");
+  });
+
+  it("reports docker-only settings that bubblewrap ignores", () => {
+    expect(listBubblewrapIgnoredSettings(baseDocker)).toEqual([]);
+    expect(
+      listBubblewrapIgnoredSettings({
+        ...baseDocker,
+        user: "node",
+        memory: "512m",
+        network: "bridge",
+        setupCommand: "apt-get install -y git",
+      }),
+    ).toEqual([
+      "setupCommand",
+      "user (bubblewrap needs numeric uid[:gid])",
+      "memory",
+      "network=bridge (shares the host network)",
+    ]);
+  });
+});
+
+describe("buildSandboxExecArgv", () => {
+  const sandbox = {
+    containerName: "openclaw-sbx-main",
+    workspaceDir: "/tmp/ws",
+    containerWorkdir: "/workspace",
+  };
+
+  it("uses the container CLI matching the runtime", () => {
+    const params = { command: "ls", workdir: "/workspace", env: { LANG: "C" }, tty: false };
+    expect(buildSandboxExecArgv({ ...params, sandbox })[0]).toBe("docker");
+    const podman = buildSandboxExecArgv({ ...params, sandbox: { ...sandbox, runtime: "podman" } });
+    expect(podman.slice(0, 2)).toEqual(["podman", "exec"]);
+    expect(podman).toContain("openclaw-sbx-main");
+  });
+
+  it("runs bubblewrap commands with a clean env and the sandbox mounts", () => {
+    const argv = buildSandboxExecArgv({
+      sandbox: { ...sandbox, runtime: "bubblewrap", bubblewrapArgs: ["--unshare-all"] },
+      command: "echo hi",
+      workdir: "/workspace",
+      env: { PATH: "/opt/bin", LANG: "C" },
+      tty: false,
+    });
+
+    expect(argv).toEqual([
+      "bwrap",
+      "--unshare-all",
+      "--clearenv",
+      "--setenv",
+      "PATH",
+      "/opt/bin",
+      "--setenv",
+      "LANG",
+      "C",
+      "--setenv",
+      "OPENCLAW_PREPEND_PATH",
+      "/opt/bin",
+      "--chdir",
+      "/workspace",
+      "sh",
+      "-lc",
+      'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; echo hi',
+    ]);
+  });
+});
@@ -10,9 +10,18 @@ export {
   DEFAULT_SANDBOX_COMMON_IMAGE,
   DEFAULT_SANDBOX_IMAGE,
 } from "./sandbox/constants.js";
-export { ensureSandboxWorkspaceForSession, resolveSandboxContext } from "./sandbox/context.js";
+export {
+  ensureSandboxWorkspaceForSession,
+  resolveSandboxContext,
+  resolveSandboxSnapshotTarget,
+} from "./sandbox/context.js";
 
-export { buildSandboxCreateArgs } from "./sandbox/docker.js";
+export { buildSandboxCreateArgs, resolveContainerCli } from "./sandbox/docker.js";
+export {
+  parseSandboxEgressAllowlist,
+  readSandboxEgressLog,
+  type SandboxEgressDenial,
+} from "./sandbox/egress.js";
 export {
   listSandboxBrowsers,
   listSandboxContainers,
@@ -26,7 +35,22 @@ export {
   resolveSandboxRuntimeStatus,
 } from "./sandbox/runtime-status.js";
 
+export { resolveSandboxScopeKey } from "./sandbox/shared.js";
 export { resolveSandboxToolPolicyForAgent } from "./sandbox/tool-policy.js";
+export {
+  createSandboxWorkspaceSnapshot,
+  diffSandboxWorkspaceSnapshot,
+  findSandboxWorkspaceSnapshot,
+  formatSandboxWorkspaceDiff,
+  listSandboxSnapshotScopes,
+  listSandboxWorkspaceSnapshots,
+  readSandboxWorkspaceSnapshot,
+  resolveSandboxRollbackTarget,
+  restoreSandboxWorkspaceSnapshot,
+  type SandboxWorkspaceDiff,
+  type SandboxWorkspaceSnapshot,
+  type SandboxWorkspaceSnapshotSummary,
+} from "./sandbox/workspace.js";
 
 export type {
   SandboxBrowserConfig,
@@ -35,6 +59,7 @@ export type {
   SandboxContext,
   SandboxDockerConfig,
   SandboxPruneConfig,
+  SandboxRuntimeKind,
   SandboxScope,
   SandboxToolPolicy,
   SandboxToolPolicyResolved,
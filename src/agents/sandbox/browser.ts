@@ -1,4 +1,4 @@
-import type { SandboxBrowserContext, SandboxConfig } from "./types.js";
+import type { SandboxBrowserContext, SandboxConfig, SandboxRuntimeKind } from "./types.js";
 import { startBrowserBridgeServer, stopBrowserBridgeServer } from "../../browser/bridge-server.js";
 import { type ResolvedBrowserConfig, resolveProfile } from "../../browser/config.js";
 import {
@@ -72,9 +72,10 @@ function buildSandboxBrowserResolvedConfig(params: {
   };
 }
 
-async function ensureSandboxBrowserImage(image: string) {
+async function ensureSandboxBrowserImage(image: string, runtime: SandboxRuntimeKind) {
   const result = await execDocker(["image", "inspect", image], {
     allowFailure: true,
+    runtime,
   });
   if (result.code === 0) {
     return;
@@ -97,13 +98,21 @@ export async function ensureSandboxBrowser(params: {
   if (!isToolAllowed(params.cfg.tools, "browser")) {
     return null;
   }
+  const runtime = params.cfg.runtime;
+  if (runtime === "bubblewrap") {
+    // The sandbox browser ships as an image with CDP/noVNC port mappings; it needs an OCI runtime.
+    return null;
+  }
 
   const slug = params.cfg.scope === "shared" ? "shared" : slugifySessionKey(params.scopeKey);
   const name = `${params.cfg.browser.containerPrefix}${slug}`;
   const containerName = name.slice(0, 63);
-  const state = await dockerContainerState(containerName);
+  const state = await dockerContainerState(containerName, runtime);
   if (!state.exists) {
-    await ensureSandboxBrowserImage(params.cfg.browser.image ?? DEFAULT_SANDBOX_BROWSER_IMAGE);
+    await ensureSandboxBrowserImage(
+      params.cfg.browser.image ?? DEFAULT_SANDBOX_BROWSER_IMAGE,
+      runtime,
+    );
     const args = buildSandboxCreateArgs({
       name: containerName,
       cfg: params.cfg.docker,
@@ -132,20 +141,20 @@ export async function ensureSandboxBrowser(params: {
     args.push("-e", `OPENCLAW_BROWSER_VNC_PORT=${params.cfg.browser.vncPort}`);
     args.push("-e", `OPENCLAW_BROWSER_NOVNC_PORT=${params.cfg.browser.noVncPort}`);
     args.push(params.cfg.browser.image);
-    await execDocker(args);
-    await execDocker(["start", containerName]);
+    await execDocker(args, { runtime });
+    await execDocker(["start", containerName], { runtime });
   } else if (!state.running) {
-    await execDocker(["start", containerName]);
+    await execDocker(["start", containerName], { runtime });
   }
 
-  const mappedCdp = await readDockerPort(containerName, params.cfg.browser.cdpPort);
+  const mappedCdp = await readDockerPort(containerName, params.cfg.browser.cdpPort, runtime);
   if (!mappedCdp) {
     throw new Error(`Failed to resolve CDP port mapping for ${containerName}.`);
   }
 
   const mappedNoVnc =
     params.cfg.browser.enableNoVnc && !params.cfg.browser.headless
-      ? await readDockerPort(containerName, params.cfg.browser.noVncPort)
+      ? await readDockerPort(containerName, params.cfg.browser.noVncPort, runtime)
       : null;
 
   const existing = BROWSER_BRIDGES.get(params.scopeKey);
@@ -173,9 +182,9 @@ export async function ensureSandboxBrowser(params: {
 
     const onEnsureAttachTarget = params.cfg.browser.autoStart
       ? async () => {
-          const state = await dockerContainerState(containerName);
+          const state = await dockerContainerState(containerName, runtime);
           if (state.exists && !state.running) {
-            await execDocker(["start", containerName]);
+            await execDocker(["start", containerName], { runtime });
           }
           const ok = await waitForSandboxCdp({
             cdpPort: mappedCdp,
@@ -217,6 +226,7 @@ export async function ensureSandboxBrowser(params: {
     image: params.cfg.browser.image,
     cdpPort: mappedCdp,
     noVncPort: mappedNoVnc ?? undefined,
+    runtime,
   });
 
   const noVncUrl =
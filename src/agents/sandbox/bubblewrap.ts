@@ -0,0 +1,151 @@
+import { spawn } from "node:child_process";
+import type { SandboxDockerConfig, SandboxWorkspaceAccess } from "./types.js";
+import { SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
+
+// Only system directories are exposed; the rest of the host (home, state dir) stays invisible.
+const BUBBLEWRAP_HOST_RO_DIRS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/etc"];
+
+let bubblewrapAvailable: Promise<boolean> | null = null;
+
+function probeBubblewrap(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn("bwrap", ["--version"], { stdio: "ignore" });
+    child.on("error", () => resolve(false));
+    child.on("close", (code) => resolve(code === 0));
+  });
+}
+
+export async function assertBubblewrapAvailable() {
+  bubblewrapAvailable ??= probeBubblewrap();
+  if (!(await bubblewrapAvailable)) {
+    bubblewrapAvailable = null;
+    throw new Error(
+      'Sandbox runtime "bubblewrap" requires `bwrap` on PATH (install the bubblewrap package).',
+    );
+  }
+}
+
+function normalizeCapability(cap: string): string | null {
+  const trimmed = cap.trim().toUpperCase();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed === "ALL" || trimmed.startsWith("CAP_")) {
+    return trimmed;
+  }
+  return `CAP_${trimmed}`;
+}
+
+function parseNumericUser(user?: string): { uid: string; gid?: string } | null {
+  const match = user?.trim().match(/^(\d+)(?::(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  return { uid: match[1] ?? "", gid: match[2] };
+}
+
+function parseBind(bind: string): { source: string; target: string; readOnly: boolean } | null {
+  const [source, target, mode] = bind.split(":");
+  if (!source?.trim()) {
+    return null;
+  }
+  const modes = (mode ?? "").split(",").map((entry) => entry.trim());
+  return {
+    source: source.trim(),
+    target: target?.trim() || source.trim(),
+    readOnly: modes.includes("ro"),
+  };
+}
+
+/**
+ * Translate the docker sandbox settings into `bwrap` namespace + mount arguments, mirroring
+ * `buildSandboxCreateArgs` + the workspace mounts from `createSandboxContainer`.
+ * The image is not used: the sandbox root is a tmpfs with the host's system dirs bound read-only.
+ * With an egress allowlist there is no filtering proxy, so the network stays unshared.
+ */
+export function buildBubblewrapArgs(params: {
+  cfg: SandboxDockerConfig;
+  workspaceDir: string;
+  agentWorkspaceDir: string;
+  workspaceAccess: SandboxWorkspaceAccess;
+  egressAllowlist?: boolean;
+}): string[] {
+  const { cfg } = params;
+  const args = ["--die-with-parent", "--new-session", "--unshare-all"];
+  if (cfg.network && cfg.network !== "none" && !params.egressAllowlist) {
+    args.push("--share-net");
+  }
+  const user = parseNumericUser(cfg.user);
+  if (user) {
+    args.push("--uid", user.uid, "--gid", user.gid ?? user.uid);
+  }
+  for (const cap of cfg.capDrop) {
+    const normalized = normalizeCapability(cap);
+    if (normalized) {
+      args.push("--cap-drop", normalized);
+    }
+  }
+  for (const dir of BUBBLEWRAP_HOST_RO_DIRS) {
+    args.push("--ro-bind-try", dir, dir);
+  }
+  args.push("--proc", "/proc", "--dev", "/dev");
+  for (const entry of cfg.tmpfs) {
+    const target = entry.split(":")[0]?.trim();
+    if (target) {
+      args.push("--tmpfs", target);
+    }
+  }
+  const mainReadOnly =
+    params.workspaceAccess === "ro" && params.workspaceDir === params.agentWorkspaceDir;
+  args.push(mainReadOnly ? "--ro-bind" : "--bind", params.workspaceDir, cfg.workdir);
+  if (params.workspaceAccess !== "none" && params.workspaceDir !== params.agentWorkspaceDir) {
+    args.push(
+      params.workspaceAccess === "ro" ? "--ro-bind" : "--bind",
+      params.agentWorkspaceDir,
+      SANDBOX_AGENT_WORKSPACE_MOUNT,
+    );
+  }
+  for (const bind of cfg.binds ?? []) {
+    const parsed = parseBind(bind);
+    if (parsed) {
+      args.push(parsed.readOnly ? "--ro-bind" : "--bind", parsed.source, parsed.target);
+    }
+  }
+  if (cfg.readOnlyRoot) {
+    args.push("--remount-ro", "/");
+  }
+  return args;
+}
+
+/** Docker settings that have no bubblewrap equivalent (reported once when the sandbox is set up). */
+export function listBubblewrapIgnoredSettings(cfg: SandboxDockerConfig): string[] {
+  const ignored: string[] = [];
+  if (cfg.setupCommand?.trim()) {
+    ignored.push("setupCommand");
+  }
+  if (cfg.user?.trim() && !parseNumericUser(cfg.user)) {
+    ignored.push("user (bubblewrap needs numeric uid[:gid])");
+  }
+  if (cfg.pidsLimit !== undefined) {
+    ignored.push("pidsLimit");
+  }
+  if (cfg.memory !== undefined || cfg.memorySwap !== undefined) {
+    ignored.push("memory");
+  }
+  if (cfg.cpus !== undefined) {
+    ignored.push("cpus");
+  }
+  if (cfg.ulimits && Object.keys(cfg.ulimits).length > 0) {
+    ignored.push("ulimits");
+  }
+  if (cfg.seccompProfile || cfg.apparmorProfile) {
+    ignored.push("seccompProfile/apparmorProfile");
+  }
+  if (cfg.dns?.length || cfg.extraHosts?.length) {
+    ignored.push("dns/extraHosts");
+  }
+  if (cfg.network && cfg.network !== "none" && cfg.network !== "host") {
+    ignored.push(`network=${cfg.network} (shares the host network)`);
+  }
+  return ignored;
+}
@@ -1,7 +1,11 @@
 import crypto from "node:crypto";
-import type { SandboxDockerConfig, SandboxWorkspaceAccess } from "./types.js";
+import type { SandboxDockerConfig, SandboxRuntimeKind, SandboxWorkspaceAccess } from "./types.js";
 
 type SandboxHashInput = {
+  /** Omitted for docker so existing container hashes stay stable. */
+  runtime?: Exclude<SandboxRuntimeKind, "docker">;
+  /** Egress allowlist (containers drop their network for the proxy socket); omitted when unset. */
+  egress?: string[];
   docker: SandboxDockerConfig;
   workspaceAccess: SandboxWorkspaceAccess;
   workspaceDir: string;
@@ -3,6 +3,7 @@ import type {
   SandboxBrowserConfig,
   SandboxConfig,
   SandboxDockerConfig,
+  SandboxNetworkPolicy,
   SandboxPruneConfig,
   SandboxScope,
 } from "./types.js";
@@ -18,6 +19,7 @@ import {
   DEFAULT_SANDBOX_IDLE_HOURS,
   DEFAULT_SANDBOX_IMAGE,
   DEFAULT_SANDBOX_MAX_AGE_DAYS,
+  DEFAULT_SANDBOX_RUNTIME,
   DEFAULT_SANDBOX_WORKDIR,
   DEFAULT_SANDBOX_WORKSPACE_ROOT,
 } from "./constants.js";
@@ -110,6 +112,18 @@ export function resolveSandboxBrowserConfig(params: {
   };
 }
 
+export function resolveSandboxNetworkPolicy(params: {
+  scope: SandboxScope;
+  globalNetwork?: { allow?: string[] };
+  agentNetwork?: { allow?: string[] };
+}): SandboxNetworkPolicy | undefined {
+  const agentNetwork = params.scope === "shared" ? undefined : params.agentNetwork;
+  const allow = [...(params.globalNetwork?.allow ?? []), ...(agentNetwork?.allow ?? [])]
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return allow.length > 0 ? { allow: Array.from(new Set(allow)) } : undefined;
+}
+
 export function resolveSandboxPruneConfig(params: {
   scope: SandboxScope;
   globalPrune?: Partial<SandboxPruneConfig>;
@@ -149,6 +163,10 @@ export function resolveSandboxConfigForAgent(
     workspaceAccess: agentSandbox?.workspaceAccess ?? agent?.workspaceAccess ?? "none",
     workspaceRoot:
       agentSandbox?.workspaceRoot ?? agent?.workspaceRoot ?? DEFAULT_SANDBOX_WORKSPACE_ROOT,
+    runtime:
+      (scope === "shared" ? undefined : agentSandbox?.runtime) ??
+      agent?.runtime ??
+      DEFAULT_SANDBOX_RUNTIME,
     docker: resolveSandboxDockerConfig({
       scope,
       globalDocker: agent?.docker,
@@ -159,6 +177,17 @@ export function resolveSandboxConfigForAgent(
       globalBrowser: agent?.browser,
       agentBrowser: agentSandbox?.browser,
     }),
+    network: resolveSandboxNetworkPolicy({
+      scope,
+      globalNetwork: agent?.network,
+      agentNetwork: agentSandbox?.network,
+    }),
+    snapshots: {
+      auto:
+        (scope === "shared" ? undefined : agentSandbox?.snapshots?.auto) ??
+        agent?.snapshots?.auto ??
+        true,
+    },
     tools: {
       allow: toolPolicy.allow,
       deny: toolPolicy.deny,
@@ -4,6 +4,7 @@ import { STATE_DIR } from "../../config/config.js";
 
 export const DEFAULT_SANDBOX_WORKSPACE_ROOT = path.join(STATE_DIR, "sandboxes");
 
+export const DEFAULT_SANDBOX_RUNTIME = "docker";
 export const DEFAULT_SANDBOX_IMAGE = "openclaw-sandbox:bookworm-slim";
 export const DEFAULT_SANDBOX_CONTAINER_PREFIX = "openclaw-sbx-";
 export const DEFAULT_SANDBOX_WORKDIR = "/workspace";
@@ -22,6 +23,7 @@ export const DEFAULT_TOOL_ALLOW = [
   "sessions_history",
   "sessions_send",
   "sessions_spawn",
+  "sessions_result",
   "session_status",
 ] as const;
 
@@ -49,3 +51,12 @@ export const SANDBOX_AGENT_WORKSPACE_MOUNT = "/agent";
 export const SANDBOX_STATE_DIR = path.join(STATE_DIR, "sandbox");
 export const SANDBOX_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "containers.json");
 export const SANDBOX_BROWSER_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "browsers.json");
+export const SANDBOX_SNAPSHOTS_DIR = path.join(SANDBOX_STATE_DIR, "snapshots");
+export const SANDBOX_EGRESS_LOG_PATH = path.join(SANDBOX_STATE_DIR, "egress.jsonl");
+
+/** Host directory holding one egress proxy socket per allowlisted sandbox. */
+export const SANDBOX_EGRESS_SOCKET_DIR = path.join(SANDBOX_STATE_DIR, "egress");
+/** Where the socket directory is mounted inside the container. */
+export const SANDBOX_EGRESS_SOCKET_MOUNT = "/run/openclaw-egress";
+/** Loopback port of the in-container relay that forwards to the proxy socket. */
+export const SANDBOX_EGRESS_RELAY_PORT = 3128;
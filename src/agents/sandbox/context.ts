@@ -7,17 +7,21 @@ import { resolveUserPath } from "../../utils.js";
 import { syncSkillsToWorkspace } from "../skills.js";
 import { DEFAULT_AGENT_WORKSPACE_DIR } from "../workspace.js";
 import { ensureSandboxBrowser } from "./browser.js";
+import { buildBubblewrapArgs } from "./bubblewrap.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
-import { ensureSandboxContainer } from "./docker.js";
+import { ensureSandboxContainer, ensureSandboxEgressRelay } from "./docker.js";
+import { ensureSandboxEgressProxy } from "./egress-proxy.js";
 import { maybePruneSandboxes } from "./prune.js";
 import { resolveSandboxRuntimeStatus } from "./runtime-status.js";
 import { resolveSandboxScopeKey, resolveSandboxWorkspaceDir } from "./shared.js";
-import { ensureSandboxWorkspace } from "./workspace.js";
+import { createSandboxWorkspaceSnapshot, ensureSandboxWorkspace } from "./workspace.js";
 
 export async function resolveSandboxContext(params: {
   config?: OpenClawConfig;
   sessionKey?: string;
   workspaceDir?: string;
+  /** Take an automatic workspace snapshot (agent runs; skipped when nothing changed). */
+  snapshotWorkspace?: boolean;
 }): Promise<SandboxContext | null> {
   const rawSessionKey = params.sessionKey?.trim();
   if (!rawSessionKey) {
@@ -66,6 +70,20 @@ export async function resolveSandboxContext(params: {
     await fs.mkdir(workspaceDir, { recursive: true });
   }
 
+  if (params.snapshotWorkspace && cfg.snapshots.auto) {
+    try {
+      await createSandboxWorkspaceSnapshot({
+        scopeKey,
+        workspaceDir,
+        reason: "auto",
+        skipIfUnchanged: true,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : JSON.stringify(error);
+      defaultRuntime.error?.(`Sandbox workspace snapshot failed: ${message}`);
+    }
+  }
+
   const containerName = await ensureSandboxContainer({
     sessionKey: rawSessionKey,
     workspaceDir,
@@ -73,6 +91,18 @@ export async function resolveSandboxContext(params: {
     cfg,
   });
 
+  const egressProxy =
+    cfg.network && cfg.runtime !== "bubblewrap"
+      ? await ensureSandboxEgressProxy({
+          containerName,
+          sessionKey: scopeKey,
+          policy: cfg.network,
+        })
+      : null;
+  if (egressProxy) {
+    await ensureSandboxEgressRelay(containerName, cfg.runtime);
+  }
+
   const evaluateEnabled =
     params.config?.browser?.evaluateEnabled ?? DEFAULT_BROWSER_EVALUATE_ENABLED;
   const browser = await ensureSandboxBrowser({
@@ -89,9 +119,22 @@ export async function resolveSandboxContext(params: {
     workspaceDir,
     agentWorkspaceDir,
     workspaceAccess: cfg.workspaceAccess,
+    runtime: cfg.runtime,
     containerName,
     containerWorkdir: cfg.docker.workdir,
-    docker: cfg.docker,
+    bubblewrapArgs:
+      cfg.runtime === "bubblewrap"
+        ? buildBubblewrapArgs({
+            cfg: cfg.docker,
+            workspaceDir,
+            agentWorkspaceDir,
+            workspaceAccess: cfg.workspaceAccess,
+            egressAllowlist: Boolean(cfg.network),
+          })
+        : undefined,
+    docker: egressProxy
+      ? { ...cfg.docker, env: { ...cfg.docker.env, ...egressProxy.env } }
+      : cfg.docker,
     tools: cfg.tools,
     browserAllowHostControl: cfg.browser.allowHostControl,
     browser: browser ?? undefined,
@@ -153,3 +196,22 @@ export async function ensureSandboxWorkspaceForSession(params: {
     containerWorkdir: cfg.docker.workdir,
   };
 }
+
+/** Snapshot scope key and live workspace for a sandboxed session (null when not sandboxed). */
+export async function resolveSandboxSnapshotTarget(params: {
+  config?: OpenClawConfig;
+  sessionKey?: string;
+  workspaceDir?: string;
+}): Promise<{ scopeKey: string; workspaceDir: string } | null> {
+  const info = await ensureSandboxWorkspaceForSession(params);
+  const rawSessionKey = params.sessionKey?.trim();
+  if (!info || !rawSessionKey) {
+    return null;
+  }
+  const runtime = resolveSandboxRuntimeStatus({ cfg: params.config, sessionKey: rawSessionKey });
+  const cfg = resolveSandboxConfigForAgent(params.config, runtime.agentId);
+  return {
+    scopeKey: resolveSandboxScopeKey(cfg.scope, rawSessionKey),
+    workspaceDir: info.workspaceDir,
+  };
+}
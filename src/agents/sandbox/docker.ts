@@ -1,17 +1,38 @@
 import { spawn } from "node:child_process";
-import type { SandboxConfig, SandboxDockerConfig, SandboxWorkspaceAccess } from "./types.js";
+import type {
+  SandboxConfig,
+  SandboxDockerConfig,
+  SandboxRuntimeKind,
+  SandboxWorkspaceAccess,
+} from "./types.js";
 import { formatCliCommand } from "../../cli/command-format.js";
 import { defaultRuntime } from "../../runtime.js";
+import { assertBubblewrapAvailable, listBubblewrapIgnoredSettings } from "./bubblewrap.js";
 import { computeSandboxConfigHash } from "./config-hash.js";
-import { DEFAULT_SANDBOX_IMAGE, SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
-import { readRegistry, updateRegistry } from "./registry.js";
+import {
+  DEFAULT_SANDBOX_IMAGE,
+  SANDBOX_AGENT_WORKSPACE_MOUNT,
+  SANDBOX_EGRESS_RELAY_PORT,
+  SANDBOX_EGRESS_SOCKET_MOUNT,
+} from "./constants.js";
+import { prepareSandboxEgressSocketDir, SANDBOX_EGRESS_SOCKET_NAME } from "./egress-proxy.js";
+import { readRegistry, removeRegistryEntry, updateRegistry } from "./registry.js";
 import { resolveSandboxAgentId, resolveSandboxScopeKey, slugifySessionKey } from "./shared.js";
 
 const HOT_CONTAINER_WINDOW_MS = 5 * 60 * 1000;
 
-export function execDocker(args: string[], opts?: { allowFailure?: boolean }) {
+/** Podman accepts the same create/exec/inspect arguments, so both share one code path. */
+export function resolveContainerCli(runtime?: SandboxRuntimeKind): "docker" | "podman" {
+  return runtime === "podman" ? "podman" : "docker";
+}
+
+export function execDocker(
+  args: string[],
+  opts?: { allowFailure?: boolean; runtime?: SandboxRuntimeKind },
+) {
+  const cli = resolveContainerCli(opts?.runtime);
   return new Promise<{ stdout: string; stderr: string; code: number }>((resolve, reject) => {
-    const child = spawn("docker", args, {
+    const child = spawn(cli, args, {
       stdio: ["ignore", "pipe", "pipe"],
     });
     let stdout = "";
@@ -25,7 +46,7 @@ export function execDocker(args: string[], opts?: { allowFailure?: boolean }) {
     child.on("close", (code) => {
       const exitCode = code ?? 0;
       if (exitCode !== 0 && !opts?.allowFailure) {
-        reject(new Error(stderr.trim() || `docker ${args.join(" ")} failed`));
+        reject(new Error(stderr.trim() || `${cli} ${args.join(" ")} failed`));
         return;
       }
       resolve({ stdout, stderr, code: exitCode });
@@ -33,9 +54,14 @@ export function execDocker(args: string[], opts?: { allowFailure?: boolean }) {
   });
 }
 
-export async function readDockerPort(containerName: string, port: number) {
+export async function readDockerPort(
+  containerName: string,
+  port: number,
+  runtime?: SandboxRuntimeKind,
+) {
   const result = await execDocker(["port", containerName, `${port}/tcp`], {
     allowFailure: true,
+    runtime,
   });
   if (result.code !== 0) {
     return null;
@@ -49,36 +75,41 @@ export async function readDockerPort(containerName: string, port: number) {
   return Number.isFinite(mapped) ? mapped : null;
 }
 
-async function dockerImageExists(image: string) {
+async function dockerImageExists(image: string, runtime?: SandboxRuntimeKind) {
   const result = await execDocker(["image", "inspect", image], {
     allowFailure: true,
+    runtime,
   });
   if (result.code === 0) {
     return true;
   }
   const stderr = result.stderr.trim();
-  if (stderr.includes("No such image")) {
+  if (stderr.includes("No such image") || stderr.includes("image not known")) {
     return false;
   }
   throw new Error(`Failed to inspect sandbox image: ${stderr}`);
 }
 
-export async function ensureDockerImage(image: string) {
-  const exists = await dockerImageExists(image);
+export async function ensureDockerImage(image: string, runtime?: SandboxRuntimeKind) {
+  const exists = await dockerImageExists(image, runtime);
   if (exists) {
     return;
   }
   if (image === DEFAULT_SANDBOX_IMAGE) {
-    await execDocker(["pull", "debian:bookworm-slim"]);
-    await execDocker(["tag", "debian:bookworm-slim", DEFAULT_SANDBOX_IMAGE]);
+    // Podman does not assume docker.io for short names unless registries.conf says so.
+    const base =
+      runtime === "podman" ? "docker.io/library/debian:bookworm-slim" : "debian:bookworm-slim";
+    await execDocker(["pull", base], { runtime });
+    await execDocker(["tag", base, DEFAULT_SANDBOX_IMAGE], { runtime });
     return;
   }
   throw new Error(`Sandbox image not found: ${image}. Build or pull it first.`);
 }
 
-export async function dockerContainerState(name: string) {
+export async function dockerContainerState(name: string, runtime?: SandboxRuntimeKind) {
   const result = await execDocker(["inspect", "-f", "{{.State.Running}}", name], {
     allowFailure: true,
+    runtime,
   });
   if (result.code !== 0) {
     return { exists: false, running: false };
@@ -86,6 +117,81 @@ export async function dockerContainerState(name: string) {
   return { exists: true, running: result.stdout.trim() === "true" };
 }
 
+// Forwards 127.0.0.1:<port> to the proxy socket; runs as the sandbox user inside the
+// container, so a sandbox that kills it only cuts off its own egress.
+const EGRESS_RELAY_SCRIPT = `
+import socket, threading
+def pipe(src, dst):
+    try:
+        while True:
+            data = src.recv(65536)
+            if not data:
+                break
+            dst.sendall(data)
+    except OSError:
+        pass
+    try:
+        dst.shutdown(socket.SHUT_WR)
+    except OSError:
+        pass
+def serve(client):
+    upstream = socket.socket(socket.AF_UNIX)
+    try:
+        upstream.connect("${SANDBOX_EGRESS_SOCKET_MOUNT}/${SANDBOX_EGRESS_SOCKET_NAME}")
+    except OSError:
+        client.close()
+        return
+    reader = threading.Thread(target=pipe, args=(client, upstream), daemon=True)
+    reader.start()
+    pipe(upstream, client)
+    reader.join()
+    client.close()
+    upstream.close()
+server = socket.socket()
+server.setsockopt(socket.SOL_SOCKET, socket.SO_REUSEADDR, 1)
+server.bind(("127.0.0.1", ${SANDBOX_EGRESS_RELAY_PORT}))
+server.listen(64)
+while True:
+    client, _ = server.accept()
+    threading.Thread(target=serve, args=(client,), daemon=True).start()
+`;
+
+const EGRESS_RELAY_PROBE = `import socket; socket.create_connection(("127.0.0.1", ${SANDBOX_EGRESS_RELAY_PORT}), 1).close()`;
+
+/**
+ * Start the loopback relay inside an allowlisted sandbox unless it is already listening.
+ * The container has no network of its own, so the relay is its only way to the proxy.
+ */
+export async function ensureSandboxEgressRelay(containerName: string, runtime: SandboxRuntimeKind) {
+  const probe = () =>
+    execDocker(["exec", containerName, "python3", "-c", EGRESS_RELAY_PROBE], {
+      allowFailure: true,
+      runtime,
+    });
+  let result = await probe();
+  if (result.code === 0) {
+    return;
+  }
+  if (result.code === 126 || result.code === 127) {
+    throw new Error(
+      `Sandbox egress allowlist needs python3 in the sandbox image (container ${containerName}).`,
+    );
+  }
+  await execDocker(["exec", "-d", containerName, "python3", "-c", EGRESS_RELAY_SCRIPT], {
+    runtime,
+  });
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    result = await probe();
+    if (result.code === 0) {
+      return;
+    }
+  }
+  throw new Error(
+    `Sandbox egress relay did not start in ${containerName}: ${result.stderr.trim() || "timed out"}`,
+  );
+}
+
 function normalizeDockerLimit(value?: string | number) {
   if (value === undefined || value === null) {
     return undefined;
@@ -213,9 +319,14 @@ async function createSandboxContainer(params: {
   agentWorkspaceDir: string;
   scopeKey: string;
   configHash?: string;
+  runtime: SandboxRuntimeKind;
+  egress: boolean;
 }) {
-  const { name, cfg, workspaceDir, scopeKey } = params;
-  await ensureDockerImage(cfg.image);
+  const { name, workspaceDir, scopeKey, runtime } = params;
+  await ensureDockerImage(params.cfg.image, runtime);
+  // Allowlisted sandboxes get no network at all: the proxy socket is mounted in instead, so
+  // nothing on the host (or its bridge address) is reachable from inside the container.
+  const cfg = params.egress ? { ...params.cfg, network: "none" } : params.cfg;
 
   const args = buildSandboxCreateArgs({
     name,
@@ -234,21 +345,28 @@ async function createSandboxContainer(params: {
       `${params.agentWorkspaceDir}:${SANDBOX_AGENT_WORKSPACE_MOUNT}${agentMountSuffix}`,
     );
   }
+  if (params.egress) {
+    const socketDir = await prepareSandboxEgressSocketDir(name);
+    args.push("-v", `${socketDir}:${SANDBOX_EGRESS_SOCKET_MOUNT}:ro`);
+  }
   args.push(cfg.image, "sleep", "infinity");
 
-  await execDocker(args);
-  await execDocker(["start", name]);
+  await execDocker(args, { runtime });
+  await execDocker(["start", name], { runtime });
 
   if (cfg.setupCommand?.trim()) {
-    await execDocker(["exec", "-i", name, "sh", "-lc", cfg.setupCommand]);
+    await execDocker(["exec", "-i", name, "sh", "-lc", cfg.setupCommand], { runtime });
   }
 }
 
-async function readContainerConfigHash(containerName: string): Promise<string | null> {
+async function readContainerConfigHash(
+  containerName: string,
+  runtime: SandboxRuntimeKind,
+): Promise<string | null> {
   const readLabel = async (label: string) => {
     const result = await execDocker(
       ["inspect", "-f", `{{ index .Config.Labels "${label}" }}`, containerName],
-      { allowFailure: true },
+      { allowFailure: true, runtime },
     );
     if (result.code !== 0) {
       return null;
@@ -273,38 +391,91 @@ function formatSandboxRecreateHint(params: { scope: SandboxConfig["scope"]; sess
   return formatCliCommand("openclaw sandbox recreate --all");
 }
 
+async function ensureBubblewrapSandbox(params: {
+  containerName: string;
+  scopeKey: string;
+  cfg: SandboxConfig;
+  configHash: string;
+  previousHash?: string;
+  now: number;
+}) {
+  await assertBubblewrapAvailable();
+  if (params.previousHash !== params.configHash) {
+    const ignored = listBubblewrapIgnoredSettings(params.cfg.docker);
+    if (params.cfg.network) {
+      ignored.push("network.allow (egress proxy needs docker or podman; network disabled)");
+    }
+    if (ignored.length > 0) {
+      defaultRuntime.log(
+        `Sandbox ${params.containerName} (bubblewrap) ignores unsupported settings: ${ignored.join(", ")}`,
+      );
+    }
+  }
+  // No container to create: each exec spawns a fresh `bwrap` namespace. The registry entry
+  // keeps `openclaw sandbox list` and prune behaviour consistent with container runtimes.
+  await updateRegistry({
+    containerName: params.containerName,
+    sessionKey: params.scopeKey,
+    createdAtMs: params.now,
+    lastUsedAtMs: params.now,
+    image: "bubblewrap",
+    configHash: params.configHash,
+    runtime: "bubblewrap",
+  });
+  return params.containerName;
+}
+
 export async function ensureSandboxContainer(params: {
   sessionKey: string;
   workspaceDir: string;
   agentWorkspaceDir: string;
   cfg: SandboxConfig;
 }) {
+  const runtime = params.cfg.runtime;
   const scopeKey = resolveSandboxScopeKey(params.cfg.scope, params.sessionKey);
   const slug = params.cfg.scope === "shared" ? "shared" : slugifySessionKey(scopeKey);
   const name = `${params.cfg.docker.containerPrefix}${slug}`;
   const containerName = name.slice(0, 63);
   const expectedHash = computeSandboxConfigHash({
+    runtime: runtime === "docker" ? undefined : runtime,
+    egress: params.cfg.network?.allow,
     docker: params.cfg.docker,
     workspaceAccess: params.cfg.workspaceAccess,
     workspaceDir: params.workspaceDir,
     agentWorkspaceDir: params.agentWorkspaceDir,
   });
   const now = Date.now();
-  const state = await dockerContainerState(containerName);
+  const registry = await readRegistry();
+  let registryEntry = registry.entries.find((entry) => entry.containerName === containerName);
+  const previousRuntime = registryEntry?.runtime ?? "docker";
+  if (registryEntry && previousRuntime !== runtime) {
+    // Switching runtimes would orphan the old container; remove it with the runtime that owns it.
+    if (previousRuntime !== "bubblewrap") {
+      await execDocker(["rm", "-f", containerName], {
+        allowFailure: true,
+        runtime: previousRuntime,
+      });
+    }
+    await removeRegistryEntry(containerName);
+    registryEntry = undefined;
+  }
+  if (runtime === "bubblewrap") {
+    return await ensureBubblewrapSandbox({
+      containerName,
+      scopeKey,
+      cfg: params.cfg,
+      configHash: expectedHash,
+      previousHash: registryEntry?.configHash,
+      now,
+    });
+  }
+  const state = await dockerContainerState(containerName, runtime);
   let hasContainer = state.exists;
   let running = state.running;
   let currentHash: string | null = null;
   let hashMismatch = false;
-  let registryEntry:
-    | {
-        lastUsedAtMs: number;
-        configHash?: string;
-      }
-    | undefined;
   if (hasContainer) {
-    const registry = await readRegistry();
-    registryEntry = registry.entries.find((entry) => entry.containerName === containerName);
-    currentHash = await readContainerConfigHash(containerName);
+    currentHash = await readContainerConfigHash(containerName, runtime);
     if (!currentHash) {
       currentHash = registryEntry?.configHash ?? null;
     }
@@ -320,7 +491,7 @@ export async function ensureSandboxContainer(params: {
           `Sandbox config changed for ${containerName} (recently used). Recreate to apply: ${hint}`,
         );
       } else {
-        await execDocker(["rm", "-f", containerName], { allowFailure: true });
+        await execDocker(["rm", "-f", containerName], { allowFailure: true, runtime });
         hasContainer = false;
         running = false;
       }
@@ -335,9 +506,11 @@ export async function ensureSandboxContainer(params: {
       agentWorkspaceDir: params.agentWorkspaceDir,
       scopeKey,
       configHash: expectedHash,
+      runtime,
+      egress: Boolean(params.cfg.network),
     });
   } else if (!running) {
-    await execDocker(["start", containerName]);
+    await execDocker(["start", containerName], { runtime });
   }
   await updateRegistry({
     containerName,
@@ -346,6 +519,7 @@ export async function ensureSandboxContainer(params: {
     lastUsedAtMs: now,
     image: params.cfg.docker.image,
     configHash: hashMismatch && running ? (currentHash ?? undefined) : expectedHash,
+    runtime,
   });
   return containerName;
 }
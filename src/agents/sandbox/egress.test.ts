@@ -0,0 +1,183 @@
+import type { AddressInfo } from "node:net";
+import fs from "node:fs/promises";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { LookupFn } from "../../infra/net/ssrf.js";
+import { closeSandboxEgressProxy, ensureSandboxEgressProxy } from "./egress-proxy.js";
+import {
+  evaluateSandboxEgress,
+  listSandboxEgressDenials,
+  parseSandboxEgressAllowlist,
+  readSandboxEgressLog,
+  recordSandboxEgressDenial,
+  resetSandboxEgressDenialsForTests,
+} from "./egress.js";
+
+const lookupFn = (async (hostname: string) => {
+  const table: Record<string, string> = {
+    "api.github.com": "140.82.112.5",
+    "registry.npmjs.org": "104.16.1.35",
+    "rebind.example.com": "10.0.0.7",
+    "db.corp.example.com": "10.20.1.4",
+  };
+  const address = table[hostname];
+  if (!address) {
+    throw new Error(`ENOTFOUND ${hostname}`);
+  }
+  return [{ address, family: 4 }];
+}) as unknown as LookupFn;
+
+describe("sandbox egress policy", () => {
+  const allowlist = parseSandboxEgressAllowlist({
+    allow: ["api.github.com", "*.npmjs.org", "*.example.com", "10.20.0.0/16", "bad host!"],
+  });
+
+  it("parses domains, wildcards and CIDRs", () => {
+    expect(allowlist.domains).toEqual(["api.github.com", "*.npmjs.org", "*.example.com"]);
+    expect(allowlist.invalid).toEqual(["bad host!"]);
+  });
+
+  it("allows listed hosts and pins their addresses", async () => {
+    await expect(
+      evaluateSandboxEgress({ host: "API.github.com.", allowlist, lookupFn }),
+    ).resolves.toEqual({ allowed: true, addresses: ["140.82.112.5"] });
+    await expect(
+      evaluateSandboxEgress({ host: "registry.npmjs.org", allowlist, lookupFn }),
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("denies unlisted hosts and private resolutions outside allowed CIDRs", async () => {
+    await expect(
+      evaluateSandboxEgress({ host: "evil.test", allowlist, lookupFn }),
+    ).resolves.toEqual({ allowed: false, reason: "host not in allowlist" });
+    await expect(
+      evaluateSandboxEgress({ host: "rebind.example.com", allowlist, lookupFn }),
+    ).resolves.toEqual({
+      allowed: false,
+      reason: "resolves to private/internal IP address (10.0.0.7)",
+    });
+    await expect(
+      evaluateSandboxEgress({ host: "db.corp.example.com", allowlist, lookupFn }),
+    ).resolves.toMatchObject({ allowed: true, addresses: ["10.20.1.4"] });
+    await expect(
+      evaluateSandboxEgress({ host: "169.254.169.254", allowlist, lookupFn }),
+    ).resolves.toEqual({ allowed: false, reason: "private/internal IP address" });
+  });
+
+  it("keeps the SSRF hostname block unless the host is listed exactly", async () => {
+    const wildcard = parseSandboxEgressAllowlist({ allow: ["*"] });
+    await expect(
+      evaluateSandboxEgress({ host: "metadata.google.internal", allowlist: wildcard, lookupFn }),
+    ).resolves.toEqual({ allowed: false, reason: "blocked hostname" });
+  });
+});
+
+describe("sandbox egress proxy", () => {
+  let dir: string;
+  let upstream: http.Server;
+  let upstreamPort: number;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-egress-"));
+    resetSandboxEgressDenialsForTests();
+    upstream = http.createServer((_req, res) => res.end("hello"));
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    upstreamPort = (upstream.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await closeSandboxEgressProxy("openclaw-sbx-test");
+    await new Promise<void>((resolve) => upstream.close(() => resolve()));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function request(params: { url: string; socketPath: string }, target: string, auth = true) {
+    const proxy = new URL(params.url);
+    return new Promise<{ status: number; body: string }>((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath: params.socketPath,
+          path: target,
+          headers: auth
+            ? {
+                "Proxy-Authorization": `Basic ${Buffer.from(`${proxy.username}:${proxy.password}`).toString("base64")}`,
+              }
+            : {},
+        },
+        (res) => {
+          let body = "";
+          res.on("data", (chunk) => (body += String(chunk)));
+          res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+        },
+      );
+      req.on("error", reject);
+      req.end();
+    });
+  }
+
+  it("forwards allowed requests and records denials for the container", async () => {
+    const proxy = await ensureSandboxEgressProxy({
+      containerName: "openclaw-sbx-test",
+      sessionKey: "agent:main:main",
+      policy: { allow: ["127.0.0.1/32"] },
+      socketRootDir: dir,
+      lookupFn,
+    });
+    expect(proxy.env.HTTPS_PROXY).toBe(proxy.url);
+    expect(proxy.url).toMatch(/@127\.0\.0\.1:3128$/);
+    expect(path.dirname(path.dirname(proxy.socketPath))).toBe(dir);
+    expect((await fs.stat(proxy.socketPath)).isSocket()).toBe(true);
+    const startedAt = Date.now();
+
+    await expect(request(proxy, `http://127.0.0.1:${upstreamPort}/`)).resolves.toEqual({
+      status: 200,
+      body: "hello",
+    });
+    await expect(request(proxy, `http://127.0.0.1:${upstreamPort}/`, false)).resolves.toMatchObject(
+      { status: 407 },
+    );
+
+    const denied = await request(proxy, "http://api.github.com/zen");
+    expect(denied.status).toBe(403);
+    expect(denied.body).toContain("host not in allowlist");
+    expect(listSandboxEgressDenials("openclaw-sbx-test", startedAt)).toMatchObject([
+      { host: "api.github.com", port: 80, reason: "host not in allowlist" },
+    ]);
+  });
+
+  it("reuses the proxy until the policy changes", async () => {
+    const params = {
+      containerName: "openclaw-sbx-test",
+      sessionKey: "agent:main:main",
+      policy: { allow: ["api.github.com"] },
+      socketRootDir: dir,
+    };
+    const first = await ensureSandboxEgressProxy(params);
+    expect(await ensureSandboxEgressProxy(params)).toBe(first);
+    const changed = await ensureSandboxEgressProxy({ ...params, policy: { allow: ["*"] } });
+    expect(changed).not.toBe(first);
+    expect(changed.url).not.toBe(first.url);
+  });
+
+  it("appends denials to the egress log", async () => {
+    const filePath = path.join(dir, "egress.jsonl");
+    const base = {
+      containerName: "c",
+      host: "evil.test",
+      port: 443,
+      reason: "host not in allowlist",
+    };
+    await recordSandboxEgressDenial(
+      { ...base, ts: 1, sessionKey: "agent:main:main" },
+      { filePath },
+    );
+    await recordSandboxEgressDenial({ ...base, ts: 2, sessionKey: "agent:ops:main" }, { filePath });
+
+    expect(
+      (await readSandboxEgressLog({ filePath, sessionKey: "agent:ops:main" })).map((e) => e.ts),
+    ).toEqual([2]);
+    expect(await readSandboxEgressLog({ filePath, limit: 1 })).toHaveLength(1);
+  });
+});
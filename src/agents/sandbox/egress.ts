@@ -0,0 +1,223 @@
+import { lookup as dnsLookup } from "node:dns/promises";
+import fs from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import type { SandboxNetworkPolicy } from "./types.js";
+import {
+  isBlockedHostname,
+  isPrivateIpAddress,
+  resolvePinnedHostnameWithPolicy,
+  type LookupFn,
+} from "../../infra/net/ssrf.js";
+import { SANDBOX_EGRESS_LOG_PATH } from "./constants.js";
+
+export type SandboxEgressAllowlist = {
+  /** Lower-cased hostnames; `*.example.com` matches subdomains, `*` any public host. */
+  domains: string[];
+  cidrs: net.BlockList;
+  /** Entries that parsed as neither a hostname nor a CIDR. */
+  invalid: string[];
+};
+
+export type SandboxEgressDecision =
+  | { allowed: true; addresses: string[] }
+  | { allowed: false; reason: string };
+
+export type SandboxEgressDenial = {
+  ts: number;
+  containerName: string;
+  /** Sandbox scope key (session, agent or "shared"). */
+  sessionKey: string;
+  host: string;
+  port: number;
+  reason: string;
+};
+
+const MAX_DENIALS_PER_CONTAINER = 50;
+const HOSTNAME_RE =
+  /^(\*\.)?[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/;
+
+function normalizeHost(host: string): string {
+  const trimmed = host.trim().toLowerCase().replace(/\.$/, "");
+  return trimmed.startsWith("[") && trimmed.endsWith("]") ? trimmed.slice(1, -1) : trimmed;
+}
+
+export function parseSandboxEgressAllowlist(policy: SandboxNetworkPolicy): SandboxEgressAllowlist {
+  const domains: string[] = [];
+  const cidrs = new net.BlockList();
+  const invalid: string[] = [];
+  for (const raw of policy.allow) {
+    const entry = normalizeHost(raw);
+    const slash = entry.indexOf("/");
+    const address = slash === -1 ? entry : entry.slice(0, slash);
+    const family = net.isIP(address);
+    if (family) {
+      const type = family === 6 ? "ipv6" : "ipv4";
+      const prefix = slash === -1 ? (family === 6 ? 128 : 32) : Number(entry.slice(slash + 1));
+      if (Number.isInteger(prefix) && prefix >= 0 && prefix <= (family === 6 ? 128 : 32)) {
+        cidrs.addSubnet(address, prefix, type);
+        continue;
+      }
+    } else if (entry === "*" || HOSTNAME_RE.test(entry)) {
+      domains.push(entry);
+      continue;
+    }
+    invalid.push(raw);
+  }
+  return { domains, cidrs, invalid };
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some((pattern) => {
+    if (pattern === "*") {
+      return true;
+    }
+    if (pattern.startsWith("*.")) {
+      return host.endsWith(pattern.slice(1));
+    }
+    return host === pattern;
+  });
+}
+
+function isCoveredByCidr(address: string, cidrs: net.BlockList): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && cidrs.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Decide whether a sandbox may open a connection to `host`. Uses the same private-address and
+ * blocked-hostname rules as the SSRF guard; an exact hostname entry or a covering CIDR is the
+ * only way to reach internal addresses. Allowed decisions carry the pinned addresses to dial.
+ */
+export async function evaluateSandboxEgress(params: {
+  host: string;
+  allowlist: SandboxEgressAllowlist;
+  lookupFn?: LookupFn;
+}): Promise<SandboxEgressDecision> {
+  const host = normalizeHost(params.host);
+  if (!host) {
+    return { allowed: false, reason: "missing host" };
+  }
+  const { domains, cidrs } = params.allowlist;
+  if (net.isIP(host)) {
+    if (isCoveredByCidr(host, cidrs)) {
+      return { allowed: true, addresses: [host] };
+    }
+    const reason = isPrivateIpAddress(host)
+      ? "private/internal IP address"
+      : "IP address not in allowlist";
+    return { allowed: false, reason };
+  }
+  if (!matchesDomain(host, domains)) {
+    return { allowed: false, reason: "host not in allowlist" };
+  }
+  const isExplicitAllowed = domains.includes(host);
+  if (!isExplicitAllowed && isBlockedHostname(host)) {
+    return { allowed: false, reason: "blocked hostname" };
+  }
+  let addresses: string[];
+  try {
+    const pinned = await resolvePinnedHostnameWithPolicy(host, {
+      lookupFn: params.lookupFn ?? dnsLookup,
+      // Private results are checked below so CIDR entries can re-allow them.
+      policy: { allowPrivateNetwork: true },
+    });
+    addresses = pinned.addresses;
+  } catch (err) {
+    return { allowed: false, reason: `dns: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (!isExplicitAllowed) {
+    const blocked = addresses.find(
+      (address) => isPrivateIpAddress(address) && !isCoveredByCidr(address, cidrs),
+    );
+    if (blocked) {
+      return { allowed: false, reason: `resolves to private/internal IP address (${blocked})` };
+    }
+  }
+  return { allowed: true, addresses };
+}
+
+const denialsByContainer = new Map<string, SandboxEgressDenial[]>();
+let logWrite: Promise<unknown> = Promise.resolve();
+
+async function pruneEgressLog(filePath: string, opts: { maxBytes: number; keepLines: number }) {
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat || stat.size <= opts.maxBytes) {
+    return;
+  }
+  const raw = await fs.readFile(filePath, "utf-8").catch(() => "");
+  const lines = raw.split("\n").filter((line) => line.trim());
+  const kept = lines.slice(Math.max(0, lines.length - opts.keepLines));
+  const tmp = `${filePath}.${process.pid}.${Math.random().toString(16).slice(2)}.tmp`;
+  await fs.writeFile(tmp, `${kept.join("\n")}\n`, "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+/** Remember a denial for the running tool call and append it to the egress log. */
+export function recordSandboxEgressDenial(
+  denial: SandboxEgressDenial,
+  opts?: { filePath?: string },
+): Promise<void> {
+  const list = denialsByContainer.get(denial.containerName) ?? [];
+  list.push(denial);
+  denialsByContainer.set(denial.containerName, list.slice(-MAX_DENIALS_PER_CONTAINER));
+  const filePath = opts?.filePath ?? SANDBOX_EGRESS_LOG_PATH;
+  const next = logWrite
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(denial)}\n`, "utf-8");
+      await pruneEgressLog(filePath, { maxBytes: 1_000_000, keepLines: 2_000 });
+    });
+  logWrite = next;
+  return next;
+}
+
+/** Denials recorded for a container since `sinceMs` (in-memory; used to fail tool calls). */
+export function listSandboxEgressDenials(
+  containerName: string,
+  sinceMs: number,
+): SandboxEgressDenial[] {
+  return (denialsByContainer.get(containerName) ?? []).filter((entry) => entry.ts >= sinceMs);
+}
+
+export function formatSandboxEgressDenials(denials: SandboxEgressDenial[]): string {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const denial of denials) {
+    const line = `- ${denial.host}:${denial.port} (${denial.reason})`;
+    if (!seen.has(line)) {
+      seen.add(line);
+      lines.push(line);
+    }
+  }
+  return `Sandbox network egress denied:\n${lines.join("\n")}\nAllowed destinations are set by sandbox.network.allow.`;
+}
+
+/** Newest-last denials from the egress log, optionally limited to one sandbox scope key. */
+export async function readSandboxEgressLog(opts?: {
+  sessionKey?: string;
+  limit?: number;
+  filePath?: string;
+}): Promise<SandboxEgressDenial[]> {
+  const raw = await fs.readFile(opts?.filePath ?? SANDBOX_EGRESS_LOG_PATH, "utf-8").catch(() => "");
+  const entries: SandboxEgressDenial[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line) as SandboxEgressDenial;
+      if (!opts?.sessionKey || parsed.sessionKey === opts.sessionKey) {
+        entries.push(parsed);
+      }
+    } catch {
+      // ignore torn lines
+    }
+  }
+  return entries.slice(-Math.max(1, opts?.limit ?? 20));
+}
+
+export function resetSandboxEgressDenialsForTests() {
+  denialsByContainer.clear();
+}
@@ -3,6 +3,7 @@ import { loadConfig } from "../../config/config.js";
 import { BROWSER_BRIDGES } from "./browser-bridges.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
 import { dockerContainerState, execDocker } from "./docker.js";
+import { closeSandboxEgressProxy } from "./egress-proxy.js";
 import {
   readBrowserRegistry,
   readRegistry,
@@ -29,14 +30,19 @@ export async function listSandboxContainers(): Promise<SandboxContainerInfo[]> {
   const results: SandboxContainerInfo[] = [];
 
   for (const entry of registry.entries) {
-    const state = await dockerContainerState(entry.containerName);
+    if (entry.runtime === "bubblewrap") {
+      // Nothing long-lived to inspect: each exec starts its own namespace.
+      results.push({ ...entry, running: false, imageMatch: true });
+      continue;
+    }
+    const state = await dockerContainerState(entry.containerName, entry.runtime);
     // Get actual image from container
     let actualImage = entry.image;
     if (state.exists) {
       try {
         const result = await execDocker(
           ["inspect", "-f", "{{.Config.Image}}", entry.containerName],
-          { allowFailure: true },
+          { allowFailure: true, runtime: entry.runtime },
         );
         if (result.code === 0) {
           actualImage = result.stdout.trim();
@@ -64,13 +70,13 @@ export async function listSandboxBrowsers(): Promise<SandboxBrowserInfo[]> {
   const results: SandboxBrowserInfo[] = [];
 
   for (const entry of registry.entries) {
-    const state = await dockerContainerState(entry.containerName);
+    const state = await dockerContainerState(entry.containerName, entry.runtime);
     let actualImage = entry.image;
     if (state.exists) {
       try {
         const result = await execDocker(
           ["inspect", "-f", "{{.Config.Image}}", entry.containerName],
-          { allowFailure: true },
+          { allowFailure: true, runtime: entry.runtime },
         );
         if (result.code === 0) {
           actualImage = result.stdout.trim();
@@ -93,17 +99,24 @@ export async function listSandboxBrowsers(): Promise<SandboxBrowserInfo[]> {
 }
 
 export async function removeSandboxContainer(containerName: string): Promise<void> {
+  const registry = await readRegistry();
+  const runtime = registry.entries.find((entry) => entry.containerName === containerName)?.runtime;
   try {
-    await execDocker(["rm", "-f", containerName], { allowFailure: true });
+    if (runtime !== "bubblewrap") {
+      await execDocker(["rm", "-f", containerName], { allowFailure: true, runtime });
+    }
   } catch {
     // ignore removal failures
   }
   await removeRegistryEntry(containerName);
+  await closeSandboxEgressProxy(containerName);
 }
 
 export async function removeSandboxBrowserContainer(containerName: string): Promise<void> {
+  const registry = await readBrowserRegistry();
+  const runtime = registry.entries.find((entry) => entry.containerName === containerName)?.runtime;
   try {
-    await execDocker(["rm", "-f", containerName], { allowFailure: true });
+    await execDocker(["rm", "-f", containerName], { allowFailure: true, runtime });
   } catch {
     // ignore removal failures
   }
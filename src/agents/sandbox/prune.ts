@@ -1,14 +1,16 @@
-import type { SandboxConfig } from "./types.js";
+import type { SandboxConfig, SandboxRuntimeKind } from "./types.js";
 import { stopBrowserBridgeServer } from "../../browser/bridge-server.js";
 import { defaultRuntime } from "../../runtime.js";
 import { BROWSER_BRIDGES } from "./browser-bridges.js";
 import { dockerContainerState, execDocker } from "./docker.js";
+import { closeSandboxEgressProxy } from "./egress-proxy.js";
 import {
   readBrowserRegistry,
   readRegistry,
   removeBrowserRegistryEntry,
   removeRegistryEntry,
 } from "./registry.js";
+import { pruneSandboxWorkspaceSnapshots } from "./workspace.js";
 
 let lastPruneAtMs = 0;
 
@@ -28,13 +30,18 @@ async function pruneSandboxContainers(cfg: SandboxConfig) {
       (maxAgeDays > 0 && ageMs > maxAgeDays * 24 * 60 * 60 * 1000)
     ) {
       try {
-        await execDocker(["rm", "-f", entry.containerName], {
-          allowFailure: true,
-        });
+        // Bubblewrap sandboxes have no container; pruning only drops the registry entry.
+        if (entry.runtime !== "bubblewrap") {
+          await execDocker(["rm", "-f", entry.containerName], {
+            allowFailure: true,
+            runtime: entry.runtime,
+          });
+        }
       } catch {
         // ignore prune failures
       } finally {
         await removeRegistryEntry(entry.containerName);
+        await closeSandboxEgressProxy(entry.containerName);
       }
     }
   }
@@ -58,6 +65,7 @@ async function pruneSandboxBrowsers(cfg: SandboxConfig) {
       try {
         await execDocker(["rm", "-f", entry.containerName], {
           allowFailure: true,
+          runtime: entry.runtime,
         });
       } catch {
         // ignore prune failures
@@ -82,6 +90,7 @@ export async function maybePruneSandboxes(cfg: SandboxConfig) {
   try {
     await pruneSandboxContainers(cfg);
     await pruneSandboxBrowsers(cfg);
+    await pruneSandboxWorkspaceSnapshots(cfg.prune);
   } catch (error) {
     const message =
       error instanceof Error
@@ -93,9 +102,15 @@ export async function maybePruneSandboxes(cfg: SandboxConfig) {
   }
 }
 
-export async function ensureDockerContainerIsRunning(containerName: string) {
-  const state = await dockerContainerState(containerName);
+export async function ensureDockerContainerIsRunning(
+  containerName: string,
+  runtime?: SandboxRuntimeKind,
+) {
+  if (runtime === "bubblewrap") {
+    return;
+  }
+  const state = await dockerContainerState(containerName, runtime);
   if (state.exists && !state.running) {
-    await execDocker(["start", containerName]);
+    await execDocker(["start", containerName], { runtime });
   }
 }
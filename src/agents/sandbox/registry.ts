@@ -1,4 +1,5 @@
 import fs from "node:fs/promises";
+import type { SandboxRuntimeKind } from "./types.js";
 import {
   SANDBOX_BROWSER_REGISTRY_PATH,
   SANDBOX_REGISTRY_PATH,
@@ -12,6 +13,8 @@ export type SandboxRegistryEntry = {
   lastUsedAtMs: number;
   image: string;
   configHash?: string;
+  /** Runtime that owns the container (entries written before runtimes existed are docker). */
+  runtime?: SandboxRuntimeKind;
 };
 
 type SandboxRegistry = {
@@ -26,6 +29,7 @@ export type SandboxBrowserRegistryEntry = {
   image: string;
   cdpPort: number;
   noVncPort?: number;
+  runtime?: SandboxRuntimeKind;
 };
 
 type SandboxBrowserRegistry = {
@@ -46,15 +46,26 @@ export type SandboxPruneConfig = {
   maxAgeDays: number;
 };
 
+export type SandboxNetworkPolicy = {
+  /** Domains, `*.` wildcards and CIDRs reachable through the egress proxy. */
+  allow: string[];
+};
+
 export type SandboxScope = "session" | "agent" | "shared";
 
+export type SandboxRuntimeKind = "docker" | "podman" | "bubblewrap";
+
 export type SandboxConfig = {
   mode: "off" | "non-main" | "all";
   scope: SandboxScope;
   workspaceAccess: SandboxWorkspaceAccess;
   workspaceRoot: string;
+  runtime: SandboxRuntimeKind;
   docker: SandboxDockerConfig;
   browser: SandboxBrowserConfig;
+  /** Egress allowlist; unset means `docker.network` applies as-is. */
+  network?: SandboxNetworkPolicy;
+  snapshots: { auto: boolean };
   tools: SandboxToolPolicy;
   prune: SandboxPruneConfig;
 };
@@ -71,8 +82,11 @@ export type SandboxContext = {
   workspaceDir: string;
   agentWorkspaceDir: string;
   workspaceAccess: SandboxWorkspaceAccess;
+  runtime: SandboxRuntimeKind;
   containerName: string;
   containerWorkdir: string;
+  /** Namespace + mount args for `bwrap` (bubblewrap runtime only). */
+  bubblewrapArgs?: string[];
   docker: SandboxDockerConfig;
   tools: SandboxToolPolicy;
   browserAllowHostControl: boolean;
@@ -0,0 +1,148 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { slugifySessionKey } from "./shared.js";
+import {
+  createSandboxWorkspaceSnapshot,
+  diffSandboxWorkspaceSnapshot,
+  listSandboxSnapshotScopes,
+  listSandboxWorkspaceSnapshots,
+  pruneSandboxWorkspaceSnapshots,
+  readSandboxWorkspaceSnapshot,
+  resolveSandboxRollbackTarget,
+  restoreSandboxWorkspaceSnapshot,
+} from "./workspace.js";
+
+const scopeKey = "agent:main:main";
+
+describe("sandbox workspace snapshots", () => {
+  let dir: string;
+  let workspaceDir: string;
+  let rootDir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-snapshots-"));
+    workspaceDir = path.join(dir, "workspace");
+    rootDir = path.join(dir, "store");
+    await fs.mkdir(path.join(workspaceDir, "src"), { recursive: true });
+    await fs.mkdir(path.join(workspaceDir, "node_modules", "dep"), { recursive: true });
+    await fs.writeFile(path.join(workspaceDir, "README.md"), "hello\n");
+    await fs.writeFile(path.join(workspaceDir, "src", "main.ts"), "export {};\n");
+    await fs.writeFile(path.join(workspaceDir, "node_modules", "dep", "index.js"), "x");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("captures files outside node_modules and skips unchanged auto snapshots", async () => {
+    const first = await createSandboxWorkspaceSnapshot(
+      { scopeKey, workspaceDir, reason: "auto", skipIfUnchanged: true },
+      { rootDir },
+    );
+    expect(Object.keys(first?.files ?? {}).toSorted()).toEqual(["README.md", "src/main.ts"]);
+    await expect(
+      createSandboxWorkspaceSnapshot(
+        { scopeKey, workspaceDir, reason: "auto", skipIfUnchanged: true },
+        { rootDir },
+      ),
+    ).resolves.toBeNull();
+
+    expect(await listSandboxSnapshotScopes({ rootDir })).toEqual([scopeKey]);
+    expect(await listSandboxWorkspaceSnapshots(scopeKey, { rootDir })).toMatchObject([
+      { id: first?.id, reason: "auto", fileCount: 2 },
+    ]);
+    await expect(readSandboxWorkspaceSnapshot(scopeKey, "../x", { rootDir })).resolves.toBeNull();
+  });
+
+  it("diffs and restores a snapshot, leaving an undo snapshot", async () => {
+    const snapshot = await createSandboxWorkspaceSnapshot(
+      { scopeKey, workspaceDir, reason: "auto", nowMs: 1_000 },
+      { rootDir },
+    );
+    await fs.writeFile(path.join(workspaceDir, "README.md"), "changed by agent\n");
+    await fs.rm(path.join(workspaceDir, "src", "main.ts"));
+    await fs.writeFile(path.join(workspaceDir, "notes.txt"), "new\n");
+
+    const diff = await diffSandboxWorkspaceSnapshot(snapshot!);
+    expect(diff).toEqual({
+      added: ["src/main.ts"],
+      removed: ["notes.txt"],
+      modified: ["README.md"],
+    });
+
+    const target = await resolveSandboxRollbackTarget(scopeKey, { rootDir });
+    expect(target?.snapshot.id).toBe(snapshot?.id);
+
+    const result = await restoreSandboxWorkspaceSnapshot(snapshot!, { rootDir });
+    expect(result.diff).toEqual(diff);
+    await expect(fs.readFile(path.join(workspaceDir, "README.md"), "utf-8")).resolves.toBe(
+      "hello\n",
+    );
+    await expect(fs.readFile(path.join(workspaceDir, "src", "main.ts"), "utf-8")).resolves.toBe(
+      "export {};\n",
+    );
+    await expect(fs.stat(path.join(workspaceDir, "notes.txt"))).rejects.toThrow();
+    await expect(
+      fs.stat(path.join(workspaceDir, "node_modules", "dep", "index.js")),
+    ).resolves.toBeTruthy();
+
+    // The workspace now matches the only auto snapshot, so there is nothing further to roll back.
+    await expect(resolveSandboxRollbackTarget(scopeKey, { rootDir })).resolves.toBeNull();
+
+    const undo = await readSandboxWorkspaceSnapshot(scopeKey, result.undoSnapshotId!, { rootDir });
+    expect(undo?.reason).toBe("pre-rollback");
+    await restoreSandboxWorkspaceSnapshot(undo!, { rootDir });
+    await expect(fs.readFile(path.join(workspaceDir, "notes.txt"), "utf-8")).resolves.toBe("new\n");
+  });
+
+  it("refuses to restore through a directory swapped for a symlink", async () => {
+    const snapshot = await createSandboxWorkspaceSnapshot(
+      { scopeKey, workspaceDir, reason: "manual" },
+      { rootDir },
+    );
+    const outside = path.join(dir, "host");
+    await fs.mkdir(outside);
+    await fs.rm(path.join(workspaceDir, "src"), { recursive: true });
+    await fs.symlink(outside, path.join(workspaceDir, "src"));
+
+    await expect(restoreSandboxWorkspaceSnapshot(snapshot!, { rootDir })).rejects.toThrow(
+      /src is not a directory in the workspace/,
+    );
+    await expect(fs.readdir(outside)).resolves.toEqual([]);
+  });
+
+  it("prunes by age and idle time and collects unreferenced objects", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    await createSandboxWorkspaceSnapshot(
+      { scopeKey, workspaceDir, reason: "auto", nowMs: 0 },
+      { rootDir },
+    );
+    await fs.writeFile(path.join(workspaceDir, "README.md"), "v2\n");
+    const kept = await createSandboxWorkspaceSnapshot(
+      { scopeKey, workspaceDir, reason: "auto", nowMs: 9 * day },
+      { rootDir },
+    );
+    await createSandboxWorkspaceSnapshot(
+      { scopeKey: "agent:ops:main", workspaceDir, reason: "manual", nowMs: 0 },
+      { rootDir },
+    );
+
+    await pruneSandboxWorkspaceSnapshots(
+      { idleHours: 24 * 5, maxAgeDays: 7 },
+      { rootDir, nowMs: 10 * day },
+    );
+
+    expect(await listSandboxSnapshotScopes({ rootDir })).toEqual([scopeKey]);
+    expect(
+      (await listSandboxWorkspaceSnapshots(scopeKey, { rootDir })).map((entry) => entry.id),
+    ).toEqual([kept?.id]);
+    const objects = await fs.readdir(path.join(rootDir, slugifySessionKey(scopeKey), "objects"));
+    expect(objects.toSorted()).toEqual(
+      Object.values(kept!.files)
+        .map((f) => f.hash)
+        .toSorted(),
+    );
+  });
+});
@@ -1,5 +1,9 @@
+import type { Stats } from "node:fs";
+import crypto from "node:crypto";
+import { constants as fsConstants } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { SandboxPruneConfig } from "./types.js";
 import { resolveUserPath } from "../../utils.js";
 import {
   DEFAULT_AGENTS_FILENAME,
@@ -11,6 +15,8 @@ import {
   DEFAULT_USER_FILENAME,
   ensureAgentWorkspace,
 } from "../workspace.js";
+import { SANDBOX_SNAPSHOTS_DIR } from "./constants.js";
+import { slugifySessionKey } from "./shared.js";
 
 export async function ensureSandboxWorkspace(
   workspaceDir: string,
@@ -49,3 +55,445 @@ export async function ensureSandboxWorkspace(
     ensureBootstrapFiles: !skipBootstrap,
   });
 }
+
+export type SandboxSnapshotReason = "auto" | "manual" | "pre-rollback";
+
+export type SandboxSnapshotFile = {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  mode: number;
+};
+
+export type SandboxWorkspaceSnapshot = {
+  id: string;
+  createdAtMs: number;
+  reason: SandboxSnapshotReason;
+  scopeKey: string;
+  workspaceDir: string;
+  files: Record<string, SandboxSnapshotFile>;
+  /** Files over the size cap; left untouched on restore. */
+  skipped: string[];
+};
+
+export type SandboxWorkspaceSnapshotSummary = Omit<SandboxWorkspaceSnapshot, "files"> & {
+  fileCount: number;
+  totalBytes: number;
+};
+
+export type SandboxWorkspaceDiff = {
+  added: string[];
+  removed: string[];
+  modified: string[];
+};
+
+type SnapshotStoreOptions = { rootDir?: string };
+
+// Dependency trees are reproducible and can be huge; they are neither captured nor deleted.
+const SNAPSHOT_EXCLUDED_DIRS = new Set(["node_modules"]);
+const SNAPSHOT_MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Budget per snapshot; files past it are recorded as skipped, like oversized ones.
+const SNAPSHOT_MAX_TOTAL_BYTES = 512 * 1024 * 1024;
+const SNAPSHOT_MAX_FILES = 10_000;
+const SNAPSHOT_MAX_PER_SCOPE = 20;
+
+function resolveSnapshotScopeDir(scopeKey: string, opts?: SnapshotStoreOptions) {
+  return path.join(opts?.rootDir ?? SANDBOX_SNAPSHOTS_DIR, slugifySessionKey(scopeKey));
+}
+
+function createSnapshotId(nowMs: number) {
+  return `${nowMs.toString(36)}${crypto.randomBytes(2).toString("hex")}`;
+}
+
+async function walkWorkspace(
+  dir: string,
+  prefix = "",
+): Promise<Array<{ rel: string; abs: string; stat: Stats }>> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: Array<{ rel: string; abs: string; stat: Stats }> = [];
+  for (const entry of entries) {
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const abs = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SNAPSHOT_EXCLUDED_DIRS.has(entry.name)) {
+        files.push(...(await walkWorkspace(abs, rel)));
+      }
+      continue;
+    }
+    if (entry.isFile()) {
+      const stat = await fs.lstat(abs).catch(() => null);
+      if (stat?.isFile()) {
+        files.push({ rel, abs, stat });
+      }
+    }
+  }
+  return files;
+}
+
+async function hashFile(filePath: string) {
+  return crypto
+    .createHash("sha256")
+    .update(await fs.readFile(filePath))
+    .digest("hex");
+}
+
+async function readManifest(filePath: string): Promise<SandboxWorkspaceSnapshot | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as SandboxWorkspaceSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+async function readManifests(scopeDir: string): Promise<SandboxWorkspaceSnapshot[]> {
+  const manifestsDir = path.join(scopeDir, "manifests");
+  const names = await fs.readdir(manifestsDir).catch(() => []);
+  const manifests = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readManifest(path.join(manifestsDir, name))),
+  );
+  return manifests
+    .filter((entry): entry is SandboxWorkspaceSnapshot => entry !== null)
+    .toSorted((a, b) => b.createdAtMs - a.createdAtMs);
+}
+
+function summarizeSnapshot(snapshot: SandboxWorkspaceSnapshot): SandboxWorkspaceSnapshotSummary {
+  const { files, ...rest } = snapshot;
+  const list = Object.values(files);
+  return {
+    ...rest,
+    fileCount: list.length,
+    totalBytes: list.reduce((sum, file) => sum + file.size, 0),
+  };
+}
+
+async function captureWorkspace(params: {
+  workspaceDir: string;
+  objectsDir: string;
+  previous?: SandboxWorkspaceSnapshot;
+}) {
+  const files: Record<string, SandboxSnapshotFile> = {};
+  const skipped: string[] = [];
+  let totalBytes = 0;
+  let fileCount = 0;
+  for (const { rel, abs, stat } of await walkWorkspace(params.workspaceDir)) {
+    if (
+      stat.size > SNAPSHOT_MAX_FILE_BYTES ||
+      fileCount >= SNAPSHOT_MAX_FILES ||
+      totalBytes + stat.size > SNAPSHOT_MAX_TOTAL_BYTES
+    ) {
+      skipped.push(rel);
+      continue;
+    }
+    totalBytes += stat.size;
+    fileCount += 1;
+    const prev = params.previous?.files[rel];
+    // Unchanged size + mtime: reuse the stored object instead of re-hashing.
+    const hash =
+      prev && prev.size === stat.size && prev.mtimeMs === stat.mtimeMs
+        ? prev.hash
+        : await hashFile(abs);
+    const objectPath = path.join(params.objectsDir, hash);
+    if (!(await fs.stat(objectPath).catch(() => null))) {
+      await fs.copyFile(abs, objectPath);
+    }
+    files[rel] = { hash, size: stat.size, mtimeMs: stat.mtimeMs, mode: stat.mode & 0o777 };
+  }
+  return { files, skipped };
+}
+
+function diffFileMaps(
+  from: Record<string, SandboxSnapshotFile>,
+  to: Record<string, SandboxSnapshotFile>,
+): SandboxWorkspaceDiff {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const modified: string[] = [];
+  for (const [rel, file] of Object.entries(to)) {
+    const prev = from[rel];
+    if (!prev) {
+      added.push(rel);
+    } else if (prev.hash !== file.hash) {
+      modified.push(rel);
+    }
+  }
+  for (const rel of Object.keys(from)) {
+    if (!to[rel]) {
+      removed.push(rel);
+    }
+  }
+  return { added: added.toSorted(), removed: removed.toSorted(), modified: modified.toSorted() };
+}
+
+function isEmptyDiff(diff: SandboxWorkspaceDiff) {
+  return diff.added.length + diff.removed.length + diff.modified.length === 0;
+}
+
+/**
+ * Capture the workspace into the scope's content-addressed store. With `skipIfUnchanged`, no
+ * snapshot is written (and null is returned) when nothing changed since the newest one.
+ */
+export async function createSandboxWorkspaceSnapshot(
+  params: {
+    scopeKey: string;
+    workspaceDir: string;
+    reason: SandboxSnapshotReason;
+    skipIfUnchanged?: boolean;
+    nowMs?: number;
+  },
+  opts?: SnapshotStoreOptions,
+): Promise<SandboxWorkspaceSnapshot | null> {
+  const scopeDir = resolveSnapshotScopeDir(params.scopeKey, opts);
+  const objectsDir = path.join(scopeDir, "objects");
+  await fs.mkdir(objectsDir, { recursive: true });
+  await fs.mkdir(path.join(scopeDir, "manifests"), { recursive: true });
+  const workspaceDir = resolveUserPath(params.workspaceDir);
+  const previous = (await readManifests(scopeDir)).find(
+    (entry) => entry.workspaceDir === workspaceDir,
+  );
+  const { files, skipped } = await captureWorkspace({ workspaceDir, objectsDir, previous });
+  if (params.skipIfUnchanged && previous && isEmptyDiff(diffFileMaps(previous.files, files))) {
+    return null;
+  }
+  const createdAtMs = params.nowMs ?? Date.now();
+  const snapshot: SandboxWorkspaceSnapshot = {
+    id: createSnapshotId(createdAtMs),
+    createdAtMs,
+    reason: params.reason,
+    scopeKey: params.scopeKey,
+    workspaceDir,
+    files,
+    skipped,
+  };
+  await fs.writeFile(
+    path.join(scopeDir, "manifests", `${snapshot.id}.json`),
+    `${JSON.stringify(snapshot)}\n`,
+    "utf-8",
+  );
+  return snapshot;
+}
+
+/** Newest-first snapshot summaries for one sandbox scope key. */
+export async function listSandboxWorkspaceSnapshots(
+  scopeKey: string,
+  opts?: SnapshotStoreOptions,
+): Promise<SandboxWorkspaceSnapshotSummary[]> {
+  return (await readManifests(resolveSnapshotScopeDir(scopeKey, opts))).map(summarizeSnapshot);
+}
+
+/** Every scope key that has snapshots (for listings across sessions/agents). */
+export async function listSandboxSnapshotScopes(opts?: SnapshotStoreOptions): Promise<string[]> {
+  const root = opts?.rootDir ?? SANDBOX_SNAPSHOTS_DIR;
+  const scopes: string[] = [];
+  for (const name of await fs.readdir(root).catch(() => [])) {
+    const newest = (await readManifests(path.join(root, name)))[0];
+    if (newest) {
+      scopes.push(newest.scopeKey);
+    }
+  }
+  return scopes.toSorted();
+}
+
+export async function readSandboxWorkspaceSnapshot(
+  scopeKey: string,
+  id: string,
+  opts?: SnapshotStoreOptions,
+): Promise<SandboxWorkspaceSnapshot | null> {
+  if (!/^[a-z0-9]+$/i.test(id)) {
+    return null;
+  }
+  return await readManifest(
+    path.join(resolveSnapshotScopeDir(scopeKey, opts), "manifests", `${id}.json`),
+  );
+}
+
+/** Look a snapshot up by id across every scope (ids are unique per store). */
+export async function findSandboxWorkspaceSnapshot(
+  id: string,
+  opts?: SnapshotStoreOptions,
+): Promise<SandboxWorkspaceSnapshot | null> {
+  for (const scopeKey of await listSandboxSnapshotScopes(opts)) {
+    const snapshot = await readSandboxWorkspaceSnapshot(scopeKey, id, opts);
+    if (snapshot) {
+      return snapshot;
+    }
+  }
+  return null;
+}
+
+/** What restoring `snapshot` would change in the live workspace (added = would be recreated). */
+export async function diffSandboxWorkspaceSnapshot(
+  snapshot: SandboxWorkspaceSnapshot,
+): Promise<SandboxWorkspaceDiff> {
+  const current: Record<string, SandboxSnapshotFile> = {};
+  const skipped = new Set(snapshot.skipped);
+  for (const { rel, abs, stat } of await walkWorkspace(snapshot.workspaceDir)) {
+    if (stat.size > SNAPSHOT_MAX_FILE_BYTES || skipped.has(rel)) {
+      continue;
+    }
+    const prev = snapshot.files[rel];
+    const hash =
+      prev && prev.size === stat.size && prev.mtimeMs === stat.mtimeMs
+        ? prev.hash
+        : await hashFile(abs);
+    current[rel] = { hash, size: stat.size, mtimeMs: stat.mtimeMs, mode: stat.mode & 0o777 };
+  }
+  return diffFileMaps(current, snapshot.files);
+}
+
+/**
+ * Default `/rollback` target: the newest automatic/manual snapshot that differs from the live
+ * workspace. Repeating a rollback therefore keeps stepping back instead of undoing itself.
+ */
+export async function resolveSandboxRollbackTarget(
+  scopeKey: string,
+  opts?: SnapshotStoreOptions,
+): Promise<{ snapshot: SandboxWorkspaceSnapshot; diff: SandboxWorkspaceDiff } | null> {
+  const manifests = await readManifests(resolveSnapshotScopeDir(scopeKey, opts));
+  for (const snapshot of manifests) {
+    if (snapshot.reason === "pre-rollback") {
+      continue;
+    }
+    const diff = await diffSandboxWorkspaceSnapshot(snapshot);
+    if (!isEmptyDiff(diff)) {
+      return { snapshot, diff };
+    }
+  }
+  return null;
+}
+
+export function formatSandboxWorkspaceDiff(diff: SandboxWorkspaceDiff, limit = 20): string {
+  const lines = [
+    ...diff.added.map((rel) => `+ ${rel}`),
+    ...diff.modified.map((rel) => `~ ${rel}`),
+    ...diff.removed.map((rel) => `- ${rel}`),
+  ];
+  if (lines.length === 0) {
+    return "No changes.";
+  }
+  const shown = lines.slice(0, limit);
+  if (lines.length > limit) {
+    shown.push(`… ${lines.length - limit} more`);
+  }
+  return shown.join("\n");
+}
+
+/**
+ * Resolve `rel` inside the workspace for a restore write or delete. Each parent component is
+ * lstat'ed, so a directory the sandbox swapped for a symlink cannot redirect the write to a host
+ * path. Returns null when a parent is missing and `createParents` is off (nothing to delete).
+ */
+async function resolveRestorePath(
+  workspaceDir: string,
+  rel: string,
+  createParents: boolean,
+): Promise<string | null> {
+  const normalized = path.normalize(rel);
+  if (
+    path.isAbsolute(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith(`..${path.sep}`)
+  ) {
+    throw new Error(`Refusing to restore ${rel}: path escapes the workspace`);
+  }
+  const parts = normalized.split(path.sep);
+  let current = await fs.realpath(workspaceDir);
+  for (const part of parts.slice(0, -1)) {
+    current = path.join(current, part);
+    const stat = await fs.lstat(current).catch(() => null);
+    if (!stat) {
+      if (!createParents) {
+        return null;
+      }
+      await fs.mkdir(current);
+      continue;
+    }
+    if (!stat.isDirectory()) {
+      throw new Error(`Refusing to restore ${rel}: ${part} is not a directory in the workspace`);
+    }
+  }
+  return path.join(current, parts[parts.length - 1]);
+}
+
+/**
+ * Put the workspace back to `snapshot`. A "pre-rollback" snapshot of the current state is
+ * taken first so the restore itself can be undone.
+ */
+export async function restoreSandboxWorkspaceSnapshot(
+  snapshot: SandboxWorkspaceSnapshot,
+  opts?: SnapshotStoreOptions,
+): Promise<{ diff: SandboxWorkspaceDiff; undoSnapshotId?: string }> {
+  const diff = await diffSandboxWorkspaceSnapshot(snapshot);
+  if (isEmptyDiff(diff)) {
+    return { diff };
+  }
+  const undo = await createSandboxWorkspaceSnapshot(
+    { scopeKey: snapshot.scopeKey, workspaceDir: snapshot.workspaceDir, reason: "pre-rollback" },
+    opts,
+  );
+  const objectsDir = path.join(resolveSnapshotScopeDir(snapshot.scopeKey, opts), "objects");
+  for (const rel of diff.removed) {
+    const target = await resolveRestorePath(snapshot.workspaceDir, rel, false);
+    if (target) {
+      await fs.rm(target, { force: true });
+    }
+  }
+  for (const rel of [...diff.added, ...diff.modified]) {
+    const file = snapshot.files[rel];
+    const dest = await resolveRestorePath(snapshot.workspaceDir, rel, true);
+    if (!dest) {
+      continue;
+    }
+    // rm unlinks a symlink itself; EXCL keeps the copy from following one recreated meanwhile.
+    await fs.rm(dest, { force: true });
+    await fs.copyFile(path.join(objectsDir, file.hash), dest, fsConstants.COPYFILE_EXCL);
+    await fs.chmod(dest, file.mode);
+  }
+  return { diff, undoSnapshotId: undo?.id };
+}
+
+/**
+ * Apply the sandbox prune rules to snapshots: scopes idle longer than `idleHours` are dropped
+ * entirely, snapshots older than `maxAgeDays` individually, and unreferenced objects collected.
+ */
+export async function pruneSandboxWorkspaceSnapshots(
+  prune: SandboxPruneConfig,
+  opts?: SnapshotStoreOptions & { nowMs?: number },
+) {
+  const root = opts?.rootDir ?? SANDBOX_SNAPSHOTS_DIR;
+  const now = opts?.nowMs ?? Date.now();
+  const idleMs = prune.idleHours * 60 * 60 * 1000;
+  const maxAgeMs = prune.maxAgeDays * 24 * 60 * 60 * 1000;
+  for (const name of await fs.readdir(root).catch(() => [])) {
+    const scopeDir = path.join(root, name);
+    const manifests = await readManifests(scopeDir);
+    const newest = manifests[0];
+    if (!newest || (idleMs > 0 && now - newest.createdAtMs > idleMs)) {
+      await fs.rm(scopeDir, { recursive: true, force: true });
+      continue;
+    }
+    const expired = manifests.filter(
+      (entry, index) =>
+        index >= SNAPSHOT_MAX_PER_SCOPE || (maxAgeMs > 0 && now - entry.createdAtMs > maxAgeMs),
+    );
+    if (expired.length === 0) {
+      continue;
+    }
+    for (const entry of expired) {
+      await fs.rm(path.join(scopeDir, "manifests", `${entry.id}.json`), { force: true });
+    }
+    const expiredIds = new Set(expired.map((entry) => entry.id));
+    const referenced = new Set(
+      manifests
+        .filter((entry) => !expiredIds.has(entry.id))
+        .flatMap((entry) => Object.values(entry.files).map((file) => file.hash)),
+    );
+    const objectsDir = path.join(scopeDir, "objects");
+    for (const hash of await fs.readdir(objectsDir).catch(() => [])) {
+      if (!referenced.has(hash)) {
+        await fs.rm(path.join(objectsDir, hash), { force: true });
+      }
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const agentSpy = vi.fn(async () => ({ runId: "run-main", status: "ok" }));
 const sessionsDeleteSpy = vi.fn();
+const agentWaitMock = vi.fn(async (): Promise<Record<string, unknown>> => ({}));
 const readLatestAssistantReplyMock = vi.fn(async () => "raw subagent reply");
 const embeddedRunMock = {
   isEmbeddedPiRunActive: vi.fn(() => false),
@@ -24,7 +25,7 @@ vi.mock("../gateway/call.js", () => ({
       return await agentSpy(typed);
     }
     if (typed.method === "agent.wait") {
-      return { status: "error", startedAt: 10, endedAt: 20, error: "boom" };
+      return await agentWaitMock();
     }
     if (typed.method === "sessions.patch") {
       return {};
@@ -64,6 +65,9 @@ describe("subagent announce formatting", () => {
   beforeEach(() => {
     agentSpy.mockClear();
     sessionsDeleteSpy.mockClear();
+    agentWaitMock
+      .mockReset()
+      .mockResolvedValue({ status: "error", startedAt: 10, endedAt: 20, error: "boom" });
     embeddedRunMock.isEmbeddedPiRunActive.mockReset().mockReturnValue(false);
     embeddedRunMock.isEmbeddedPiRunStreaming.mockReset().mockReturnValue(false);
     embeddedRunMock.queueEmbeddedPiMessage.mockReset().mockReturnValue(false);
@@ -394,6 +398,79 @@ describe("subagent announce formatting", () => {
     expect(call?.params?.message).not.toContain("(no output)");
   });
 
+  it("asks the child to repair a result that misses the schema and hands the JSON to the requester", async () => {
+    const { runSubagentAnnounceFlow } = await import("./subagent-announce.js");
+    agentWaitMock.mockResolvedValue({ status: "ok" });
+    readLatestAssistantReplyMock
+      .mockResolvedValueOnce("Found 2 open issues.")
+      .mockResolvedValueOnce('Sure:\n```json\n{ "count": 2, "ids": [12, 14] }\n```');
+
+    await runSubagentAnnounceFlow({
+      childSessionKey: "agent:main:subagent:test",
+      childRunId: "run-child",
+      requesterSessionKey: "agent:main:main",
+      requesterDisplayKey: "main",
+      task: "count issues",
+      timeoutMs: 1000,
+      cleanup: "keep",
+      waitForCompletion: false,
+      outcome: { status: "ok" },
+      resultSchema: {
+        type: "object",
+        required: ["count", "ids"],
+        properties: { count: { type: "integer" }, ids: { type: "array" } },
+      },
+    });
+
+    expect(agentSpy).toHaveBeenCalledTimes(2);
+    const repair = agentSpy.mock.calls[0]?.[0] as {
+      params?: { message?: string; sessionKey?: string; deliver?: boolean };
+    };
+    expect(repair?.params?.sessionKey).toBe("agent:main:subagent:test");
+    expect(repair?.params?.deliver).toBe(false);
+    expect(repair?.params?.message).toContain("reply does not contain a JSON value");
+    const announce = agentSpy.mock.calls[1]?.[0] as { params?: { message?: string } };
+    const msg = announce?.params?.message as string;
+    expect(msg).toContain("completed successfully");
+    expect(msg).toContain('sessions_result (runId: "run-child")');
+    expect(msg).not.toContain('"ids"');
+    expect(msg).not.toContain("Findings:");
+    const { readSubagentStructuredResult } = await import("./subagent-result.js");
+    expect(
+      readSubagentStructuredResult({ runId: "run-child", requesterSessionKey: "agent:main:main" })
+        ?.value,
+    ).toEqual({ count: 2, ids: [12, 14] });
+    expect(
+      readSubagentStructuredResult({ runId: "run-child", requesterSessionKey: "agent:other:main" }),
+    ).toBeUndefined();
+  });
+
+  it("announces schema errors once repair attempts are exhausted", async () => {
+    const { runSubagentAnnounceFlow } = await import("./subagent-announce.js");
+    agentWaitMock.mockResolvedValue({ status: "ok" });
+    readLatestAssistantReplyMock.mockResolvedValue('{ "count": "two" }');
+
+    await runSubagentAnnounceFlow({
+      childSessionKey: "agent:main:subagent:test",
+      childRunId: "run-child",
+      requesterSessionKey: "agent:main:main",
+      requesterDisplayKey: "main",
+      task: "count issues",
+      timeoutMs: 1000,
+      cleanup: "keep",
+      waitForCompletion: false,
+      outcome: { status: "ok" },
+      resultSchema: { type: "object", properties: { count: { type: "integer" } } },
+    });
+
+    // Two repair turns on the child, then the announce.
+    expect(agentSpy).toHaveBeenCalledTimes(3);
+    const announce = agentSpy.mock.calls[2]?.[0] as { params?: { message?: string } };
+    const msg = announce?.params?.message as string;
+    expect(msg).toContain("does not match the requested schema (count: must be integer)");
+    expect(msg).toContain('{ "count": "two" }');
+  });
+
   it("defers announce when child run is still active after wait timeout", async () => {
     const { runSubagentAnnounceFlow } = await import("./subagent-announce.js");
     embeddedRunMock.isEmbeddedPiRunActive.mockReturnValue(true);
@@ -18,12 +18,22 @@ import {
   mergeDeliveryContext,
   normalizeDeliveryContext,
 } from "../utils/delivery-context.js";
+import { AGENT_LANE_SUBAGENT } from "./lanes.js";
 import {
   isEmbeddedPiRunActive,
   queueEmbeddedPiMessage,
   waitForEmbeddedPiRunEnd,
 } from "./pi-embedded.js";
 import { type AnnounceQueueItem, enqueueAnnounce } from "./subagent-announce-queue.js";
+import {
+  buildSubagentResultContractPrompt,
+  buildSubagentResultRepairPrompt,
+  storeSubagentStructuredResult,
+  SUBAGENT_RESULT_REPAIR_ATTEMPTS,
+  type SubagentResultSchema,
+  type SubagentResultValidation,
+  validateSubagentResult,
+} from "./subagent-result.js";
 import { readLatestAssistantReply } from "./tools/agent-step.js";
 
 function formatTokenCount(value?: number) {
@@ -305,12 +315,59 @@ async function readLatestAssistantReplyWithRetry(params: {
   return reply;
 }
 
+/**
+ * Validate the child reply against the spawn-time schema, asking the child for a
+ * corrected reply (up to SUBAGENT_RESULT_REPAIR_ATTEMPTS times) when it does not match.
+ */
+async function resolveSubagentStructuredResult(params: {
+  childSessionKey: string;
+  schema: SubagentResultSchema;
+  reply?: string;
+  timeoutMs: number;
+}): Promise<{ result: SubagentResultValidation; reply?: string }> {
+  let reply = params.reply;
+  let result = validateSubagentResult(params.schema, reply);
+  for (let attempt = 0; !result.ok && attempt < SUBAGENT_RESULT_REPAIR_ATTEMPTS; attempt += 1) {
+    try {
+      const response = await callGateway<{ runId?: string }>({
+        method: "agent",
+        params: {
+          message: buildSubagentResultRepairPrompt(params.schema, result.errors),
+          sessionKey: params.childSessionKey,
+          deliver: false,
+          lane: AGENT_LANE_SUBAGENT,
+          idempotencyKey: crypto.randomUUID(),
+        },
+        timeoutMs: 10_000,
+      });
+      if (typeof response?.runId !== "string" || !response.runId) {
+        break;
+      }
+      const wait = await callGateway<{ status?: string }>({
+        method: "agent.wait",
+        params: { runId: response.runId, timeoutMs: params.timeoutMs },
+        timeoutMs: params.timeoutMs + 2000,
+      });
+      if (wait?.status !== "ok") {
+        break;
+      }
+    } catch (err) {
+      defaultRuntime.error?.(`Subagent result repair failed: ${String(err)}`);
+      break;
+    }
+    reply = await readLatestAssistantReply({ sessionKey: params.childSessionKey });
+    result = validateSubagentResult(params.schema, reply);
+  }
+  return { result, reply };
+}
+
 export function buildSubagentSystemPrompt(params: {
   requesterSessionKey?: string;
   requesterOrigin?: DeliveryContext;
   childSessionKey: string;
   label?: string;
   task?: string;
+  resultSchema?: SubagentResultSchema;
 }) {
   const taskText =
     typeof params.task === "string" && params.task.trim()
@@ -332,11 +389,15 @@ export function buildSubagentSystemPrompt(params: {
     "3. **Don't initiate** - No heartbeats, no proactive actions, no side quests",
     "4. **Be ephemeral** - You may be terminated after task completion. That's fine.",
     "",
-    "## Output Format",
-    "When complete, your final response should include:",
-    "- What you accomplished or found",
-    "- Any relevant details the main agent should know",
-    "- Keep it concise but informative",
+    ...(params.resultSchema
+      ? buildSubagentResultContractPrompt(params.resultSchema)
+      : [
+          "## Output Format",
+          "When complete, your final response should include:",
+          "- What you accomplished or found",
+          "- Any relevant details the main agent should know",
+          "- Keep it concise but informative",
+        ]),
     "",
     "## What You DON'T Do",
     "- NO user conversations (that's main agent's job)",
@@ -380,6 +441,7 @@ export async function runSubagentAnnounceFlow(params: {
   label?: string;
   outcome?: SubagentRunOutcome;
   announceType?: SubagentAnnounceType;
+  resultSchema?: SubagentResultSchema;
 }): Promise<boolean> {
   let didAnnounce = false;
   let shouldDeleteChildSession = params.cleanup === "delete";
@@ -466,6 +528,25 @@ export async function runSubagentAnnounceFlow(params: {
       outcome = { status: "unknown" };
     }
 
+    let structured: SubagentResultValidation | undefined;
+    if (params.resultSchema && outcome.status === "ok") {
+      const resolved = await resolveSubagentStructuredResult({
+        childSessionKey: params.childSessionKey,
+        schema: params.resultSchema,
+        reply,
+        timeoutMs: settleTimeoutMs,
+      });
+      structured = resolved.result;
+      reply = resolved.reply ?? reply;
+      if (structured.ok) {
+        storeSubagentStructuredResult({
+          runId: params.childRunId,
+          requesterSessionKey: params.requesterSessionKey,
+          value: structured.value,
+        });
+      }
+    }
+
     // Build stats
     const statsLine = await buildSubagentStatsLine({
       sessionKey: params.childSessionKey,
@@ -475,13 +556,15 @@ export async function runSubagentAnnounceFlow(params: {
 
     // Build status label
     const statusLabel =
-      outcome.status === "ok"
-        ? "completed successfully"
-        : outcome.status === "timeout"
-          ? "timed out"
-          : outcome.status === "error"
-            ? `failed: ${outcome.error || "unknown error"}`
-            : "finished with unknown status";
+      structured && !structured.ok
+        ? `completed, but its result does not match the requested schema (${structured.errors.join("; ")})`
+        : outcome.status === "ok"
+          ? "completed successfully"
+          : outcome.status === "timeout"
+            ? "timed out"
+            : outcome.status === "error"
+              ? `failed: ${outcome.error || "unknown error"}`
+              : "finished with unknown status";
 
     // Build instructional message for main agent
     const announceType = params.announceType ?? "subagent task";
@@ -489,8 +572,11 @@ export async function runSubagentAnnounceFlow(params: {
     const triggerMessage = [
       `A ${announceType} "${taskLabel}" just ${statusLabel}.`,
       "",
-      "Findings:",
-      reply || "(no output)",
+      ...(structured?.ok
+        ? [
+            `Result: JSON validated against the requested schema. Fetch it with sessions_result (runId: "${params.childRunId}") and use it as-is.`,
+          ]
+        : ["Findings:", reply || "(no output)"]),
       "",
       statsLine,
       "",
@@ -1,3 +1,4 @@
+import type { SubagentResultSchema } from "./subagent-result.js";
 import { loadConfig } from "../config/config.js";
 import { callGateway } from "../gateway/call.js";
 import { onAgentEvent } from "../infra/agent-events.js";
@@ -25,9 +26,16 @@ export type SubagentRunRecord = {
   archiveAtMs?: number;
   cleanupCompletedAt?: number;
   cleanupHandled?: boolean;
+  /** False when the spawner reads the outcome itself instead of announcing it. */
+  announce?: boolean;
+  /** JSON Schema the child's final reply must satisfy before it is announced. */
+  resultSchema?: SubagentResultSchema;
 };
 
+export type SubagentRunEndedListener = (entry: SubagentRunRecord) => void;
+
 const subagentRuns = new Map<string, SubagentRunRecord>();
+const endedListeners = new Set<SubagentRunEndedListener>();
 let sweeper: NodeJS.Timeout | null = null;
 let listenerStarted = false;
 let listenerStop: (() => void) | null = null;
@@ -61,24 +69,7 @@ function resumeSubagentRun(runId: string) {
     if (!beginSubagentCleanup(runId)) {
       return;
     }
-    const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
-    void runSubagentAnnounceFlow({
-      childSessionKey: entry.childSessionKey,
-      childRunId: entry.runId,
-      requesterSessionKey: entry.requesterSessionKey,
-      requesterOrigin,
-      requesterDisplayKey: entry.requesterDisplayKey,
-      task: entry.task,
-      timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
-      cleanup: entry.cleanup,
-      waitForCompletion: false,
-      startedAt: entry.startedAt,
-      endedAt: entry.endedAt,
-      label: entry.label,
-      outcome: entry.outcome,
-    }).then((didAnnounce) => {
-      finalizeSubagentCleanup(runId, entry.cleanup, didAnnounce);
-    });
+    announceSubagentRun(entry);
     resumedRuns.add(runId);
     return;
   }
@@ -219,30 +210,51 @@ function ensureListener() {
     }
     persistSubagentRuns();
 
+    notifySubagentRunEnded(entry);
     if (!beginSubagentCleanup(evt.runId)) {
       return;
     }
-    const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
-    void runSubagentAnnounceFlow({
-      childSessionKey: entry.childSessionKey,
-      childRunId: entry.runId,
-      requesterSessionKey: entry.requesterSessionKey,
-      requesterOrigin,
-      requesterDisplayKey: entry.requesterDisplayKey,
-      task: entry.task,
-      timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
-      cleanup: entry.cleanup,
-      waitForCompletion: false,
-      startedAt: entry.startedAt,
-      endedAt: entry.endedAt,
-      label: entry.label,
-      outcome: entry.outcome,
-    }).then((didAnnounce) => {
-      finalizeSubagentCleanup(evt.runId, entry.cleanup, didAnnounce);
-    });
+    announceSubagentRun(entry);
+  });
+}
+
+function announceSubagentRun(entry: SubagentRunRecord) {
+  if (entry.announce === false) {
+    // The caller consumes the outcome itself (workflows); nothing to post back.
+    finalizeSubagentCleanup(entry.runId, entry.cleanup, true);
+    return;
+  }
+  const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
+  void runSubagentAnnounceFlow({
+    childSessionKey: entry.childSessionKey,
+    childRunId: entry.runId,
+    requesterSessionKey: entry.requesterSessionKey,
+    requesterOrigin,
+    requesterDisplayKey: entry.requesterDisplayKey,
+    task: entry.task,
+    timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
+    cleanup: entry.cleanup,
+    waitForCompletion: false,
+    startedAt: entry.startedAt,
+    endedAt: entry.endedAt,
+    label: entry.label,
+    outcome: entry.outcome,
+    resultSchema: entry.resultSchema,
+  }).then((didAnnounce) => {
+    finalizeSubagentCleanup(entry.runId, entry.cleanup, didAnnounce);
   });
 }
 
+function notifySubagentRunEnded(entry: SubagentRunRecord) {
+  for (const listener of endedListeners) {
+    try {
+      listener(entry);
+    } catch {
+      // listeners must not break cleanup
+    }
+  }
+}
+
 function finalizeSubagentCleanup(runId: string, cleanup: "delete" | "keep", didAnnounce: boolean) {
   const entry = subagentRuns.get(runId);
   if (!entry) {
@@ -289,6 +301,8 @@ export function registerSubagentRun(params: {
   cleanup: "delete" | "keep";
   label?: string;
   runTimeoutSeconds?: number;
+  announce?: boolean;
+  resultSchema?: SubagentResultSchema;
 }) {
   const now = Date.now();
   const cfg = loadConfig();
@@ -309,6 +323,8 @@ export function registerSubagentRun(params: {
     startedAt: now,
     archiveAtMs,
     cleanupHandled: false,
+    announce: params.announce,
+    resultSchema: params.resultSchema,
   });
   ensureListener();
   persistSubagentRuns();
@@ -363,27 +379,11 @@ async function waitForSubagentCompletion(runId: string, waitTimeoutMs: number) {
     if (mutated) {
       persistSubagentRuns();
     }
+    notifySubagentRunEnded(entry);
     if (!beginSubagentCleanup(runId)) {
       return;
     }
-    const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
-    void runSubagentAnnounceFlow({
-      childSessionKey: entry.childSessionKey,
-      childRunId: entry.runId,
-      requesterSessionKey: entry.requesterSessionKey,
-      requesterOrigin,
-      requesterDisplayKey: entry.requesterDisplayKey,
-      task: entry.task,
-      timeoutMs: SUBAGENT_ANNOUNCE_TIMEOUT_MS,
-      cleanup: entry.cleanup,
-      waitForCompletion: false,
-      startedAt: entry.startedAt,
-      endedAt: entry.endedAt,
-      label: entry.label,
-      outcome: entry.outcome,
-    }).then((didAnnounce) => {
-      finalizeSubagentCleanup(runId, entry.cleanup, didAnnounce);
-    });
+    announceSubagentRun(entry);
   } catch {
     // ignore
   }
@@ -425,6 +425,18 @@ export function listSubagentRunsForRequester(requesterSessionKey: string): Subag
   return [...subagentRuns.values()].filter((entry) => entry.requesterSessionKey === key);
 }
 
+export function getSubagentRun(runId: string): SubagentRunRecord | undefined {
+  return subagentRuns.get(runId);
+}
+
+/** Called once a run has an outcome, before announce/cleanup; returns an unsubscribe. */
+export function onSubagentRunEnded(listener: SubagentRunEndedListener): () => void {
+  endedListeners.add(listener);
+  return () => {
+    endedListeners.delete(listener);
+  };
+}
+
 export function initSubagentRegistry() {
   restoreSubagentRunsOnce();
 }
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  checkSubagentResultSchema,
+  extractSubagentResultJson,
+  readSubagentStructuredResult,
+  resetSubagentStructuredResultsForTests,
+  storeSubagentStructuredResult,
+  validateSubagentResult,
+} from "./subagent-result.js";
+
+describe("subagent result contracts", () => {
+  beforeEach(() => {
+    resetSubagentStructuredResultsForTests();
+  });
+
+  it("extracts JSON from bare, fenced and prose-wrapped replies", () => {
+    expect(extractSubagentResultJson('  {"a": 1} ')).toEqual({ ok: true, value: { a: 1 } });
+    expect(
+      extractSubagentResultJson('Draft:\n```json\n{"a": 0}\n```\nFinal:\n```json\n{"a": 2}\n```'),
+    ).toEqual({ ok: true, value: { a: 2 } });
+    expect(extractSubagentResultJson('The answer is ["x", "y"].')).toEqual({
+      ok: true,
+      value: ["x", "y"],
+    });
+    expect(extractSubagentResultJson("no json here")).toEqual({ ok: false });
+  });
+
+  it("validates replies against the schema and rejects broken schemas", () => {
+    const schema = {
+      type: "object",
+      required: ["severity"],
+      properties: { severity: { enum: ["low", "high"] } },
+    };
+    expect(validateSubagentResult(schema, '{"severity": "high"}')).toEqual({
+      ok: true,
+      value: { severity: "high" },
+    });
+    expect(validateSubagentResult(schema, '{"severity": "meh"}')).toEqual({
+      ok: false,
+      errors: ["severity: must be equal to one of the allowed values"],
+    });
+    expect(checkSubagentResultSchema({ type: "nope" }).ok).toBe(false);
+    expect(checkSubagentResultSchema([]).ok).toBe(false);
+  });
+
+  it("compiles a schema with an $id again after it was evicted", () => {
+    const schema = () => ({ $id: "https://example.com/finding.json", type: "object" });
+    expect(checkSubagentResultSchema(schema()).ok).toBe(true);
+    // A different schema reusing the $id, then enough others to evict both.
+    expect(checkSubagentResultSchema({ ...schema(), required: ["id"] }).ok).toBe(true);
+    for (let i = 0; i < 120; i += 1) {
+      expect(checkSubagentResultSchema({ type: "object", maxProperties: i }).ok).toBe(true);
+    }
+    expect(checkSubagentResultSchema(schema()).ok).toBe(true);
+    expect(validateSubagentResult(schema(), '{"a": 1}')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it("keeps validated results for the requesting session across reloads", () => {
+    storeSubagentStructuredResult({
+      runId: "run-1",
+      requesterSessionKey: "agent:main:main",
+      value: { ok: true },
+      now: 1_000,
+    });
+    resetSubagentStructuredResultsForTests();
+
+    const read = (requesterSessionKey: string, now = 2_000) =>
+      readSubagentStructuredResult({ runId: "run-1", requesterSessionKey, now })?.value;
+    expect(read("agent:main:main")).toEqual({ ok: true });
+    expect(read("agent:ops:main")).toBeUndefined();
+    expect(read("agent:main:main", 1_000 + 25 * 60 * 60_000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,236 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import { createBoundedSchemaValidator } from "../plugins/schema-validator.js";
+
+/** Extra child turns spent asking for a corrected result before giving up. */
+export const SUBAGENT_RESULT_REPAIR_ATTEMPTS = 2;
+
+const MAX_SCHEMA_CHARS = 16_000;
+const MAX_CACHED_SCHEMAS = 100;
+/** Validated results wait this long for the requester to fetch them with sessions_result. */
+const RESULT_TTL_MS = 24 * 60 * 60_000;
+const MAX_STORED_RESULTS = 200;
+
+export type SubagentResultSchema = Record<string, unknown>;
+
+export type SubagentResultValidation =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: string[] };
+
+export type SubagentStructuredResult = {
+  runId: string;
+  requesterSessionKey: string;
+  value: unknown;
+  storedAt: number;
+};
+
+// Schemas come back from the persisted run registry as fresh objects; keying validators by
+// content hash compiles each distinct schema once. Agent-supplied schemas get their own
+// bounded cache so they never pile up in the plugin/config validator cache.
+const resultValidators = createBoundedSchemaValidator({ maxEntries: MAX_CACHED_SCHEMAS });
+
+function validateAgainstSchema(schema: SubagentResultSchema, value: unknown) {
+  const cacheKey = crypto.createHash("sha256").update(JSON.stringify(schema)).digest("hex");
+  return resultValidators.validate({ schema, cacheKey, value });
+}
+
+/** Reject schemas Ajv cannot compile before a child run is spawned with them. */
+export function checkSubagentResultSchema(
+  schema: unknown,
+): { ok: true; schema: SubagentResultSchema } | { ok: false; error: string } {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return { ok: false, error: "resultSchema must be a JSON Schema object" };
+  }
+  if (JSON.stringify(schema).length > MAX_SCHEMA_CHARS) {
+    return { ok: false, error: `resultSchema is too large (max ${MAX_SCHEMA_CHARS} chars)` };
+  }
+  try {
+    // Compiles into the validator cache so the announce reuses it.
+    validateAgainstSchema(schema as SubagentResultSchema, null);
+  } catch (err) {
+    return { ok: false, error: `invalid resultSchema: ${String(err)}` };
+  }
+  return { ok: true, schema: schema as SubagentResultSchema };
+}
+
+function tryParseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Pull the JSON value out of a child reply. Accepts a bare JSON reply, the last
+ * fenced ```json block, or the outermost {…}/[…] span when prose surrounds it.
+ */
+export function extractSubagentResultJson(
+  reply: string,
+): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = reply.trim();
+  if (!trimmed) {
+    return { ok: false };
+  }
+  const whole = tryParseJson(trimmed);
+  if (whole.ok) {
+    return whole;
+  }
+  const fences = [...trimmed.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/gi)];
+  for (const fence of fences.toReversed()) {
+    const parsed = tryParseJson(fence[1].trim());
+    if (parsed.ok) {
+      return parsed;
+    }
+  }
+  for (const [open, close] of [
+    ["{", "}"],
+    ["[", "]"],
+  ] as const) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start >= 0 && end > start) {
+      const parsed = tryParseJson(trimmed.slice(start, end + 1));
+      if (parsed.ok) {
+        return parsed;
+      }
+    }
+  }
+  return { ok: false };
+}
+
+export function validateSubagentResult(
+  schema: SubagentResultSchema,
+  reply: string | undefined,
+): SubagentResultValidation {
+  const extracted = extractSubagentResultJson(reply ?? "");
+  if (!extracted.ok) {
+    return { ok: false, errors: ["reply does not contain a JSON value"] };
+  }
+  const validated = validateAgainstSchema(schema, extracted.value);
+  if (!validated.ok) {
+    return { ok: false, errors: validated.errors };
+  }
+  return { ok: true, value: extracted.value };
+}
+
+export function buildSubagentResultContractPrompt(schema: SubagentResultSchema): string[] {
+  return [
+    "## Result Contract",
+    "Your final message is parsed by the main agent, not read by a person.",
+    "Reply with a single JSON value that matches this JSON Schema, with no prose before or after it:",
+    "```json",
+    JSON.stringify(schema, null, 2),
+    "```",
+  ];
+}
+
+export function buildSubagentResultRepairPrompt(
+  schema: SubagentResultSchema,
+  errors: string[],
+): string {
+  return [
+    "Your last reply did not match the required result schema:",
+    ...errors.map((error) => `- ${error}`),
+    "",
+    "Reply again with only the corrected JSON value. Do not redo the task unless the data is missing.",
+    "```json",
+    JSON.stringify(schema, null, 2),
+    "```",
+  ].join("\n");
+}
+
+// Loaded from the state dir on first use so results survive a gateway restart.
+let structuredResults: Map<string, SubagentStructuredResult> | null = null;
+
+function resolveStructuredResultsPath() {
+  return path.join(resolveStateDir(), "subagents", "results.json");
+}
+
+function loadStructuredResults(): Map<string, SubagentStructuredResult> {
+  if (structuredResults) {
+    return structuredResults;
+  }
+  structuredResults = new Map();
+  const raw = loadJsonFile(resolveStructuredResultsPath()) as
+    | { version?: number; results?: Record<string, SubagentStructuredResult> }
+    | undefined;
+  if (raw?.version === 1 && raw.results && typeof raw.results === "object") {
+    for (const [runId, entry] of Object.entries(raw.results)) {
+      if (entry && typeof entry.requesterSessionKey === "string") {
+        structuredResults.set(runId, entry);
+      }
+    }
+  }
+  return structuredResults;
+}
+
+function pruneStructuredResults(results: Map<string, SubagentStructuredResult>, now: number) {
+  for (const [runId, entry] of results) {
+    if (now - entry.storedAt > RESULT_TTL_MS) {
+      results.delete(runId);
+    }
+  }
+  while (results.size > MAX_STORED_RESULTS) {
+    const oldest = results.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    results.delete(oldest);
+  }
+}
+
+function saveStructuredResults(results: Map<string, SubagentStructuredResult>) {
+  try {
+    saveJsonFile(resolveStructuredResultsPath(), {
+      version: 1,
+      results: Object.fromEntries(results),
+    });
+  } catch {
+    // best-effort; the result stays available in memory
+  }
+}
+
+/** Keep a validated result for the requester; the announce only points at it. */
+export function storeSubagentStructuredResult(params: {
+  runId: string;
+  requesterSessionKey: string;
+  value: unknown;
+  now?: number;
+}) {
+  const now = params.now ?? Date.now();
+  const results = loadStructuredResults();
+  results.delete(params.runId);
+  results.set(params.runId, {
+    runId: params.runId,
+    requesterSessionKey: params.requesterSessionKey,
+    value: params.value,
+    storedAt: now,
+  });
+  pruneStructuredResults(results, now);
+  saveStructuredResults(results);
+}
+
+/** Only the session that spawned the run can read its result. */
+export function readSubagentStructuredResult(params: {
+  runId: string;
+  requesterSessionKey: string;
+  now?: number;
+}): SubagentStructuredResult | undefined {
+  const results = loadStructuredResults();
+  const entry = results.get(params.runId);
+  if (!entry || entry.requesterSessionKey !== params.requesterSessionKey) {
+    return undefined;
+  }
+  if ((params.now ?? Date.now()) - entry.storedAt > RESULT_TTL_MS) {
+    return undefined;
+  }
+  return entry;
+}
+
+export function resetSubagentStructuredResultsForTests() {
+  structuredResults = null;
+  resultValidators.clear();
+}
@@ -14,7 +14,13 @@ const TOOL_NAME_ALIASES: Record<string, string> = {
 
 export const TOOL_GROUPS: Record<string, string[]> = {
   // NOTE: Keep canonical (lowercase) tool names here.
-  "group:memory": ["memory_search", "memory_get"],
+  "group:memory": [
+    "memory_search",
+    "memory_get",
+    "memory_fact_set",
+    "memory_fact_query",
+    "memory_fact_expire",
+  ],
   "group:web": ["web_search", "web_fetch"],
   // Basic workspace/file tools
   "group:fs": ["read", "write", "edit", "apply_patch"],
@@ -26,6 +32,7 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_history",
     "sessions_send",
     "sessions_spawn",
+    "sessions_result",
     "session_status",
   ],
   // UI helpers
@@ -49,9 +56,13 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     "sessions_history",
     "sessions_send",
     "sessions_spawn",
+    "sessions_result",
     "session_status",
     "memory_search",
     "memory_get",
+    "memory_fact_set",
+    "memory_fact_query",
+    "memory_fact_expire",
     "web_search",
     "web_fetch",
     "image",
@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import {
+  consumeToolQuota,
+  formatToolQuotaUsage,
+  listToolQuotaUsage,
+  resetToolQuotasForTests,
+  resolveToolQuotas,
+} from "./tool-quotas.js";
+
+const config = {
+  tools: {
+    quotas: {
+      web_search: { perDay: 3 },
+      "browser.navigate": { perRun: 1 },
+      sessions_spawn: { perSession: 2 },
+    },
+  },
+  agents: {
+    list: [{ id: "ops", tools: { quotas: { web_search: { perDay: 1 } } } }],
+  },
+} as OpenClawConfig;
+
+function call(
+  toolName: string,
+  extra?: { sessionKey?: string; sessionId?: string; runId?: string; params?: unknown },
+) {
+  return consumeToolQuota({
+    config,
+    sessionId: extra?.sessionId,
+    sessionKey: extra?.sessionKey ?? "agent:main:main",
+    runId: extra?.runId ?? "run-1",
+    toolName,
+    toolParams: extra?.params,
+    nowMs: new Date(2026, 0, 5, 12).getTime(),
+  });
+}
+
+describe("tool quotas", () => {
+  beforeEach(() => {
+    resetToolQuotasForTests();
+  });
+
+  it("lets agent entries replace global entries per key", () => {
+    expect(resolveToolQuotas(config, "ops").web_search).toEqual({ perDay: 1 });
+    expect(resolveToolQuotas(config, "ops").sessions_spawn).toEqual({ perSession: 2 });
+    expect(resolveToolQuotas(config, "main").web_search).toEqual({ perDay: 3 });
+  });
+
+  it("counts only the matching action for tool.action keys, per run", () => {
+    expect(call("browser", { params: { action: "snapshot" } })).toEqual({ allowed: true });
+    expect(call("browser", { params: { action: "navigate" } })).toEqual({ allowed: true });
+    expect(call("browser", { params: { action: "navigate" } })).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining("browser.navigate used 1/1 this run"),
+    });
+    expect(call("browser", { params: { action: "navigate" }, runId: "run-2" })).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("shares daily budgets across sessions of the same agent", () => {
+    expect(call("web_search").allowed).toBe(true);
+    expect(call("web_search", { sessionKey: "agent:main:other" }).allowed).toBe(true);
+    expect(call("web_search", { runId: "run-3" }).allowed).toBe(true);
+    expect(call("web_search", { sessionKey: "agent:main:third" })).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining("3/3 today"),
+    });
+    expect(call("web_search", { sessionKey: "agent:ops:main" }).allowed).toBe(true);
+  });
+
+  it("reports session and daily usage for /status", () => {
+    call("sessions_spawn");
+    call("web_search");
+    const usage = listToolQuotaUsage({
+      config,
+      sessionKey: "agent:main:main",
+      nowMs: new Date(2026, 0, 5, 18).getTime(),
+    });
+    expect(formatToolQuotaUsage(usage)).toBe(
+      "🧮 Tool quotas: web_search 1/3 today · sessions_spawn 1/2 session",
+    );
+  });
+
+  it("gives a reset session (new session id) a fresh session budget", () => {
+    expect(call("sessions_spawn", { sessionId: "s-1", runId: "a" }).allowed).toBe(true);
+    expect(call("sessions_spawn", { sessionId: "s-1", runId: "b" }).allowed).toBe(true);
+    expect(call("sessions_spawn", { sessionId: "s-1", runId: "c" }).allowed).toBe(false);
+    expect(call("sessions_spawn", { sessionId: "s-2", runId: "d" }).allowed).toBe(true);
+  });
+
+  it("saves today's counters to the state dir", () => {
+    call("web_search");
+    call("web_search", { runId: "run-2" });
+    const stored = JSON.parse(
+      fs.readFileSync(path.join(resolveStateDir(), "tools", "quota-usage.json"), "utf8"),
+    );
+    expect(stored).toEqual({ version: 1, days: { "main:2026-01-05": { web_search: 2 } } });
+  });
+});
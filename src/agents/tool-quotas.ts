@@ -0,0 +1,278 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { ToolQuotaLimits, ToolQuotasConfig } from "../config/types.tools.js";
+import { resolveStateDir } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import { resolveAgentConfig, resolveSessionAgentId } from "./agent-scope.js";
+import { normalizeToolName, TOOL_GROUPS } from "./tool-policy.js";
+
+export type ToolQuotaWindow = "run" | "session" | "day";
+
+export type ToolQuotaDecision = { allowed: true } | { allowed: false; reason: string };
+
+export type ToolQuotaUsage = {
+  key: string;
+  window: ToolQuotaWindow;
+  used: number;
+  limit: number;
+};
+
+const WINDOW_LIMIT_FIELDS: Record<ToolQuotaWindow, keyof ToolQuotaLimits> = {
+  run: "perRun",
+  session: "perSession",
+  day: "perDay",
+};
+
+const WINDOW_LABELS: Record<ToolQuotaWindow, string> = {
+  run: "this run",
+  session: "this session",
+  day: "today",
+};
+
+// Keep the most recently used runs and sessions so long-lived gateways do not grow unbounded.
+const MAX_TRACKED_RUNS = 500;
+const MAX_TRACKED_SESSIONS = 1000;
+
+const runCounters = new Map<string, Map<string, number>>();
+// Keyed by session id, so `/new` and `/reset` start with fresh budgets.
+const sessionCounters = new Map<string, Map<string, number>>();
+// `<agentId>:<YYYY-MM-DD>` -> counters; loaded from disk so a restart keeps today's usage.
+let dayCounters: Map<string, Map<string, number>> | null = null;
+
+type PersistedDayCounters = { version: 1; days: Record<string, Record<string, number>> };
+
+function resolveDayCountersPath() {
+  return path.join(resolveStateDir(), "tools", "quota-usage.json");
+}
+
+function loadDayCounters(): Map<string, Map<string, number>> {
+  if (dayCounters) {
+    return dayCounters;
+  }
+  const raw = loadJsonFile(resolveDayCountersPath()) as Partial<PersistedDayCounters> | undefined;
+  dayCounters = new Map();
+  for (const [id, counters] of Object.entries(raw?.days ?? {})) {
+    if (!counters || typeof counters !== "object") {
+      continue;
+    }
+    dayCounters.set(
+      id,
+      new Map(
+        Object.entries(counters).filter(
+          (entry): entry is [string, number] => typeof entry[1] === "number",
+        ),
+      ),
+    );
+  }
+  return dayCounters;
+}
+
+function saveDayCounters(counters: Map<string, Map<string, number>>) {
+  const out: PersistedDayCounters = { version: 1, days: {} };
+  for (const [id, entries] of counters) {
+    out.days[id] = Object.fromEntries(entries);
+  }
+  try {
+    saveJsonFile(resolveDayCountersPath(), out);
+  } catch {
+    // best-effort; counters stay in memory
+  }
+}
+
+/** Global quotas overlaid with the agent's (agent entries replace the same key). */
+export function resolveToolQuotas(
+  cfg: OpenClawConfig | undefined,
+  agentId: string | undefined,
+): ToolQuotasConfig {
+  const merged: ToolQuotasConfig = {};
+  const layers = [
+    cfg?.tools?.quotas,
+    agentId && cfg ? resolveAgentConfig(cfg, agentId)?.tools?.quotas : undefined,
+  ];
+  for (const layer of layers) {
+    for (const [rawKey, limits] of Object.entries(layer ?? {})) {
+      const key = rawKey.trim().toLowerCase();
+      if (key && limits) {
+        merged[key] = limits;
+      }
+    }
+  }
+  return merged;
+}
+
+function quotaKeyMatches(key: string, toolName: string, params: unknown): boolean {
+  const group = TOOL_GROUPS[key];
+  if (group) {
+    return group.includes(toolName);
+  }
+  const dot = key.indexOf(".");
+  if (dot === -1) {
+    return normalizeToolName(key) === toolName;
+  }
+  if (normalizeToolName(key.slice(0, dot)) !== toolName) {
+    return false;
+  }
+  const action =
+    params && typeof params === "object" ? (params as { action?: unknown }).action : undefined;
+  return typeof action === "string" && action.trim().toLowerCase() === key.slice(dot + 1);
+}
+
+function formatLocalDay(nowMs: number) {
+  const date = new Date(nowMs);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Session counters follow the session id; the key is only a fallback for callers without one. */
+function resolveSessionCounterId(params: { sessionId?: string; sessionKey?: string }) {
+  return params.sessionId?.trim() || params.sessionKey;
+}
+
+function resolveCounterBuckets(params: {
+  agentId: string;
+  sessionId?: string;
+  sessionKey?: string;
+  runId?: string;
+  nowMs: number;
+}): Array<{ window: ToolQuotaWindow; counters: Map<string, number> | undefined }> {
+  const dayId = `${params.agentId}:${formatLocalDay(params.nowMs)}`;
+  const sessionId = resolveSessionCounterId(params);
+  return [
+    { window: "run", counters: params.runId ? runCounters.get(params.runId) : undefined },
+    { window: "session", counters: sessionId ? sessionCounters.get(sessionId) : undefined },
+    { window: "day", counters: loadDayCounters().get(dayId) },
+  ];
+}
+
+function bumpCounter(store: Map<string, Map<string, number>>, id: string, key: string) {
+  const counters = store.get(id) ?? new Map<string, number>();
+  // Re-insert so iteration order tracks recent use for eviction.
+  store.delete(id);
+  store.set(id, counters);
+  counters.set(key, (counters.get(key) ?? 0) + 1);
+}
+
+function evictOldest(store: Map<string, Map<string, number>>, max: number) {
+  while (store.size > max) {
+    const oldest = store.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    store.delete(oldest);
+  }
+}
+
+function pruneCounters(nowMs: number) {
+  evictOldest(runCounters, MAX_TRACKED_RUNS);
+  evictOldest(sessionCounters, MAX_TRACKED_SESSIONS);
+  const today = `:${formatLocalDay(nowMs)}`;
+  const days = loadDayCounters();
+  for (const id of days.keys()) {
+    if (!id.endsWith(today)) {
+      days.delete(id);
+    }
+  }
+}
+
+/**
+ * Check every quota matching this call and count it when all of them have room left.
+ * Denied calls are not counted.
+ */
+export function consumeToolQuota(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionId?: string;
+  sessionKey?: string;
+  runId?: string;
+  toolName: string;
+  toolParams?: unknown;
+  nowMs?: number;
+}): ToolQuotaDecision {
+  const agentId =
+    params.agentId ??
+    resolveSessionAgentId({ sessionKey: params.sessionKey, config: params.config });
+  const quotas = resolveToolQuotas(params.config, agentId);
+  const toolName = normalizeToolName(params.toolName);
+  const matching = Object.keys(quotas).filter((key) =>
+    quotaKeyMatches(key, toolName, params.toolParams),
+  );
+  if (matching.length === 0) {
+    return { allowed: true };
+  }
+  const nowMs = params.nowMs ?? Date.now();
+  pruneCounters(nowMs);
+  const buckets = resolveCounterBuckets({ ...params, agentId, nowMs });
+  for (const key of matching) {
+    for (const bucket of buckets) {
+      const limit = quotas[key]?.[WINDOW_LIMIT_FIELDS[bucket.window]];
+      if (typeof limit !== "number") {
+        continue;
+      }
+      const used = bucket.counters?.get(key) ?? 0;
+      if (used >= limit) {
+        return {
+          allowed: false,
+          reason: `Tool quota exhausted: ${key} used ${used}/${limit} ${WINDOW_LABELS[bucket.window]}. Do not call ${toolName} again${bucket.window === "day" ? " today" : ""}; continue without it or tell the user the budget is spent.`,
+        };
+      }
+    }
+  }
+  const sessionId = resolveSessionCounterId(params);
+  const days = loadDayCounters();
+  for (const key of matching) {
+    if (params.runId) {
+      bumpCounter(runCounters, params.runId, key);
+    }
+    if (sessionId) {
+      bumpCounter(sessionCounters, sessionId, key);
+    }
+    bumpCounter(days, `${agentId}:${formatLocalDay(nowMs)}`, key);
+  }
+  saveDayCounters(days);
+  return { allowed: true };
+}
+
+/** Session and daily counters for every configured quota (run counters are transient). */
+export function listToolQuotaUsage(params: {
+  config?: OpenClawConfig;
+  sessionId?: string;
+  sessionKey?: string;
+  nowMs?: number;
+}): ToolQuotaUsage[] {
+  const agentId = resolveSessionAgentId({ sessionKey: params.sessionKey, config: params.config });
+  const quotas = resolveToolQuotas(params.config, agentId);
+  const buckets = resolveCounterBuckets({
+    agentId,
+    sessionId: params.sessionId,
+    sessionKey: params.sessionKey,
+    nowMs: params.nowMs ?? Date.now(),
+  }).filter((bucket) => bucket.window !== "run");
+  const usage: ToolQuotaUsage[] = [];
+  for (const [key, limits] of Object.entries(quotas)) {
+    for (const bucket of buckets) {
+      const limit = limits[WINDOW_LIMIT_FIELDS[bucket.window]];
+      if (typeof limit === "number") {
+        usage.push({ key, window: bucket.window, used: bucket.counters?.get(key) ?? 0, limit });
+      }
+    }
+  }
+  return usage;
+}
+
+export function formatToolQuotaUsage(usage: ToolQuotaUsage[]): string | null {
+  if (usage.length === 0) {
+    return null;
+  }
+  const parts = usage.map(
+    (entry) =>
+      `${entry.key} ${entry.used}/${entry.limit} ${entry.window === "day" ? "today" : "session"}`,
+  );
+  return `🧮 Tool quotas: ${parts.join(" · ")}`;
+}
+
+export function resetToolQuotasForTests() {
+  runCounters.clear();
+  sessionCounters.clear();
+  dayCounters = new Map();
+}
@@ -30,6 +30,7 @@ describe("cron tool", () => {
     ],
     ["remove", { action: "remove", jobId: "job-1" }, { id: "job-1" }],
     ["remove", { action: "remove", id: "job-2" }, { id: "job-2" }],
+    ["revive", { action: "revive", jobId: "job-1" }, { id: "job-1" }],
     ["run", { action: "run", jobId: "job-1" }, { id: "job-1", mode: "force" }],
     ["run", { action: "run", id: "job-2" }, { id: "job-2", mode: "force" }],
     ["runs", { action: "runs", jobId: "job-1" }, { id: "job-1" }],
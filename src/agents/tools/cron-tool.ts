@@ -15,7 +15,17 @@ import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-h
 // contain nested unions. Tool schemas need to stay provider-friendly, so we
 // accept "any object" here and validate at runtime.
 
-const CRON_ACTIONS = ["status", "list", "add", "update", "remove", "run", "runs", "wake"] as const;
+const CRON_ACTIONS = [
+  "status",
+  "list",
+  "add",
+  "update",
+  "remove",
+  "revive",
+  "run",
+  "runs",
+  "wake",
+] as const;
 
 const CRON_WAKE_MODES = ["now", "next-heartbeat"] as const;
 const CRON_RUN_MODES = ["due", "force"] as const;
@@ -228,7 +238,7 @@ export function createCronTool(opts?: CronToolOptions): AnyAgentTool {
   return {
     label: "Cron",
     name: "cron",
-    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs) and send wake events.
+    description: `Manage Gateway cron jobs (status/list/add/update/remove/revive/run/runs) and send wake events.
 
 ACTIONS:
 - status: Check cron scheduler status
@@ -236,6 +246,7 @@ ACTIONS:
 - add: Create job (requires job object, see schema below)
 - update: Modify job (requires jobId + patch object)
 - remove: Delete job (requires jobId)
+- revive: Re-enable a dead job and reset its retry counters (requires jobId)
 - run: Trigger job immediately (requires jobId)
 - runs: Get job run history (requires jobId)
 - wake: Send wake event (requires text, optional mode)
@@ -247,7 +258,9 @@ JOB SCHEMA (for add action):
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary (isolated only)
   "sessionTarget": "main" | "isolated",  // Required
-  "enabled": true | false   // Optional, default true
+  "enabled": true | false,  // Optional, default true
+  "retry": { ... },         // Optional: retry policy
+  "exclusions": { ... }     // Optional: blackout windows
 }
 
 SCHEDULE TYPES (schedule.kind):
@@ -257,6 +270,9 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when another job finishes (status: ok|error|any, default ok)
+  { "kind": "after", "jobId": "<upstream-job-id>", "status": "<optional>" }
+  agentTurn messages may use {{upstream.output}}, {{upstream.summary}}, {{upstream.status}}, {{upstream.error}}
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -265,15 +281,25 @@ PAYLOAD TYPES (payload.kind):
   { "kind": "systemEvent", "text": "<message>" }
 - "agentTurn": Runs agent with message (isolated sessions only)
   { "kind": "agentTurn", "message": "<prompt>", "model": "<optional>", "thinking": "<optional>", "timeoutSeconds": <optional> }
+- "workflow": Starts a workspace workflow (workflows/<name>.yaml; isolated sessions only)
+  { "kind": "workflow", "workflow": "<name>", "inputs": { "<key>": "<value>" } }
 
 DELIVERY (isolated-only, top-level):
   { "mode": "none|announce", "channel": "<optional>", "to": "<optional>", "bestEffort": <optional-bool> }
   - Default for isolated agentTurn jobs (when delivery omitted): "announce"
   - If the task needs to send to a specific chat/recipient, set delivery.channel/to here; do not call messaging tools inside the run.
 
+RETRY (optional, top-level):
+  { "maxAttempts": <attempts-per-run>, "backoffMs": <first-delay-ms>, "maxBackoffMs": <optional>, "jitter": <0-1>, "deadAfter": <failures> }
+  - After deadAfter consecutive failures the job is disabled ("dead") and the failure is announced; use revive to restore it.
+
+EXCLUSIONS (optional, top-level):
+  { "tz": "<optional-iana>", "dates": [{ "start": "YYYY-MM-DD", "end": "<optional>" }], "weekdays": [0-6], "quietHours": [{ "start": "HH:MM", "end": "HH:MM" }], "icsPath": "<holiday .ics path>" }
+  - Recurring runs move past blackout windows; runs that still land inside one are recorded as skipped.
+
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
-- sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
+- sessionTarget="isolated" REQUIRES payload.kind="agentTurn" or "workflow"
 Default: prefer isolated agentTurn jobs unless the user explicitly wants a main-session system event.
 
 WAKE MODES (for wake action):
@@ -319,6 +345,8 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "retry",
+              "exclusions",
               "enabled",
               "description",
               "deleteAfterRun",
@@ -441,6 +469,13 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
           }
           return jsonResult(await callGatewayTool("cron.remove", gatewayOpts, { id }));
         }
+        case "revive": {
+          const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
+          if (!id) {
+            throw new Error("jobId required (id accepted for backward compatibility)");
+          }
+          return jsonResult(await callGatewayTool("cron.revive", gatewayOpts, { id }));
+        }
         case "run": {
           const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
           if (!id) {
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const upsertFact = vi.fn();
+const queryFacts = vi.fn();
+const expireFact = vi.fn();
+const search = vi.fn();
+
+vi.mock("../../memory/index.js", () => {
+  return {
+    getMemorySearchManager: async () => {
+      return {
+        manager: {
+          search,
+          upsertFact,
+          queryFacts,
+          expireFact,
+          readFile: async () => ({ text: "", path: "MEMORY.md" }),
+          status: () => ({
+            files: 1,
+            chunks: 1,
+            dirty: false,
+            workspaceDir: "/tmp",
+            dbPath: "/tmp/index.sqlite",
+            provider: "openai",
+            model: "text-embedding-3-small",
+            requestedProvider: "openai",
+          }),
+        },
+      };
+    },
+  };
+});
+
+import { createMemoryFactTools, createMemorySearchTool } from "./memory-tool.js";
+
+const cfg = { agents: { list: [{ id: "main", default: true }] } };
+const fact = {
+  key: "user.timezone",
+  type: "string",
+  value: "Europe/Berlin",
+  provenance: { sessionKey: "agent:main:main", messageId: "m-1" },
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+function getTool(name: string) {
+  const tool = createMemoryFactTools({ config: cfg, agentSessionKey: "agent:main:main" })?.find(
+    (entry) => entry.name === name,
+  );
+  if (!tool) {
+    throw new Error(`tool missing: ${name}`);
+  }
+  return tool;
+}
+
+describe("memory fact tools", () => {
+  beforeEach(() => {
+    upsertFact.mockReset();
+    queryFacts.mockReset();
+    expireFact.mockReset();
+    search.mockReset();
+  });
+
+  it("upserts typed facts with session provenance", async () => {
+    upsertFact.mockResolvedValue(fact);
+    const result = await getTool("memory_fact_set").execute("call_1", {
+      key: "user.timezone",
+      value: "Europe/Berlin",
+      ttlSeconds: 60,
+      sourceMessageId: "m-1",
+    });
+
+    expect(upsertFact).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: "user.timezone",
+        type: "string",
+        value: "Europe/Berlin",
+        provenance: { sessionKey: "agent:main:main", messageId: "m-1" },
+        expiresAt: expect.any(Number),
+      }),
+    );
+    expect(result.details).toEqual({ ok: true, fact });
+  });
+
+  it("reports missing facts on expire", async () => {
+    expireFact.mockResolvedValue(null);
+    const result = await getTool("memory_fact_expire").execute("call_2", { key: "nope" });
+    expect(result.details).toEqual({ ok: false, error: "fact not found: nope" });
+  });
+
+  it("includes relevant facts in memory_search results", async () => {
+    search.mockResolvedValue([]);
+    queryFacts.mockResolvedValue([fact]);
+    const tool = createMemorySearchTool({ config: cfg });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+
+    const result = await tool.execute("call_3", { query: "user timezone" });
+    expect(queryFacts).toHaveBeenCalledWith({ query: "user timezone", limit: 5 });
+    expect(result.details).toMatchObject({ results: [], facts: [fact] });
+  });
+});
@@ -1,14 +1,22 @@
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import type { MemoryFact } from "../../memory/facts.js";
+import type { MemorySearchManager, MemorySearchResult } from "../../memory/types.js";
 import type { AnyAgentTool } from "./common.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
+import { MEMORY_FACT_TYPES, type MemoryFactType } from "../../memory/facts.js";
 import { getMemorySearchManager } from "../../memory/index.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { optionalStringEnum } from "../schema/typebox.js";
+import { jsonResult, readNumberParam, readStringArrayParam, readStringParam } from "./common.js";
+
+const SEARCH_FACTS_LIMIT = 5;
+
+type MemoryFactsManager = MemorySearchManager &
+  Required<Pick<MemorySearchManager, "upsertFact" | "queryFacts" | "expireFact">>;
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
@@ -22,6 +30,28 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const MemoryFactSetSchema = Type.Object({
+  key: Type.String({ description: "Stable fact key, e.g. user.timezone or customer.acme.id" }),
+  value: Type.String({ description: "Fact value (JSON text when type is json)" }),
+  type: optionalStringEnum(MEMORY_FACT_TYPES, { default: "string" }),
+  ttlSeconds: Type.Optional(Type.Number({ description: "Expire the fact after N seconds" })),
+  sourceMessageId: Type.Optional(
+    Type.String({ description: "Id of the message the fact came from" }),
+  ),
+});
+
+const MemoryFactQuerySchema = Type.Object({
+  keys: Type.Optional(Type.Array(Type.String())),
+  prefix: Type.Optional(Type.String()),
+  query: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Number()),
+});
+
+const MemoryFactExpireSchema = Type.Object({
+  key: Type.String(),
+  inSeconds: Type.Optional(Type.Number({ description: "Delay before expiry (default: now)" })),
+});
+
 export function createMemorySearchTool(options: {
   config?: OpenClawConfig;
   agentSessionKey?: string;
@@ -65,6 +95,7 @@ export function createMemorySearchTool(options: {
           minScore,
           sessionKey: options.agentSessionKey,
         });
+        const facts = await searchFacts(manager, query);
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
         const resolved = resolveMemoryBackendConfig({ cfg, agentId });
@@ -74,6 +105,7 @@ export function createMemorySearchTool(options: {
             : decorated;
         return jsonResult({
           results,
+          ...(facts.length > 0 ? { facts } : {}),
           provider: status.provider,
           model: status.model,
           fallback: status.fallback,
@@ -134,6 +166,129 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryFactTools(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool[] | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+  if (!resolveMemorySearchConfig(cfg, agentId)) {
+    return null;
+  }
+  const withFactsManager = async (
+    run: (manager: MemoryFactsManager) => Promise<Record<string, unknown>>,
+  ) => {
+    const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+    if (!manager) {
+      return jsonResult({ ok: false, disabled: true, error });
+    }
+    if (!supportsFacts(manager)) {
+      return jsonResult({
+        ok: false,
+        disabled: true,
+        error: "memory backend does not support facts",
+      });
+    }
+    try {
+      return jsonResult({ ok: true, ...(await run(manager)) });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return jsonResult({ ok: false, error: message });
+    }
+  };
+  return [
+    {
+      label: "Memory Fact Set",
+      name: "memory_fact_set",
+      description:
+        "Store or update a typed key/value fact (preferences, IDs, addresses) so it can be recalled exactly later; optional ttlSeconds for facts that go stale.",
+      parameters: MemoryFactSetSchema,
+      execute: async (_toolCallId, params) => {
+        const key = readStringParam(params, "key", { required: true });
+        const value = readStringParam(params, "value", { required: true, trim: false });
+        const type = (readStringParam(params, "type") ?? "string") as MemoryFactType;
+        const ttlSeconds = readNumberParam(params, "ttlSeconds");
+        const messageId = readStringParam(params, "sourceMessageId");
+        return await withFactsManager(async (manager) => {
+          if (!MEMORY_FACT_TYPES.includes(type)) {
+            throw new Error(`type must be one of: ${MEMORY_FACT_TYPES.join(", ")}`);
+          }
+          const fact = await manager.upsertFact({
+            key,
+            type,
+            value,
+            provenance: { sessionKey: options.agentSessionKey, messageId },
+            expiresAt:
+              ttlSeconds !== undefined && ttlSeconds > 0
+                ? Date.now() + ttlSeconds * 1000
+                : undefined,
+          });
+          return { fact };
+        });
+      },
+    },
+    {
+      label: "Memory Fact Query",
+      name: "memory_fact_query",
+      description:
+        "Look up stored facts by exact keys, key prefix, or free-text query; returns typed values with provenance (session/message that produced them).",
+      parameters: MemoryFactQuerySchema,
+      execute: async (_toolCallId, params) => {
+        const keys = readStringArrayParam(params, "keys");
+        const prefix = readStringParam(params, "prefix");
+        const query = readStringParam(params, "query");
+        const limit = readNumberParam(params, "limit", { integer: true });
+        return await withFactsManager(async (manager) => ({
+          facts: await manager.queryFacts({ keys, prefix, query, limit }),
+        }));
+      },
+    },
+    {
+      label: "Memory Fact Expire",
+      name: "memory_fact_expire",
+      description: "Expire a stored fact now (or after inSeconds) when it is no longer true.",
+      parameters: MemoryFactExpireSchema,
+      execute: async (_toolCallId, params) => {
+        const key = readStringParam(params, "key", { required: true });
+        const inSeconds = readNumberParam(params, "inSeconds");
+        return await withFactsManager(async (manager) => {
+          const atMs = Date.now() + Math.max(0, inSeconds ?? 0) * 1000;
+          const fact = await manager.expireFact(key, atMs);
+          if (!fact) {
+            throw new Error(`fact not found: ${key}`);
+          }
+          return { fact };
+        });
+      },
+    },
+  ];
+}
+
+function supportsFacts(manager: MemorySearchManager): manager is MemoryFactsManager {
+  return (
+    typeof manager.upsertFact === "function" &&
+    typeof manager.queryFacts === "function" &&
+    typeof manager.expireFact === "function"
+  );
+}
+
+async function searchFacts(manager: MemorySearchManager, query: string): Promise<MemoryFact[]> {
+  if (!manager.queryFacts) {
+    return [];
+  }
+  try {
+    return await manager.queryFacts({ query, limit: SEARCH_FACTS_LIMIT });
+  } catch {
+    return [];
+  }
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
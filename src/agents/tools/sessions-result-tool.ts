@@ -0,0 +1,37 @@
+import { Type } from "@sinclair/typebox";
+import type { AnyAgentTool } from "./common.js";
+import { loadConfig } from "../../config/config.js";
+import { readSubagentStructuredResult } from "../subagent-result.js";
+import { jsonResult, readStringParam } from "./common.js";
+import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-helpers.js";
+
+const SessionsResultToolSchema = Type.Object({
+  runId: Type.String(),
+});
+
+export function createSessionsResultTool(opts?: { agentSessionKey?: string }): AnyAgentTool {
+  return {
+    label: "Sessions",
+    name: "sessions_result",
+    description:
+      "Fetch the validated JSON result of a sub-agent spawned with resultSchema, by the runId from sessions_spawn.",
+    parameters: SessionsResultToolSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const runId = readStringParam(params, "runId", { required: true });
+      const cfg = loadConfig();
+      const { mainKey, alias } = resolveMainSessionAlias(cfg);
+      const requesterSessionKey = opts?.agentSessionKey
+        ? resolveInternalSessionKey({ key: opts.agentSessionKey, alias, mainKey })
+        : alias;
+      const entry = readSubagentStructuredResult({ runId, requesterSessionKey });
+      if (!entry) {
+        return jsonResult({
+          status: "not_found",
+          error: `No validated result for run ${runId} (not finished, not spawned by this session, or expired)`,
+        });
+      }
+      return jsonResult({ status: "ok", runId, result: entry.value });
+    },
+  };
+}
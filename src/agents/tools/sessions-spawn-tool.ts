@@ -16,6 +16,7 @@ import { AGENT_LANE_SUBAGENT } from "../lanes.js";
 import { optionalStringEnum } from "../schema/typebox.js";
 import { buildSubagentSystemPrompt } from "../subagent-announce.js";
 import { registerSubagentRun } from "../subagent-registry.js";
+import { checkSubagentResultSchema, type SubagentResultSchema } from "../subagent-result.js";
 import { jsonResult, readStringParam } from "./common.js";
 import {
   resolveDisplaySessionKey,
@@ -33,6 +34,8 @@ const SessionsSpawnToolSchema = Type.Object({
   // Back-compat alias. Prefer runTimeoutSeconds.
   timeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
   cleanup: optionalStringEnum(["delete", "keep"] as const),
+  // Free-form JSON Schema; validated with Ajv before the child is spawned.
+  resultSchema: Type.Optional(Type.Object({}, { additionalProperties: true })),
 });
 
 function splitModelRef(ref?: string) {
@@ -82,7 +85,7 @@ export function createSessionsSpawnTool(opts?: {
     label: "Sessions",
     name: "sessions_spawn",
     description:
-      "Spawn a background sub-agent run in an isolated session and announce the result back to the requester chat.",
+      "Spawn a background sub-agent run in an isolated session and announce the result back to the requester chat. Pass resultSchema (JSON Schema) to get the result back as validated JSON instead of prose.",
     parameters: SessionsSpawnToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
@@ -93,6 +96,14 @@ export function createSessionsSpawnTool(opts?: {
       const thinkingOverrideRaw = readStringParam(params, "thinking");
       const cleanup =
         params.cleanup === "keep" || params.cleanup === "delete" ? params.cleanup : "keep";
+      let resultSchema: SubagentResultSchema | undefined;
+      if (params.resultSchema !== undefined) {
+        const checked = checkSubagentResultSchema(params.resultSchema);
+        if (!checked.ok) {
+          return jsonResult({ status: "error", error: checked.error });
+        }
+        resultSchema = checked.schema;
+      }
       const requesterOrigin = normalizeDeliveryContext({
         channel: opts?.agentChannel,
         accountId: opts?.agentAccountId,
@@ -240,6 +251,7 @@ export function createSessionsSpawnTool(opts?: {
         childSessionKey,
         label: label || undefined,
         task,
+        resultSchema,
       });
 
       const childIdem = crypto.randomUUID();
@@ -293,6 +305,7 @@ export function createSessionsSpawnTool(opts?: {
         cleanup,
         label: label || undefined,
         runTimeoutSeconds,
+        resultSchema,
       });
 
       return jsonResult({
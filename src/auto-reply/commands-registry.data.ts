@@ -188,6 +188,22 @@ function buildChatCommands(): ChatCommandDefinition[] {
       acceptsArgs: true,
       category: "management",
     }),
+    defineChatCommand({
+      key: "rollback",
+      nativeName: "rollback",
+      description: "List, diff or restore sandbox workspace snapshots.",
+      textAlias: "/rollback",
+      acceptsArgs: true,
+      category: "management",
+    }),
+    defineChatCommand({
+      key: "workflow",
+      nativeName: "workflow",
+      description: "List, run, inspect or cancel workspace workflows.",
+      textAlias: "/workflow",
+      acceptsArgs: true,
+      category: "management",
+    }),
     defineChatCommand({
       key: "context",
       nativeName: "context",
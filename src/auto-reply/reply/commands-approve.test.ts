@@ -79,7 +79,7 @@ describe("/approve command", () => {
     expect(mockCallGateway).toHaveBeenCalledWith(
       expect.objectContaining({
         method: "exec.approval.resolve",
-        params: { id: "abc", decision: "allow-once" },
+        params: { id: "abc", decision: "allow-once", approver: "+123", channel: "whatsapp" },
       }),
     );
   });
@@ -122,7 +122,7 @@ describe("/approve command", () => {
     expect(mockCallGateway).toHaveBeenCalledWith(
       expect.objectContaining({
         method: "exec.approval.resolve",
-        params: { id: "abc", decision: "allow-once" },
+        params: { id: "abc", decision: "allow-once", channel: "webchat" },
       }),
     );
   });
@@ -146,7 +146,7 @@ describe("/approve command", () => {
     expect(mockCallGateway).toHaveBeenCalledWith(
       expect.objectContaining({
         method: "exec.approval.resolve",
-        params: { id: "abc", decision: "allow-once" },
+        params: { id: "abc", decision: "allow-once", channel: "webchat" },
       }),
     );
   });
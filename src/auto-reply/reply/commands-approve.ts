@@ -9,11 +9,14 @@ import {
 
 const COMMAND = "/approve";
 
-const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> = {
+const DECISION_ALIASES: Record<string, "allow-once" | "allow-session" | "allow-always" | "deny"> = {
   allow: "allow-once",
   once: "allow-once",
   "allow-once": "allow-once",
   allowonce: "allow-once",
+  session: "allow-session",
+  "allow-session": "allow-session",
+  allowsession: "allow-session",
   always: "allow-always",
   "allow-always": "allow-always",
   allowalways: "allow-always",
@@ -23,7 +26,7 @@ const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> =
 };
 
 type ParsedApproveCommand =
-  | { ok: true; id: string; decision: "allow-once" | "allow-always" | "deny" }
+  | { ok: true; id: string; decision: "allow-once" | "allow-session" | "allow-always" | "deny" }
   | { ok: false; error: string };
 
 function parseApproveCommand(raw: string): ParsedApproveCommand | null {
@@ -33,11 +36,11 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   }
   const rest = trimmed.slice(COMMAND.length).trim();
   if (!rest) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: "Usage: /approve <id> allow-once|allow-session|allow-always|deny" };
   }
   const tokens = rest.split(/\s+/).filter(Boolean);
   if (tokens.length < 2) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: "Usage: /approve <id> allow-once|allow-session|allow-always|deny" };
   }
 
   const first = tokens[0].toLowerCase();
@@ -57,7 +60,7 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
       id: tokens[0],
     };
   }
-  return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+  return { ok: false, error: "Usage: /approve <id> allow-once|allow-session|allow-always|deny" };
 }
 
 function buildResolvedByLabel(params: Parameters<CommandHandler>[0]): string {
@@ -104,7 +107,12 @@ export const handleApproveCommand: CommandHandler = async (params, allowTextComm
   try {
     await callGateway({
       method: "exec.approval.resolve",
-      params: { id: parsed.id, decision: parsed.decision },
+      params: {
+        id: parsed.id,
+        decision: parsed.decision,
+        ...(params.command.senderId ? { approver: params.command.senderId } : {}),
+        channel: params.command.channel,
+      },
       clientName: GATEWAY_CLIENT_NAMES.GATEWAY_CLIENT,
       clientDisplayName: `Chat approval (${resolvedBy})`,
       mode: GATEWAY_CLIENT_MODES.BACKEND,
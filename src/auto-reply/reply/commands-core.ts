@@ -21,6 +21,7 @@ import {
 } from "./commands-info.js";
 import { handleModelsCommand } from "./commands-models.js";
 import { handlePluginCommand } from "./commands-plugin.js";
+import { handleRollbackCommand } from "./commands-rollback.js";
 import {
   handleAbortTrigger,
   handleActivationCommand,
@@ -31,6 +32,7 @@ import {
 } from "./commands-session.js";
 import { handleSubagentsCommand } from "./commands-subagents.js";
 import { handleTtsCommands } from "./commands-tts.js";
+import { handleWorkflowCommand } from "./commands-workflow.js";
 import { routeReply } from "./route-reply.js";
 
 let HANDLERS: CommandHandler[] | null = null;
@@ -59,6 +61,8 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleModelsCommand,
       handleStopCommand,
       handleCompactCommand,
+      handleRollbackCommand,
+      handleWorkflowCommand,
       handleAbortTrigger,
     ];
   }
@@ -0,0 +1,91 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import type { MsgContext } from "../templating.js";
+import { buildCommandContext, handleCommands } from "./commands.js";
+import { parseInlineDirectives } from "./directive-handling.js";
+
+function buildParams(commandBody: string, cfg: OpenClawConfig, workspaceDir: string) {
+  const ctx = {
+    Body: commandBody,
+    CommandBody: commandBody,
+    CommandSource: "text",
+    CommandAuthorized: true,
+    Provider: "whatsapp",
+    Surface: "whatsapp",
+  } as MsgContext;
+
+  const command = buildCommandContext({
+    ctx,
+    cfg,
+    isGroup: false,
+    triggerBodyNormalized: commandBody.trim().toLowerCase(),
+    commandAuthorized: true,
+  });
+
+  return {
+    ctx,
+    cfg,
+    command,
+    directives: parseInlineDirectives(commandBody),
+    elevated: { enabled: true, allowed: true, failures: [] },
+    sessionKey: "agent:main:main",
+    workspaceDir,
+    defaultGroupActivation: () => "mention",
+    resolvedVerboseLevel: "off" as const,
+    resolvedReasoningLevel: "off" as const,
+    resolveDefaultThinkingLevel: async () => undefined,
+    provider: "whatsapp",
+    model: "test-model",
+    contextTokens: 0,
+    isGroup: false,
+  };
+}
+
+describe("/rollback command", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-rollback-"));
+    await fs.writeFile(path.join(workspaceDir, "plan.md"), "v1\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("explains that unsandboxed sessions cannot roll back", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+    } as OpenClawConfig;
+    const result = await handleCommands(buildParams("/rollback", cfg, workspaceDir));
+    expect(result.shouldContinue).toBe(false);
+    expect(result.reply?.text).toContain("not sandboxed");
+  });
+
+  it("snapshots on demand and restores the workspace with an undo id", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+      agents: { defaults: { sandbox: { mode: "all", workspaceAccess: "rw" } } },
+    } as OpenClawConfig;
+
+    const saved = await handleCommands(buildParams("/rollback snapshot", cfg, workspaceDir));
+    expect(saved.reply?.text).toMatch(/Snapshot \w+ saved/);
+
+    await fs.writeFile(path.join(workspaceDir, "plan.md"), "broken\n");
+    const diff = await handleCommands(buildParams("/rollback diff", cfg, workspaceDir));
+    expect(diff.reply?.text).toContain("~ plan.md");
+
+    const restored = await handleCommands(buildParams("/rollback", cfg, workspaceDir));
+    expect(restored.reply?.text).toContain("Restored snapshot");
+    expect(restored.reply?.text).toMatch(/Undo with \/rollback \w+/);
+    await expect(fs.readFile(path.join(workspaceDir, "plan.md"), "utf-8")).resolves.toBe("v1\n");
+
+    const list = await handleCommands(buildParams("/rollback list", cfg, workspaceDir));
+    expect(list.reply?.text).toContain("pre-rollback");
+  });
+});
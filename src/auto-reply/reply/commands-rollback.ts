@@ -0,0 +1,152 @@
+import type { CommandHandler } from "./commands-types.js";
+import { isEmbeddedPiRunActive } from "../../agents/pi-embedded.js";
+import {
+  createSandboxWorkspaceSnapshot,
+  diffSandboxWorkspaceSnapshot,
+  formatSandboxWorkspaceDiff,
+  listSandboxWorkspaceSnapshots,
+  readSandboxWorkspaceSnapshot,
+  resolveSandboxRollbackTarget,
+  resolveSandboxSnapshotTarget,
+  restoreSandboxWorkspaceSnapshot,
+} from "../../agents/sandbox.js";
+import { logVerbose } from "../../globals.js";
+
+const COMMAND = "/rollback";
+const USAGE = "Usage: /rollback [list|diff [id]|snapshot|<id>]";
+
+type ParsedRollbackCommand =
+  | { action: "restore"; id?: string }
+  | { action: "list" }
+  | { action: "diff"; id?: string }
+  | { action: "snapshot" };
+
+function parseRollbackCommand(normalized: string): ParsedRollbackCommand | null {
+  if (normalized !== COMMAND && !normalized.startsWith(`${COMMAND} `)) {
+    return null;
+  }
+  const [first, second] = normalized.slice(COMMAND.length).trim().split(/\s+/).filter(Boolean);
+  switch (first?.toLowerCase()) {
+    case undefined:
+      return { action: "restore" };
+    case "list":
+    case "ls":
+      return { action: "list" };
+    case "diff":
+      return { action: "diff", id: second };
+    case "snapshot":
+    case "save":
+      return { action: "snapshot" };
+    default:
+      return { action: "restore", id: first };
+  }
+}
+
+function formatAge(createdAtMs: number) {
+  const minutes = Math.max(0, Math.round((Date.now() - createdAtMs) / 60_000));
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+export const handleRollbackCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const parsed = parseRollbackCommand(params.command.commandBodyNormalized);
+  if (!parsed) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /rollback from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const target = await resolveSandboxSnapshotTarget({
+    config: params.cfg,
+    sessionKey: params.sessionKey,
+    workspaceDir: params.workspaceDir,
+  });
+  if (!target) {
+    return {
+      shouldContinue: false,
+      reply: { text: "⚙️ Rollback unavailable (this session is not sandboxed)." },
+    };
+  }
+
+  if (parsed.action === "list") {
+    const snapshots = await listSandboxWorkspaceSnapshots(target.scopeKey);
+    if (snapshots.length === 0) {
+      return { shouldContinue: false, reply: { text: "No sandbox snapshots yet." } };
+    }
+    const lines = snapshots
+      .slice(0, 10)
+      .map(
+        (entry) =>
+          `• ${entry.id} — ${entry.reason}, ${formatAge(entry.createdAtMs)}, ${entry.fileCount} files`,
+      );
+    return {
+      shouldContinue: false,
+      reply: { text: [`Sandbox snapshots (${target.scopeKey}):`, ...lines].join("\n") },
+    };
+  }
+
+  if (parsed.action === "snapshot") {
+    const snapshot = await createSandboxWorkspaceSnapshot({
+      scopeKey: target.scopeKey,
+      workspaceDir: target.workspaceDir,
+      reason: "manual",
+    });
+    return {
+      shouldContinue: false,
+      reply: { text: `📸 Snapshot ${snapshot?.id ?? "skipped"} saved.` },
+    };
+  }
+
+  const explicit = parsed.id
+    ? await readSandboxWorkspaceSnapshot(target.scopeKey, parsed.id)
+    : undefined;
+  if (parsed.id && !explicit) {
+    return {
+      shouldContinue: false,
+      reply: { text: `❌ Unknown snapshot: ${parsed.id}\n${USAGE}` },
+    };
+  }
+  const resolved = explicit
+    ? { snapshot: explicit, diff: await diffSandboxWorkspaceSnapshot(explicit) }
+    : await resolveSandboxRollbackTarget(target.scopeKey);
+  if (!resolved) {
+    return {
+      shouldContinue: false,
+      reply: { text: "Nothing to roll back: the workspace matches every snapshot." },
+    };
+  }
+
+  if (parsed.action === "diff") {
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `Rollback to ${resolved.snapshot.id} would change:\n${formatSandboxWorkspaceDiff(resolved.diff)}`,
+      },
+    };
+  }
+
+  // Restoring underneath a live run would race its file writes.
+  if (params.sessionEntry?.sessionId && isEmbeddedPiRunActive(params.sessionEntry.sessionId)) {
+    return {
+      shouldContinue: false,
+      reply: { text: "⚠️ An agent run is in progress; /stop it before rolling back." },
+    };
+  }
+  const result = await restoreSandboxWorkspaceSnapshot(resolved.snapshot);
+  const undo = result.undoSnapshotId ? `\nUndo with /rollback ${result.undoSnapshotId}` : "";
+  return {
+    shouldContinue: false,
+    reply: {
+      text: `⏪ Restored snapshot ${resolved.snapshot.id}:\n${formatSandboxWorkspaceDiff(result.diff)}${undo}`,
+    },
+  };
+};
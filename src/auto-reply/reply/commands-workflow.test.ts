@@ -0,0 +1,112 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import type { MsgContext } from "../templating.js";
+import { resetWorkflowRunnerForTests } from "../../workflows/runner.js";
+import { buildCommandContext, handleCommands } from "./commands.js";
+import { parseInlineDirectives } from "./directive-handling.js";
+
+const cfg = {
+  commands: { text: true },
+  channels: { whatsapp: { allowFrom: ["*"] } },
+} as OpenClawConfig;
+
+function buildParams(commandBody: string, workspaceDir: string) {
+  const ctx = {
+    Body: commandBody,
+    CommandBody: commandBody,
+    CommandSource: "text",
+    CommandAuthorized: true,
+    Provider: "whatsapp",
+    Surface: "whatsapp",
+  } as MsgContext;
+
+  const command = buildCommandContext({
+    ctx,
+    cfg,
+    isGroup: false,
+    triggerBodyNormalized: commandBody.trim().toLowerCase(),
+    commandAuthorized: true,
+  });
+
+  return {
+    ctx,
+    cfg,
+    command,
+    directives: parseInlineDirectives(commandBody),
+    elevated: { enabled: true, allowed: true, failures: [] },
+    sessionKey: "agent:main:main",
+    workspaceDir,
+    defaultGroupActivation: () => "mention",
+    resolvedVerboseLevel: "off" as const,
+    resolvedReasoningLevel: "off" as const,
+    resolveDefaultThinkingLevel: async () => undefined,
+    provider: "whatsapp",
+    model: "test-model",
+    contextTokens: 0,
+    isGroup: false,
+  };
+}
+
+describe("/workflow command", () => {
+  let workspaceDir: string;
+  let tasks: string[];
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-workflow-cmd-"));
+    await fs.mkdir(path.join(workspaceDir, "workflows"));
+    await fs.writeFile(
+      path.join(workspaceDir, "workflows", "digest.yaml"),
+      [
+        "description: Summarize a feed",
+        "inputs:",
+        "  feed: { required: true }",
+        "steps:",
+        "  - id: fetch",
+        '    task: "Fetch {{inputs.feed}}"',
+      ].join("\n"),
+    );
+    tasks = [];
+    resetWorkflowRunnerForTests({
+      spawnStep: async (params) => {
+        tasks.push(params.task);
+        return { runId: `sub-${tasks.length}` };
+      },
+      abortStep: () => {},
+      onStepEnded: () => () => {},
+      getStepOutcome: () => undefined,
+      notifyRequester: () => {},
+      loadRuns: () => new Map(),
+      saveRuns: () => {},
+    });
+  });
+
+  afterEach(async () => {
+    resetWorkflowRunnerForTests();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("lists, starts, inspects and cancels workflow runs", async () => {
+    const list = await handleCommands(buildParams("/workflow", workspaceDir));
+    expect(list.reply?.text).toContain("• digest (feed) — Summarize a feed");
+
+    const missing = await handleCommands(buildParams("/workflow run digest", workspaceDir));
+    expect(missing.reply?.text).toContain("missing required input: feed");
+
+    const started = await handleCommands(
+      buildParams('/workflow run digest feed="hacker news"', workspaceDir),
+    );
+    const runId = started.reply?.text?.match(/started \((\w+)\)/)?.[1];
+    expect(runId).toBeTruthy();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(tasks).toEqual(["Fetch hacker news"]);
+
+    const status = await handleCommands(buildParams("/workflow status", workspaceDir));
+    expect(status.reply?.text).toContain(`Workflow digest (${runId}): running`);
+
+    const cancelled = await handleCommands(buildParams(`/workflow cancel ${runId}`, workspaceDir));
+    expect(cancelled.reply?.text).toContain("cancelled");
+  });
+});
@@ -0,0 +1,164 @@
+import type { CommandHandler } from "./commands-types.js";
+import { resolveSessionAgentId } from "../../agents/agent-scope.js";
+import { logVerbose } from "../../globals.js";
+import { findWorkspaceWorkflow, loadWorkspaceWorkflows } from "../../workflows/definition.js";
+import {
+  cancelWorkflowRun,
+  formatWorkflowRunStatus,
+  getWorkflowRun,
+  listWorkflowRuns,
+  startWorkflowRun,
+} from "../../workflows/runner.js";
+
+const COMMAND = "/workflow";
+const USAGE = "Usage: /workflow [list|run <name> [key=value…]|status [runId]|cancel <runId>]";
+
+type ParsedWorkflowCommand =
+  | { action: "list" }
+  | { action: "run"; name?: string; inputs: Record<string, string>; invalid?: string }
+  | { action: "status"; runId?: string }
+  | { action: "cancel"; runId?: string }
+  | { action: "help" };
+
+/** Split on whitespace, keeping `key="quoted value"` together. */
+function tokenize(text: string): string[] {
+  return [...text.matchAll(/(?:[^\s"]+|"[^"]*")+/g)].map((match) => match[0]);
+}
+
+function parseWorkflowCommand(normalized: string): ParsedWorkflowCommand | null {
+  if (normalized !== COMMAND && !normalized.startsWith(`${COMMAND} `)) {
+    return null;
+  }
+  const [first, second, ...rest] = tokenize(normalized.slice(COMMAND.length).trim());
+  switch (first?.toLowerCase()) {
+    case undefined:
+    case "list":
+    case "ls":
+      return { action: "list" };
+    case "run":
+    case "start": {
+      const inputs: Record<string, string> = {};
+      for (const token of rest) {
+        const eq = token.indexOf("=");
+        if (eq <= 0) {
+          return { action: "run", name: second, inputs, invalid: token };
+        }
+        inputs[token.slice(0, eq)] = token.slice(eq + 1).replace(/^"(.*)"$/, "$1");
+      }
+      return { action: "run", name: second, inputs };
+    }
+    case "status":
+      return { action: "status", runId: second };
+    case "cancel":
+    case "stop":
+      return { action: "cancel", runId: second };
+    default:
+      return { action: "help" };
+  }
+}
+
+export const handleWorkflowCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const parsed = parseWorkflowCommand(params.command.commandBodyNormalized);
+  if (!parsed) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /workflow from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+
+  if (parsed.action === "help") {
+    return { shouldContinue: false, reply: { text: USAGE } };
+  }
+
+  if (parsed.action === "list") {
+    const { workflows, errors } = await loadWorkspaceWorkflows(params.workspaceDir);
+    const lines =
+      workflows.length > 0
+        ? workflows.map((entry) => {
+            const inputs = Object.keys(entry.definition.inputs);
+            const args = inputs.length > 0 ? ` (${inputs.join(", ")})` : "";
+            const description = entry.definition.description
+              ? ` — ${entry.definition.description}`
+              : "";
+            return `• ${entry.definition.name}${args}${description}`;
+          })
+        : ["No workflows in workflows/ yet."];
+    for (const error of errors) {
+      lines.push(`⚠️ ${error.error}`);
+    }
+    const runs = listWorkflowRuns({ requesterSessionKey: params.sessionKey }).slice(0, 5);
+    if (runs.length > 0) {
+      lines.push("", "Recent runs:");
+      lines.push(...runs.map((run) => `• ${run.runId} ${run.workflow}: ${run.status}`));
+    }
+    return { shouldContinue: false, reply: { text: lines.join("\n") } };
+  }
+
+  if (parsed.action === "run") {
+    if (!parsed.name || parsed.invalid) {
+      const hint = parsed.invalid ? `❌ Expected key=value, got: ${parsed.invalid}\n` : "";
+      return { shouldContinue: false, reply: { text: `${hint}${USAGE}` } };
+    }
+    let workflow;
+    try {
+      workflow = await findWorkspaceWorkflow(params.workspaceDir, parsed.name);
+    } catch (err) {
+      return { shouldContinue: false, reply: { text: `❌ ${String(err)}` } };
+    }
+    if (!workflow) {
+      return {
+        shouldContinue: false,
+        reply: { text: `❌ Unknown workflow: ${parsed.name}` },
+      };
+    }
+    const started = startWorkflowRun({
+      workflow,
+      inputs: parsed.inputs,
+      agentId:
+        params.agentId ??
+        resolveSessionAgentId({ sessionKey: params.sessionKey, config: params.cfg }),
+      requesterSessionKey: params.sessionKey,
+      trigger: { kind: "chat", ref: params.command.senderId },
+    });
+    if (!started.ok) {
+      return { shouldContinue: false, reply: { text: `❌ ${started.error}` } };
+    }
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `▶️ Workflow ${workflow.definition.name} started (${started.run.runId}). I'll post the result here.`,
+      },
+    };
+  }
+
+  const runId =
+    parsed.runId ?? listWorkflowRuns({ requesterSessionKey: params.sessionKey })[0]?.runId;
+  const run = runId ? getWorkflowRun(runId) : undefined;
+  if (!run) {
+    return {
+      shouldContinue: false,
+      reply: { text: runId ? `❌ Unknown workflow run: ${runId}` : "No workflow runs yet." },
+    };
+  }
+  if (parsed.action === "cancel") {
+    if (!parsed.runId) {
+      return { shouldContinue: false, reply: { text: USAGE } };
+    }
+    const cancelled = cancelWorkflowRun(run.runId);
+    return {
+      shouldContinue: false,
+      reply: {
+        text: cancelled
+          ? `⏹️ Workflow ${run.workflow} (${run.runId}) cancelled.`
+          : `Workflow ${run.workflow} (${run.runId}) is already ${run.status}.`,
+      },
+    };
+  }
+  return { shouldContinue: false, reply: { text: formatWorkflowRunStatus(run) } };
+};
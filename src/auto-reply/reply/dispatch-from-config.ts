@@ -3,15 +3,21 @@ import type { FinalizedMsgContext } from "../templating.js";
 import type { GetReplyOptions, ReplyPayload } from "../types.js";
 import type { ReplyDispatcher, ReplyDispatchKind } from "./reply-dispatcher.js";
 import { resolveSessionAgentId } from "../../agents/agent-scope.js";
+import { normalizeChatType } from "../../channels/chat-type.js";
 import { loadSessionStore, resolveStorePath } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { isDiagnosticsEnabled } from "../../infra/diagnostic-events.js";
+import { holdOutboundMessage } from "../../infra/outbound/outbox.js";
 import {
   logMessageProcessed,
   logMessageQueued,
   logSessionStateChange,
 } from "../../logging/diagnostic.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
+import {
+  evaluateOutboundSendPolicy,
+  hasOutboundSendPolicyRules,
+} from "../../sessions/send-policy.js";
 import { maybeApplyTtsToPayload, normalizeTtsAutoMode, resolveTtsConfig } from "../../tts/tts.js";
 import { getReplyFromConfig } from "../reply.js";
 import { formatAbortReplyText, tryFastAbortFromMessage } from "./abort.js";
@@ -246,6 +252,47 @@ export async function dispatchReplyFromConfig(params: {
     }
   };
 
+  /**
+   * Per-message send policy for replies the channel dispatcher delivers itself
+   * (routed replies are checked in deliverOutboundPayloads). Returns false when
+   * the payload was held for approval or denied and must not be dispatched.
+   */
+  const passesNativeSendPolicy = async (payload: ReplyPayload): Promise<boolean> => {
+    const policyChannel = currentSurface ?? originatingChannel;
+    if (!policyChannel || !originatingTo || !hasOutboundSendPolicyRules(cfg)) {
+      return true;
+    }
+    const verdict = evaluateOutboundSendPolicy({
+      cfg,
+      channel: policyChannel,
+      to: originatingTo,
+      accountId: ctx.AccountId,
+      sessionKey: ctx.SessionKey,
+      chatType: normalizeChatType(ctx.ChatType),
+    });
+    if (verdict.decision === "allow") {
+      return true;
+    }
+    if (verdict.decision === "hold") {
+      const held = await holdOutboundMessage({
+        cfg,
+        channel: policyChannel,
+        to: originatingTo,
+        accountId: ctx.AccountId,
+        threadId: ctx.MessageThreadId,
+        sessionKey: ctx.SessionKey,
+        agentId: resolveSessionAgentId({ sessionKey: ctx.SessionKey, config: cfg }),
+        payloads: [payload],
+        reason: verdict.reason ?? "held for approval",
+        ruleIndex: verdict.ruleIndex,
+      });
+      logVerbose(`dispatch-from-config: reply held ${held.id} (${held.reason})`);
+      return false;
+    }
+    logVerbose(`dispatch-from-config: reply blocked by send policy (${verdict.reason})`);
+    return false;
+  };
+
   markProcessing();
 
   try {
@@ -311,7 +358,7 @@ export async function dispatchReplyFromConfig(params: {
                 });
                 if (shouldRouteToOriginating) {
                   await sendPayloadAsync(ttsPayload, undefined, false);
-                } else {
+                } else if (await passesNativeSendPolicy(ttsPayload)) {
                   dispatcher.sendToolResult(ttsPayload);
                 }
               };
@@ -338,7 +385,7 @@ export async function dispatchReplyFromConfig(params: {
             });
             if (shouldRouteToOriginating) {
               await sendPayloadAsync(ttsPayload, context?.abortSignal, false);
-            } else {
+            } else if (await passesNativeSendPolicy(ttsPayload)) {
               dispatcher.sendBlockReply(ttsPayload);
             }
           };
@@ -381,7 +428,7 @@ export async function dispatchReplyFromConfig(params: {
         if (result.ok) {
           routedFinalCount += 1;
         }
-      } else {
+      } else if (await passesNativeSendPolicy(ttsReply)) {
         queuedFinal = dispatcher.sendFinalReply(ttsReply) || queuedFinal;
       }
     }
@@ -431,7 +478,7 @@ export async function dispatchReplyFromConfig(params: {
                 `dispatch-from-config: route-reply (tts-only) failed: ${result.error ?? "unknown error"}`,
               );
             }
-          } else {
+          } else if (await passesNativeSendPolicy(ttsOnlyPayload)) {
             const didQueue = dispatcher.sendFinalReply(ttsOnlyPayload);
             queuedFinal = didQueue || queuedFinal;
           }
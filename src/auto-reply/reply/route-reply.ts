@@ -124,6 +124,7 @@ export async function routeReply(params: RouteReplyParams): Promise<RouteReplyRe
       replyToId: resolvedReplyToId ?? null,
       threadId: resolvedThreadId,
       abortSignal,
+      sessionKey: params.sessionKey,
       mirror:
         params.mirror !== false && params.sessionKey
           ? {
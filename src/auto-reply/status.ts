@@ -8,7 +8,8 @@ import { lookupContextTokens } from "../agents/context.js";
 import { DEFAULT_CONTEXT_TOKENS, DEFAULT_MODEL, DEFAULT_PROVIDER } from "../agents/defaults.js";
 import { resolveModelAuthMode } from "../agents/model-auth.js";
 import { resolveConfiguredModelRef } from "../agents/model-selection.js";
-import { resolveSandboxRuntimeStatus } from "../agents/sandbox.js";
+import { resolveSandboxConfigForAgent, resolveSandboxRuntimeStatus } from "../agents/sandbox.js";
+import { formatToolQuotaUsage, listToolQuotaUsage } from "../agents/tool-quotas.js";
 import { derivePromptTokens, normalizeUsage, type UsageLike } from "../agents/usage.js";
 import {
   resolveMainSessionKey,
@@ -87,7 +88,11 @@ function resolveRuntimeLabel(
     if (sandboxMode === "off") {
       return "direct";
     }
-    const runtime = runtimeStatus.sandboxed ? "docker" : sessionKey ? "direct" : "unknown";
+    const runtime = runtimeStatus.sandboxed
+      ? resolveSandboxConfigForAgent(args.config, runtimeStatus.agentId).runtime
+      : sessionKey
+        ? "direct"
+        : "unknown";
     return `${runtime}/${sandboxMode}`;
   }
 
@@ -114,7 +119,11 @@ function resolveRuntimeLabel(
     });
     return sessionKey !== mainKey.trim();
   })();
-  const runtime = sandboxed ? "docker" : sessionKey ? "direct" : "unknown";
+  const runtime = sandboxed
+    ? (args.agent?.sandbox?.runtime ?? "docker")
+    : sessionKey
+      ? "direct"
+      : "unknown";
   return `${runtime}/${sandboxMode}`;
 }
 
@@ -448,6 +457,14 @@ export function buildStatusMessage(args: StatusArgs): string {
     usagePair && costLine ? `${usagePair} · ${costLine}` : (usagePair ?? costLine);
   const mediaLine = formatMediaUnderstandingLine(args.mediaDecisions);
   const voiceLine = formatVoiceModeLine(args.config, args.sessionEntry);
+  const toolQuotaLine = formatToolQuotaUsage(
+    listToolQuotaUsage({
+      config: args.config,
+      sessionId: args.sessionEntry?.sessionId,
+      sessionKey: args.sessionKey,
+      nowMs: now,
+    }),
+  );
 
   return [
     versionLine,
@@ -459,6 +476,7 @@ export function buildStatusMessage(args: StatusArgs): string {
     args.usageLine,
     `🧵 ${sessionLine}`,
     args.subagentsLine,
+    toolQuotaLine,
     `⚙️ ${optionsLine}`,
     voiceLine,
     activationLine,
@@ -5,11 +5,14 @@ import { danger } from "../../globals.js";
 import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import { collectOption, parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
+  parseAfterStatus,
   parseAt,
   parseDurationMs,
+  parseExclusionOptions,
+  parseRetryOptions,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -58,6 +61,22 @@ export function registerCronListCommand(cron: Command) {
   );
 }
 
+function parseWorkflowInputs(raw: unknown): Record<string, string> | undefined {
+  const entries = Array.isArray(raw) ? (raw as string[]) : [];
+  if (entries.length === 0) {
+    return undefined;
+  }
+  const inputs: Record<string, string> = {};
+  for (const entry of entries) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`--input expects key=value, got: ${entry}`);
+    }
+    inputs[entry.slice(0, eq).trim()] = entry.slice(eq + 1);
+  }
+  return inputs;
+}
+
 export function registerCronAddCommand(cron: Command) {
   addGatewayClientOptions(
     cron
@@ -76,8 +95,12 @@ export function registerCronAddCommand(cron: Command) {
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
+      .option("--after <jobId>", "Run when another job finishes")
+      .option("--after-status <status>", "Upstream status that triggers --after (ok|error|any)")
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
+      .option("--workflow <name>", "Workspace workflow to start (isolated)")
+      .option("--input <key=value>", "Workflow input (repeatable)", collectOption, [])
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
       .option("--model <model>", "Model override for agent jobs (provider/model or alias)")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -90,6 +113,18 @@ export function registerCronAddCommand(cron: Command) {
         "Delivery destination (E.164, Telegram chatId, or Discord channel/user)",
       )
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option("--retry <n>", "Retries per failed run before waiting for the next schedule")
+      .option("--retry-backoff <duration>", "Delay before the first retry (e.g. 30s, 5m)")
+      .option("--retry-max-backoff <duration>", "Upper bound for retry delays (e.g. 1h)")
+      .option("--dead-after <n>", "Disable the job after N consecutive failures")
+      .option(
+        "--skip-dates <dates>",
+        "Comma-separated YYYY-MM-DD dates or start..end ranges to skip",
+      )
+      .option("--skip-weekdays <days>", "Comma-separated weekdays to skip (e.g. sat,sun)")
+      .option("--quiet-hours <ranges>", "Comma-separated local HH:MM-HH:MM windows to skip")
+      .option("--holidays <path>", "iCalendar (.ics) file whose events are skipped")
+      .option("--exclusions-tz <iana>", "Timezone for skip windows (defaults to --tz, then host)")
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -97,9 +132,19 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
+            }
+            if (after) {
+              const status = parseAfterStatus(opts.afterStatus);
+              if (!status) {
+                throw new Error("--after-status must be ok, error, or any");
+              }
+              return { kind: "after" as const, jobId: after, status };
             }
             if (at) {
               const atIso = parseAt(at);
@@ -143,13 +188,22 @@ export function registerCronAddCommand(cron: Command) {
           const payload = (() => {
             const systemEvent = typeof opts.systemEvent === "string" ? opts.systemEvent.trim() : "";
             const message = typeof opts.message === "string" ? opts.message.trim() : "";
-            const chosen = [Boolean(systemEvent), Boolean(message)].filter(Boolean).length;
+            const workflow = typeof opts.workflow === "string" ? opts.workflow.trim() : "";
+            const chosen = [Boolean(systemEvent), Boolean(message), Boolean(workflow)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one payload: --system-event or --message");
+              throw new Error(
+                "Choose exactly one payload: --system-event, --message or --workflow",
+              );
             }
             if (systemEvent) {
               return { kind: "systemEvent" as const, text: systemEvent };
             }
+            if (workflow) {
+              const inputs = parseWorkflowInputs(opts.input);
+              return { kind: "workflow" as const, workflow, inputs };
+            }
             const timeoutSeconds = parsePositiveIntOrUndefined(opts.timeoutSeconds);
             return {
               kind: "agentTurn" as const,
@@ -171,7 +225,7 @@ export function registerCronAddCommand(cron: Command) {
               : () => undefined;
           const sessionSource = optionSource("session");
           const sessionTargetRaw = typeof opts.session === "string" ? opts.session.trim() : "";
-          const inferredSessionTarget = payload.kind === "agentTurn" ? "isolated" : "main";
+          const inferredSessionTarget = payload.kind === "systemEvent" ? "main" : "isolated";
           const sessionTarget =
             sessionSource === "cli" ? sessionTargetRaw || "" : inferredSessionTarget;
           if (sessionTarget !== "main" && sessionTarget !== "isolated") {
@@ -185,8 +239,8 @@ export function registerCronAddCommand(cron: Command) {
           if (sessionTarget === "main" && payload.kind !== "systemEvent") {
             throw new Error("Main jobs require --system-event (systemEvent).");
           }
-          if (sessionTarget === "isolated" && payload.kind !== "agentTurn") {
-            throw new Error("Isolated jobs require --message (agentTurn).");
+          if (sessionTarget === "isolated" && payload.kind === "systemEvent") {
+            throw new Error("Isolated jobs require --message (agentTurn) or --workflow.");
           }
           if (
             (opts.announce || typeof opts.deliver === "boolean") &&
@@ -215,6 +269,9 @@ export function registerCronAddCommand(cron: Command) {
               ? opts.description.trim()
               : undefined;
 
+          const retry = parseRetryOptions(opts);
+          const exclusions = parseExclusionOptions(opts);
+
           const params = {
             name,
             description,
@@ -236,6 +293,8 @@ export function registerCronAddCommand(cron: Command) {
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
                 }
               : undefined,
+            retry,
+            exclusions,
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
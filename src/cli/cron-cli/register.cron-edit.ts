@@ -5,8 +5,11 @@ import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import {
   getCronChannelOptions,
+  parseAfterStatus,
   parseAt,
   parseDurationMs,
+  parseExclusionOptions,
+  parseRetryOptions,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -41,6 +44,8 @@ export function registerCronEditCommand(cron: Command) {
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
+      .option("--after <jobId>", "Run when another job finishes")
+      .option("--after-status <status>", "Upstream status that triggers --after (ok|error|any)")
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
       .option("--thinking <level>", "Thinking level for agent jobs")
@@ -56,6 +61,20 @@ export function registerCronEditCommand(cron: Command) {
       )
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option("--retry <n>", "Retries per failed run before waiting for the next schedule")
+      .option("--retry-backoff <duration>", "Delay before the first retry (e.g. 30s, 5m)")
+      .option("--retry-max-backoff <duration>", "Upper bound for retry delays (e.g. 1h)")
+      .option("--dead-after <n>", "Disable the job after N consecutive failures")
+      .option("--clear-retry", "Remove the retry policy", false)
+      .option(
+        "--skip-dates <dates>",
+        "Comma-separated YYYY-MM-DD dates or start..end ranges to skip",
+      )
+      .option("--skip-weekdays <days>", "Comma-separated weekdays to skip (e.g. sat,sun)")
+      .option("--quiet-hours <ranges>", "Comma-separated local HH:MM-HH:MM windows to skip")
+      .option("--holidays <path>", "iCalendar (.ics) file whose events are skipped")
+      .option("--exclusions-tz <iana>", "Timezone for skip windows (defaults to --tz, then host)")
+      .option("--clear-exclusions", "Remove all skip windows", false)
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -113,7 +132,9 @@ export function registerCronEditCommand(cron: Command) {
             patch.agentId = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const scheduleChosen = [opts.at, opts.every, opts.cron, opts.after].filter(
+            Boolean,
+          ).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
@@ -135,6 +156,12 @@ export function registerCronEditCommand(cron: Command) {
               expr: String(opts.cron),
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
             };
+          } else if (opts.after) {
+            const status = parseAfterStatus(opts.afterStatus);
+            if (!status) {
+              throw new Error("--after-status must be ok, error, or any");
+            }
+            patch.schedule = { kind: "after", jobId: String(opts.after).trim(), status };
           }
 
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
@@ -198,6 +225,26 @@ export function registerCronEditCommand(cron: Command) {
             patch.delivery = delivery;
           }
 
+          const retry = parseRetryOptions(opts);
+          if (retry && opts.clearRetry) {
+            throw new Error("Use retry flags or --clear-retry, not both");
+          }
+          if (retry) {
+            patch.retry = retry;
+          } else if (opts.clearRetry) {
+            patch.retry = null;
+          }
+
+          const exclusions = parseExclusionOptions(opts);
+          if (exclusions && opts.clearExclusions) {
+            throw new Error("Use skip flags or --clear-exclusions, not both");
+          }
+          if (exclusions) {
+            patch.exclusions = exclusions;
+          } else if (opts.clearExclusions) {
+            patch.exclusions = null;
+          }
+
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
             patch,
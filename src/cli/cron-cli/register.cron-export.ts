@@ -0,0 +1,126 @@
+import type { Command } from "commander";
+import fs from "node:fs/promises";
+import type { CronExportFile, CronImportPlan } from "../../cron/export.js";
+import { formatCronExportYaml, parseCronExportYaml } from "../../cron/export.js";
+import { danger } from "../../globals.js";
+import { defaultRuntime } from "../../runtime.js";
+import { theme } from "../../terminal/theme.js";
+import { resolveUserPath } from "../../utils.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+import { warnIfCronSchedulerDisabled } from "./shared.js";
+
+const CONFLICT_MODES = ["fail", "skip", "overwrite"] as const;
+
+function formatImportPlan(plan: CronImportPlan, opts: { applied: boolean; dryRun: boolean }) {
+  const lines: string[] = [];
+  const suffix = opts.applied ? "" : " (not applied)";
+  const withFields = (entry: { id: string; fields: string[] }) =>
+    `${entry.id} ${theme.muted(`[${entry.fields.join(", ")}]`)}`;
+  for (const id of plan.create) {
+    lines.push(`${theme.success("+ create")} ${id}`);
+  }
+  for (const entry of plan.update) {
+    lines.push(`${theme.warn("~ update")} ${withFields(entry)}`);
+  }
+  for (const id of plan.remove) {
+    lines.push(`${theme.error("- remove")} ${id}`);
+  }
+  for (const entry of plan.skipped) {
+    lines.push(`${theme.muted("= skip  ")} ${withFields(entry)}`);
+  }
+  for (const entry of plan.conflicts) {
+    lines.push(`${theme.error("! conflict")} ${withFields(entry)}`);
+  }
+  lines.push(
+    `${opts.dryRun ? "Dry run" : "Import"}${suffix}: ${plan.create.length} to create, ` +
+      `${plan.update.length} to update, ${plan.remove.length} to remove, ` +
+      `${plan.unchanged.length} unchanged, ${plan.skipped.length} skipped, ` +
+      `${plan.conflicts.length} conflicts`,
+  );
+  if (plan.conflicts.length > 0) {
+    lines.push(
+      theme.muted("Re-run with --on-conflict overwrite to replace or --on-conflict skip to keep."),
+    );
+  }
+  return lines.join("\n");
+}
+
+export function registerCronExportCommands(cron: Command) {
+  addGatewayClientOptions(
+    cron
+      .command("export")
+      .description("Export cron job definitions as YAML")
+      .option("--out <path>", "Write to a file instead of stdout")
+      .option("--id <id...>", "Only export these job ids")
+      .option("--enabled-only", "Skip disabled jobs", false)
+      .action(async (opts) => {
+        try {
+          const ids = Array.isArray(opts.id) ? (opts.id as string[]) : undefined;
+          const file = (await callGatewayFromCli("cron.export", opts, {
+            ids,
+            includeDisabled: !opts.enabledOnly,
+          })) as CronExportFile;
+          const yaml = formatCronExportYaml(file);
+          if (typeof opts.out === "string" && opts.out.trim()) {
+            const outPath = resolveUserPath(opts.out);
+            await fs.writeFile(outPath, yaml, "utf-8");
+            defaultRuntime.log(`Exported ${file.jobs.length} cron job(s) to ${outPath}`);
+          } else {
+            defaultRuntime.log(yaml.trimEnd());
+          }
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    cron
+      .command("import")
+      .description("Import cron job definitions from a YAML export")
+      .argument("<path>", "YAML (or JSON) file produced by `cron export`")
+      .option("--dry-run", "Show what would change without applying it", false)
+      .option(
+        "--on-conflict <mode>",
+        "Existing jobs with different definitions: fail|skip|overwrite",
+        "fail",
+      )
+      .option("--prune", "Remove jobs that are not in the file", false)
+      .option("--json", "Output JSON", false)
+      .action(async (filePath: string, opts) => {
+        try {
+          const onConflict = String(opts.onConflict ?? "fail").toLowerCase();
+          if (!(CONFLICT_MODES as readonly string[]).includes(onConflict)) {
+            throw new Error("--on-conflict must be fail, skip or overwrite");
+          }
+          const text = await fs.readFile(resolveUserPath(filePath), "utf-8");
+          const file = parseCronExportYaml(text);
+          const res = (await callGatewayFromCli("cron.import", opts, {
+            version: file.version,
+            jobs: file.jobs,
+            dryRun: Boolean(opts.dryRun),
+            onConflict,
+            prune: Boolean(opts.prune),
+          })) as { applied: boolean; plan: CronImportPlan };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+          } else {
+            defaultRuntime.log(
+              formatImportPlan(res.plan, { applied: res.applied, dryRun: Boolean(opts.dryRun) }),
+            );
+          }
+          if (res.plan.conflicts.length > 0) {
+            defaultRuntime.exit(1);
+            return;
+          }
+          if (res.applied) {
+            await warnIfCronSchedulerDisabled(opts);
+          }
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+}
@@ -64,6 +64,23 @@ export function registerCronSimpleCommands(cron: Command) {
       }),
   );
 
+  addGatewayClientOptions(
+    cron
+      .command("revive")
+      .description("Re-enable a dead cron job and reset its retry counters")
+      .argument("<id>", "Job id")
+      .action(async (id, opts) => {
+        try {
+          const res = await callGatewayFromCli("cron.revive", opts, { id });
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+          await warnIfCronSchedulerDisabled(opts);
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
   addGatewayClientOptions(
     cron
       .command("runs")
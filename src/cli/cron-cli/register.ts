@@ -7,6 +7,7 @@ import {
   registerCronStatusCommand,
 } from "./register.cron-add.js";
 import { registerCronEditCommand } from "./register.cron-edit.js";
+import { registerCronExportCommands } from "./register.cron-export.js";
 import { registerCronSimpleCommands } from "./register.cron-simple.js";
 
 export function registerCronCli(program: Command) {
@@ -24,4 +25,5 @@ export function registerCronCli(program: Command) {
   registerCronAddCommand(cron);
   registerCronSimpleCommands(cron);
   registerCronEditCommand(cron);
+  registerCronExportCommands(cron);
 }
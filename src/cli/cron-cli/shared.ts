@@ -1,11 +1,20 @@
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronAfterStatus,
+  CronExclusions,
+  CronJob,
+  CronRetryPolicy,
+  CronSchedule,
+} from "../../cron/types.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { listChannelPlugins } from "../../channels/plugins/index.js";
+import { parseExclusionWeekday } from "../../cron/exclusions.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
+import { resolveUserPath } from "../../utils.js";
 import { callGatewayFromCli } from "../gateway-rpc.js";
+import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 
 export const getCronChannelOptions = () =>
   ["last", ...listChannelPlugins().map((plugin) => plugin.id)].join("|");
@@ -77,6 +86,104 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+/**
+ * Build a retry policy from CLI flags. Returns undefined when no retry flag
+ * was given so callers can leave the job's policy untouched.
+ */
+export function parseRetryOptions(opts: Record<string, unknown>): CronRetryPolicy | undefined {
+  const policy: CronRetryPolicy = {};
+  if (opts.retry !== undefined) {
+    const retries = parsePositiveIntOrUndefined(opts.retry);
+    if (!retries) {
+      throw new Error("Invalid --retry; use a positive retry count");
+    }
+    policy.maxAttempts = retries + 1;
+  }
+  if (typeof opts.retryBackoff === "string") {
+    const backoffMs = parseDurationMs(opts.retryBackoff);
+    if (!backoffMs) {
+      throw new Error("Invalid --retry-backoff; use e.g. 30s, 5m");
+    }
+    policy.backoffMs = backoffMs;
+  }
+  if (typeof opts.retryMaxBackoff === "string") {
+    const maxBackoffMs = parseDurationMs(opts.retryMaxBackoff);
+    if (!maxBackoffMs) {
+      throw new Error("Invalid --retry-max-backoff; use e.g. 30m, 1h");
+    }
+    policy.maxBackoffMs = maxBackoffMs;
+  }
+  if (opts.deadAfter !== undefined) {
+    const deadAfter = parsePositiveIntOrUndefined(opts.deadAfter);
+    if (!deadAfter) {
+      throw new Error("Invalid --dead-after; use a positive failure count");
+    }
+    policy.deadAfter = deadAfter;
+  }
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+function splitListOption(raw: unknown): string[] {
+  if (typeof raw !== "string") {
+    return [];
+  }
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build blackout windows from CLI flags. Returns undefined when no exclusion
+ * flag was given; server-side validation reports malformed dates and times.
+ */
+export function parseExclusionOptions(opts: Record<string, unknown>): CronExclusions | undefined {
+  const exclusions: CronExclusions = {};
+  if (typeof opts.exclusionsTz === "string" && opts.exclusionsTz.trim()) {
+    exclusions.tz = opts.exclusionsTz.trim();
+  }
+  const dates = splitListOption(opts.skipDates);
+  if (dates.length > 0) {
+    exclusions.dates = dates.map((entry) => {
+      const [start, end] = entry.split("..").map((part) => part.trim());
+      return end ? { start, end } : { start };
+    });
+  }
+  const weekdays = splitListOption(opts.skipWeekdays);
+  if (weekdays.length > 0) {
+    exclusions.weekdays = weekdays.map((entry) => {
+      const day = parseExclusionWeekday(entry);
+      if (day === null) {
+        throw new Error(`Invalid --skip-weekdays entry: ${entry}`);
+      }
+      return day;
+    });
+  }
+  const quietHours = splitListOption(opts.quietHours);
+  if (quietHours.length > 0) {
+    exclusions.quietHours = quietHours.map((entry) => {
+      const [start, end] = entry.split("-").map((part) => part.trim());
+      if (!start || !end) {
+        throw new Error(`Invalid --quiet-hours entry: ${entry} (use HH:MM-HH:MM)`);
+      }
+      return { start, end };
+    });
+  }
+  if (typeof opts.holidays === "string" && opts.holidays.trim()) {
+    // Resolve relative to the caller so `--holidays ./holidays.ics` works as expected.
+    exclusions.icsPath = resolveUserPath(opts.holidays);
+  }
+  return Object.keys(exclusions).length > 0 ? exclusions : undefined;
+}
+
+export function parseAfterStatus(input: unknown): CronAfterStatus | null {
+  if (typeof input !== "string" || !input.trim()) {
+    return "ok";
+  }
+  const raw = input.trim().toLowerCase();
+  return raw === "ok" || raw === "error" || raw === "any" ? raw : null;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -137,16 +244,26 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const status = schedule.status ?? "ok";
+    return status === "ok" ? `after ${schedule.jobId}` : `after ${schedule.jobId} (${status})`;
+  }
   return schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
 };
 
 const formatStatus = (job: CronJob) => {
+  if (job.state.deadAtMs) {
+    return "dead";
+  }
   if (!job.enabled) {
     return "disabled";
   }
   if (job.state.runningAtMs) {
     return "running";
   }
+  if (job.state.retryAttempt) {
+    return `retry ${job.state.retryAttempt}/${Math.max(1, (job.retry?.maxAttempts ?? 1) - 1)}`;
+  }
   return job.state.lastStatus ?? "idle";
 };
 
@@ -192,9 +309,12 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
       if (statusRaw === "ok") {
         return colorize(rich, theme.success, statusLabel);
       }
-      if (statusRaw === "error") {
+      if (statusRaw === "error" || statusRaw === "dead") {
         return colorize(rich, theme.error, statusLabel);
       }
+      if (statusRaw.startsWith("retry")) {
+        return colorize(rich, theme.warn, statusLabel);
+      }
       if (statusRaw === "running") {
         return colorize(rich, theme.warn, statusLabel);
       }
@@ -2,9 +2,21 @@ import type { Command } from "commander";
 import JSON5 from "json5";
 import fs from "node:fs/promises";
 import type { NodesRpcOpts } from "./nodes-cli/types.js";
+import { danger } from "../globals.js";
+import {
+  type ExecApprovalAuditEvent,
+  type ExecApprovalAuditQuery,
+  type ExecApprovalAuditRecord,
+  type ExecApprovalAuditVerification,
+  queryExecApprovalAuditLog,
+  readExecApprovalAuditLog,
+  resolveExecApprovalAuditPath,
+  verifyExecApprovalAuditChain,
+} from "../infra/exec-approval-audit.js";
 import {
   readExecApprovalsSnapshot,
   saveExecApprovals,
+  type ExecAllowlistEntry,
   type ExecApprovalsAgent,
   type ExecApprovalsFile,
 } from "../infra/exec-approvals.js";
@@ -16,6 +28,7 @@ import { isRich, theme } from "../terminal/theme.js";
 import { describeUnknownError } from "./gateway-cli/shared.js";
 import { callGatewayFromCli } from "./gateway-rpc.js";
 import { nodesCallOpts, resolveNodeId } from "./nodes-cli/rpc.js";
+import { parseDurationMs } from "./parse-duration.js";
 
 type ExecApprovalsSnapshot = {
   path: string;
@@ -30,8 +43,32 @@ type ExecApprovalsCliOpts = NodesRpcOpts & {
   file?: string;
   stdin?: boolean;
   agent?: string;
+  args?: string[];
+  deny?: boolean;
+  paths?: string;
+  expires?: string;
+  session?: string;
+  id?: string;
+  event?: string;
+  since?: string;
+  limit?: string;
+  verify?: boolean;
+};
+
+type ExecApprovalAuditResult = {
+  path: string;
+  records: ExecApprovalAuditRecord[];
+  verification: ExecApprovalAuditVerification;
 };
 
+const AUDIT_EVENTS: readonly ExecApprovalAuditEvent[] = [
+  "requested",
+  "resolved",
+  "expired",
+  "executed",
+  "denied",
+];
+
 async function readStdin(): Promise<string> {
   const chunks: Buffer[] = [];
   for await (const chunk of process.stdin) {
@@ -94,6 +131,61 @@ function formatCliError(err: unknown): string {
   return msg.includes("\n") ? msg.split("\n")[0] : msg;
 }
 
+function describeAllowlistRule(entry: ExecAllowlistEntry, now: number): string {
+  const parts = [entry.action === "deny" ? "deny" : "allow"];
+  if (Array.isArray(entry.args)) {
+    parts.push(entry.args.length > 0 ? `args: ${entry.args.join(" | ")}` : "no args");
+  }
+  if (entry.paths) {
+    parts.push(entry.paths === "workspace" ? "paths in workspace" : "paths outside workspace");
+  }
+  if (entry.sessionKey) {
+    parts.push(`session ${entry.sessionKey}`);
+  }
+  if (typeof entry.expiresAt === "number") {
+    parts.push(
+      entry.expiresAt <= now
+        ? "expired"
+        : `expires ${new Date(entry.expiresAt).toISOString().replace(/\.\d{3}Z$/, "Z")}`,
+    );
+  }
+  return parts.join(", ");
+}
+
+function buildAllowlistEntry(pattern: string, opts: ExecApprovalsCliOpts): ExecAllowlistEntry {
+  const entry: ExecAllowlistEntry = { pattern, lastUsedAt: Date.now() };
+  if (opts.deny) {
+    entry.action = "deny";
+  }
+  if (Array.isArray(opts.args)) {
+    entry.args = opts.args.map((arg) => arg.trim()).filter(Boolean);
+  }
+  if (opts.paths) {
+    if (opts.paths !== "workspace" && opts.paths !== "outside-workspace") {
+      throw new Error("--paths must be workspace or outside-workspace");
+    }
+    entry.paths = opts.paths;
+  }
+  if (opts.expires) {
+    entry.expiresAt = Date.now() + parseDurationMs(opts.expires, { defaultUnit: "m" });
+  }
+  const session = opts.session?.trim();
+  if (session) {
+    entry.sessionKey = session;
+  }
+  return entry;
+}
+
+function isSameAllowlistRule(a: ExecAllowlistEntry, b: ExecAllowlistEntry): boolean {
+  return (
+    a.pattern.trim() === b.pattern.trim() &&
+    (a.action ?? "allow") === (b.action ?? "allow") &&
+    JSON.stringify(a.args ?? null) === JSON.stringify(b.args ?? null) &&
+    a.paths === b.paths &&
+    (a.sessionKey ?? "") === (b.sessionKey ?? "")
+  );
+}
+
 function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: string) {
   const rich = isRich();
   const heading = (text: string) => (rich ? theme.heading(text) : text);
@@ -111,8 +203,13 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
       : null,
   ].filter(Boolean) as string[];
   const agents = file.agents ?? {};
-  const allowlistRows: Array<{ Target: string; Agent: string; Pattern: string; LastUsed: string }> =
-    [];
+  const allowlistRows: Array<{
+    Target: string;
+    Agent: string;
+    Pattern: string;
+    Rule: string;
+    LastUsed: string;
+  }> = [];
   const now = Date.now();
   for (const [agentId, agent] of Object.entries(agents)) {
     const allowlist = Array.isArray(agent.allowlist) ? agent.allowlist : [];
@@ -126,6 +223,7 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
         Target: targetLabel,
         Agent: agentId,
         Pattern: pattern,
+        Rule: describeAllowlistRule(entry, now),
         LastUsed: lastUsedAt ? formatTimeAgo(Math.max(0, now - lastUsedAt)) : muted("unknown"),
       });
     }
@@ -170,6 +268,7 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
         { key: "Target", header: "Target", minWidth: 10 },
         { key: "Agent", header: "Agent", minWidth: 8 },
         { key: "Pattern", header: "Pattern", minWidth: 20, flex: true },
+        { key: "Rule", header: "Rule", minWidth: 12, flex: true },
         { key: "LastUsed", header: "Last Used", minWidth: 10 },
       ],
       rows: allowlistRows,
@@ -177,6 +276,114 @@ function renderApprovalsSnapshot(snapshot: ExecApprovalsSnapshot, targetLabel: s
   );
 }
 
+function buildAuditQuery(opts: ExecApprovalsCliOpts): ExecApprovalAuditQuery {
+  const query: ExecApprovalAuditQuery = {};
+  if (opts.id?.trim()) {
+    query.approvalId = opts.id.trim();
+  }
+  if (opts.agent?.trim()) {
+    query.agentId = opts.agent.trim();
+  }
+  if (opts.event) {
+    const event = opts.event.trim().toLowerCase() as ExecApprovalAuditEvent;
+    if (!AUDIT_EVENTS.includes(event)) {
+      throw new Error(`--event must be one of: ${AUDIT_EVENTS.join(", ")}`);
+    }
+    query.event = event;
+  }
+  if (opts.since) {
+    query.sinceMs = Date.now() - parseDurationMs(opts.since, { defaultUnit: "m" });
+  }
+  if (opts.limit) {
+    const limit = Number.parseInt(opts.limit, 10);
+    if (!Number.isFinite(limit) || limit <= 0) {
+      throw new Error("--limit must be a positive integer");
+    }
+    query.limit = limit;
+  }
+  return query;
+}
+
+async function loadAuditLocal(
+  filePath: string,
+  query: ExecApprovalAuditQuery,
+): Promise<ExecApprovalAuditResult> {
+  const lines = await readExecApprovalAuditLog(filePath);
+  return {
+    path: filePath,
+    records: queryExecApprovalAuditLog(lines, query),
+    verification: verifyExecApprovalAuditChain(lines),
+  };
+}
+
+function describeAuditRecord(record: ExecApprovalAuditRecord): string {
+  switch (record.event) {
+    case "resolved":
+      return [
+        record.decision,
+        record.approver ? `by ${record.approver}` : null,
+        record.channel ? `via ${record.channel}` : null,
+        record.claimedApprover || record.claimedChannel
+          ? `(claims ${[record.claimedApprover, record.claimedChannel].filter(Boolean).join(" via ")})`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    case "executed":
+      return record.timedOut ? "timeout" : `exit ${record.exitCode ?? "?"}`;
+    default:
+      return record.reason?.split("\n")[0] ?? "";
+  }
+}
+
+function renderAuditVerification(verification: ExecApprovalAuditVerification) {
+  if (verification.ok) {
+    defaultRuntime.log(
+      `${theme.success("Chain OK")} ${theme.muted(`(${verification.count} records)`)}`,
+    );
+    return;
+  }
+  defaultRuntime.error(
+    danger(
+      `Chain broken at line ${verification.line}${
+        verification.seq !== undefined ? ` (seq ${verification.seq})` : ""
+      }: ${verification.reason}. ${verification.count} records verified before the break.`,
+    ),
+  );
+}
+
+function renderAuditRecords(result: ExecApprovalAuditResult) {
+  const rich = isRich();
+  const muted = (text: string) => (rich ? theme.muted(text) : text);
+  defaultRuntime.log(muted(`Audit log: ${result.path}`));
+  if (result.records.length === 0) {
+    defaultRuntime.log(muted("No audit records."));
+    return;
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  defaultRuntime.log(
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Seq", header: "Seq", minWidth: 4 },
+        { key: "Time", header: "Time", minWidth: 20 },
+        { key: "Event", header: "Event", minWidth: 9 },
+        { key: "Id", header: "Id", minWidth: 8 },
+        { key: "Command", header: "Command", minWidth: 16, flex: true },
+        { key: "Detail", header: "Detail", minWidth: 14, flex: true },
+      ],
+      rows: result.records.map((record) => ({
+        Seq: String(record.seq),
+        Time: new Date(record.ts).toISOString(),
+        Event: record.event,
+        Id: record.approvalId?.slice(0, 8) ?? "",
+        Command: record.command ?? "",
+        Detail: describeAuditRecord(record),
+      })),
+    }).trimEnd(),
+  );
+}
+
 async function saveSnapshot(
   opts: ExecApprovalsCliOpts,
   nodeId: string | null,
@@ -329,6 +536,15 @@ export function registerExecApprovalsCli(program: Command) {
         )}\n${formatExample(
           'openclaw approvals allowlist add --agent "*" "/usr/bin/uname"',
           "Allowlist for all agents (wildcard).",
+        )}\n${formatExample(
+          'openclaw approvals allowlist add "/usr/bin/git" --args "status*" "diff*" "log*"',
+          "Allow git only for status/diff/log.",
+        )}\n${formatExample(
+          'openclaw approvals allowlist add "/bin/rm" --deny --paths outside-workspace',
+          "Deny rm whenever a path argument leaves the workspace.",
+        )}\n${formatExample(
+          'openclaw approvals allowlist add "/usr/bin/make" --expires 2h',
+          "Time-boxed grant.",
         )}\n${formatExample(
           'openclaw approvals allowlist remove "~/Projects/**/bin/rg"',
           "Remove an allowlist pattern.",
@@ -341,6 +557,11 @@ export function registerExecApprovalsCli(program: Command) {
     .option("--node <node>", "Target node id/name/IP")
     .option("--gateway", "Force gateway approvals", false)
     .option("--agent <id>", 'Agent id (defaults to "*")')
+    .option("--args <glob...>", "Only match these argument patterns (e.g. 'status*' 'diff*')")
+    .option("--deny", "Deny matching commands instead of allowing them", false)
+    .option("--paths <scope>", "Path arguments must be: workspace | outside-workspace")
+    .option("--expires <duration>", "Expire the entry after a duration (e.g. 30m, 2h, 7d)")
+    .option("--session <key>", "Limit the entry to one session key")
     .action(async (pattern: string, opts: ExecApprovalsCliOpts) => {
       try {
         const trimmed = pattern.trim();
@@ -364,11 +585,17 @@ export function registerExecApprovalsCli(program: Command) {
         const agentKey = resolveAgentKey(opts.agent);
         const agent = ensureAgent(file, agentKey);
         const allowlistEntries = Array.isArray(agent.allowlist) ? agent.allowlist : [];
-        if (allowlistEntries.some((entry) => normalizeAllowlistEntry(entry) === trimmed)) {
+        const nextEntry = buildAllowlistEntry(trimmed, opts);
+        const existing = allowlistEntries.find((entry) => isSameAllowlistRule(entry, nextEntry));
+        if (existing && existing.expiresAt === nextEntry.expiresAt) {
           defaultRuntime.log("Already allowlisted.");
           return;
         }
-        allowlistEntries.push({ pattern: trimmed, lastUsedAt: Date.now() });
+        if (existing) {
+          existing.expiresAt = nextEntry.expiresAt;
+        } else {
+          allowlistEntries.push(nextEntry);
+        }
         agent.allowlist = allowlistEntries;
         file.agents = { ...file.agents, [agentKey]: agent };
         const next =
@@ -452,4 +679,55 @@ export function registerExecApprovalsCli(program: Command) {
       }
     });
   nodesCallOpts(allowlistRemove);
+
+  const auditCmd = approvals
+    .command("audit")
+    .description("Query the exec approval audit log and verify its hash chain")
+    .option("--gateway", "Read the gateway host's audit log", false)
+    .option("--file <path>", "Read a copied audit log file")
+    .option("--id <approvalId>", "Only records for this approval id")
+    .option("--agent <id>", "Only records for this agent")
+    .option("--event <event>", `Only this event (${AUDIT_EVENTS.join("|")})`)
+    .option("--since <duration>", "Only records newer than this (e.g. 30m, 2h, 7d)")
+    .option("--limit <n>", "Max records to show (newest last)", "50")
+    .option("--verify", "Exit non-zero when the hash chain is broken", false)
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatExample(
+          "openclaw approvals audit --since 24h",
+          "Show the last day of approval activity on this machine.",
+        )}\n${formatExample(
+          "openclaw approvals audit --gateway --id <approvalId>",
+          "Trace one approval from request to exit code.",
+        )}\n${formatExample(
+          "openclaw approvals audit --verify --file ./exec-approvals.jsonl",
+          "Verify an exported copy of the log.",
+        )}\n`,
+    )
+    .action(async (opts: ExecApprovalsCliOpts) => {
+      try {
+        const query = buildAuditQuery(opts);
+        const result = opts.gateway
+          ? ((await callGatewayFromCli(
+              "exec.approvals.audit",
+              opts,
+              query,
+            )) as ExecApprovalAuditResult)
+          : await loadAuditLocal(opts.file?.trim() || resolveExecApprovalAuditPath(), query);
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+        } else {
+          renderAuditRecords(result);
+          renderAuditVerification(result.verification);
+        }
+        if (opts.verify && !result.verification.ok) {
+          defaultRuntime.exit(1);
+        }
+      } catch (err) {
+        defaultRuntime.error(formatCliError(err));
+        defaultRuntime.exit(1);
+      }
+    });
+  nodesCallOpts(auditCmd);
 }
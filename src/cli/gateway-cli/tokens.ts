@@ -0,0 +1,147 @@
+import type { Command } from "commander";
+import { loadConfig } from "../../config/config.js";
+import {
+  createGatewayRoleToken,
+  loadGatewayRoleTokens,
+  revokeGatewayRoleToken,
+  type GatewayRoleTokenRecord,
+} from "../../gateway/role-tokens.js";
+import { formatRelativeTimestamp, formatTimeAgo } from "../../infra/format-time/format-relative.js";
+import { defaultRuntime } from "../../runtime.js";
+import { renderTable } from "../../terminal/table.js";
+import { theme } from "../../terminal/theme.js";
+import { runCommandWithRuntime } from "../cli-utils.js";
+import { parseDurationMs } from "../parse-duration.js";
+
+type TokensCreateOpts = {
+  role?: string;
+  ttl?: string;
+  label?: string;
+  json?: boolean;
+};
+
+function runTokensCommand(action: () => Promise<void>, label: string) {
+  return runCommandWithRuntime(defaultRuntime, action, (err) => {
+    defaultRuntime.error(`${label}: ${String(err)}`);
+    defaultRuntime.exit(1);
+  });
+}
+
+function formatTokenStatus(
+  record: Pick<GatewayRoleTokenRecord, "expiresAtMs" | "revokedAtMs">,
+  now: number,
+) {
+  if (record.revokedAtMs !== undefined) {
+    return "revoked";
+  }
+  if (record.expiresAtMs !== undefined && record.expiresAtMs <= now) {
+    return "expired";
+  }
+  return "active";
+}
+
+export function addGatewayTokensCommands(gateway: Command) {
+  const tokens = gateway
+    .command("tokens")
+    .description("Manage scoped gateway tokens bound to a gateway.roles entry");
+
+  tokens
+    .command("create")
+    .description("Mint a token for a role (shown once)")
+    .requiredOption("--role <role>", "Role name from gateway.roles")
+    .option("--ttl <duration>", "Expire after this long (e.g. 12h, 7d; default: never)")
+    .option("--label <text>", "Free-form label shown in `tokens list`")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: TokensCreateOpts) => {
+      await runTokensCommand(async () => {
+        const role = opts.role?.trim() ?? "";
+        const roles = loadConfig().gateway?.roles ?? {};
+        if (!roles[role]) {
+          const known = Object.keys(roles);
+          throw new Error(
+            `unknown role "${role}" (${known.length > 0 ? `known: ${known.join(", ")}` : "define roles under gateway.roles"})`,
+          );
+        }
+        const ttlMs = opts.ttl ? parseDurationMs(opts.ttl, { defaultUnit: "h" }) : undefined;
+        const { token, record } = createGatewayRoleToken({ role, label: opts.label, ttlMs });
+        if (opts.json) {
+          const { tokenHash: _hash, ...summary } = record;
+          defaultRuntime.log(JSON.stringify({ token, ...summary }, null, 2));
+          return;
+        }
+        defaultRuntime.log(`${theme.success("Created")} token ${record.id} for role ${role}`);
+        if (record.expiresAtMs !== undefined) {
+          defaultRuntime.log(theme.muted(`Expires ${new Date(record.expiresAtMs).toISOString()}`));
+        }
+        defaultRuntime.log(token);
+        defaultRuntime.log(theme.muted("Store it now; it cannot be shown again."));
+      }, "gateway tokens create failed");
+    });
+
+  tokens
+    .command("list")
+    .description("List scoped tokens")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: { json?: boolean }) => {
+      await runTokensCommand(async () => {
+        const now = Date.now();
+        const records = loadGatewayRoleTokens();
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              records.map(({ tokenHash: _hash, ...record }) => ({
+                ...record,
+                status: formatTokenStatus(record, now),
+              })),
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+        if (records.length === 0) {
+          defaultRuntime.log(theme.muted("No scoped tokens."));
+          return;
+        }
+        const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+        defaultRuntime.log(
+          renderTable({
+            width: tableWidth,
+            columns: [
+              { key: "Id", header: "Id", minWidth: 10 },
+              { key: "Role", header: "Role", minWidth: 10 },
+              { key: "Label", header: "Label", minWidth: 10, flex: true },
+              { key: "Status", header: "Status", minWidth: 8 },
+              { key: "Created", header: "Created", minWidth: 10 },
+              { key: "Expires", header: "Expires", minWidth: 10 },
+            ],
+            rows: records.map((record) => ({
+              Id: record.id,
+              Role: record.role,
+              Label: record.label ?? "",
+              Status: formatTokenStatus(record, now),
+              Created: formatTimeAgo(now - record.createdAtMs),
+              Expires:
+                record.expiresAtMs !== undefined
+                  ? formatRelativeTimestamp(record.expiresAtMs)
+                  : "never",
+            })),
+          }).trimEnd(),
+        );
+      }, "gateway tokens list failed");
+    });
+
+  tokens
+    .command("revoke")
+    .description("Revoke a scoped token (connected clients lose access on their next request)")
+    .argument("<id>", "Token id from `tokens list`")
+    .action(async (id: string) => {
+      await runTokensCommand(async () => {
+        const record = revokeGatewayRoleToken(id);
+        if (!record) {
+          throw new Error(`unknown token id: ${id}`);
+        }
+        defaultRuntime.log(`${theme.success("Revoked")} token ${record.id} (${record.role})`);
+      }, "gateway tokens revoke failed");
+    });
+}
@@ -339,6 +339,94 @@ describe("memory cli", () => {
     expect(process.exitCode).toBeUndefined();
   });
 
+  it("prints recency weighting with --explain", async () => {
+    const { registerMemoryCli } = await import("./memory-cli.js");
+    const { defaultRuntime } = await import("../runtime.js");
+    const close = vi.fn(async () => {});
+    const search = vi.fn(async () => [
+      {
+        path: "sessions/abc.jsonl",
+        startLine: 1,
+        endLine: 4,
+        score: 0.4,
+        snippet: "Deploy notes",
+        source: "sessions",
+        recency: { baseScore: 0.8, ageDays: 30, halfLifeDays: 30, factor: 0.5 },
+      },
+      {
+        path: "MEMORY.md",
+        startLine: 1,
+        endLine: 2,
+        score: 0.3,
+        snippet: "Prefs",
+        source: "memory",
+      },
+    ]);
+    getMemorySearchManager.mockResolvedValueOnce({ manager: { search, close } });
+
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+    const program = new Command();
+    program.name("test");
+    registerMemoryCli(program);
+    await program.parseAsync(["memory", "search", "deploy", "--explain"], { from: "user" });
+
+    const output = log.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("source=sessions age=30.0d half-life=30d decay=0.500 base=0.800");
+    expect(output).toContain("source=memory recency=off");
+  });
+
+  it("round-trips an index bundle through export and import", async () => {
+    const { registerMemoryCli } = await import("./memory-cli.js");
+    const { defaultRuntime } = await import("../runtime.js");
+    const fs = await import("node:fs/promises");
+    const os = await import("node:os");
+    const path = await import("node:path");
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-bundle-"));
+    const bundlePath = path.join(dir, "memory.json.gz");
+    const bundle = {
+      version: 1,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      agentId: "main",
+      provider: { id: "openai", model: "text-embedding-3-small", providerKey: "fp" },
+      chunking: { tokens: 400, overlap: 80 },
+      chunks: [
+        {
+          path: "MEMORY.md",
+          source: "memory",
+          startLine: 1,
+          endLine: 3,
+          hash: "h1",
+          embedding: [0.1, 0.2],
+        },
+      ],
+    };
+    const exportIndex = vi.fn(async () => bundle);
+    const importIndex = vi.fn(async () => ({ chunks: 1, embeddings: 1, chunkingMatches: true }));
+    const sync = vi.fn(async () => {});
+    const close = vi.fn(async () => {});
+    getMemorySearchManager.mockResolvedValue({
+      manager: { exportIndex, importIndex, sync, close },
+    });
+
+    const log = vi.spyOn(defaultRuntime, "log").mockImplementation(() => {});
+    try {
+      const program = new Command();
+      program.name("test");
+      registerMemoryCli(program);
+      await program.parseAsync(["memory", "export", "--out", bundlePath], { from: "user" });
+      await program.parseAsync(["memory", "import", bundlePath], { from: "user" });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    expect(importIndex).toHaveBeenCalledWith(bundle);
+    expect(sync).toHaveBeenCalledWith({ reason: "import" });
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("Imported 1 embeddings from 1 chunks"),
+    );
+    expect(process.exitCode).toBeUndefined();
+  });
+
   it("closes manager after search error", async () => {
     const { registerMemoryCli } = await import("./memory-cli.js");
     const { defaultRuntime } = await import("../runtime.js");
@@ -8,7 +8,12 @@ import { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { setVerbose } from "../globals.js";
-import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
+import { readMemoryIndexBundle, writeMemoryIndexBundle } from "../memory/index-bundle.js";
+import {
+  getMemorySearchManager,
+  type MemorySearchManagerResult,
+  type MemorySearchResult,
+} from "../memory/index.js";
 import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
@@ -57,6 +62,18 @@ function formatSourceLabel(source: string, workspaceDir: string, agentId: string
   return source;
 }
 
+function formatSearchExplain(result: MemorySearchResult): string {
+  const recency = result.recency;
+  if (!recency) {
+    return `  source=${result.source} recency=off`;
+  }
+  return (
+    `  source=${result.source} age=${recency.ageDays.toFixed(1)}d ` +
+    `half-life=${recency.halfLifeDays}d decay=${recency.factor.toFixed(3)} ` +
+    `base=${recency.baseScore.toFixed(3)}`
+  );
+}
+
 function resolveAgent(cfg: ReturnType<typeof loadConfig>, agent?: string) {
   const trimmed = agent?.trim();
   if (trimmed) {
@@ -650,6 +667,7 @@ export function registerMemoryCli(program: Command) {
     .option("--agent <id>", "Agent id (default: default agent)")
     .option("--max-results <n>", "Max results", (value: string) => Number(value))
     .option("--min-score <n>", "Minimum score", (value: string) => Number(value))
+    .option("--explain", "Show source and recency weighting per result")
     .option("--json", "Print JSON")
     .action(
       async (
@@ -657,6 +675,7 @@ export function registerMemoryCli(program: Command) {
         opts: MemoryCommandOptions & {
           maxResults?: number;
           minScore?: number;
+          explain?: boolean;
         },
       ) => {
         const cfg = loadConfig();
@@ -700,6 +719,9 @@ export function registerMemoryCli(program: Command) {
                   `${shortenHomePath(result.path)}:${result.startLine}-${result.endLine}`,
                 )}`,
               );
+              if (opts.explain) {
+                lines.push(colorize(rich, theme.muted, formatSearchExplain(result)));
+              }
               lines.push(colorize(rich, theme.muted, result.snippet));
               lines.push("");
             }
@@ -708,4 +730,115 @@ export function registerMemoryCli(program: Command) {
         });
       },
     );
+
+  memory
+    .command("export")
+    .description("Export the memory index (chunks + embeddings) as a portable bundle")
+    .requiredOption("--out <path>", "Bundle path (.json or .json.gz)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .action(async (opts: MemoryCommandOptions & { out: string }) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const outPath = path.resolve(opts.out);
+      await withManager<MemoryManager>({
+        getManager: () => getMemorySearchManager({ cfg, agentId }),
+        onMissing: (error) => defaultRuntime.log(error ?? "Memory search disabled."),
+        onCloseError: (err) =>
+          defaultRuntime.error(`Memory manager close failed: ${formatErrorMessage(err)}`),
+        close: async (manager) => {
+          await manager.close?.();
+        },
+        run: async (manager) => {
+          if (!manager.exportIndex) {
+            defaultRuntime.error("Memory backend does not support export.");
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const bundle = await manager.exportIndex();
+            await writeMemoryIndexBundle(outPath, bundle);
+            if (opts.json) {
+              defaultRuntime.log(
+                JSON.stringify(
+                  {
+                    path: outPath,
+                    agentId,
+                    provider: bundle.provider,
+                    chunks: bundle.chunks.length,
+                  },
+                  null,
+                  2,
+                ),
+              );
+              return;
+            }
+            defaultRuntime.log(
+              `Exported ${bundle.chunks.length} chunks (${bundle.provider.id}/${bundle.provider.model}) to ${shortenHomePath(outPath)}.`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory export failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
+  memory
+    .command("import")
+    .description("Import a memory bundle and reindex without re-embedding unchanged chunks")
+    .argument("<path>", "Bundle path (.json or .json.gz)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--no-sync", "Only seed the embedding cache; skip reindexing")
+    .option("--json", "Print JSON")
+    .action(async (bundlePath: string, opts: MemoryCommandOptions & { sync?: boolean }) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      await withManager<MemoryManager>({
+        getManager: () => getMemorySearchManager({ cfg, agentId }),
+        onMissing: (error) => defaultRuntime.log(error ?? "Memory search disabled."),
+        onCloseError: (err) =>
+          defaultRuntime.error(`Memory manager close failed: ${formatErrorMessage(err)}`),
+        close: async (manager) => {
+          await manager.close?.();
+        },
+        run: async (manager) => {
+          if (!manager.importIndex) {
+            defaultRuntime.error("Memory backend does not support import.");
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const bundle = await readMemoryIndexBundle(path.resolve(bundlePath));
+            const result = await manager.importIndex(bundle);
+            const synced = opts.sync !== false && typeof manager.sync === "function";
+            if (synced) {
+              await withProgress({ label: "Indexing memory…", indeterminate: true }, async () => {
+                await manager.sync?.({ reason: "import" });
+              });
+            }
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify({ agentId, ...result, synced }, null, 2));
+              return;
+            }
+            defaultRuntime.log(
+              `Imported ${result.embeddings} embeddings from ${result.chunks} chunks (${agentId}).`,
+            );
+            if (!result.chunkingMatches) {
+              defaultRuntime.log(
+                theme.warn(
+                  "Chunking settings differ from the bundle; changed chunks will be re-embedded.",
+                ),
+              );
+            }
+            if (!synced) {
+              defaultRuntime.log(theme.muted("Run `openclaw memory index` to rebuild the index."));
+            }
+          } catch (err) {
+            defaultRuntime.error(`Memory import failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
 }
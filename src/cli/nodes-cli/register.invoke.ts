@@ -298,7 +298,8 @@ export function registerNodesInvokeCommands(nodes: Command) {
                 throw new Error("exec denied: approval required (approval UI not available)");
               }
             }
-            if (decision === "allow-once") {
+            // CLI runs have no session, so a session grant only covers this run.
+            if (decision === "allow-once" || decision === "allow-session") {
               approvedByAsk = true;
               approvalDecision = "allow-once";
             }
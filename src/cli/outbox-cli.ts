@@ -0,0 +1,131 @@
+import type { Command } from "commander";
+import type { HeldOutboundMessage } from "../infra/outbound/outbox.js";
+import { danger } from "../globals.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "./gateway-rpc.js";
+
+function previewPayloads(entry: HeldOutboundMessage): string {
+  const text = entry.payloads
+    .map((payload) => payload.text?.trim())
+    .filter(Boolean)
+    .join(" ");
+  const media = entry.payloads.reduce(
+    (sum, payload) => sum + (payload.mediaUrls?.length ?? (payload.mediaUrl ? 1 : 0)),
+    0,
+  );
+  const preview = text.length > 60 ? `${text.slice(0, 59)}…` : text;
+  return media > 0 ? `${preview}${preview ? " " : ""}[+${media} media]` : preview;
+}
+
+async function runOutboxCommand(fn: () => Promise<void>) {
+  try {
+    await fn();
+  } catch (err) {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  }
+}
+
+export function registerOutboxCli(program: Command) {
+  const outbox = program
+    .command("outbox")
+    .description("Review outbound messages held by send policy rules (via Gateway)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/outbox", "docs.openclaw.ai/cli/outbox")}\n`,
+    );
+
+  addGatewayClientOptions(
+    outbox
+      .command("list")
+      .description("List held outbound messages")
+      .option("--json", "Output JSON", false)
+      .action(async (opts) => {
+        await runOutboxCommand(async () => {
+          const res = (await callGatewayFromCli("outbox.list", opts, {})) as {
+            held?: HeldOutboundMessage[];
+          };
+          const held = res.held ?? [];
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(held, null, 2));
+            return;
+          }
+          if (held.length === 0) {
+            defaultRuntime.log(theme.muted("No held messages."));
+            return;
+          }
+          const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+          defaultRuntime.log(`${theme.heading("Held")} ${theme.muted(`(${held.length})`)}`);
+          defaultRuntime.log(
+            renderTable({
+              width: tableWidth,
+              columns: [
+                { key: "Id", header: "Id", minWidth: 10 },
+                { key: "Target", header: "Target", minWidth: 16 },
+                { key: "Reason", header: "Reason", minWidth: 14 },
+                { key: "Age", header: "Age", minWidth: 8 },
+                { key: "Message", header: "Message", minWidth: 16, flex: true },
+              ],
+              rows: held.map((entry) => ({
+                Id: entry.id,
+                Target: `${entry.channel}:${entry.to}`,
+                Reason: entry.reason,
+                Age: formatTimeAgo(Date.now() - entry.heldAtMs),
+                Message: previewPayloads(entry),
+              })),
+            }).trimEnd(),
+          );
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    outbox
+      .command("release")
+      .description("Send a held message now")
+      .argument("<id>", "Held message id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts) => {
+        await runOutboxCommand(async () => {
+          const res = (await callGatewayFromCli("outbox.release", opts, { id })) as {
+            id?: string;
+            messageId?: string;
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(
+            `${theme.success("Released")} ${theme.command(res.id ?? id)}${
+              res.messageId ? theme.muted(` (message ${res.messageId})`) : ""
+            }`,
+          );
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    outbox
+      .command("discard")
+      .description("Drop a held message without sending it")
+      .argument("<id>", "Held message id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts) => {
+        await runOutboxCommand(async () => {
+          const res = (await callGatewayFromCli("outbox.discard", opts, { id })) as {
+            id?: string;
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(`${theme.warn("Discarded")} ${theme.command(res.id ?? id)}`);
+        });
+      }),
+  );
+}
@@ -207,6 +207,22 @@ const entries: SubCliEntry[] = [
       mod.registerDirectoryCli(program);
     },
   },
+  {
+    name: "routing",
+    description: "Agent routing diagnostics",
+    register: async (program) => {
+      const mod = await import("../routing-cli.js");
+      mod.registerRoutingCli(program);
+    },
+  },
+  {
+    name: "outbox",
+    description: "Held outbound messages",
+    register: async (program) => {
+      const mod = await import("../outbox-cli.js");
+      mod.registerOutboxCli(program);
+    },
+  },
   {
     name: "security",
     description: "Security helpers",
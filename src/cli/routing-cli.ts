@@ -0,0 +1,166 @@
+import type { Command } from "commander";
+import type { SessionOutboundSendPolicyRule } from "../config/types.base.js";
+import type { AgentRouteExplanation, RoutePeer } from "../routing/resolve-route.js";
+import type {
+  OutboundSendPolicyResult,
+  SessionSendPolicyExplanation,
+} from "../sessions/send-policy.js";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { theme } from "../terminal/theme.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "./gateway-rpc.js";
+
+type WithRule<T> = T & { rule?: SessionOutboundSendPolicyRule };
+
+type RoutingExplainResult = AgentRouteExplanation & {
+  sendPolicy: WithRule<SessionSendPolicyExplanation> & {
+    outbound: WithRule<OutboundSendPolicyResult>;
+  };
+};
+
+function parsePeer(raw: unknown, flag: string): RoutePeer | undefined {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return undefined;
+  }
+  const idx = raw.indexOf(":");
+  const kind = normalizeChatType(idx > 0 ? raw.slice(0, idx) : undefined);
+  const id = idx > 0 ? raw.slice(idx + 1).trim() : "";
+  if (!kind || !id) {
+    throw new Error(`${flag} must look like <direct|group|channel>:<id>`);
+  }
+  return { kind, id };
+}
+
+function parseAtMs(raw: unknown): number | undefined {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return undefined;
+  }
+  const ms = Date.parse(raw.trim());
+  if (!Number.isFinite(ms)) {
+    throw new Error("--at must be an ISO timestamp");
+  }
+  return ms;
+}
+
+function formatMatch(match: AgentRouteExplanation["bindings"][number]["match"]): string {
+  if (!match) {
+    return "(no match)";
+  }
+  const parts = [`channel=${match.channel ?? "?"}`];
+  if (match.accountId) {
+    parts.push(`account=${match.accountId}`);
+  }
+  if (match.peer) {
+    parts.push(`peer=${match.peer.kind}:${match.peer.id}`);
+  }
+  if (match.guildId) {
+    parts.push(`guild=${match.guildId}`);
+  }
+  if (match.teamId) {
+    parts.push(`team=${match.teamId}`);
+  }
+  if (match.time) {
+    parts.push(`time=${match.time.start}-${match.time.end}`);
+  }
+  if (match.message) {
+    parts.push("message=rule");
+  }
+  return parts.join(" ");
+}
+
+function formatDecision(decision: OutboundSendPolicyResult["decision"]): string {
+  if (decision === "deny") {
+    return theme.error("deny");
+  }
+  return decision === "hold" ? theme.warn("hold") : theme.success("allow");
+}
+
+function formatRule(ruleIndex: number | undefined, prefix = ""): string {
+  return ruleIndex === undefined ? "" : `${prefix}rule #${ruleIndex}`;
+}
+
+function formatExplanation(res: RoutingExplainResult): string {
+  const { route, sendPolicy } = res;
+  const { outbound } = sendPolicy;
+  const lines = [
+    `${theme.muted("Agent:")} ${theme.command(route.agentId)} ${theme.muted(`(${route.matchedBy})`)}`,
+    `${theme.muted("Session key:")} ${route.sessionKey}`,
+    `${theme.muted("Send policy:")} ${formatDecision(sendPolicy.decision)} ${theme.muted(
+      `(${sendPolicy.source}${formatRule(sendPolicy.ruleIndex, ", ")})`,
+    )}`,
+    `${theme.muted("Replies:")} ${formatDecision(outbound.decision)}${
+      outbound.ruleIndex !== undefined
+        ? ` ${theme.muted(`(${formatRule(outbound.ruleIndex)}${outbound.reason ? `: ${outbound.reason}` : ""})`)}`
+        : ""
+    }`,
+  ];
+  if (res.bindings.length === 0) {
+    lines.push(theme.muted("No bindings configured."));
+    return lines.join("\n");
+  }
+  lines.push("", theme.heading("Bindings"));
+  for (const entry of res.bindings) {
+    const marker = entry.selected
+      ? theme.success("✓")
+      : entry.matchedBy
+        ? theme.warn("~")
+        : theme.muted("·");
+    lines.push(
+      `${marker} #${entry.index} ${entry.agentId || "?"} ${theme.muted(formatMatch(entry.match))}`,
+      `    ${entry.selected ? entry.reason : theme.muted(entry.reason)}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function registerRoutingCli(program: Command) {
+  const routing = program
+    .command("routing")
+    .description("Inspect how inbound messages are routed to agents (via Gateway)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/routing", "docs.openclaw.ai/cli/routing")}\n`,
+    );
+
+  addGatewayClientOptions(
+    routing
+      .command("explain")
+      .description("Simulate an inbound message and show which binding wins and why")
+      .requiredOption("--channel <channel>", "Channel id (telegram, discord, slack, whatsapp, ...)")
+      .option("--account <id>", "Channel account id")
+      .option("--peer <kind:id>", "Sender/chat (direct:<id>, group:<id>, channel:<id>)")
+      .option("--parent-peer <kind:id>", "Parent chat for threads")
+      .option("--guild <id>", "Discord guild id")
+      .option("--team <id>", "Slack team id")
+      .option("--text <text>", "Message text (for message rule bindings)")
+      .option("--attachment <type...>", "Attachment MIME types or kinds (image, audio, ...)")
+      .option("--at <iso>", "Evaluate time-window bindings at this time")
+      .option("--json", "Output JSON", false)
+      .action(async (opts) => {
+        try {
+          const res = (await callGatewayFromCli("routing.explain", opts, {
+            channel: String(opts.channel),
+            accountId: typeof opts.account === "string" ? opts.account : undefined,
+            peer: parsePeer(opts.peer, "--peer"),
+            parentPeer: parsePeer(opts.parentPeer, "--parent-peer"),
+            guildId: typeof opts.guild === "string" ? opts.guild : undefined,
+            teamId: typeof opts.team === "string" ? opts.team : undefined,
+            text: typeof opts.text === "string" ? opts.text : undefined,
+            mediaTypes: Array.isArray(opts.attachment) ? (opts.attachment as string[]) : undefined,
+            atMs: parseAtMs(opts.at),
+          })) as RoutingExplainResult;
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(formatExplanation(res));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+}
@@ -1,5 +1,11 @@
 import type { Command } from "commander";
 import { sandboxExplainCommand } from "../commands/sandbox-explain.js";
+import {
+  sandboxSnapshotsCreateCommand,
+  sandboxSnapshotsDiffCommand,
+  sandboxSnapshotsListCommand,
+  sandboxSnapshotsRestoreCommand,
+} from "../commands/sandbox-snapshots.js";
 import { sandboxListCommand, sandboxRecreateCommand } from "../commands/sandbox.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
@@ -20,6 +26,7 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox recreate --session main", "Recreate a specific session."],
     ["openclaw sandbox recreate --agent mybot", "Recreate agent containers."],
     ["openclaw sandbox explain", "Explain effective sandbox config."],
+    ["openclaw sandbox snapshots", "List workspace snapshots."],
   ],
   list: [
     ["openclaw sandbox list", "List all sandbox containers."],
@@ -39,6 +46,13 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox explain --agent work", "Explain an agent sandbox."],
     ["openclaw sandbox explain --json", "JSON output."],
   ],
+  snapshots: [
+    ["openclaw sandbox snapshots list", "List snapshots for every sandbox."],
+    ["openclaw sandbox snapshots --agent work", "List snapshots for one agent."],
+    ["openclaw sandbox snapshots diff <id>", "Show what restoring a snapshot would change."],
+    ["openclaw sandbox snapshots restore <id>", "Restore a snapshot (undoable)."],
+    ["openclaw sandbox snapshots create --session agent:main:main", "Take a manual snapshot."],
+  ],
 } as const;
 
 function createRunner(
@@ -171,4 +185,70 @@ export function registerSandboxCli(program: Command) {
         ),
       ),
     );
+
+  // --- Snapshots Command ---
+
+  const snapshots = sandbox
+    .command("snapshots")
+    .description("List, diff and restore sandbox workspace snapshots")
+    .addHelpText(
+      "after",
+      () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(SANDBOX_EXAMPLES.snapshots)}\n`,
+    );
+
+  snapshots
+    .command("list", { isDefault: true })
+    .description("List snapshots per sandbox scope (newest first)")
+    .option("--session <key>", "Only show snapshots for this sandbox scope key")
+    .option("--agent <id>", "Only show snapshots for this agent (includes agent:id:* variants)")
+    .option("--json", "Output result as JSON", false)
+    .action(
+      createRunner((opts) =>
+        sandboxSnapshotsListCommand(
+          {
+            session: opts.session as string | undefined,
+            agent: opts.agent as string | undefined,
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        ),
+      ),
+    );
+
+  snapshots
+    .command("diff <id>")
+    .description("Show what restoring a snapshot would change")
+    .option("--json", "Output result as JSON", false)
+    .action((id: string, opts: CommandOptions) =>
+      createRunner((o) =>
+        sandboxSnapshotsDiffCommand({ id, json: Boolean(o.json) }, defaultRuntime),
+      )(opts),
+    );
+
+  snapshots
+    .command("restore <id>")
+    .description("Restore a snapshot into its workspace (takes an undo snapshot first)")
+    .option("--force", "Skip confirmation prompt", false)
+    .action((id: string, opts: CommandOptions) =>
+      createRunner((o) =>
+        sandboxSnapshotsRestoreCommand({ id, force: Boolean(o.force) }, defaultRuntime),
+      )(opts),
+    );
+
+  snapshots
+    .command("create")
+    .description("Take a manual snapshot of a sandbox workspace")
+    .option("--session <key>", "Session key to snapshot (defaults to agent main)")
+    .option("--agent <id>", "Agent id to snapshot")
+    .action(
+      createRunner((opts) =>
+        sandboxSnapshotsCreateCommand(
+          {
+            session: opts.session as string | undefined,
+            agent: opts.agent as string | undefined,
+          },
+          defaultRuntime,
+        ),
+      ),
+    );
 }
@@ -1,4 +1,5 @@
 import type { Command } from "commander";
+import type { HookDelivery } from "../gateway/hooks-queue.js";
 import { danger } from "../globals.js";
 import {
   type GmailRunOptions,
@@ -16,9 +17,47 @@ import {
   DEFAULT_GMAIL_SUBSCRIPTION,
   DEFAULT_GMAIL_TOPIC,
 } from "../hooks/gmail.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
 import { theme } from "../terminal/theme.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "./gateway-rpc.js";
+
+const DELIVERY_STATUSES = new Set(["running", "retrying", "ok", "error"]);
+
+function formatDeliveryStatus(entry: HookDelivery): string {
+  switch (entry.status) {
+    case "ok":
+      return theme.success("ok");
+    case "error":
+      return theme.error("error");
+    case "retrying":
+      return theme.warn("retrying");
+    default:
+      return theme.muted(entry.status);
+  }
+}
+
+function describeDeliveryTarget(entry: HookDelivery): string {
+  const dispatch = entry.dispatch;
+  if (dispatch.kind === "wake") {
+    return `wake (${dispatch.mode})`;
+  }
+  if (dispatch.kind === "workflow") {
+    return `workflow ${dispatch.workflow}`;
+  }
+  return `agent (${dispatch.name})`;
+}
+
+async function runWebhooksCommand(fn: () => Promise<void>) {
+  try {
+    await fn();
+  } catch (err) {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  }
+}
 
 export function registerWebhooksCli(program: Command) {
   const webhooks = program
@@ -102,6 +141,96 @@ export function registerWebhooksCli(program: Command) {
         defaultRuntime.exit(1);
       }
     });
+
+  addGatewayClientOptions(
+    webhooks
+      .command("deliveries")
+      .description("List recent inbound hook deliveries (via Gateway)")
+      .option("--status <status>", "Filter by status (running|retrying|ok|error)")
+      .option("--limit <n>", "Max deliveries to show", "20")
+      .option("--id <id>", "Show a single delivery with its payload")
+      .option("--json", "Output JSON", false)
+      .action(async (opts) => {
+        await runWebhooksCommand(async () => {
+          const status = stringOption(opts.status);
+          if (status && !DELIVERY_STATUSES.has(status)) {
+            throw new Error("--status must be one of running, retrying, ok, error");
+          }
+          const limit = Math.min(numberOption(opts.limit) ?? 20, 500);
+          const id = stringOption(opts.id);
+          const res = (await callGatewayFromCli("hooks.deliveries", opts, {
+            ...(id ? { id } : {}),
+            ...(status ? { status } : {}),
+            limit,
+          })) as { deliveries?: HookDelivery[] };
+          const deliveries = res.deliveries ?? [];
+          if (opts.json || id) {
+            defaultRuntime.log(JSON.stringify(id ? deliveries[0] : deliveries, null, 2));
+            return;
+          }
+          if (deliveries.length === 0) {
+            defaultRuntime.log(theme.muted("No hook deliveries."));
+            return;
+          }
+          const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+          defaultRuntime.log(
+            `${theme.heading("Deliveries")} ${theme.muted(`(${deliveries.length})`)}`,
+          );
+          defaultRuntime.log(
+            renderTable({
+              width: tableWidth,
+              columns: [
+                { key: "Id", header: "Id", minWidth: 10 },
+                { key: "Path", header: "Path", minWidth: 10 },
+                { key: "Target", header: "Target", minWidth: 12 },
+                { key: "Status", header: "Status", minWidth: 8 },
+                { key: "Attempts", header: "Tries", minWidth: 5 },
+                { key: "Age", header: "Age", minWidth: 8 },
+                { key: "Error", header: "Error", minWidth: 16, flex: true },
+              ],
+              rows: deliveries.map((entry) => ({
+                Id: entry.id,
+                Path: entry.mappingId ? `${entry.path} (${entry.mappingId})` : entry.path,
+                Target: describeDeliveryTarget(entry),
+                Status: formatDeliveryStatus(entry),
+                Attempts: String(entry.attempts),
+                Age: formatTimeAgo(Date.now() - entry.receivedAtMs),
+                Error: entry.lastError ?? "",
+              })),
+            }).trimEnd(),
+          );
+        });
+      }),
+  );
+
+  addGatewayClientOptions(
+    webhooks
+      .command("replay")
+      .description("Run a recorded hook delivery again (via Gateway)")
+      .argument("<id>", "Delivery id")
+      .option("--remap", "Re-apply the current hook mappings to the stored payload", false)
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts) => {
+        await runWebhooksCommand(async () => {
+          const res = (await callGatewayFromCli("hooks.replay", opts, {
+            id,
+            remap: Boolean(opts.remap),
+          })) as { delivery?: HookDelivery };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          const delivery = res.delivery;
+          defaultRuntime.log(
+            `${theme.success("Replayed")} ${theme.command(id)}${
+              delivery
+                ? theme.muted(` as ${delivery.id} → ${describeDeliveryTarget(delivery)}`)
+                : ""
+            }`,
+          );
+        });
+      }),
+  );
 }
 
 function parseGmailSetupOptions(raw: Record<string, unknown>): GmailSetupOptions {
@@ -196,6 +196,37 @@ describe("agentCommand", () => {
     });
   });
 
+  it("applies a per-call model without persisting it", async () => {
+    await withTempHome(async (home) => {
+      const store = path.join(home, "sessions.json");
+      mockConfig(home, store, {
+        models: {
+          "anthropic/claude-opus-4-5": {},
+          "openai/gpt-4.1-mini": {},
+        },
+      });
+      vi.mocked(loadModelCatalog).mockResolvedValue([
+        { id: "claude-opus-4-5", name: "Opus", provider: "anthropic" },
+        { id: "gpt-4.1-mini", name: "GPT-4.1 mini", provider: "openai" },
+      ]);
+
+      await agentCommand({ message: "hi", to: "+1555", model: "openai/gpt-4.1-mini" }, runtime);
+
+      const callArgs = vi.mocked(runEmbeddedPiAgent).mock.calls.at(-1)?.[0];
+      expect(callArgs?.provider).toBe("openai");
+      expect(callArgs?.model).toBe("gpt-4.1-mini");
+      const saved = JSON.parse(fs.readFileSync(store, "utf-8")) as Record<
+        string,
+        { modelOverride?: string }
+      >;
+      expect(Object.values(saved).every((entry) => !entry.modelOverride)).toBe(true);
+
+      await expect(
+        agentCommand({ message: "hi", to: "+1555", model: "openai/gpt-5" }, runtime),
+      ).rejects.toThrow('Model "openai/gpt-5" is not allowed.');
+    });
+  });
+
   it("keeps explicit sessionKey even when sessionId exists elsewhere", async () => {
     await withTempHome(async (home) => {
       const store = path.join(home, "sessions.json");
@@ -18,6 +18,7 @@ import {
   buildAllowedModelSet,
   isCliProvider,
   modelKey,
+  parseModelRef,
   resolveConfiguredModelRef,
   resolveThinkingDefault,
 } from "../agents/model-selection.js";
@@ -317,6 +318,19 @@ export async function agentCommand(
         model = storedModelOverride;
       }
     }
+    const callModelRef = opts.model ? parseModelRef(opts.model, defaultProvider) : null;
+    if (callModelRef) {
+      const key = modelKey(callModelRef.provider, callModelRef.model);
+      if (
+        !isCliProvider(callModelRef.provider, cfg) &&
+        allowedModelKeys.size > 0 &&
+        !allowedModelKeys.has(key)
+      ) {
+        throw new Error(`Model "${key}" is not allowed.`);
+      }
+      provider = callModelRef.provider;
+      model = callModelRef.model;
+    }
     if (sessionEntry) {
       const authProfileId = sessionEntry.authProfileOverride;
       if (authProfileId) {
@@ -34,6 +34,8 @@ export type AgentCommandOpts = {
   clientTools?: ClientToolDefinition[];
   /** Agent id override (must exist in config). */
   agentId?: string;
+  /** Model for this call only (`provider/model`); the session's model is left unchanged. */
+  model?: string;
   to?: string;
   sessionId?: string;
   sessionKey?: string;
@@ -7,7 +7,9 @@ import {
   DEFAULT_SANDBOX_BROWSER_IMAGE,
   DEFAULT_SANDBOX_COMMON_IMAGE,
   DEFAULT_SANDBOX_IMAGE,
+  resolveContainerCli,
   resolveSandboxScope,
+  type SandboxRuntimeKind,
 } from "../agents/sandbox.js";
 import { runCommandWithTimeout, runExec } from "../process/exec.js";
 import { note } from "../terminal/note.js";
@@ -62,9 +64,9 @@ async function runSandboxScript(scriptRel: string, runtime: RuntimeEnv): Promise
   return true;
 }
 
-async function isDockerAvailable(): Promise<boolean> {
+async function isDockerAvailable(runtime?: SandboxRuntimeKind): Promise<boolean> {
   try {
-    await runExec("docker", ["version", "--format", "{{.Server.Version}}"], {
+    await runExec(resolveContainerCli(runtime), ["version", "--format", "{{.Server.Version}}"], {
       timeoutMs: 5_000,
     });
     return true;
@@ -73,16 +75,16 @@ async function isDockerAvailable(): Promise<boolean> {
   }
 }
 
-async function dockerImageExists(image: string): Promise<boolean> {
+async function dockerImageExists(image: string, runtime?: SandboxRuntimeKind): Promise<boolean> {
   try {
-    await runExec("docker", ["image", "inspect", image], { timeoutMs: 5_000 });
+    await runExec(resolveContainerCli(runtime), ["image", "inspect", image], { timeoutMs: 5_000 });
     return true;
   } catch (error) {
     const stderr =
       (error as { stderr: string } | undefined)?.stderr ||
       (error as { message: string } | undefined)?.message ||
       "";
-    if (String(stderr).includes("No such image")) {
+    if (String(stderr).includes("No such image") || String(stderr).includes("image not known")) {
       return false;
     }
     throw error;
@@ -139,6 +141,7 @@ function updateSandboxBrowserImage(cfg: OpenClawConfig, image: string): OpenClaw
 
 type SandboxImageCheck = {
   kind: string;
+  runtime?: SandboxRuntimeKind;
   image: string;
   buildScript?: string;
   updateConfig: (image: string) => void;
@@ -149,7 +152,7 @@ async function handleMissingSandboxImage(
   runtime: RuntimeEnv,
   prompter: DoctorPrompter,
 ) {
-  const exists = await dockerImageExists(params.image);
+  const exists = await dockerImageExists(params.image, params.runtime);
   if (exists) {
     return;
   }
@@ -186,9 +189,20 @@ export async function maybeRepairSandboxImages(
     return cfg;
   }
 
-  const dockerAvailable = await isDockerAvailable();
+  const sandboxRuntime = sandbox.runtime ?? "docker";
+  if (sandboxRuntime === "bubblewrap") {
+    if (sandbox.browser?.enabled) {
+      note("Sandbox browser is not supported with runtime=bubblewrap.", "Sandbox");
+    }
+    return cfg;
+  }
+
+  const dockerAvailable = await isDockerAvailable(sandboxRuntime);
   if (!dockerAvailable) {
-    note("Docker not available; skipping sandbox image checks.", "Sandbox");
+    note(
+      `${sandboxRuntime === "podman" ? "Podman" : "Docker"} not available; skipping sandbox image checks.`,
+      "Sandbox",
+    );
     return cfg;
   }
 
@@ -199,6 +213,7 @@ export async function maybeRepairSandboxImages(
   await handleMissingSandboxImage(
     {
       kind: "base",
+      runtime: sandboxRuntime,
       image: dockerImage,
       buildScript:
         dockerImage === DEFAULT_SANDBOX_COMMON_IMAGE
@@ -219,6 +234,7 @@ export async function maybeRepairSandboxImages(
     await handleMissingSandboxImage(
       {
         kind: "browser",
+        runtime: sandboxRuntime,
         image: resolveSandboxBrowserImage(cfg),
         buildScript: "scripts/sandbox-browser-setup.sh",
         updateConfig: (image) => {
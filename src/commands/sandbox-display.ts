@@ -36,6 +36,7 @@ export function displayContainers(containers: SandboxContainerInfo[], runtime: R
         rt.log(`  ${container.containerName}`);
         rt.log(`    Status:  ${formatStatus(container.running)}`);
         rt.log(`    Image:   ${container.image} ${formatImageMatch(container.imageMatch)}`);
+        rt.log(`    Runtime: ${container.runtime ?? "docker"}`);
         rt.log(
           `    Age:     ${formatDurationCompact(Date.now() - container.createdAtMs, { spaced: true }) ?? "0s"}`,
         );
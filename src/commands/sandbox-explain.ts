@@ -2,7 +2,10 @@ import type { OpenClawConfig } from "../config/config.js";
 import type { RuntimeEnv } from "../runtime.js";
 import { resolveAgentConfig } from "../agents/agent-scope.js";
 import {
+  parseSandboxEgressAllowlist,
+  readSandboxEgressLog,
   resolveSandboxConfigForAgent,
+  resolveSandboxScopeKey,
   resolveSandboxToolPolicyForAgent,
 } from "../agents/sandbox.js";
 import { normalizeAnyChannelId } from "../channels/registry.js";
@@ -31,6 +34,7 @@ type SandboxExplainOptions = {
 };
 
 const SANDBOX_DOCS_URL = "https://docs.openclaw.ai/sandbox";
+const EGRESS_DENIALS_SHOWN = 10;
 
 function normalizeExplainSessionKey(params: {
   cfg: OpenClawConfig;
@@ -160,6 +164,16 @@ export async function sandboxExplainCommand(
         ? false
         : sessionKey.trim() !== mainSessionKey.trim();
 
+  const egressDenials = sandboxCfg.network
+    ? await readSandboxEgressLog({
+        sessionKey: resolveSandboxScopeKey(sandboxCfg.scope, sessionKey),
+        limit: EGRESS_DENIALS_SHOWN,
+      })
+    : [];
+  const egressInvalid = sandboxCfg.network
+    ? parseSandboxEgressAllowlist(sandboxCfg.network).invalid
+    : [];
+
   const channel = resolveActiveChannel({
     cfg,
     agentId: resolvedAgentId,
@@ -220,6 +234,10 @@ export async function sandboxExplainCommand(
     fixIt.push("agents.defaults.sandbox.mode=off");
     fixIt.push("agents.list[].sandbox.mode=off");
   }
+  if (egressDenials.length > 0) {
+    fixIt.push("agents.defaults.sandbox.network.allow");
+    fixIt.push("agents.list[].sandbox.network.allow");
+  }
   fixIt.push("tools.sandbox.tools.allow");
   fixIt.push("tools.sandbox.tools.deny");
   fixIt.push("agents.list[].tools.sandbox.tools.allow");
@@ -241,6 +259,13 @@ export async function sandboxExplainCommand(
       workspaceAccess: sandboxCfg.workspaceAccess,
       workspaceRoot: sandboxCfg.workspaceRoot,
       sessionIsSandboxed,
+      network: {
+        mode: sandboxCfg.network ? "allowlist" : "docker",
+        docker: sandboxCfg.docker.network,
+        allow: sandboxCfg.network?.allow ?? [],
+        invalid: egressInvalid,
+        recentDenials: egressDenials,
+      },
       tools: {
         allow: toolPolicy.allow,
         deny: toolPolicy.deny,
@@ -294,6 +319,28 @@ export async function sandboxExplainCommand(
     )} ${key("workspaceRoot:")} ${value(payload.sandbox.workspaceRoot)}`,
   );
   lines.push("");
+  lines.push(heading("Network egress:"));
+  if (payload.sandbox.network.mode === "allowlist") {
+    lines.push(
+      `  ${key("allow:")} ${value(payload.sandbox.network.allow.join(", "))} ${key("(via egress proxy)")}`,
+    );
+    if (payload.sandbox.network.invalid.length > 0) {
+      lines.push(`  ${key("invalid entries:")} ${err(payload.sandbox.network.invalid.join(", "))}`);
+    }
+    if (payload.sandbox.network.recentDenials.length === 0) {
+      lines.push(`  ${key("recent denials:")} ${ok("none")}`);
+    } else {
+      lines.push(`  ${key("recent denials:")}`);
+      for (const denial of payload.sandbox.network.recentDenials) {
+        lines.push(
+          `    ${key(new Date(denial.ts).toISOString())} ${warn(`${denial.host}:${denial.port}`)} ${key(denial.reason)}`,
+        );
+      }
+    }
+  } else {
+    lines.push(`  ${key("docker.network:")} ${value(payload.sandbox.network.docker ?? "none")}`);
+  }
+  lines.push("");
   lines.push(heading("Sandbox tool policy:"));
   lines.push(
     `  ${key(`allow (${payload.sandbox.tools.sources.allow.source}):`)} ${value(
@@ -0,0 +1,196 @@
+import { confirm as clackConfirm } from "@clack/prompts";
+import type { RuntimeEnv } from "../runtime.js";
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  createSandboxWorkspaceSnapshot,
+  diffSandboxWorkspaceSnapshot,
+  findSandboxWorkspaceSnapshot,
+  formatSandboxWorkspaceDiff,
+  listSandboxSnapshotScopes,
+  listSandboxWorkspaceSnapshots,
+  resolveSandboxSnapshotTarget,
+  restoreSandboxWorkspaceSnapshot,
+  type SandboxWorkspaceSnapshotSummary,
+} from "../agents/sandbox.js";
+import { loadConfig } from "../config/config.js";
+import { resolveAgentMainSessionKey } from "../config/sessions.js";
+import { formatDurationCompact } from "../infra/format-time/format-duration.ts";
+import { normalizeAgentId, resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+
+// --- Types ---
+
+type SandboxSnapshotsListOptions = {
+  session?: string;
+  agent?: string;
+  json: boolean;
+};
+
+type SandboxSnapshotsDiffOptions = {
+  id: string;
+  json: boolean;
+};
+
+type SandboxSnapshotsRestoreOptions = {
+  id: string;
+  force: boolean;
+};
+
+type SandboxSnapshotsCreateOptions = {
+  session?: string;
+  agent?: string;
+};
+
+// --- List Command ---
+
+function matchesScope(scopeKey: string, opts: SandboxSnapshotsListOptions): boolean {
+  if (opts.session) {
+    return scopeKey === opts.session;
+  }
+  if (opts.agent) {
+    const agentPrefix = `agent:${normalizeAgentId(opts.agent)}`;
+    return scopeKey === agentPrefix || scopeKey.startsWith(`${agentPrefix}:`);
+  }
+  return true;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function sandboxSnapshotsListCommand(
+  opts: SandboxSnapshotsListOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const scopes = (await listSandboxSnapshotScopes()).filter((scopeKey) =>
+    matchesScope(scopeKey, opts),
+  );
+  const groups: Array<{ scopeKey: string; snapshots: SandboxWorkspaceSnapshotSummary[] }> = [];
+  for (const scopeKey of scopes) {
+    groups.push({ scopeKey, snapshots: await listSandboxWorkspaceSnapshots(scopeKey) });
+  }
+
+  if (opts.json) {
+    runtime.log(JSON.stringify({ scopes: groups }, null, 2));
+    return;
+  }
+  if (groups.length === 0) {
+    runtime.log("No sandbox snapshots found.");
+    return;
+  }
+
+  runtime.log("\n📸 Sandbox Snapshots:\n");
+  for (const group of groups) {
+    runtime.log(`  ${group.scopeKey}`);
+    for (const snapshot of group.snapshots) {
+      const age =
+        formatDurationCompact(Date.now() - snapshot.createdAtMs, { spaced: true }) ?? "0s";
+      runtime.log(
+        `    ${snapshot.id}  ${snapshot.reason.padEnd(12)} ${age.padEnd(8)} ${snapshot.fileCount} files, ${formatSize(snapshot.totalBytes)}`,
+      );
+    }
+    runtime.log("");
+  }
+}
+
+// --- Diff Command ---
+
+async function requireSnapshot(id: string, runtime: RuntimeEnv) {
+  const snapshot = await findSandboxWorkspaceSnapshot(id);
+  if (!snapshot) {
+    runtime.error(`Snapshot not found: ${id}`);
+    runtime.exit(1);
+  }
+  return snapshot;
+}
+
+export async function sandboxSnapshotsDiffCommand(
+  opts: SandboxSnapshotsDiffOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const snapshot = await requireSnapshot(opts.id, runtime);
+  if (!snapshot) {
+    return;
+  }
+  const diff = await diffSandboxWorkspaceSnapshot(snapshot);
+  if (opts.json) {
+    runtime.log(JSON.stringify({ id: snapshot.id, scopeKey: snapshot.scopeKey, ...diff }, null, 2));
+    return;
+  }
+  runtime.log(`Restoring ${snapshot.id} (${snapshot.scopeKey}) would change:`);
+  runtime.log(formatSandboxWorkspaceDiff(diff, Number.POSITIVE_INFINITY));
+}
+
+// --- Restore Command ---
+
+export async function sandboxSnapshotsRestoreCommand(
+  opts: SandboxSnapshotsRestoreOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const snapshot = await requireSnapshot(opts.id, runtime);
+  if (!snapshot) {
+    return;
+  }
+  const diff = await diffSandboxWorkspaceSnapshot(snapshot);
+  runtime.log(`Restoring ${snapshot.id} into ${snapshot.workspaceDir}:`);
+  runtime.log(formatSandboxWorkspaceDiff(diff));
+  if (diff.added.length + diff.removed.length + diff.modified.length === 0) {
+    return;
+  }
+  if (!opts.force && !(await confirmRestore())) {
+    runtime.log("Cancelled.");
+    return;
+  }
+  const result = await restoreSandboxWorkspaceSnapshot(snapshot);
+  runtime.log(`\n✓ Restored ${snapshot.id}.`);
+  if (result.undoSnapshotId) {
+    runtime.log(`Undo with: openclaw sandbox snapshots restore ${result.undoSnapshotId}`);
+  }
+}
+
+async function confirmRestore(): Promise<boolean> {
+  const result = await clackConfirm({
+    message: "This will overwrite files in the sandbox workspace. Continue?",
+    initialValue: false,
+  });
+
+  return result !== false && result !== Symbol.for("clack:cancel");
+}
+
+// --- Create Command ---
+
+export async function sandboxSnapshotsCreateCommand(
+  opts: SandboxSnapshotsCreateOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const cfg = loadConfig();
+  const agentId = normalizeAgentId(
+    opts.agent ?? (opts.session ? resolveAgentIdFromSessionKey(opts.session) : undefined),
+  );
+  const sessionKey = opts.session?.trim() || resolveAgentMainSessionKey({ cfg, agentId });
+  const target = await resolveSandboxSnapshotTarget({
+    config: cfg,
+    sessionKey,
+    workspaceDir: resolveAgentWorkspaceDir(cfg, agentId),
+  });
+  if (!target) {
+    runtime.error(`Session ${sessionKey} is not sandboxed.`);
+    runtime.exit(1);
+    return;
+  }
+  const snapshot = await createSandboxWorkspaceSnapshot({
+    scopeKey: target.scopeKey,
+    workspaceDir: target.workspaceDir,
+    reason: "manual",
+  });
+  if (snapshot) {
+    runtime.log(
+      `✓ Snapshot ${snapshot.id} (${target.scopeKey}, ${Object.keys(snapshot.files).length} files)`,
+    );
+  }
+}
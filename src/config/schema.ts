@@ -133,6 +133,7 @@ const FIELD_LABELS: Record<string, string> = {
   "gateway.remote.tlsFingerprint": "Remote Gateway TLS Fingerprint",
   "gateway.auth.token": "Gateway Token",
   "gateway.auth.password": "Gateway Password",
+  "gateway.roles": "Gateway Roles",
   "tools.media.image.enabled": "Enable Image Understanding",
   "tools.media.image.maxBytes": "Image Understanding Max Bytes",
   "tools.media.image.maxChars": "Image Understanding Max Chars",
@@ -254,6 +255,14 @@ const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.textWeight": "Memory Search Text Weight",
   "agents.defaults.memorySearch.query.hybrid.candidateMultiplier":
     "Memory Search Hybrid Candidate Multiplier",
+  "agents.defaults.memorySearch.query.rerank.provider": "Memory Search Rerank Provider",
+  "agents.defaults.memorySearch.query.rerank.model": "Memory Search Rerank Model",
+  "agents.defaults.memorySearch.query.recency.halfLifeDays.memory":
+    "Memory File Recency Half-Life (days)",
+  "agents.defaults.memorySearch.query.recency.halfLifeDays.sessions":
+    "Session Transcript Recency Half-Life (days)",
+  "agents.defaults.memorySearch.query.mmr.enabled": "Memory Search MMR Diversity",
+  "agents.defaults.memorySearch.query.mmr.lambda": "Memory Search MMR Lambda",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
@@ -292,6 +301,9 @@ const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.model.fallbacks": "Model Fallbacks",
   "agents.defaults.imageModel.primary": "Image Model",
   "agents.defaults.imageModel.fallbacks": "Image Model Fallbacks",
+  "agents.defaults.modelRouting.mode": "Model Routing Mode",
+  "agents.defaults.modelRouting.circuitBreaker.failureThreshold": "Circuit Breaker Threshold",
+  "agents.defaults.modelRouting.circuitBreaker.cooldownSeconds": "Circuit Breaker Cooldown (sec)",
   "agents.defaults.humanDelay.mode": "Human Delay Mode",
   "agents.defaults.humanDelay.minMs": "Human Delay Min (ms)",
   "agents.defaults.humanDelay.maxMs": "Human Delay Max (ms)",
@@ -418,6 +430,8 @@ const FIELD_HELP: Record<string, string> = {
   "gateway.auth.token":
     "Required by default for gateway access (unless using Tailscale Serve identity); required for non-loopback binds.",
   "gateway.auth.password": "Required for Tailscale funnel.",
+  "gateway.roles":
+    "Named access roles for scoped tokens minted with `openclaw gateway tokens create` (methods, agents, sessions, events).",
   "gateway.controlUi.basePath":
     "Optional URL prefix where the Control UI is served (e.g. /openclaw).",
   "gateway.controlUi.root":
@@ -581,6 +595,18 @@ const FIELD_HELP: Record<string, string> = {
     "Weight for BM25 text relevance when merging results (0-1).",
   "agents.defaults.memorySearch.query.hybrid.candidateMultiplier":
     "Multiplier for candidate pool size (default: 4).",
+  "agents.defaults.memorySearch.query.rerank.provider":
+    'Rerank merged candidates with "voyage", an "http" /rerank endpoint, or a "local" cross-encoder (default: "none").',
+  "agents.defaults.memorySearch.query.rerank.model":
+    "Rerank model id (remote) or GGUF path/hf: URI (local).",
+  "agents.defaults.memorySearch.query.recency.halfLifeDays.memory":
+    "Half-life in days for memory file hits; 0 disables recency decay (default: 0).",
+  "agents.defaults.memorySearch.query.recency.halfLifeDays.sessions":
+    "Half-life in days for session transcript hits, aged by message time; 0 disables recency decay (default: 0).",
+  "agents.defaults.memorySearch.query.mmr.enabled":
+    "Diversify results with maximal marginal relevance to drop near-duplicate chunks (default: false).",
+  "agents.defaults.memorySearch.query.mmr.lambda":
+    "MMR relevance vs diversity tradeoff; 1 = pure relevance (default: 0.7).",
   "agents.defaults.memorySearch.cache.enabled":
     "Cache chunk embeddings in SQLite to speed up reindexing and frequent updates (default: true).",
   memory: "Memory backend configuration (global).",
@@ -656,6 +682,12 @@ const FIELD_HELP: Record<string, string> = {
   "agents.defaults.imageModel.primary":
     "Optional image model (provider/model) used when the primary model lacks image input.",
   "agents.defaults.imageModel.fallbacks": "Ordered fallback image models (provider/model).",
+  "agents.defaults.modelRouting.mode":
+    'How model candidates are ordered: "ordered" (primary, then fallbacks), "cheapest-healthy", "fastest" (observed p50 latency), or "weighted".',
+  "agents.defaults.modelRouting.circuitBreaker.failureThreshold":
+    "Provider-side failures (rate limit, timeout, server error) within windowSeconds that disable a provider for all sessions.",
+  "agents.defaults.modelRouting.circuitBreaker.cooldownSeconds":
+    "How long a disabled provider is skipped before a single probe request is allowed.",
   "agents.defaults.cliBackends": "Optional CLI backends for text-only fallback (claude-cli, etc.).",
   "agents.defaults.humanDelay.mode": 'Delay style for block replies ("off", "natural", "custom").',
   "agents.defaults.humanDelay.minMs": "Minimum delay in ms for custom humanDelay (default: 800).",
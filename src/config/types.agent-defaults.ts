@@ -8,7 +8,9 @@ import type {
 import type {
   SandboxBrowserSettings,
   SandboxDockerSettings,
+  SandboxNetworkSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 import type { MemorySearchConfig } from "./types.tools.js";
 
@@ -25,6 +27,32 @@ export type AgentModelListConfig = {
   fallbacks?: string[];
 };
 
+export type ModelRoutingMode = "ordered" | "cheapest-healthy" | "fastest" | "weighted";
+
+export type AgentModelRoutingConfig = {
+  /** How fallback candidates are ordered (default: ordered = primary, then fallbacks). */
+  mode?: ModelRoutingMode;
+  /** Relative weights for mode "weighted" (defaults: latency 1, errorRate 2, cost 1). */
+  weights?: {
+    latency?: number;
+    errorRate?: number;
+    cost?: number;
+  };
+  /** Error rate (0-1) above which a model counts as unhealthy (default: 0.5). */
+  maxErrorRate?: number;
+  /** Skip a provider for every session after repeated provider-side failures. */
+  circuitBreaker?: {
+    /** Default: true when the block is present. */
+    enabled?: boolean;
+    /** Failures (rate limit, timeout, server error) within the window that open the circuit (default: 5). */
+    failureThreshold?: number;
+    /** Window for counting failures (default: 60). */
+    windowSeconds?: number;
+    /** How long the provider is skipped before a probe request (default: 300). */
+    cooldownSeconds?: number;
+  };
+};
+
 export type AgentContextPruningConfig = {
   mode?: "off" | "cache-ttl";
   /** TTL to consider cache expired (duration string, default unit: minutes). */
@@ -98,6 +126,8 @@ export type AgentDefaultsConfig = {
   model?: AgentModelListConfig;
   /** Optional image-capable model and fallbacks (provider/model). */
   imageModel?: AgentModelListConfig;
+  /** Latency/cost-aware ordering of model fallbacks plus a per-provider circuit breaker. */
+  modelRouting?: AgentModelRoutingConfig;
   /** Model catalog with optional aliases (full provider/model keys). */
   models?: Record<string, AgentModelEntryConfig>;
   /** Agent working directory (preferred). Used as the default cwd for agent runs. */
@@ -234,10 +264,20 @@ export type AgentDefaultsConfig = {
     perSession?: boolean;
     /** Root directory for sandbox workspaces. */
     workspaceRoot?: string;
+    /**
+     * Container runtime used for sandboxes (default: docker).
+     * - "docker" / "podman": OCI containers created from `docker.*` settings (podman may run rootless)
+     * - "bubblewrap": daemonless namespace sandbox (`bwrap`) over the host's /usr, /etc and libraries
+     */
+    runtime?: "docker" | "podman" | "bubblewrap";
     /** Docker-specific sandbox settings. */
     docker?: SandboxDockerSettings;
     /** Optional sandboxed browser settings. */
     browser?: SandboxBrowserSettings;
+    /** Outbound network policy (egress allowlist). */
+    network?: SandboxNetworkSettings;
+    /** Workspace snapshots for `/rollback` (pruned with the sandbox prune rules). */
+    snapshots?: SandboxSnapshotSettings;
     /** Auto-prune sandbox containers. */
     prune?: SandboxPruneSettings;
   };
@@ -5,7 +5,9 @@ import type { GroupChatConfig } from "./types.messages.js";
 import type {
   SandboxBrowserSettings,
   SandboxDockerSettings,
+  SandboxNetworkSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 import type { AgentToolsConfig, MemorySearchConfig } from "./types.tools.js";
 
@@ -55,10 +57,16 @@ export type AgentConfig = {
     /** Legacy alias for scope ("session" when true, "shared" when false). */
     perSession?: boolean;
     workspaceRoot?: string;
+    /** Container runtime override for this agent (ignored when scope is "shared"). */
+    runtime?: "docker" | "podman" | "bubblewrap";
     /** Docker-specific sandbox overrides for this agent. */
     docker?: SandboxDockerSettings;
     /** Optional sandboxed browser overrides for this agent. */
     browser?: SandboxBrowserSettings;
+    /** Egress allowlist entries for this agent (merged with the defaults). */
+    network?: SandboxNetworkSettings;
+    /** Workspace snapshot overrides for this agent. */
+    snapshots?: SandboxSnapshotSettings;
     /** Auto-prune overrides for this agent. */
     prune?: SandboxPruneSettings;
   };
@@ -70,6 +78,26 @@ export type AgentsConfig = {
   list?: AgentConfig[];
 };
 
+export type AgentBindingTimeWindow = {
+  /** Local start time (HH:MM, inclusive). */
+  start: string;
+  /** Local end time (HH:MM, exclusive; "24:00" allowed). Windows may wrap past midnight. */
+  end: string;
+  /** Weekdays the window starts on (0 = Sunday). Default: every day. */
+  days?: number[];
+  /** IANA timezone; defaults to agents.defaults.userTimezone, then the host timezone. */
+  timezone?: string;
+};
+
+export type AgentBindingMessageMatch = {
+  /** Case-insensitive regular expression tested against the inbound text. */
+  pattern?: string;
+  /** Matches when the text contains any of these words or phrases (case-insensitive). */
+  keywords?: string[];
+  /** Attachment kinds: "any", "image", "audio", "video", "document", or a MIME type/prefix. */
+  attachments?: string[];
+};
+
 export type AgentBinding = {
   agentId: string;
   match: {
@@ -78,5 +106,9 @@ export type AgentBinding = {
     peer?: { kind: ChatType; id: string };
     guildId?: string;
     teamId?: string;
+    /** Only match inside this local time window. */
+    time?: AgentBindingTimeWindow;
+    /** Only match inbound messages satisfying every listed predicate. */
+    message?: AgentBindingMessageMatch;
   };
 };
@@ -62,6 +62,55 @@ export type SessionSendPolicyConfig = {
   rules?: SessionSendPolicyRule[];
 };
 
+/** What happens to an outbound message that trips a rate limit or quiet hours. */
+export type SessionSendPolicyLimitAction = "deny" | "hold";
+export type SessionSendPolicyRateLimit = {
+  /** Max outbound messages per window. */
+  max: number;
+  windowSeconds: number;
+  /** Count per session (default) or per channel account. */
+  per?: "session" | "channel";
+  /** Default: "hold". */
+  action?: SessionSendPolicyLimitAction;
+};
+export type SessionSendPolicyQuietHours = {
+  /** Local start time (HH:MM, inclusive). */
+  start: string;
+  /** Local end time (HH:MM, exclusive). Windows may wrap past midnight. */
+  end: string;
+  /** Weekdays the quiet window starts on (0 = Sunday). Default: every day. */
+  days?: number[];
+  /**
+   * IANA timezone for recipients without a `recipientTimezones` entry; defaults to
+   * agents.defaults.userTimezone, then the host timezone.
+   */
+  timezone?: string;
+  /** Default: "hold". */
+  action?: SessionSendPolicyLimitAction;
+};
+export type SessionOutboundSendPolicyRule = {
+  /** "hold" queues matching outbound messages for operator approval. Omit for limit-only rules. */
+  action?: SessionSendPolicyAction | "hold";
+  match?: SessionSendPolicyMatch;
+  rateLimit?: SessionSendPolicyRateLimit;
+  quietHours?: SessionSendPolicyQuietHours;
+};
+export type SessionOutboundSendPolicyConfig = {
+  default?: SessionSendPolicyAction;
+  rules?: SessionOutboundSendPolicyRule[];
+  /**
+   * Recipient IANA timezones for quiet hours, keyed by `<channel>:<to>` or `<to>`
+   * (e.g. `"telegram:123": "Europe/Berlin"`). Overrides `quietHours.timezone`.
+   */
+  recipientTimezones?: Record<string, string>;
+  hold?: {
+    /** Drop held messages older than this (default: 72). */
+    ttlHours?: number;
+    /** Max held messages kept; oldest are dropped first (default: 500). */
+    maxEntries?: number;
+  };
+};
+
 export type SessionResetMode = "daily" | "idle";
 export type SessionResetConfig = {
   mode?: SessionResetMode;
@@ -94,7 +143,7 @@ export type SessionConfig = {
   typingIntervalSeconds?: number;
   typingMode?: TypingMode;
   mainKey?: string;
-  sendPolicy?: SessionSendPolicyConfig;
+  sendPolicy?: SessionOutboundSendPolicyConfig;
   agentToAgent?: {
     /** Max ping-pong turns between requester/target (0–5). Default: 5. */
     maxPingPongTurns?: number;
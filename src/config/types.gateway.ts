@@ -126,7 +126,8 @@ export type GatewayReloadConfig = {
 
 export type GatewayHttpChatCompletionsConfig = {
   /**
-   * If false, the Gateway will not serve `POST /v1/chat/completions`.
+   * If false, the Gateway will not serve `POST /v1/chat/completions`,
+   * `GET /v1/models` or `POST /v1/embeddings`.
    * Default: false when absent.
    */
   enabled?: boolean;
@@ -211,6 +212,23 @@ export type GatewayNodesConfig = {
   denyCommands?: string[];
 };
 
+export type GatewayRoleConfig = {
+  description?: string;
+  /**
+   * Methods the role may call: exact names ("chat.send"), families ("sessions.*"), "*",
+   * or scope names ("operator.read", "operator.write", ...) for the built-in method groups.
+   */
+  methods?: string[];
+  /** Methods always denied, even when `methods` allows them. */
+  denyMethods?: string[];
+  /** Agent ids the role may act on (default: all). */
+  agents?: string[];
+  /** Session key patterns (e.g. "agent:support:*") the role may act on (default: all). */
+  sessions?: string[];
+  /** Event name patterns delivered to the client (default: all events its methods allow). */
+  events?: string[];
+};
+
 export type GatewayConfig = {
   /** Single multiplexed port for Gateway WS + HTTP (default: 18789). */
   port?: number;
@@ -233,6 +251,8 @@ export type GatewayConfig = {
   customBindHost?: string;
   controlUi?: GatewayControlUiConfig;
   auth?: GatewayAuthConfig;
+  /** Named roles for scoped tokens minted with `openclaw gateway tokens create`. */
+  roles?: Record<string, GatewayRoleConfig>;
   tailscale?: GatewayTailscaleConfig;
   remote?: GatewayRemoteConfig;
   reload?: GatewayReloadConfig;
@@ -8,10 +8,34 @@ export type HookMappingTransform = {
   export?: string;
 };
 
+/**
+ * HMAC-SHA256 request signing for providers that cannot send the hook token.
+ * A valid signature authenticates the request in place of `hooks.token`.
+ */
+export type HookSignatureConfig = {
+  /** Shared signing secret configured on the provider side. */
+  secret: string;
+  /** Header carrying the signature (default: `x-openclaw-signature`, or the preset's header). */
+  header?: string;
+  /** Prefix stripped from the header value before comparing (e.g. `sha256=`). */
+  prefix?: string;
+  encoding?: "hex" | "base64";
+  /** Header with the signing time (seconds or ms since epoch); enables the tolerance check. */
+  timestampHeader?: string;
+  /** Maximum age of a signed request (default: 300). */
+  toleranceSeconds?: number;
+  /** What gets signed; `{body}` is the raw body and `{timestamp}` the timestamp (default: `{body}`). */
+  signedPayload?: string;
+  /** Header with a unique delivery id used for replay protection (default: the signature). */
+  deliveryHeader?: string;
+};
+
 export type HookMappingConfig = {
   id?: string;
+  /** Built-in provider mapping to start from (github, stripe, linear, gmail). */
+  preset?: string;
   match?: HookMappingMatch;
-  action?: "wake" | "agent";
+  action?: "wake" | "agent" | "workflow";
   wakeMode?: "now" | "next-heartbeat";
   name?: string;
   sessionKey?: string;
@@ -35,7 +59,12 @@ export type HookMappingConfig = {
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
+  /** Workspace workflow to start when `action` is "workflow" (templated). */
+  workflow?: string;
+  /** Workflow inputs; values are templated against the hook payload. */
+  workflowInputs?: Record<string, string>;
   transform?: HookMappingTransform;
+  signature?: HookSignatureConfig;
 };
 
 export type HooksGmailTailscaleMode = "off" | "serve" | "funnel";
@@ -110,6 +139,15 @@ export type InternalHooksConfig = {
   installs?: Record<string, HookInstallRecord>;
 };
 
+export type HookDeliveriesConfig = {
+  /** Runs per delivery before it is marked failed, including the first (default: 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry; later retries back off 4x (default: 30). */
+  retryDelaySeconds?: number;
+  /** Recent deliveries kept for `openclaw webhooks deliveries` and replay (default: 200). */
+  keep?: number;
+};
+
 export type HooksConfig = {
   enabled?: boolean;
   path?: string;
@@ -118,6 +156,8 @@ export type HooksConfig = {
   presets?: string[];
   transformsDir?: string;
   mappings?: HookMappingConfig[];
+  /** Persisted inbound queue: retries failed runs and keeps recent deliveries for replay. */
+  deliveries?: HookDeliveriesConfig;
   gmail?: HooksGmailConfig;
   /** Internal agent event hooks */
   internal?: InternalHooksConfig;
@@ -73,3 +73,19 @@ export type SandboxPruneSettings = {
   /** Prune if older than N days (0 disables). */
   maxAgeDays?: number;
 };
+
+export type SandboxNetworkSettings = {
+  /**
+   * Egress allowlist enforced by a per-sandbox filtering proxy (docker/podman only).
+   * Entries are domains (`api.github.com`), wildcards (`*.npmjs.org`, `*` = any public host)
+   * or CIDRs (`10.20.0.0/16`). Private/internal addresses stay blocked unless a CIDR or an
+   * exact hostname entry covers them. When set, the container joins an internal network and
+   * `docker.network` is ignored.
+   */
+  allow?: string[];
+};
+
+export type SandboxSnapshotSettings = {
+  /** Snapshot the sandbox workspace before each agent run (default: true). */
+  auto?: boolean;
+};
@@ -195,6 +195,21 @@ export type ExecToolConfig = {
   };
 };
 
+export type ToolQuotaLimits = {
+  /** Max calls within one agent run. */
+  perRun?: number;
+  /** Max calls within one session (until the Gateway restarts). */
+  perSession?: number;
+  /** Max calls per agent per local calendar day. */
+  perDay?: number;
+};
+
+/**
+ * Usage budgets keyed by tool name, `group:*`, or `tool.action` (e.g. `browser.navigate`
+ * counts only browser calls with that action).
+ */
+export type ToolQuotasConfig = Record<string, ToolQuotaLimits>;
+
 export type AgentToolsConfig = {
   /** Base tool profile applied before allow/deny lists. */
   profile?: ToolProfileId;
@@ -204,6 +219,8 @@ export type AgentToolsConfig = {
   deny?: string[];
   /** Optional tool policy overrides keyed by provider id or "provider/model". */
   byProvider?: Record<string, ToolPolicyConfig>;
+  /** Per-tool usage budgets (agent entries replace global entries with the same key). */
+  quotas?: ToolQuotasConfig;
   /** Per-agent elevated exec gate (can only further restrict global tools.elevated). */
   elevated?: {
     /** Enable or disable elevated mode for this agent (default: true). */
@@ -313,6 +330,39 @@ export type MemorySearchConfig = {
       /** Multiplier for candidate pool size (default: 4). */
       candidateMultiplier?: number;
     };
+    /** Optional rerank stage applied to merged candidates. */
+    rerank?: {
+      /** Rerank provider (default: "none"). */
+      provider?: "none" | "voyage" | "http" | "local";
+      /** Rerank model id (remote) or GGUF path/hf: URI (local). */
+      model?: string;
+      /** Endpoint settings; "http" posts to `${baseUrl}/rerank`. */
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+      /** Local cross-encoder settings (node-llama-cpp). */
+      local?: {
+        modelPath?: string;
+        modelCacheDir?: string;
+      };
+    };
+    /** Recency weighting by chunk age (score *= 0.5 ^ (ageDays / halfLifeDays)). */
+    recency?: {
+      /** Half-life in days per source; 0 disables decay (default: 0 for both, i.e. off). */
+      halfLifeDays?: {
+        memory?: number;
+        sessions?: number;
+      };
+    };
+    /** Maximal marginal relevance diversity (drops near-duplicate chunks). */
+    mmr?: {
+      /** Enable MMR selection (default: false). */
+      enabled?: boolean;
+      /** Relevance vs diversity tradeoff, 1 = pure relevance (0-1, default: 0.7). */
+      lambda?: number;
+    };
   };
   /** Index cache behavior. */
   cache?: {
@@ -332,6 +382,8 @@ export type ToolsConfig = {
   deny?: string[];
   /** Optional tool policy overrides keyed by provider id or "provider/model". */
   byProvider?: Record<string, ToolPolicyConfig>;
+  /** Per-tool usage budgets (agent entries replace global entries with the same key). */
+  quotas?: ToolQuotasConfig;
   web?: {
     search?: {
       /** Enable web search tool (default: true when API key is present). */
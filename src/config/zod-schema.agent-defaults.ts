@@ -4,7 +4,9 @@ import {
   MemorySearchSchema,
   SandboxBrowserSchema,
   SandboxDockerSchema,
+  SandboxNetworkSchema,
   SandboxPruneSchema,
+  SandboxSnapshotsSchema,
 } from "./zod-schema.agent-runtime.js";
 import {
   BlockStreamingChunkSchema,
@@ -29,6 +31,37 @@ export const AgentDefaultsSchema = z
       })
       .strict()
       .optional(),
+    modelRouting: z
+      .object({
+        mode: z
+          .union([
+            z.literal("ordered"),
+            z.literal("cheapest-healthy"),
+            z.literal("fastest"),
+            z.literal("weighted"),
+          ])
+          .optional(),
+        weights: z
+          .object({
+            latency: z.number().nonnegative().optional(),
+            errorRate: z.number().nonnegative().optional(),
+            cost: z.number().nonnegative().optional(),
+          })
+          .strict()
+          .optional(),
+        maxErrorRate: z.number().min(0).max(1).optional(),
+        circuitBreaker: z
+          .object({
+            enabled: z.boolean().optional(),
+            failureThreshold: z.number().int().positive().optional(),
+            windowSeconds: z.number().positive().optional(),
+            cooldownSeconds: z.number().positive().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
     models: z
       .record(
         z.string(),
@@ -164,8 +197,13 @@ export const AgentDefaultsSchema = z
         scope: z.union([z.literal("session"), z.literal("agent"), z.literal("shared")]).optional(),
         perSession: z.boolean().optional(),
         workspaceRoot: z.string().optional(),
+        runtime: z
+          .union([z.literal("docker"), z.literal("podman"), z.literal("bubblewrap")])
+          .optional(),
         docker: SandboxDockerSchema,
         browser: SandboxBrowserSchema,
+        network: SandboxNetworkSchema,
+        snapshots: SandboxSnapshotsSchema,
         prune: SandboxPruneSchema,
       })
       .strict()
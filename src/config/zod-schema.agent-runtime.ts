@@ -150,6 +150,20 @@ export const SandboxPruneSchema = z
   .strict()
   .optional();
 
+export const SandboxNetworkSchema = z
+  .object({
+    allow: z.array(z.string()).optional(),
+  })
+  .strict()
+  .optional();
+
+export const SandboxSnapshotsSchema = z
+  .object({
+    auto: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolPolicyBaseSchema = z
   .object({
     allow: z.array(z.string()).optional(),
@@ -239,6 +253,21 @@ export const ToolPolicyWithProfileSchema = z
     }
   });
 
+const ToolQuotaCountSchema = z.number().int().nonnegative().optional();
+
+export const ToolQuotasSchema = z
+  .record(
+    z.string(),
+    z
+      .object({
+        perRun: ToolQuotaCountSchema,
+        perSession: ToolQuotaCountSchema,
+        perDay: ToolQuotaCountSchema,
+      })
+      .strict(),
+  )
+  .optional();
+
 // Provider docking: allowlists keyed by provider id (no schema updates when adding providers).
 export const ElevatedAllowFromSchema = z
   .record(z.string(), z.array(z.union([z.string(), z.number()])))
@@ -252,8 +281,13 @@ export const AgentSandboxSchema = z
     scope: z.union([z.literal("session"), z.literal("agent"), z.literal("shared")]).optional(),
     perSession: z.boolean().optional(),
     workspaceRoot: z.string().optional(),
+    runtime: z
+      .union([z.literal("docker"), z.literal("podman"), z.literal("bubblewrap")])
+      .optional(),
     docker: SandboxDockerSchema,
     browser: SandboxBrowserSchema,
+    network: SandboxNetworkSchema,
+    snapshots: SandboxSnapshotsSchema,
     prune: SandboxPruneSchema,
   })
   .strict()
@@ -266,6 +300,7 @@ export const AgentToolsSchema = z
     alsoAllow: z.array(z.string()).optional(),
     deny: z.array(z.string()).optional(),
     byProvider: z.record(z.string(), ToolPolicyWithProfileSchema).optional(),
+    quotas: ToolQuotasSchema,
     elevated: z
       .object({
         enabled: z.boolean().optional(),
@@ -415,6 +450,54 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        rerank: z
+          .object({
+            provider: z
+              .union([
+                z.literal("none"),
+                z.literal("voyage"),
+                z.literal("http"),
+                z.literal("local"),
+              ])
+              .optional(),
+            model: z.string().optional(),
+            remote: z
+              .object({
+                baseUrl: z.string().optional(),
+                apiKey: z.string().optional(),
+                headers: z.record(z.string(), z.string()).optional(),
+              })
+              .strict()
+              .optional(),
+            local: z
+              .object({
+                modelPath: z.string().optional(),
+                modelCacheDir: z.string().optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
+        recency: z
+          .object({
+            halfLifeDays: z
+              .object({
+                memory: z.number().nonnegative().optional(),
+                sessions: z.number().nonnegative().optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
+        mmr: z
+          .object({
+            enabled: z.boolean().optional(),
+            lambda: z.number().min(0).max(1).optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -481,6 +564,7 @@ export const ToolsSchema = z
     alsoAllow: z.array(z.string()).optional(),
     deny: z.array(z.string()).optional(),
     byProvider: z.record(z.string(), ToolPolicyWithProfileSchema).optional(),
+    quotas: ToolQuotasSchema,
     web: ToolsWebSchema,
     media: ToolsMediaSchema,
     links: ToolsLinksSchema,
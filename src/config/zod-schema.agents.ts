@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { MESSAGE_RULE_CHANNELS, supportsMessageRules } from "../routing/binding-rules.js";
 import { AgentDefaultsSchema } from "./zod-schema.agent-defaults.js";
 import { AgentEntrySchema } from "./zod-schema.agent-runtime.js";
 import { TranscribeAudioSchema } from "./zod-schema.core.js";
@@ -11,6 +12,17 @@ export const AgentsSchema = z
   .strict()
   .optional();
 
+const BINDING_TIME_PATTERN = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+function isValidBindingPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export const BindingsSchema = z
   .array(
     z
@@ -35,8 +47,37 @@ export const BindingsSchema = z
               .optional(),
             guildId: z.string().optional(),
             teamId: z.string().optional(),
+            time: z
+              .object({
+                start: z.string().regex(BINDING_TIME_PATTERN, "Expected HH:MM"),
+                end: z.string().regex(BINDING_TIME_PATTERN, "Expected HH:MM"),
+                days: z.array(z.number().int().min(0).max(6)).optional(),
+                timezone: z.string().optional(),
+              })
+              .strict()
+              .optional(),
+            message: z
+              .object({
+                pattern: z
+                  .string()
+                  .refine(isValidBindingPattern, "Invalid regular expression")
+                  .optional(),
+                keywords: z.array(z.string()).optional(),
+                attachments: z.array(z.string()).optional(),
+              })
+              .strict()
+              .optional(),
           })
-          .strict(),
+          .strict()
+          .superRefine((match, ctx) => {
+            if (match.message && !supportsMessageRules(match.channel)) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["message"],
+                message: `message rules are only supported on ${MESSAGE_RULE_CHANNELS.join(", ")}`,
+              });
+            }
+          }),
       })
       .strict(),
   )
@@ -1,15 +1,29 @@
 import { z } from "zod";
 
+const HookSignatureSchema = z
+  .object({
+    secret: z.string().min(1),
+    header: z.string().optional(),
+    prefix: z.string().optional(),
+    encoding: z.union([z.literal("hex"), z.literal("base64")]).optional(),
+    timestampHeader: z.string().optional(),
+    toleranceSeconds: z.number().int().positive().optional(),
+    signedPayload: z.string().optional(),
+    deliveryHeader: z.string().optional(),
+  })
+  .strict();
+
 export const HookMappingSchema = z
   .object({
     id: z.string().optional(),
+    preset: z.string().optional(),
     match: z
       .object({
         path: z.string().optional(),
         source: z.string().optional(),
       })
       .optional(),
-    action: z.union([z.literal("wake"), z.literal("agent")]).optional(),
+    action: z.union([z.literal("wake"), z.literal("agent"), z.literal("workflow")]).optional(),
     wakeMode: z.union([z.literal("now"), z.literal("next-heartbeat")]).optional(),
     name: z.string().optional(),
     sessionKey: z.string().optional(),
@@ -33,6 +47,8 @@ export const HookMappingSchema = z
     model: z.string().optional(),
     thinking: z.string().optional(),
     timeoutSeconds: z.number().int().positive().optional(),
+    workflow: z.string().optional(),
+    workflowInputs: z.record(z.string(), z.string()).optional(),
     transform: z
       .object({
         module: z.string(),
@@ -40,6 +56,7 @@ export const HookMappingSchema = z
       })
       .strict()
       .optional(),
+    signature: HookSignatureSchema.optional(),
   })
   .strict()
   .optional();
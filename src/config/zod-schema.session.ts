@@ -15,6 +15,22 @@ const SessionResetConfigSchema = z
   })
   .strict();
 
+const SessionSendPolicyMatchSchema = z
+  .object({
+    channel: z.string().optional(),
+    chatType: z
+      .union([
+        z.literal("direct"),
+        z.literal("group"),
+        z.literal("channel"),
+        /** @deprecated Use `direct` instead. Kept for backward compatibility. */
+        z.literal("dm"),
+      ])
+      .optional(),
+    keyPrefix: z.string().optional(),
+  })
+  .strict();
+
 export const SessionSendPolicySchema = z
   .object({
     default: z.union([z.literal("allow"), z.literal("deny")]).optional(),
@@ -23,19 +39,43 @@ export const SessionSendPolicySchema = z
         z
           .object({
             action: z.union([z.literal("allow"), z.literal("deny")]),
-            match: z
+            match: SessionSendPolicyMatchSchema.optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+  })
+  .strict();
+
+const SEND_POLICY_TIME_PATTERN = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+const SendPolicyLimitActionSchema = z.union([z.literal("deny"), z.literal("hold")]);
+
+const SessionOutboundSendPolicySchema = z
+  .object({
+    default: z.union([z.literal("allow"), z.literal("deny")]).optional(),
+    rules: z
+      .array(
+        z
+          .object({
+            action: z.union([z.literal("allow"), z.literal("deny"), z.literal("hold")]).optional(),
+            match: SessionSendPolicyMatchSchema.optional(),
+            rateLimit: z
               .object({
-                channel: z.string().optional(),
-                chatType: z
-                  .union([
-                    z.literal("direct"),
-                    z.literal("group"),
-                    z.literal("channel"),
-                    /** @deprecated Use `direct` instead. Kept for backward compatibility. */
-                    z.literal("dm"),
-                  ])
-                  .optional(),
-                keyPrefix: z.string().optional(),
+                max: z.number().int().positive(),
+                windowSeconds: z.number().int().positive(),
+                per: z.union([z.literal("session"), z.literal("channel")]).optional(),
+                action: SendPolicyLimitActionSchema.optional(),
+              })
+              .strict()
+              .optional(),
+            quietHours: z
+              .object({
+                start: z.string().regex(SEND_POLICY_TIME_PATTERN, "Expected HH:MM"),
+                end: z.string().regex(SEND_POLICY_TIME_PATTERN, "Expected HH:MM"),
+                days: z.array(z.number().int().min(0).max(6)).optional(),
+                timezone: z.string().optional(),
+                action: SendPolicyLimitActionSchema.optional(),
               })
               .strict()
               .optional(),
@@ -43,6 +83,14 @@ export const SessionSendPolicySchema = z
           .strict(),
       )
       .optional(),
+    recipientTimezones: z.record(z.string(), z.string()).optional(),
+    hold: z
+      .object({
+        ttlHours: z.number().positive().optional(),
+        maxEntries: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict();
 
@@ -83,7 +131,7 @@ export const SessionSchema = z
       ])
       .optional(),
     mainKey: z.string().optional(),
-    sendPolicy: SessionSendPolicySchema.optional(),
+    sendPolicy: SessionOutboundSendPolicySchema.optional(),
     agentToAgent: z
       .object({
         maxPingPongTurns: z.number().int().min(0).max(5).optional(),
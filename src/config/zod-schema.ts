@@ -304,6 +304,14 @@ export const OpenClawSchema = z
         presets: z.array(z.string()).optional(),
         transformsDir: z.string().optional(),
         mappings: z.array(HookMappingSchema).optional(),
+        deliveries: z
+          .object({
+            maxAttempts: z.number().int().positive().optional(),
+            retryDelaySeconds: z.number().int().positive().optional(),
+            keep: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
         gmail: HooksGmailSchema,
         internal: InternalHooksSchema,
       })
@@ -397,6 +405,21 @@ export const OpenClawSchema = z
           })
           .strict()
           .optional(),
+        roles: z
+          .record(
+            z.string(),
+            z
+              .object({
+                description: z.string().optional(),
+                methods: z.array(z.string()).optional(),
+                denyMethods: z.array(z.string()).optional(),
+                agents: z.array(z.string()).optional(),
+                sessions: z.array(z.string()).optional(),
+                events: z.array(z.string()).optional(),
+              })
+              .strict(),
+          )
+          .optional(),
         trustedProxies: z.array(z.string()).optional(),
         tailscale: z
           .object({
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { CronJob } from "./types.js";
+import {
+  findAfterCycle,
+  findDependentJobs,
+  matchesAfterStatus,
+  renderCronChainMessage,
+} from "./chain.js";
+
+function makeJob(id: string, schedule: CronJob["schedule"], enabled = true): CronJob {
+  return {
+    id,
+    name: id,
+    enabled,
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "hi" },
+    state: {},
+  };
+}
+
+describe("cron chains", () => {
+  it("matches upstream statuses (skipped never triggers)", () => {
+    expect(matchesAfterStatus(undefined, "ok")).toBe(true);
+    expect(matchesAfterStatus(undefined, "error")).toBe(false);
+    expect(matchesAfterStatus("error", "error")).toBe(true);
+    expect(matchesAfterStatus("any", "error")).toBe(true);
+    expect(matchesAfterStatus("any", "skipped")).toBe(false);
+  });
+
+  it("finds enabled dependents of an upstream job", () => {
+    const jobs = [
+      makeJob("collect", { kind: "every", everyMs: 1000 }),
+      makeJob("summarize", { kind: "after", jobId: "collect" }),
+      makeJob("alert", { kind: "after", jobId: "collect", status: "error" }),
+      makeJob("off", { kind: "after", jobId: "collect" }, false),
+    ];
+    expect(findDependentJobs(jobs, "collect", "ok").map((j) => j.id)).toEqual(["summarize"]);
+    expect(findDependentJobs(jobs, "collect", "error").map((j) => j.id)).toEqual(["alert"]);
+  });
+
+  it("detects dependency cycles", () => {
+    const jobs = [
+      makeJob("a", { kind: "after", jobId: "c" }),
+      makeJob("b", { kind: "after", jobId: "a" }),
+      makeJob("c", { kind: "every", everyMs: 1000 }),
+    ];
+    expect(findAfterCycle(jobs, "c", "b")).toBe("c");
+    expect(findAfterCycle(jobs, "d", "b")).toBeUndefined();
+  });
+
+  it("renders upstream placeholders and keeps unknown ones", () => {
+    const text = renderCronChainMessage(
+      "From {{upstream.name}} ({{ upstream.status }}): {{upstream.output}} {{upstream.nope}}",
+      {
+        jobId: "collect",
+        jobName: "Collect",
+        status: "ok",
+        runAtMs: 1,
+        firedAtMs: 2,
+        summary: "short",
+        outputText: "full output",
+        chain: ["collect"],
+      },
+    );
+    expect(text).toBe("From Collect (ok): full output {{upstream.nope}}");
+    expect(renderCronChainMessage("x {{upstream.output}}")).toBe("x ");
+  });
+});
@@ -0,0 +1,86 @@
+import type { CronAfterStatus, CronChainTrigger, CronJob } from "./types.js";
+
+/** Longest root → leaf chain we will follow before refusing to trigger more jobs. */
+export const MAX_CRON_CHAIN_DEPTH = 16;
+
+const UPSTREAM_PLACEHOLDER_RE = /\{\{\s*upstream\.([a-zA-Z]+)\s*\}\}/g;
+
+export function matchesAfterStatus(
+  expected: CronAfterStatus | undefined,
+  actual: "ok" | "error" | "skipped",
+): boolean {
+  // Skipped runs never advance a pipeline; they did not produce anything.
+  if (actual === "skipped") {
+    return false;
+  }
+  const wanted = expected ?? "ok";
+  return wanted === "any" || wanted === actual;
+}
+
+/**
+ * Jobs that should be queued after `upstreamId` finished with `status`.
+ * Disabled jobs and jobs scheduled on other upstreams are ignored.
+ */
+export function findDependentJobs(
+  jobs: CronJob[],
+  upstreamId: string,
+  status: "ok" | "error" | "skipped",
+): CronJob[] {
+  return jobs.filter(
+    (job) =>
+      job.enabled &&
+      job.schedule.kind === "after" &&
+      job.schedule.jobId === upstreamId &&
+      job.id !== upstreamId &&
+      matchesAfterStatus(job.schedule.status, status),
+  );
+}
+
+/**
+ * Returns the upstream id that closes a dependency cycle when `jobId` is
+ * scheduled after `upstreamId`, or undefined when the graph stays acyclic.
+ */
+export function findAfterCycle(
+  jobs: CronJob[],
+  jobId: string,
+  upstreamId: string,
+): string | undefined {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const seen = new Set<string>();
+  let current: string | undefined = upstreamId;
+  while (current && !seen.has(current)) {
+    if (current === jobId) {
+      return current;
+    }
+    seen.add(current);
+    const schedule: CronJob["schedule"] | undefined = byId.get(current)?.schedule;
+    current = schedule?.kind === "after" ? schedule.jobId : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Expand `{{upstream.*}}` placeholders in a dependent job's agent message.
+ * Supported keys: output, summary, status, error, jobId, name.
+ * Unknown keys are left untouched so typos stay visible in the prompt.
+ */
+export function renderCronChainMessage(template: string, trigger?: CronChainTrigger): string {
+  return template.replace(UPSTREAM_PLACEHOLDER_RE, (match, key: string) => {
+    switch (key) {
+      case "output":
+        return trigger?.outputText ?? trigger?.summary ?? "";
+      case "summary":
+        return trigger?.summary ?? "";
+      case "status":
+        return trigger?.status ?? "";
+      case "error":
+        return trigger?.error ?? "";
+      case "jobId":
+        return trigger?.jobId ?? "";
+      case "name":
+        return trigger?.jobName ?? "";
+      default:
+        return match;
+    }
+  });
+}
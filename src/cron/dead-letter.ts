@@ -0,0 +1,52 @@
+import type { CliDeps } from "../cli/outbound-send-deps.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { CronJob } from "./types.js";
+import { createOutboundSendDeps } from "../cli/outbound-send-deps.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { resolveCronDeliveryPlan } from "./delivery.js";
+import { resolveDeliveryTarget } from "./isolated-agent/delivery-target.js";
+
+export function formatCronDeadLetterText(job: CronJob, error?: string): string {
+  const failures = job.state.consecutiveErrors ?? 0;
+  const reason = error?.trim() ? `: ${error.trim()}` : ".";
+  return [
+    `Cron job "${job.name}" (${job.id}) was disabled after ${failures} consecutive failures${reason}`,
+    `Revive it with \`openclaw cron revive ${job.id}\`.`,
+  ].join("\n");
+}
+
+/**
+ * Announce a dead job through its delivery channel. Returns false when the job
+ * has no announce delivery or no resolvable target, so callers can fall back
+ * to a main-session system event.
+ */
+export async function announceCronJobDead(params: {
+  cfg: OpenClawConfig;
+  deps: CliDeps;
+  job: CronJob;
+  agentId: string;
+  error?: string;
+}): Promise<boolean> {
+  const plan = resolveCronDeliveryPlan(params.job);
+  if (!plan.requested) {
+    return false;
+  }
+  const target = await resolveDeliveryTarget(params.cfg, params.agentId, {
+    channel: plan.channel,
+    to: plan.to,
+  });
+  if (!target.to || target.error) {
+    return false;
+  }
+  await deliverOutboundPayloads({
+    cfg: params.cfg,
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+    payloads: [{ text: formatCronDeadLetterText(params.job, params.error) }],
+    bestEffort: true,
+    deps: createOutboundSendDeps(params.deps),
+  });
+  return true;
+}
@@ -0,0 +1,142 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkCronExclusion,
+  loadIcsCalendar,
+  parseExclusionWeekday,
+  parseIcsEvents,
+  resolveCronExclusion,
+} from "./exclusions.js";
+import { computeNextRunAtMs } from "./schedule.js";
+
+describe("cron exclusions", () => {
+  it("matches quiet hours that wrap past midnight", () => {
+    const exclusions = { tz: "UTC", quietHours: [{ start: "22:00", end: "07:00" }] };
+    const match = resolveCronExclusion(exclusions, Date.parse("2026-03-02T23:30:00.000Z"));
+    expect(match?.reason).toBe("quiet hours 22:00-07:00");
+    expect(match?.untilMs).toBe(Date.parse("2026-03-03T07:00:00.000Z"));
+    expect(resolveCronExclusion(exclusions, Date.parse("2026-03-02T12:00:00.000Z"))).toBeNull();
+  });
+
+  it("evaluates weekdays and dates in the exclusion timezone", () => {
+    // 2026-03-08 02:00Z is still Saturday evening in New York.
+    const atMs = Date.parse("2026-03-08T02:00:00.000Z");
+    expect(resolveCronExclusion({ tz: "America/New_York", weekdays: [6] }, atMs)?.reason).toBe(
+      "excluded weekday sat",
+    );
+    expect(resolveCronExclusion({ tz: "UTC", weekdays: [6] }, atMs)).toBeNull();
+
+    const dates = { tz: "UTC", dates: [{ start: "2026-12-24", end: "2026-12-26" }] };
+    const match = resolveCronExclusion(dates, Date.parse("2026-12-25T09:00:00.000Z"));
+    expect(match?.untilMs).toBe(Date.parse("2026-12-27T00:00:00.000Z"));
+  });
+
+  it("parses weekday names", () => {
+    expect(parseExclusionWeekday("Sun")).toBe(0);
+    expect(parseExclusionWeekday("saturday")).toBe(6);
+    expect(parseExclusionWeekday("5")).toBe(5);
+    expect(parseExclusionWeekday("xyz")).toBeNull();
+  });
+
+  it("reads all-day and timed events from iCalendar files", async () => {
+    const events = parseIcsEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20261225",
+        "DTEND;VALUE=DATE:20261226",
+        "SUMMARY:Christmas",
+        " Day",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART:20261231T120000Z",
+        "DTEND:20261231T180000Z",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+    expect(events).toEqual([
+      { kind: "date", start: "2026-12-25", end: "2026-12-26", summary: "ChristmasDay" },
+      {
+        kind: "utc",
+        startMs: Date.parse("2026-12-31T12:00:00.000Z"),
+        endMs: Date.parse("2026-12-31T18:00:00.000Z"),
+        summary: undefined,
+      },
+    ]);
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-ics-"));
+    try {
+      const icsPath = path.join(dir, "holidays.ics");
+      await fs.writeFile(
+        icsPath,
+        "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20261225\nSUMMARY:Christmas\nEND:VEVENT\n",
+      );
+      const match = await checkCronExclusion(
+        { tz: "UTC", icsPath },
+        Date.parse("2026-12-25T09:00:00.000Z"),
+      );
+      expect(match?.reason).toBe('holiday "Christmas"');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("moves cron schedules past blackout windows", () => {
+    const schedule = { kind: "cron" as const, expr: "0 9 * * *", tz: "UTC" };
+    // Friday 2026-03-06 10:00Z: the next 09:00 run is Saturday, skipped along with Sunday.
+    const next = computeNextRunAtMs(schedule, Date.parse("2026-03-06T10:00:00.000Z"), {
+      weekdays: [0, 6],
+    });
+    expect(next).toBe(Date.parse("2026-03-09T09:00:00.000Z"));
+  });
+
+  it("moves interval schedules to the end of quiet hours", () => {
+    const anchorMs = Date.parse("2026-03-02T00:00:00.000Z");
+    const next = computeNextRunAtMs(
+      { kind: "every", everyMs: 15 * 60_000, anchorMs },
+      Date.parse("2026-03-02T21:55:00.000Z"),
+      { tz: "UTC", quietHours: [{ start: "22:00", end: "07:00" }] },
+    );
+    expect(next).toBe(Date.parse("2026-03-03T07:00:00.000Z"));
+  });
+
+  it("moves schedules past holidays from a loaded calendar", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-ics-"));
+    try {
+      const icsPath = path.join(dir, "holidays.ics");
+      await fs.writeFile(
+        icsPath,
+        "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20261225\nSUMMARY:Christmas\nEND:VEVENT\n",
+      );
+      await loadIcsCalendar(icsPath);
+      const next = computeNextRunAtMs(
+        { kind: "cron", expr: "0 9 * * *", tz: "UTC" },
+        Date.parse("2026-12-24T10:00:00.000Z"),
+        { tz: "UTC", icsPath },
+      );
+      expect(next).toBe(Date.parse("2026-12-26T09:00:00.000Z"));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports unreadable calendars", async () => {
+    const onError = vi.fn();
+    await expect(loadIcsCalendar("/nonexistent/openclaw/holidays.ics", onError)).resolves.toBe(
+      null,
+    );
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: "ENOENT" }));
+  });
+
+  it("gives up when every slot is excluded", () => {
+    const next = computeNextRunAtMs(
+      { kind: "cron", expr: "0 9 * * *", tz: "UTC" },
+      Date.parse("2026-03-06T10:00:00.000Z"),
+      { weekdays: [0, 1, 2, 3, 4, 5, 6] },
+    );
+    expect(next).toBeUndefined();
+  });
+});
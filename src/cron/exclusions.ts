@@ -0,0 +1,425 @@
+import fs from "node:fs/promises";
+import type { CronExclusions, CronSchedule } from "./types.js";
+import { resolveUserPath } from "../utils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]|24):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const WEEKDAY_FULL_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/** Hard cap on blackout hops so a schedule that is always excluded cannot spin forever. */
+const MAX_EXCLUSION_HOPS = 500;
+
+export type CronExclusionMatch = {
+  reason: string;
+  /** First instant after which the matched window no longer applies. */
+  untilMs: number;
+};
+
+type LocalClock = {
+  /** Local wall-clock time expressed as if it were UTC; only differences are meaningful. */
+  wallMs: number;
+  date: string;
+  weekday: number;
+  minutes: number;
+};
+
+export type IcsEvent =
+  | { kind: "date"; start: string; end: string; summary?: string }
+  | { kind: "utc"; startMs: number; endMs: number; summary?: string }
+  | { kind: "local"; start: string; end: string; tz?: string; summary?: string };
+
+type IcsCacheEntry = { mtimeMs: number; events: IcsEvent[] };
+
+const icsCache = new Map<string, IcsCacheEntry>();
+
+function resolveLocalClock(atMs: number, timeZone: string | undefined): LocalClock | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    }).formatToParts(new Date(atMs));
+    const map: Record<string, string> = {};
+    for (const part of parts) {
+      if (part.type !== "literal") {
+        map[part.type] = part.value;
+      }
+    }
+    const year = Number(map.year);
+    const month = Number(map.month);
+    const day = Number(map.day);
+    const hour = Number(map.hour);
+    const minute = Number(map.minute);
+    const second = Number(map.second);
+    if (![year, month, day, hour, minute, second].every(Number.isFinite)) {
+      return null;
+    }
+    const wallMs =
+      Date.UTC(year, month - 1, day, hour, minute, second) +
+      (atMs - Math.floor(atMs / 1000) * 1000);
+    return {
+      wallMs,
+      date: `${map.year}-${map.month}-${map.day}`,
+      weekday: WEEKDAY_NAMES.indexOf((map.weekday ?? "").slice(0, 3).toLowerCase()),
+      minutes: hour * 60 + minute,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function wallMsForDate(date: string, minutes = 0): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) + minutes * 60_000;
+}
+
+function startOfNextLocalDay(clock: LocalClock): number {
+  return wallMsForDate(clock.date) + DAY_MS;
+}
+
+export function parseExclusionTime(raw: string | undefined): number | null {
+  const match = raw?.trim().match(TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour === 24 && minute !== 0) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+/** Accepts 0-6 (Sunday = 0) or English day names/abbreviations. */
+export function parseExclusionWeekday(raw: string | number): number | null {
+  if (typeof raw === "number") {
+    return Number.isInteger(raw) && raw >= 0 && raw <= 6 ? raw : null;
+  }
+  const trimmed = raw.trim().toLowerCase();
+  if (/^[0-6]$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  if (trimmed.length < 3) {
+    return null;
+  }
+  const idx = WEEKDAY_FULL_NAMES.findIndex((name) => name.startsWith(trimmed));
+  return idx >= 0 ? idx : null;
+}
+
+function unfoldIcsLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else {
+      lines.push(raw);
+    }
+  }
+  return lines;
+}
+
+type IcsValue = { value: string; params: Record<string, string> };
+
+function parseIcsLine(line: string): { name: string; value: IcsValue } | null {
+  const colon = line.indexOf(":");
+  if (colon <= 0) {
+    return null;
+  }
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), value: { value: line.slice(colon + 1).trim(), params } };
+}
+
+function icsDateToIso(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function icsDateTimeParts(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    wallMs: Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+    ),
+    utc: utc === "Z",
+  };
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(wallMsForDate(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function toIcsEvent(props: Map<string, IcsValue>): IcsEvent | null {
+  const start = props.get("DTSTART");
+  if (!start) {
+    return null;
+  }
+  const end = props.get("DTEND");
+  const summary = props.get("SUMMARY")?.value || undefined;
+  const isDate = start.params.VALUE?.toUpperCase() === "DATE" || /^\d{8}$/.test(start.value);
+  if (isDate) {
+    const startDate = icsDateToIso(start.value);
+    if (!startDate) {
+      return null;
+    }
+    // DTEND is exclusive for all-day events; a missing DTEND means a single day.
+    const endDate = (end && icsDateToIso(end.value)) || addDays(startDate, 1);
+    return { kind: "date", start: startDate, end: endDate, summary };
+  }
+  const startParts = icsDateTimeParts(start.value);
+  const endParts = end ? icsDateTimeParts(end.value) : null;
+  if (!startParts || !endParts || endParts.wallMs <= startParts.wallMs) {
+    return null;
+  }
+  if (startParts.utc && endParts.utc) {
+    return { kind: "utc", startMs: startParts.wallMs, endMs: endParts.wallMs, summary };
+  }
+  return {
+    kind: "local",
+    start: start.value.replace(/Z$/, ""),
+    end: end!.value.replace(/Z$/, ""),
+    tz: start.params.TZID,
+    summary,
+  };
+}
+
+/**
+ * Minimal iCalendar reader for holiday feeds: VEVENT blocks with DTSTART/DTEND
+ * (all-day dates, UTC or local date-times). Recurrence rules are not expanded,
+ * so calendars must list each occurrence explicitly (most holiday exports do).
+ */
+export function parseIcsEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Map<string, IcsValue> | null = null;
+  for (const line of unfoldIcsLines(text)) {
+    const parsed = parseIcsLine(line.trim());
+    if (!parsed) {
+      continue;
+    }
+    if (parsed.name === "BEGIN" && parsed.value.value.toUpperCase() === "VEVENT") {
+      current = new Map();
+    } else if (parsed.name === "END" && parsed.value.value.toUpperCase() === "VEVENT") {
+      const event = current ? toIcsEvent(current) : null;
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+    } else if (current && !current.has(parsed.name)) {
+      current.set(parsed.name, parsed.value);
+    }
+  }
+  return events;
+}
+
+/**
+ * Reads (and caches by mtime) the holiday calendar; resolves null when unreadable.
+ * `onError` receives the read or stat failure so callers can log it.
+ */
+export async function loadIcsCalendar(
+  icsPath: string,
+  onError?: (err: unknown) => void,
+): Promise<IcsEvent[] | null> {
+  const resolved = resolveUserPath(icsPath);
+  try {
+    const stat = await fs.stat(resolved);
+    const cached = icsCache.get(resolved);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached.events;
+    }
+    const events = parseIcsEvents(await fs.readFile(resolved, "utf-8"));
+    icsCache.set(resolved, { mtimeMs: stat.mtimeMs, events });
+    return events;
+  } catch (err) {
+    icsCache.delete(resolved);
+    onError?.(err);
+    return null;
+  }
+}
+
+/** The calendar last read by `loadIcsCalendar`, for synchronous scheduling passes. */
+export function peekIcsCalendar(icsPath: string): IcsEvent[] | null {
+  return icsCache.get(resolveUserPath(icsPath))?.events ?? null;
+}
+
+function matchIcsEvent(
+  event: IcsEvent,
+  atMs: number,
+  clock: LocalClock,
+): CronExclusionMatch | null {
+  const label = event.summary ? `holiday "${event.summary}"` : "holiday calendar";
+  if (event.kind === "date") {
+    if (clock.date >= event.start && clock.date < event.end) {
+      return { reason: label, untilMs: atMs + (wallMsForDate(event.end) - clock.wallMs) };
+    }
+    return null;
+  }
+  if (event.kind === "utc") {
+    return atMs >= event.startMs && atMs < event.endMs
+      ? { reason: label, untilMs: event.endMs }
+      : null;
+  }
+  const eventClock = event.tz ? resolveLocalClock(atMs, event.tz) : clock;
+  const start = icsDateTimeParts(event.start);
+  const end = icsDateTimeParts(event.end);
+  if (!eventClock || !start || !end) {
+    return null;
+  }
+  if (eventClock.wallMs >= start.wallMs && eventClock.wallMs < end.wallMs) {
+    return { reason: label, untilMs: atMs + (end.wallMs - eventClock.wallMs) };
+  }
+  return null;
+}
+
+export function resolveExclusionTimezone(
+  exclusions: CronExclusions,
+  schedule?: CronSchedule,
+): string | undefined {
+  const explicit = exclusions.tz?.trim();
+  if (explicit) {
+    return explicit;
+  }
+  return schedule?.kind === "cron" ? schedule.tz?.trim() || undefined : undefined;
+}
+
+/**
+ * Returns the first exclusion window that covers `atMs`, or null when the
+ * instant is allowed. Windows are evaluated in the exclusion timezone
+ * (falling back to the cron schedule timezone, then the host timezone).
+ * `calendar` holds the events already loaded from `exclusions.icsPath`.
+ */
+export function resolveCronExclusion(
+  exclusions: CronExclusions | undefined,
+  atMs: number,
+  schedule?: CronSchedule,
+  calendar?: IcsEvent[] | null,
+): CronExclusionMatch | null {
+  if (!exclusions) {
+    return null;
+  }
+  const timeZone = resolveExclusionTimezone(exclusions, schedule);
+  const clock = resolveLocalClock(atMs, timeZone);
+  if (!clock) {
+    return null;
+  }
+  const toAbsolute = (wallMs: number) => atMs + (wallMs - clock.wallMs);
+
+  for (const range of exclusions.dates ?? []) {
+    const end = range.end ?? range.start;
+    if (clock.date >= range.start && clock.date <= end) {
+      const reason =
+        end === range.start
+          ? `excluded date ${range.start}`
+          : `excluded dates ${range.start}..${end}`;
+      return { reason, untilMs: toAbsolute(wallMsForDate(end) + DAY_MS) };
+    }
+  }
+
+  if (exclusions.weekdays?.includes(clock.weekday)) {
+    return {
+      reason: `excluded weekday ${WEEKDAY_NAMES[clock.weekday]}`,
+      untilMs: toAbsolute(startOfNextLocalDay(clock)),
+    };
+  }
+
+  for (const window of exclusions.quietHours ?? []) {
+    const startMin = parseExclusionTime(window.start);
+    const endMin = parseExclusionTime(window.end);
+    if (startMin === null || endMin === null || startMin === endMin) {
+      continue;
+    }
+    const inside =
+      endMin > startMin
+        ? clock.minutes >= startMin && clock.minutes < endMin
+        : clock.minutes >= startMin || clock.minutes < endMin;
+    if (!inside) {
+      continue;
+    }
+    const endsTomorrow = endMin <= startMin && clock.minutes >= startMin;
+    const endWallMs = wallMsForDate(clock.date, endMin) + (endsTomorrow ? DAY_MS : 0);
+    return {
+      reason: `quiet hours ${window.start}-${window.end}`,
+      untilMs: toAbsolute(endWallMs),
+    };
+  }
+
+  if (exclusions.icsPath) {
+    for (const event of calendar ?? []) {
+      const match = matchIcsEvent(event, atMs, clock);
+      if (match) {
+        return match;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Advance a schedule past blackout windows. `next` computes the next slot at
+ * or after a given instant; excluded slots hop to the end of their window.
+ * Holiday calendars come from the `loadIcsCalendar` cache.
+ */
+export function skipExcludedRuns(
+  exclusions: CronExclusions | undefined,
+  schedule: CronSchedule,
+  first: number | undefined,
+  next: (fromMs: number) => number | undefined,
+): number | undefined {
+  const calendar = exclusions?.icsPath ? peekIcsCalendar(exclusions.icsPath) : null;
+  let candidate = first;
+  for (let hop = 0; candidate !== undefined && hop < MAX_EXCLUSION_HOPS; hop++) {
+    const match = resolveCronExclusion(exclusions, candidate, schedule, calendar);
+    if (!match) {
+      return candidate;
+    }
+    candidate = next(Math.max(match.untilMs, candidate + 1));
+  }
+  return undefined;
+}
+
+/** Loads the holiday calendar (when set) and checks `atMs` against every window. */
+export async function checkCronExclusion(
+  exclusions: CronExclusions | undefined,
+  atMs: number,
+  schedule?: CronSchedule,
+): Promise<CronExclusionMatch | null> {
+  if (!exclusions) {
+    return null;
+  }
+  const calendar = exclusions.icsPath ? await loadIcsCalendar(exclusions.icsPath) : null;
+  return resolveCronExclusion(exclusions, atMs, schedule, calendar);
+}
+
+export function isValidExclusionDate(raw: string): boolean {
+  return DATE_PATTERN.test(raw) && !Number.isNaN(Date.parse(`${raw}T00:00:00Z`));
+}
@@ -0,0 +1,182 @@
+import YAML from "yaml";
+import type { CronJob, CronJobCreate } from "./types.js";
+
+export const CRON_EXPORT_VERSION = 1;
+
+/** Portable job definition: everything but timestamps and runtime state. */
+export type CronJobDefinition = CronJobCreate & { id: string };
+
+export type CronExportFile = {
+  version: typeof CRON_EXPORT_VERSION;
+  jobs: CronJobDefinition[];
+};
+
+export type CronImportConflictMode = "fail" | "skip" | "overwrite";
+
+export type CronImportPlan = {
+  create: string[];
+  update: Array<{ id: string; fields: string[] }>;
+  unchanged: string[];
+  /** Existing jobs whose definition differs and were left alone (`onConflict: "skip"`). */
+  skipped: Array<{ id: string; fields: string[] }>;
+  /** Existing jobs whose definition differs (`onConflict: "fail"`); nothing is applied. */
+  conflicts: Array<{ id: string; fields: string[] }>;
+  remove: string[];
+};
+
+// Stable key order keeps exported YAML diff-friendly.
+const DEFINITION_KEYS = [
+  "id",
+  "name",
+  "description",
+  "agentId",
+  "enabled",
+  "deleteAfterRun",
+  "schedule",
+  "sessionTarget",
+  "wakeMode",
+  "payload",
+  "delivery",
+  "retry",
+  "exclusions",
+] as const;
+
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripUndefined);
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        out[key] = stripUndefined(entry);
+      }
+    }
+    return out;
+  }
+  return value;
+}
+
+export function toCronJobDefinition(job: CronJob | CronJobDefinition): CronJobDefinition {
+  const out: Record<string, unknown> = {};
+  for (const key of DEFINITION_KEYS) {
+    const value = (job as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      out[key] = stripUndefined(value);
+    }
+  }
+  return out as CronJobDefinition;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .toSorted(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Top-level definition fields that differ between two jobs. */
+export function diffCronJobDefinitions(
+  current: CronJob | CronJobDefinition,
+  next: CronJob | CronJobDefinition,
+): string[] {
+  const a = toCronJobDefinition(current) as Record<string, unknown>;
+  const b = toCronJobDefinition(next) as Record<string, unknown>;
+  return DEFINITION_KEYS.filter((key) => stableStringify(a[key]) !== stableStringify(b[key]));
+}
+
+export function planCronImport(
+  current: CronJob[],
+  incoming: CronJobDefinition[],
+  opts?: { onConflict?: CronImportConflictMode; prune?: boolean },
+): CronImportPlan {
+  const onConflict = opts?.onConflict ?? "fail";
+  const byId = new Map(current.map((job) => [job.id, job]));
+  const plan: CronImportPlan = {
+    create: [],
+    update: [],
+    unchanged: [],
+    skipped: [],
+    conflicts: [],
+    remove: [],
+  };
+  for (const def of incoming) {
+    const existing = byId.get(def.id);
+    if (!existing) {
+      plan.create.push(def.id);
+      continue;
+    }
+    const fields = diffCronJobDefinitions(existing, def);
+    if (fields.length === 0) {
+      plan.unchanged.push(def.id);
+    } else if (onConflict === "overwrite") {
+      plan.update.push({ id: def.id, fields });
+    } else if (onConflict === "skip") {
+      plan.skipped.push({ id: def.id, fields });
+    } else {
+      plan.conflicts.push({ id: def.id, fields });
+    }
+  }
+  if (opts?.prune) {
+    const incomingIds = new Set(incoming.map((def) => def.id));
+    plan.remove = current.filter((job) => !incomingIds.has(job.id)).map((job) => job.id);
+  }
+  return plan;
+}
+
+/** Orders definitions so "after" jobs follow their upstream when both are imported together. */
+export function sortCronDefinitionsForImport(defs: CronJobDefinition[]): CronJobDefinition[] {
+  const byId = new Map(defs.map((def) => [def.id, def]));
+  const ordered: CronJobDefinition[] = [];
+  const visited = new Set<string>();
+  const visit = (def: CronJobDefinition) => {
+    if (visited.has(def.id)) {
+      return;
+    }
+    visited.add(def.id);
+    const upstream = def.schedule.kind === "after" ? byId.get(def.schedule.jobId) : undefined;
+    if (upstream) {
+      visit(upstream);
+    }
+    ordered.push(def);
+  };
+  defs.forEach(visit);
+  return ordered;
+}
+
+export function formatCronExportYaml(file: CronExportFile): string {
+  const header = "# OpenClaw cron jobs. Apply with: openclaw cron import <file>\n";
+  return `${header}${YAML.stringify(file, { lineWidth: 0 })}`;
+}
+
+/**
+ * Parse an exported YAML (or JSON) document. Only the envelope is checked
+ * here; job definitions are validated by the gateway on import.
+ */
+export function parseCronExportYaml(text: string): { version: number; jobs: unknown[] } {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(text);
+  } catch (err) {
+    throw new Error(`invalid cron export file: ${String(err)}`, { cause: err });
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("invalid cron export file: expected a mapping with version and jobs");
+  }
+  const record = parsed as { version?: unknown; jobs?: unknown };
+  if (record.version !== CRON_EXPORT_VERSION) {
+    throw new Error(
+      `unsupported cron export version: ${String(record.version)} (expected ${CRON_EXPORT_VERSION})`,
+    );
+  }
+  if (!Array.isArray(record.jobs)) {
+    throw new Error("invalid cron export file: jobs must be a list");
+  }
+  return { version: record.version, jobs: record.jobs };
+}
@@ -1,5 +1,6 @@
 import type { CronJobCreate, CronJobPatch } from "./types.js";
 import { sanitizeAgentId } from "../routing/session-key.js";
+import { parseExclusionWeekday } from "./exclusions.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 import { migrateLegacyCronPayload } from "./payload-migration.js";
 import { inferLegacyName } from "./service/normalize.js";
@@ -21,7 +22,10 @@ function isRecord(value: unknown): value is UnknownRecord {
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -47,6 +51,20 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (typeof schedule.jobId === "string") {
+      next.kind = "after";
+    }
+  }
+
+  if (typeof schedule.jobId === "string") {
+    next.jobId = schedule.jobId.trim();
+  }
+  if (typeof schedule.status === "string") {
+    const status = schedule.status.trim().toLowerCase();
+    if (status === "ok" || status === "error" || status === "any") {
+      next.status = status;
+    } else {
+      delete next.status;
     }
   }
 
@@ -135,6 +153,58 @@ function coercePayload(payload: UnknownRecord) {
   return next;
 }
 
+function coerceExclusionDate(value: unknown) {
+  if (typeof value === "string") {
+    // Accept "YYYY-MM-DD" and "YYYY-MM-DD..YYYY-MM-DD" shorthands.
+    const [start, end] = value.split("..").map((part) => part.trim());
+    return end ? { start, end } : { start };
+  }
+  return value;
+}
+
+function coerceQuietHours(value: unknown) {
+  if (typeof value === "string") {
+    // Accept "HH:MM-HH:MM" shorthand.
+    const [start, end] = value.split("-").map((part) => part.trim());
+    return { start, end };
+  }
+  return value;
+}
+
+function coerceExclusions(exclusions: UnknownRecord) {
+  const next: UnknownRecord = { ...exclusions };
+  if (typeof exclusions.tz === "string") {
+    const trimmed = exclusions.tz.trim();
+    if (trimmed) {
+      next.tz = trimmed;
+    } else {
+      delete next.tz;
+    }
+  }
+  if (Array.isArray(exclusions.dates)) {
+    next.dates = exclusions.dates.map(coerceExclusionDate);
+  }
+  if (Array.isArray(exclusions.weekdays)) {
+    next.weekdays = exclusions.weekdays.map((day) =>
+      typeof day === "string" || typeof day === "number"
+        ? (parseExclusionWeekday(day) ?? day)
+        : day,
+    );
+  }
+  if (Array.isArray(exclusions.quietHours)) {
+    next.quietHours = exclusions.quietHours.map(coerceQuietHours);
+  }
+  if (typeof exclusions.icsPath === "string") {
+    const trimmed = exclusions.icsPath.trim();
+    if (trimmed) {
+      next.icsPath = trimmed;
+    } else {
+      delete next.icsPath;
+    }
+  }
+  return next;
+}
+
 function coerceDelivery(delivery: UnknownRecord) {
   const next: UnknownRecord = { ...delivery };
   if (typeof delivery.mode === "string") {
@@ -393,6 +463,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.exclusions)) {
+    next.exclusions = coerceExclusions(base.exclusions);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -418,7 +492,12 @@ export function normalizeCronJobInput(
     ) {
       next.name = inferLegacyName({
         schedule: next.schedule as { kind?: unknown; everyMs?: unknown; expr?: unknown },
-        payload: next.payload as { kind?: unknown; text?: unknown; message?: unknown },
+        payload: next.payload as {
+          kind?: unknown;
+          text?: unknown;
+          message?: unknown;
+          workflow?: unknown;
+        },
       });
     } else if (typeof next.name === "string") {
       const trimmed = next.name.trim();
@@ -431,7 +510,7 @@ export function normalizeCronJobInput(
       if (kind === "systemEvent") {
         next.sessionTarget = "main";
       }
-      if (kind === "agentTurn") {
+      if (kind === "agentTurn" || kind === "workflow") {
         next.sessionTarget = "isolated";
       }
     }
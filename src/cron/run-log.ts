@@ -13,6 +13,10 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  /** Upstream job id for runs queued by a dependency chain. */
+  triggeredBy?: string;
+  /** Job ids from the chain root down to this job. */
+  chain?: string[];
 };
 
 export function resolveCronRunLogPath(params: { storePath: string; jobId: string }) {
@@ -112,6 +116,12 @@ export async function readCronRunLogEntries(
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      if (typeof obj.triggeredBy === "string" && obj.triggeredBy.trim().length > 0) {
+        entry.triggeredBy = obj.triggeredBy;
+      }
+      if (Array.isArray(obj.chain) && obj.chain.every((id) => typeof id === "string")) {
+        entry.chain = obj.chain;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
@@ -1,5 +1,6 @@
 import { Cron } from "croner";
-import type { CronSchedule } from "./types.js";
+import type { CronExclusions, CronSchedule } from "./types.js";
+import { skipExcludedRuns } from "./exclusions.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 
 function resolveCronTimezone(tz?: string) {
@@ -10,7 +11,26 @@ function resolveCronTimezone(tz?: string) {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
+/**
+ * Next run at or after `nowMs`. Recurring schedules ("every" and "cron") hop
+ * over blackout windows in `exclusions`; one-shot and dependent runs keep
+ * their slot and are skipped at run time instead.
+ */
+export function computeNextRunAtMs(
+  schedule: CronSchedule,
+  nowMs: number,
+  exclusions?: CronExclusions,
+): number | undefined {
+  const next = computeScheduleRunAtMs(schedule, nowMs);
+  if (!exclusions || (schedule.kind !== "every" && schedule.kind !== "cron")) {
+    return next;
+  }
+  return skipExcludedRuns(exclusions, schedule, next, (fromMs) =>
+    computeScheduleRunAtMs(schedule, fromMs),
+  );
+}
+
+function computeScheduleRunAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
   if (schedule.kind === "at") {
     // Handle both canonical `at` (string) and legacy `atMs` (number) fields.
     // The store migration should convert atMs→at, but be defensive in case
@@ -41,6 +61,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after") {
+    // Dependent jobs are queued by their upstream finishing, not by the clock.
+    return undefined;
+  }
+
   const expr = schedule.expr.trim();
   if (!expr) {
     return undefined;
@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CronEvent } from "./service.js";
+import type { CronJob } from "./types.js";
+import { CronService } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+async function makeStorePath() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-"));
+  return {
+    storePath: path.join(dir, "cron", "jobs.json"),
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+async function waitForJob(
+  cron: CronService,
+  id: string,
+  predicate: (job: CronJob | undefined) => boolean,
+) {
+  let latest: CronJob | undefined;
+  for (let i = 0; i < 30; i++) {
+    const jobs = await cron.list({ includeDisabled: true });
+    latest = jobs.find((job) => job.id === id);
+    if (predicate(latest)) {
+      return latest;
+    }
+    await vi.runOnlyPendingTimersAsync();
+  }
+  return latest;
+}
+
+describe("CronService after-job chains", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-13T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs a dependent job with the upstream output and records lineage", async () => {
+    const store = await makeStorePath();
+    const events: CronEvent[] = [];
+    const runIsolatedAgentJob = vi.fn(async ({ message }: { message: string }) =>
+      message.startsWith("collect")
+        ? { status: "ok" as const, summary: "3 alerts", outputText: "alert A, alert B, alert C" }
+        : { status: "ok" as const, summary: "done" },
+    );
+
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+      onEvent: (evt) => events.push(evt),
+    });
+    await cron.start();
+
+    const collect = await cron.add({
+      name: "collect",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "collect alerts" },
+      delivery: { mode: "none" },
+    });
+    const summarize = await cron.add({
+      name: "summarize",
+      enabled: true,
+      schedule: { kind: "after", jobId: collect.id },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "summarize: {{upstream.output}}" },
+      delivery: { mode: "none" },
+    });
+    expect(summarize.state.nextRunAtMs).toBeUndefined();
+
+    await cron.run(collect.id, "force");
+    const after = await waitForJob(cron, summarize.id, (job) => job?.state.lastStatus === "ok");
+
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2);
+    expect(runIsolatedAgentJob.mock.calls[1]?.[0].message).toBe(
+      "summarize: alert A, alert B, alert C",
+    );
+
+    const finished = events.filter(
+      (evt) => evt.action === "finished" && evt.jobId === summarize.id,
+    );
+    expect(finished).toHaveLength(1);
+    expect(finished[0]?.triggeredBy).toBe(collect.id);
+    expect(finished[0]?.chain).toEqual([collect.id, summarize.id]);
+    expect(after?.state.pendingTrigger).toBeUndefined();
+    expect(after?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects unknown upstreams and dependency cycles", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const base = {
+      enabled: true,
+      sessionTarget: "isolated" as const,
+      wakeMode: "now" as const,
+      payload: { kind: "agentTurn" as const, message: "go" },
+    };
+    await expect(
+      cron.add({ ...base, name: "orphan", schedule: { kind: "after", jobId: "missing" } }),
+    ).rejects.toThrow("unknown upstream cron job id");
+
+    const a = await cron.add({ ...base, name: "a", schedule: { kind: "every", everyMs: 60_000 } });
+    const b = await cron.add({ ...base, name: "b", schedule: { kind: "after", jobId: a.id } });
+    await expect(cron.update(a.id, { schedule: { kind: "after", jobId: b.id } })).rejects.toThrow(
+      "dependency cycle",
+    );
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
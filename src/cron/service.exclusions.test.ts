@@ -0,0 +1,209 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+async function makeStorePath() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-"));
+  return {
+    storePath: path.join(dir, "cron", "jobs.json"),
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+describe("CronService exclusions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Saturday, 23:30 UTC.
+    vi.setSystemTime(new Date("2026-03-07T23:30:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("schedules recurring jobs after the blackout window", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "standup",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 * * * *", tz: "UTC" },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "standup" },
+      exclusions: { weekdays: [0, 6], quietHours: [{ start: "00:00", end: "08:00" }] },
+    });
+
+    expect(job.state.nextRunAtMs).toBe(Date.parse("2026-03-09T08:00:00.000Z"));
+
+    const updated = await cron.update(job.id, { exclusions: null });
+    expect(updated.exclusions).toBeUndefined();
+    expect(updated.state.nextRunAtMs).toBe(Date.parse("2026-03-08T00:00:00.000Z"));
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("skips a run whose calendar gained a holiday after scheduling", async () => {
+    const store = await makeStorePath();
+    const icsPath = path.join(path.dirname(path.dirname(store.storePath)), "holidays.ics");
+    await fs.writeFile(icsPath, "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20261225\nEND:VEVENT\n");
+    const enqueueSystemEvent = vi.fn();
+    const log = { ...noopLogger, warn: vi.fn() };
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log,
+      enqueueSystemEvent,
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "digest",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 9 * * *", tz: "UTC" },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "digest" },
+      exclusions: { tz: "UTC", icsPath },
+    });
+    expect(job.state.nextRunAtMs).toBe(Date.parse("2026-03-08T09:00:00.000Z"));
+
+    await fs.writeFile(
+      icsPath,
+      "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20260308\nSUMMARY:Day off\nEND:VEVENT\n",
+    );
+    vi.setSystemTime(new Date("2026-03-08T09:00:00.000Z"));
+    await cron.run(job.id, "due");
+
+    let [current] = await cron.list();
+    expect(current.state.lastStatus).toBe("skipped");
+    expect(current.state.lastError).toBe('excluded: holiday "Day off"');
+    expect(current.state.nextRunAtMs).toBe(Date.parse("2026-03-09T09:00:00.000Z"));
+    expect(enqueueSystemEvent).not.toHaveBeenCalled();
+
+    // An unreadable calendar is ignored, with one warning until it is readable again.
+    await fs.rm(icsPath);
+    for (const slot of ["2026-03-09T09:00:00.000Z", "2026-03-10T09:00:00.000Z"]) {
+      vi.setSystemTime(new Date(slot));
+      await cron.run(job.id, "due");
+    }
+    [current] = await cron.list();
+    expect(current.state.lastStatus).toBe("ok");
+    expect(enqueueSystemEvent).toHaveBeenCalledTimes(2);
+    const calendarWarnings = log.warn.mock.calls.filter(
+      ([, msg]) => msg === "cron: holiday calendar not readable; ignoring its events",
+    );
+    expect(calendarWarnings).toEqual([[expect.objectContaining({ icsPath }), expect.any(String)]]);
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("records runs that land in a blackout window as skipped", async () => {
+    const store = await makeStorePath();
+    const enqueueSystemEvent = vi.fn();
+    const events: Array<{ action: string; status?: string; error?: string }> = [];
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent,
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+      onEvent: (evt) => events.push(evt),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "weekend reminder",
+      enabled: true,
+      deleteAfterRun: false,
+      schedule: { kind: "at", at: "2026-03-07T23:30:00.000Z" },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "hello" },
+      exclusions: { tz: "UTC", weekdays: [6] },
+    });
+
+    await cron.run(job.id, "due");
+
+    const [current] = await cron.list({ includeDisabled: true });
+    expect(current.state.lastStatus).toBe("skipped");
+    expect(current.state.lastError).toBe("excluded: excluded weekday sat");
+    expect(enqueueSystemEvent).not.toHaveBeenCalled();
+    expect(events.find((evt) => evt.action === "finished")).toMatchObject({
+      status: "skipped",
+      error: "excluded: excluded weekday sat",
+    });
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects malformed exclusions", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const base = {
+      name: "bad",
+      enabled: true,
+      schedule: { kind: "every" as const, everyMs: 60_000 },
+      sessionTarget: "main" as const,
+      wakeMode: "next-heartbeat" as const,
+      payload: { kind: "systemEvent" as const, text: "x" },
+    };
+    await expect(
+      cron.add({ ...base, exclusions: { quietHours: [{ start: "25:00", end: "07:00" }] } }),
+    ).rejects.toThrow("cron quiet hours must use HH:MM");
+    const missingIcsPath = path.join(store.storePath, "missing.ics");
+    await expect(cron.add({ ...base, exclusions: { icsPath: missingIcsPath } })).rejects.toThrow(
+      "cron holiday calendar not readable",
+    );
+
+    // A calendar that goes missing later only blocks patches that change it.
+    const icsPath = path.join(path.dirname(path.dirname(store.storePath)), "holidays.ics");
+    await fs.writeFile(icsPath, "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20261225\nEND:VEVENT\n");
+    const job = await cron.add({ ...base, exclusions: { icsPath } });
+    await fs.rm(icsPath);
+    await expect(cron.update(job.id, { name: "renamed" })).resolves.toMatchObject({
+      name: "renamed",
+    });
+    await expect(cron.update(job.id, { exclusions: { icsPath: missingIcsPath } })).rejects.toThrow(
+      "cron holiday calendar not readable",
+    );
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
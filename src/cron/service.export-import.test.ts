@@ -0,0 +1,155 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formatCronExportYaml, parseCronExportYaml, type CronJobDefinition } from "./export.js";
+import { CronService } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+async function makeStorePath() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-"));
+  return {
+    storePath: path.join(dir, "cron", "jobs.json"),
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+async function makeService(storePath: string) {
+  const cron = new CronService({
+    storePath,
+    cronEnabled: false,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+  });
+  await cron.start();
+  return cron;
+}
+
+describe("CronService export/import", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T10:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("round-trips jobs through YAML into another store", async () => {
+    const source = await makeStorePath();
+    const target = await makeStorePath();
+    const cronA = await makeService(source.storePath);
+    const report = await cronA.add({
+      name: "report",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 9 * * 1-5", tz: "UTC" },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "build report" },
+      delivery: { mode: "none" },
+      retry: { maxAttempts: 2 },
+    });
+    await cronA.add({
+      name: "publish",
+      enabled: true,
+      schedule: { kind: "after", jobId: report.id },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "publish {{upstream.output}}" },
+      delivery: { mode: "none" },
+    });
+
+    const yaml = formatCronExportYaml(await cronA.exportJobs());
+    expect(yaml).not.toContain("nextRunAtMs");
+    const file = parseCronExportYaml(yaml);
+    const jobs = file.jobs as CronJobDefinition[];
+    // Dependents come after their upstream even when listed first.
+    const reversed = jobs.toReversed();
+
+    const cronB = await makeService(target.storePath);
+    const dryRun = await cronB.importJobs(reversed, { dryRun: true });
+    expect(dryRun.applied).toBe(false);
+    expect(dryRun.plan.create).toHaveLength(2);
+    expect(await cronB.list({ includeDisabled: true })).toHaveLength(0);
+
+    const applied = await cronB.importJobs(reversed);
+    expect(applied.applied).toBe(true);
+    const imported = await cronB.list({ includeDisabled: true });
+    expect(imported.map((job) => job.id).toSorted()).toEqual(jobs.map((job) => job.id).toSorted());
+    expect(imported.find((job) => job.id === report.id)?.state.nextRunAtMs).toBe(
+      Date.parse("2026-03-03T09:00:00.000Z"),
+    );
+
+    const again = await cronB.importJobs(jobs);
+    expect(again.plan.unchanged).toHaveLength(2);
+
+    cronA.stop();
+    cronB.stop();
+    await source.cleanup();
+    await target.cleanup();
+  });
+
+  it("reports conflicts and honours skip, overwrite and prune", async () => {
+    const store = await makeStorePath();
+    const cron = await makeService(store.storePath);
+    const job = await cron.add({
+      name: "ping",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "ping" },
+    });
+    const extra = await cron.add({
+      name: "extra",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "extra" },
+    });
+
+    const { jobs } = await cron.exportJobs({ ids: [job.id] });
+    const edited: CronJobDefinition = {
+      ...jobs[0],
+      payload: { kind: "systemEvent", text: "pong" },
+    };
+
+    const failed = await cron.importJobs([edited]);
+    expect(failed.applied).toBe(false);
+    expect(failed.plan.conflicts).toEqual([{ id: job.id, fields: ["payload"] }]);
+
+    const skipped = await cron.importJobs([edited], { onConflict: "skip" });
+    expect(skipped.plan.skipped).toHaveLength(1);
+    let [current] = (await cron.list({ includeDisabled: true })).filter((j) => j.id === job.id);
+    expect(current.payload).toEqual({ kind: "systemEvent", text: "ping" });
+
+    const overwritten = await cron.importJobs([edited], { onConflict: "overwrite", prune: true });
+    expect(overwritten.plan.update).toEqual([{ id: job.id, fields: ["payload"] }]);
+    expect(overwritten.plan.remove).toEqual([extra.id]);
+    const remaining = await cron.list({ includeDisabled: true });
+    expect(remaining).toHaveLength(1);
+    [current] = remaining;
+    expect(current.payload).toEqual({ kind: "systemEvent", text: "pong" });
+    expect(current.createdAtMs).toBe(job.createdAtMs);
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects unsupported export versions", () => {
+    expect(() => parseCronExportYaml("version: 2\njobs: []\n")).toThrow(
+      "unsupported cron export version: 2",
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+async function makeStorePath() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-"));
+  return {
+    storePath: path.join(dir, "cron", "jobs.json"),
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+describe("CronService retry policy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-13T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("schedules retries with backoff, then marks the job dead", async () => {
+    const store = await makeStorePath();
+    const onJobDead = vi.fn();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "error" as const, error: "boom" })),
+      onJobDead,
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "flaky",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60 * 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "try" },
+      delivery: { mode: "none" },
+      retry: { maxAttempts: 2, backoffMs: 10_000, deadAfter: 3 },
+    });
+
+    await cron.run(job.id, "force");
+    let [current] = await cron.list({ includeDisabled: true });
+    expect(current?.state.retryAttempt).toBe(1);
+    expect(current?.state.nextRunAtMs).toBe(Date.now() + 10_000);
+
+    await cron.run(job.id, "force");
+    [current] = await cron.list({ includeDisabled: true });
+    expect(current?.state.retryAttempt).toBe(0);
+    expect(current?.state.consecutiveErrors).toBe(2);
+    expect(current?.enabled).toBe(true);
+
+    await cron.run(job.id, "force");
+    [current] = await cron.list({ includeDisabled: true });
+    expect(current?.enabled).toBe(false);
+    expect(current?.state.deadAtMs).toBe(Date.now());
+    await vi.waitFor(() => expect(onJobDead).toHaveBeenCalledTimes(1));
+    expect(onJobDead.mock.calls[0]?.[0]).toMatchObject({ error: "boom" });
+
+    const revived = await cron.revive(job.id);
+    expect(revived.enabled).toBe(true);
+    expect(revived.state.deadAtMs).toBeUndefined();
+    expect(revived.state.consecutiveErrors).toBe(0);
+    expect(revived.state.nextRunAtMs).toBeGreaterThan(Date.now());
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
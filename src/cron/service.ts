@@ -1,3 +1,4 @@
+import type { CronImportConflictMode, CronJobDefinition } from "./export.js";
 import type { CronJobCreate, CronJobPatch } from "./types.js";
 import * as ops from "./service/ops.js";
 import { type CronServiceDeps, createCronServiceState } from "./service/state.js";
@@ -34,6 +35,21 @@ export class CronService {
     return await ops.update(this.state, id, patch);
   }
 
+  async revive(id: string) {
+    return await ops.revive(this.state, id);
+  }
+
+  async exportJobs(opts?: { ids?: string[]; includeDisabled?: boolean }) {
+    return await ops.exportJobs(this.state, opts);
+  }
+
+  async importJobs(
+    jobs: CronJobDefinition[],
+    opts?: { dryRun?: boolean; onConflict?: CronImportConflictMode; prune?: boolean },
+  ) {
+    return await ops.importJobs(this.state, jobs, opts);
+  }
+
   async remove(id: string) {
     return await ops.remove(this.state, id);
   }
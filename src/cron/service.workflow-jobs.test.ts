@@ -0,0 +1,70 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+
+const noopLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+describe("CronService workflow jobs", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("starts the workflow instead of an agent turn", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const }));
+    const runWorkflow = vi.fn(async () => ({
+      status: "ok" as const,
+      summary: "Workflow digest started (abcd1234)",
+    }));
+    const cron = new CronService({
+      storePath: path.join(dir, "cron", "jobs.json"),
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+      runWorkflow,
+    });
+    await cron.start();
+    const job = await cron.add({
+      name: "digest",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "workflow", workflow: "digest", inputs: { feed: "hn" } },
+    });
+
+    await cron.run(job.id, "force");
+
+    expect(runWorkflow).toHaveBeenCalledWith(
+      expect.objectContaining({ workflow: "digest", inputs: { feed: "hn" } }),
+    );
+    expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+    const [updated] = await cron.list({ includeDisabled: true });
+    expect(updated?.state.lastStatus).toBe("ok");
+    await expect(
+      cron.add({
+        name: "bad",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 60_000 },
+        sessionTarget: "main",
+        wakeMode: "now",
+        payload: { kind: "workflow", workflow: "digest" },
+      }),
+    ).rejects.toThrow(/main cron jobs require/);
+    cron.stop();
+  });
+});
@@ -9,6 +9,13 @@ import type {
   CronPayloadPatch,
 } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import { findAfterCycle } from "../chain.js";
+import {
+  isValidExclusionDate,
+  loadIcsCalendar,
+  parseExclusionTime,
+  parseExclusionWeekday,
+} from "../exclusions.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
 import { computeNextRunAtMs } from "../schedule.js";
 import {
@@ -35,8 +42,105 @@ export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "pay
   if (job.sessionTarget === "main" && job.payload.kind !== "systemEvent") {
     throw new Error('main cron jobs require payload.kind="systemEvent"');
   }
-  if (job.sessionTarget === "isolated" && job.payload.kind !== "agentTurn") {
-    throw new Error('isolated cron jobs require payload.kind="agentTurn"');
+  if (
+    job.sessionTarget === "isolated" &&
+    job.payload.kind !== "agentTurn" &&
+    job.payload.kind !== "workflow"
+  ) {
+    throw new Error('isolated cron jobs require payload.kind="agentTurn" or "workflow"');
+  }
+}
+
+export function assertValidAfterSchedule(state: CronServiceState, job: CronJob) {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const upstreamId = job.schedule.jobId?.trim();
+  if (!upstreamId) {
+    throw new Error('cron schedule.kind="after" requires jobId');
+  }
+  if (upstreamId === job.id) {
+    throw new Error("cron job cannot run after itself");
+  }
+  const jobs = state.store?.jobs ?? [];
+  if (!jobs.some((j) => j.id === upstreamId)) {
+    throw new Error(`unknown upstream cron job id: ${upstreamId}`);
+  }
+  if (findAfterCycle(jobs, job.id, upstreamId)) {
+    throw new Error(`cron job dependency cycle: ${job.id} -> ${upstreamId}`);
+  }
+}
+
+function assertValidExclusions(job: Pick<CronJob, "exclusions">) {
+  const exclusions = job.exclusions;
+  if (!exclusions) {
+    return;
+  }
+  if (exclusions.tz) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: exclusions.tz });
+    } catch {
+      throw new Error(`invalid cron exclusions timezone: ${exclusions.tz}`);
+    }
+  }
+  for (const range of exclusions.dates ?? []) {
+    if (!isValidExclusionDate(range.start) || (range.end && !isValidExclusionDate(range.end))) {
+      throw new Error("cron exclusion dates must use YYYY-MM-DD");
+    }
+    if (range.end && range.end < range.start) {
+      throw new Error(`cron exclusion date range ends before it starts: ${range.start}`);
+    }
+  }
+  for (const weekday of exclusions.weekdays ?? []) {
+    if (parseExclusionWeekday(weekday) === null) {
+      throw new Error(`invalid cron exclusion weekday: ${weekday}`);
+    }
+  }
+  for (const window of exclusions.quietHours ?? []) {
+    if (parseExclusionTime(window.start) === null || parseExclusionTime(window.end) === null) {
+      throw new Error("cron quiet hours must use HH:MM");
+    }
+  }
+}
+
+/** Checked when a calendar is set or changed, not on every patch or scheduling pass. */
+export async function assertReadableHolidayCalendar(icsPath: string | undefined) {
+  if (icsPath && !(await loadIcsCalendar(icsPath))) {
+    throw new Error(`cron holiday calendar not readable: ${icsPath}`);
+  }
+}
+
+/**
+ * Reads a job's holiday calendar, warning once per path while it stays unreadable.
+ * Its events are ignored until the file can be read again.
+ */
+export async function loadJobHolidayCalendar(state: CronServiceState, icsPath: string) {
+  const events = await loadIcsCalendar(icsPath, (err) => {
+    if (state.unreadableCalendars.has(icsPath)) {
+      return;
+    }
+    state.unreadableCalendars.add(icsPath);
+    state.deps.log.warn(
+      { icsPath, err: String(err) },
+      "cron: holiday calendar not readable; ignoring its events",
+    );
+  });
+  if (events) {
+    state.unreadableCalendars.delete(icsPath);
+  }
+  return events;
+}
+
+/** Refreshes the calendar cache that scheduling passes read when hopping over holidays. */
+export async function loadHolidayCalendars(state: CronServiceState) {
+  const paths = new Set<string>();
+  for (const job of state.store?.jobs ?? []) {
+    if (job.exclusions?.icsPath) {
+      paths.add(job.exclusions.icsPath);
+    }
+  }
+  for (const icsPath of paths) {
+    await loadJobHolidayCalendar(state, icsPath);
   }
 }
 
@@ -63,7 +167,7 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
       schedule: job.schedule,
       fallbackAnchorMs: job.createdAtMs,
     });
-    return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs);
+    return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs, job.exclusions);
   }
   if (job.schedule.kind === "at") {
     // One-shot jobs stay due until they successfully finish.
@@ -84,7 +188,11 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
             : null;
     return atMs !== null ? atMs : undefined;
   }
-  return computeNextRunAtMs(job.schedule, nowMs);
+  if (job.schedule.kind === "after") {
+    // Due as soon as an upstream run queued it; otherwise idle until triggered.
+    return job.state.pendingTrigger?.firedAtMs;
+  }
+  return computeNextRunAtMs(job.schedule, nowMs, job.exclusions);
 }
 
 export function recomputeNextRuns(state: CronServiceState): boolean {
@@ -122,6 +230,10 @@ export function recomputeNextRuns(state: CronServiceState): boolean {
     // Preserving a still-future nextRunAtMs avoids accidentally advancing
     // a job that hasn't fired yet (e.g. during restart recovery).
     const nextRun = job.state.nextRunAtMs;
+    if ((job.state.retryAttempt ?? 0) > 0 && nextRun !== undefined) {
+      // A scheduled retry owns nextRunAtMs until it has run.
+      continue;
+    }
     const isDueOrMissing = nextRun === undefined || now >= nextRun;
     if (isDueOrMissing) {
       const newNext = computeJobNextRunAtMs(job, now);
@@ -146,9 +258,13 @@ export function nextWakeAtMs(state: CronServiceState) {
   );
 }
 
-export function createJob(state: CronServiceState, input: CronJobCreate): CronJob {
+export function createJob(
+  state: CronServiceState,
+  input: CronJobCreate,
+  opts?: { id?: string },
+): CronJob {
   const now = state.deps.nowMs();
-  const id = crypto.randomUUID();
+  const id = opts?.id ?? crypto.randomUUID();
   const schedule =
     input.schedule.kind === "every"
       ? {
@@ -180,12 +296,16 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry,
+    exclusions: input.exclusions,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidExclusions(job);
+  assertValidAfterSchedule(state, job);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -232,6 +352,14 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery) {
     job.delivery = undefined;
   }
+  if ("retry" in patch) {
+    // Retry patches merge into the existing policy; null clears it.
+    job.retry = patch.retry ? { ...job.retry, ...patch.retry } : undefined;
+  }
+  if ("exclusions" in patch) {
+    // Each exclusion field is replaced as a whole; null clears all of them.
+    job.exclusions = patch.exclusions ? { ...job.exclusions, ...patch.exclusions } : undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -240,6 +368,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidExclusions(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -255,6 +384,17 @@ function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronP
     return { kind: "systemEvent", text };
   }
 
+  if (patch.kind === "workflow") {
+    if (existing.kind !== "workflow") {
+      return buildPayloadFromPatch(patch);
+    }
+    return {
+      kind: "workflow",
+      workflow: typeof patch.workflow === "string" ? patch.workflow : existing.workflow,
+      inputs: patch.inputs ?? existing.inputs,
+    };
+  }
+
   if (existing.kind !== "agentTurn") {
     return buildPayloadFromPatch(patch);
   }
@@ -339,6 +479,13 @@ function buildPayloadFromPatch(patch: CronPayloadPatch): CronPayload {
     return { kind: "systemEvent", text: patch.text };
   }
 
+  if (patch.kind === "workflow") {
+    if (typeof patch.workflow !== "string" || patch.workflow.length === 0) {
+      throw new Error('cron.update payload.kind="workflow" requires workflow');
+    }
+    return { kind: "workflow", workflow: patch.workflow, inputs: patch.inputs };
+  }
+
   if (typeof patch.message !== "string" || patch.message.length === 0) {
     throw new Error('cron.update payload.kind="agentTurn" requires message');
   }
@@ -386,6 +533,14 @@ function mergeCronDelivery(
   return next;
 }
 
+/** Clear dead-letter and retry bookkeeping so a job starts from a clean slate. */
+export function reviveJobState(job: CronJob) {
+  job.state.deadAtMs = undefined;
+  job.state.consecutiveErrors = 0;
+  job.state.retryAttempt = 0;
+  job.state.lastError = undefined;
+}
+
 export function isJobDue(job: CronJob, nowMs: number, opts: { forced: boolean }) {
   if (!job.state) {
     job.state = {};
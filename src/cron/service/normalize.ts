@@ -41,14 +41,16 @@ export function normalizeOptionalAgentId(raw: unknown) {
 
 export function inferLegacyName(job: {
   schedule?: { kind?: unknown; everyMs?: unknown; expr?: unknown };
-  payload?: { kind?: unknown; text?: unknown; message?: unknown };
+  payload?: { kind?: unknown; text?: unknown; message?: unknown; workflow?: unknown };
 }) {
   const text =
     job?.payload?.kind === "systemEvent" && typeof job.payload.text === "string"
       ? job.payload.text
       : job?.payload?.kind === "agentTurn" && typeof job.payload.message === "string"
         ? job.payload.message
-        : "";
+        : job?.payload?.kind === "workflow" && typeof job.payload.workflow === "string"
+          ? `Workflow: ${job.payload.workflow}`
+          : "";
   const firstLine =
     text
       .split("\n")
@@ -75,5 +77,5 @@ export function normalizePayloadToSystemText(payload: CronPayload) {
   if (payload.kind === "systemEvent") {
     return payload.text.trim();
   }
-  return payload.message.trim();
+  return payload.kind === "agentTurn" ? payload.message.trim() : "";
 }
@@ -1,13 +1,25 @@
-import type { CronJobCreate, CronJobPatch } from "../types.js";
+import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import {
+  CRON_EXPORT_VERSION,
+  type CronExportFile,
+  type CronImportConflictMode,
+  type CronJobDefinition,
+  planCronImport,
+  sortCronDefinitionsForImport,
+  toCronJobDefinition,
+} from "../export.js";
 import {
   applyJobPatch,
+  assertReadableHolidayCalendar,
+  assertValidAfterSchedule,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
   isJobDue,
   nextWakeAtMs,
   recomputeNextRuns,
+  reviveJobState,
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
@@ -86,6 +98,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
   return await locked(state, async () => {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
+    await assertReadableHolidayCalendar(input.exclusions?.icsPath);
     const job = createJob(state, input);
     state.store?.jobs.push(job);
 
@@ -122,7 +135,19 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state);
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule) {
+      assertValidAfterSchedule(state, { ...job, schedule: patch.schedule });
+    }
+    if (patch.exclusions?.icsPath && patch.exclusions.icsPath !== job.exclusions?.icsPath) {
+      await assertReadableHolidayCalendar(patch.exclusions.icsPath);
+    }
     applyJobPatch(job, patch);
+    if (patch.enabled === true && job.state.deadAtMs !== undefined) {
+      reviveJobState(job);
+    }
+    if (job.schedule.kind !== "after") {
+      job.state.pendingTrigger = undefined;
+    }
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
       if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
@@ -139,7 +164,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
         };
       }
     }
-    const scheduleChanged = patch.schedule !== undefined;
+    const scheduleChanged = patch.schedule !== undefined || patch.exclusions !== undefined;
     const enabledChanged = patch.enabled !== undefined;
 
     job.updatedAtMs = now;
@@ -163,6 +188,145 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
   });
 }
 
+export async function revive(state: CronServiceState, id: string) {
+  return await locked(state, async () => {
+    warnIfDisabled(state, "revive");
+    await ensureLoaded(state);
+    const job = findJobOrThrow(state, id);
+    const now = state.deps.nowMs();
+    reviveJobState(job);
+    job.enabled = true;
+    job.updatedAtMs = now;
+    job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+    await persist(state);
+    armTimer(state);
+    state.deps.log.info({ jobId: job.id, nextRunAtMs: job.state.nextRunAtMs }, "cron: job revived");
+    emit(state, {
+      jobId: id,
+      action: "updated",
+      nextRunAtMs: job.state.nextRunAtMs,
+    });
+    return job;
+  });
+}
+
+export async function exportJobs(
+  state: CronServiceState,
+  opts?: { ids?: string[]; includeDisabled?: boolean },
+): Promise<CronExportFile> {
+  return await locked(state, async () => {
+    await ensureLoaded(state, { skipRecompute: true });
+    const ids = opts?.ids?.length ? new Set(opts.ids) : null;
+    const includeDisabled = opts?.includeDisabled !== false;
+    const jobs = (state.store?.jobs ?? []).filter(
+      (job) => (!ids || ids.has(job.id)) && (includeDisabled || job.enabled),
+    );
+    return { version: CRON_EXPORT_VERSION, jobs: jobs.map(toCronJobDefinition) };
+  });
+}
+
+/** Hand-written "every" definitions may omit the anchor; keep the live one so they diff clean. */
+function inheritEveryAnchor(def: CronJobDefinition, existing?: CronJob): CronJobDefinition {
+  if (
+    def.schedule.kind !== "every" ||
+    def.schedule.anchorMs !== undefined ||
+    existing?.schedule.kind !== "every"
+  ) {
+    return def;
+  }
+  return { ...def, schedule: { ...def.schedule, anchorMs: existing.schedule.anchorMs } };
+}
+
+export async function importJobs(
+  state: CronServiceState,
+  input: CronJobDefinition[],
+  opts?: { dryRun?: boolean; onConflict?: CronImportConflictMode; prune?: boolean },
+) {
+  return await locked(state, async () => {
+    warnIfDisabled(state, "import");
+    await ensureLoaded(state);
+    if (!state.store) {
+      throw new Error("cron store not loaded");
+    }
+    const seen = new Set<string>();
+    for (const def of input) {
+      if (seen.has(def.id)) {
+        throw new Error(`duplicate cron job id in import: ${def.id}`);
+      }
+      seen.add(def.id);
+    }
+    const store = state.store;
+    const byId = new Map(store.jobs.map((job) => [job.id, job]));
+    const defs = input.map((def) => inheritEveryAnchor(def, byId.get(def.id)));
+    const plan = planCronImport(store.jobs, defs, opts);
+    if (opts?.dryRun || plan.conflicts.length > 0) {
+      return { applied: false, plan };
+    }
+
+    for (const def of defs) {
+      if (def.exclusions?.icsPath !== byId.get(def.id)?.exclusions?.icsPath) {
+        await assertReadableHolidayCalendar(def.exclusions?.icsPath);
+      }
+    }
+
+    const snapshot = structuredClone(store.jobs);
+    const now = state.deps.nowMs();
+    const creates = new Set(plan.create);
+    const updates = new Set(plan.update.map((entry) => entry.id));
+    try {
+      store.jobs = store.jobs.filter((job) => !plan.remove.includes(job.id));
+      for (const def of sortCronDefinitionsForImport(defs)) {
+        const { id, ...create } = def;
+        if (creates.has(id)) {
+          store.jobs.push(createJob(state, create, { id }));
+        } else if (updates.has(id)) {
+          const existing = findJobOrThrow(state, id);
+          const next = createJob(state, create, { id });
+          Object.assign(existing, next, {
+            createdAtMs: existing.createdAtMs,
+            updatedAtMs: now,
+            state: existing.state,
+          });
+          if (existing.schedule.kind !== "after") {
+            existing.state.pendingTrigger = undefined;
+          }
+          existing.state.nextRunAtMs = computeJobNextRunAtMs(existing, now);
+        }
+      }
+      for (const job of store.jobs) {
+        assertValidAfterSchedule(state, job);
+      }
+    } catch (err) {
+      store.jobs = snapshot;
+      throw err;
+    }
+
+    recomputeNextRuns(state);
+    await persist(state);
+    armTimer(state);
+    state.deps.log.info(
+      {
+        created: plan.create.length,
+        updated: plan.update.length,
+        removed: plan.remove.length,
+      },
+      "cron: jobs imported",
+    );
+    for (const id of plan.remove) {
+      emit(state, { jobId: id, action: "removed" });
+    }
+    for (const id of [...plan.create, ...updates]) {
+      const job = store.jobs.find((j) => j.id === id);
+      emit(state, {
+        jobId: id,
+        action: creates.has(id) ? "added" : "updated",
+        nextRunAtMs: job?.state.nextRunAtMs,
+      });
+    }
+    return { applied: true, plan };
+  });
+}
+
 export async function remove(state: CronServiceState, id: string) {
   return await locked(state, async () => {
     warnIfDisabled(state, "remove");
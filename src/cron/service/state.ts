@@ -3,7 +3,7 @@ import type { CronJob, CronJobCreate, CronJobPatch, CronStoreFile } from "../typ
 
 export type CronEvent = {
   jobId: string;
-  action: "added" | "updated" | "removed" | "started" | "finished";
+  action: "added" | "updated" | "removed" | "started" | "finished" | "dead";
   runAtMs?: number;
   durationMs?: number;
   status?: "ok" | "error" | "skipped";
@@ -12,6 +12,12 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Upstream job id when this run was queued by a dependency chain. */
+  triggeredBy?: string;
+  /** Job ids from the chain root down to this job (chained runs only). */
+  chain?: string[];
+  /** Retry number scheduled after this run failed (finished events only). */
+  retryAttempt?: number;
 };
 
 export type Logger = {
@@ -38,7 +44,15 @@ export type CronServiceDeps = {
     sessionId?: string;
     sessionKey?: string;
   }>;
+  /** Starts a workspace workflow for `payload.kind="workflow"` jobs; completion is reported by the runner. */
+  runWorkflow?: (params: {
+    job: CronJob;
+    workflow: string;
+    inputs: Record<string, string>;
+  }) => Promise<{ status: "ok" | "error" | "skipped"; summary?: string; error?: string }>;
   onEvent?: (evt: CronEvent) => void;
+  /** Called after a job exhausts `retry.deadAfter` and is disabled. */
+  onJobDead?: (params: { job: CronJob; error?: string }) => Promise<void> | void;
 };
 
 export type CronServiceDepsInternal = Omit<CronServiceDeps, "nowMs"> & {
@@ -52,6 +66,8 @@ export type CronServiceState = {
   running: boolean;
   op: Promise<unknown>;
   warnedDisabled: boolean;
+  /** Holiday calendars already reported as unreadable; cleared once they load again. */
+  unreadableCalendars: Set<string>;
   storeLoadedAtMs: number | null;
   storeFileMtimeMs: number | null;
 };
@@ -64,6 +80,7 @@ export function createCronServiceState(deps: CronServiceDeps): CronServiceState
     running: false,
     op: Promise.resolve(),
     warnedDisabled: false,
+    unreadableCalendars: new Set(),
     storeLoadedAtMs: null,
     storeFileMtimeMs: null,
   };
@@ -85,6 +102,8 @@ export type CronRunResult =
   | { ok: true; ran: false; reason: "already-running" }
   | { ok: false };
 
+export type CronReviveResult = CronJob;
+
 export type CronRemoveResult = { ok: true; removed: boolean } | { ok: false; removed: false };
 
 export type CronAddResult = CronJob;
@@ -4,7 +4,7 @@ import type { CronServiceState } from "./state.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
 import { migrateLegacyCronPayload } from "../payload-migration.js";
 import { loadCronStore, saveCronStore } from "../store.js";
-import { recomputeNextRuns } from "./jobs.js";
+import { loadHolidayCalendars, recomputeNextRuns } from "./jobs.js";
 import { inferLegacyName, normalizeOptionalText } from "./normalize.js";
 
 function hasLegacyDeliveryHints(payload: Record<string, unknown>) {
@@ -474,6 +474,7 @@ export async function ensureLoaded(
   state.store = { version: 1, jobs: jobs as unknown as CronJob[] };
   state.storeLoadedAtMs = state.deps.nowMs();
   state.storeFileMtimeMs = fileMtimeMs;
+  await loadHolidayCalendars(state);
 
   if (!opts?.skipRecompute) {
     recomputeNextRuns(state);
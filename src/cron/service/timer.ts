@@ -1,9 +1,13 @@
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import type { CronJob } from "../types.js";
 import type { CronEvent, CronServiceState } from "./state.js";
+import { createCronRetryScheduler } from "../../infra/retry-policy.js";
+import { findDependentJobs, MAX_CRON_CHAIN_DEPTH, renderCronChainMessage } from "../chain.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
+import { resolveCronExclusion } from "../exclusions.js";
 import {
   computeJobNextRunAtMs,
+  loadJobHolidayCalendar,
   nextWakeAtMs,
   recomputeNextRuns,
   resolveJobPayloadTextForMain,
@@ -37,10 +41,57 @@ function errorBackoffMs(consecutiveErrors: number): number {
   return ERROR_BACKOFF_SCHEDULE_MS[Math.max(0, idx)];
 }
 
+function resolveRetryAtMs(job: CronJob, endedAt: number): number | undefined {
+  if (!job.retry) {
+    return undefined;
+  }
+  const scheduler = createCronRetryScheduler({
+    attempts: job.retry.maxAttempts,
+    minDelayMs: job.retry.backoffMs,
+    maxDelayMs: job.retry.maxBackoffMs,
+    jitter: job.retry.jitter,
+  });
+  const retryNumber = (job.state.retryAttempt ?? 0) + 1;
+  if (retryNumber >= scheduler.maxAttempts) {
+    return undefined;
+  }
+  return endedAt + scheduler.delayMs(retryNumber);
+}
+
+function markJobDead(
+  state: CronServiceState,
+  job: CronJob,
+  error: string | undefined,
+  atMs: number,
+) {
+  job.enabled = false;
+  job.state.deadAtMs = atMs;
+  job.state.retryAttempt = 0;
+  job.state.nextRunAtMs = undefined;
+  job.state.pendingTrigger = undefined;
+  state.deps.log.warn(
+    {
+      jobId: job.id,
+      jobName: job.name,
+      consecutiveErrors: job.state.consecutiveErrors,
+      error,
+    },
+    "cron: job marked dead after consecutive failures",
+  );
+  emit(state, { jobId: job.id, action: "dead", error, runAtMs: atMs });
+  if (state.deps.onJobDead) {
+    void Promise.resolve()
+      .then(() => state.deps.onJobDead?.({ job: structuredClone(job), error }))
+      .catch((err) => {
+        state.deps.log.warn({ jobId: job.id, err: String(err) }, "cron: dead-job announce failed");
+      });
+  }
+}
+
 /**
  * Apply the result of a job execution to the job's state.
- * Handles consecutive error tracking, exponential backoff, one-shot disable,
- * and nextRunAtMs computation. Returns `true` if the job should be deleted.
+ * Handles consecutive error tracking, retries, dead-lettering, exponential
+ * backoff, one-shot disable, and nextRunAtMs computation.
  */
 function applyJobResult(
   state: CronServiceState,
@@ -51,7 +102,7 @@ function applyJobResult(
     startedAt: number;
     endedAt: number;
   },
-): boolean {
+): { shouldDelete: boolean; retrying: boolean } {
   job.state.runningAtMs = undefined;
   job.state.lastRunAtMs = result.startedAt;
   job.state.lastStatus = result.status;
@@ -66,6 +117,44 @@ function applyJobResult(
     job.state.consecutiveErrors = 0;
   }
 
+  const deadAfter = job.retry?.deadAfter;
+  if (
+    result.status === "error" &&
+    job.enabled &&
+    typeof deadAfter === "number" &&
+    deadAfter > 0 &&
+    (job.state.consecutiveErrors ?? 0) >= deadAfter
+  ) {
+    markJobDead(state, job, result.error, result.endedAt);
+    return { shouldDelete: false, retrying: false };
+  }
+
+  const retryAtMs =
+    result.status === "error" && job.enabled ? resolveRetryAtMs(job, result.endedAt) : undefined;
+  if (retryAtMs !== undefined) {
+    // Keep any pending upstream trigger so the retry sees the same input.
+    job.state.retryAttempt = (job.state.retryAttempt ?? 0) + 1;
+    job.state.nextRunAtMs = retryAtMs;
+    state.deps.log.info(
+      {
+        jobId: job.id,
+        retryAttempt: job.state.retryAttempt,
+        maxAttempts: job.retry?.maxAttempts,
+        nextRunAtMs: retryAtMs,
+      },
+      "cron: scheduling retry",
+    );
+    return { shouldDelete: false, retrying: true };
+  }
+  job.state.retryAttempt = 0;
+
+  // Consume the trigger this run was started for; a newer one queued while
+  // the job was running stays pending and fires next.
+  const pending = job.state.pendingTrigger;
+  if (pending && pending.firedAtMs <= result.startedAt) {
+    job.state.pendingTrigger = undefined;
+  }
+
   const shouldDelete =
     job.schedule.kind === "at" && result.status === "ok" && job.deleteAfterRun === true;
 
@@ -87,6 +176,10 @@ function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
+    } else if (job.schedule.kind === "after") {
+      // Once retries are exhausted, dependent jobs wait for the next upstream
+      // run instead of replaying stale upstream output.
+      job.state.nextRunAtMs = job.enabled ? computeJobNextRunAtMs(job, result.endedAt) : undefined;
     } else if (result.status === "error" && job.enabled) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
@@ -105,13 +198,80 @@ function applyJobResult(
         "cron: applying error backoff",
       );
     } else if (job.enabled) {
-      job.state.nextRunAtMs = computeJobNextRunAtMs(job, result.endedAt);
+      // Skipped slots finish within the second they fired in; never hand that slot back.
+      const next = computeJobNextRunAtMs(job, result.endedAt);
+      job.state.nextRunAtMs =
+        next !== undefined && next <= result.startedAt
+          ? computeJobNextRunAtMs(job, result.startedAt + 1000)
+          : next;
     } else {
       job.state.nextRunAtMs = undefined;
     }
   }
 
-  return shouldDelete;
+  return { shouldDelete, retrying: false };
+}
+
+type CronRunOutcome = {
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  summary?: string;
+  outputText?: string;
+  startedAt: number;
+  endedAt: number;
+};
+
+/** Lineage of a run: the chain that queued it plus the job itself. */
+function resolveRunChain(job: CronJob): string[] {
+  return [...(job.state.pendingTrigger?.chain ?? []), job.id];
+}
+
+/**
+ * Queue every enabled "after" job waiting on `upstream` so it becomes due
+ * immediately, carrying the upstream output for its message template.
+ */
+function queueDependentJobs(
+  state: CronServiceState,
+  upstream: CronJob,
+  chain: string[],
+  outcome: CronRunOutcome,
+) {
+  if (!state.store) {
+    return;
+  }
+  const dependents = findDependentJobs(state.store.jobs, upstream.id, outcome.status);
+  for (const job of dependents) {
+    if (chain.includes(job.id)) {
+      state.deps.log.warn(
+        { jobId: job.id, upstreamJobId: upstream.id, chain },
+        "cron: skipping dependent job that would repeat in its own chain",
+      );
+      continue;
+    }
+    if (chain.length >= MAX_CRON_CHAIN_DEPTH) {
+      state.deps.log.warn(
+        { jobId: job.id, upstreamJobId: upstream.id, depth: chain.length },
+        "cron: dependency chain too deep; not triggering dependent job",
+      );
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status: outcome.status === "error" ? "error" : "ok",
+      runAtMs: outcome.startedAt,
+      firedAtMs: outcome.endedAt,
+      summary: outcome.summary,
+      outputText: outcome.outputText,
+      error: outcome.error,
+      chain,
+    };
+    job.state.nextRunAtMs = outcome.endedAt;
+    state.deps.log.info(
+      { jobId: job.id, upstreamJobId: upstream.id, upstreamStatus: outcome.status },
+      "cron: dependent job queued",
+    );
+  }
 }
 
 export function armTimer(state: CronServiceState) {
@@ -190,6 +350,7 @@ export async function onTimer(state: CronServiceState) {
       status: "ok" | "error" | "skipped";
       error?: string;
       summary?: string;
+      outputText?: string;
       sessionId?: string;
       sessionKey?: string;
       startedAt: number;
@@ -243,7 +404,9 @@ export async function onTimer(state: CronServiceState) {
             continue;
           }
 
-          const shouldDelete = applyJobResult(state, job, {
+          const trigger = job.state.pendingTrigger;
+          const chain = resolveRunChain(job);
+          const { shouldDelete, retrying } = applyJobResult(state, job, {
             status: result.status,
             error: result.error,
             startedAt: result.startedAt,
@@ -261,8 +424,15 @@ export async function onTimer(state: CronServiceState) {
             runAtMs: result.startedAt,
             durationMs: job.state.lastDurationMs,
             nextRunAtMs: job.state.nextRunAtMs,
+            triggeredBy: trigger?.jobId,
+            chain: trigger ? chain : undefined,
+            retryAttempt: retrying ? job.state.retryAttempt : undefined,
           });
 
+          if (!retrying) {
+            queueDependentJobs(state, job, chain, result);
+          }
+
           if (shouldDelete && state.store) {
             state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
             emit(state, { jobId: job.id, action: "removed" });
@@ -358,13 +528,29 @@ export async function runDueJobs(state: CronServiceState) {
 async function executeJobCore(
   state: CronServiceState,
   job: CronJob,
+  opts?: { forced?: boolean },
 ): Promise<{
   status: "ok" | "error" | "skipped";
   error?: string;
   summary?: string;
+  outputText?: string;
   sessionId?: string;
   sessionKey?: string;
 }> {
+  // Forced runs are explicit operator requests and ignore blackout windows.
+  const blackout = opts?.forced
+    ? null
+    : resolveCronExclusion(
+        job.exclusions,
+        state.deps.nowMs(),
+        job.schedule,
+        job.exclusions?.icsPath
+          ? await loadJobHolidayCalendar(state, job.exclusions.icsPath)
+          : null,
+      );
+  if (blackout) {
+    return { status: "skipped", error: `excluded: ${blackout.reason}` };
+  }
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
     if (!text) {
@@ -413,13 +599,28 @@ async function executeJobCore(
     }
   }
 
+  if (job.payload.kind === "workflow") {
+    if (!state.deps.runWorkflow) {
+      return { status: "skipped", error: "workflows are not available in this process" };
+    }
+    return await state.deps.runWorkflow({
+      job,
+      workflow: job.payload.workflow,
+      inputs: job.payload.inputs ?? {},
+    });
+  }
+
   if (job.payload.kind !== "agentTurn") {
     return { status: "skipped", error: "isolated job requires payload.kind=agentTurn" };
   }
 
+  const message =
+    job.schedule.kind === "after"
+      ? renderCronChainMessage(job.payload.message, job.state.pendingTrigger)
+      : job.payload.message;
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message,
   });
 
   // Post a short summary back to the main session.
@@ -439,6 +640,7 @@ async function executeJobCore(
     status: res.status,
     error: res.error,
     summary: res.summary,
+    outputText: res.outputText,
     sessionId: res.sessionId,
     sessionKey: res.sessionKey,
   };
@@ -452,7 +654,7 @@ export async function executeJob(
   state: CronServiceState,
   job: CronJob,
   _nowMs: number,
-  _opts: { forced: boolean },
+  opts: { forced: boolean },
 ) {
   if (!job.state) {
     job.state = {};
@@ -466,17 +668,20 @@ export async function executeJob(
     status: "ok" | "error" | "skipped";
     error?: string;
     summary?: string;
+    outputText?: string;
     sessionId?: string;
     sessionKey?: string;
   };
   try {
-    coreResult = await executeJobCore(state, job);
+    coreResult = await executeJobCore(state, job, { forced: opts.forced });
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
 
   const endedAt = state.deps.nowMs();
-  const shouldDelete = applyJobResult(state, job, {
+  const trigger = job.state.pendingTrigger;
+  const chain = resolveRunChain(job);
+  const { shouldDelete, retrying } = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
     startedAt,
@@ -494,8 +699,15 @@ export async function executeJob(
     runAtMs: startedAt,
     durationMs: job.state.lastDurationMs,
     nextRunAtMs: job.state.nextRunAtMs,
+    triggeredBy: trigger?.jobId,
+    chain: trigger ? chain : undefined,
+    retryAttempt: retrying ? job.state.retryAttempt : undefined,
   });
 
+  if (!retrying) {
+    queueDependentJobs(state, job, chain, { ...coreResult, startedAt, endedAt });
+  }
+
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
     emit(state, { jobId: job.id, action: "removed" });
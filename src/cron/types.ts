@@ -1,9 +1,13 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
+export type CronAfterStatus = "ok" | "error" | "any";
+
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "cron"; expr: string; tz?: string }
+  /** Fires when the upstream job finishes with a matching status (default "ok"). */
+  | { kind: "after"; jobId: string; status?: CronAfterStatus };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -35,6 +39,12 @@ export type CronPayload =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
+    }
+  | {
+      kind: "workflow";
+      /** Workflow name from the agent workspace's `workflows/` directory. */
+      workflow: string;
+      inputs?: Record<string, string>;
     };
 
 export type CronPayloadPatch =
@@ -50,7 +60,60 @@ export type CronPayloadPatch =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
-    };
+    }
+  | { kind: "workflow"; workflow?: string; inputs?: Record<string, string> };
+
+export type CronRetryPolicy = {
+  /** Attempts per scheduled run, including the first (default 1 = no retry). */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each further retry. */
+  backoffMs?: number;
+  /** Upper bound for the retry delay. */
+  maxBackoffMs?: number;
+  /** Random spread applied to each delay (0-1). */
+  jitter?: number;
+  /** Consecutive failed attempts before the job is marked dead and disabled. */
+  deadAfter?: number;
+};
+
+export type CronExclusionDateRange = {
+  /** Local calendar date (YYYY-MM-DD). */
+  start: string;
+  /** Inclusive end date; defaults to `start`. */
+  end?: string;
+};
+
+export type CronQuietHours = {
+  /** Local time HH:MM; windows may wrap past midnight (e.g. 22:00-07:00). */
+  start: string;
+  end: string;
+};
+
+/** Blackout windows: matching runs are pushed past the window or recorded as skipped. */
+export type CronExclusions = {
+  /** IANA timezone for all windows; defaults to the cron schedule tz, then the host tz. */
+  tz?: string;
+  dates?: CronExclusionDateRange[];
+  /** Local weekdays to skip (0 = Sunday). */
+  weekdays?: number[];
+  quietHours?: CronQuietHours[];
+  /** iCalendar file whose events (e.g. public holidays) are excluded. */
+  icsPath?: string;
+};
+
+/** Upstream run that queued a dependent ("after") job. */
+export type CronChainTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: "ok" | "error";
+  runAtMs: number;
+  firedAtMs: number;
+  summary?: string;
+  outputText?: string;
+  error?: string;
+  /** Job ids from the root of the chain down to (and including) the upstream job. */
+  chain: string[];
+};
 
 export type CronJobState = {
   nextRunAtMs?: number;
@@ -61,6 +124,12 @@ export type CronJobState = {
   lastDurationMs?: number;
   /** Number of consecutive execution errors (reset on success). Used for backoff. */
   consecutiveErrors?: number;
+  /** Retries already scheduled for the current run (0 when not retrying). */
+  retryAttempt?: number;
+  /** Set when the job was disabled after exhausting `retry.deadAfter`. */
+  deadAtMs?: number;
+  /** Set when an upstream job finished and this "after" job is waiting to run. */
+  pendingTrigger?: CronChainTrigger;
 };
 
 export type CronJob = {
@@ -77,6 +146,8 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
+  exclusions?: CronExclusions;
   state: CronJobState;
 };
 
@@ -89,8 +160,14 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "retry" | "exclusions">
+> & {
   payload?: CronPayloadPatch;
+  /** Merged into the existing policy; null clears it. */
+  retry?: CronRetryPolicy | null;
+  /** Merged field-by-field into the existing exclusions; null clears them. */
+  exclusions?: CronExclusions | null;
   delivery?: CronDeliveryPatch;
   state?: Partial<CronJobState>;
 };
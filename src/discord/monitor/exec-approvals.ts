@@ -23,6 +23,7 @@ export type ExecApprovalRequest = {
     agentId?: string | null;
     resolvedPath?: string | null;
     sessionKey?: string | null;
+    reason?: string | null;
   };
   createdAtMs: number;
   expiresAtMs: number;
@@ -76,7 +77,12 @@ export function parseExecApprovalData(
     return null;
   }
   const action = rawAction as ExecApprovalDecision;
-  if (action !== "allow-once" && action !== "allow-always" && action !== "deny") {
+  if (
+    action !== "allow-once" &&
+    action !== "allow-session" &&
+    action !== "allow-always" &&
+    action !== "deny"
+  ) {
     return null;
   }
   return {
@@ -123,6 +129,15 @@ function formatExecApprovalEmbed(request: ExecApprovalRequest) {
     });
   }
 
+  if (request.request.reason) {
+    const reason = request.request.reason;
+    fields.push({
+      name: "Why",
+      value: reason.length > 1000 ? `${reason.slice(0, 1000)}...` : reason,
+      inline: false,
+    });
+  }
+
   return {
     title: "Exec Approval Required",
     description: "A command needs your approval.",
@@ -144,9 +159,11 @@ function formatResolvedEmbed(
   const decisionLabel =
     decision === "allow-once"
       ? "Allowed (once)"
-      : decision === "allow-always"
-        ? "Allowed (always)"
-        : "Denied";
+      : decision === "allow-session"
+        ? "Allowed (this session)"
+        : decision === "allow-always"
+          ? "Allowed (always)"
+          : "Denied";
 
   const color = decision === "deny" ? 0xed4245 : decision === "allow-always" ? 0x5865f2 : 0x57f287;
 
@@ -343,6 +360,12 @@ export class DiscordExecApprovalHandler {
             label: "Allow once",
             custom_id: buildExecApprovalCustomId(request.id, "allow-once"),
           },
+          {
+            type: 2, // BUTTON
+            style: ButtonStyle.Secondary,
+            label: "Allow this session",
+            custom_id: buildExecApprovalCustomId(request.id, "allow-session"),
+          },
           {
             type: 2, // BUTTON
             style: ButtonStyle.Primary,
@@ -489,7 +512,11 @@ export class DiscordExecApprovalHandler {
     }
   }
 
-  async resolveApproval(approvalId: string, decision: ExecApprovalDecision): Promise<boolean> {
+  async resolveApproval(
+    approvalId: string,
+    decision: ExecApprovalDecision,
+    approver?: string,
+  ): Promise<boolean> {
     if (!this.gatewayClient) {
       logError("discord exec approvals: gateway client not connected");
       return false;
@@ -501,6 +528,8 @@ export class DiscordExecApprovalHandler {
       await this.gatewayClient.request("exec.approval.resolve", {
         id: approvalId,
         decision,
+        ...(approver ? { approver } : {}),
+        channel: "discord",
       });
       logDebug(`discord exec approvals: resolved ${approvalId} successfully`);
       return true;
@@ -543,9 +572,11 @@ export class ExecApprovalButton extends Button {
     const decisionLabel =
       parsed.action === "allow-once"
         ? "Allowed (once)"
-        : parsed.action === "allow-always"
-          ? "Allowed (always)"
-          : "Denied";
+        : parsed.action === "allow-session"
+          ? "Allowed (this session)"
+          : parsed.action === "allow-always"
+            ? "Allowed (always)"
+            : "Denied";
 
     // Update the message immediately to show the decision
     try {
@@ -557,7 +588,11 @@ export class ExecApprovalButton extends Button {
       // Interaction may have expired, try to continue anyway
     }
 
-    const ok = await this.ctx.handler.resolveApproval(parsed.approvalId, parsed.action);
+    const ok = await this.ctx.handler.resolveApproval(
+      parsed.approvalId,
+      parsed.action,
+      interaction.user?.id,
+    );
 
     if (!ok) {
       try {
@@ -1,3 +1,4 @@
+import type { APIAttachment } from "discord-api-types/v10";
 import { ChannelType, MessageType, type User } from "@buape/carbon";
 import type {
   DiscordMessagePreflightContext,
@@ -231,6 +232,10 @@ export async function preflightDiscordMessage(
     },
     // Pass parent peer for thread binding inheritance
     parentPeer: earlyThreadParentId ? { kind: "channel", id: earlyThreadParentId } : undefined,
+    message: {
+      text: messageText,
+      mediaTypes: message.attachments?.map((attachment: APIAttachment) => attachment.content_type),
+    },
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const explicitlyMentioned = Boolean(
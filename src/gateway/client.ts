@@ -301,7 +301,7 @@ export class GatewayClient {
         }
         const seq = typeof evt.seq === "number" ? evt.seq : null;
         if (seq !== null) {
-          if (this.lastSeq !== null && seq > this.lastSeq + 1) {
+          if (this.lastSeq !== null && seq > this.lastSeq + 1 && !evt.filtered) {
             this.opts.onGap?.({ expected: this.lastSeq + 1, received: seq });
           }
           this.lastSeq = seq;
@@ -10,6 +10,8 @@ export type ExecApprovalRequestPayload = {
   agentId?: string | null;
   resolvedPath?: string | null;
   sessionKey?: string | null;
+  /** Why the allowlist did not cover the command (one line per segment). */
+  reason?: string | null;
 };
 
 export type ExecApprovalRecord = {
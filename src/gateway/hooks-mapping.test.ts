@@ -13,6 +13,35 @@ describe("hooks mapping", () => {
     expect(mappings[0]?.matchPath).toBe("gmail");
   });
 
+  it("fills mapping fields and signature defaults from a provider preset", async () => {
+    const mappings = resolveHookMappings({
+      mappings: [{ preset: "github", deliver: false, signature: { secret: "s3cret" } }],
+    });
+    expect(mappings[0]).toMatchObject({
+      id: "github",
+      matchPath: "github",
+      deliver: false,
+      signature: { header: "x-hub-signature-256", prefix: "sha256=", secret: "s3cret" },
+    });
+    const result = await applyHookMappings(mappings, {
+      payload: {
+        action: "opened",
+        repository: { full_name: "acme/app" },
+        sender: { login: "octo" },
+        pull_request: { title: "Fix login", html_url: "https://github.com/acme/app/pull/7" },
+      },
+      headers: { "x-github-event": "pull_request" },
+      url: new URL("http://127.0.0.1:18789/hooks/github"),
+      path: "github",
+    });
+    expect(result?.ok).toBe(true);
+    if (result?.ok && result.action?.kind === "agent") {
+      expect(result.action.sessionKey).toBe("hook:github:acme/app");
+      expect(result.action.message).toContain("GitHub pull_request opened on acme/app by octo");
+      expect(result.action.message).toContain("https://github.com/acme/app/pull/7");
+    }
+  });
+
   it("renders template from payload", async () => {
     const mappings = resolveHookMappings({
       mappings: [
@@ -164,4 +193,39 @@ describe("hooks mapping", () => {
     });
     expect(result?.ok).toBe(false);
   });
+
+  it("renders workflow name and inputs for workflow mappings", async () => {
+    const mappings = resolveHookMappings({
+      mappings: [
+        {
+          match: { path: "github" },
+          action: "workflow",
+          workflow: "triage",
+          workflowInputs: { issue: "{{issue.number}}", title: "{{issue.title}}" },
+        },
+      ],
+    });
+    const result = await applyHookMappings(mappings, {
+      payload: { issue: { number: 42, title: "Crash on start" } },
+      headers: {},
+      url: new URL("http://127.0.0.1:18789/hooks/github"),
+      path: "github",
+    });
+    expect(result).toEqual({
+      ok: true,
+      action: {
+        kind: "workflow",
+        workflow: "triage",
+        inputs: { issue: "42", title: "Crash on start" },
+        name: undefined,
+      },
+      mappingId: "mapping-1",
+    });
+
+    const missing = await applyHookMappings(
+      resolveHookMappings({ mappings: [{ match: { path: "github" }, action: "workflow" }] }),
+      { payload: {}, headers: {}, url: baseUrl, path: "github" },
+    );
+    expect(missing).toEqual({ ok: false, error: "hook mapping requires workflow" });
+  });
 });
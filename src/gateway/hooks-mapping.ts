@@ -1,13 +1,18 @@
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import type { HookMessageChannel } from "./hooks.js";
-import { CONFIG_PATH, type HookMappingConfig, type HooksConfig } from "../config/config.js";
+import {
+  CONFIG_PATH,
+  type HookMappingConfig,
+  type HookSignatureConfig,
+  type HooksConfig,
+} from "../config/config.js";
 
 export type HookMappingResolved = {
   id: string;
   matchPath?: string;
   matchSource?: string;
-  action: "wake" | "agent";
+  action: "wake" | "agent" | "workflow";
   wakeMode?: "now" | "next-heartbeat";
   name?: string;
   sessionKey?: string;
@@ -20,7 +25,26 @@ export type HookMappingResolved = {
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
+  workflow?: string;
+  workflowInputs?: Record<string, string>;
   transform?: HookMappingTransformResolved;
+  signature?: HookSignatureResolved;
+};
+
+export type HookSignatureResolved = {
+  secret: string;
+  /** Lower-cased header name. */
+  header: string;
+  prefix: string;
+  encoding: "hex" | "base64";
+  /** The header is `t=<ts>,v1=<sig>[,v1=<sig>]` (Stripe) rather than a bare signature. */
+  keyValueHeader: boolean;
+  timestampHeader?: string;
+  /** Payload path holding the signing time when the provider sends it in the body (Linear). */
+  timestampField?: string;
+  toleranceSeconds: number;
+  signedPayload: string;
+  deliveryHeader?: string;
 };
 
 export type HookMappingTransformResolved = {
@@ -54,10 +78,16 @@ export type HookAction =
       model?: string;
       thinking?: string;
       timeoutSeconds?: number;
+    }
+  | {
+      kind: "workflow";
+      workflow: string;
+      inputs: Record<string, string>;
+      name?: string;
     };
 
 export type HookMappingResult =
-  | { ok: true; action: HookAction }
+  | { ok: true; action: HookAction; mappingId?: string }
   | { ok: true; action: null; skipped: true }
   | { ok: false; error: string };
 
@@ -74,6 +104,75 @@ const hookPresetMappings: Record<string, HookMappingConfig[]> = {
         "New email from {{messages[0].from}}\nSubject: {{messages[0].subject}}\n{{messages[0].snippet}}\n{{messages[0].body}}",
     },
   ],
+  github: [
+    {
+      id: "github",
+      match: { path: "github" },
+      action: "agent",
+      wakeMode: "now",
+      name: "GitHub",
+      sessionKey: "hook:github:{{repository.full_name}}",
+      messageTemplate:
+        "GitHub {{headers.x-github-event}} {{action}} on {{repository.full_name}} by {{sender.login}}\n{{pull_request.title}}{{issue.title}}{{head_commit.message}}\n{{pull_request.html_url}}{{issue.html_url}}{{compare}}\n{{comment.body}}{{review.body}}",
+    },
+  ],
+  stripe: [
+    {
+      id: "stripe",
+      match: { path: "stripe" },
+      action: "agent",
+      wakeMode: "now",
+      name: "Stripe",
+      sessionKey: "hook:stripe:{{data.object.id}}",
+      messageTemplate:
+        "Stripe event {{type}} ({{id}})\n{{data.object.object}} {{data.object.id}}: status {{data.object.status}}, amount {{data.object.amount}} {{data.object.currency}}\nCustomer: {{data.object.customer}}",
+    },
+  ],
+  linear: [
+    {
+      id: "linear",
+      match: { path: "linear" },
+      action: "agent",
+      wakeMode: "now",
+      name: "Linear",
+      sessionKey: "hook:linear:{{data.id}}",
+      messageTemplate:
+        "Linear {{type}} {{action}}: {{data.identifier}} {{data.title}}\nState: {{data.state.name}} · Assignee: {{data.assignee.name}}\n{{url}}\n{{data.body}}",
+    },
+  ],
+};
+
+const DEFAULT_SIGNATURE_HEADER = "x-openclaw-signature";
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const hookSignaturePresets: Record<string, Omit<HookSignatureResolved, "secret">> = {
+  github: {
+    header: "x-hub-signature-256",
+    prefix: "sha256=",
+    encoding: "hex",
+    keyValueHeader: false,
+    toleranceSeconds: DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    signedPayload: "{body}",
+    deliveryHeader: "x-github-delivery",
+  },
+  stripe: {
+    header: "stripe-signature",
+    prefix: "",
+    encoding: "hex",
+    keyValueHeader: true,
+    toleranceSeconds: DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    signedPayload: "{timestamp}.{body}",
+  },
+  linear: {
+    header: "linear-signature",
+    prefix: "",
+    encoding: "hex",
+    keyValueHeader: false,
+    timestampField: "webhookTimestamp",
+    toleranceSeconds: 60,
+    signedPayload: "{body}",
+    deliveryHeader: "linear-delivery",
+  },
 };
 
 const transformCache = new Map<string, HookTransformFn>();
@@ -93,6 +192,8 @@ type HookTransformResult = Partial<{
   model: string;
   thinking: string;
   timeoutSeconds: number;
+  workflow: string;
+  inputs: Record<string, string>;
 }> | null;
 
 type HookTransformFn = (
@@ -104,7 +205,7 @@ export function resolveHookMappings(hooks?: HooksConfig): HookMappingResolved[]
   const gmailAllowUnsafe = hooks?.gmail?.allowUnsafeExternalContent;
   const mappings: HookMappingConfig[] = [];
   if (hooks?.mappings) {
-    mappings.push(...hooks.mappings);
+    mappings.push(...hooks.mappings.map(applyMappingPreset));
   }
   for (const preset of presets) {
     const presetMappings = hookPresetMappings[preset];
@@ -167,11 +268,51 @@ export async function applyHookMappings(
     if (!merged.ok) {
       return merged;
     }
-    return merged;
+    return merged.action ? { ...merged, mappingId: mapping.id } : merged;
   }
   return null;
 }
 
+/** Fill fields a mapping leaves unset from its `preset` (explicit fields win). */
+function applyMappingPreset(mapping: HookMappingConfig): HookMappingConfig {
+  const preset = mapping.preset ? hookPresetMappings[mapping.preset.trim()]?.[0] : undefined;
+  if (!preset) {
+    return mapping;
+  }
+  const merged: HookMappingConfig = { ...preset };
+  for (const [key, value] of Object.entries(mapping)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+function normalizeHookSignature(
+  signature: HookSignatureConfig,
+  preset: string | undefined,
+): HookSignatureResolved {
+  const base = (preset && hookSignaturePresets[preset.trim()]) || {
+    header: DEFAULT_SIGNATURE_HEADER,
+    prefix: "",
+    encoding: "hex" as const,
+    keyValueHeader: false,
+    toleranceSeconds: DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    signedPayload: "{body}",
+  };
+  return {
+    ...base,
+    secret: signature.secret,
+    header: signature.header?.trim().toLowerCase() || base.header,
+    prefix: signature.prefix ?? base.prefix,
+    encoding: signature.encoding ?? base.encoding,
+    timestampHeader: signature.timestampHeader?.trim().toLowerCase() || base.timestampHeader,
+    toleranceSeconds: signature.toleranceSeconds ?? base.toleranceSeconds,
+    signedPayload: signature.signedPayload ?? base.signedPayload,
+    deliveryHeader: signature.deliveryHeader?.trim().toLowerCase() || base.deliveryHeader,
+  };
+}
+
 function normalizeHookMapping(
   mapping: HookMappingConfig,
   index: number,
@@ -206,10 +347,27 @@ function normalizeHookMapping(
     model: mapping.model,
     thinking: mapping.thinking,
     timeoutSeconds: mapping.timeoutSeconds,
+    workflow: mapping.workflow,
+    workflowInputs: mapping.workflowInputs,
     transform,
+    signature: mapping.signature
+      ? normalizeHookSignature(mapping.signature, mapping.preset)
+      : undefined,
   };
 }
 
+/**
+ * Signed mappings for a hook path. Requests to these paths may authenticate with a
+ * provider signature instead of the hook token.
+ */
+export function resolveSignedHookMappings(
+  mappings: HookMappingResolved[],
+  subPath: string,
+): HookMappingResolved[] {
+  const normalized = normalizeMatchPath(subPath);
+  return mappings.filter((mapping) => mapping.signature && mapping.matchPath === normalized);
+}
+
 function mappingMatches(mapping: HookMappingResolved, ctx: HookMappingContext) {
   if (mapping.matchPath) {
     if (mapping.matchPath !== normalizeMatchPath(ctx.path)) {
@@ -240,6 +398,21 @@ function buildActionFromMapping(
       },
     };
   }
+  if (mapping.action === "workflow") {
+    const inputs: Record<string, string> = {};
+    for (const [key, template] of Object.entries(mapping.workflowInputs ?? {})) {
+      inputs[key] = renderTemplate(template, ctx);
+    }
+    return {
+      ok: true,
+      action: {
+        kind: "workflow",
+        workflow: renderTemplate(mapping.workflow ?? "", ctx),
+        inputs,
+        name: renderOptional(mapping.name, ctx),
+      },
+    };
+  }
   const message = renderTemplate(mapping.messageTemplate ?? "", ctx);
   return {
     ok: true,
@@ -263,7 +436,7 @@ function buildActionFromMapping(
 function mergeAction(
   base: HookAction,
   override: HookTransformResult,
-  defaultAction: "wake" | "agent",
+  defaultAction: "wake" | "agent" | "workflow",
 ): HookMappingResult {
   if (!override) {
     return validateAction(base);
@@ -275,6 +448,16 @@ function mergeAction(
     const mode = override.mode === "next-heartbeat" ? "next-heartbeat" : (baseWake?.mode ?? "now");
     return validateAction({ kind: "wake", text, mode });
   }
+  if (kind === "workflow") {
+    const baseWorkflow = base.kind === "workflow" ? base : undefined;
+    return validateAction({
+      kind: "workflow",
+      workflow:
+        typeof override.workflow === "string" ? override.workflow : (baseWorkflow?.workflow ?? ""),
+      inputs: { ...baseWorkflow?.inputs, ...override.inputs },
+      name: override.name ?? baseWorkflow?.name,
+    });
+  }
   const baseAgent = base.kind === "agent" ? base : undefined;
   const message =
     typeof override.message === "string" ? override.message : (baseAgent?.message ?? "");
@@ -306,6 +489,12 @@ function validateAction(action: HookAction): HookMappingResult {
     }
     return { ok: true, action };
   }
+  if (action.kind === "workflow") {
+    if (!action.workflow?.trim()) {
+      return { ok: false, error: "hook mapping requires workflow" };
+    }
+    return { ok: true, action: { ...action, workflow: action.workflow.trim() } };
+  }
   if (!action.message?.trim()) {
     return { ok: false, error: "hook mapping requires message" };
   }
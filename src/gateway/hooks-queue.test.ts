@@ -0,0 +1,196 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  restoreStateDirEnv,
+  setStateDirEnv,
+  snapshotStateDirEnv,
+} from "../test-helpers/state-dir-env.js";
+import {
+  enqueueHookDelivery,
+  getHookDelivery,
+  listHookDeliveries,
+  redactHookDelivery,
+  rememberHookDelivery,
+  replayHookDelivery,
+  resetSeenHookDeliveriesForTests,
+  resolveHookDeliveriesPath,
+  resolveSeenHookDeliveriesPath,
+  startHookDeliveryQueue,
+  stopHookDeliveryQueue,
+  type HookDeliveryExecutor,
+} from "./hooks-queue.js";
+
+const log = {
+  info: () => {},
+  warn: () => {},
+} as unknown as ReturnType<typeof createSubsystemLogger>;
+
+const ctx = {
+  path: "github",
+  payload: { action: "opened" },
+  headers: { "x-github-event": "issues", authorization: "Bearer secret" },
+  mappingId: "github",
+};
+
+const wake = { kind: "wake" as const, text: "issue opened", mode: "now" as const };
+
+describe("hook delivery queue", () => {
+  let envSnapshot: ReturnType<typeof snapshotStateDirEnv>;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    envSnapshot = snapshotStateDirEnv();
+    tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-hooks-queue-"));
+    setStateDirEnv(tempRoot);
+  });
+
+  afterEach(async () => {
+    stopHookDeliveryQueue();
+    vi.useRealTimers();
+    restoreStateDirEnv(envSnapshot);
+    await fs.rm(tempRoot, { recursive: true, force: true });
+  });
+
+  it("retries failed deliveries with backoff until they succeed", async () => {
+    vi.useFakeTimers();
+    const attempts: Array<{ number: number; final: boolean }> = [];
+    const execute: HookDeliveryExecutor = async (_delivery, attempt) => {
+      attempts.push(attempt);
+      return attempt.number < 2
+        ? { ok: false, error: "agent busy" }
+        : { ok: true, summary: "done" };
+    };
+    startHookDeliveryQueue({
+      execute,
+      remap: async () => ({ ok: false, error: "unused" }),
+      getConfig: () => ({ maxAttempts: 2, retryDelaySeconds: 5 }),
+      log,
+    });
+
+    const { delivery, done } = await enqueueHookDelivery(ctx, wake);
+    expect(delivery.headers).toEqual({ "x-github-event": "issues" });
+    await expect(done).resolves.toMatchObject({ status: "retrying", lastError: "agent busy" });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    // The retry timer has fired; its store writes finish on real I/O.
+    await vi.waitFor(async () => {
+      await expect(getHookDelivery(delivery.id)).resolves.toMatchObject({
+        status: "ok",
+        attempts: 2,
+        summary: "done",
+      });
+    });
+    expect(attempts).toEqual([
+      { number: 1, final: false },
+      { number: 2, final: true },
+    ]);
+  });
+
+  it("stops retrying after a non-retryable failure", async () => {
+    startHookDeliveryQueue({
+      execute: async () => ({ ok: false, error: "unknown workflow", retryable: false }),
+      remap: async () => ({ ok: false, error: "unused" }),
+      getConfig: () => undefined,
+      log,
+    });
+    const { done } = await enqueueHookDelivery(ctx, wake);
+    await expect(done).resolves.toMatchObject({ status: "error", attempts: 1 });
+    await expect(listHookDeliveries({ status: "error" })).resolves.toHaveLength(1);
+  });
+
+  it("redacts payload-derived fields for non-admin readers", async () => {
+    startHookDeliveryQueue({
+      execute: async () => ({ ok: true }),
+      remap: async () => ({ ok: false, error: "unused" }),
+      getConfig: () => undefined,
+      log,
+    });
+    const { delivery, done } = await enqueueHookDelivery(ctx, wake);
+    await done;
+    const redacted = redactHookDelivery((await getHookDelivery(delivery.id))!);
+    expect(redacted).not.toHaveProperty("payload");
+    expect(redacted).toMatchObject({
+      id: delivery.id,
+      status: "ok",
+      headers: {},
+      dispatch: { kind: "wake", text: "", mode: "now" },
+      redacted: true,
+    });
+    expect((await getHookDelivery(delivery.id))?.payload).toEqual({ action: "opened" });
+  });
+
+  it("keeps payloads out of the index and drops them with pruned deliveries", async () => {
+    startHookDeliveryQueue({
+      execute: async () => ({ ok: true }),
+      remap: async () => ({ ok: false, error: "unused" }),
+      getConfig: () => ({ keep: 1 }),
+      log,
+    });
+    const first = await enqueueHookDelivery(ctx, wake);
+    await first.done;
+    const index = JSON.parse(await fs.readFile(resolveHookDeliveriesPath(), "utf8"));
+    expect(index.deliveries[0]).not.toHaveProperty("payload");
+    const payloadPath = path.join(path.dirname(resolveHookDeliveriesPath()), "payloads");
+    await expect(fs.readdir(payloadPath)).resolves.toEqual([`${first.delivery.id}.json`]);
+
+    const second = await enqueueHookDelivery({ ...ctx, payload: { action: "closed" } }, wake);
+    await second.done;
+    await expect(fs.readdir(payloadPath)).resolves.toEqual([`${second.delivery.id}.json`]);
+    await expect(getHookDelivery(second.delivery.id)).resolves.toMatchObject({
+      payload: { action: "closed" },
+    });
+  });
+
+  it("resumes pending deliveries and replays with the current mappings", async () => {
+    const execute = vi.fn<HookDeliveryExecutor>(async () => ({ ok: false, error: "down" }));
+    const remap = vi.fn(async () => ({
+      ok: true as const,
+      dispatch: { ...wake, text: "remapped" },
+      mappingId: "github-v2",
+    }));
+    startHookDeliveryQueue({ execute, remap, getConfig: () => undefined, log });
+    const { delivery, done } = await enqueueHookDelivery(ctx, wake);
+    await done;
+    stopHookDeliveryQueue();
+
+    vi.useFakeTimers();
+    execute.mockImplementation(async () => ({ ok: true }));
+    startHookDeliveryQueue({ execute, remap, getConfig: () => undefined, log });
+    // Pending deliveries are read back asynchronously, then scheduled.
+    await vi.waitFor(async () => {
+      await vi.advanceTimersByTimeAsync(30_000);
+      await expect(getHookDelivery(delivery.id)).resolves.toMatchObject({
+        status: "ok",
+        attempts: 2,
+      });
+    });
+
+    const replay = await replayHookDelivery(delivery.id, { remap: true });
+    expect(replay).toMatchObject({
+      ok: true,
+      delivery: { replayOf: delivery.id, mappingId: "github-v2", dispatch: { text: "remapped" } },
+    });
+    expect(remap).toHaveBeenCalledTimes(1);
+    expect((await listHookDeliveries({ limit: 1 }))[0]?.replayOf).toBe(delivery.id);
+    await expect(replayHookDelivery("missing")).resolves.toEqual({
+      ok: false,
+      error: "unknown delivery id: missing",
+    });
+  });
+
+  it("persists seen signed deliveries for their replay window", async () => {
+    resetSeenHookDeliveriesForTests();
+    const now = 1_700_000_000_000;
+    await expect(rememberHookDelivery("github:d1", now + 60_000, now)).resolves.toBe(true);
+    await expect(rememberHookDelivery("github:d1", now + 60_000, now + 1000)).resolves.toBe(false);
+    await expect(rememberHookDelivery("github:d1", now + 120_000, now + 61_000)).resolves.toBe(
+      true,
+    );
+
+    const stored = JSON.parse(await fs.readFile(resolveSeenHookDeliveriesPath(), "utf8"));
+    expect(stored.seen).toEqual([["github:d1", now + 120_000]]);
+  });
+});
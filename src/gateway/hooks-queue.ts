@@ -0,0 +1,490 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { HookDeliveriesConfig } from "../config/config.js";
+import type { createSubsystemLogger } from "../logging/subsystem.js";
+import type { HookDispatch } from "./hooks.js";
+import { resolveStateDir } from "../config/paths.js";
+
+type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
+
+export type HookDeliveryStatus = "running" | "retrying" | "ok" | "error";
+
+/** What was received, kept so a delivery can be inspected and re-mapped later. */
+export type HookDeliveryContext = {
+  path: string;
+  query?: string;
+  payload: unknown;
+  headers: Record<string, string>;
+  mappingId?: string;
+};
+
+export type HookDelivery = {
+  id: string;
+  receivedAtMs: number;
+  updatedAtMs: number;
+  path: string;
+  query?: string;
+  mappingId?: string;
+  payload?: unknown;
+  /** Set when the payload was too large to keep; such deliveries cannot be re-mapped. */
+  payloadTruncated?: boolean;
+  headers: Record<string, string>;
+  dispatch: HookDispatch;
+  status: HookDeliveryStatus;
+  attempts: number;
+  runId?: string;
+  summary?: string;
+  lastError?: string;
+  nextAttemptAtMs?: number;
+  /** Id of the delivery this one replays. */
+  replayOf?: string;
+  /** Set on copies returned to clients without operator.admin: payload-derived fields are removed. */
+  redacted?: boolean;
+};
+
+export type HookDeliveryOutcome =
+  | { ok: true; runId?: string; summary?: string }
+  | { ok: false; error: string; retryable?: boolean };
+
+export type HookDeliveryExecutor = (
+  delivery: HookDelivery,
+  attempt: { number: number; final: boolean },
+) => Promise<HookDeliveryOutcome>;
+
+export type HookDeliveryRemapper = (
+  delivery: HookDelivery,
+) => Promise<
+  { ok: true; dispatch: HookDispatch; mappingId?: string } | { ok: false; error: string }
+>;
+
+/** Index entries carry no payload; each payload lives in its own file next to the index. */
+type PersistedHookDeliveries = {
+  version: 1;
+  deliveries: HookDelivery[];
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_SECONDS = 30;
+const DEFAULT_KEEP = 200;
+const RETRY_BACKOFF_FACTOR = 4;
+const MAX_STORED_PAYLOAD_CHARS = 64 * 1024;
+const MAX_SEEN_HOOK_DELIVERIES = 5000;
+const REDACTED_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "x-openclaw-token",
+  "cookie",
+]);
+
+type HookDeliveryQueue = {
+  execute: HookDeliveryExecutor;
+  remap: HookDeliveryRemapper;
+  getConfig: () => HookDeliveriesConfig | undefined;
+  log: SubsystemLogger;
+  timers: Map<string, NodeJS.Timeout>;
+};
+
+let activeQueue: HookDeliveryQueue | null = null;
+
+// Signed delivery key -> replay-window expiry, loaded from disk on first use.
+// Insertion order doubles as age for eviction.
+let seenHookDeliveries: Map<string, number> | null = null;
+
+export function resolveHookDeliveriesPath(): string {
+  return path.join(resolveStateDir(), "hooks", "deliveries.json");
+}
+
+function resolveHookPayloadPath(id: string): string {
+  return path.join(resolveStateDir(), "hooks", "payloads", `${id}.json`);
+}
+
+export function resolveSeenHookDeliveriesPath(): string {
+  return path.join(resolveStateDir(), "hooks", "seen-deliveries.json");
+}
+
+async function readJSON<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJSONAtomic(filePath: string, value: unknown) {
+  const dir = path.dirname(filePath);
+  await fs.mkdir(dir, { recursive: true });
+  const tmp = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  try {
+    await fs.chmod(tmp, 0o600);
+  } catch {
+    // best-effort; ignore on platforms without chmod
+  }
+  await fs.rename(tmp, filePath);
+}
+
+let lock: Promise<void> = Promise.resolve();
+async function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const prev = lock;
+  let release: (() => void) | undefined;
+  lock = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  await prev;
+  try {
+    return await fn();
+  } finally {
+    release?.();
+  }
+}
+
+async function loadSeenHookDeliveries(now: number): Promise<Map<string, number>> {
+  if (seenHookDeliveries) {
+    return seenHookDeliveries;
+  }
+  const raw = await readJSON<{ seen?: Array<[string, number]> }>(resolveSeenHookDeliveriesPath());
+  seenHookDeliveries ??= new Map(
+    (Array.isArray(raw?.seen) ? raw.seen : []).filter(
+      (entry): entry is [string, number] =>
+        Array.isArray(entry) &&
+        typeof entry[0] === "string" &&
+        typeof entry[1] === "number" &&
+        entry[1] > now,
+    ),
+  );
+  return seenHookDeliveries;
+}
+
+/** Whether a signed delivery was already handled inside its replay window. */
+export async function isHookDeliverySeen(key: string, now: number): Promise<boolean> {
+  const expiresAt = (await loadSeenHookDeliveries(now)).get(key);
+  return expiresAt !== undefined && expiresAt > now;
+}
+
+/**
+ * Remember a signed delivery until `expiresAt`. Resolves false when it was already seen
+ * inside its replay window. Persisted so a gateway restart does not reopen the window.
+ */
+export async function rememberHookDelivery(
+  key: string,
+  expiresAt: number,
+  now: number,
+): Promise<boolean> {
+  const seen = await loadSeenHookDeliveries(now);
+  const existing = seen.get(key);
+  if (existing !== undefined && existing > now) {
+    return false;
+  }
+  seen.delete(key);
+  seen.set(key, expiresAt);
+  for (const [entry, entryExpiresAt] of seen) {
+    if (seen.size <= MAX_SEEN_HOOK_DELIVERIES && entryExpiresAt > now) {
+      break;
+    }
+    seen.delete(entry);
+  }
+  await withLock(() =>
+    writeJSONAtomic(resolveSeenHookDeliveriesPath(), { version: 1, seen: [...seen] }),
+  );
+  return true;
+}
+
+export function resetSeenHookDeliveriesForTests() {
+  seenHookDeliveries = new Map();
+}
+
+function resolveSettings(config: HookDeliveriesConfig | undefined) {
+  return {
+    maxAttempts: Math.max(1, Math.floor(config?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)),
+    retryDelayMs: (config?.retryDelaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000,
+    keep: Math.max(1, Math.floor(config?.keep ?? DEFAULT_KEEP)),
+  };
+}
+
+async function readDeliveries(): Promise<HookDelivery[]> {
+  const raw = await readJSON<Partial<PersistedHookDeliveries>>(resolveHookDeliveriesPath());
+  return Array.isArray(raw?.deliveries) ? raw.deliveries : [];
+}
+
+/** Call with the lock held. Payloads still inline (new or legacy entries) move to their own file. */
+async function writeDeliveries(deliveries: HookDelivery[], keep: number) {
+  // Oldest finished deliveries go first; queued work is never dropped.
+  let excess = deliveries.length - keep;
+  const dropped: HookDelivery[] = [];
+  const kept = deliveries.filter((entry) => {
+    if (excess > 0 && (entry.status === "ok" || entry.status === "error")) {
+      excess -= 1;
+      dropped.push(entry);
+      return false;
+    }
+    return true;
+  });
+  const index: HookDelivery[] = [];
+  for (const entry of kept) {
+    if (entry.payload === undefined) {
+      index.push(entry);
+      continue;
+    }
+    const { payload, ...rest } = entry;
+    await writeJSONAtomic(resolveHookPayloadPath(entry.id), { payload });
+    index.push(rest);
+  }
+  const out: PersistedHookDeliveries = { version: 1, deliveries: index };
+  await writeJSONAtomic(resolveHookDeliveriesPath(), out);
+  for (const entry of dropped) {
+    await fs.rm(resolveHookPayloadPath(entry.id), { force: true });
+  }
+}
+
+async function withPayload(entry: HookDelivery): Promise<HookDelivery> {
+  if (entry.payload !== undefined || entry.payloadTruncated) {
+    return entry;
+  }
+  const stored = await readJSON<{ payload?: unknown }>(resolveHookPayloadPath(entry.id));
+  return stored && "payload" in stored ? { ...entry, payload: stored.payload } : entry;
+}
+
+function updateDelivery(id: string, patch: Partial<HookDelivery>): Promise<HookDelivery | null> {
+  return withLock(async () => {
+    const deliveries = await readDeliveries();
+    const index = deliveries.findIndex((entry) => entry.id === id);
+    if (index < 0) {
+      return null;
+    }
+    const next = { ...deliveries[index], ...patch, updatedAtMs: Date.now() } as HookDelivery;
+    deliveries[index] = next;
+    await writeDeliveries(deliveries, resolveSettings(activeQueue?.getConfig()).keep);
+    return next;
+  });
+}
+
+/** Most recent first. */
+export async function listHookDeliveries(opts?: {
+  limit?: number;
+  status?: HookDeliveryStatus;
+}): Promise<HookDelivery[]> {
+  const filtered = (await readDeliveries())
+    .filter((entry) => !opts?.status || entry.status === opts.status)
+    .toReversed();
+  const listed = opts?.limit ? filtered.slice(0, opts.limit) : filtered;
+  return await Promise.all(listed.map(withPayload));
+}
+
+export async function getHookDelivery(id: string): Promise<HookDelivery | undefined> {
+  const entry = (await readDeliveries()).find((candidate) => candidate.id === id.trim());
+  return entry ? await withPayload(entry) : undefined;
+}
+
+/**
+ * Strip the payload, headers and the text rendered from them (agent message,
+ * wake text, workflow inputs), keeping what is needed to list and replay.
+ */
+export function redactHookDelivery(delivery: HookDelivery): HookDelivery {
+  const { payload: _payload, ...rest } = delivery;
+  const dispatch = delivery.dispatch;
+  return {
+    ...rest,
+    headers: {},
+    dispatch:
+      dispatch.kind === "agent"
+        ? { ...dispatch, message: "" }
+        : dispatch.kind === "wake"
+          ? { ...dispatch, text: "" }
+          : { ...dispatch, inputs: {} },
+    redacted: true,
+  };
+}
+
+function sanitizeHeaders(headers: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([key]) => !REDACTED_HEADERS.has(key.toLowerCase())),
+  );
+}
+
+function schedule(queue: HookDeliveryQueue, id: string, delayMs: number) {
+  clearTimeout(queue.timers.get(id));
+  const timer = setTimeout(
+    () => {
+      queue.timers.delete(id);
+      void runDelivery(queue, id);
+    },
+    Math.max(0, delayMs),
+  );
+  timer.unref?.();
+  queue.timers.set(id, timer);
+}
+
+async function runDelivery(queue: HookDeliveryQueue, id: string): Promise<HookDelivery | null> {
+  const current = await getHookDelivery(id);
+  if (!current || current.status === "ok" || current.status === "error") {
+    return current ?? null;
+  }
+  const settings = resolveSettings(queue.getConfig());
+  const attempt = current.attempts + 1;
+  const running = await updateDelivery(id, {
+    status: "running",
+    attempts: attempt,
+    nextAttemptAtMs: undefined,
+  });
+  if (!running) {
+    return null;
+  }
+  const final = attempt >= settings.maxAttempts;
+  let outcome: HookDeliveryOutcome;
+  try {
+    outcome = await queue.execute(
+      { ...running, payload: current.payload },
+      { number: attempt, final },
+    );
+  } catch (err) {
+    outcome = { ok: false, error: String(err) };
+  }
+  if (outcome.ok) {
+    return await updateDelivery(id, {
+      status: "ok",
+      runId: outcome.runId ?? current.runId,
+      summary: outcome.summary,
+      lastError: undefined,
+    });
+  }
+  if (outcome.retryable === false || final) {
+    queue.log.warn(`hook delivery ${id} failed after ${attempt} attempt(s): ${outcome.error}`);
+    return await updateDelivery(id, { status: "error", lastError: outcome.error });
+  }
+  const delayMs = settings.retryDelayMs * RETRY_BACKOFF_FACTOR ** (attempt - 1);
+  schedule(queue, id, delayMs);
+  return await updateDelivery(id, {
+    status: "retrying",
+    lastError: outcome.error,
+    nextAttemptAtMs: Date.now() + delayMs,
+  });
+}
+
+/**
+ * Make this queue the one hook requests go through, and pick up deliveries that were
+ * running or waiting for a retry when the gateway last stopped.
+ */
+export function startHookDeliveryQueue(params: {
+  execute: HookDeliveryExecutor;
+  remap: HookDeliveryRemapper;
+  getConfig: () => HookDeliveriesConfig | undefined;
+  log: SubsystemLogger;
+}) {
+  stopHookDeliveryQueue();
+  const queue: HookDeliveryQueue = { ...params, timers: new Map() };
+  activeQueue = queue;
+  void readDeliveries().then((deliveries) => {
+    if (activeQueue !== queue) {
+      return;
+    }
+    const now = Date.now();
+    const pending = deliveries.filter(
+      (entry) => entry.status === "running" || entry.status === "retrying",
+    );
+    if (pending.length > 0) {
+      params.log.info(
+        `resuming ${pending.length} hook deliver${pending.length === 1 ? "y" : "ies"}`,
+      );
+    }
+    for (const entry of pending) {
+      schedule(
+        queue,
+        entry.id,
+        entry.status === "retrying" ? (entry.nextAttemptAtMs ?? now) - now : 0,
+      );
+    }
+  });
+}
+
+export function stopHookDeliveryQueue() {
+  for (const timer of activeQueue?.timers.values() ?? []) {
+    clearTimeout(timer);
+  }
+  activeQueue = null;
+}
+
+/**
+ * Persist an accepted hook request and run it. `done` settles after the first attempt;
+ * failed agent runs are retried in the background.
+ */
+export async function enqueueHookDelivery(
+  ctx: HookDeliveryContext,
+  dispatch: HookDispatch,
+  opts?: { replayOf?: string },
+): Promise<{ delivery: HookDelivery; done: Promise<HookDelivery | null> }> {
+  const queue = activeQueue;
+  if (!queue) {
+    throw new Error("hook delivery queue is not running");
+  }
+  const payloadText = JSON.stringify(ctx.payload ?? null);
+  const payloadTruncated = payloadText.length > MAX_STORED_PAYLOAD_CHARS;
+  const now = Date.now();
+  const delivery: HookDelivery = {
+    id: randomUUID(),
+    receivedAtMs: now,
+    updatedAtMs: now,
+    path: ctx.path,
+    query: ctx.query || undefined,
+    mappingId: ctx.mappingId,
+    payload: payloadTruncated ? undefined : ctx.payload,
+    payloadTruncated: payloadTruncated || undefined,
+    headers: sanitizeHeaders(ctx.headers),
+    dispatch,
+    status: "running",
+    attempts: 0,
+    runId: dispatch.kind === "agent" ? randomUUID() : undefined,
+    replayOf: opts?.replayOf,
+  };
+  await withLock(async () =>
+    writeDeliveries(
+      [...(await readDeliveries()), delivery],
+      resolveSettings(queue.getConfig()).keep,
+    ),
+  );
+  return { delivery, done: runDelivery(queue, delivery.id) };
+}
+
+/**
+ * Run a recorded delivery again as a new delivery. With `remap`, the stored payload goes
+ * through the current mappings first, which is how template changes are tested.
+ */
+export async function replayHookDelivery(
+  id: string,
+  opts?: { remap?: boolean },
+): Promise<{ ok: true; delivery: HookDelivery } | { ok: false; error: string }> {
+  const queue = activeQueue;
+  if (!queue) {
+    return { ok: false, error: "hooks are not enabled on this gateway" };
+  }
+  const original = await getHookDelivery(id);
+  if (!original) {
+    return { ok: false, error: `unknown delivery id: ${id}` };
+  }
+  let dispatch = original.dispatch;
+  let mappingId = original.mappingId;
+  if (opts?.remap) {
+    if (original.payloadTruncated) {
+      return { ok: false, error: "payload was too large to keep; replay without remap" };
+    }
+    const remapped = await queue.remap(original);
+    if (!remapped.ok) {
+      return remapped;
+    }
+    dispatch = remapped.dispatch;
+    mappingId = remapped.mappingId;
+  }
+  const { delivery } = await enqueueHookDelivery(
+    {
+      path: original.path,
+      query: original.query,
+      payload: original.payload,
+      headers: original.headers,
+      mappingId,
+    },
+    dispatch,
+    { replayOf: original.id },
+  );
+  return { ok: true, delivery };
+}
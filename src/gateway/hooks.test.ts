@@ -1,15 +1,23 @@
-import type { IncomingMessage } from "node:http";
-import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import type { AddressInfo } from "node:net";
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import type { ChannelPlugin } from "../channels/plugins/types.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { setActivePluginRegistry } from "../plugins/runtime.js";
 import { createIMessageTestPlugin, createTestRegistry } from "../test-utils/channel-plugins.js";
+import { resolveHookMappings } from "./hooks-mapping.js";
+import { rememberHookDelivery } from "./hooks-queue.js";
 import {
   extractHookToken,
+  type HooksConfigResolved,
   normalizeAgentPayload,
   normalizeWakePayload,
+  resetHookDeliveriesForTests,
   resolveHooksConfig,
+  verifyHookSignature,
 } from "./hooks.js";
+import { createHooksRequestHandler } from "./server-http.js";
 
 describe("gateway hooks helpers", () => {
   beforeEach(() => {
@@ -18,6 +26,7 @@ describe("gateway hooks helpers", () => {
 
   afterEach(() => {
     setActivePluginRegistry(emptyRegistry);
+    resetHookDeliveriesForTests();
   });
   test("resolveHooksConfig normalizes paths + requires token", () => {
     const base = {
@@ -60,6 +69,123 @@ describe("gateway hooks helpers", () => {
     expect(result3).toBeUndefined();
   });
 
+  test("verifyHookSignature checks GitHub signatures and drops replays", async () => {
+    const [mapping] = resolveHookMappings({
+      mappings: [{ preset: "github", signature: { secret: "s3cret" } }],
+    });
+    const rawBody = Buffer.from('{"action":"opened"}');
+    const digest = createHmac("sha256", "s3cret").update(rawBody).digest("hex");
+    const verify = (headers: Record<string, string>) =>
+      verifyHookSignature({
+        mappingId: mapping.id,
+        signature: mapping.signature!,
+        headers,
+        rawBody,
+        payload: {},
+      });
+
+    const headers = { "x-hub-signature-256": `sha256=${digest}`, "x-github-delivery": "d1" };
+    const first = await verify(headers);
+    expect(first).toMatchObject({ ok: true, duplicate: false, deliveryKey: "github:d1" });
+    // Verifying alone does not consume the delivery id.
+    await expect(verify(headers)).resolves.toMatchObject({ ok: true, duplicate: false });
+    if (first.ok) {
+      await rememberHookDelivery(first.deliveryKey, first.expiresAt, Date.now());
+    }
+    await expect(verify(headers)).resolves.toMatchObject({ ok: true, duplicate: true });
+    await expect(verify({ "x-hub-signature-256": `sha256=${"0".repeat(64)}` })).resolves.toEqual({
+      ok: false,
+      error: "signature mismatch",
+    });
+    await expect(verify({})).resolves.toEqual({
+      ok: false,
+      error: "missing x-hub-signature-256 header",
+    });
+  });
+
+  test("verifyHookSignature enforces the Stripe timestamp tolerance", async () => {
+    const [mapping] = resolveHookMappings({
+      mappings: [{ preset: "stripe", signature: { secret: "whsec" } }],
+    });
+    const rawBody = Buffer.from('{"type":"invoice.paid"}');
+    const now = 1_700_000_000_000;
+    const sign = (ts: number) =>
+      `t=${ts},v1=${createHmac("sha256", "whsec").update(`${ts}.${rawBody.toString()}`).digest("hex")}`;
+    const verify = (header: string) =>
+      verifyHookSignature({
+        mappingId: mapping.id,
+        signature: mapping.signature!,
+        headers: { "stripe-signature": header },
+        rawBody,
+        payload: {},
+        now,
+      });
+
+    expect((await verify(sign(now / 1000 - 10))).ok).toBe(true);
+    await expect(verify(sign(now / 1000 - 600))).resolves.toEqual({
+      ok: false,
+      error: "signature timestamp outside tolerance",
+    });
+  });
+
+  test("signed deliveries whose dispatch failed can be retried", async () => {
+    const hooksConfig: HooksConfigResolved = {
+      basePath: "/hooks",
+      token: "hook-token",
+      maxBodyBytes: 64 * 1024,
+      mappings: resolveHookMappings({
+        mappings: [{ preset: "github", signature: { secret: "s3cret" } }],
+      }),
+    };
+    const dispatchHook = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, error: "queue unavailable" })
+      .mockResolvedValue({ ok: true, deliveryId: "delivery-1", runId: "run-1" });
+    const handler = createHooksRequestHandler({
+      getHooksConfig: () => hooksConfig,
+      bindHost: "127.0.0.1",
+      port: 0,
+      logHooks: { warn: vi.fn() } as unknown as Parameters<
+        typeof createHooksRequestHandler
+      >[0]["logHooks"],
+      dispatchHook,
+    });
+    const server = createServer((req, res) => {
+      void handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const body = JSON.stringify({ action: "opened", repository: { full_name: "o/r" } });
+      const digest = createHmac("sha256", "s3cret").update(body).digest("hex");
+      const send = async () => {
+        const res = await fetch(`http://127.0.0.1:${port}/hooks/github`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-hub-signature-256": `sha256=${digest}`,
+            "x-github-delivery": "retry-1",
+          },
+          body,
+        });
+        return { status: res.status, body: await res.json() };
+      };
+
+      await expect(send()).resolves.toMatchObject({ status: 400 });
+      await expect(send()).resolves.toMatchObject({
+        status: 202,
+        body: { ok: true, deliveryId: "delivery-1" },
+      });
+      await expect(send()).resolves.toMatchObject({
+        status: 200,
+        body: { ok: true, duplicate: true },
+      });
+      expect(dispatchHook).toHaveBeenCalledTimes(2);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
   test("normalizeWakePayload trims + validates", () => {
     expect(normalizeWakePayload({ text: "  hi " })).toEqual({
       ok: true,
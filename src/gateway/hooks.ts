@@ -1,13 +1,21 @@
 import type { IncomingMessage } from "node:http";
-import { randomUUID } from "node:crypto";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
 import type { ChannelId } from "../channels/plugins/types.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { listChannelPlugins } from "../channels/plugins/index.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
-import { type HookMappingResolved, resolveHookMappings } from "./hooks-mapping.js";
+import {
+  type HookAction,
+  type HookMappingResolved,
+  type HookSignatureResolved,
+  resolveHookMappings,
+} from "./hooks-mapping.js";
+import { isHookDeliverySeen, resetSeenHookDeliveriesForTests } from "./hooks-queue.js";
 
 const DEFAULT_HOOKS_PATH = "/hooks";
 const DEFAULT_HOOKS_MAX_BODY_BYTES = 256 * 1024;
+/** How long a delivery is remembered when the provider sends no timestamp. */
+const UNTIMED_DELIVERY_TTL_MS = 24 * 60 * 60_000;
 
 export type HooksConfigResolved = {
   basePath: string;
@@ -65,7 +73,7 @@ export function extractHookToken(req: IncomingMessage): string | undefined {
 export async function readJsonBody(
   req: IncomingMessage,
   maxBytes: number,
-): Promise<{ ok: true; value: unknown } | { ok: false; error: string }> {
+): Promise<{ ok: true; value: unknown; raw: Buffer } | { ok: false; error: string }> {
   return await new Promise((resolve) => {
     let done = false;
     let total = 0;
@@ -88,14 +96,15 @@ export async function readJsonBody(
         return;
       }
       done = true;
-      const raw = Buffer.concat(chunks).toString("utf-8").trim();
+      const rawBuffer = Buffer.concat(chunks);
+      const raw = rawBuffer.toString("utf-8").trim();
       if (!raw) {
-        resolve({ ok: true, value: {} });
+        resolve({ ok: true, value: {}, raw: rawBuffer });
         return;
       }
       try {
         const parsed = JSON.parse(raw) as unknown;
-        resolve({ ok: true, value: parsed });
+        resolve({ ok: true, value: parsed, raw: rawBuffer });
       } catch (err) {
         resolve({ ok: false, error: String(err) });
       }
@@ -110,6 +119,120 @@ export async function readJsonBody(
   });
 }
 
+export type HookSignatureCheck =
+  | {
+      ok: true;
+      /** Already handled inside its replay window. */
+      duplicate: boolean;
+      /** Pass to `rememberHookDelivery` once the delivery has been dispatched. */
+      deliveryKey: string;
+      expiresAt: number;
+    }
+  | { ok: false; error: string };
+
+function parseSignatureTimestampMs(raw: unknown): number | undefined {
+  const value = typeof raw === "string" ? Number(raw.trim()) : raw;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+  // Providers send either seconds or milliseconds.
+  return value < 1e12 ? value * 1000 : value;
+}
+
+function signaturesMatch(expected: Buffer, provided: string, encoding: "hex" | "base64") {
+  const actual = Buffer.from(provided.trim(), encoding);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Verify an HMAC-SHA256 webhook signature against the raw request body, enforce the
+ * timestamp tolerance when the provider sends one, and flag repeated deliveries.
+ * Nothing is recorded here: a delivery only counts as seen once it has been dispatched,
+ * so a provider retry after a failed attempt still runs.
+ */
+export async function verifyHookSignature(params: {
+  mappingId: string;
+  signature: HookSignatureResolved;
+  headers: Record<string, string>;
+  rawBody: Buffer;
+  payload: Record<string, unknown>;
+  now?: number;
+}): Promise<HookSignatureCheck> {
+  const { signature, headers } = params;
+  const now = params.now ?? Date.now();
+  const headerValue = headers[signature.header]?.trim();
+  if (!headerValue) {
+    return { ok: false, error: `missing ${signature.header} header` };
+  }
+
+  let provided: string[];
+  let timestampRaw: unknown;
+  if (signature.keyValueHeader) {
+    const parts = headerValue.split(",").map((part) => part.trim().split("="));
+    timestampRaw = parts.find(([key]) => key === "t")?.[1];
+    provided = parts.filter(([key]) => key === "v1").map(([, value]) => value ?? "");
+  } else {
+    const value = headerValue.startsWith(signature.prefix)
+      ? headerValue.slice(signature.prefix.length)
+      : headerValue;
+    provided = [value];
+    if (signature.timestampHeader) {
+      timestampRaw = headers[signature.timestampHeader];
+    } else if (signature.timestampField) {
+      timestampRaw = params.payload[signature.timestampField];
+    }
+  }
+
+  const needsTimestamp =
+    signature.keyValueHeader ||
+    Boolean(signature.timestampHeader) ||
+    signature.signedPayload.includes("{timestamp}");
+  const timestampMs = parseSignatureTimestampMs(timestampRaw);
+  if (needsTimestamp && timestampMs === undefined) {
+    return { ok: false, error: "missing signature timestamp" };
+  }
+  if (
+    timestampMs !== undefined &&
+    Math.abs(now - timestampMs) > signature.toleranceSeconds * 1000
+  ) {
+    return { ok: false, error: "signature timestamp outside tolerance" };
+  }
+
+  // Sign the raw bytes; re-serialized JSON would not match the provider's signature.
+  const [head = "", ...rest] = signature.signedPayload
+    .replaceAll(
+      "{timestamp}",
+      typeof timestampRaw === "string" || typeof timestampRaw === "number"
+        ? String(timestampRaw).trim()
+        : "",
+    )
+    .split("{body}");
+  const hmac = createHmac("sha256", signature.secret).update(head);
+  for (const part of rest) {
+    hmac.update(params.rawBody).update(part);
+  }
+  const expected = hmac.digest();
+  if (!provided.some((value) => signaturesMatch(expected, value, signature.encoding))) {
+    return { ok: false, error: "signature mismatch" };
+  }
+
+  const deliveryId =
+    (signature.deliveryHeader && headers[signature.deliveryHeader]?.trim()) || provided[0];
+  const ttlMs =
+    timestampMs !== undefined ? signature.toleranceSeconds * 2000 : UNTIMED_DELIVERY_TTL_MS;
+  const deliveryKey = `${params.mappingId}:${deliveryId}`;
+  return {
+    ok: true,
+    duplicate: await isHookDeliverySeen(deliveryKey, now),
+    deliveryKey,
+    expiresAt: now + ttlMs,
+  };
+}
+
+export function resetHookDeliveriesForTests() {
+  resetSeenHookDeliveriesForTests();
+}
+
 export function normalizeHookHeaders(req: IncomingMessage) {
   const headers: Record<string, string> = {};
   for (const [key, value] of Object.entries(req.headers)) {
@@ -146,8 +269,15 @@ export type HookAgentPayload = {
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
+  allowUnsafeExternalContent?: boolean;
 };
 
+/** A hook request reduced to what the gateway runs; recorded with each delivery. */
+export type HookDispatch =
+  | { kind: "wake"; text: string; mode: "now" | "next-heartbeat" }
+  | ({ kind: "agent" } & HookAgentPayload)
+  | { kind: "workflow"; workflow: string; inputs: Record<string, string>; name: string };
+
 const listHookChannelValues = () => ["last", ...listChannelPlugins().map((plugin) => plugin.id)];
 
 export type HookMessageChannel = ChannelId | "last";
@@ -173,6 +303,46 @@ export function resolveHookDeliver(raw: unknown): boolean {
   return raw !== false;
 }
 
+export function resolveHookActionDispatch(
+  action: HookAction,
+): { ok: true; dispatch: HookDispatch } | { ok: false; error: string } {
+  if (action.kind === "wake") {
+    return { ok: true, dispatch: { kind: "wake", text: action.text, mode: action.mode } };
+  }
+  if (action.kind === "workflow") {
+    return {
+      ok: true,
+      dispatch: {
+        kind: "workflow",
+        workflow: action.workflow,
+        inputs: action.inputs,
+        name: action.name ?? "Hook",
+      },
+    };
+  }
+  const channel = resolveHookChannel(action.channel);
+  if (!channel) {
+    return { ok: false, error: getHookChannelError() };
+  }
+  return {
+    ok: true,
+    dispatch: {
+      kind: "agent",
+      message: action.message,
+      name: action.name ?? "Hook",
+      wakeMode: action.wakeMode,
+      sessionKey: action.sessionKey ?? "",
+      deliver: resolveHookDeliver(action.deliver),
+      channel,
+      to: action.to,
+      model: action.model,
+      thinking: action.thinking,
+      timeoutSeconds: action.timeoutSeconds,
+      allowUnsafeExternalContent: action.allowUnsafeExternalContent,
+    },
+  };
+}
+
 export function normalizeAgentPayload(
   payload: Record<string, unknown>,
   opts?: { idFactory?: () => string },
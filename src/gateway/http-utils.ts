@@ -1,5 +1,7 @@
 import type { IncomingMessage } from "node:http";
 import { randomUUID } from "node:crypto";
+import type { ClientToolDefinition } from "../agents/pi-embedded-runner/run/params.js";
+import type { ToolChoice } from "./open-responses.schema.js";
 import { buildAgentMainSessionKey, normalizeAgentId } from "../routing/session-key.js";
 
 export function getHeader(req: IncomingMessage, name: string): string | undefined {
@@ -77,3 +79,45 @@ export function resolveSessionKey(params: {
   const mainKey = user ? `${params.prefix}-user:${user}` : `${params.prefix}:${randomUUID()}`;
   return buildAgentMainSessionKey({ agentId: params.agentId, mainKey });
 }
+
+/** Narrow client tools per an OpenAI-style `tool_choice`; throws on an unusable choice. */
+export function applyToolChoice(params: {
+  tools: ClientToolDefinition[];
+  toolChoice: ToolChoice | undefined;
+}): { tools: ClientToolDefinition[]; extraSystemPrompt?: string } {
+  const { tools, toolChoice } = params;
+  if (!toolChoice) {
+    return { tools };
+  }
+
+  if (toolChoice === "none") {
+    return { tools: [] };
+  }
+
+  if (toolChoice === "required") {
+    if (tools.length === 0) {
+      throw new Error("tool_choice=required but no tools were provided");
+    }
+    return {
+      tools,
+      extraSystemPrompt: "You must call one of the available tools before responding.",
+    };
+  }
+
+  if (typeof toolChoice === "object" && toolChoice.type === "function") {
+    const targetName = toolChoice.function?.name?.trim();
+    if (!targetName) {
+      throw new Error("tool_choice.function.name is required");
+    }
+    const matched = tools.filter((tool) => tool.function?.name === targetName);
+    if (matched.length === 0) {
+      throw new Error(`tool_choice requested unknown tool: ${targetName}`);
+    }
+    return {
+      tools: matched,
+      extraSystemPrompt: `You must call the ${targetName} tool before responding.`,
+    };
+  }
+
+  return { tools };
+}
@@ -171,6 +171,8 @@ export const ToolChoiceSchema = z.union([
   }),
 ]);
 
+export type ToolChoice = z.infer<typeof ToolChoiceSchema>;
+
 export const CreateResponseBodySchema = z
   .object({
     model: z.string(),
@@ -1,8 +1,29 @@
-import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { HISTORY_CONTEXT_MARKER } from "../auto-reply/reply/history.js";
 import { CURRENT_MESSAGE_MARKER } from "../auto-reply/reply/mentions.js";
 import { emitAgentEvent } from "../infra/agent-events.js";
-import { agentCommand, getFreePort, installGatewayTestHooks } from "./test-helpers.js";
+import { agentCommand, getFreePort, installGatewayTestHooks, testState } from "./test-helpers.js";
+
+const embeddingMocks = vi.hoisted(() => ({
+  createEmbeddingProvider: vi.fn(async (options: { model: string }) => ({
+    provider: {
+      id: "openai",
+      model: options.model || "text-embedding-3-small",
+      embedQuery: async () => [0.1, 0.2],
+      embedBatch: async (texts: string[]) => texts.map(() => [0.1, 0.2]),
+      embedBatchWithUsage: async (texts: string[]) => ({
+        embeddings: texts.map(() => [0.1, 0.2]),
+        totalTokens: 7,
+      }),
+    },
+    requestedProvider: "openai",
+  })),
+}));
+
+vi.mock("../memory/embeddings.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../memory/embeddings.js")>();
+  return { ...actual, createEmbeddingProvider: embeddingMocks.createEmbeddingProvider };
+});
 
 installGatewayTestHooks({ scope: "suite" });
 
@@ -428,4 +449,170 @@ describe("OpenAI-compatible HTTP API (e2e)", () => {
       // shared server
     }
   });
+
+  it("passes client tools through and returns tool_calls", async () => {
+    const port = enabledPort;
+    const tools = [
+      {
+        type: "function",
+        function: { name: "get_weather", parameters: { type: "object", properties: {} } },
+      },
+    ];
+    const toolCallResult = {
+      payloads: [],
+      meta: {
+        stopReason: "tool_calls",
+        pendingToolCalls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"Oslo"}' }],
+      },
+    };
+
+    agentCommand.mockReset();
+    agentCommand.mockResolvedValueOnce(toolCallResult as never);
+    const res = await postChatCompletions(port, {
+      model: "openclaw",
+      tools,
+      tool_choice: "required",
+      messages: [
+        { role: "user", content: "weather?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_0", type: "function", function: { name: "get_weather" } }],
+        },
+        { role: "tool", tool_call_id: "call_0", content: "sunny" },
+      ],
+    });
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as {
+      choices: Array<{ message: Record<string, unknown>; finish_reason: string }>;
+    };
+    expect(json.choices[0]?.finish_reason).toBe("tool_calls");
+    expect(json.choices[0]?.message).toEqual({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "get_weather", arguments: '{"city":"Oslo"}' },
+        },
+      ],
+    });
+    const [opts] = agentCommand.mock.calls[0] ?? [];
+    const runOpts = opts as { clientTools?: unknown; message?: string; extraSystemPrompt?: string };
+    expect(runOpts.clientTools).toEqual(tools);
+    expect(runOpts.message).toContain("Tool:get_weather: sunny");
+    expect(runOpts.extraSystemPrompt).toContain("You must call one of the available tools");
+
+    agentCommand.mockReset();
+    agentCommand.mockResolvedValueOnce(toolCallResult as never);
+    const streamRes = await postChatCompletions(port, {
+      stream: true,
+      model: "openclaw",
+      tools,
+      messages: [{ role: "user", content: "weather?" }],
+    });
+    const chunks = parseSseDataLines(await streamRes.text());
+    expect(chunks[chunks.length - 1]).toBe("[DONE]");
+    const choices = chunks
+      .filter((d) => d !== "[DONE]")
+      .flatMap((d) => (JSON.parse(d) as { choices: Array<Record<string, unknown>> }).choices);
+    expect(choices.some((choice) => choice.finish_reason === "tool_calls")).toBe(true);
+    expect(JSON.stringify(choices)).toContain('"name":"get_weather"');
+
+    const invalid = await postChatCompletions(port, {
+      model: "openclaw",
+      tools: [{ type: "function", function: { name: "" } }],
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(invalid.status).toBe(400);
+    await invalid.text();
+  });
+
+  it("lists models and validates embeddings requests", async () => {
+    const port = enabledPort;
+    const get = (path: string) =>
+      fetch(`http://127.0.0.1:${port}${path}`, { headers: { authorization: "Bearer secret" } });
+
+    const list = await get("/v1/models");
+    expect(list.status).toBe(200);
+    const listJson = (await list.json()) as { object: string; data: Array<{ id: string }> };
+    expect(listJson.object).toBe("list");
+    expect(listJson.data.map((entry) => entry.id)).toEqual(
+      expect.arrayContaining(["openclaw", "openclaw:main"]),
+    );
+
+    const single = await get("/v1/models/openclaw%3Amain");
+    expect(await single.json()).toMatchObject({ id: "openclaw:main", owned_by: "openclaw" });
+    const missing = await get("/v1/models/nope");
+    expect(missing.status).toBe(404);
+    await missing.text();
+
+    const unauthorized = await fetch(`http://127.0.0.1:${port}/v1/models`);
+    expect(unauthorized.status).toBe(401);
+    await unauthorized.text();
+
+    const postEmbeddings = (body: unknown) =>
+      fetch(`http://127.0.0.1:${port}/v1/embeddings`, {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: "Bearer secret" },
+        body: JSON.stringify(body),
+      });
+    const badInput = await postEmbeddings({ input: [1, 2, 3] });
+    expect(badInput.status).toBe(400);
+    await badInput.text();
+
+    const previous = testState.agentConfig;
+    testState.agentConfig = { memorySearch: { enabled: false } };
+    try {
+      const disabled = await postEmbeddings({ input: "hello" });
+      expect(disabled.status).toBe(400);
+      const disabledJson = (await disabled.json()) as { error?: { message?: string } };
+      expect(disabledJson.error?.message).toContain("memory search is disabled");
+    } finally {
+      testState.agentConfig = previous;
+    }
+  });
+
+  it("checks embedding model names, reports usage and rebuilds providers on config change", async () => {
+    const postEmbeddings = (body: unknown) =>
+      fetch(`http://127.0.0.1:${enabledPort}/v1/embeddings`, {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: "Bearer secret" },
+        body: JSON.stringify(body),
+      });
+    embeddingMocks.createEmbeddingProvider.mockClear();
+    const previous = testState.agentConfig;
+    testState.agentConfig = {
+      memorySearch: { provider: "openai", model: "text-embedding-3-small" },
+    };
+    try {
+      const ok = await postEmbeddings({ input: ["a", "b"], model: "openclaw:main" });
+      expect(ok.status).toBe(200);
+      expect(await ok.json()).toMatchObject({
+        model: "openai/text-embedding-3-small",
+        data: [{ index: 0 }, { index: 1 }],
+        usage: { prompt_tokens: 7, total_tokens: 7 },
+      });
+
+      const named = await postEmbeddings({ input: "a", model: "openai/text-embedding-3-small" });
+      expect(named.status).toBe(200);
+      await named.text();
+
+      const unknown = await postEmbeddings({ input: "a", model: "text-embedding-ada-002" });
+      expect(unknown.status).toBe(404);
+      const unknownJson = (await unknown.json()) as { error?: { message?: string } };
+      expect(unknownJson.error?.message).toContain("text-embedding-ada-002");
+      expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledTimes(1);
+
+      testState.agentConfig = {
+        memorySearch: { provider: "openai", model: "text-embedding-3-large" },
+      };
+      const changed = await postEmbeddings({ input: "a" });
+      expect(await changed.json()).toMatchObject({ model: "openai/text-embedding-3-large" });
+      expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledTimes(2);
+    } finally {
+      testState.agentConfig = previous;
+    }
+  });
 });
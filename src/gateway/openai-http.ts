@@ -1,20 +1,42 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { ClientToolDefinition } from "../agents/pi-embedded-runner/run/params.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { listAgentIds, resolveAgentDir } from "../agents/agent-scope.js";
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from "../agents/defaults.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import {
+  buildAllowedModelSet,
+  modelKey,
+  resolveConfiguredModelRef,
+} from "../agents/model-selection.js";
 import { buildHistoryContextFromEntries, type HistoryEntry } from "../auto-reply/reply/history.js";
 import { createDefaultDeps } from "../cli/deps.js";
 import { agentCommand } from "../commands/agent.js";
+import { loadConfig } from "../config/config.js";
 import { emitAgentEvent, onAgentEvent } from "../infra/agent-events.js";
+import { createEmbeddingProvider, type EmbeddingProvider } from "../memory/embeddings.js";
 import { defaultRuntime } from "../runtime.js";
 import { authorizeGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
 import {
   readJsonBodyOrError,
+  sendInvalidRequest,
   sendJson,
   sendMethodNotAllowed,
   sendUnauthorized,
   setSseHeaders,
   writeDone,
 } from "./http-common.js";
-import { getBearerToken, resolveAgentIdForRequest, resolveSessionKey } from "./http-utils.js";
+import {
+  applyToolChoice,
+  getBearerToken,
+  resolveAgentIdForRequest,
+  resolveAgentIdFromModel,
+  resolveSessionKey,
+} from "./http-utils.js";
+import { ToolChoiceSchema, ToolDefinitionSchema } from "./open-responses.schema.js";
+import { loadGatewayModelCatalog } from "./server-model-catalog.js";
 
 type OpenAiHttpOptions = {
   auth: ResolvedGatewayAuth;
@@ -26,6 +48,8 @@ type OpenAiChatMessage = {
   role?: unknown;
   content?: unknown;
   name?: unknown;
+  tool_call_id?: unknown;
+  tool_calls?: unknown;
 };
 
 type OpenAiChatCompletionRequest = {
@@ -33,8 +57,28 @@ type OpenAiChatCompletionRequest = {
   stream?: unknown;
   messages?: unknown;
   user?: unknown;
+  tools?: unknown;
+  tool_choice?: unknown;
+};
+
+type OpenAiEmbeddingsRequest = {
+  input?: unknown;
+  model?: unknown;
+  encoding_format?: unknown;
 };
 
+type PendingToolCall = { id: string; name: string; arguments: string };
+
+const ChatToolsSchema = z.object({
+  tools: z.array(ToolDefinitionSchema).optional(),
+  tool_choice: ToolChoiceSchema.optional(),
+});
+
+// Matches the OpenAI limit on inputs per embeddings request.
+const MAX_EMBEDDING_INPUTS = 2048;
+// Rough token estimate for providers whose API does not report usage.
+const EMBEDDING_CHARS_PER_TOKEN_ESTIMATE = 4;
+
 function writeSse(res: ServerResponse, data: unknown) {
   res.write(`data: ${JSON.stringify(data)}\n\n`);
 }
@@ -82,11 +126,20 @@ function buildAgentPrompt(messagesUnknown: unknown): {
   const systemParts: string[] = [];
   const conversationEntries: Array<{ role: "user" | "assistant" | "tool"; entry: HistoryEntry }> =
     [];
+  // Tool results only carry the call id; remember which function each call was for.
+  const toolCallNames = new Map<string, string>();
 
   for (const msg of messages) {
     if (!msg || typeof msg !== "object") {
       continue;
     }
+    if (Array.isArray(msg.tool_calls)) {
+      for (const call of msg.tool_calls as Array<{ id?: unknown; function?: { name?: unknown } }>) {
+        if (typeof call?.id === "string" && typeof call.function?.name === "string") {
+          toolCallNames.set(call.id, call.function.name);
+        }
+      }
+    }
     const role = typeof msg.role === "string" ? msg.role.trim() : "";
     const content = extractTextContent(msg.content).trim();
     if (!role || !content) {
@@ -102,7 +155,11 @@ function buildAgentPrompt(messagesUnknown: unknown): {
       continue;
     }
 
-    const name = typeof msg.name === "string" ? msg.name.trim() : "";
+    const toolCallId = typeof msg.tool_call_id === "string" ? msg.tool_call_id : "";
+    const name =
+      (typeof msg.name === "string" ? msg.name.trim() : "") ||
+      toolCallNames.get(toolCallId) ||
+      toolCallId;
     const sender =
       normalizedRole === "assistant"
         ? "Assistant"
@@ -168,18 +225,281 @@ function coerceRequest(val: unknown): OpenAiChatCompletionRequest {
   return val as OpenAiChatCompletionRequest;
 }
 
+function resolveResultText(result: unknown): string {
+  const payloads = (result as { payloads?: Array<{ text?: string }> } | null)?.payloads;
+  if (!Array.isArray(payloads)) {
+    return "";
+  }
+  return payloads
+    .map((p) => (typeof p.text === "string" ? p.text : ""))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function readPendingToolCalls(result: unknown): PendingToolCall[] {
+  const meta = (result as { meta?: unknown } | null)?.meta;
+  if (!meta || typeof meta !== "object") {
+    return [];
+  }
+  const { stopReason, pendingToolCalls } = meta as {
+    stopReason?: string;
+    pendingToolCalls?: PendingToolCall[];
+  };
+  return stopReason === "tool_calls" && Array.isArray(pendingToolCalls) ? pendingToolCalls : [];
+}
+
+function formatToolCalls(calls: PendingToolCall[]) {
+  return calls.map((call) => ({
+    id: call.id,
+    type: "function" as const,
+    function: { name: call.name, arguments: call.arguments },
+  }));
+}
+
+/** Models a client can pick: agent targets first, then allowed catalog models as `provider/model`. */
+async function listOpenAiModels(
+  cfg: OpenClawConfig,
+): Promise<Array<{ id: string; ownedBy: string }>> {
+  const agents = ["openclaw", ...listAgentIds(cfg).map((agentId) => `openclaw:${agentId}`)];
+  const { provider, model } = resolveConfiguredModelRef({
+    cfg,
+    defaultProvider: DEFAULT_PROVIDER,
+    defaultModel: DEFAULT_MODEL,
+  });
+  const { allowedCatalog } = buildAllowedModelSet({
+    cfg,
+    catalog: await loadGatewayModelCatalog(),
+    defaultProvider: provider,
+    defaultModel: model,
+  });
+  return [
+    ...agents.map((id) => ({ id, ownedBy: "openclaw" })),
+    ...allowedCatalog.map((entry) => ({
+      id: modelKey(entry.provider, entry.id),
+      ownedBy: entry.provider,
+    })),
+  ];
+}
+
+/** A catalog model named in `model` runs for this request only; agent targets are not models. */
+async function resolveModelOverride(model: string): Promise<string | undefined> {
+  if (!model.includes("/") || resolveAgentIdFromModel(model)) {
+    return undefined;
+  }
+  const models = await listOpenAiModels(loadConfig());
+  return models.some((entry) => entry.ownedBy !== "openclaw" && entry.id === model)
+    ? model
+    : undefined;
+}
+
+async function handleModelsRequest(res: ServerResponse, modelId?: string) {
+  const models = (await listOpenAiModels(loadConfig())).map((entry) => ({
+    id: entry.id,
+    object: "model",
+    created: 0,
+    owned_by: entry.ownedBy,
+  }));
+  if (modelId === undefined) {
+    sendJson(res, 200, { object: "list", data: models });
+    return;
+  }
+  const match = models.find((entry) => entry.id === modelId);
+  if (!match) {
+    sendJson(res, 404, {
+      error: { message: `The model '${modelId}' does not exist.`, type: "invalid_request_error" },
+    });
+    return;
+  }
+  sendJson(res, 200, match);
+}
+
+// One provider per agent, reused across requests (local models are expensive to load).
+// The fingerprint hashes the embedding settings so a config change replaces the provider
+// and keys or headers are never kept in plain text.
+type CachedEmbeddingProvider = { fingerprint: string; pending: Promise<EmbeddingProvider> };
+const embeddingProviders = new Map<string, CachedEmbeddingProvider>();
+
+async function resolveEmbeddingProvider(
+  cfg: OpenClawConfig,
+  agentId: string,
+): Promise<EmbeddingProvider | null> {
+  const settings = resolveMemorySearchConfig(cfg, agentId);
+  if (!settings) {
+    embeddingProviders.delete(agentId);
+    return null;
+  }
+  const options = {
+    provider: settings.provider,
+    remote: settings.remote,
+    model: settings.model,
+    fallback: settings.fallback,
+    local: settings.local,
+  };
+  const fingerprint = createHash("sha256").update(JSON.stringify(options)).digest("hex");
+  const cached = embeddingProviders.get(agentId);
+  if (cached?.fingerprint === fingerprint) {
+    return await cached.pending;
+  }
+  const pending = createEmbeddingProvider({
+    config: cfg,
+    agentDir: resolveAgentDir(cfg, agentId),
+    ...options,
+  }).then((result) => result.provider);
+  const entry: CachedEmbeddingProvider = { fingerprint, pending };
+  embeddingProviders.set(agentId, entry);
+  pending.catch(() => {
+    if (embeddingProviders.get(agentId) === entry) {
+      embeddingProviders.delete(agentId);
+    }
+  });
+  return await pending;
+}
+
+/**
+ * `model` may select the agent (`openclaw`, `openclaw:<agentId>`) or name the agent's
+ * embedding model as `<provider>/<model>` or bare `<model>`; anything else is rejected.
+ */
+function matchesEmbeddingModel(model: string | undefined, provider: EmbeddingProvider): boolean {
+  const requested = model?.trim();
+  if (!requested || requested === "openclaw" || resolveAgentIdFromModel(requested)) {
+    return true;
+  }
+  return requested === `${provider.id}/${provider.model}` || requested === provider.model;
+}
+
+async function embedWithUsage(
+  provider: EmbeddingProvider,
+  inputs: string[],
+): Promise<{ embeddings: number[][]; totalTokens: number }> {
+  const result = provider.embedBatchWithUsage
+    ? await provider.embedBatchWithUsage(inputs)
+    : { embeddings: await provider.embedBatch(inputs) };
+  const totalTokens =
+    result.totalTokens ??
+    inputs.reduce(
+      (sum, text) => sum + Math.ceil(text.length / EMBEDDING_CHARS_PER_TOKEN_ESTIMATE),
+      0,
+    );
+  return { embeddings: result.embeddings, totalTokens };
+}
+
+async function handleEmbeddingsRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiHttpOptions,
+) {
+  const body = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? 1024 * 1024);
+  if (body === undefined) {
+    return;
+  }
+  const payload = (body && typeof body === "object" ? body : {}) as OpenAiEmbeddingsRequest;
+  const inputs =
+    typeof payload.input === "string"
+      ? [payload.input]
+      : Array.isArray(payload.input) && payload.input.every((item) => typeof item === "string")
+        ? payload.input
+        : null;
+  if (!inputs || inputs.length === 0) {
+    sendInvalidRequest(res, "`input` must be a string or a non-empty array of strings.");
+    return;
+  }
+  if (inputs.length > MAX_EMBEDDING_INPUTS) {
+    sendInvalidRequest(res, `\`input\` accepts at most ${MAX_EMBEDDING_INPUTS} items.`);
+    return;
+  }
+  const encoding = payload.encoding_format ?? "float";
+  if (encoding !== "float" && encoding !== "base64") {
+    sendInvalidRequest(res, "`encoding_format` must be `float` or `base64`.");
+    return;
+  }
+
+  const model = typeof payload.model === "string" ? payload.model : undefined;
+  const agentId = resolveAgentIdForRequest({ req, model });
+  try {
+    const provider = await resolveEmbeddingProvider(loadConfig(), agentId);
+    if (!provider) {
+      sendInvalidRequest(
+        res,
+        `Embeddings are unavailable: memory search is disabled for agent ${agentId}.`,
+      );
+      return;
+    }
+    if (!matchesEmbeddingModel(model, provider)) {
+      sendJson(res, 404, {
+        error: {
+          message: `The model '${model}' does not exist. Use openclaw, openclaw:<agentId> or ${provider.id}/${provider.model}.`,
+          type: "invalid_request_error",
+        },
+      });
+      return;
+    }
+    let embedded: { embeddings: number[][]; totalTokens: number };
+    try {
+      embedded = await embedWithUsage(provider, inputs);
+    } catch (err) {
+      // A failed call may mean rotated credentials; rebuild the provider next time.
+      embeddingProviders.delete(agentId);
+      throw err;
+    }
+    sendJson(res, 200, {
+      object: "list",
+      data: embedded.embeddings.map((vector, index) => ({
+        object: "embedding",
+        index,
+        embedding:
+          encoding === "base64"
+            ? Buffer.from(new Float32Array(vector).buffer).toString("base64")
+            : vector,
+      })),
+      model: `${provider.id}/${provider.model}`,
+      usage: { prompt_tokens: embedded.totalTokens, total_tokens: embedded.totalTokens },
+    });
+  } catch (err) {
+    sendJson(res, 500, {
+      error: { message: String(err), type: "api_error" },
+    });
+  }
+}
+
+function resolveOpenAiRoute(
+  pathname: string,
+):
+  | { kind: "chat" | "embeddings"; method: "POST" }
+  | { kind: "models"; method: "GET"; modelId?: string }
+  | null {
+  if (pathname === "/v1/chat/completions") {
+    return { kind: "chat", method: "POST" };
+  }
+  if (pathname === "/v1/embeddings") {
+    return { kind: "embeddings", method: "POST" };
+  }
+  if (pathname === "/v1/models") {
+    return { kind: "models", method: "GET" };
+  }
+  if (pathname.startsWith("/v1/models/")) {
+    const raw = pathname.slice("/v1/models/".length);
+    try {
+      return { kind: "models", method: "GET", modelId: decodeURIComponent(raw) };
+    } catch {
+      return { kind: "models", method: "GET", modelId: raw };
+    }
+  }
+  return null;
+}
+
 export async function handleOpenAiHttpRequest(
   req: IncomingMessage,
   res: ServerResponse,
   opts: OpenAiHttpOptions,
 ): Promise<boolean> {
   const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
-  if (url.pathname !== "/v1/chat/completions") {
+  const route = resolveOpenAiRoute(url.pathname);
+  if (!route) {
     return false;
   }
 
-  if (req.method !== "POST") {
-    sendMethodNotAllowed(res);
+  if (req.method !== route.method) {
+    sendMethodNotAllowed(res, route.method);
     return true;
   }
 
@@ -195,6 +515,15 @@ export async function handleOpenAiHttpRequest(
     return true;
   }
 
+  if (route.kind === "models") {
+    await handleModelsRequest(res, route.modelId);
+    return true;
+  }
+  if (route.kind === "embeddings") {
+    await handleEmbeddingsRequest(req, res, opts);
+    return true;
+  }
+
   const body = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? 1024 * 1024);
   if (body === undefined) {
     return true;
@@ -205,6 +534,29 @@ export async function handleOpenAiHttpRequest(
   const model = typeof payload.model === "string" ? payload.model : "openclaw";
   const user = typeof payload.user === "string" ? payload.user : undefined;
 
+  const toolsResult = ChatToolsSchema.safeParse({
+    tools: payload.tools ?? undefined,
+    tool_choice: payload.tool_choice ?? undefined,
+  });
+  if (!toolsResult.success) {
+    const issue = toolsResult.error.issues[0];
+    sendInvalidRequest(res, `Invalid \`${issue?.path.join(".")}\`: ${issue?.message}`);
+    return true;
+  }
+  let clientTools: ClientToolDefinition[];
+  let toolChoicePrompt: string | undefined;
+  try {
+    const toolChoiceResult = applyToolChoice({
+      tools: toolsResult.data.tools ?? [],
+      toolChoice: toolsResult.data.tool_choice,
+    });
+    clientTools = toolChoiceResult.tools;
+    toolChoicePrompt = toolChoiceResult.extraSystemPrompt;
+  } catch (err) {
+    sendInvalidRequest(res, String(err));
+    return true;
+  }
+
   const agentId = resolveAgentIdForRequest({ req, model });
   const sessionKey = resolveOpenAiSessionKey({ req, agentId, user });
   const prompt = buildAgentPrompt(payload.messages);
@@ -220,31 +572,24 @@ export async function handleOpenAiHttpRequest(
 
   const runId = `chatcmpl_${randomUUID()}`;
   const deps = createDefaultDeps();
+  const commandOpts = {
+    message: prompt.message,
+    extraSystemPrompt:
+      [prompt.extraSystemPrompt, toolChoicePrompt].filter(Boolean).join("\n\n") || undefined,
+    clientTools: clientTools.length > 0 ? clientTools : undefined,
+    model: await resolveModelOverride(model),
+    sessionKey,
+    runId,
+    deliver: false,
+    messageChannel: "webchat",
+    bestEffortDeliver: false,
+  };
 
   if (!stream) {
     try {
-      const result = await agentCommand(
-        {
-          message: prompt.message,
-          extraSystemPrompt: prompt.extraSystemPrompt,
-          sessionKey,
-          runId,
-          deliver: false,
-          messageChannel: "webchat",
-          bestEffortDeliver: false,
-        },
-        defaultRuntime,
-        deps,
-      );
-
-      const payloads = (result as { payloads?: Array<{ text?: string }> } | null)?.payloads;
-      const content =
-        Array.isArray(payloads) && payloads.length > 0
-          ? payloads
-              .map((p) => (typeof p.text === "string" ? p.text : ""))
-              .filter(Boolean)
-              .join("\n\n")
-          : "No response from OpenClaw.";
+      const result = await agentCommand(commandOpts, defaultRuntime, deps);
+      const content = resolveResultText(result);
+      const toolCalls = readPendingToolCalls(result);
 
       sendJson(res, 200, {
         id: runId,
@@ -254,8 +599,15 @@ export async function handleOpenAiHttpRequest(
         choices: [
           {
             index: 0,
-            message: { role: "assistant", content },
-            finish_reason: "stop",
+            message:
+              toolCalls.length > 0
+                ? {
+                    role: "assistant",
+                    content: content || null,
+                    tool_calls: formatToolCalls(toolCalls),
+                  }
+                : { role: "assistant", content: content || "No response from OpenClaw." },
+            finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
           },
         ],
         usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
@@ -274,6 +626,26 @@ export async function handleOpenAiHttpRequest(
   let sawAssistantDelta = false;
   let closed = false;
 
+  const writeChunk = (delta: Record<string, unknown>, finishReason?: string | null) => {
+    writeSse(res, {
+      id: runId,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        finishReason === undefined
+          ? { index: 0, delta }
+          : { index: 0, delta, finish_reason: finishReason },
+      ],
+    });
+  };
+  const writeRole = () => {
+    if (!wroteRole) {
+      wroteRole = true;
+      writeChunk({ role: "assistant" });
+    }
+  };
+
   const unsubscribe = onAgentEvent((evt) => {
     if (evt.runId !== runId) {
       return;
@@ -290,35 +662,14 @@ export async function handleOpenAiHttpRequest(
         return;
       }
 
-      if (!wroteRole) {
-        wroteRole = true;
-        writeSse(res, {
-          id: runId,
-          object: "chat.completion.chunk",
-          created: Math.floor(Date.now() / 1000),
-          model,
-          choices: [{ index: 0, delta: { role: "assistant" } }],
-        });
-      }
-
+      writeRole();
       sawAssistantDelta = true;
-      writeSse(res, {
-        id: runId,
-        object: "chat.completion.chunk",
-        created: Math.floor(Date.now() / 1000),
-        model,
-        choices: [
-          {
-            index: 0,
-            delta: { content },
-            finish_reason: null,
-          },
-        ],
-      });
+      writeChunk({ content }, null);
       return;
     }
 
-    if (evt.stream === "lifecycle") {
+    // With client tools the run result decides how the stream ends (text or tool_calls).
+    if (evt.stream === "lifecycle" && !commandOpts.clientTools) {
       const phase = evt.data?.phase;
       if (phase === "end" || phase === "error") {
         closed = true;
@@ -336,77 +687,35 @@ export async function handleOpenAiHttpRequest(
 
   void (async () => {
     try {
-      const result = await agentCommand(
-        {
-          message: prompt.message,
-          extraSystemPrompt: prompt.extraSystemPrompt,
-          sessionKey,
-          runId,
-          deliver: false,
-          messageChannel: "webchat",
-          bestEffortDeliver: false,
-        },
-        defaultRuntime,
-        deps,
-      );
+      const result = await agentCommand(commandOpts, defaultRuntime, deps);
 
       if (closed) {
         return;
       }
 
-      if (!sawAssistantDelta) {
-        if (!wroteRole) {
-          wroteRole = true;
-          writeSse(res, {
-            id: runId,
-            object: "chat.completion.chunk",
-            created: Math.floor(Date.now() / 1000),
-            model,
-            choices: [{ index: 0, delta: { role: "assistant" } }],
-          });
-        }
-
-        const payloads = (result as { payloads?: Array<{ text?: string }> } | null)?.payloads;
-        const content =
-          Array.isArray(payloads) && payloads.length > 0
-            ? payloads
-                .map((p) => (typeof p.text === "string" ? p.text : ""))
-                .filter(Boolean)
-                .join("\n\n")
-            : "No response from OpenClaw.";
+      const toolCalls = readPendingToolCalls(result);
+      if (toolCalls.length > 0) {
+        writeRole();
+        writeChunk(
+          {
+            tool_calls: formatToolCalls(toolCalls).map((call, index) => ({ index, ...call })),
+          },
+          null,
+        );
+        writeChunk({}, "tool_calls");
+        return;
+      }
 
+      if (!sawAssistantDelta) {
+        writeRole();
         sawAssistantDelta = true;
-        writeSse(res, {
-          id: runId,
-          object: "chat.completion.chunk",
-          created: Math.floor(Date.now() / 1000),
-          model,
-          choices: [
-            {
-              index: 0,
-              delta: { content },
-              finish_reason: null,
-            },
-          ],
-        });
+        writeChunk({ content: resolveResultText(result) || "No response from OpenClaw." }, null);
       }
     } catch (err) {
       if (closed) {
         return;
       }
-      writeSse(res, {
-        id: runId,
-        object: "chat.completion.chunk",
-        created: Math.floor(Date.now() / 1000),
-        model,
-        choices: [
-          {
-            index: 0,
-            delta: { content: `Error: ${String(err)}` },
-            finish_reason: "stop",
-          },
-        ],
-      });
+      writeChunk({ content: `Error: ${String(err)}` }, "stop");
       emitAgentEvent({
         runId,
         stream: "lifecycle",
@@ -43,7 +43,12 @@ import {
   setSseHeaders,
   writeDone,
 } from "./http-common.js";
-import { getBearerToken, resolveAgentIdForRequest, resolveSessionKey } from "./http-utils.js";
+import {
+  applyToolChoice,
+  getBearerToken,
+  resolveAgentIdForRequest,
+  resolveSessionKey,
+} from "./http-utils.js";
 import {
   CreateResponseBodySchema,
   type ContentPart,
@@ -127,47 +132,6 @@ function extractClientTools(body: CreateResponseBody): ClientToolDefinition[] {
   return (body.tools ?? []) as ClientToolDefinition[];
 }
 
-function applyToolChoice(params: {
-  tools: ClientToolDefinition[];
-  toolChoice: CreateResponseBody["tool_choice"];
-}): { tools: ClientToolDefinition[]; extraSystemPrompt?: string } {
-  const { tools, toolChoice } = params;
-  if (!toolChoice) {
-    return { tools };
-  }
-
-  if (toolChoice === "none") {
-    return { tools: [] };
-  }
-
-  if (toolChoice === "required") {
-    if (tools.length === 0) {
-      throw new Error("tool_choice=required but no tools were provided");
-    }
-    return {
-      tools,
-      extraSystemPrompt: "You must call one of the available tools before responding.",
-    };
-  }
-
-  if (typeof toolChoice === "object" && toolChoice.type === "function") {
-    const targetName = toolChoice.function?.name?.trim();
-    if (!targetName) {
-      throw new Error("tool_choice.function.name is required");
-    }
-    const matched = tools.filter((tool) => tool.function?.name === targetName);
-    if (matched.length === 0) {
-      throw new Error(`tool_choice requested unknown tool: ${targetName}`);
-    }
-    return {
-      tools: matched,
-      extraSystemPrompt: `You must call the ${targetName} tool before responding.`,
-    };
-  }
-
-  return { tools };
-}
-
 export function buildAgentPrompt(input: string | ItemParam[]): {
   message: string;
   extraSystemPrompt?: string;
@@ -40,6 +40,8 @@ import {
   AgentsListParamsSchema,
   type AgentsListResult,
   AgentsListResultSchema,
+  type RoutingExplainParams,
+  RoutingExplainParamsSchema,
   type AgentWaitParams,
   AgentWaitParamsSchema,
   type ChannelsLogoutParams,
@@ -72,12 +74,20 @@ import {
   ConnectParamsSchema,
   type CronAddParams,
   CronAddParamsSchema,
+  type CronJobDefinition,
+  CronJobDefinitionSchema,
+  type CronExportParams,
+  CronExportParamsSchema,
+  type CronImportParams,
+  CronImportParamsSchema,
   type CronJob,
   CronJobSchema,
   type CronListParams,
   CronListParamsSchema,
   type CronRemoveParams,
   CronRemoveParamsSchema,
+  type CronReviveParams,
+  CronReviveParamsSchema,
   type CronRunLogEntry,
   type CronRunParams,
   CronRunParamsSchema,
@@ -99,6 +109,8 @@ import {
   DeviceTokenRotateParamsSchema,
   type ExecApprovalsGetParams,
   ExecApprovalsGetParamsSchema,
+  type ExecApprovalsAuditParams,
+  ExecApprovalsAuditParamsSchema,
   type ExecApprovalsNodeGetParams,
   ExecApprovalsNodeGetParamsSchema,
   type ExecApprovalsNodeSetParams,
@@ -115,6 +127,10 @@ import {
   ErrorShapeSchema,
   type EventFrame,
   EventFrameSchema,
+  type SubscribeParams,
+  SubscribeParamsSchema,
+  type UnsubscribeParams,
+  UnsubscribeParamsSchema,
   errorShape,
   type GatewayFrame,
   GatewayFrameSchema,
@@ -150,6 +166,16 @@ import {
   NodeRenameParamsSchema,
   type PollParams,
   PollParamsSchema,
+  type OutboxListParams,
+  OutboxListParamsSchema,
+  type OutboxReleaseParams,
+  OutboxReleaseParamsSchema,
+  type OutboxDiscardParams,
+  OutboxDiscardParamsSchema,
+  type HooksDeliveriesParams,
+  HooksDeliveriesParamsSchema,
+  type HooksReplayParams,
+  HooksReplayParamsSchema,
   PROTOCOL_VERSION,
   type PresenceEntry,
   PresenceEntrySchema,
@@ -230,14 +256,28 @@ export const validateConnectParams = ajv.compile<ConnectParams>(ConnectParamsSch
 export const validateRequestFrame = ajv.compile<RequestFrame>(RequestFrameSchema);
 export const validateResponseFrame = ajv.compile<ResponseFrame>(ResponseFrameSchema);
 export const validateEventFrame = ajv.compile<EventFrame>(EventFrameSchema);
+export const validateSubscribeParams = ajv.compile<SubscribeParams>(SubscribeParamsSchema);
+export const validateUnsubscribeParams = ajv.compile<UnsubscribeParams>(UnsubscribeParamsSchema);
 export const validateSendParams = ajv.compile(SendParamsSchema);
 export const validatePollParams = ajv.compile<PollParams>(PollParamsSchema);
+export const validateOutboxListParams = ajv.compile<OutboxListParams>(OutboxListParamsSchema);
+export const validateOutboxReleaseParams =
+  ajv.compile<OutboxReleaseParams>(OutboxReleaseParamsSchema);
+export const validateOutboxDiscardParams =
+  ajv.compile<OutboxDiscardParams>(OutboxDiscardParamsSchema);
+export const validateHooksDeliveriesParams = ajv.compile<HooksDeliveriesParams>(
+  HooksDeliveriesParamsSchema,
+);
+export const validateHooksReplayParams = ajv.compile<HooksReplayParams>(HooksReplayParamsSchema);
 export const validateAgentParams = ajv.compile(AgentParamsSchema);
 export const validateAgentIdentityParams =
   ajv.compile<AgentIdentityParams>(AgentIdentityParamsSchema);
 export const validateAgentWaitParams = ajv.compile<AgentWaitParams>(AgentWaitParamsSchema);
 export const validateWakeParams = ajv.compile<WakeParams>(WakeParamsSchema);
 export const validateAgentsListParams = ajv.compile<AgentsListParams>(AgentsListParamsSchema);
+export const validateRoutingExplainParams = ajv.compile<RoutingExplainParams>(
+  RoutingExplainParamsSchema,
+);
 export const validateAgentsCreateParams = ajv.compile<AgentsCreateParams>(AgentsCreateParamsSchema);
 export const validateAgentsUpdateParams = ajv.compile<AgentsUpdateParams>(AgentsUpdateParamsSchema);
 export const validateAgentsDeleteParams = ajv.compile<AgentsDeleteParams>(AgentsDeleteParamsSchema);
@@ -315,8 +355,11 @@ export const validateSkillsUpdateParams = ajv.compile<SkillsUpdateParams>(Skills
 export const validateCronListParams = ajv.compile<CronListParams>(CronListParamsSchema);
 export const validateCronStatusParams = ajv.compile<CronStatusParams>(CronStatusParamsSchema);
 export const validateCronAddParams = ajv.compile<CronAddParams>(CronAddParamsSchema);
+export const validateCronExportParams = ajv.compile<CronExportParams>(CronExportParamsSchema);
+export const validateCronImportParams = ajv.compile<CronImportParams>(CronImportParamsSchema);
 export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdateParamsSchema);
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
+export const validateCronReviveParams = ajv.compile<CronReviveParams>(CronReviveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
@@ -337,6 +380,9 @@ export const validateDeviceTokenRevokeParams = ajv.compile<DeviceTokenRevokePara
 export const validateExecApprovalsGetParams = ajv.compile<ExecApprovalsGetParams>(
   ExecApprovalsGetParamsSchema,
 );
+export const validateExecApprovalsAuditParams = ajv.compile<ExecApprovalsAuditParams>(
+  ExecApprovalsAuditParamsSchema,
+);
 export const validateExecApprovalsSetParams = ajv.compile<ExecApprovalsSetParams>(
   ExecApprovalsSetParamsSchema,
 );
@@ -405,6 +451,8 @@ export {
   RequestFrameSchema,
   ResponseFrameSchema,
   EventFrameSchema,
+  SubscribeParamsSchema,
+  UnsubscribeParamsSchema,
   GatewayFrameSchema,
   PresenceEntrySchema,
   SnapshotSchema,
@@ -414,6 +462,11 @@ export {
   ChatEventSchema,
   SendParamsSchema,
   PollParamsSchema,
+  OutboxListParamsSchema,
+  OutboxReleaseParamsSchema,
+  OutboxDiscardParamsSchema,
+  HooksDeliveriesParamsSchema,
+  HooksReplayParamsSchema,
   AgentParamsSchema,
   AgentIdentityParamsSchema,
   AgentIdentityResultSchema,
@@ -467,6 +520,7 @@ export {
   AgentsFilesSetResultSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
+  RoutingExplainParamsSchema,
   ModelsListParamsSchema,
   SkillsStatusParamsSchema,
   SkillsInstallParamsSchema,
@@ -475,8 +529,12 @@ export {
   CronListParamsSchema,
   CronStatusParamsSchema,
   CronAddParamsSchema,
+  CronJobDefinitionSchema,
+  CronExportParamsSchema,
+  CronImportParamsSchema,
   CronUpdateParamsSchema,
   CronRemoveParamsSchema,
+  CronReviveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
   LogsTailParamsSchema,
@@ -500,6 +558,8 @@ export type {
   RequestFrame,
   ResponseFrame,
   EventFrame,
+  SubscribeParams,
+  UnsubscribeParams,
   PresenceEntry,
   Snapshot,
   ErrorShape,
@@ -554,6 +614,7 @@ export type {
   AgentsFilesSetResult,
   AgentsListParams,
   AgentsListResult,
+  RoutingExplainParams,
   SkillsStatusParams,
   SkillsBinsParams,
   SkillsBinsResult,
@@ -578,17 +639,27 @@ export type {
   CronListParams,
   CronStatusParams,
   CronAddParams,
+  CronJobDefinition,
+  CronExportParams,
+  CronImportParams,
   CronUpdateParams,
   CronRemoveParams,
+  CronReviveParams,
   CronRunParams,
   CronRunsParams,
   CronRunLogEntry,
   ExecApprovalsGetParams,
+  ExecApprovalsAuditParams,
   ExecApprovalsSetParams,
   ExecApprovalsSnapshot,
   LogsTailParams,
   LogsTailResult,
   PollParams,
+  OutboxListParams,
+  OutboxReleaseParams,
+  OutboxDiscardParams,
+  HooksDeliveriesParams,
+  HooksReplayParams,
   UpdateRunParams,
   ChatInjectParams,
 };
@@ -28,6 +28,42 @@ export const SendParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const OutboxListParamsSchema = Type.Object({}, { additionalProperties: false });
+
+export const OutboxReleaseParamsSchema = Type.Object(
+  { id: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const OutboxDiscardParamsSchema = Type.Object(
+  { id: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const HooksDeliveriesParamsSchema = Type.Object(
+  {
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+    status: Type.Optional(
+      Type.Union([
+        Type.Literal("running"),
+        Type.Literal("retrying"),
+        Type.Literal("ok"),
+        Type.Literal("error"),
+      ]),
+    ),
+    id: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const HooksReplayParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    remap: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
 export const PollParamsSchema = Type.Object(
   {
     to: NonEmptyString,
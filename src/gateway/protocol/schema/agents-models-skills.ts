@@ -44,6 +44,29 @@ export const AgentsListResultSchema = Type.Object(
   { additionalProperties: false },
 );
 
+const RoutingPeerSchema = Type.Object(
+  {
+    kind: Type.Union([Type.Literal("direct"), Type.Literal("group"), Type.Literal("channel")]),
+    id: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const RoutingExplainParamsSchema = Type.Object(
+  {
+    channel: NonEmptyString,
+    accountId: Type.Optional(Type.String()),
+    peer: Type.Optional(RoutingPeerSchema),
+    parentPeer: Type.Optional(RoutingPeerSchema),
+    guildId: Type.Optional(Type.String()),
+    teamId: Type.Optional(Type.String()),
+    text: Type.Optional(Type.String()),
+    mediaTypes: Type.Optional(Type.Array(Type.String())),
+    atMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
 export const AgentsCreateParamsSchema = Type.Object(
   {
     name: NonEmptyString,
@@ -25,6 +25,16 @@ export const CronScheduleSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      status: Type.Optional(
+        Type.Union([Type.Literal("ok"), Type.Literal("error"), Type.Literal("any")]),
+      ),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadSchema = Type.Union([
@@ -50,6 +60,14 @@ export const CronPayloadSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("workflow"),
+      workflow: NonEmptyString,
+      inputs: Type.Optional(Type.Record(Type.String(), Type.String())),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadPatchSchema = Type.Union([
@@ -75,6 +93,14 @@ export const CronPayloadPatchSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("workflow"),
+      workflow: Type.Optional(NonEmptyString),
+      inputs: Type.Optional(Type.Record(Type.String(), Type.String())),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronDeliverySchema = Type.Object(
@@ -97,6 +123,63 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const CronRetrySchema = Type.Object(
+  {
+    maxAttempts: Type.Optional(Type.Integer({ minimum: 1 })),
+    backoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    maxBackoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    jitter: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+    deadAfter: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronExclusionsSchema = Type.Object(
+  {
+    tz: Type.Optional(Type.String()),
+    dates: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            start: NonEmptyString,
+            end: Type.Optional(NonEmptyString),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
+    weekdays: Type.Optional(Type.Array(Type.Integer({ minimum: 0, maximum: 6 }))),
+    quietHours: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            start: NonEmptyString,
+            end: NonEmptyString,
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
+    icsPath: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const CronChainTriggerSchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    jobName: Type.Optional(Type.String()),
+    status: Type.Union([Type.Literal("ok"), Type.Literal("error")]),
+    runAtMs: Type.Integer({ minimum: 0 }),
+    firedAtMs: Type.Integer({ minimum: 0 }),
+    summary: Type.Optional(Type.String()),
+    outputText: Type.Optional(Type.String()),
+    error: Type.Optional(Type.String()),
+    chain: Type.Array(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -108,6 +191,9 @@ export const CronJobStateSchema = Type.Object(
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    retryAttempt: Type.Optional(Type.Integer({ minimum: 0 })),
+    deadAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    pendingTrigger: Type.Optional(CronChainTriggerSchema),
   },
   { additionalProperties: false },
 );
@@ -127,6 +213,8 @@ export const CronJobSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetrySchema),
+    exclusions: Type.Optional(CronExclusionsSchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -153,6 +241,37 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetrySchema),
+    exclusions: Type.Optional(CronExclusionsSchema),
+  },
+  { additionalProperties: false },
+);
+
+export const CronJobDefinitionSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    ...CronAddParamsSchema.properties,
+  },
+  { additionalProperties: false },
+);
+
+export const CronExportParamsSchema = Type.Object(
+  {
+    ids: Type.Optional(Type.Array(NonEmptyString)),
+    includeDisabled: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const CronImportParamsSchema = Type.Object(
+  {
+    version: Type.Literal(1),
+    jobs: Type.Array(CronJobDefinitionSchema),
+    dryRun: Type.Optional(Type.Boolean()),
+    onConflict: Type.Optional(
+      Type.Union([Type.Literal("fail"), Type.Literal("skip"), Type.Literal("overwrite")]),
+    ),
+    prune: Type.Optional(Type.Boolean()),
   },
   { additionalProperties: false },
 );
@@ -169,6 +288,8 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")])),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    retry: Type.Optional(Type.Union([CronRetrySchema, Type.Null()])),
+    exclusions: Type.Optional(Type.Union([CronExclusionsSchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -206,6 +327,21 @@ export const CronRemoveParamsSchema = Type.Union([
   ),
 ]);
 
+export const CronReviveParamsSchema = Type.Union([
+  Type.Object(
+    {
+      id: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      jobId: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+]);
+
 export const CronRunParamsSchema = Type.Union([
   Type.Object(
     {
@@ -255,6 +391,8 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    triggeredBy: Type.Optional(NonEmptyString),
+    chain: Type.Optional(Type.Array(NonEmptyString)),
   },
   { additionalProperties: false },
 );
@@ -5,6 +5,13 @@ export const ExecApprovalsAllowlistEntrySchema = Type.Object(
   {
     id: Type.Optional(NonEmptyString),
     pattern: Type.String(),
+    action: Type.Optional(Type.Union([Type.Literal("allow"), Type.Literal("deny")])),
+    args: Type.Optional(Type.Array(Type.String())),
+    paths: Type.Optional(
+      Type.Union([Type.Literal("workspace"), Type.Literal("outside-workspace")]),
+    ),
+    expiresAt: Type.Optional(Type.Integer({ minimum: 0 })),
+    sessionKey: Type.Optional(Type.String()),
     lastUsedAt: Type.Optional(Type.Integer({ minimum: 0 })),
     lastUsedCommand: Type.Optional(Type.String()),
     lastResolvedPath: Type.Optional(Type.String()),
@@ -63,6 +70,25 @@ export const ExecApprovalsSnapshotSchema = Type.Object(
 
 export const ExecApprovalsGetParamsSchema = Type.Object({}, { additionalProperties: false });
 
+export const ExecApprovalsAuditParamsSchema = Type.Object(
+  {
+    approvalId: Type.Optional(NonEmptyString),
+    agentId: Type.Optional(NonEmptyString),
+    event: Type.Optional(
+      Type.Union([
+        Type.Literal("requested"),
+        Type.Literal("resolved"),
+        Type.Literal("expired"),
+        Type.Literal("executed"),
+        Type.Literal("denied"),
+      ]),
+    ),
+    sinceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+  },
+  { additionalProperties: false },
+);
+
 export const ExecApprovalsSetParamsSchema = Type.Object(
   {
     file: ExecApprovalsFileSchema,
@@ -98,6 +124,7 @@ export const ExecApprovalRequestParamsSchema = Type.Object(
     agentId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
     resolvedPath: Type.Optional(Type.Union([Type.String(), Type.Null()])),
     sessionKey: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    reason: Type.Optional(Type.Union([Type.String(), Type.Null()])),
     timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
   },
   { additionalProperties: false },
@@ -107,6 +134,8 @@ export const ExecApprovalResolveParamsSchema = Type.Object(
   {
     id: NonEmptyString,
     decision: NonEmptyString,
+    approver: Type.Optional(NonEmptyString),
+    channel: Type.Optional(NonEmptyString),
   },
   { additionalProperties: false },
 );
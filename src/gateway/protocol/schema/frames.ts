@@ -151,6 +151,27 @@ export const EventFrameSchema = Type.Object(
     payload: Type.Optional(Type.Unknown()),
     seq: Type.Optional(Type.Integer({ minimum: 0 })),
     stateVersion: Type.Optional(StateVersionSchema),
+    /** Set when the connection's subscription or role hides some broadcasts; `seq` may jump. */
+    filtered: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const SubscribeParamsSchema = Type.Object(
+  {
+    events: Type.Optional(Type.Array(NonEmptyString, { minItems: 1 })),
+    agentIds: Type.Optional(Type.Array(NonEmptyString, { minItems: 1 })),
+    sessionKeys: Type.Optional(Type.Array(NonEmptyString, { minItems: 1 })),
+    channels: Type.Optional(Type.Array(NonEmptyString, { minItems: 1 })),
+    /** Replay buffered events with a higher seq before new ones arrive. */
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const UnsubscribeParamsSchema = Type.Object(
+  {
+    events: Type.Optional(Type.Array(NonEmptyString, { minItems: 1 })),
   },
   { additionalProperties: false },
 );
@@ -6,6 +6,11 @@ import {
   AgentParamsSchema,
   AgentWaitParamsSchema,
   PollParamsSchema,
+  OutboxListParamsSchema,
+  OutboxReleaseParamsSchema,
+  OutboxDiscardParamsSchema,
+  HooksDeliveriesParamsSchema,
+  HooksReplayParamsSchema,
   SendParamsSchema,
   WakeParamsSchema,
 } from "./agent.js";
@@ -24,6 +29,7 @@ import {
   AgentsFilesSetResultSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
+  RoutingExplainParamsSchema,
   AgentsUpdateParamsSchema,
   AgentsUpdateResultSchema,
   ModelChoiceSchema,
@@ -54,9 +60,13 @@ import {
 } from "./config.js";
 import {
   CronAddParamsSchema,
+  CronJobDefinitionSchema,
+  CronExportParamsSchema,
+  CronImportParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
   CronRemoveParamsSchema,
+  CronReviveParamsSchema,
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
@@ -74,6 +84,7 @@ import {
 } from "./devices.js";
 import {
   ExecApprovalsGetParamsSchema,
+  ExecApprovalsAuditParamsSchema,
   ExecApprovalsNodeGetParamsSchema,
   ExecApprovalsNodeSetParamsSchema,
   ExecApprovalsSetParamsSchema,
@@ -85,6 +96,8 @@ import {
   ConnectParamsSchema,
   ErrorShapeSchema,
   EventFrameSchema,
+  SubscribeParamsSchema,
+  UnsubscribeParamsSchema,
   GatewayFrameSchema,
   HelloOkSchema,
   RequestFrameSchema,
@@ -143,6 +156,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   RequestFrame: RequestFrameSchema,
   ResponseFrame: ResponseFrameSchema,
   EventFrame: EventFrameSchema,
+  SubscribeParams: SubscribeParamsSchema,
+  UnsubscribeParams: UnsubscribeParamsSchema,
   GatewayFrame: GatewayFrameSchema,
   PresenceEntry: PresenceEntrySchema,
   StateVersion: StateVersionSchema,
@@ -151,6 +166,11 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   AgentEvent: AgentEventSchema,
   SendParams: SendParamsSchema,
   PollParams: PollParamsSchema,
+  OutboxListParams: OutboxListParamsSchema,
+  OutboxReleaseParams: OutboxReleaseParamsSchema,
+  OutboxDiscardParams: OutboxDiscardParamsSchema,
+  HooksDeliveriesParams: HooksDeliveriesParamsSchema,
+  HooksReplayParams: HooksReplayParamsSchema,
   AgentParams: AgentParamsSchema,
   AgentIdentityParams: AgentIdentityParamsSchema,
   AgentIdentityResult: AgentIdentityResultSchema,
@@ -212,6 +232,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   AgentsFilesSetResult: AgentsFilesSetResultSchema,
   AgentsListParams: AgentsListParamsSchema,
   AgentsListResult: AgentsListResultSchema,
+  RoutingExplainParams: RoutingExplainParamsSchema,
   ModelChoice: ModelChoiceSchema,
   ModelsListParams: ModelsListParamsSchema,
   ModelsListResult: ModelsListResultSchema,
@@ -224,14 +245,19 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronListParams: CronListParamsSchema,
   CronStatusParams: CronStatusParamsSchema,
   CronAddParams: CronAddParamsSchema,
+  CronJobDefinition: CronJobDefinitionSchema,
+  CronExportParams: CronExportParamsSchema,
+  CronImportParams: CronImportParamsSchema,
   CronUpdateParams: CronUpdateParamsSchema,
   CronRemoveParams: CronRemoveParamsSchema,
+  CronReviveParams: CronReviveParamsSchema,
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
   ExecApprovalsGetParams: ExecApprovalsGetParamsSchema,
+  ExecApprovalsAuditParams: ExecApprovalsAuditParamsSchema,
   ExecApprovalsSetParams: ExecApprovalsSetParamsSchema,
   ExecApprovalsNodeGetParams: ExecApprovalsNodeGetParamsSchema,
   ExecApprovalsNodeSetParams: ExecApprovalsNodeSetParamsSchema,
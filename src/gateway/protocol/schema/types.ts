@@ -5,6 +5,11 @@ import type {
   AgentIdentityResultSchema,
   AgentWaitParamsSchema,
   PollParamsSchema,
+  OutboxListParamsSchema,
+  OutboxReleaseParamsSchema,
+  OutboxDiscardParamsSchema,
+  HooksDeliveriesParamsSchema,
+  HooksReplayParamsSchema,
   WakeParamsSchema,
 } from "./agent.js";
 import type {
@@ -22,6 +27,7 @@ import type {
   AgentsFilesSetResultSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
+  RoutingExplainParamsSchema,
   AgentsUpdateParamsSchema,
   AgentsUpdateResultSchema,
   ModelChoiceSchema,
@@ -52,9 +58,13 @@ import type {
 } from "./config.js";
 import type {
   CronAddParamsSchema,
+  CronJobDefinitionSchema,
+  CronExportParamsSchema,
+  CronImportParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
   CronRemoveParamsSchema,
+  CronReviveParamsSchema,
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
@@ -70,6 +80,7 @@ import type {
 } from "./devices.js";
 import type {
   ExecApprovalsGetParamsSchema,
+  ExecApprovalsAuditParamsSchema,
   ExecApprovalsNodeGetParamsSchema,
   ExecApprovalsNodeSetParamsSchema,
   ExecApprovalsSetParamsSchema,
@@ -81,6 +92,8 @@ import type {
   ConnectParamsSchema,
   ErrorShapeSchema,
   EventFrameSchema,
+  SubscribeParamsSchema,
+  UnsubscribeParamsSchema,
   GatewayFrameSchema,
   HelloOkSchema,
   RequestFrameSchema,
@@ -135,6 +148,8 @@ export type HelloOk = Static<typeof HelloOkSchema>;
 export type RequestFrame = Static<typeof RequestFrameSchema>;
 export type ResponseFrame = Static<typeof ResponseFrameSchema>;
 export type EventFrame = Static<typeof EventFrameSchema>;
+export type SubscribeParams = Static<typeof SubscribeParamsSchema>;
+export type UnsubscribeParams = Static<typeof UnsubscribeParamsSchema>;
 export type GatewayFrame = Static<typeof GatewayFrameSchema>;
 export type Snapshot = Static<typeof SnapshotSchema>;
 export type PresenceEntry = Static<typeof PresenceEntrySchema>;
@@ -144,6 +159,11 @@ export type AgentEvent = Static<typeof AgentEventSchema>;
 export type AgentIdentityParams = Static<typeof AgentIdentityParamsSchema>;
 export type AgentIdentityResult = Static<typeof AgentIdentityResultSchema>;
 export type PollParams = Static<typeof PollParamsSchema>;
+export type OutboxListParams = Static<typeof OutboxListParamsSchema>;
+export type OutboxReleaseParams = Static<typeof OutboxReleaseParamsSchema>;
+export type OutboxDiscardParams = Static<typeof OutboxDiscardParamsSchema>;
+export type HooksDeliveriesParams = Static<typeof HooksDeliveriesParamsSchema>;
+export type HooksReplayParams = Static<typeof HooksReplayParamsSchema>;
 export type AgentWaitParams = Static<typeof AgentWaitParamsSchema>;
 export type WakeParams = Static<typeof WakeParamsSchema>;
 export type NodePairRequestParams = Static<typeof NodePairRequestParamsSchema>;
@@ -201,6 +221,7 @@ export type AgentsFilesSetParams = Static<typeof AgentsFilesSetParamsSchema>;
 export type AgentsFilesSetResult = Static<typeof AgentsFilesSetResultSchema>;
 export type AgentsListParams = Static<typeof AgentsListParamsSchema>;
 export type AgentsListResult = Static<typeof AgentsListResultSchema>;
+export type RoutingExplainParams = Static<typeof RoutingExplainParamsSchema>;
 export type ModelChoice = Static<typeof ModelChoiceSchema>;
 export type ModelsListParams = Static<typeof ModelsListParamsSchema>;
 export type ModelsListResult = Static<typeof ModelsListResultSchema>;
@@ -213,14 +234,19 @@ export type CronJob = Static<typeof CronJobSchema>;
 export type CronListParams = Static<typeof CronListParamsSchema>;
 export type CronStatusParams = Static<typeof CronStatusParamsSchema>;
 export type CronAddParams = Static<typeof CronAddParamsSchema>;
+export type CronJobDefinition = Static<typeof CronJobDefinitionSchema>;
+export type CronExportParams = Static<typeof CronExportParamsSchema>;
+export type CronImportParams = Static<typeof CronImportParamsSchema>;
 export type CronUpdateParams = Static<typeof CronUpdateParamsSchema>;
 export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
+export type CronReviveParams = Static<typeof CronReviveParamsSchema>;
 export type CronRunParams = Static<typeof CronRunParamsSchema>;
 export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
 export type ExecApprovalsGetParams = Static<typeof ExecApprovalsGetParamsSchema>;
+export type ExecApprovalsAuditParams = Static<typeof ExecApprovalsAuditParamsSchema>;
 export type ExecApprovalsSetParams = Static<typeof ExecApprovalsSetParamsSchema>;
 export type ExecApprovalsNodeGetParams = Static<typeof ExecApprovalsNodeGetParamsSchema>;
 export type ExecApprovalsNodeSetParams = Static<typeof ExecApprovalsNodeSetParamsSchema>;
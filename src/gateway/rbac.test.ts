@@ -0,0 +1,151 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  restoreStateDirEnv,
+  setStateDirEnv,
+  snapshotStateDirEnv,
+} from "../test-helpers/state-dir-env.js";
+import {
+  authorizeGatewayRoleRequest,
+  filterGatewayRoleResponse,
+  gatewayRoleCoversScope,
+  isGatewayEventAllowedForRole,
+} from "./rbac.js";
+import {
+  createGatewayRoleToken,
+  revokeGatewayRoleToken,
+  verifyGatewayRoleToken,
+} from "./role-tokens.js";
+
+const cfg = {
+  gateway: {
+    roles: {
+      support: {
+        methods: ["operator.read", "chat.send"],
+        denyMethods: ["logs.tail"],
+        agents: ["support"],
+        sessions: ["agent:support:*"],
+        events: ["chat"],
+      },
+    },
+  },
+} as OpenClawConfig;
+
+describe("gateway rbac", () => {
+  let envSnapshot: ReturnType<typeof snapshotStateDirEnv>;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    envSnapshot = snapshotStateDirEnv();
+    tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-rbac-"));
+    setStateDirEnv(tempRoot);
+  });
+
+  afterEach(async () => {
+    restoreStateDirEnv(envSnapshot);
+    await fs.rm(tempRoot, { recursive: true, force: true });
+  });
+
+  it("scopes methods, agents and sessions to the role", () => {
+    const { record } = createGatewayRoleToken({ role: "support" });
+    const access = { role: "support", tokenId: record.id };
+    const check = (method: string, methodScope: string, params: Record<string, unknown> = {}) =>
+      authorizeGatewayRoleRequest({ cfg, access, method, methodScope, params });
+
+    expect(check("sessions.list", "operator.read")).toBeNull();
+    expect(check("chat.send", "operator.write", { sessionKey: "agent:support:main" })).toBeNull();
+    expect(check("chat.send", "operator.write", { sessionKey: "agent:ops:main" })).toMatch(
+      /agent not allowed: ops/,
+    );
+    expect(check("agent", "operator.write", { agentId: "support" })).toMatch(/method not allowed/);
+    expect(check("logs.tail", "operator.read")).toMatch(/method not allowed/);
+    expect(check("config.apply", "operator.admin")).toMatch(/method not allowed/);
+
+    expect(
+      filterGatewayRoleResponse({
+        cfg,
+        access,
+        method: "sessions.list",
+        payload: { sessions: [{ key: "agent:support:main" }, { key: "agent:ops:main" }], count: 2 },
+      }),
+    ).toEqual({ sessions: [{ key: "agent:support:main" }], count: 1 });
+
+    const event = (name: string, payload: unknown) =>
+      isGatewayEventAllowedForRole({ cfg, access, event: name, payload });
+    expect(event("chat", { sessionKey: "agent:support:main" })).toBe(true);
+    expect(event("chat", { sessionKey: "agent:ops:main" })).toBe(false);
+    expect(event("presence", {})).toBe(false);
+
+    expect(gatewayRoleCoversScope({ cfg, access, scope: "operator.read" })).toBe(true);
+    expect(gatewayRoleCoversScope({ cfg, access, scope: "operator.admin" })).toBe(false);
+  });
+
+  it("fails closed for restricted roles when no target resolves", () => {
+    const openCfg = {
+      gateway: {
+        roles: {
+          support: { methods: ["operator.write"], agents: ["support"] },
+        },
+      },
+    } as OpenClawConfig;
+    const { record } = createGatewayRoleToken({ role: "support" });
+    const access = { role: "support", tokenId: record.id };
+    const check = (method: string, params: Record<string, unknown> = {}) =>
+      authorizeGatewayRoleRequest({
+        cfg: openCfg,
+        access,
+        method,
+        methodScope: "operator.write",
+        params,
+      });
+
+    expect(check("sessions.list")).toBeNull();
+    expect(check("cron.run", { id: "job-1" })).toMatch(/requires an agentId or sessionKey/);
+    expect(check("agent.wait", { runId: "run-1" })).toMatch(/requires an agentId or sessionKey/);
+    expect(check("node.invoke", { nodeId: "n1", command: "x" })).toMatch(/requires/);
+    expect(check("send", { to: "+1555", message: "hi", agentId: "support" })).toBeNull();
+    expect(check("chat.send", { agentId: "support", sessionKey: "agent:support:main" })).toBeNull();
+    expect(check("chat.send", { agentId: "support", sessionKey: "agent:ops:main" })).toMatch(
+      /agent not allowed: ops/,
+    );
+
+    const event = (name: string, payload: unknown) =>
+      isGatewayEventAllowedForRole({ cfg: openCfg, access, event: name, payload });
+    expect(event("tick", {})).toBe(true);
+    expect(event("cron", { jobId: "job-1", action: "finished" })).toBe(false);
+    expect(event("exec.approval.requested", { id: "a", request: { agentId: "support" } })).toBe(
+      true,
+    );
+    expect(event("exec.approval.requested", { id: "a", request: { agentId: "ops" } })).toBe(false);
+    expect(event("exec.approval.resolved", { id: "a", decision: "deny" })).toBe(false);
+  });
+
+  it("rejects expired and revoked tokens", () => {
+    const now = Date.now();
+    const { token, record } = createGatewayRoleToken({ role: "support", ttlMs: 60_000, now });
+    expect(verifyGatewayRoleToken(token, now).ok).toBe(true);
+    expect(verifyGatewayRoleToken(`${token}x`, now)).toEqual({
+      ok: false,
+      reason: "role_token_invalid",
+    });
+    expect(verifyGatewayRoleToken(token, now + 61_000)).toEqual({
+      ok: false,
+      reason: "role_token_expired",
+    });
+
+    revokeGatewayRoleToken(record.id);
+    expect(verifyGatewayRoleToken(token, now)).toEqual({ ok: false, reason: "role_token_revoked" });
+    expect(
+      authorizeGatewayRoleRequest({
+        cfg,
+        access: { role: "support", tokenId: record.id },
+        method: "sessions.list",
+        methodScope: "operator.read",
+        params: {},
+      }),
+    ).toBe("token revoked");
+  });
+});
@@ -0,0 +1,300 @@
+import type { GatewayRoleConfig, OpenClawConfig } from "../config/config.js";
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
+import { checkGatewayRoleTokenById } from "./role-tokens.js";
+import { resolveSessionStoreKey } from "./session-utils.js";
+
+/** Attached to clients that connected with a scoped token. */
+export type GatewayRoleAccess = {
+  role: string;
+  tokenId: string;
+};
+
+const SCOPE_COVERAGE: Record<string, string[]> = {
+  "operator.admin": ["*"],
+  "operator.write": ["operator.write", "operator.read"],
+  "operator.read": ["operator.read"],
+  "operator.approvals": ["operator.approvals"],
+  "operator.pairing": ["operator.pairing"],
+};
+
+/**
+ * Methods a role with agent/session restrictions may call without naming a
+ * target: their responses are filtered per role or carry no agent data.
+ */
+const UNTARGETED_ROLE_METHODS = new Set([
+  "health",
+  "models.list",
+  "agents.list",
+  "sessions.list",
+  "subscribe",
+  "unsubscribe",
+]);
+
+/** Connection-level events that carry no agent or session data. */
+const UNTARGETED_ROLE_EVENTS = new Set(["connect.challenge", "tick", "shutdown"]);
+
+const patternCache = new Map<string, RegExp>();
+
+/** Case-insensitive match with `*` wildcards, as used by role and subscription filters. */
+export function matchesPattern(pattern: string, value: string): boolean {
+  const trimmed = pattern.trim();
+  if (trimmed === "*") {
+    return true;
+  }
+  let regex = patternCache.get(trimmed);
+  if (!regex) {
+    const escaped = trimmed
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    regex = new RegExp(`^${escaped}$`, "i");
+    patternCache.set(trimmed, regex);
+  }
+  return regex.test(value);
+}
+
+function roleCoversScope(role: GatewayRoleConfig, scope: string): boolean {
+  return (role.methods ?? []).some((entry) => {
+    const covered = SCOPE_COVERAGE[entry.trim()];
+    return entry.trim() === "*" || Boolean(covered?.some((c) => c === "*" || c === scope));
+  });
+}
+
+function roleAllowsMethod(role: GatewayRoleConfig, method: string, methodScope: string) {
+  if ((role.denyMethods ?? []).some((pattern) => matchesPattern(pattern, method))) {
+    return false;
+  }
+  return (
+    roleCoversScope(role, methodScope) ||
+    (role.methods ?? []).some(
+      (pattern) => !SCOPE_COVERAGE[pattern.trim()] && matchesPattern(pattern, method),
+    )
+  );
+}
+
+/** Whether the role is limited to a subset of agents or sessions. */
+function isTargetRestricted(role: GatewayRoleConfig): boolean {
+  const agents = role.agents ?? [];
+  const sessions = role.sessions ?? [];
+  return (
+    (agents.length > 0 && !agents.some((entry) => entry.trim() === "*")) ||
+    (sessions.length > 0 && !sessions.some((pattern) => pattern.trim() === "*"))
+  );
+}
+
+function checkTarget(
+  cfg: OpenClawConfig,
+  role: GatewayRoleConfig,
+  target: { agentId?: string; sessionKey?: string },
+): string | null {
+  // A request may name an agent and a session of another agent; both must be allowed.
+  const agentIds = new Set<string>();
+  if (target.agentId) {
+    agentIds.add(normalizeAgentId(target.agentId));
+  }
+  let canonicalKey: string | undefined;
+  if (target.sessionKey) {
+    canonicalKey = resolveSessionStoreKey({ cfg, sessionKey: target.sessionKey });
+    agentIds.add(
+      normalizeAgentId(parseAgentSessionKey(canonicalKey)?.agentId ?? resolveDefaultAgentId(cfg)),
+    );
+  }
+  const agents = role.agents ?? [];
+  for (const agentId of agentIds) {
+    if (
+      agents.length > 0 &&
+      !agents.some((entry) => entry.trim() === "*" || normalizeAgentId(entry) === agentId)
+    ) {
+      return `agent not allowed: ${agentId}`;
+    }
+  }
+  const sessions = role.sessions ?? [];
+  if (
+    canonicalKey &&
+    sessions.length > 0 &&
+    !sessions.some((pattern) => matchesPattern(pattern, canonicalKey))
+  ) {
+    return `session not allowed: ${canonicalKey}`;
+  }
+  return null;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function collectRequestTargets(
+  cfg: OpenClawConfig,
+  method: string,
+  params: Record<string, unknown>,
+): Array<{ agentId?: string; sessionKey?: string }> {
+  const agentId = readString(params.agentId);
+  const sessionKeys = [readString(params.sessionKey), readString(params.key)].filter(
+    (key): key is string => Boolean(key),
+  );
+  if (Array.isArray(params.keys)) {
+    sessionKeys.push(...params.keys.map(readString).filter((key): key is string => Boolean(key)));
+  }
+  const targets: Array<{ agentId?: string; sessionKey?: string }> = sessionKeys.map(
+    (sessionKey) => ({ agentId, sessionKey }),
+  );
+  if (targets.length === 0 && agentId) {
+    targets.push({ agentId });
+  }
+  // `agent` without a target runs on the default agent.
+  if (targets.length === 0 && method === "agent") {
+    targets.push({ agentId: resolveDefaultAgentId(cfg) });
+  }
+  return targets;
+}
+
+function resolveActiveRole(
+  cfg: OpenClawConfig,
+  access: GatewayRoleAccess,
+  now: number,
+): { ok: true; role: GatewayRoleConfig } | { ok: false; error: string } {
+  const token = checkGatewayRoleTokenById(access.tokenId, now);
+  if (!token.ok) {
+    return {
+      ok: false,
+      error: token.reason === "role_token_expired" ? "token expired" : "token revoked",
+    };
+  }
+  const role = cfg.gateway?.roles?.[access.role];
+  if (!role) {
+    return { ok: false, error: `unknown role: ${access.role}` };
+  }
+  return { ok: true, role };
+}
+
+/** Returns an error message when the role may not make this request. */
+export function authorizeGatewayRoleRequest(params: {
+  cfg: OpenClawConfig;
+  access: GatewayRoleAccess;
+  method: string;
+  /** Built-in scope the method belongs to (operator.read, operator.write, ...). */
+  methodScope: string;
+  params: Record<string, unknown>;
+  now?: number;
+}): string | null {
+  const resolved = resolveActiveRole(params.cfg, params.access, params.now ?? Date.now());
+  if (!resolved.ok) {
+    return resolved.error;
+  }
+  if (!roleAllowsMethod(resolved.role, params.method, params.methodScope)) {
+    return `method not allowed for role ${params.access.role}: ${params.method}`;
+  }
+  const targets = collectRequestTargets(params.cfg, params.method, params.params);
+  // Requests addressed by job, approval, run or node id can't be mapped to an
+  // agent here, so restricted roles fail closed on them.
+  if (
+    targets.length === 0 &&
+    isTargetRestricted(resolved.role) &&
+    !UNTARGETED_ROLE_METHODS.has(params.method)
+  ) {
+    return `method requires an agentId or sessionKey for role ${params.access.role}: ${params.method}`;
+  }
+  for (const target of targets) {
+    const error = checkTarget(params.cfg, resolved.role, target);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/** Whether an active role token grants a built-in scope (e.g. operator.admin). */
+export function gatewayRoleCoversScope(params: {
+  cfg: OpenClawConfig;
+  access: GatewayRoleAccess;
+  scope: string;
+  now?: number;
+}): boolean {
+  const resolved = resolveActiveRole(params.cfg, params.access, params.now ?? Date.now());
+  return resolved.ok && roleCoversScope(resolved.role, params.scope);
+}
+
+/** Whether a broadcast event may be delivered to a role-token client. */
+export function isGatewayEventAllowedForRole(params: {
+  cfg: OpenClawConfig;
+  access: GatewayRoleAccess;
+  event: string;
+  payload: unknown;
+  /** Scopes guarding the event (any one suffices); empty for ungated events. */
+  requiredScopes?: string[];
+  now?: number;
+}): boolean {
+  const resolved = resolveActiveRole(params.cfg, params.access, params.now ?? Date.now());
+  if (!resolved.ok) {
+    return false;
+  }
+  const role = resolved.role;
+  if (role.events && !role.events.some((pattern) => matchesPattern(pattern, params.event))) {
+    return false;
+  }
+  const required = params.requiredScopes ?? [];
+  if (required.length > 0 && !required.some((scope) => roleCoversScope(role, scope))) {
+    return false;
+  }
+  const payload =
+    params.payload && typeof params.payload === "object"
+      ? (params.payload as Record<string, unknown>)
+      : {};
+  const target = resolveEventTarget(params.event, payload);
+  if (!target.agentId && !target.sessionKey) {
+    return !isTargetRestricted(role) || UNTARGETED_ROLE_EVENTS.has(params.event);
+  }
+  return checkTarget(params.cfg, role, target) === null;
+}
+
+function resolveEventTarget(
+  event: string,
+  payload: Record<string, unknown>,
+): { agentId?: string; sessionKey?: string } {
+  // Approval requests nest the agent/session under `request`.
+  const source =
+    event === "exec.approval.requested" && payload.request && typeof payload.request === "object"
+      ? (payload.request as Record<string, unknown>)
+      : payload;
+  return {
+    agentId: readString(source.agentId),
+    sessionKey: readString(source.sessionKey),
+  };
+}
+
+/** Trim list responses down to the agents and sessions the role may see. */
+export function filterGatewayRoleResponse(params: {
+  cfg: OpenClawConfig;
+  access: GatewayRoleAccess;
+  method: string;
+  payload: unknown;
+}): unknown {
+  const role = params.cfg.gateway?.roles?.[params.access.role];
+  if (!role || !params.payload || typeof params.payload !== "object") {
+    return params.payload;
+  }
+  if (params.method === "sessions.list") {
+    const result = params.payload as { sessions?: Array<{ key: string }>; count?: number };
+    if (!Array.isArray(result.sessions)) {
+      return params.payload;
+    }
+    const sessions = result.sessions.filter(
+      (row) => checkTarget(params.cfg, role, { sessionKey: row.key }) === null,
+    );
+    return { ...result, sessions, count: sessions.length };
+  }
+  if (params.method === "agents.list") {
+    const result = params.payload as { agents?: Array<{ id: string }> };
+    if (!Array.isArray(result.agents)) {
+      return params.payload;
+    }
+    return {
+      ...result,
+      agents: result.agents.filter(
+        (agent) => checkTarget(params.cfg, role, { agentId: agent.id }) === null,
+      ),
+    };
+  }
+  return params.payload;
+}
@@ -0,0 +1,156 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+
+/** Scoped tokens look like `ocr_<id>_<secret>` so they never collide with the shared token. */
+export const GATEWAY_ROLE_TOKEN_PREFIX = "ocr_";
+
+export type GatewayRoleTokenRecord = {
+  id: string;
+  role: string;
+  label?: string;
+  /** sha256 of the full token; the token itself is only shown once. */
+  tokenHash: string;
+  createdAtMs: number;
+  expiresAtMs?: number;
+  revokedAtMs?: number;
+};
+
+type PersistedGatewayRoleTokens = {
+  version: 1;
+  tokens: GatewayRoleTokenRecord[];
+};
+
+export type GatewayRoleTokenCheck =
+  | { ok: true; record: GatewayRoleTokenRecord }
+  | { ok: false; reason: "role_token_invalid" | "role_token_expired" | "role_token_revoked" };
+
+let cache: {
+  pathname: string;
+  mtimeMs: number;
+  size: number;
+  tokens: GatewayRoleTokenRecord[];
+} | null = null;
+
+export function resolveGatewayRoleTokensPath(): string {
+  return path.join(resolveStateDir(), "gateway", "tokens.json");
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function isGatewayRoleToken(token: string | undefined): token is string {
+  return typeof token === "string" && token.startsWith(GATEWAY_ROLE_TOKEN_PREFIX);
+}
+
+export function loadGatewayRoleTokens(): GatewayRoleTokenRecord[] {
+  const pathname = resolveGatewayRoleTokensPath();
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(pathname);
+  } catch {
+    return [];
+  }
+  // Re-read only when the CLI has written the file, so per-request revocation checks stay cheap.
+  if (
+    cache &&
+    cache.pathname === pathname &&
+    cache.mtimeMs === stat.mtimeMs &&
+    cache.size === stat.size
+  ) {
+    return cache.tokens;
+  }
+  const raw = loadJsonFile(pathname) as Partial<PersistedGatewayRoleTokens> | undefined;
+  const tokens = Array.isArray(raw?.tokens)
+    ? raw.tokens.filter(
+        (entry): entry is GatewayRoleTokenRecord =>
+          Boolean(entry) &&
+          typeof entry.id === "string" &&
+          typeof entry.role === "string" &&
+          typeof entry.tokenHash === "string",
+      )
+    : [];
+  cache = { pathname, mtimeMs: stat.mtimeMs, size: stat.size, tokens };
+  return tokens;
+}
+
+function saveGatewayRoleTokens(tokens: GatewayRoleTokenRecord[]) {
+  const out: PersistedGatewayRoleTokens = { version: 1, tokens };
+  saveJsonFile(resolveGatewayRoleTokensPath(), out);
+  cache = null;
+}
+
+export function createGatewayRoleToken(params: {
+  role: string;
+  label?: string;
+  ttlMs?: number;
+  now?: number;
+}): { token: string; record: GatewayRoleTokenRecord } {
+  const now = params.now ?? Date.now();
+  const tokens = loadGatewayRoleTokens();
+  let id = crypto.randomBytes(4).toString("hex");
+  while (tokens.some((entry) => entry.id === id)) {
+    id = crypto.randomBytes(4).toString("hex");
+  }
+  const token = `${GATEWAY_ROLE_TOKEN_PREFIX}${id}_${crypto.randomBytes(32).toString("base64url")}`;
+  const record: GatewayRoleTokenRecord = {
+    id,
+    role: params.role,
+    label: params.label?.trim() || undefined,
+    tokenHash: hashToken(token),
+    createdAtMs: now,
+    expiresAtMs: params.ttlMs && params.ttlMs > 0 ? now + params.ttlMs : undefined,
+  };
+  saveGatewayRoleTokens([...tokens, record]);
+  return { token, record };
+}
+
+export function revokeGatewayRoleToken(
+  id: string,
+  now = Date.now(),
+): GatewayRoleTokenRecord | null {
+  const tokens = loadGatewayRoleTokens().map((entry) => ({ ...entry }));
+  const record = tokens.find((entry) => entry.id === id.trim());
+  if (!record) {
+    return null;
+  }
+  record.revokedAtMs ??= now;
+  saveGatewayRoleTokens(tokens);
+  return record;
+}
+
+function checkRecord(record: GatewayRoleTokenRecord, now: number): GatewayRoleTokenCheck {
+  if (record.revokedAtMs !== undefined) {
+    return { ok: false, reason: "role_token_revoked" };
+  }
+  if (record.expiresAtMs !== undefined && record.expiresAtMs <= now) {
+    return { ok: false, reason: "role_token_expired" };
+  }
+  return { ok: true, record };
+}
+
+export function verifyGatewayRoleToken(token: string, now = Date.now()): GatewayRoleTokenCheck {
+  const id = token.slice(GATEWAY_ROLE_TOKEN_PREFIX.length).split("_", 1)[0] ?? "";
+  const record = loadGatewayRoleTokens().find((entry) => entry.id === id);
+  if (!record) {
+    return { ok: false, reason: "role_token_invalid" };
+  }
+  const expected = Buffer.from(record.tokenHash, "hex");
+  const actual = Buffer.from(hashToken(token), "hex");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "role_token_invalid" };
+  }
+  return checkRecord(record, now);
+}
+
+/** Re-check a token that was valid at connect time (expiry or revocation since then). */
+export function checkGatewayRoleTokenById(id: string, now = Date.now()): GatewayRoleTokenCheck {
+  const record = loadGatewayRoleTokens().find((entry) => entry.id === id);
+  if (!record) {
+    return { ok: false, reason: "role_token_revoked" };
+  }
+  return checkRecord(record, now);
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import type { GatewayWsClient } from "./server/ws-types.js";
-import { createGatewayBroadcaster } from "./server-broadcast.js";
+import { createGatewayBroadcaster, normalizeEventSubscription } from "./server-broadcast.js";
 
 type TestSocket = {
   bufferedAmount: number;
@@ -58,4 +58,71 @@ describe("gateway broadcaster", () => {
     expect(approvalsSocket.send).toHaveBeenCalledTimes(1);
     expect(pairingSocket.send).toHaveBeenCalledTimes(1);
   });
+
+  it("applies subscription filters and replays missed events", () => {
+    const socket: TestSocket = { bufferedAmount: 0, send: vi.fn(), close: vi.fn() };
+    const client: GatewayWsClient = {
+      socket: socket as unknown as GatewayWsClient["socket"],
+      connect: { role: "operator", scopes: ["operator.read"] } as GatewayWsClient["connect"],
+      connId: "c-dash",
+      subscription: normalizeEventSubscription(
+        {},
+        {
+          events: ["agent", "chat"],
+          agentIds: ["support"],
+        },
+      ),
+    };
+    const clients = new Set<GatewayWsClient>([client]);
+    const { broadcast, replayEvents } = createGatewayBroadcaster({ clients });
+    const sent = () =>
+      vi
+        .mocked(socket.send)
+        .mock.calls.map(
+          ([frame]) => JSON.parse(frame) as { event: string; seq: number; filtered?: boolean },
+        );
+
+    broadcast("chat", { sessionKey: "agent:support:main", state: "final" });
+    broadcast("chat", { sessionKey: "agent:ops:main", state: "final" });
+    broadcast("agent", { agentId: "support", stream: "lifecycle" });
+    broadcast("presence", { presence: [] });
+    broadcast("tick", { ts: 1 });
+    expect(sent().map((frame) => [frame.event, frame.seq])).toEqual([
+      ["chat", 1],
+      ["agent", 3],
+      ["tick", 5],
+    ]);
+    expect(sent().every((frame) => frame.filtered === true)).toBe(true);
+
+    vi.mocked(socket.send).mockClear();
+    client.subscription = normalizeEventSubscription({}, { events: ["presence", "chat"] });
+    expect(replayEvents("c-dash", 1)).toEqual({ seq: 5, replayed: 2, complete: true });
+    expect(sent().map((frame) => frame.seq)).toEqual([2, 4]);
+    expect(replayEvents("c-dash", 9)).toMatchObject({ replayed: 0, complete: false });
+
+    // `unsubscribe` without an events filter drops only the named events.
+    vi.mocked(socket.send).mockClear();
+    client.subscription = { excludeEvents: ["presence"] };
+    broadcast("presence", { presence: [] });
+    broadcast("plugin.custom", { ok: true });
+    expect(sent().map((frame) => frame.event)).toEqual(["plugin.custom"]);
+  });
+
+  it("bounds the replay buffer by bytes", () => {
+    const socket: TestSocket = { bufferedAmount: 0, send: vi.fn(), close: vi.fn() };
+    const client: GatewayWsClient = {
+      socket: socket as unknown as GatewayWsClient["socket"],
+      connect: { role: "operator", scopes: ["operator.read"] } as GatewayWsClient["connect"],
+      connId: "c-ui",
+    };
+    const { broadcast, replayEvents } = createGatewayBroadcaster({ clients: new Set([client]) });
+    const text = "x".repeat(1024 * 1024);
+    for (let i = 0; i < 10; i += 1) {
+      broadcast("chat", { state: "delta", text });
+    }
+    expect(JSON.parse(vi.mocked(socket.send).mock.calls[0]?.[0]).filtered).toBeUndefined();
+
+    vi.mocked(socket.send).mockClear();
+    expect(replayEvents("c-ui", 0)).toEqual({ seq: 10, replayed: 7, complete: false });
+  });
 });
@@ -1,5 +1,16 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { SubscribeParams } from "./protocol/index.js";
 import type { GatewayWsClient } from "./server/ws-types.js";
-import { MAX_BUFFERED_BYTES } from "./server-constants.js";
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
+import { isGatewayEventAllowedForRole, matchesPattern } from "./rbac.js";
+import {
+  EVENT_REPLAY_BUFFER_MAX_BYTES,
+  EVENT_REPLAY_BUFFER_SIZE,
+  MAX_BUFFERED_BYTES,
+} from "./server-constants.js";
+import { loadSessionEntry, resolveSessionStoreKey } from "./session-utils.js";
 import { logWs, summarizeAgentEventForWsLog } from "./ws-log.js";
 
 const ADMIN_SCOPE = "operator.admin";
@@ -9,14 +20,133 @@ const PAIRING_SCOPE = "operator.pairing";
 const EVENT_SCOPE_GUARDS: Record<string, string[]> = {
   "exec.approval.requested": [APPROVALS_SCOPE],
   "exec.approval.resolved": [APPROVALS_SCOPE],
+  "outbox.held": [APPROVALS_SCOPE],
+  "outbox.resolved": [APPROVALS_SCOPE],
   "device.pair.requested": [PAIRING_SCOPE],
   "device.pair.resolved": [PAIRING_SCOPE],
   "node.pair.requested": [PAIRING_SCOPE],
   "node.pair.resolved": [PAIRING_SCOPE],
 };
 
-function hasEventScope(client: GatewayWsClient, event: string): boolean {
+// Keepalives and shutdown notices reach every client regardless of its subscription.
+const UNFILTERED_EVENTS = new Set(["tick", "shutdown"]);
+
+/** Server-side event filters a client set with `subscribe`; unset filters match everything. */
+export type GatewayEventSubscription = {
+  events?: string[];
+  /** Event types removed with `unsubscribe` while no `events` filter was set. */
+  excludeEvents?: string[];
+  agentIds?: string[];
+  sessionKeys?: string[];
+  channels?: string[];
+};
+
+type EventTarget = { agentId?: string; sessionKey?: string; channel?: string };
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export function normalizeEventSubscription(
+  cfg: OpenClawConfig,
+  params: Omit<SubscribeParams, "since">,
+): GatewayEventSubscription {
+  const clean = (values: string[] | undefined, map: (value: string) => string) => {
+    const out = Array.from(new Set((values ?? []).map((value) => map(value.trim()))));
+    return out.length > 0 ? out : undefined;
+  };
+  return {
+    events: clean(params.events, (event) => event),
+    agentIds: clean(params.agentIds, normalizeAgentId),
+    sessionKeys: clean(params.sessionKeys, (key) =>
+      key.includes("*") ? key : resolveSessionStoreKey({ cfg, sessionKey: key }),
+    ),
+    channels: clean(params.channels, (channel) => channel.toLowerCase()),
+  };
+}
+
+function resolveEventTarget(cfg: OpenClawConfig, payload: unknown): EventTarget {
+  const record = payload && typeof payload === "object" ? (payload as Record<string, unknown>) : {};
+  const rawKey = readString(record.sessionKey);
+  const sessionKey = rawKey ? resolveSessionStoreKey({ cfg, sessionKey: rawKey }) : undefined;
+  const rawAgentId =
+    readString(record.agentId) ??
+    (sessionKey
+      ? (parseAgentSessionKey(sessionKey)?.agentId ?? resolveDefaultAgentId(cfg))
+      : undefined);
+  return {
+    agentId: rawAgentId ? normalizeAgentId(rawAgentId) : undefined,
+    sessionKey,
+    channel: readString(record.channel)?.toLowerCase(),
+  };
+}
+
+function resolveSessionChannel(sessionKey: string): string | undefined {
+  try {
+    const { entry } = loadSessionEntry(sessionKey);
+    return (entry?.deliveryContext?.channel ?? entry?.lastChannel ?? entry?.channel)?.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesEventSubscription(
+  subscription: GatewayEventSubscription,
+  event: string,
+  resolveTarget: () => EventTarget,
+): boolean {
+  if (
+    subscription.events &&
+    !subscription.events.some((pattern) => matchesPattern(pattern, event))
+  ) {
+    return false;
+  }
+  if (subscription.excludeEvents?.some((pattern) => matchesPattern(pattern, event))) {
+    return false;
+  }
+  const { agentIds, sessionKeys, channels } = subscription;
+  if (!agentIds && !sessionKeys && !channels) {
+    return true;
+  }
+  const target = resolveTarget();
+  // Events that are not about an agent or session (presence, health, ...) are not narrowed.
+  if (!target.agentId && !target.sessionKey && !target.channel) {
+    return true;
+  }
+  if (agentIds && (!target.agentId || !agentIds.includes(target.agentId))) {
+    return false;
+  }
+  if (
+    sessionKeys &&
+    (!target.sessionKey ||
+      !sessionKeys.some((pattern) => matchesPattern(pattern, target.sessionKey ?? "")))
+  ) {
+    return false;
+  }
+  if (!channels) {
+    return true;
+  }
+  // The session store is only consulted when a channel filter needs it.
+  target.channel ??= target.sessionKey ? resolveSessionChannel(target.sessionKey) : undefined;
+  return Boolean(target.channel && channels.includes(target.channel));
+}
+
+function hasEventScope(
+  client: GatewayWsClient,
+  event: string,
+  payload: unknown,
+  resolveConfig: () => OpenClawConfig,
+): boolean {
   const required = EVENT_SCOPE_GUARDS[event];
+  if (client.access) {
+    return isGatewayEventAllowedForRole({
+      cfg: resolveConfig(),
+      access: client.access,
+      event,
+      payload,
+      requiredScopes: required,
+    });
+  }
   if (!required) {
     return true;
   }
@@ -31,8 +161,71 @@ function hasEventScope(client: GatewayWsClient, event: string): boolean {
   return required.some((scope) => scopes.includes(scope));
 }
 
+type BufferedEvent = {
+  seq: number;
+  event: string;
+  payload: unknown;
+  stateVersion?: { presence?: number; health?: number };
+  frame: string;
+  bytes: number;
+};
+
+/**
+ * Clients with a subscription or a role token skip broadcasts they may not see, so their
+ * frames carry `filtered: true` and a jump in `seq` is not treated as lost events.
+ */
+function isFilteredClient(client: GatewayWsClient): boolean {
+  return Boolean(client.subscription || client.access);
+}
+
+function serializeEventFrame(params: {
+  event: string;
+  payload: unknown;
+  seq?: number;
+  stateVersion?: { presence?: number; health?: number };
+  filtered?: boolean;
+}): string {
+  return JSON.stringify({
+    type: "event",
+    event: params.event,
+    payload: params.payload,
+    seq: params.seq,
+    stateVersion: params.stateVersion,
+    filtered: params.filtered || undefined,
+  });
+}
+
 export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient> }) {
   let seq = 0;
+  // Recent broadcasts for clients resuming with subscribe({ since }); ticks are not kept.
+  const recent: BufferedEvent[] = [];
+  let recentBytes = 0;
+  let evictedThroughSeq = 0;
+
+  const createTargetResolver = (resolveConfig: () => OpenClawConfig, payload: unknown) => {
+    let target: EventTarget | undefined;
+    return () => {
+      target ??= resolveEventTarget(resolveConfig(), payload);
+      return target;
+    };
+  };
+
+  const shouldDeliver = (
+    client: GatewayWsClient,
+    event: string,
+    payload: unknown,
+    resolveConfig: () => OpenClawConfig,
+    resolveTarget: () => EventTarget,
+  ) => {
+    if (!hasEventScope(client, event, payload, resolveConfig)) {
+      return false;
+    }
+    return (
+      !client.subscription ||
+      UNFILTERED_EVENTS.has(event) ||
+      matchesEventSubscription(client.subscription, event, resolveTarget)
+    );
+  };
 
   const broadcastInternal = (
     event: string,
@@ -45,13 +238,23 @@ export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient>
   ) => {
     const isTargeted = Boolean(targetConnIds);
     const eventSeq = isTargeted ? undefined : ++seq;
-    const frame = JSON.stringify({
-      type: "event",
+    const frame = serializeEventFrame({
       event,
       payload,
       seq: eventSeq,
       stateVersion: opts?.stateVersion,
     });
+    let filteredFrame: string | undefined;
+    const frameFor = (client: GatewayWsClient) =>
+      eventSeq !== undefined && isFilteredClient(client)
+        ? (filteredFrame ??= serializeEventFrame({
+            event,
+            payload,
+            seq: eventSeq,
+            stateVersion: opts?.stateVersion,
+            filtered: true,
+          }))
+        : frame;
     const logMeta: Record<string, unknown> = {
       event,
       seq: eventSeq ?? "targeted",
@@ -65,11 +268,42 @@ export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient>
       Object.assign(logMeta, summarizeAgentEventForWsLog(payload));
     }
     logWs("out", "event", logMeta);
+    if (eventSeq !== undefined && event !== "tick") {
+      const bytes = Buffer.byteLength(frame);
+      recent.push({
+        seq: eventSeq,
+        event,
+        payload,
+        stateVersion: opts?.stateVersion,
+        frame,
+        bytes,
+      });
+      recentBytes += bytes;
+      while (
+        recent.length > EVENT_REPLAY_BUFFER_SIZE ||
+        (recent.length > 1 && recentBytes > EVENT_REPLAY_BUFFER_MAX_BYTES)
+      ) {
+        const evicted = recent.shift();
+        if (!evicted) {
+          break;
+        }
+        recentBytes -= evicted.bytes;
+        evictedThroughSeq = evicted.seq;
+      }
+    }
+    let cfg: OpenClawConfig | undefined;
+    const resolveConfig = () => (cfg ??= loadConfig());
+    const resolveTarget = createTargetResolver(resolveConfig, payload);
     for (const c of params.clients) {
       if (targetConnIds && !targetConnIds.has(c.connId)) {
         continue;
       }
-      if (!hasEventScope(c, event)) {
+      // Targeted sends were asked for explicitly, so only scopes apply to them.
+      if (
+        targetConnIds
+          ? !hasEventScope(c, event, payload, resolveConfig)
+          : !shouldDeliver(c, event, payload, resolveConfig, resolveTarget)
+      ) {
         continue;
       }
       const slow = c.socket.bufferedAmount > MAX_BUFFERED_BYTES;
@@ -85,7 +319,7 @@ export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient>
         continue;
       }
       try {
-        c.socket.send(frame);
+        c.socket.send(frameFor(c));
       } catch {
         /* ignore */
       }
@@ -116,5 +350,41 @@ export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient>
     broadcastInternal(event, payload, opts, connIds);
   };
 
-  return { broadcast, broadcastToConnIds };
+  /**
+   * Send buffered broadcasts after `since` that the client may see under its current
+   * subscription. `complete` is false when some of them are no longer buffered (or `since`
+   * belongs to an earlier gateway process), in which case the client should refetch state.
+   */
+  const replayEvents = (connId: string, since?: number) => {
+    const client = Array.from(params.clients).find((entry) => entry.connId === connId);
+    if (!client || since === undefined) {
+      return { seq, replayed: 0, complete: since === undefined || since <= seq };
+    }
+    const complete = since <= seq && since >= evictedThroughSeq;
+    let cfg: OpenClawConfig | undefined;
+    const resolveConfig = () => (cfg ??= loadConfig());
+    let replayed = 0;
+    for (const entry of recent) {
+      if (entry.seq <= since) {
+        continue;
+      }
+      const resolveTarget = createTargetResolver(resolveConfig, entry.payload);
+      if (!shouldDeliver(client, entry.event, entry.payload, resolveConfig, resolveTarget)) {
+        continue;
+      }
+      const frame = isFilteredClient(client)
+        ? serializeEventFrame({ ...entry, filtered: true })
+        : entry.frame;
+      try {
+        client.socket.send(frame);
+        replayed += 1;
+      } catch {
+        break;
+      }
+    }
+    logWs("out", "replay", { connId, since, replayed, complete });
+    return { seq, replayed, complete };
+  };
+
+  return { broadcast, broadcastToConnIds, replayEvents };
 }
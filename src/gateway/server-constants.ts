@@ -1,5 +1,7 @@
 export const MAX_PAYLOAD_BYTES = 512 * 1024; // cap incoming frame size
 export const MAX_BUFFERED_BYTES = 1.5 * 1024 * 1024; // per-connection send buffer limit
+export const EVENT_REPLAY_BUFFER_SIZE = 1000; // recent broadcasts kept for subscribe({ since })
+export const EVENT_REPLAY_BUFFER_MAX_BYTES = 8 * 1024 * 1024; // byte cap for the replay buffer
 
 const DEFAULT_MAX_CHAT_HISTORY_MESSAGES_BYTES = 6 * 1024 * 1024; // keep history responses comfortably under client WS limits
 let maxChatHistoryMessagesBytes = DEFAULT_MAX_CHAT_HISTORY_MESSAGES_BYTES;
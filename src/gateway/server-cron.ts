@@ -2,6 +2,7 @@ import type { CliDeps } from "../cli/deps.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
 import { resolveAgentMainSessionKey } from "../config/sessions.js";
+import { announceCronJobDead, formatCronDeadLetterText } from "../cron/dead-letter.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
 import { appendCronRunLog, resolveCronRunLogPath } from "../cron/run-log.js";
 import { CronService } from "../cron/service.js";
@@ -12,6 +13,7 @@ import { enqueueSystemEvent } from "../infra/system-events.js";
 import { getChildLogger } from "../logging.js";
 import { normalizeAgentId } from "../routing/session-key.js";
 import { defaultRuntime } from "../runtime.js";
+import { startWorkspaceWorkflow } from "../workflows/runner.js";
 
 export type GatewayCronState = {
   cron: CronService;
@@ -75,6 +77,33 @@ export function buildGatewayCronService(params: {
         lane: "cron",
       });
     },
+    runWorkflow: async ({ job, workflow, inputs }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      const started = await startWorkspaceWorkflow({
+        cfg: runtimeConfig,
+        agentId,
+        workflow,
+        inputs,
+        trigger: { kind: "cron", ref: job.id },
+      });
+      return started.ok
+        ? { status: "ok", summary: `Workflow ${workflow} started (${started.run.runId})` }
+        : { status: "error", error: started.error };
+    },
+    onJobDead: async ({ job, error }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      const announced = await announceCronJobDead({
+        cfg: runtimeConfig,
+        deps: params.deps,
+        job,
+        agentId,
+        error,
+      });
+      if (!announced) {
+        const sessionKey = resolveAgentMainSessionKey({ cfg: runtimeConfig, agentId });
+        enqueueSystemEvent(formatCronDeadLetterText(job, error), { sessionKey });
+      }
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
@@ -95,6 +124,8 @@ export function buildGatewayCronService(params: {
           runAtMs: evt.runAtMs,
           durationMs: evt.durationMs,
           nextRunAtMs: evt.nextRunAtMs,
+          triggeredBy: evt.triggeredBy,
+          chain: evt.chain,
         }).catch((err) => {
           cronLogger.warn({ err: String(err), logPath }, "cron: run log append failed");
         });
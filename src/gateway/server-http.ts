@@ -9,6 +9,7 @@ import {
 import { createServer as createHttpsServer } from "node:https";
 import type { CanvasHostHandler } from "../canvas-host/server.js";
 import type { createSubsystemLogger } from "../logging/subsystem.js";
+import type { HookDeliveryContext } from "./hooks-queue.js";
 import type { GatewayWsClient } from "./server/ws-types.js";
 import { resolveAgentAvatar } from "../agents/identity-avatar.js";
 import {
@@ -25,18 +26,18 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import { applyHookMappings, resolveSignedHookMappings } from "./hooks-mapping.js";
+import { rememberHookDelivery } from "./hooks-queue.js";
 import {
   extractHookToken,
-  getHookChannelError,
-  type HookMessageChannel,
+  type HookDispatch,
   type HooksConfigResolved,
   normalizeAgentPayload,
   normalizeHookHeaders,
   normalizeWakePayload,
   readJsonBody,
-  resolveHookChannel,
-  resolveHookDeliver,
+  resolveHookActionDispatch,
+  verifyHookSignature,
 } from "./hooks.js";
 import { sendUnauthorized } from "./http-common.js";
 import { getBearerToken, getHeader } from "./http-utils.js";
@@ -47,22 +48,11 @@ import { handleToolsInvokeHttpRequest } from "./tools-invoke-http.js";
 
 type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
 
-type HookDispatchers = {
-  dispatchWakeHook: (value: { text: string; mode: "now" | "next-heartbeat" }) => void;
-  dispatchAgentHook: (value: {
-    message: string;
-    name: string;
-    wakeMode: "now" | "next-heartbeat";
-    sessionKey: string;
-    deliver: boolean;
-    channel: HookMessageChannel;
-    to?: string;
-    model?: string;
-    thinking?: string;
-    timeoutSeconds?: number;
-    allowUnsafeExternalContent?: boolean;
-  }) => string;
-};
+/** Runs a hook through the delivery queue; resolves once the first attempt has started. */
+type HookDispatcher = (
+  dispatch: HookDispatch,
+  ctx: HookDeliveryContext,
+) => Promise<{ ok: true; deliveryId: string; runId?: string } | { ok: false; error: string }>;
 
 function sendJson(res: ServerResponse, status: number, body: unknown) {
   res.statusCode = status;
@@ -127,15 +117,16 @@ async function authorizeCanvasRequest(params: {
 
 export type HooksRequestHandler = (req: IncomingMessage, res: ServerResponse) => Promise<boolean>;
 
-export function createHooksRequestHandler(
-  opts: {
-    getHooksConfig: () => HooksConfigResolved | null;
-    bindHost: string;
-    port: number;
-    logHooks: SubsystemLogger;
-  } & HookDispatchers,
-): HooksRequestHandler {
-  const { getHooksConfig, bindHost, port, logHooks, dispatchAgentHook, dispatchWakeHook } = opts;
+export function createHooksRequestHandler(opts: {
+  getHooksConfig: () => HooksConfigResolved | null;
+  bindHost: string;
+  port: number;
+  logHooks: SubsystemLogger;
+  dispatchHook: HookDispatcher;
+}): HooksRequestHandler {
+  const { getHooksConfig, bindHost, port, logHooks, dispatchHook } = opts;
+  // Signed delivery keys being handled right now, so concurrent copies do not both run.
+  const pendingSignedDeliveries = new Set<string>();
   return async (req, res) => {
     const hooksConfig = getHooksConfig();
     if (!hooksConfig) {
@@ -156,8 +147,12 @@ export function createHooksRequestHandler(
       return true;
     }
 
+    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     const token = extractHookToken(req);
-    if (!token || token !== hooksConfig.token) {
+    const tokenOk = Boolean(token) && token === hooksConfig.token;
+    // Without the hook token, only mappings with a signature config can be reached.
+    const signedMappings = tokenOk ? [] : resolveSignedHookMappings(hooksConfig.mappings, subPath);
+    if (!tokenOk && signedMappings.length === 0) {
       res.statusCode = 401;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
       res.end("Unauthorized");
@@ -172,7 +167,6 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     if (!subPath) {
       res.statusCode = 404;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
@@ -190,31 +184,105 @@ export function createHooksRequestHandler(
     const payload = typeof body.value === "object" && body.value !== null ? body.value : {};
     const headers = normalizeHookHeaders(req);
 
-    if (subPath === "wake") {
+    // The signed mapping that accepted the request; only it may be dispatched.
+    let verifiedMappingId: string | undefined;
+    // Records a signed delivery as seen; only called once it was dispatched.
+    let markDispatched: (() => Promise<boolean>) | undefined;
+    if (!tokenOk) {
+      const errors: string[] = [];
+      let verified: {
+        mappingId: string;
+        duplicate: boolean;
+        deliveryKey: string;
+        expiresAt: number;
+      } | null = null;
+      for (const mapping of signedMappings) {
+        if (!mapping.signature) {
+          continue;
+        }
+        const check = await verifyHookSignature({
+          mappingId: mapping.id,
+          signature: mapping.signature,
+          headers,
+          rawBody: body.raw,
+          payload: payload as Record<string, unknown>,
+        });
+        if (check.ok) {
+          verified = { mappingId: mapping.id, ...check };
+          break;
+        }
+        errors.push(`${mapping.id}: ${check.error}`);
+      }
+      if (!verified) {
+        logHooks.warn(`hook signature rejected path=${subPath} (${errors.join("; ")})`);
+        res.statusCode = 401;
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.end("Unauthorized");
+        return true;
+      }
+      if (verified.duplicate) {
+        // Acknowledge so the provider stops retrying, but do not run the mapping twice.
+        sendJson(res, 200, { ok: true, duplicate: true });
+        return true;
+      }
+      if (pendingSignedDeliveries.has(verified.deliveryKey)) {
+        // A concurrent copy is still being handled; let the provider retry later.
+        sendJson(res, 409, { ok: false, error: "delivery in progress" });
+        return true;
+      }
+      const { deliveryKey, expiresAt } = verified;
+      pendingSignedDeliveries.add(deliveryKey);
+      res.once("close", () => pendingSignedDeliveries.delete(deliveryKey));
+      markDispatched = () => rememberHookDelivery(deliveryKey, expiresAt, Date.now());
+      verifiedMappingId = verified.mappingId;
+    }
+
+    const deliveryContext: HookDeliveryContext = {
+      path: subPath,
+      query: url.search,
+      payload,
+      headers,
+    };
+    const respondWithDispatch = async (dispatch: HookDispatch, mappingId?: string) => {
+      const result = await dispatchHook(dispatch, { ...deliveryContext, mappingId });
+      if (!result.ok) {
+        sendJson(res, 400, { ok: false, error: result.error });
+        return;
+      }
+      await markDispatched?.();
+      if (dispatch.kind === "wake") {
+        sendJson(res, 200, { ok: true, mode: dispatch.mode, deliveryId: result.deliveryId });
+        return;
+      }
+      sendJson(res, 202, { ok: true, runId: result.runId, deliveryId: result.deliveryId });
+    };
+
+    if (tokenOk && subPath === "wake") {
       const normalized = normalizeWakePayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
         return true;
       }
-      dispatchWakeHook(normalized.value);
-      sendJson(res, 200, { ok: true, mode: normalized.value.mode });
+      await respondWithDispatch({ kind: "wake", ...normalized.value });
       return true;
     }
 
-    if (subPath === "agent") {
+    if (tokenOk && subPath === "agent") {
       const normalized = normalizeAgentPayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
         return true;
       }
-      const runId = dispatchAgentHook(normalized.value);
-      sendJson(res, 202, { ok: true, runId });
+      await respondWithDispatch({ kind: "agent", ...normalized.value });
       return true;
     }
 
-    if (hooksConfig.mappings.length > 0) {
+    const mappings = tokenOk
+      ? hooksConfig.mappings
+      : signedMappings.filter((mapping) => mapping.id === verifiedMappingId);
+    if (mappings.length > 0) {
       try {
-        const mapped = await applyHookMappings(hooksConfig.mappings, {
+        const mapped = await applyHookMappings(mappings, {
           payload: payload as Record<string, unknown>,
           headers,
           url,
@@ -230,33 +298,12 @@ export function createHooksRequestHandler(
             res.end();
             return true;
           }
-          if (mapped.action.kind === "wake") {
-            dispatchWakeHook({
-              text: mapped.action.text,
-              mode: mapped.action.mode,
-            });
-            sendJson(res, 200, { ok: true, mode: mapped.action.mode });
+          const resolved = resolveHookActionDispatch(mapped.action);
+          if (!resolved.ok) {
+            sendJson(res, 400, { ok: false, error: resolved.error });
             return true;
           }
-          const channel = resolveHookChannel(mapped.action.channel);
-          if (!channel) {
-            sendJson(res, 400, { ok: false, error: getHookChannelError() });
-            return true;
-          }
-          const runId = dispatchAgentHook({
-            message: mapped.action.message,
-            name: mapped.action.name ?? "Hook",
-            wakeMode: mapped.action.wakeMode,
-            sessionKey: mapped.action.sessionKey ?? "",
-            deliver: resolveHookDeliver(mapped.action.deliver),
-            channel,
-            to: mapped.action.to,
-            model: mapped.action.model,
-            thinking: mapped.action.thinking,
-            timeoutSeconds: mapped.action.timeoutSeconds,
-            allowUnsafeExternalContent: mapped.action.allowUnsafeExternalContent,
-          });
-          sendJson(res, 202, { ok: true, runId });
+          await respondWithDispatch(resolved.dispatch, mapped.mappingId);
           return true;
         }
       } catch (err) {
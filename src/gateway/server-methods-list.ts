@@ -21,6 +21,7 @@ const BASE_METHODS = [
   "config.schema",
   "exec.approvals.get",
   "exec.approvals.set",
+  "exec.approvals.audit",
   "exec.approvals.node.get",
   "exec.approvals.node.set",
   "exec.approval.request",
@@ -32,6 +33,7 @@ const BASE_METHODS = [
   "talk.mode",
   "models.list",
   "agents.list",
+  "routing.explain",
   "agents.create",
   "agents.update",
   "agents.delete",
@@ -74,12 +76,22 @@ const BASE_METHODS = [
   "cron.status",
   "cron.add",
   "cron.update",
+  "cron.export",
+  "cron.import",
   "cron.remove",
+  "cron.revive",
   "cron.run",
   "cron.runs",
   "system-presence",
   "system-event",
   "send",
+  "outbox.list",
+  "outbox.release",
+  "outbox.discard",
+  "hooks.deliveries",
+  "hooks.replay",
+  "subscribe",
+  "unsubscribe",
   "agent",
   "agent.identity.get",
   "agent.wait",
@@ -114,4 +126,6 @@ export const GATEWAY_EVENTS = [
   "voicewake.changed",
   "exec.approval.requested",
   "exec.approval.resolved",
+  "outbox.held",
+  "outbox.resolved",
 ];
@@ -1,5 +1,7 @@
 import type { GatewayRequestHandlers, GatewayRequestOptions } from "./server-methods/types.js";
+import { loadConfig } from "../config/config.js";
 import { ErrorCodes, errorShape } from "./protocol/index.js";
+import { authorizeGatewayRoleRequest, filterGatewayRoleResponse } from "./rbac.js";
 import { agentHandlers } from "./server-methods/agent.js";
 import { agentsHandlers } from "./server-methods/agents.js";
 import { browserHandlers } from "./server-methods/browser.js";
@@ -11,12 +13,16 @@ import { cronHandlers } from "./server-methods/cron.js";
 import { deviceHandlers } from "./server-methods/devices.js";
 import { execApprovalsHandlers } from "./server-methods/exec-approvals.js";
 import { healthHandlers } from "./server-methods/health.js";
+import { hooksHandlers } from "./server-methods/hooks.js";
 import { logsHandlers } from "./server-methods/logs.js";
 import { modelsHandlers } from "./server-methods/models.js";
 import { nodeHandlers } from "./server-methods/nodes.js";
+import { outboxHandlers } from "./server-methods/outbox.js";
+import { routingHandlers } from "./server-methods/routing.js";
 import { sendHandlers } from "./server-methods/send.js";
 import { sessionsHandlers } from "./server-methods/sessions.js";
 import { skillsHandlers } from "./server-methods/skills.js";
+import { subscribeHandlers } from "./server-methods/subscribe.js";
 import { systemHandlers } from "./server-methods/system.js";
 import { talkHandlers } from "./server-methods/talk.js";
 import { ttsHandlers } from "./server-methods/tts.js";
@@ -32,7 +38,13 @@ const WRITE_SCOPE = "operator.write";
 const APPROVALS_SCOPE = "operator.approvals";
 const PAIRING_SCOPE = "operator.pairing";
 
-const APPROVAL_METHODS = new Set(["exec.approval.request", "exec.approval.resolve"]);
+const APPROVAL_METHODS = new Set([
+  "exec.approval.request",
+  "exec.approval.resolve",
+  "outbox.list",
+  "outbox.release",
+  "outbox.discard",
+]);
 const NODE_ROLE_METHODS = new Set(["node.invoke.result", "node.event", "skills.bins"]);
 const PAIRING_METHODS = new Set([
   "node.pair.request",
@@ -60,6 +72,7 @@ const READ_METHODS = new Set([
   "models.list",
   "agents.list",
   "agent.identity.get",
+  "routing.explain",
   "skills.status",
   "voicewake.get",
   "sessions.list",
@@ -67,11 +80,15 @@ const READ_METHODS = new Set([
   "cron.list",
   "cron.status",
   "cron.runs",
+  "cron.export",
   "system-presence",
   "last-heartbeat",
   "node.list",
   "node.describe",
   "chat.history",
+  "hooks.deliveries",
+  "subscribe",
+  "unsubscribe",
 ]);
 const WRITE_METHODS = new Set([
   "send",
@@ -88,9 +105,31 @@ const WRITE_METHODS = new Set([
   "chat.send",
   "chat.abort",
   "browser.request",
+  "hooks.replay",
 ]);
 
-function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["client"]) {
+/** The built-in scope a method belongs to; configured roles can grant methods by scope. */
+function resolveMethodScope(method: string) {
+  if (APPROVAL_METHODS.has(method)) {
+    return APPROVALS_SCOPE;
+  }
+  if (PAIRING_METHODS.has(method)) {
+    return PAIRING_SCOPE;
+  }
+  if (READ_METHODS.has(method)) {
+    return READ_SCOPE;
+  }
+  if (WRITE_METHODS.has(method)) {
+    return WRITE_SCOPE;
+  }
+  return ADMIN_SCOPE;
+}
+
+function authorizeGatewayMethod(
+  method: string,
+  params: Record<string, unknown>,
+  client: GatewayRequestOptions["client"],
+) {
   if (!client?.connect) {
     return null;
   }
@@ -108,6 +147,16 @@ function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["c
   if (role !== "operator") {
     return errorShape(ErrorCodes.INVALID_REQUEST, `unauthorized role: ${role}`);
   }
+  if (client.access) {
+    const error = authorizeGatewayRoleRequest({
+      cfg: loadConfig(),
+      access: client.access,
+      method,
+      methodScope: resolveMethodScope(method),
+      params,
+    });
+    return error ? errorShape(ErrorCodes.INVALID_REQUEST, `unauthorized: ${error}`) : null;
+  }
   if (scopes.includes(ADMIN_SCOPE)) {
     return null;
   }
@@ -152,6 +201,7 @@ function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["c
     method === "cron.update" ||
     method === "cron.remove" ||
     method === "cron.run" ||
+    method === "cron.import" ||
     method === "sessions.patch" ||
     method === "sessions.reset" ||
     method === "sessions.delete" ||
@@ -179,26 +229,43 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...talkHandlers,
   ...ttsHandlers,
   ...skillsHandlers,
+  ...subscribeHandlers,
   ...sessionsHandlers,
   ...systemHandlers,
   ...updateHandlers,
   ...nodeHandlers,
   ...sendHandlers,
+  ...outboxHandlers,
+  ...hooksHandlers,
   ...usageHandlers,
   ...agentHandlers,
   ...agentsHandlers,
+  ...routingHandlers,
   ...browserHandlers,
 };
 
 export async function handleGatewayRequest(
   opts: GatewayRequestOptions & { extraHandlers?: GatewayRequestHandlers },
 ): Promise<void> {
-  const { req, respond, client, isWebchatConnect, context } = opts;
-  const authError = authorizeGatewayMethod(req.method, client);
+  const { req, client, isWebchatConnect, context } = opts;
+  const params = (req.params ?? {}) as Record<string, unknown>;
+  const authError = authorizeGatewayMethod(req.method, params, client);
   if (authError) {
-    respond(false, undefined, authError);
+    opts.respond(false, undefined, authError);
     return;
   }
+  const access = client?.access;
+  const respond: GatewayRequestOptions["respond"] = access
+    ? (ok, payload, error, meta) =>
+        opts.respond(
+          ok,
+          ok
+            ? filterGatewayRoleResponse({ cfg: loadConfig(), access, method: req.method, payload })
+            : payload,
+          error,
+          meta,
+        )
+    : opts.respond;
   const handler = opts.extraHandlers?.[req.method] ?? coreGatewayHandlers[req.method];
   if (!handler) {
     respond(
@@ -210,7 +277,7 @@ export async function handleGatewayRequest(
   }
   await handler({
     req,
-    params: (req.params ?? {}) as Record<string, unknown>,
+    params,
     client,
     isWebchatConnect,
     respond,
@@ -1,3 +1,4 @@
+import type { CronImportConflictMode, CronJobDefinition } from "../../cron/export.js";
 import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import type { GatewayRequestHandlers } from "./types.js";
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
@@ -8,8 +9,11 @@ import {
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
+  validateCronExportParams,
+  validateCronImportParams,
   validateCronListParams,
   validateCronRemoveParams,
+  validateCronReviveParams,
   validateCronRunParams,
   validateCronRunsParams,
   validateCronStatusParams,
@@ -142,6 +146,66 @@ export const cronHandlers: GatewayRequestHandlers = {
     const job = await context.cron.update(jobId, patch);
     respond(true, job, undefined);
   },
+  "cron.export": async ({ params, respond, context }) => {
+    if (!validateCronExportParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.export params: ${formatValidationErrors(validateCronExportParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { ids?: string[]; includeDisabled?: boolean };
+    const file = await context.cron.exportJobs({ ids: p.ids, includeDisabled: p.includeDisabled });
+    respond(true, file, undefined);
+  },
+  "cron.import": async ({ params, respond, context }) => {
+    const rawJobs = (params as { jobs?: unknown } | null)?.jobs;
+    const candidate =
+      Array.isArray(rawJobs) && typeof params === "object" && params !== null
+        ? {
+            ...params,
+            jobs: rawJobs.map((job) => normalizeCronJobCreate(job) ?? job),
+          }
+        : params;
+    if (!validateCronImportParams(candidate)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.import params: ${formatValidationErrors(validateCronImportParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = candidate as unknown as {
+      jobs: CronJobDefinition[];
+      dryRun?: boolean;
+      onConflict?: CronImportConflictMode;
+      prune?: boolean;
+    };
+    for (const job of p.jobs) {
+      const timestampValidation = validateScheduleTimestamp(job.schedule);
+      if (!timestampValidation.ok) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, `${job.id}: ${timestampValidation.message}`),
+        );
+        return;
+      }
+    }
+    const result = await context.cron.importJobs(p.jobs, {
+      dryRun: p.dryRun,
+      onConflict: p.onConflict,
+      prune: p.prune,
+    });
+    respond(true, result, undefined);
+  },
   "cron.remove": async ({ params, respond, context }) => {
     if (!validateCronRemoveParams(params)) {
       respond(
@@ -167,6 +231,31 @@ export const cronHandlers: GatewayRequestHandlers = {
     const result = await context.cron.remove(jobId);
     respond(true, result, undefined);
   },
+  "cron.revive": async ({ params, respond, context }) => {
+    if (!validateCronReviveParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.revive params: ${formatValidationErrors(validateCronReviveParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { id?: string; jobId?: string };
+    const jobId = p.id ?? p.jobId;
+    if (!jobId) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.revive params: missing id"),
+      );
+      return;
+    }
+    const job = await context.cron.revive(jobId);
+    respond(true, job, undefined);
+  },
   "cron.run": async ({ params, respond, context }) => {
     if (!validateCronRunParams(params)) {
       respond(
@@ -1,4 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
+import {
+  queryExecApprovalAuditLog,
+  readExecApprovalAuditLog,
+  verifyExecApprovalAuditChain,
+} from "../../infra/exec-approval-audit.js";
 import { ExecApprovalManager } from "../exec-approval-manager.js";
 import { validateExecApprovalRequestParams } from "../protocol/index.js";
 import { createExecApprovalHandlers } from "./exec-approval.js";
@@ -273,4 +278,64 @@ describe("exec approval handlers", () => {
 
     await requestPromise;
   });
+
+  it("records request and decision in the audit log", async () => {
+    const manager = new ExecApprovalManager();
+    const handlers = createExecApprovalHandlers(manager);
+    const context = { broadcast: noop };
+
+    const requestPromise = handlers["exec.approval.request"]({
+      params: {
+        id: "audit-1",
+        command: "make deploy",
+        host: "gateway",
+        agentId: "main",
+        reason: "make: no allowlist entry",
+        timeoutMs: 2000,
+      },
+      respond: vi.fn(),
+      context: context as unknown as Parameters<
+        (typeof handlers)["exec.approval.request"]
+      >[0]["context"],
+      client: null,
+      req: { id: "req-1", type: "req", method: "exec.approval.request" },
+      isWebchatConnect: noop,
+    });
+
+    await handlers["exec.approval.resolve"]({
+      params: { id: "audit-1", decision: "allow-once", approver: "+123", channel: "whatsapp" },
+      respond: vi.fn(),
+      context: context as unknown as Parameters<
+        (typeof handlers)["exec.approval.resolve"]
+      >[0]["context"],
+      client: { connect: { client: { id: "gateway-client", displayName: "Chat approval" } } },
+      req: { id: "req-2", type: "req", method: "exec.approval.resolve" },
+      isWebchatConnect: noop,
+    });
+    await requestPromise;
+
+    await vi.waitFor(async () => {
+      const records = queryExecApprovalAuditLog(await readExecApprovalAuditLog(), {
+        approvalId: "audit-1",
+      });
+      expect(records).toEqual([
+        expect.objectContaining({
+          event: "requested",
+          command: "make deploy",
+          agentId: "main",
+          reason: "make: no allowlist entry",
+        }),
+        expect.objectContaining({
+          event: "resolved",
+          command: "make deploy",
+          decision: "allow-once",
+          approver: "client:gateway-client",
+          channel: "gateway-client",
+          claimedApprover: "+123",
+          claimedChannel: "whatsapp",
+        }),
+      ]);
+    });
+    expect(verifyExecApprovalAuditChain(await readExecApprovalAuditLog()).ok).toBe(true);
+  });
 });
@@ -1,7 +1,8 @@
 import type { ExecApprovalForwarder } from "../../infra/exec-approval-forwarder.js";
 import type { ExecApprovalDecision } from "../../infra/exec-approvals.js";
 import type { ExecApprovalManager } from "../exec-approval-manager.js";
-import type { GatewayRequestHandlers } from "./types.js";
+import type { GatewayClient, GatewayRequestHandlers } from "./types.js";
+import { recordExecApprovalAudit } from "../../infra/exec-approval-audit.js";
 import {
   ErrorCodes,
   errorShape,
@@ -10,6 +11,22 @@ import {
   validateExecApprovalResolveParams,
 } from "../protocol/index.js";
 
+/**
+ * Identity the gateway authenticated for this connection: the signed device id, else the
+ * scoped token id, else the connecting client id. Never taken from request params.
+ */
+function resolveAuthenticatedApprover(client: GatewayClient | null): string | undefined {
+  const deviceId = client?.connect?.device?.id;
+  if (deviceId) {
+    return `device:${deviceId}`;
+  }
+  if (client?.access?.tokenId) {
+    return `token:${client.access.tokenId}`;
+  }
+  const clientId = client?.connect?.client?.id;
+  return clientId ? `client:${clientId}` : undefined;
+}
+
 export function createExecApprovalHandlers(
   manager: ExecApprovalManager,
   opts?: { forwarder?: ExecApprovalForwarder },
@@ -39,6 +56,7 @@ export function createExecApprovalHandlers(
         agentId?: string;
         resolvedPath?: string;
         sessionKey?: string;
+        reason?: string;
         timeoutMs?: number;
       };
       const timeoutMs = typeof p.timeoutMs === "number" ? p.timeoutMs : 120_000;
@@ -60,9 +78,26 @@ export function createExecApprovalHandlers(
         agentId: p.agentId ?? null,
         resolvedPath: p.resolvedPath ?? null,
         sessionKey: p.sessionKey ?? null,
+        reason: p.reason ?? null,
       };
       const record = manager.create(request, timeoutMs, explicitId);
       const decisionPromise = manager.waitForDecision(record, timeoutMs);
+      const logAuditError = (err: unknown) => {
+        context.logGateway?.error?.(`exec approvals: audit append failed: ${String(err)}`);
+      };
+      recordExecApprovalAudit(
+        {
+          event: "requested",
+          approvalId: record.id,
+          command: request.command,
+          cwd: p.cwd,
+          host: p.host,
+          agentId: p.agentId,
+          sessionKey: p.sessionKey,
+          reason: p.reason,
+        },
+        logAuditError,
+      );
       context.broadcast(
         "exec.approval.requested",
         {
@@ -84,6 +119,18 @@ export function createExecApprovalHandlers(
           context.logGateway?.error?.(`exec approvals: forward request failed: ${String(err)}`);
         });
       const decision = await decisionPromise;
+      if (decision === null) {
+        recordExecApprovalAudit(
+          {
+            event: "expired",
+            approvalId: record.id,
+            command: request.command,
+            agentId: p.agentId,
+            sessionKey: p.sessionKey,
+          },
+          logAuditError,
+        );
+      }
       respond(
         true,
         {
@@ -109,18 +156,41 @@ export function createExecApprovalHandlers(
         );
         return;
       }
-      const p = params as { id: string; decision: string };
+      const p = params as { id: string; decision: string; approver?: string; channel?: string };
       const decision = p.decision as ExecApprovalDecision;
-      if (decision !== "allow-once" && decision !== "allow-always" && decision !== "deny") {
+      if (
+        decision !== "allow-once" &&
+        decision !== "allow-session" &&
+        decision !== "allow-always" &&
+        decision !== "deny"
+      ) {
         respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "invalid decision"));
         return;
       }
       const resolvedBy = client?.connect?.client?.displayName ?? client?.connect?.client?.id;
+      const snapshot = manager.getSnapshot(p.id);
       const ok = manager.resolve(p.id, decision, resolvedBy ?? null);
       if (!ok) {
         respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown approval id"));
         return;
       }
+      recordExecApprovalAudit(
+        {
+          event: "resolved",
+          approvalId: p.id,
+          command: snapshot?.request.command,
+          agentId: snapshot?.request.agentId ?? undefined,
+          sessionKey: snapshot?.request.sessionKey ?? undefined,
+          decision,
+          approver: resolveAuthenticatedApprover(client),
+          channel: client?.connect?.client?.id,
+          ...(p.approver ? { claimedApprover: p.approver } : {}),
+          ...(p.channel ? { claimedChannel: p.channel } : {}),
+        },
+        (err) => {
+          context.logGateway?.error?.(`exec approvals: audit append failed: ${String(err)}`);
+        },
+      );
       context.broadcast(
         "exec.approval.resolved",
         { id: p.id, decision, resolvedBy, ts: Date.now() },
@@ -1,4 +1,11 @@
 import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+import {
+  type ExecApprovalAuditQuery,
+  queryExecApprovalAuditLog,
+  readExecApprovalAuditLog,
+  resolveExecApprovalAuditPath,
+  verifyExecApprovalAuditChain,
+} from "../../infra/exec-approval-audit.js";
 import {
   ensureExecApprovals,
   normalizeExecApprovals,
@@ -12,6 +19,7 @@ import {
   ErrorCodes,
   errorShape,
   formatValidationErrors,
+  validateExecApprovalsAuditParams,
   validateExecApprovalsGetParams,
   validateExecApprovalsNodeGetParams,
   validateExecApprovalsNodeSetParams,
@@ -159,6 +167,31 @@ export const execApprovalsHandlers: GatewayRequestHandlers = {
       undefined,
     );
   },
+  "exec.approvals.audit": async ({ params, respond }) => {
+    if (!validateExecApprovalsAuditParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid exec.approvals.audit params: ${formatValidationErrors(validateExecApprovalsAuditParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const lines = await readExecApprovalAuditLog();
+      respond(
+        true,
+        {
+          path: resolveExecApprovalAuditPath(),
+          records: queryExecApprovalAuditLog(lines, params as ExecApprovalAuditQuery),
+          verification: verifyExecApprovalAuditChain(lines),
+        },
+        undefined,
+      );
+    });
+  },
   "exec.approvals.node.get": async ({ params, respond, context }) => {
     if (!validateExecApprovalsNodeGetParams(params)) {
       respond(
@@ -0,0 +1,89 @@
+import type { GatewayClient, GatewayRequestHandlers } from "./types.js";
+import { loadConfig } from "../../config/config.js";
+import {
+  getHookDelivery,
+  type HookDelivery,
+  listHookDeliveries,
+  redactHookDelivery,
+  replayHookDelivery,
+  type HookDeliveryStatus,
+} from "../hooks-queue.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateHooksDeliveriesParams,
+  validateHooksReplayParams,
+} from "../protocol/index.js";
+import { gatewayRoleCoversScope } from "../rbac.js";
+import { respondInvalidParams, respondUnavailableOnThrow } from "./nodes.helpers.js";
+
+const ADMIN_SCOPE = "operator.admin";
+
+// Payloads and headers can carry third-party secrets, so only admins see them.
+function canReadHookPayloads(client: GatewayClient | null): boolean {
+  if (!client?.connect) {
+    return true;
+  }
+  if (client.access) {
+    return gatewayRoleCoversScope({ cfg: loadConfig(), access: client.access, scope: ADMIN_SCOPE });
+  }
+  return (client.connect.scopes ?? []).includes(ADMIN_SCOPE);
+}
+
+function presentDelivery(delivery: HookDelivery, client: GatewayClient | null): HookDelivery {
+  return canReadHookPayloads(client) ? delivery : redactHookDelivery(delivery);
+}
+
+export const hooksHandlers: GatewayRequestHandlers = {
+  "hooks.deliveries": async ({ params, respond, client }) => {
+    if (!validateHooksDeliveriesParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "hooks.deliveries",
+        validator: validateHooksDeliveriesParams,
+      });
+      return;
+    }
+    const { id, limit, status } = params as {
+      id?: string;
+      limit?: number;
+      status?: HookDeliveryStatus;
+    };
+    await respondUnavailableOnThrow(respond, async () => {
+      if (id) {
+        const delivery = await getHookDelivery(id);
+        if (!delivery) {
+          respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown delivery id"));
+          return;
+        }
+        respond(true, { deliveries: [presentDelivery(delivery, client)] }, undefined);
+        return;
+      }
+      const deliveries = await listHookDeliveries({ limit: limit ?? 20, status });
+      respond(
+        true,
+        { deliveries: deliveries.map((entry) => presentDelivery(entry, client)) },
+        undefined,
+      );
+    });
+  },
+  "hooks.replay": async ({ params, respond, client }) => {
+    if (!validateHooksReplayParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "hooks.replay",
+        validator: validateHooksReplayParams,
+      });
+      return;
+    }
+    const { id, remap } = params as { id: string; remap?: boolean };
+    await respondUnavailableOnThrow(respond, async () => {
+      const result = await replayHookDelivery(id, { remap });
+      if (!result.ok) {
+        respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, result.error));
+        return;
+      }
+      respond(true, { delivery: presentDelivery(result.delivery, client) }, undefined);
+    });
+  },
+};
@@ -0,0 +1,141 @@
+import type { GatewayRequestHandlers } from "./types.js";
+import { normalizeChannelId } from "../../channels/plugins/index.js";
+import { createOutboundSendDeps } from "../../cli/deps.js";
+import { loadConfig } from "../../config/config.js";
+import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
+import {
+  listHeldOutboundMessages,
+  removeHeldOutboundMessage,
+  restoreHeldOutboundMessage,
+} from "../../infra/outbound/outbox.js";
+import { normalizeReplyPayloadsForDelivery } from "../../infra/outbound/payloads.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateOutboxDiscardParams,
+  validateOutboxListParams,
+  validateOutboxReleaseParams,
+} from "../protocol/index.js";
+import { respondInvalidParams, respondUnavailableOnThrow } from "./nodes.helpers.js";
+
+export const outboxHandlers: GatewayRequestHandlers = {
+  "outbox.list": async ({ params, respond }) => {
+    if (!validateOutboxListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "outbox.list",
+        validator: validateOutboxListParams,
+      });
+      return;
+    }
+    await respondUnavailableOnThrow(respond, async () => {
+      const held = await listHeldOutboundMessages(loadConfig());
+      respond(true, { held }, undefined);
+    });
+  },
+  "outbox.release": async ({ params, respond, context }) => {
+    if (!validateOutboxReleaseParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "outbox.release",
+        validator: validateOutboxReleaseParams,
+      });
+      return;
+    }
+    const { id } = params as { id: string };
+    await respondUnavailableOnThrow(respond, async () => {
+      const cfg = loadConfig();
+      // Claim the entry before sending so concurrent releases of one id cannot both deliver.
+      const entry = await removeHeldOutboundMessage(id, cfg);
+      if (!entry) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "unknown held message id"),
+        );
+        return;
+      }
+      const channel = normalizeChannelId(entry.channel);
+      if (!channel) {
+        await restoreHeldOutboundMessage(entry, cfg);
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, `unsupported channel: ${entry.channel}`),
+        );
+        return;
+      }
+      const mirrorPayloads = normalizeReplyPayloadsForDelivery(entry.payloads);
+      const mirrorText = mirrorPayloads
+        .map((payload) => payload.text)
+        .filter(Boolean)
+        .join("\n");
+      const mirrorMediaUrls = mirrorPayloads.flatMap(
+        (payload) => payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []),
+      );
+      let results: Awaited<ReturnType<typeof deliverOutboundPayloads>>;
+      try {
+        results = await deliverOutboundPayloads({
+          cfg,
+          channel,
+          to: entry.to,
+          accountId: entry.accountId,
+          payloads: entry.payloads,
+          replyToId: entry.replyToId,
+          threadId: entry.threadId,
+          deps: context.deps ? createOutboundSendDeps(context.deps) : undefined,
+          skipSendPolicy: true,
+          mirror: entry.sessionKey
+            ? {
+                sessionKey: entry.sessionKey,
+                agentId: entry.agentId,
+                text: mirrorText,
+                mediaUrls: mirrorMediaUrls.length > 0 ? mirrorMediaUrls : undefined,
+              }
+            : undefined,
+        });
+      } catch (err) {
+        await restoreHeldOutboundMessage(entry, cfg);
+        throw err;
+      }
+      context.broadcast(
+        "outbox.resolved",
+        { id: entry.id, decision: "released", ts: Date.now() },
+        { dropIfSlow: true },
+      );
+      respond(
+        true,
+        { id: entry.id, released: true, messageId: results.at(-1)?.messageId },
+        undefined,
+      );
+    });
+  },
+  "outbox.discard": async ({ params, respond, context }) => {
+    if (!validateOutboxDiscardParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "outbox.discard",
+        validator: validateOutboxDiscardParams,
+      });
+      return;
+    }
+    const { id } = params as { id: string };
+    await respondUnavailableOnThrow(respond, async () => {
+      const removed = await removeHeldOutboundMessage(id, loadConfig());
+      if (!removed) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "unknown held message id"),
+        );
+        return;
+      }
+      context.broadcast(
+        "outbox.resolved",
+        { id: removed.id, decision: "discarded", ts: Date.now() },
+        { dropIfSlow: true },
+      );
+      respond(true, { id: removed.id, discarded: true }, undefined);
+    });
+  },
+};
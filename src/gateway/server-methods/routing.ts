@@ -0,0 +1,73 @@
+import type { GatewayRequestHandlers } from "./types.js";
+import { loadConfig } from "../../config/config.js";
+import { explainAgentRoute } from "../../routing/resolve-route.js";
+import { evaluateOutboundSendPolicy, explainSendPolicy } from "../../sessions/send-policy.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateRoutingExplainParams,
+} from "../protocol/index.js";
+import { loadSessionEntry } from "../session-utils.js";
+
+export const routingHandlers: GatewayRequestHandlers = {
+  "routing.explain": ({ params, respond }) => {
+    if (!validateRoutingExplainParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid routing.explain params: ${formatValidationErrors(validateRoutingExplainParams.errors)}`,
+        ),
+      );
+      return;
+    }
+
+    const cfg = loadConfig();
+    const explanation = explainAgentRoute({
+      cfg,
+      channel: params.channel,
+      accountId: params.accountId,
+      peer: params.peer,
+      parentPeer: params.parentPeer,
+      guildId: params.guildId,
+      teamId: params.teamId,
+      message:
+        params.text !== undefined || params.mediaTypes
+          ? { text: params.text, mediaTypes: params.mediaTypes }
+          : undefined,
+      nowMs: params.atMs,
+    });
+    const { route } = explanation;
+    const { entry } = loadSessionEntry(route.sessionKey);
+    const chatType = params.peer?.kind ?? "direct";
+    const session = explainSendPolicy({
+      cfg,
+      entry,
+      sessionKey: route.sessionKey,
+      channel: route.channel,
+      chatType,
+    });
+    // Hold rules, quiet hours and rate limits for a reply to the peer; a dry run, so
+    // explaining never uses up a rate limit.
+    const outbound = evaluateOutboundSendPolicy({
+      cfg,
+      channel: route.channel,
+      to: params.peer?.id ?? "",
+      accountId: route.accountId,
+      sessionKey: route.sessionKey,
+      chatType,
+      nowMs: params.atMs,
+      dryRun: true,
+    });
+    const rules = cfg.session?.sendPolicy?.rules ?? [];
+    const withRule = <T extends { ruleIndex?: number }>(result: T) =>
+      result.ruleIndex === undefined ? result : { ...result, rule: rules[result.ruleIndex] };
+    respond(
+      true,
+      { ...explanation, sendPolicy: { ...withRule(session), outbound: withRule(outbound) } },
+      undefined,
+    );
+  },
+};
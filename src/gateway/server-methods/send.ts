@@ -1,3 +1,4 @@
+import type { HeldOutboundMessage } from "../../infra/outbound/outbox.js";
 import type { GatewayRequestContext, GatewayRequestHandlers } from "./types.js";
 import { resolveSessionAgentId } from "../../agents/agent-scope.js";
 import { getChannelPlugin, normalizeChannelId } from "../../channels/plugins/index.js";
@@ -165,6 +166,7 @@ export const sendHandlers: GatewayRequestHandlers = {
             route: derivedRoute,
           });
         }
+        let held: HeldOutboundMessage | undefined;
         const results = await deliverOutboundPayloads({
           cfg,
           channel: outboundChannel,
@@ -173,6 +175,9 @@ export const sendHandlers: GatewayRequestHandlers = {
           payloads: [{ text: message, mediaUrl: request.mediaUrl, mediaUrls }],
           gifPlayback: request.gifPlayback,
           deps: outboundDeps,
+          onHeld: (entry) => {
+            held = entry;
+          },
           mirror: providedSessionKey
             ? {
                 sessionKey: providedSessionKey,
@@ -190,6 +195,15 @@ export const sendHandlers: GatewayRequestHandlers = {
               : undefined,
         });
 
+        if (held) {
+          const payload: Record<string, unknown> = {
+            runId: idem,
+            channel,
+            held: { id: held.id, reason: held.reason },
+          };
+          context.dedupe.set(dedupeKey, { ts: Date.now(), ok: true, payload });
+          return { ok: true, payload, meta: { channel } };
+        }
         const result = results.at(-1);
         if (!result) {
           throw new Error("No delivery result");
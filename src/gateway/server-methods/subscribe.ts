@@ -0,0 +1,72 @@
+import type { GatewayRequestHandlers } from "./types.js";
+import { loadConfig } from "../../config/config.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateSubscribeParams,
+  validateUnsubscribeParams,
+} from "../protocol/index.js";
+import { normalizeEventSubscription } from "../server-broadcast.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+
+export const subscribeHandlers: GatewayRequestHandlers = {
+  subscribe: ({ params, client, respond, context }) => {
+    if (!validateSubscribeParams(params)) {
+      respondInvalidParams({ respond, method: "subscribe", validator: validateSubscribeParams });
+      return;
+    }
+    if (!client?.connId) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "subscribe requires a WebSocket connection"),
+      );
+      return;
+    }
+    const { since, ...filters } = params;
+    const subscription = normalizeEventSubscription(loadConfig(), filters);
+    const hasFilters = Object.values(subscription).some((value) => value !== undefined);
+    client.subscription = hasFilters ? subscription : undefined;
+    // Replayed events go out before the response, so the client sees them in seq order.
+    const resumed = context.replayEvents(client.connId, since);
+    respond(true, { subscription: client.subscription ?? {}, ...resumed }, undefined);
+  },
+  unsubscribe: ({ params, client, respond }) => {
+    if (!validateUnsubscribeParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "unsubscribe",
+        validator: validateUnsubscribeParams,
+      });
+      return;
+    }
+    if (!client?.connId) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "unsubscribe requires a WebSocket connection"),
+      );
+      return;
+    }
+    const { events } = params;
+    if (!events) {
+      // Dropping the subscription restores the default: every event the client may see.
+      client.subscription = undefined;
+    } else if (client.subscription?.events) {
+      client.subscription = {
+        ...client.subscription,
+        events: client.subscription.events.filter((event) => !events.includes(event)),
+      };
+    } else {
+      // Without an events filter every event passes, including ones added later (plugins,
+      // newer gateways); record what to drop instead of enumerating what to keep.
+      client.subscription = {
+        ...client.subscription,
+        excludeEvents: Array.from(
+          new Set([...(client.subscription?.excludeEvents ?? []), ...events]),
+        ),
+      };
+    }
+    respond(true, { subscription: client.subscription ?? {} }, undefined);
+  },
+};
@@ -7,6 +7,8 @@ import type { WizardSession } from "../../wizard/session.js";
 import type { ChatAbortControllerEntry } from "../chat-abort.js";
 import type { NodeRegistry } from "../node-registry.js";
 import type { ConnectParams, ErrorShape, RequestFrame } from "../protocol/index.js";
+import type { GatewayRoleAccess } from "../rbac.js";
+import type { GatewayEventSubscription } from "../server-broadcast.js";
 import type { ChannelRuntimeSnapshot } from "../server-channels.js";
 import type { DedupeEntry } from "../server-shared.js";
 
@@ -15,6 +17,9 @@ type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
 export type GatewayClient = {
   connect: ConnectParams;
   connId?: string;
+  /** Set when the client authenticated with a role-scoped token. */
+  access?: GatewayRoleAccess;
+  subscription?: GatewayEventSubscription;
 };
 
 export type RespondFn = (
@@ -52,6 +57,10 @@ export type GatewayRequestContext = {
       stateVersion?: { presence?: number; health?: number };
     },
   ) => void;
+  replayEvents: (
+    connId: string,
+    since?: number,
+  ) => { seq: number; replayed: number; complete: boolean };
   nodeSendToSession: (sessionKey: string, event: string, payload: unknown) => void;
   nodeSendToAllSubscribed: (event: string, payload: unknown) => void;
   nodeSubscribe: (nodeId: string, sessionKey: string) => void;
@@ -4,6 +4,7 @@ import { normalizeChannelId } from "../channels/plugins/index.js";
 import { agentCommand } from "../commands/agent.js";
 import { loadConfig } from "../config/config.js";
 import { updateSessionStore } from "../config/sessions.js";
+import { recordExecApprovalAudit } from "../infra/exec-approval-audit.js";
 import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
 import { normalizeMainKey } from "../routing/session-key.js";
@@ -238,6 +239,22 @@ export const handleNodeEvent = async (ctx: NodeEventContext, nodeId: string, evt
         }
       }
 
+      if (evt.event !== "exec.started") {
+        recordExecApprovalAudit(
+          {
+            event: evt.event === "exec.finished" ? "executed" : "denied",
+            approvalId: runId || undefined,
+            command: command || undefined,
+            host: "node",
+            nodeId,
+            sessionKey,
+            exitCode,
+            timedOut: timedOut || undefined,
+            reason: reason || undefined,
+          },
+          (err) => ctx.logGateway.warn(`exec approvals: audit append failed: ${String(err)}`),
+        );
+      }
       enqueueSystemEvent(text, { sessionKey, contextKey: runId ? `exec:${runId}` : "exec" });
       requestHeartbeatNow({ reason: "exec-event" });
       return;
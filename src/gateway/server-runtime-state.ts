@@ -72,6 +72,7 @@ export async function createGatewayRuntimeState(params: {
       stateVersion?: { presence?: number; health?: number };
     },
   ) => void;
+  replayEvents: ReturnType<typeof createGatewayBroadcaster>["replayEvents"];
   agentRunSeq: Map<string, number>;
   dedupe: Map<string, DedupeEntry>;
   chatRunState: ReturnType<typeof createChatRunState>;
@@ -108,7 +109,7 @@ export async function createGatewayRuntimeState(params: {
   }
 
   const clients = new Set<GatewayWsClient>();
-  const { broadcast, broadcastToConnIds } = createGatewayBroadcaster({ clients });
+  const { broadcast, broadcastToConnIds, replayEvents } = createGatewayBroadcaster({ clients });
 
   const handleHooksRequest = createGatewayHooksRequestHandler({
     deps: params.deps,
@@ -197,6 +198,7 @@ export async function createGatewayRuntimeState(params: {
     clients,
     broadcast,
     broadcastToConnIds,
+    replayEvents,
     agentRunSeq,
     dedupe,
     chatRunState,
@@ -31,6 +31,7 @@ import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
 import { startHeartbeatRunner } from "../infra/heartbeat-runner.js";
 import { getMachineDisplayName } from "../infra/machine-name.js";
+import { onHeldOutboundMessage } from "../infra/outbound/outbox.js";
 import { ensureOpenClawCliOnPath } from "../infra/path-env.js";
 import { setGatewaySigusr1RestartPolicy } from "../infra/restart.js";
 import {
@@ -42,6 +43,7 @@ import { scheduleGatewayUpdateCheck } from "../infra/update-startup.js";
 import { startDiagnosticHeartbeat, stopDiagnosticHeartbeat } from "../logging/diagnostic.js";
 import { createSubsystemLogger, runtimeForLogger } from "../logging/subsystem.js";
 import { runOnboardingWizard } from "../wizard/onboarding.js";
+import { initWorkflowRunner } from "../workflows/runner.js";
 import { startGatewayConfigReloader } from "./config-reload.js";
 import { ExecApprovalManager } from "./exec-approval-manager.js";
 import { NodeRegistry } from "./node-registry.js";
@@ -224,6 +226,7 @@ export async function startGatewayServer(
   }
   setGatewaySigusr1RestartPolicy({ allowExternal: cfgAtStart.commands?.restart === true });
   initSubagentRegistry();
+  initWorkflowRunner();
   const defaultAgentId = resolveDefaultAgentId(cfgAtStart);
   const defaultWorkspaceDir = resolveAgentWorkspaceDir(cfgAtStart, defaultAgentId);
   const baseMethods = listGatewayMethods();
@@ -319,6 +322,7 @@ export async function startGatewayServer(
     clients,
     broadcast,
     broadcastToConnIds,
+    replayEvents,
     agentRunSeq,
     dedupe,
     chatRunState,
@@ -457,6 +461,10 @@ export async function startGatewayServer(
     broadcast("heartbeat", evt, { dropIfSlow: true });
   });
 
+  const outboxUnsub = onHeldOutboundMessage((held) => {
+    broadcast("outbox.held", held, { dropIfSlow: true });
+  });
+
   let heartbeatRunner = startHeartbeatRunner({ cfg: cfgAtStart });
 
   void cron.start().catch((err) => logCron.error(`failed to start: ${String(err)}`));
@@ -500,6 +508,7 @@ export async function startGatewayServer(
       getHealthVersion,
       broadcast,
       broadcastToConnIds,
+      replayEvents,
       nodeSendToSession,
       nodeSendToAllSubscribed,
       nodeSubscribe,
@@ -613,6 +622,7 @@ export async function startGatewayServer(
     dedupeCleanup,
     agentUnsub,
     heartbeatUnsub,
+    outboxUnsub,
     chatRunState,
     clients,
     configReloader,
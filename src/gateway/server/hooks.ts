@@ -2,12 +2,23 @@ import { randomUUID } from "node:crypto";
 import type { CliDeps } from "../../cli/deps.js";
 import type { CronJob } from "../../cron/types.js";
 import type { createSubsystemLogger } from "../../logging/subsystem.js";
-import type { HookMessageChannel, HooksConfigResolved } from "../hooks.js";
+import type { HookAgentPayload, HookDispatch, HooksConfigResolved } from "../hooks.js";
+import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
 import { loadConfig } from "../../config/config.js";
 import { resolveMainSessionKeyFromConfig } from "../../config/sessions.js";
 import { runCronIsolatedAgentTurn } from "../../cron/isolated-agent.js";
 import { requestHeartbeatNow } from "../../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
+import { startWorkspaceWorkflow } from "../../workflows/runner.js";
+import { applyHookMappings } from "../hooks-mapping.js";
+import {
+  enqueueHookDelivery,
+  startHookDeliveryQueue,
+  type HookDelivery,
+  type HookDeliveryContext,
+  type HookDeliveryOutcome,
+} from "../hooks-queue.js";
+import { resolveHookActionDispatch } from "../hooks.js";
 import { createHooksRequestHandler } from "../server-http.js";
 
 type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
@@ -21,7 +32,7 @@ export function createGatewayHooksRequestHandler(params: {
 }) {
   const { deps, getHooksConfig, bindHost, port, logHooks } = params;
 
-  const dispatchWakeHook = (value: { text: string; mode: "now" | "next-heartbeat" }) => {
+  const runWakeHook = (value: { text: string; mode: "now" | "next-heartbeat" }) => {
     const sessionKey = resolveMainSessionKeyFromConfig();
     enqueueSystemEvent(value.text, { sessionKey });
     if (value.mode === "now") {
@@ -29,19 +40,10 @@ export function createGatewayHooksRequestHandler(params: {
     }
   };
 
-  const dispatchAgentHook = (value: {
-    message: string;
-    name: string;
-    wakeMode: "now" | "next-heartbeat";
-    sessionKey: string;
-    deliver: boolean;
-    channel: HookMessageChannel;
-    to?: string;
-    model?: string;
-    thinking?: string;
-    timeoutSeconds?: number;
-    allowUnsafeExternalContent?: boolean;
-  }) => {
+  const runAgentHook = async (
+    value: HookAgentPayload,
+    attempt: { number: number; final: boolean },
+  ): Promise<HookDeliveryOutcome> => {
     const sessionKey = value.sessionKey.trim() ? value.sessionKey.trim() : `hook:${randomUUID()}`;
     const mainSessionKey = resolveMainSessionKeyFromConfig();
     const jobId = randomUUID();
@@ -69,39 +71,124 @@ export function createGatewayHooksRequestHandler(params: {
       state: { nextRunAtMs: now },
     };
 
-    const runId = randomUUID();
-    void (async () => {
-      try {
-        const cfg = loadConfig();
-        const result = await runCronIsolatedAgentTurn({
-          cfg,
-          deps,
-          job,
-          message: value.message,
-          sessionKey,
-          lane: "cron",
-        });
-        const summary = result.summary?.trim() || result.error?.trim() || result.status;
-        const prefix =
-          result.status === "ok" ? `Hook ${value.name}` : `Hook ${value.name} (${result.status})`;
-        enqueueSystemEvent(`${prefix}: ${summary}`.trim(), {
+    let error: string;
+    try {
+      const cfg = loadConfig();
+      const result = await runCronIsolatedAgentTurn({
+        cfg,
+        deps,
+        job,
+        message: value.message,
+        sessionKey,
+        lane: "cron",
+      });
+      const summary = result.summary?.trim() || result.error?.trim() || result.status;
+      if (result.status !== "error") {
+        enqueueSystemEvent(`Hook ${value.name}: ${summary}`.trim(), {
           sessionKey: mainSessionKey,
         });
         if (value.wakeMode === "now") {
           requestHeartbeatNow({ reason: `hook:${jobId}` });
         }
-      } catch (err) {
-        logHooks.warn(`hook agent failed: ${String(err)}`);
-        enqueueSystemEvent(`Hook ${value.name} (error): ${String(err)}`, {
-          sessionKey: mainSessionKey,
-        });
-        if (value.wakeMode === "now") {
-          requestHeartbeatNow({ reason: `hook:${jobId}:error` });
-        }
+        return { ok: true, summary };
       }
-    })();
+      error = summary;
+    } catch (err) {
+      logHooks.warn(`hook agent failed: ${String(err)}`);
+      error = String(err);
+    }
+    // Failed attempts that will be retried stay quiet; only the last one reaches the session.
+    if (attempt.final) {
+      enqueueSystemEvent(`Hook ${value.name} (error): ${error}`, {
+        sessionKey: mainSessionKey,
+      });
+      if (value.wakeMode === "now") {
+        requestHeartbeatNow({ reason: `hook:${jobId}:error` });
+      }
+    }
+    return { ok: false, error };
+  };
 
-    return runId;
+  const runWorkflowHook = async (value: {
+    workflow: string;
+    inputs: Record<string, string>;
+    name: string;
+  }): Promise<HookDeliveryOutcome> => {
+    const cfg = loadConfig();
+    const started = await startWorkspaceWorkflow({
+      cfg,
+      agentId: resolveDefaultAgentId(cfg),
+      workflow: value.workflow,
+      inputs: value.inputs,
+      trigger: { kind: "hook", ref: value.name },
+    });
+    if (!started.ok) {
+      logHooks.warn(`hook workflow failed: ${started.error}`);
+      // A missing workflow or bad inputs will not fix themselves on retry.
+      return { ok: false, error: started.error, retryable: false };
+    }
+    return { ok: true, runId: started.run.runId };
+  };
+
+  const executeHookDelivery = async (
+    delivery: HookDelivery,
+    attempt: { number: number; final: boolean },
+  ): Promise<HookDeliveryOutcome> => {
+    const dispatch = delivery.dispatch;
+    if (dispatch.kind === "wake") {
+      runWakeHook(dispatch);
+      return { ok: true };
+    }
+    if (dispatch.kind === "workflow") {
+      return await runWorkflowHook(dispatch);
+    }
+    return await runAgentHook(dispatch, attempt);
+  };
+
+  startHookDeliveryQueue({
+    execute: executeHookDelivery,
+    remap: async (delivery) => {
+      const hooksConfig = getHooksConfig();
+      if (!hooksConfig) {
+        return { ok: false, error: "hooks are not enabled" };
+      }
+      const mapped = await applyHookMappings(hooksConfig.mappings, {
+        payload: (delivery.payload ?? {}) as Record<string, unknown>,
+        headers: delivery.headers,
+        url: new URL(
+          `${hooksConfig.basePath}/${delivery.path}${delivery.query ?? ""}`,
+          `http://${bindHost}:${port}`,
+        ),
+        path: delivery.path,
+      });
+      if (!mapped) {
+        return { ok: false, error: `no mapping matches path ${delivery.path}` };
+      }
+      if (!mapped.ok) {
+        return mapped;
+      }
+      if (mapped.action === null) {
+        return { ok: false, error: "mapping skipped this payload" };
+      }
+      const resolved = resolveHookActionDispatch(mapped.action);
+      return resolved.ok ? { ...resolved, mappingId: mapped.mappingId } : resolved;
+    },
+    getConfig: () => loadConfig().hooks?.deliveries,
+    log: logHooks,
+  });
+
+  const dispatchHook = async (dispatch: HookDispatch, ctx: HookDeliveryContext) => {
+    const { delivery, done } = await enqueueHookDelivery(ctx, dispatch);
+    if (dispatch.kind === "agent") {
+      // Agent runs are long; answer now and let the queue record the outcome.
+      done.catch((err) => logHooks.warn(`hook delivery ${delivery.id} failed: ${String(err)}`));
+      return { ok: true as const, deliveryId: delivery.id, runId: delivery.runId };
+    }
+    const settled = await done;
+    if (settled?.status === "error") {
+      return { ok: false as const, error: settled.lastError ?? "hook failed" };
+    }
+    return { ok: true as const, deliveryId: delivery.id, runId: settled?.runId };
   };
 
   return createHooksRequestHandler({
@@ -109,7 +196,6 @@ export function createGatewayHooksRequestHandler(params: {
     bindHost,
     port,
     logHooks,
-    dispatchAgentHook,
-    dispatchWakeHook,
+    dispatchHook,
   });
 }
@@ -41,6 +41,7 @@ import {
   validateConnectParams,
   validateRequestFrame,
 } from "../../protocol/index.js";
+import { isGatewayRoleToken, verifyGatewayRoleToken } from "../../role-tokens.js";
 import { MAX_BUFFERED_BYTES, MAX_PAYLOAD_BYTES, TICK_INTERVAL_MS } from "../../server-constants.js";
 import { handleGatewayRequest } from "../../server-methods.js";
 import { formatError } from "../../server-utils.js";
@@ -117,6 +118,16 @@ function formatGatewayAuthFailureMessage(params: {
       return "unauthorized: tailscale identity check failed (use Tailscale Serve auth or gateway token/password)";
     case "tailscale_user_mismatch":
       return "unauthorized: tailscale identity mismatch (use Tailscale Serve auth or gateway token/password)";
+    case "role_token_invalid":
+      return "unauthorized: scoped gateway token not recognized (check `openclaw gateway tokens list`)";
+    case "role_token_expired":
+      return "unauthorized: scoped gateway token expired (create a new one with `openclaw gateway tokens create`)";
+    case "role_token_revoked":
+      return "unauthorized: scoped gateway token revoked";
+    case "role_unknown":
+      return "unauthorized: scoped gateway token role is not defined in gateway.roles";
+    case "role_token_node":
+      return "unauthorized: scoped gateway tokens cannot connect as a node";
     default:
       break;
   }
@@ -366,6 +377,26 @@ export function attachGatewayWsMessageHandler(params: {
         connectParams.role = role;
         connectParams.scopes = scopes;
 
+        // Scoped tokens from `openclaw gateway tokens create` work in every auth mode and stand
+        // in for the shared secret; device pairing and the Control UI secure-context guard
+        // still apply, and access is then narrowed by gateway.roles.
+        let roleAccess: GatewayWsClient["access"];
+        let roleTokenFailure: string | undefined;
+        if (isGatewayRoleToken(connectParams.auth?.token)) {
+          const check = verifyGatewayRoleToken(connectParams.auth.token);
+          if (!check.ok) {
+            roleTokenFailure = check.reason;
+          } else if (role !== "operator") {
+            roleTokenFailure = "role_token_node";
+          } else if (!configSnapshot.gateway?.roles?.[check.record.role]) {
+            roleTokenFailure = "role_unknown";
+          } else {
+            roleAccess = { role: check.record.role, tokenId: check.record.id };
+            const roleMethods = configSnapshot.gateway.roles[check.record.role]?.methods ?? [];
+            connectParams.scopes = roleMethods.filter((entry) => entry.startsWith("operator."));
+          }
+        }
+
         const isControlUi = connectParams.client.id === GATEWAY_CLIENT_IDS.CONTROL_UI;
         const isWebchat = isWebchatConnect(connectParams);
         if (isControlUi || isWebchat) {
@@ -416,24 +447,27 @@ export function attachGatewayWsMessageHandler(params: {
           req: upgradeReq,
           trustedProxies,
         });
-        let authOk = authResult.ok;
-        let authMethod =
-          authResult.method ?? (resolvedAuth.mode === "password" ? "password" : "token");
-        const sharedAuthResult = hasSharedAuth
-          ? await authorizeGatewayConnect({
-              auth: { ...resolvedAuth, allowTailscale: false },
-              connectAuth: connectParams.auth,
-              req: upgradeReq,
-              trustedProxies,
-            })
-          : null;
+        let authOk = roleTokenFailure ? false : roleAccess ? true : authResult.ok;
+        let authMethod: NonNullable<typeof authResult.method> = roleAccess
+          ? "role-token"
+          : (authResult.method ?? (resolvedAuth.mode === "password" ? "password" : "token"));
+        const authReason = roleTokenFailure ?? authResult.reason;
+        const sharedAuthResult =
+          hasSharedAuth && !roleAccess && !roleTokenFailure
+            ? await authorizeGatewayConnect({
+                auth: { ...resolvedAuth, allowTailscale: false },
+                connectAuth: connectParams.auth,
+                req: upgradeReq,
+                trustedProxies,
+              })
+            : null;
         const sharedAuthOk =
           sharedAuthResult?.ok === true &&
           (sharedAuthResult.method === "token" || sharedAuthResult.method === "password");
         const rejectUnauthorized = () => {
           setHandshakeState("failed");
           logWsControl.warn(
-            `unauthorized conn=${connId} remote=${remoteAddr ?? "?"} client=${clientLabel} ${connectParams.client.mode} v${connectParams.client.version} reason=${authResult.reason ?? "unknown"}`,
+            `unauthorized conn=${connId} remote=${remoteAddr ?? "?"} client=${clientLabel} ${connectParams.client.mode} v${connectParams.client.version} reason=${authReason ?? "unknown"}`,
           );
           const authProvided: AuthProvidedKind = connectParams.auth?.token
             ? "token"
@@ -443,13 +477,13 @@ export function attachGatewayWsMessageHandler(params: {
           const authMessage = formatGatewayAuthFailureMessage({
             authMode: resolvedAuth.mode,
             authProvided,
-            reason: authResult.reason,
+            reason: authReason,
             client: connectParams.client,
           });
           setCloseCause("unauthorized", {
             authMode: resolvedAuth.mode,
             authProvided,
-            authReason: authResult.reason,
+            authReason,
             allowTailscale: resolvedAuth.allowTailscale,
             client: connectParams.client.id,
             clientDisplayName: connectParams.client.displayName,
@@ -464,6 +498,10 @@ export function attachGatewayWsMessageHandler(params: {
           });
           close(1008, truncateCloseReason(authMessage));
         };
+        if (roleTokenFailure) {
+          rejectUnauthorized();
+          return;
+        }
         if (!device) {
           const canSkipDevice = sharedAuthOk;
 
@@ -883,6 +921,7 @@ export function attachGatewayWsMessageHandler(params: {
           connId,
           presenceKey,
           clientIp: reportedClientIp,
+          access: roleAccess,
         };
         setClient(nextClient);
         setHandshakeState("connected");
@@ -1,5 +1,7 @@
 import type { WebSocket } from "ws";
 import type { ConnectParams } from "../protocol/index.js";
+import type { GatewayRoleAccess } from "../rbac.js";
+import type { GatewayEventSubscription } from "../server-broadcast.js";
 
 export type GatewayWsClient = {
   socket: WebSocket;
@@ -7,4 +9,7 @@ export type GatewayWsClient = {
   connId: string;
   presenceKey?: string;
   clientIp?: string;
+  access?: GatewayRoleAccess;
+  /** Event filters set with `subscribe`; unset means every event the client may see. */
+  subscription?: GatewayEventSubscription;
 };
@@ -32,7 +32,13 @@ import {
 import { getBearerToken, getHeader } from "./http-utils.js";
 
 const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
-const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get"]);
+const MEMORY_TOOL_NAMES = new Set([
+  "memory_search",
+  "memory_get",
+  "memory_fact_set",
+  "memory_fact_query",
+  "memory_fact_expire",
+]);
 
 type ToolsInvokeBody = {
   tool?: unknown;
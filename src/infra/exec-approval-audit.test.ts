@@ -0,0 +1,124 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  EXEC_APPROVAL_AUDIT_GENESIS_HASH,
+  appendExecApprovalAuditEntry,
+  queryExecApprovalAuditLog,
+  readExecApprovalAuditLog,
+  resetExecApprovalAuditCacheForTests,
+  verifyExecApprovalAuditChain,
+} from "./exec-approval-audit.js";
+
+describe("exec approval audit log", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-exec-audit-"));
+    filePath = path.join(dir, "audit", "exec-approvals.jsonl");
+    resetExecApprovalAuditCacheForTests();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function seed() {
+    await appendExecApprovalAuditEntry(
+      { event: "requested", approvalId: "a1", command: "rm -rf build", agentId: "main" },
+      { filePath, nowMs: 1_000 },
+    );
+    await appendExecApprovalAuditEntry(
+      {
+        event: "resolved",
+        approvalId: "a1",
+        decision: "allow-once",
+        approver: "+123",
+        channel: "whatsapp",
+      },
+      { filePath, nowMs: 2_000 },
+    );
+    await appendExecApprovalAuditEntry(
+      { event: "executed", approvalId: "a1", command: "rm -rf build", exitCode: 0 },
+      { filePath, nowMs: 3_000 },
+    );
+  }
+
+  it("chains records from the genesis hash", async () => {
+    await seed();
+    const lines = await readExecApprovalAuditLog(filePath);
+    const records = queryExecApprovalAuditLog(lines);
+
+    expect(records.map((record) => record.seq)).toEqual([1, 2, 3]);
+    expect(records[0]?.prevHash).toBe(EXEC_APPROVAL_AUDIT_GENESIS_HASH);
+    expect(records[1]?.prevHash).toBe(records[0]?.hash);
+    expect(records[2]?.prevHash).toBe(records[1]?.hash);
+    expect(verifyExecApprovalAuditChain(lines)).toEqual({ ok: true, count: 3 });
+  });
+
+  it("detects edited, removed and reordered lines", async () => {
+    await seed();
+    const lines = await readExecApprovalAuditLog(filePath);
+
+    const edited = [...lines];
+    edited[1] = edited[1].replace("allow-once", "allow-always");
+    expect(verifyExecApprovalAuditChain(edited)).toMatchObject({
+      ok: false,
+      line: 2,
+      seq: 2,
+      reason: "hash mismatch",
+    });
+
+    expect(verifyExecApprovalAuditChain([lines[0], lines[2]])).toMatchObject({
+      ok: false,
+      line: 2,
+      reason: "expected seq 2",
+    });
+
+    expect(verifyExecApprovalAuditChain([lines[1], lines[0]])).toMatchObject({
+      ok: false,
+      line: 1,
+    });
+
+    expect(verifyExecApprovalAuditChain([lines[0], "{not json"])).toMatchObject({
+      ok: false,
+      count: 1,
+      line: 2,
+      reason: "unparsable line",
+    });
+  });
+
+  it("continues the chain after another writer appended", async () => {
+    await seed();
+    const lines = await readExecApprovalAuditLog(filePath);
+    // Simulate a restart: the cached tail is gone and must be re-read from disk.
+    resetExecApprovalAuditCacheForTests();
+    const record = await appendExecApprovalAuditEntry(
+      { event: "denied", approvalId: "a2", reason: "user-denied" },
+      { filePath, nowMs: 4_000 },
+    );
+
+    expect(record.seq).toBe(4);
+    expect(record.prevHash).toBe(queryExecApprovalAuditLog(lines).at(-1)?.hash);
+    expect(verifyExecApprovalAuditChain(await readExecApprovalAuditLog(filePath)).ok).toBe(true);
+  });
+
+  it("filters by approval id, event and time", async () => {
+    await seed();
+    await appendExecApprovalAuditEntry(
+      { event: "requested", approvalId: "a2", command: "ls", agentId: "ops" },
+      { filePath, nowMs: 5_000 },
+    );
+    const lines = await readExecApprovalAuditLog(filePath);
+
+    expect(queryExecApprovalAuditLog(lines, { approvalId: "a1" })).toHaveLength(3);
+    expect(
+      queryExecApprovalAuditLog(lines, { event: "requested" }).map((r) => r.approvalId),
+    ).toEqual(["a1", "a2"]);
+    expect(queryExecApprovalAuditLog(lines, { agentId: "ops" })).toHaveLength(1);
+    expect(queryExecApprovalAuditLog(lines, { sinceMs: 2_500 }).map((r) => r.seq)).toEqual([3, 4]);
+    expect(queryExecApprovalAuditLog(lines, { limit: 1 }).map((r) => r.seq)).toEqual([4]);
+  });
+});
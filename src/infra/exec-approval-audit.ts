@@ -0,0 +1,236 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+
+export type ExecApprovalAuditEvent = "requested" | "resolved" | "expired" | "executed" | "denied";
+
+export type ExecApprovalAuditEntry = {
+  event: ExecApprovalAuditEvent;
+  approvalId?: string;
+  command?: string;
+  cwd?: string;
+  host?: string;
+  nodeId?: string;
+  agentId?: string;
+  sessionKey?: string;
+  /** Why the approval was requested (allowlist explanation) or why execution was denied. */
+  reason?: string;
+  decision?: string;
+  /** Authenticated identity of the resolving connection (`device:`, `token:` or `client:` id). */
+  approver?: string;
+  /** Gateway client id of the resolving connection. */
+  channel?: string;
+  /** Approver named in the resolve params (chat sender, Discord user). Client-supplied, untrusted. */
+  claimedApprover?: string;
+  /** Channel named in the resolve params. Client-supplied, untrusted. */
+  claimedChannel?: string;
+  exitCode?: number;
+  timedOut?: boolean;
+};
+
+export type ExecApprovalAuditRecord = ExecApprovalAuditEntry & {
+  seq: number;
+  ts: number;
+  prevHash: string;
+  hash: string;
+};
+
+export type ExecApprovalAuditQuery = {
+  approvalId?: string;
+  event?: ExecApprovalAuditEvent;
+  agentId?: string;
+  sinceMs?: number;
+  limit?: number;
+};
+
+export type ExecApprovalAuditVerification =
+  | { ok: true; count: number }
+  | { ok: false; count: number; line: number; seq?: number; reason: string };
+
+export const EXEC_APPROVAL_AUDIT_GENESIS_HASH = "0".repeat(64);
+
+const DEFAULT_AUDIT_QUERY_LIMIT = 200;
+
+export function resolveExecApprovalAuditPath(baseDir?: string): string {
+  return path.join(baseDir ?? resolveStateDir(), "audit", "exec-approvals.jsonl");
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).toSorted()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) {
+        sorted[key] = canonicalize(entry);
+      }
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/** Hash covers the previous hash plus every other field, serialized with sorted keys. */
+export function computeExecApprovalAuditHash(
+  record: Omit<ExecApprovalAuditRecord, "hash">,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${record.prevHash}\n${JSON.stringify(canonicalize(record))}`)
+    .digest("hex");
+}
+
+type AuditTail = { size: number; seq: number; hash: string };
+
+const tailsByPath = new Map<string, AuditTail>();
+const writesByPath = new Map<string, Promise<unknown>>();
+
+function splitLines(raw: string): string[] {
+  return raw.split("\n").filter((line) => line.trim().length > 0);
+}
+
+async function readTail(filePath: string): Promise<AuditTail> {
+  const raw = await fs.readFile(filePath, "utf-8").catch(() => "");
+  const last = splitLines(raw).at(-1);
+  if (!last) {
+    return { size: Buffer.byteLength(raw), seq: 0, hash: EXEC_APPROVAL_AUDIT_GENESIS_HASH };
+  }
+  let parsed: Partial<ExecApprovalAuditRecord>;
+  try {
+    parsed = JSON.parse(last) as Partial<ExecApprovalAuditRecord>;
+  } catch {
+    throw new Error(`exec approval audit log is corrupt (unparsable last line): ${filePath}`);
+  }
+  if (typeof parsed.seq !== "number" || typeof parsed.hash !== "string") {
+    throw new Error(`exec approval audit log is corrupt (missing seq/hash): ${filePath}`);
+  }
+  return { size: Buffer.byteLength(raw), seq: parsed.seq, hash: parsed.hash };
+}
+
+/**
+ * Append one entry to the hash-chained audit log. Appends are serialized per file; the cached
+ * tail is re-read whenever the file size changed underneath us (another process appended).
+ */
+export async function appendExecApprovalAuditEntry(
+  entry: ExecApprovalAuditEntry,
+  opts?: { filePath?: string; nowMs?: number },
+): Promise<ExecApprovalAuditRecord> {
+  const filePath = path.resolve(opts?.filePath ?? resolveExecApprovalAuditPath());
+  const prev = writesByPath.get(filePath) ?? Promise.resolve();
+  const next = prev
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const stat = await fs.stat(filePath).catch(() => null);
+      const cached = tailsByPath.get(filePath);
+      const tail = cached && cached.size === (stat?.size ?? 0) ? cached : await readTail(filePath);
+      const unsigned: Omit<ExecApprovalAuditRecord, "hash"> = {
+        ...(canonicalize(entry) as ExecApprovalAuditEntry),
+        seq: tail.seq + 1,
+        ts: opts?.nowMs ?? Date.now(),
+        prevHash: tail.hash,
+      };
+      const record: ExecApprovalAuditRecord = {
+        ...unsigned,
+        hash: computeExecApprovalAuditHash(unsigned),
+      };
+      const line = `${JSON.stringify(record)}\n`;
+      await fs.appendFile(filePath, line, { encoding: "utf-8", mode: 0o600 });
+      tailsByPath.set(filePath, {
+        size: tail.size + Buffer.byteLength(line),
+        seq: record.seq,
+        hash: record.hash,
+      });
+      return record;
+    });
+  writesByPath.set(filePath, next);
+  return await next;
+}
+
+/** Fire-and-forget append for call sites that must not fail because auditing did. */
+export function recordExecApprovalAudit(
+  entry: ExecApprovalAuditEntry,
+  onError?: (err: unknown) => void,
+): void {
+  void appendExecApprovalAuditEntry(entry).catch((err) => onError?.(err));
+}
+
+export async function readExecApprovalAuditLog(filePath?: string): Promise<string[]> {
+  const raw = await fs
+    .readFile(path.resolve(filePath ?? resolveExecApprovalAuditPath()), "utf-8")
+    .catch(() => "");
+  return splitLines(raw);
+}
+
+function parseRecord(line: string): ExecApprovalAuditRecord | null {
+  try {
+    const parsed = JSON.parse(line) as ExecApprovalAuditRecord;
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Walk the chain from the genesis hash; reports the first line that breaks it. */
+export function verifyExecApprovalAuditChain(lines: string[]): ExecApprovalAuditVerification {
+  let prevHash = EXEC_APPROVAL_AUDIT_GENESIS_HASH;
+  let prevSeq = 0;
+  for (const [index, line] of lines.entries()) {
+    const lineNo = index + 1;
+    const record = parseRecord(line);
+    if (!record) {
+      return { ok: false, count: index, line: lineNo, reason: "unparsable line" };
+    }
+    const { hash, ...unsigned } = record;
+    if (record.seq !== prevSeq + 1) {
+      return {
+        ok: false,
+        count: index,
+        line: lineNo,
+        seq: record.seq,
+        reason: `expected seq ${prevSeq + 1}`,
+      };
+    }
+    if (record.prevHash !== prevHash) {
+      return {
+        ok: false,
+        count: index,
+        line: lineNo,
+        seq: record.seq,
+        reason: "prevHash does not match previous record",
+      };
+    }
+    if (hash !== computeExecApprovalAuditHash(unsigned)) {
+      return { ok: false, count: index, line: lineNo, seq: record.seq, reason: "hash mismatch" };
+    }
+    prevHash = hash;
+    prevSeq = record.seq;
+  }
+  return { ok: true, count: lines.length };
+}
+
+/** Newest-last slice of records matching the filters (unparsable lines are skipped). */
+export function queryExecApprovalAuditLog(
+  lines: string[],
+  query: ExecApprovalAuditQuery = {},
+): ExecApprovalAuditRecord[] {
+  const approvalId = query.approvalId?.trim();
+  const agentId = query.agentId?.trim();
+  const matches = lines
+    .map(parseRecord)
+    .filter((record): record is ExecApprovalAuditRecord => record !== null)
+    .filter((record) => !approvalId || record.approvalId === approvalId)
+    .filter((record) => !agentId || record.agentId === agentId)
+    .filter((record) => !query.event || record.event === query.event)
+    .filter((record) => query.sinceMs === undefined || record.ts >= query.sinceMs);
+  const limit = Math.max(1, query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT);
+  return matches.slice(-limit);
+}
+
+export function resetExecApprovalAuditCacheForTests() {
+  tailsByPath.clear();
+  writesByPath.clear();
+}
@@ -25,6 +25,7 @@ export type ExecApprovalRequest = {
     agentId?: string | null;
     resolvedPath?: string | null;
     sessionKey?: string | null;
+    reason?: string | null;
   };
   createdAtMs: number;
   expiresAtMs: number;
@@ -151,9 +152,13 @@ function buildRequestMessage(request: ExecApprovalRequest, nowMs: number) {
   if (request.request.ask) {
     lines.push(`Ask: ${request.request.ask}`);
   }
+  if (request.request.reason) {
+    lines.push("Why:");
+    lines.push(request.request.reason);
+  }
   const expiresIn = Math.max(0, Math.round((request.expiresAtMs - nowMs) / 1000));
   lines.push(`Expires in: ${expiresIn}s`);
-  lines.push("Reply with: /approve <id> allow-once|allow-always|deny");
+  lines.push("Reply with: /approve <id> allow-once|allow-session|allow-always|deny");
   return lines.join("\n");
 }
 
@@ -161,6 +166,9 @@ function decisionLabel(decision: ExecApprovalDecision): string {
   if (decision === "allow-once") {
     return "allowed once";
   }
+  if (decision === "allow-session") {
+    return "allowed for this session";
+  }
   if (decision === "allow-always") {
     return "allowed always";
   }
@@ -3,10 +3,13 @@ import os from "node:os";
 import path from "node:path";
 import { describe, expect, it, vi } from "vitest";
 import {
+  addApprovalGrants,
   analyzeArgvCommand,
   analyzeShellCommand,
   evaluateExecAllowlist,
   evaluateShellAllowlist,
+  formatExecAllowlistExplanation,
+  isAllowlistEntryActive,
   isSafeBinUsage,
   matchAllowlist,
   maxAsk,
@@ -19,6 +22,7 @@ import {
   resolveExecApprovalsFromFile,
   type ExecAllowlistEntry,
   type ExecApprovalsFile,
+  type ExecCommandSegment,
 } from "./exec-approvals.js";
 
 function makePathEnv(binDir: string): NodeJS.ProcessEnv {
@@ -212,6 +216,19 @@ describe("exec approvals shell allowlist (chained commands)", () => {
     expect(result.allowlistSatisfied).toBe(false);
   });
 
+  it("reports deny entries on parts after the first miss", () => {
+    const allowlist: ExecAllowlistEntry[] = [{ pattern: "/usr/bin/rm", action: "deny" }];
+    const result = evaluateShellAllowlist({
+      command: "/usr/bin/unknowncmd; /usr/bin/rm -rf x",
+      allowlist,
+      safeBins: new Set(),
+      cwd: "/tmp",
+    });
+    expect(result.analysisOk).toBe(true);
+    expect(result.allowlistSatisfied).toBe(false);
+    expect(result.denied?.command).toBe("/usr/bin/rm -rf x");
+  });
+
   it("returns analysisOk=false for malformed chains", () => {
     const allowlist: ExecAllowlistEntry[] = [{ pattern: "/usr/bin/echo" }];
     const result = evaluateShellAllowlist({
@@ -393,6 +410,207 @@ describe("exec approvals allowlist evaluation", () => {
   });
 });
 
+describe("exec approvals argument rules and grants", () => {
+  const segment = (argv: string[], resolvedPath: string): ExecCommandSegment => ({
+    raw: argv.join(" "),
+    argv,
+    resolution: {
+      rawExecutable: argv[0] ?? "",
+      resolvedPath,
+      executableName: path.basename(resolvedPath),
+    },
+  });
+  const evaluate = (
+    segments: ExecCommandSegment[],
+    allowlist: ExecAllowlistEntry[],
+    extra: { sessionKey?: string; nowMs?: number } = {},
+  ) =>
+    evaluateExecAllowlist({
+      analysis: { ok: true, segments },
+      allowlist,
+      safeBins: new Set(),
+      cwd: "/work/repo",
+      workspaceDir: "/work",
+      ...extra,
+    });
+
+  it("constrains entries by argument globs", () => {
+    const allowlist: ExecAllowlistEntry[] = [
+      { pattern: "/usr/bin/git", args: ["status*", "diff*", "log*"] },
+    ];
+    expect(
+      evaluate([segment(["git", "log", "--oneline"], "/usr/bin/git")], allowlist)
+        .allowlistSatisfied,
+    ).toBe(true);
+    const push = evaluate([segment(["git", "push", "origin"], "/usr/bin/git")], allowlist);
+    expect(push.allowlistSatisfied).toBe(false);
+    expect(push.denied).toBeUndefined();
+    expect(formatExecAllowlistExplanation(push.explanations)).toBe(
+      'git push origin: arguments "push origin" not allowed (/usr/bin/git, args status* | diff* | log*)',
+    );
+  });
+
+  it("matches bare invocations only for empty args", () => {
+    const allowlist: ExecAllowlistEntry[] = [{ pattern: "/usr/bin/uptime", args: [] }];
+    expect(evaluate([segment(["uptime"], "/usr/bin/uptime")], allowlist).allowlistSatisfied).toBe(
+      true,
+    );
+    expect(
+      evaluate([segment(["uptime", "-p"], "/usr/bin/uptime")], allowlist).allowlistSatisfied,
+    ).toBe(false);
+  });
+
+  it("denies paths outside the workspace even when another entry allows the binary", () => {
+    const allowlist: ExecAllowlistEntry[] = [
+      { pattern: "/bin/rm" },
+      { pattern: "/bin/rm", action: "deny", paths: "outside-workspace" },
+    ];
+    expect(
+      evaluate([segment(["rm", "-rf", "./build"], "/bin/rm")], allowlist).allowlistSatisfied,
+    ).toBe(true);
+    expect(
+      evaluate([segment(["rm", "../notes.txt"], "/bin/rm")], allowlist).allowlistSatisfied,
+    ).toBe(true);
+    const outside = evaluate([segment(["rm", "-rf", "/etc/passwd"], "/bin/rm")], allowlist);
+    expect(outside.allowlistSatisfied).toBe(false);
+    expect(outside.denied?.reason).toBe("denied by /bin/rm, paths outside workspace");
+  });
+
+  it("treats every operand as a path, including dot-dot segments and flag values", () => {
+    const allowlist: ExecAllowlistEntry[] = [
+      { pattern: "/bin/rm" },
+      { pattern: "/bin/rm", action: "deny", paths: "outside-workspace" },
+    ];
+    const check = (argv: string[], cwd = "/work") =>
+      evaluateExecAllowlist({
+        analysis: { ok: true, segments: [segment(argv, "/bin/rm")] },
+        allowlist,
+        safeBins: new Set(),
+        cwd,
+        workspaceDir: "/work",
+      });
+    expect(check(["rm", "-rf", "sub/../../../etc/x"]).denied?.reason).toBe(
+      "denied by /bin/rm, paths outside workspace",
+    );
+    expect(check(["rm", "-rf", "a/../.."]).denied).toBeDefined();
+    expect(check(["rm", "-rf", ".."]).denied).toBeDefined();
+    expect(check(["rm", "-rf", ".."], "/work/repo").allowlistSatisfied).toBe(true);
+    expect(check(["rm", "--files-from=../list"]).denied).toBeDefined();
+    expect(check(["rm", "--", "-x/../.."]).denied).toBeDefined();
+    expect(check(["rm", "-rf", "sub/dir"]).allowlistSatisfied).toBe(true);
+  });
+
+  it("resolves symlinked directories before checking the workspace", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-exec-paths-"));
+    try {
+      const workspace = path.join(root, "workspace");
+      const outside = path.join(root, "outside");
+      fs.mkdirSync(workspace);
+      fs.mkdirSync(outside);
+      fs.symlinkSync(outside, path.join(workspace, "link"));
+      const allowlist: ExecAllowlistEntry[] = [
+        { pattern: "/bin/rm" },
+        { pattern: "/bin/rm", action: "deny", paths: "outside-workspace" },
+      ];
+      const check = (argv: string[]) =>
+        evaluateExecAllowlist({
+          analysis: { ok: true, segments: [segment(argv, "/bin/rm")] },
+          allowlist,
+          safeBins: new Set(),
+          cwd: workspace,
+          workspaceDir: workspace,
+        });
+      expect(check(["rm", "link/secret.txt"]).denied).toBeDefined();
+      expect(check(["rm", "notes.txt"]).denied).toBeUndefined();
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("fails closed for path entries without a workspace root", () => {
+    const check = (allowlist: ExecAllowlistEntry[]) =>
+      evaluateExecAllowlist({
+        analysis: { ok: true, segments: [segment(["rm", "notes.txt"], "/bin/rm")] },
+        allowlist,
+        safeBins: new Set(),
+        cwd: "/",
+      });
+    const allowed = check([{ pattern: "/bin/rm", paths: "workspace" }]);
+    expect(allowed.allowlistSatisfied).toBe(false);
+    expect(allowed.explanations[0]?.reason).toBe(
+      "no workspace root to check paths against (/bin/rm, paths in workspace)",
+    );
+    expect(
+      check([
+        { pattern: "/bin/rm" },
+        { pattern: "/bin/rm", action: "deny", paths: "outside-workspace" },
+      ]).denied,
+    ).toBeDefined();
+  });
+
+  it("explains workspace-only entries", () => {
+    const allowlist: ExecAllowlistEntry[] = [{ pattern: "/bin/cp", paths: "workspace" }];
+    const result = evaluate([segment(["cp", "a.txt", "~/b.txt"], "/bin/cp")], allowlist);
+    expect(result.allowlistSatisfied).toBe(false);
+    expect(result.explanations[0]?.reason).toBe(
+      "~/b.txt is outside the workspace (/bin/cp, paths in workspace)",
+    );
+  });
+
+  it("ignores expired grants and grants for other sessions", () => {
+    const entry: ExecAllowlistEntry = {
+      pattern: "/usr/bin/make",
+      sessionKey: "agent:main:main",
+      expiresAt: 2_000,
+    };
+    expect(isAllowlistEntryActive(entry, { sessionKey: "agent:main:main", nowMs: 1_000 })).toBe(
+      true,
+    );
+    expect(isAllowlistEntryActive(entry, { sessionKey: "agent:main:main", nowMs: 2_000 })).toBe(
+      false,
+    );
+    expect(isAllowlistEntryActive(entry, { sessionKey: "agent:main:other", nowMs: 1_000 })).toBe(
+      false,
+    );
+    expect(
+      evaluate([segment(["make"], "/usr/bin/make")], [entry], {
+        sessionKey: "agent:main:main",
+        nowMs: 1_000,
+      }).allowlistSatisfied,
+    ).toBe(true);
+  });
+
+  it("records session grants from allow-session decisions", () => {
+    const dir = makeTempDir();
+    vi.spyOn(os, "homedir").mockReturnValue(dir);
+    try {
+      const approvals: ExecApprovalsFile = { version: 1, agents: {} };
+      const segments = [segment(["make", "test"], "/usr/bin/make")];
+      addApprovalGrants({
+        approvals,
+        agentId: "main",
+        decision: "allow-session",
+        segments,
+        sessionKey: "agent:main:main",
+      });
+      const entries = approvals.agents?.main?.allowlist ?? [];
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ pattern: "/usr/bin/make", sessionKey: "agent:main:main" });
+      expect(entries[0]?.expiresAt).toBeGreaterThan(Date.now());
+
+      addApprovalGrants({ approvals, agentId: "main", decision: "allow-once", segments });
+      addApprovalGrants({ approvals, agentId: "main", decision: "allow-session", segments });
+      expect(approvals.agents?.main?.allowlist).toHaveLength(1);
+
+      addApprovalGrants({ approvals, agentId: "main", decision: "allow-always", segments });
+      expect(approvals.agents?.main?.allowlist).toHaveLength(2);
+    } finally {
+      vi.restoreAllMocks();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe("exec approvals policy helpers", () => {
   it("minSecurity returns the more restrictive value", () => {
     expect(minSecurity("deny", "full")).toBe("deny");
@@ -16,9 +16,25 @@ export type ExecApprovalsDefaults = {
   autoAllowSkills?: boolean;
 };
 
+export type ExecAllowlistAction = "allow" | "deny";
+export type ExecAllowlistPathScope = "workspace" | "outside-workspace";
+
 export type ExecAllowlistEntry = {
   id?: string;
   pattern: string;
+  /** "deny" entries veto matching commands even when another entry allows them. Default: "allow". */
+  action?: ExecAllowlistAction;
+  /**
+   * Argument globs (`*` matches anything, including spaces and slashes) checked against the
+   * command's arguments joined with single spaces; one match is enough. `[]` = no arguments.
+   */
+  args?: string[];
+  /** Only apply when every path argument is inside (or any is outside) the workspace. */
+  paths?: ExecAllowlistPathScope;
+  /** Epoch ms after which the entry is ignored (time-boxed grants). */
+  expiresAt?: number;
+  /** Limit the entry to one session ("allow for this session"). */
+  sessionKey?: string;
   lastUsedAt?: number;
   lastUsedCommand?: string;
   lastResolvedPath?: string;
@@ -63,6 +79,8 @@ const DEFAULT_AUTO_ALLOW_SKILLS = false;
 const DEFAULT_SOCKET = "~/.openclaw/exec-approvals.sock";
 const DEFAULT_FILE = "~/.openclaw/exec-approvals.json";
 export const DEFAULT_SAFE_BINS = ["jq", "grep", "cut", "sort", "uniq", "head", "tail", "tr", "wc"];
+/** Lifetime of "allow for this session" grants created from the approval prompt. */
+export const DEFAULT_SESSION_GRANT_TTL_MS = 24 * 60 * 60 * 1000;
 
 function hashExecApprovalsRaw(raw: string | null): string {
   return crypto
@@ -579,6 +597,18 @@ function resolveAllowlistCandidatePath(
   return path.resolve(base, expanded);
 }
 
+function matchesEntryPattern(entry: ExecAllowlistEntry, resolvedPath: string): boolean {
+  const pattern = entry.pattern?.trim();
+  if (!pattern) {
+    return false;
+  }
+  const hasPath = pattern.includes("/") || pattern.includes("\\") || pattern.includes("~");
+  if (!hasPath) {
+    return false;
+  }
+  return matchesPattern(pattern, resolvedPath);
+}
+
 export function matchAllowlist(
   entries: ExecAllowlistEntry[],
   resolution: CommandResolution | null,
@@ -588,16 +618,149 @@ export function matchAllowlist(
   }
   const resolvedPath = resolution.resolvedPath;
   for (const entry of entries) {
-    const pattern = entry.pattern?.trim();
-    if (!pattern) {
-      continue;
+    if (entry.action !== "deny" && matchesEntryPattern(entry, resolvedPath)) {
+      return entry;
     }
-    const hasPath = pattern.includes("/") || pattern.includes("\\") || pattern.includes("~");
-    if (!hasPath) {
+  }
+  return null;
+}
+
+export type ExecAllowlistMatchContext = {
+  cwd?: string;
+  /**
+   * Agent workspace root for `paths` constraints. Never the request cwd: the model
+   * controls that. Without a root, `paths` entries fail closed.
+   */
+  workspaceDir?: string;
+  sessionKey?: string;
+  nowMs?: number;
+};
+
+/** Whether an entry is live for this request (not expired, not scoped to another session). */
+export function isAllowlistEntryActive(
+  entry: ExecAllowlistEntry,
+  ctx: Pick<ExecAllowlistMatchContext, "sessionKey" | "nowMs"> = {},
+): boolean {
+  if (typeof entry.expiresAt === "number" && entry.expiresAt <= (ctx.nowMs ?? Date.now())) {
+    return false;
+  }
+  const grantSession = entry.sessionKey?.trim();
+  return !grantSession || grantSession === ctx.sessionKey?.trim();
+}
+
+function argGlobToRegExp(pattern: string): RegExp {
+  let regex = "^";
+  for (const ch of pattern.trim()) {
+    if (ch === "*") {
+      regex += ".*";
+    } else if (ch === "?") {
+      regex += ".";
+    } else {
+      regex += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`${regex}$`);
+}
+
+/**
+ * Every operand may name a file (`sub/../../x`, `..`), so all non-flag arguments count,
+ * plus the values of `--opt=value` flags. Everything after `--` is an operand.
+ */
+function collectPathArguments(argv: string[]): string[] {
+  const paths: string[] = [];
+  let operandsOnly = false;
+  for (const token of argv.slice(1)) {
+    if (!operandsOnly && token === "--") {
+      operandsOnly = true;
       continue;
     }
-    if (matchesPattern(pattern, resolvedPath)) {
-      return entry;
+    let value = token;
+    if (!operandsOnly && token.startsWith("-")) {
+      const eqIndex = token.indexOf("=");
+      if (eqIndex < 0) {
+        continue;
+      }
+      value = token.slice(eqIndex + 1);
+    }
+    if (value.trim() && value !== "-") {
+      paths.push(value);
+    }
+  }
+  return paths;
+}
+
+/** Resolve symlinks in the longest existing prefix so links cannot hide where a path points. */
+function resolveRealPath(target: string): string {
+  let existing = target;
+  const rest: string[] = [];
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      return target;
+    }
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+  try {
+    return path.join(fs.realpathSync(existing), ...rest);
+  } catch {
+    return target;
+  }
+}
+
+function isInsideDir(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function describeEntry(entry: ExecAllowlistEntry): string {
+  const parts = [entry.pattern];
+  if (entry.args) {
+    parts.push(entry.args.length > 0 ? `args ${entry.args.join(" | ")}` : "no args");
+  }
+  if (entry.paths) {
+    parts.push(entry.paths === "workspace" ? "paths in workspace" : "paths outside workspace");
+  }
+  if (entry.sessionKey) {
+    parts.push("this session");
+  }
+  return parts.join(", ");
+}
+
+/** Returns why the entry's argument/path constraints reject the segment, or null when they hold. */
+function checkEntryConstraints(
+  entry: ExecAllowlistEntry,
+  segment: ExecCommandSegment,
+  ctx: ExecAllowlistMatchContext,
+): string | null {
+  if (Array.isArray(entry.args)) {
+    const argsText = segment.argv.slice(1).join(" ");
+    const ok =
+      entry.args.length === 0
+        ? argsText.length === 0
+        : entry.args.some((pattern) => argGlobToRegExp(pattern).test(argsText));
+    if (!ok) {
+      return `arguments "${argsText}" not allowed`;
+    }
+  }
+  if (entry.paths) {
+    const cwd = ctx.cwd?.trim() || process.cwd();
+    const workspaceDir = ctx.workspaceDir?.trim();
+    const paths = collectPathArguments(segment.argv);
+    if (!workspaceDir && paths.length > 0) {
+      // Fail closed: allow entries stop matching, deny entries apply.
+      return entry.action === "deny" ? null : "no workspace root to check paths against";
+    }
+    const root = resolveRealPath(path.resolve(workspaceDir ?? cwd));
+    const outside = paths.find((value) => {
+      const expanded = value.startsWith("~") ? expandHome(value) : value;
+      return !isInsideDir(root, resolveRealPath(path.resolve(cwd, expanded)));
+    });
+    if (entry.paths === "workspace" && outside) {
+      return `${outside} is outside the workspace`;
+    }
+    if (entry.paths === "outside-workspace" && !outside) {
+      return "all paths are inside the workspace";
     }
   }
   return null;
@@ -1110,90 +1273,151 @@ export function isSafeBinUsage(params: {
   return true;
 }
 
+export type ExecAllowlistSegmentExplanation = {
+  command: string;
+  decision: "allow" | "deny" | "miss";
+  entry?: ExecAllowlistEntry;
+  reason: string;
+};
+
 export type ExecAllowlistEvaluation = {
   allowlistSatisfied: boolean;
   allowlistMatches: ExecAllowlistEntry[];
+  /** Per-segment decisions, in command order. */
+  explanations: ExecAllowlistSegmentExplanation[];
+  /** Set when a deny entry matched; the command must not run even if approved. */
+  denied?: ExecAllowlistSegmentExplanation;
 };
 
-function evaluateSegments(
-  segments: ExecCommandSegment[],
-  params: {
-    allowlist: ExecAllowlistEntry[];
-    safeBins: Set<string>;
-    cwd?: string;
-    skillBins?: Set<string>;
-    autoAllowSkills?: boolean;
-  },
-): { satisfied: boolean; matches: ExecAllowlistEntry[] } {
-  const matches: ExecAllowlistEntry[] = [];
-  const allowSkills = params.autoAllowSkills === true && (params.skillBins?.size ?? 0) > 0;
-
-  const satisfied = segments.every((segment) => {
-    const candidatePath = resolveAllowlistCandidatePath(segment.resolution, params.cwd);
-    const candidateResolution =
-      candidatePath && segment.resolution
-        ? { ...segment.resolution, resolvedPath: candidatePath }
-        : segment.resolution;
-    const match = matchAllowlist(params.allowlist, candidateResolution);
-    if (match) {
-      matches.push(match);
-    }
-    const safe = isSafeBinUsage({
+type ExecAllowlistEvaluationParams = ExecAllowlistMatchContext & {
+  allowlist: ExecAllowlistEntry[];
+  safeBins: Set<string>;
+  skillBins?: Set<string>;
+  autoAllowSkills?: boolean;
+};
+
+function explainSegment(
+  segment: ExecCommandSegment,
+  params: ExecAllowlistEvaluationParams,
+): ExecAllowlistSegmentExplanation {
+  const command = segment.raw.trim() || segment.argv.join(" ");
+  const candidatePath = resolveAllowlistCandidatePath(segment.resolution, params.cwd);
+  const entries = candidatePath
+    ? params.allowlist.filter(
+        (entry) =>
+          isAllowlistEntryActive(entry, params) && matchesEntryPattern(entry, candidatePath),
+      )
+    : [];
+  for (const entry of entries) {
+    if (entry.action === "deny" && !checkEntryConstraints(entry, segment, params)) {
+      return { command, decision: "deny", entry, reason: `denied by ${describeEntry(entry)}` };
+    }
+  }
+  let rejected: string | null = null;
+  for (const entry of entries) {
+    if (entry.action === "deny") {
+      continue;
+    }
+    const failure = checkEntryConstraints(entry, segment, params);
+    if (!failure) {
+      return { command, decision: "allow", entry, reason: `allowed by ${describeEntry(entry)}` };
+    }
+    rejected = rejected ?? `${failure} (${describeEntry(entry)})`;
+  }
+  if (
+    isSafeBinUsage({
       argv: segment.argv,
       resolution: segment.resolution,
       safeBins: params.safeBins,
       cwd: params.cwd,
-    });
-    const skillAllow =
-      allowSkills && segment.resolution?.executableName
-        ? params.skillBins?.has(segment.resolution.executableName)
-        : false;
-    return Boolean(match || safe || skillAllow);
-  });
+    })
+  ) {
+    return { command, decision: "allow", reason: "safe bin" };
+  }
+  const executableName = segment.resolution?.executableName;
+  if (
+    params.autoAllowSkills === true &&
+    executableName &&
+    (params.skillBins?.has(executableName) ?? false)
+  ) {
+    return { command, decision: "allow", reason: "skill bin" };
+  }
+  return {
+    command,
+    decision: "miss",
+    reason: rejected ?? `no allowlist entry for ${candidatePath ?? executableName ?? "command"}`,
+  };
+}
 
-  return { satisfied, matches };
+function evaluateSegments(
+  segments: ExecCommandSegment[],
+  params: ExecAllowlistEvaluationParams,
+): {
+  satisfied: boolean;
+  matches: ExecAllowlistEntry[];
+  explanations: ExecAllowlistSegmentExplanation[];
+  denied?: ExecAllowlistSegmentExplanation;
+} {
+  const matches: ExecAllowlistEntry[] = [];
+  const explanations = segments.map((segment) => explainSegment(segment, params));
+  for (const explanation of explanations) {
+    if (explanation.decision === "allow" && explanation.entry) {
+      matches.push(explanation.entry);
+    }
+  }
+  return {
+    satisfied: explanations.every((explanation) => explanation.decision === "allow"),
+    matches,
+    explanations,
+    denied: explanations.find((explanation) => explanation.decision === "deny"),
+  };
 }
 
-export function evaluateExecAllowlist(params: {
-  analysis: ExecCommandAnalysis;
-  allowlist: ExecAllowlistEntry[];
-  safeBins: Set<string>;
-  cwd?: string;
-  skillBins?: Set<string>;
-  autoAllowSkills?: boolean;
-}): ExecAllowlistEvaluation {
+/** One line per segment that was not allowed, for approval prompts and denial messages. */
+export function formatExecAllowlistExplanation(
+  explanations: ExecAllowlistSegmentExplanation[],
+): string | undefined {
+  const lines = explanations
+    .filter((explanation) => explanation.decision !== "allow")
+    .map((explanation) => `${explanation.command}: ${explanation.reason}`);
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+export function evaluateExecAllowlist(
+  params: ExecAllowlistEvaluationParams & { analysis: ExecCommandAnalysis },
+): ExecAllowlistEvaluation {
+  const { analysis, ...evalParams } = params;
   const allowlistMatches: ExecAllowlistEntry[] = [];
-  if (!params.analysis.ok || params.analysis.segments.length === 0) {
-    return { allowlistSatisfied: false, allowlistMatches };
-  }
-
-  // If the analysis contains chains, evaluate each chain part separately
-  if (params.analysis.chains) {
-    for (const chainSegments of params.analysis.chains) {
-      const result = evaluateSegments(chainSegments, {
-        allowlist: params.allowlist,
-        safeBins: params.safeBins,
-        cwd: params.cwd,
-        skillBins: params.skillBins,
-        autoAllowSkills: params.autoAllowSkills,
-      });
-      if (!result.satisfied) {
-        return { allowlistSatisfied: false, allowlistMatches: [] };
-      }
+  if (!analysis.ok || analysis.segments.length === 0) {
+    return { allowlistSatisfied: false, allowlistMatches, explanations: [] };
+  }
+
+  // If the analysis contains chains, evaluate each chain part separately. Every part is
+  // checked, so a deny entry on a later part still vetoes the whole command.
+  if (analysis.chains) {
+    const explanations: ExecAllowlistSegmentExplanation[] = [];
+    let satisfied = true;
+    let denied: ExecAllowlistSegmentExplanation | undefined;
+    for (const chainSegments of analysis.chains) {
+      const result = evaluateSegments(chainSegments, evalParams);
+      explanations.push(...result.explanations);
+      satisfied = satisfied && result.satisfied;
+      denied = denied ?? result.denied;
       allowlistMatches.push(...result.matches);
     }
-    return { allowlistSatisfied: true, allowlistMatches };
+    return satisfied
+      ? { allowlistSatisfied: true, allowlistMatches, explanations }
+      : { allowlistSatisfied: false, allowlistMatches: [], explanations, denied };
   }
 
   // No chains, evaluate all segments together
-  const result = evaluateSegments(params.analysis.segments, {
-    allowlist: params.allowlist,
-    safeBins: params.safeBins,
-    cwd: params.cwd,
-    skillBins: params.skillBins,
-    autoAllowSkills: params.autoAllowSkills,
-  });
-  return { allowlistSatisfied: result.satisfied, allowlistMatches: result.matches };
+  const result = evaluateSegments(analysis.segments, evalParams);
+  return {
+    allowlistSatisfied: result.satisfied,
+    allowlistMatches: result.matches,
+    explanations: result.explanations,
+    denied: result.denied,
+  };
 }
 
 /**
@@ -1306,97 +1530,78 @@ export type ExecAllowlistAnalysis = {
   allowlistSatisfied: boolean;
   allowlistMatches: ExecAllowlistEntry[];
   segments: ExecCommandSegment[];
+  explanations: ExecAllowlistSegmentExplanation[];
+  denied?: ExecAllowlistSegmentExplanation;
 };
 
 /**
  * Evaluates allowlist for shell commands (including &&, ||, ;) and returns analysis metadata.
  */
-export function evaluateShellAllowlist(params: {
-  command: string;
-  allowlist: ExecAllowlistEntry[];
-  safeBins: Set<string>;
-  cwd?: string;
-  env?: NodeJS.ProcessEnv;
-  skillBins?: Set<string>;
-  autoAllowSkills?: boolean;
-  platform?: string | null;
-}): ExecAllowlistAnalysis {
-  const chainParts = isWindowsPlatform(params.platform) ? null : splitCommandChain(params.command);
+export function evaluateShellAllowlist(
+  params: ExecAllowlistEvaluationParams & {
+    command: string;
+    env?: NodeJS.ProcessEnv;
+    platform?: string | null;
+  },
+): ExecAllowlistAnalysis {
+  const { command, env, platform, ...evalParams } = params;
+  const chainParts = isWindowsPlatform(platform) ? null : splitCommandChain(command);
   if (!chainParts) {
-    const analysis = analyzeShellCommand({
-      command: params.command,
-      cwd: params.cwd,
-      env: params.env,
-      platform: params.platform,
-    });
+    const analysis = analyzeShellCommand({ command, cwd: params.cwd, env, platform });
     if (!analysis.ok) {
       return {
         analysisOk: false,
         allowlistSatisfied: false,
         allowlistMatches: [],
         segments: [],
+        explanations: [],
       };
     }
-    const evaluation = evaluateExecAllowlist({
-      analysis,
-      allowlist: params.allowlist,
-      safeBins: params.safeBins,
-      cwd: params.cwd,
-      skillBins: params.skillBins,
-      autoAllowSkills: params.autoAllowSkills,
-    });
+    const evaluation = evaluateExecAllowlist({ ...evalParams, analysis });
     return {
       analysisOk: true,
       allowlistSatisfied: evaluation.allowlistSatisfied,
       allowlistMatches: evaluation.allowlistMatches,
       segments: analysis.segments,
+      explanations: evaluation.explanations,
+      denied: evaluation.denied,
     };
   }
 
   const allowlistMatches: ExecAllowlistEntry[] = [];
   const segments: ExecCommandSegment[] = [];
+  const explanations: ExecAllowlistSegmentExplanation[] = [];
+  let satisfied = true;
+  let denied: ExecAllowlistSegmentExplanation | undefined;
 
+  // Keep going past the first miss so deny entries on later parts are still seen.
   for (const part of chainParts) {
-    const analysis = analyzeShellCommand({
-      command: part,
-      cwd: params.cwd,
-      env: params.env,
-      platform: params.platform,
-    });
+    const analysis = analyzeShellCommand({ command: part, cwd: params.cwd, env, platform });
     if (!analysis.ok) {
       return {
         analysisOk: false,
         allowlistSatisfied: false,
         allowlistMatches: [],
         segments: [],
+        explanations: [],
       };
     }
 
     segments.push(...analysis.segments);
-    const evaluation = evaluateExecAllowlist({
-      analysis,
-      allowlist: params.allowlist,
-      safeBins: params.safeBins,
-      cwd: params.cwd,
-      skillBins: params.skillBins,
-      autoAllowSkills: params.autoAllowSkills,
-    });
+    const evaluation = evaluateExecAllowlist({ ...evalParams, analysis });
     allowlistMatches.push(...evaluation.allowlistMatches);
-    if (!evaluation.allowlistSatisfied) {
-      return {
-        analysisOk: true,
-        allowlistSatisfied: false,
-        allowlistMatches,
-        segments,
-      };
-    }
+    explanations.push(...evaluation.explanations);
+    satisfied = satisfied && evaluation.allowlistSatisfied;
+    denied = denied ?? evaluation.denied;
   }
 
   return {
     analysisOk: true,
-    allowlistSatisfied: true,
+    allowlistSatisfied: satisfied,
     allowlistMatches,
     segments,
+    explanations,
+    denied,
   };
 }
 
@@ -1426,7 +1631,7 @@ export function recordAllowlistUse(
   const existing = agents[target] ?? {};
   const allowlist = Array.isArray(existing.allowlist) ? existing.allowlist : [];
   const nextAllowlist = allowlist.map((item) =>
-    item.pattern === entry.pattern
+    (entry.id ? item.id === entry.id : item.pattern === entry.pattern)
       ? {
           ...item,
           id: item.id ?? crypto.randomUUID(),
@@ -1441,28 +1646,89 @@ export function recordAllowlistUse(
   saveExecApprovals(approvals);
 }
 
+export type ExecAllowlistGrant = {
+  sessionKey?: string;
+  expiresAt?: number;
+};
+
 export function addAllowlistEntry(
   approvals: ExecApprovalsFile,
   agentId: string | undefined,
   pattern: string,
+  grant?: ExecAllowlistGrant,
 ) {
   const target = agentId ?? DEFAULT_AGENT_ID;
   const agents = approvals.agents ?? {};
   const existing = agents[target] ?? {};
-  const allowlist = Array.isArray(existing.allowlist) ? existing.allowlist : [];
+  const now = Date.now();
+  // Drop expired grants while we are rewriting the list anyway.
+  const allowlist = (Array.isArray(existing.allowlist) ? existing.allowlist : []).filter(
+    (entry) => typeof entry.expiresAt !== "number" || entry.expiresAt > now,
+  );
   const trimmed = pattern.trim();
   if (!trimmed) {
     return;
   }
-  if (allowlist.some((entry) => entry.pattern === trimmed)) {
+  const sessionKey = grant?.sessionKey?.trim() || undefined;
+  const isPlainEntry = (entry: ExecAllowlistEntry) =>
+    entry.pattern === trimmed && entry.action !== "deny" && !entry.args && !entry.paths;
+  if (allowlist.some((entry) => isPlainEntry(entry) && !entry.sessionKey && !entry.expiresAt)) {
     return;
   }
-  allowlist.push({ id: crypto.randomUUID(), pattern: trimmed, lastUsedAt: Date.now() });
+  const sameGrant = allowlist.find(
+    (entry) => isPlainEntry(entry) && entry.sessionKey?.trim() === sessionKey,
+  );
+  if (sameGrant) {
+    if (grant?.expiresAt === undefined) {
+      delete sameGrant.expiresAt;
+    } else {
+      sameGrant.expiresAt = Math.max(sameGrant.expiresAt ?? 0, grant.expiresAt);
+    }
+  } else {
+    allowlist.push({
+      id: crypto.randomUUID(),
+      pattern: trimmed,
+      ...(sessionKey ? { sessionKey } : {}),
+      ...(grant?.expiresAt !== undefined ? { expiresAt: grant.expiresAt } : {}),
+      lastUsedAt: now,
+    });
+  }
   agents[target] = { ...existing, allowlist };
   approvals.agents = agents;
   saveExecApprovals(approvals);
 }
 
+/**
+ * Persist an "allow always" / "allow for this session" decision for every resolved binary
+ * in the approved command. Session grants need a session key and expire after
+ * DEFAULT_SESSION_GRANT_TTL_MS.
+ */
+export function addApprovalGrants(params: {
+  approvals: ExecApprovalsFile;
+  agentId: string | undefined;
+  decision: ExecApprovalDecision;
+  segments: ExecCommandSegment[];
+  sessionKey?: string | null;
+}) {
+  const sessionKey = params.sessionKey?.trim();
+  if (params.decision === "deny" || params.decision === "allow-once") {
+    return;
+  }
+  if (params.decision === "allow-session" && !sessionKey) {
+    return;
+  }
+  const grant: ExecAllowlistGrant | undefined =
+    params.decision === "allow-session"
+      ? { sessionKey, expiresAt: Date.now() + DEFAULT_SESSION_GRANT_TTL_MS }
+      : undefined;
+  for (const segment of params.segments) {
+    const pattern = segment.resolution?.resolvedPath ?? "";
+    if (pattern) {
+      addAllowlistEntry(params.approvals, params.agentId, pattern, grant);
+    }
+  }
+}
+
 export function minSecurity(a: ExecSecurity, b: ExecSecurity): ExecSecurity {
   const order: Record<ExecSecurity, number> = { deny: 0, allowlist: 1, full: 2 };
   return order[a] <= order[b] ? a : b;
@@ -1473,7 +1739,7 @@ export function maxAsk(a: ExecAsk, b: ExecAsk): ExecAsk {
   return order[a] >= order[b] ? a : b;
 }
 
-export type ExecApprovalDecision = "allow-once" | "allow-always" | "deny";
+export type ExecApprovalDecision = "allow-once" | "allow-session" | "allow-always" | "deny";
 
 export async function requestExecApprovalViaSocket(params: {
   socketPath: string;
@@ -6,6 +6,7 @@ import type { sendMessageIMessage } from "../../imessage/send.js";
 import type { sendMessageSlack } from "../../slack/send.js";
 import type { sendMessageTelegram } from "../../telegram/send.js";
 import type { sendMessageWhatsApp } from "../../web/outbound.js";
+import type { HeldOutboundMessage } from "./outbox.js";
 import type { NormalizedOutboundPayload } from "./payloads.js";
 import type { OutboundChannel } from "./targets.js";
 import {
@@ -21,9 +22,14 @@ import {
   appendAssistantMessageToSessionTranscript,
   resolveMirroredTranscriptText,
 } from "../../config/sessions.js";
+import {
+  evaluateOutboundSendPolicy,
+  hasOutboundSendPolicyRules,
+} from "../../sessions/send-policy.js";
 import { markdownToSignalTextChunks, type SignalTextStyleRange } from "../../signal/format.js";
 import { sendMessageSignal } from "../../signal/send.js";
 import { throwIfAborted } from "./abort.js";
+import { holdOutboundMessage } from "./outbox.js";
 import { normalizeReplyPayloadsForDelivery } from "./payloads.js";
 
 export type { NormalizedOutboundPayload } from "./payloads.js";
@@ -191,11 +197,48 @@ export async function deliverOutboundPayloads(params: {
     text?: string;
     mediaUrls?: string[];
   };
+  /** Session the send belongs to (defaults to mirror.sessionKey); used by send policy rules. */
+  sessionKey?: string;
+  /** Bypass per-message send policy rules (releasing held messages). */
+  skipSendPolicy?: boolean;
+  /** Called when send policy queues the payloads for approval instead of sending. */
+  onHeld?: (held: HeldOutboundMessage) => void;
 }): Promise<OutboundDeliveryResult[]> {
   const { cfg, channel, to, payloads } = params;
   const accountId = params.accountId;
   const deps = params.deps;
   const abortSignal = params.abortSignal;
+  if (!params.skipSendPolicy && payloads.length > 0 && hasOutboundSendPolicyRules(cfg)) {
+    const sessionKey = params.sessionKey ?? params.mirror?.sessionKey;
+    const verdict = evaluateOutboundSendPolicy({
+      cfg,
+      channel,
+      to,
+      accountId,
+      sessionKey,
+      count: payloads.length,
+    });
+    if (verdict.decision === "deny") {
+      throw new Error(`send blocked by session policy (${verdict.reason ?? "denied"})`);
+    }
+    if (verdict.decision === "hold") {
+      const held = await holdOutboundMessage({
+        cfg,
+        channel,
+        to,
+        accountId,
+        replyToId: params.replyToId,
+        threadId: params.threadId,
+        sessionKey,
+        agentId: params.mirror?.agentId,
+        payloads,
+        reason: verdict.reason ?? "held for approval",
+        ruleIndex: verdict.ruleIndex,
+      });
+      params.onHeld?.(held);
+      return [];
+    }
+  }
   const sendSignal = params.deps?.sendSignal ?? sendMessageSignal;
   const results: OutboundDeliveryResult[] = [];
   const handler = await createChannelHandler({
@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import {
+  getHeldOutboundMessage,
+  holdOutboundMessage,
+  listHeldOutboundMessages,
+  onHeldOutboundMessage,
+  readSendRateWindowsSync,
+  removeHeldOutboundMessage,
+  restoreHeldOutboundMessage,
+  writeSendRateWindows,
+} from "./outbox.js";
+
+describe("outbound outbox", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-outbox-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("stores, lists and removes held messages", async () => {
+    const held = await holdOutboundMessage(
+      {
+        channel: "telegram",
+        to: "123",
+        sessionKey: "agent:main:main",
+        payloads: [{ text: "hello" }],
+        reason: "held for approval",
+        ruleIndex: 0,
+      },
+      baseDir,
+    );
+    expect(held.id).toBeTruthy();
+    expect(await listHeldOutboundMessages(undefined, baseDir)).toEqual([held]);
+    expect(await getHeldOutboundMessage(held.id, undefined, baseDir)).toEqual(held);
+
+    expect(await removeHeldOutboundMessage(held.id, undefined, baseDir)).toEqual(held);
+    expect(await listHeldOutboundMessages(undefined, baseDir)).toEqual([]);
+    expect(await removeHeldOutboundMessage(held.id, undefined, baseDir)).toBeNull();
+  });
+
+  it("notifies listeners on hold and restores claimed entries", async () => {
+    const seen: string[] = [];
+    const unsubscribe = onHeldOutboundMessage((entry) => seen.push(entry.id));
+    const held = await holdOutboundMessage(
+      { channel: "slack", to: "C1", payloads: [{ text: "hi" }], reason: "quiet hours" },
+      baseDir,
+    );
+    unsubscribe();
+    expect(seen).toEqual([held.id]);
+
+    expect(await removeHeldOutboundMessage(held.id, undefined, baseDir)).toEqual(held);
+    expect(await removeHeldOutboundMessage(held.id, undefined, baseDir)).toBeNull();
+    await restoreHeldOutboundMessage(held, undefined, baseDir);
+    expect(await listHeldOutboundMessages(undefined, baseDir)).toEqual([held]);
+  });
+
+  it("persists rate-limit windows", async () => {
+    expect(readSendRateWindowsSync(baseDir)).toEqual({});
+    await writeSendRateWindows({ "0|session:main": { windowMs: 60_000, sent: [1, 2] } }, baseDir);
+    expect(readSendRateWindowsSync(baseDir)).toEqual({
+      "0|session:main": { windowMs: 60_000, sent: [1, 2] },
+    });
+  });
+
+  it("drops the oldest entries beyond hold.maxEntries", async () => {
+    const cfg = { session: { sendPolicy: { hold: { maxEntries: 2 } } } } as OpenClawConfig;
+    const hold = (text: string) =>
+      holdOutboundMessage(
+        { cfg, channel: "slack", to: "C1", payloads: [{ text }], reason: "quiet hours" },
+        baseDir,
+      );
+    await hold("one");
+    await hold("two");
+    await hold("three");
+    const held = await listHeldOutboundMessages(cfg, baseDir);
+    expect(held.map((entry) => entry.payloads[0]?.text)).toEqual(["two", "three"]);
+  });
+});
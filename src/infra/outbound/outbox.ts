@@ -0,0 +1,208 @@
+import { randomUUID } from "node:crypto";
+import fsSync from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { resolveStateDir } from "../../config/paths.js";
+
+export type HeldOutboundMessage = {
+  id: string;
+  channel: string;
+  to: string;
+  accountId?: string;
+  replyToId?: string | null;
+  threadId?: string | number | null;
+  sessionKey?: string;
+  agentId?: string;
+  payloads: ReplyPayload[];
+  /** Why the message was held (e.g. "quiet hours 22:00-07:00"). */
+  reason: string;
+  ruleIndex?: number;
+  heldAtMs: number;
+};
+
+type OutboxStateFile = Record<string, HeldOutboundMessage>;
+
+/** Send timestamps per rate-limit key, persisted so windows survive a gateway restart. */
+export type SendRateWindowsFile = Record<string, { windowMs: number; sent: number[] }>;
+
+const DEFAULT_HOLD_TTL_HOURS = 72;
+const DEFAULT_HOLD_MAX_ENTRIES = 500;
+
+function resolveOutboxPath(baseDir?: string) {
+  return path.join(baseDir ?? resolveStateDir(), "outbound", "held.json");
+}
+
+function resolveSendRateWindowsPath(baseDir?: string) {
+  return path.join(baseDir ?? resolveStateDir(), "outbound", "rate-limits.json");
+}
+
+const heldListeners = new Set<(entry: HeldOutboundMessage) => void>();
+
+/** Subscribe to every message queued by a hold rule, whichever delivery path held it. */
+export function onHeldOutboundMessage(listener: (entry: HeldOutboundMessage) => void): () => void {
+  heldListeners.add(listener);
+  return () => heldListeners.delete(listener);
+}
+
+function emitHeldOutboundMessage(entry: HeldOutboundMessage) {
+  for (const listener of heldListeners) {
+    try {
+      listener(entry);
+    } catch {
+      /* ignore */
+    }
+  }
+}
+
+async function readJSON<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJSONAtomic(filePath: string, value: unknown) {
+  const dir = path.dirname(filePath);
+  await fs.mkdir(dir, { recursive: true });
+  const tmp = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  try {
+    await fs.chmod(tmp, 0o600);
+  } catch {
+    // best-effort; ignore on platforms without chmod
+  }
+  await fs.rename(tmp, filePath);
+}
+
+let lock: Promise<void> = Promise.resolve();
+async function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const prev = lock;
+  let release: (() => void) | undefined;
+  lock = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  await prev;
+  try {
+    return await fn();
+  } finally {
+    release?.();
+  }
+}
+
+function pruneHeld(state: OutboxStateFile, cfg: OpenClawConfig | undefined, nowMs: number) {
+  const hold = cfg?.session?.sendPolicy?.hold;
+  const ttlMs = (hold?.ttlHours ?? DEFAULT_HOLD_TTL_HOURS) * 60 * 60 * 1000;
+  const maxEntries = hold?.maxEntries ?? DEFAULT_HOLD_MAX_ENTRIES;
+  for (const [id, entry] of Object.entries(state)) {
+    if (nowMs - entry.heldAtMs > ttlMs) {
+      delete state[id];
+    }
+  }
+  const entries = Object.values(state).toSorted((a, b) => a.heldAtMs - b.heldAtMs);
+  for (const entry of entries.slice(0, Math.max(0, entries.length - maxEntries))) {
+    delete state[entry.id];
+  }
+}
+
+async function loadState(cfg?: OpenClawConfig, baseDir?: string): Promise<OutboxStateFile> {
+  const state = (await readJSON<OutboxStateFile>(resolveOutboxPath(baseDir))) ?? {};
+  pruneHeld(state, cfg, Date.now());
+  return state;
+}
+
+export async function holdOutboundMessage(
+  params: Omit<HeldOutboundMessage, "id" | "heldAtMs"> & { cfg?: OpenClawConfig },
+  baseDir?: string,
+): Promise<HeldOutboundMessage> {
+  const { cfg, ...message } = params;
+  return await withLock(async () => {
+    const state = await loadState(cfg, baseDir);
+    const entry: HeldOutboundMessage = {
+      ...message,
+      id: randomUUID(),
+      heldAtMs: Date.now(),
+    };
+    state[entry.id] = entry;
+    pruneHeld(state, cfg, entry.heldAtMs);
+    await writeJSONAtomic(resolveOutboxPath(baseDir), state);
+    emitHeldOutboundMessage(entry);
+    return entry;
+  });
+}
+
+/** Put a claimed message back (e.g. when releasing it failed to deliver). */
+export async function restoreHeldOutboundMessage(
+  entry: HeldOutboundMessage,
+  cfg?: OpenClawConfig,
+  baseDir?: string,
+): Promise<void> {
+  await withLock(async () => {
+    const state = await loadState(cfg, baseDir);
+    state[entry.id] = entry;
+    await writeJSONAtomic(resolveOutboxPath(baseDir), state);
+  });
+}
+
+export async function listHeldOutboundMessages(
+  cfg?: OpenClawConfig,
+  baseDir?: string,
+): Promise<HeldOutboundMessage[]> {
+  const state = await loadState(cfg, baseDir);
+  return Object.values(state).toSorted((a, b) => a.heldAtMs - b.heldAtMs);
+}
+
+export async function getHeldOutboundMessage(
+  id: string,
+  cfg?: OpenClawConfig,
+  baseDir?: string,
+): Promise<HeldOutboundMessage | null> {
+  const state = await loadState(cfg, baseDir);
+  return state[id.trim()] ?? null;
+}
+
+/** Remove a held message (after release or on discard). Returns the removed entry. */
+export async function removeHeldOutboundMessage(
+  id: string,
+  cfg?: OpenClawConfig,
+  baseDir?: string,
+): Promise<HeldOutboundMessage | null> {
+  return await withLock(async () => {
+    const state = await loadState(cfg, baseDir);
+    const entry = state[id.trim()];
+    if (!entry) {
+      return null;
+    }
+    delete state[entry.id];
+    await writeJSONAtomic(resolveOutboxPath(baseDir), state);
+    return entry;
+  });
+}
+
+/**
+ * Read persisted rate-limit windows. Synchronous because the per-message send check runs
+ * inline with delivery; it is only called once per process.
+ */
+export function readSendRateWindowsSync(baseDir?: string): SendRateWindowsFile {
+  try {
+    const raw = fsSync.readFileSync(resolveSendRateWindowsPath(baseDir), "utf8");
+    const parsed = JSON.parse(raw) as SendRateWindowsFile;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+let rateWindowsWrite: Promise<void> = Promise.resolve();
+
+/** Queue a write of the rate-limit windows; writes are serialized and best-effort. */
+export function writeSendRateWindows(state: SendRateWindowsFile, baseDir?: string): Promise<void> {
+  const snapshot = JSON.parse(JSON.stringify(state)) as SendRateWindowsFile;
+  rateWindowsWrite = rateWindowsWrite
+    .then(() => writeJSONAtomic(resolveSendRateWindowsPath(baseDir), snapshot))
+    .catch(() => {});
+  return rateWindowsWrite;
+}
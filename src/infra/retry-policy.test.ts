@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { createTelegramRetryRunner } from "./retry-policy.js";
+import { createCronRetryScheduler, createTelegramRetryRunner } from "./retry-policy.js";
 
 describe("createTelegramRetryRunner", () => {
   afterEach(() => {
@@ -24,3 +24,21 @@ describe("createTelegramRetryRunner", () => {
     expect(fn).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("createCronRetryScheduler", () => {
+  it("defaults to a single attempt", () => {
+    expect(createCronRetryScheduler().maxAttempts).toBe(1);
+  });
+
+  it("doubles the delay per retry up to the max", () => {
+    const scheduler = createCronRetryScheduler({
+      attempts: 5,
+      minDelayMs: 1_000,
+      maxDelayMs: 3_000,
+    });
+    expect(scheduler.maxAttempts).toBe(5);
+    expect(scheduler.delayMs(1)).toBe(1_000);
+    expect(scheduler.delayMs(2)).toBe(2_000);
+    expect(scheduler.delayMs(3)).toBe(3_000);
+  });
+});
@@ -1,6 +1,6 @@
 import { RateLimitError } from "@buape/carbon";
 import { formatErrorMessage } from "./errors.js";
-import { type RetryConfig, resolveRetryConfig, retryAsync } from "./retry.js";
+import { computeRetryDelayMs, type RetryConfig, resolveRetryConfig, retryAsync } from "./retry.js";
 
 export type RetryRunner = <T>(fn: () => Promise<T>, label?: string) => Promise<T>;
 
@@ -18,6 +18,32 @@ export const TELEGRAM_RETRY_DEFAULTS = {
   jitter: 0.1,
 };
 
+/**
+ * Cron retries are scheduled on the cron timer rather than awaited inline, so
+ * the delays are much longer than channel send retries. One attempt means no
+ * retry, which keeps existing jobs unchanged.
+ */
+export const CRON_RETRY_DEFAULTS = {
+  attempts: 1,
+  minDelayMs: 30_000,
+  maxDelayMs: 60 * 60_000,
+  jitter: 0,
+};
+
+export type RetryScheduler = {
+  maxAttempts: number;
+  /** Delay before retry number `attempt` (1-based). */
+  delayMs: (attempt: number) => number;
+};
+
+export function createCronRetryScheduler(retry?: RetryConfig): RetryScheduler {
+  const retryConfig = resolveRetryConfig(CRON_RETRY_DEFAULTS, retry);
+  return {
+    maxAttempts: retryConfig.attempts,
+    delayMs: (attempt) => computeRetryDelayMs(retryConfig, attempt),
+  };
+}
+
 const TELEGRAM_RETRY_RE = /429|timeout|connect|reset|closed|unavailable|temporarily/i;
 
 function getTelegramRetryAfterMs(err: unknown): number | undefined {
@@ -67,6 +67,30 @@ function applyJitter(delayMs: number, jitter: number): number {
   return Math.max(0, Math.round(delayMs * (1 + offset)));
 }
 
+/**
+ * Exponential backoff delay before retry number `attempt` (1-based), clamped
+ * to the configured bounds with jitter applied. A server-provided
+ * `retryAfterMs` replaces the exponential base when present.
+ */
+export function computeRetryDelayMs(
+  config: Required<RetryConfig>,
+  attempt: number,
+  retryAfterMs?: number,
+): number {
+  const minDelayMs = config.minDelayMs;
+  const maxDelayMs =
+    Number.isFinite(config.maxDelayMs) && config.maxDelayMs > 0
+      ? config.maxDelayMs
+      : Number.POSITIVE_INFINITY;
+  const hasRetryAfter = typeof retryAfterMs === "number" && Number.isFinite(retryAfterMs);
+  const baseDelay = hasRetryAfter
+    ? Math.max(retryAfterMs, minDelayMs)
+    : minDelayMs * 2 ** (Math.max(1, attempt) - 1);
+  let delay = Math.min(baseDelay, maxDelayMs);
+  delay = applyJitter(delay, config.jitter);
+  return Math.min(Math.max(delay, minDelayMs), maxDelayMs);
+}
+
 export async function retryAsync<T>(
   fn: () => Promise<T>,
   attemptsOrOptions: number | RetryOptions = 3,
@@ -94,12 +118,6 @@ export async function retryAsync<T>(
 
   const resolved = resolveRetryConfig(DEFAULT_RETRY_CONFIG, options);
   const maxAttempts = resolved.attempts;
-  const minDelayMs = resolved.minDelayMs;
-  const maxDelayMs =
-    Number.isFinite(resolved.maxDelayMs) && resolved.maxDelayMs > 0
-      ? resolved.maxDelayMs
-      : Number.POSITIVE_INFINITY;
-  const jitter = resolved.jitter;
   const shouldRetry = options.shouldRetry ?? (() => true);
   let lastErr: unknown;
 
@@ -112,14 +130,7 @@ export async function retryAsync<T>(
         break;
       }
 
-      const retryAfterMs = options.retryAfterMs?.(err);
-      const hasRetryAfter = typeof retryAfterMs === "number" && Number.isFinite(retryAfterMs);
-      const baseDelay = hasRetryAfter
-        ? Math.max(retryAfterMs, minDelayMs)
-        : minDelayMs * 2 ** (attempt - 1);
-      let delay = Math.min(baseDelay, maxDelayMs);
-      delay = applyJitter(delay, jitter);
-      delay = Math.min(Math.max(delay, minDelayMs), maxDelayMs);
+      const delay = computeRetryDelayMs(resolved, attempt, options.retryAfterMs?.(err));
 
       options.onRetry?.({
         attempt,
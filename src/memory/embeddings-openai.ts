@@ -1,4 +1,8 @@
-import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embeddings.js";
+import type {
+  EmbeddingBatchResult,
+  EmbeddingProvider,
+  EmbeddingProviderOptions,
+} from "./embeddings.js";
 import { requireApiKey, resolveApiKeyForProvider } from "../agents/model-auth.js";
 
 export type OpenAiEmbeddingClient = {
@@ -27,9 +31,9 @@ export async function createOpenAiEmbeddingProvider(
   const client = await resolveOpenAiEmbeddingClient(options);
   const url = `${client.baseUrl.replace(/\/$/, "")}/embeddings`;
 
-  const embed = async (input: string[]): Promise<number[][]> => {
+  const embedWithUsage = async (input: string[]): Promise<EmbeddingBatchResult> => {
     if (input.length === 0) {
-      return [];
+      return { embeddings: [] };
     }
     const res = await fetch(url, {
       method: "POST",
@@ -42,10 +46,15 @@ export async function createOpenAiEmbeddingProvider(
     }
     const payload = (await res.json()) as {
       data?: Array<{ embedding?: number[] }>;
+      usage?: { total_tokens?: number };
     };
     const data = payload.data ?? [];
-    return data.map((entry) => entry.embedding ?? []);
+    return {
+      embeddings: data.map((entry) => entry.embedding ?? []),
+      totalTokens: payload.usage?.total_tokens,
+    };
   };
+  const embed = async (input: string[]) => (await embedWithUsage(input)).embeddings;
 
   return {
     provider: {
@@ -56,6 +65,7 @@ export async function createOpenAiEmbeddingProvider(
         return vec ?? [];
       },
       embedBatch: embed,
+      embedBatchWithUsage: embedWithUsage,
     },
     client,
   };
@@ -1,4 +1,8 @@
-import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embeddings.js";
+import type {
+  EmbeddingBatchResult,
+  EmbeddingProvider,
+  EmbeddingProviderOptions,
+} from "./embeddings.js";
 import { requireApiKey, resolveApiKeyForProvider } from "../agents/model-auth.js";
 
 export type VoyageEmbeddingClient = {
@@ -27,9 +31,12 @@ export async function createVoyageEmbeddingProvider(
   const client = await resolveVoyageEmbeddingClient(options);
   const url = `${client.baseUrl.replace(/\/$/, "")}/embeddings`;
 
-  const embed = async (input: string[], input_type?: "query" | "document"): Promise<number[][]> => {
+  const embedWithUsage = async (
+    input: string[],
+    input_type?: "query" | "document",
+  ): Promise<EmbeddingBatchResult> => {
     if (input.length === 0) {
-      return [];
+      return { embeddings: [] };
     }
     const body: { model: string; input: string[]; input_type?: "query" | "document" } = {
       model: client.model,
@@ -50,10 +57,16 @@ export async function createVoyageEmbeddingProvider(
     }
     const payload = (await res.json()) as {
       data?: Array<{ embedding?: number[] }>;
+      usage?: { total_tokens?: number };
     };
     const data = payload.data ?? [];
-    return data.map((entry) => entry.embedding ?? []);
+    return {
+      embeddings: data.map((entry) => entry.embedding ?? []),
+      totalTokens: payload.usage?.total_tokens,
+    };
   };
+  const embed = async (input: string[], input_type?: "query" | "document") =>
+    (await embedWithUsage(input, input_type)).embeddings;
 
   return {
     provider: {
@@ -64,6 +77,7 @@ export async function createVoyageEmbeddingProvider(
         return vec ?? [];
       },
       embedBatch: async (texts) => embed(texts, "document"),
+      embedBatchWithUsage: async (texts) => embedWithUsage(texts, "document"),
     },
     client,
   };
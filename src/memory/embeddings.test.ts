@@ -263,6 +263,35 @@ describe("embedding provider auto selection", () => {
     const payload = JSON.parse(String(init?.body ?? "{}")) as { model?: string };
     expect(payload.model).toBe("text-embedding-3-small");
   });
+
+  it("returns openai token usage from embedBatchWithUsage", async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        data: [{ embedding: [1, 2, 3] }, { embedding: [4, 5, 6] }],
+        usage: { prompt_tokens: 5, total_tokens: 5 },
+      }),
+    })) as unknown as typeof fetch;
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { createEmbeddingProvider } = await import("./embeddings.js");
+    const result = await createEmbeddingProvider({
+      config: {} as never,
+      provider: "openai",
+      remote: { apiKey: "openai-key" },
+      model: "text-embedding-3-small",
+      fallback: "none",
+    });
+
+    await expect(result.provider.embedBatchWithUsage?.(["a", "b"])).resolves.toEqual({
+      embeddings: [
+        [1, 2, 3],
+        [4, 5, 6],
+      ],
+      totalTokens: 5,
+    });
+  });
 });
 
 describe("embedding provider local fallback", () => {
@@ -21,11 +21,19 @@ export type { GeminiEmbeddingClient } from "./embeddings-gemini.js";
 export type { OpenAiEmbeddingClient } from "./embeddings-openai.js";
 export type { VoyageEmbeddingClient } from "./embeddings-voyage.js";
 
+export type EmbeddingBatchResult = {
+  embeddings: number[][];
+  /** Input tokens billed by the provider, when its API reports them. */
+  totalTokens?: number;
+};
+
 export type EmbeddingProvider = {
   id: string;
   model: string;
   embedQuery: (text: string) => Promise<number[]>;
   embedBatch: (texts: string[]) => Promise<number[][]>;
+  /** Like `embedBatch`, also returning the provider's token usage. */
+  embedBatchWithUsage?: (texts: string[]) => Promise<EmbeddingBatchResult>;
 };
 
 export type EmbeddingProviderResult = {
@@ -123,6 +131,18 @@ async function createLocalEmbeddingProvider(
       );
       return embeddings;
     },
+    embedBatchWithUsage: async (texts) => {
+      const ctx = await ensureContext();
+      let totalTokens = 0;
+      const embeddings = await Promise.all(
+        texts.map(async (text) => {
+          totalTokens += embeddingModel?.tokenize(text).length ?? 0;
+          const embedding = await ctx.getEmbeddingFor(text);
+          return sanitizeAndNormalizeEmbedding(Array.from(embedding.vector));
+        }),
+      );
+      return { embeddings, totalTokens };
+    },
   };
 }
 
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { coerceMemoryFactValue, normalizeMemoryFactKey, scoreMemoryFact } from "./facts.js";
+
+describe("memory facts", () => {
+  it("coerces values to the declared type", () => {
+    expect(coerceMemoryFactValue("number", " 42 ")).toBe(42);
+    expect(coerceMemoryFactValue("boolean", "TRUE")).toBe(true);
+    expect(coerceMemoryFactValue("json", '{"street":"Main St"}')).toEqual({ street: "Main St" });
+    expect(() => coerceMemoryFactValue("number", "abc")).toThrow(/finite number/);
+    expect(() => coerceMemoryFactValue("json", '"scalar"')).toThrow(/object or array/);
+  });
+
+  it("normalizes keys", () => {
+    expect(normalizeMemoryFactKey("  User.Timezone ")).toBe("user.timezone");
+    expect(() => normalizeMemoryFactKey("   ")).toThrow(/fact key required/);
+  });
+
+  it("scores facts by query token overlap on key and value", () => {
+    const fact = {
+      key: "user.home_address",
+      type: "string" as const,
+      value: "12 Main St, Springfield",
+      provenance: {},
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    expect(scoreMemoryFact(fact, "user address")).toBe(1);
+    expect(scoreMemoryFact(fact, "user timezone")).toBe(0.5);
+    expect(scoreMemoryFact(fact, "springfield")).toBe(1);
+    expect(scoreMemoryFact(fact, "timezone")).toBe(0);
+  });
+});
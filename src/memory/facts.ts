@@ -0,0 +1,270 @@
+import type { DatabaseSync } from "node:sqlite";
+
+export type MemoryFactType = "string" | "number" | "boolean" | "json";
+
+export type MemoryFactValue = string | number | boolean | unknown[] | Record<string, unknown>;
+
+export type MemoryFactProvenance = {
+  sessionKey?: string;
+  messageId?: string;
+};
+
+export type MemoryFact = {
+  key: string;
+  type: MemoryFactType;
+  value: MemoryFactValue;
+  provenance: MemoryFactProvenance;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+};
+
+export type MemoryFactUpsert = {
+  key: string;
+  type: MemoryFactType;
+  value: MemoryFactValue;
+  provenance?: MemoryFactProvenance;
+  expiresAt?: number;
+};
+
+export type MemoryFactQuery = {
+  keys?: string[];
+  prefix?: string;
+  /** Free-text match against fact keys and string values. */
+  query?: string;
+  limit?: number;
+  includeExpired?: boolean;
+};
+
+export const MEMORY_FACT_TYPES: readonly MemoryFactType[] = ["string", "number", "boolean", "json"];
+
+const DEFAULT_FACT_QUERY_LIMIT = 20;
+const MAX_FACT_KEY_LENGTH = 200;
+
+type FactRow = {
+  key: string;
+  type: string;
+  value: string;
+  session_key: string | null;
+  message_id: string | null;
+  created_at: number;
+  updated_at: number;
+  expires_at: number | null;
+};
+
+const FACT_COLUMNS =
+  "key, type, value, session_key, message_id, created_at, updated_at, expires_at";
+
+export function normalizeMemoryFactKey(raw: string): string {
+  const key = raw.trim().toLowerCase();
+  if (!key) {
+    throw new Error("fact key required");
+  }
+  if (key.length > MAX_FACT_KEY_LENGTH) {
+    throw new Error(`fact key too long (max ${MAX_FACT_KEY_LENGTH} chars)`);
+  }
+  return key;
+}
+
+/** Coerce a raw tool argument into the declared fact type. */
+export function coerceMemoryFactValue(type: MemoryFactType, raw: unknown): MemoryFactValue {
+  switch (type) {
+    case "string":
+      if (typeof raw !== "string") {
+        throw new Error("fact value must be a string");
+      }
+      return raw;
+    case "number": {
+      const value = typeof raw === "string" ? Number(raw.trim()) : raw;
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error("fact value must be a finite number");
+      }
+      return value;
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") {
+        return raw;
+      }
+      const text = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+      if (text === "true" || text === "false") {
+        return text === "true";
+      }
+      throw new Error("fact value must be true or false");
+    }
+    case "json": {
+      let value = raw;
+      if (typeof raw === "string") {
+        try {
+          value = JSON.parse(raw);
+        } catch {
+          throw new Error("fact value must be valid JSON");
+        }
+      }
+      if (!value || typeof value !== "object") {
+        throw new Error("json facts must be an object or array");
+      }
+      return value as unknown[] | Record<string, unknown>;
+    }
+  }
+  throw new Error(`unknown fact type: ${String(type)}`);
+}
+
+function rowToFact(row: FactRow): MemoryFact {
+  const provenance: MemoryFactProvenance = {};
+  if (row.session_key) {
+    provenance.sessionKey = row.session_key;
+  }
+  if (row.message_id) {
+    provenance.messageId = row.message_id;
+  }
+  return {
+    key: row.key,
+    type: row.type as MemoryFactType,
+    value: JSON.parse(row.value) as MemoryFactValue,
+    provenance,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.expires_at != null ? { expiresAt: row.expires_at } : {}),
+  };
+}
+
+export function pruneExpiredMemoryFacts(db: DatabaseSync, nowMs = Date.now()): number {
+  const result = db
+    .prepare(`DELETE FROM facts WHERE expires_at IS NOT NULL AND expires_at <= ?`)
+    .run(nowMs);
+  return Number(result.changes ?? 0);
+}
+
+export function upsertMemoryFact(
+  db: DatabaseSync,
+  input: MemoryFactUpsert,
+  nowMs = Date.now(),
+): MemoryFact {
+  const key = normalizeMemoryFactKey(input.key);
+  const value = coerceMemoryFactValue(input.type, input.value);
+  pruneExpiredMemoryFacts(db, nowMs);
+  db.prepare(
+    `INSERT INTO facts (${FACT_COLUMNS})\n` +
+      ` VALUES (?, ?, ?, ?, ?, ?, ?, ?)\n` +
+      ` ON CONFLICT(key) DO UPDATE SET\n` +
+      `   type=excluded.type,\n` +
+      `   value=excluded.value,\n` +
+      `   session_key=excluded.session_key,\n` +
+      `   message_id=excluded.message_id,\n` +
+      `   updated_at=excluded.updated_at,\n` +
+      `   expires_at=excluded.expires_at`,
+  ).run(
+    key,
+    input.type,
+    JSON.stringify(value),
+    input.provenance?.sessionKey ?? null,
+    input.provenance?.messageId ?? null,
+    nowMs,
+    nowMs,
+    input.expiresAt ?? null,
+  );
+  const row = db.prepare(`SELECT ${FACT_COLUMNS} FROM facts WHERE key = ?`).get(key) as FactRow;
+  return rowToFact(row);
+}
+
+/** Set a fact's expiry (default: now). Returns the updated fact, or null when missing. */
+export function expireMemoryFact(
+  db: DatabaseSync,
+  rawKey: string,
+  atMs = Date.now(),
+): MemoryFact | null {
+  const key = normalizeMemoryFactKey(rawKey);
+  const result = db.prepare(`UPDATE facts SET expires_at = ? WHERE key = ?`).run(atMs, key);
+  if (Number(result.changes ?? 0) === 0) {
+    return null;
+  }
+  const row = db.prepare(`SELECT ${FACT_COLUMNS} FROM facts WHERE key = ?`).get(key) as FactRow;
+  return rowToFact(row);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function factSearchText(fact: MemoryFact): string {
+  const value = typeof fact.value === "string" ? fact.value : JSON.stringify(fact.value);
+  return `${fact.key} ${value}`;
+}
+
+/** Share of query tokens found in the fact key/value (0 when nothing matches). */
+export function scoreMemoryFact(fact: MemoryFact, query: string): number {
+  const queryTokens = new Set(tokenize(query));
+  if (queryTokens.size === 0) {
+    return 0;
+  }
+  const factTokens = new Set(tokenize(factSearchText(fact)));
+  let matched = 0;
+  for (const token of queryTokens) {
+    if (factTokens.has(token)) {
+      matched += 1;
+    }
+  }
+  return matched / queryTokens.size;
+}
+
+export function queryMemoryFacts(
+  db: DatabaseSync,
+  params: MemoryFactQuery = {},
+  nowMs = Date.now(),
+): MemoryFact[] {
+  const where: string[] = [];
+  const args: Array<string | number> = [];
+  if (!params.includeExpired) {
+    where.push("(expires_at IS NULL OR expires_at > ?)");
+    args.push(nowMs);
+  }
+  const keys = (params.keys ?? []).map(normalizeMemoryFactKey);
+  if (keys.length > 0) {
+    where.push(`key IN (${keys.map(() => "?").join(", ")})`);
+    args.push(...keys);
+  }
+  const prefix = params.prefix?.trim().toLowerCase();
+  if (prefix) {
+    where.push("substr(key, 1, ?) = ?");
+    args.push(prefix.length, prefix);
+  }
+  const sql =
+    `SELECT ${FACT_COLUMNS} FROM facts` +
+    (where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "") +
+    ` ORDER BY updated_at DESC`;
+  const facts = (db.prepare(sql).all(...args) as FactRow[]).map(rowToFact);
+  const limit = Math.max(1, params.limit ?? DEFAULT_FACT_QUERY_LIMIT);
+  const query = params.query?.trim();
+  if (!query) {
+    return facts.slice(0, limit);
+  }
+  return facts
+    .map((fact) => ({ fact, score: scoreMemoryFact(fact, query) }))
+    .filter((entry) => entry.score > 0)
+    .toSorted((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.fact);
+}
+
+/** Carry facts over when a full reindex swaps in a fresh database. */
+export function copyMemoryFacts(sourceDb: DatabaseSync, targetDb: DatabaseSync): void {
+  const rows = sourceDb.prepare(`SELECT ${FACT_COLUMNS} FROM facts`).all() as FactRow[];
+  if (rows.length === 0) {
+    return;
+  }
+  const insert = targetDb.prepare(
+    `INSERT OR REPLACE INTO facts (${FACT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  for (const row of rows) {
+    insert.run(
+      row.key,
+      row.type,
+      row.value,
+      row.session_key,
+      row.message_id,
+      row.created_at,
+      row.updated_at,
+      row.expires_at,
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  assertMemoryIndexBundleCompatible,
+  MEMORY_INDEX_BUNDLE_VERSION,
+  parseMemoryIndexBundle,
+  readMemoryIndexBundle,
+  writeMemoryIndexBundle,
+  type MemoryIndexBundle,
+} from "./index-bundle.js";
+
+const provider = { id: "openai", model: "text-embedding-3-small", providerKey: "fp-1" };
+
+function makeBundle(overrides: Partial<MemoryIndexBundle> = {}): MemoryIndexBundle {
+  return {
+    version: MEMORY_INDEX_BUNDLE_VERSION,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    agentId: "main",
+    provider,
+    chunking: { tokens: 400, overlap: 80 },
+    vectorDims: 2,
+    chunks: [
+      {
+        path: "MEMORY.md",
+        source: "memory",
+        startLine: 1,
+        endLine: 4,
+        hash: "abc",
+        embedding: [0.1, 0.2],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("memory index bundle", () => {
+  it("rejects unsupported versions and malformed chunks", () => {
+    expect(() => parseMemoryIndexBundle({ ...makeBundle(), version: 99 })).toThrow(
+      /unsupported memory bundle version/,
+    );
+    expect(() =>
+      parseMemoryIndexBundle(
+        makeBundle({
+          chunks: [
+            {
+              path: "MEMORY.md",
+              source: "memory",
+              startLine: 1,
+              endLine: 2,
+              hash: "abc",
+              embedding: [0.1, 0.2, 0.3],
+            },
+          ],
+        }),
+      ),
+    ).toThrow(/embedding dims differ/);
+  });
+
+  it("refuses bundles from another provider or model", () => {
+    const bundle = parseMemoryIndexBundle(makeBundle());
+    expect(() => assertMemoryIndexBundleCompatible(bundle, provider)).not.toThrow();
+    expect(() =>
+      assertMemoryIndexBundleCompatible(bundle, { ...provider, model: "text-embedding-3-large" }),
+    ).toThrow(/model text-embedding-3-small != text-embedding-3-large/);
+    expect(() =>
+      assertMemoryIndexBundleCompatible(bundle, { ...provider, providerKey: "fp-2" }),
+    ).toThrow(/fingerprint differs/);
+  });
+
+  it("writes and reads gzipped bundles", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-bundle-"));
+    try {
+      const filePath = path.join(dir, "memory.json.gz");
+      await writeMemoryIndexBundle(filePath, makeBundle());
+      const raw = await fs.readFile(filePath);
+      expect(raw[0]).toBe(0x1f);
+      expect(await readMemoryIndexBundle(filePath)).toEqual(makeBundle());
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import type { MemorySource } from "./types.js";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const MEMORY_INDEX_BUNDLE_VERSION = 1;
+
+export type MemoryIndexBundleProvider = {
+  id: string;
+  model: string;
+  /** Fingerprint from `computeEmbeddingProviderKey` (endpoint + model + header names). */
+  providerKey: string;
+};
+
+export type MemoryIndexBundleChunk = {
+  path: string;
+  source: MemorySource;
+  startLine: number;
+  endLine: number;
+  hash: string;
+  embedding: number[];
+};
+
+export type MemoryIndexBundle = {
+  version: number;
+  createdAt: string;
+  agentId: string;
+  provider: MemoryIndexBundleProvider;
+  chunking: { tokens: number; overlap: number };
+  vectorDims?: number;
+  chunks: MemoryIndexBundleChunk[];
+};
+
+export type MemoryIndexImportResult = {
+  chunks: number;
+  embeddings: number;
+  chunkingMatches: boolean;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseBundleChunk(value: unknown, index: number): MemoryIndexBundleChunk {
+  if (!isRecord(value)) {
+    throw new Error(`invalid memory bundle: chunk ${index} is not an object`);
+  }
+  const { path: chunkPath, source, startLine, endLine, hash, embedding } = value;
+  if (!isNonEmptyString(chunkPath) || !isNonEmptyString(hash)) {
+    throw new Error(`invalid memory bundle: chunk ${index} is missing path or hash`);
+  }
+  if (source !== "memory" && source !== "sessions") {
+    throw new Error(`invalid memory bundle: chunk ${index} has unknown source`);
+  }
+  if (!isFiniteNumber(startLine) || !isFiniteNumber(endLine)) {
+    throw new Error(`invalid memory bundle: chunk ${index} has invalid line range`);
+  }
+  if (!Array.isArray(embedding) || embedding.length === 0 || !embedding.every(isFiniteNumber)) {
+    throw new Error(`invalid memory bundle: chunk ${index} has invalid embedding`);
+  }
+  return { path: chunkPath, source, startLine, endLine, hash, embedding };
+}
+
+/** Validate an untrusted bundle payload (structure, schema version, embedding dims). */
+export function parseMemoryIndexBundle(payload: unknown): MemoryIndexBundle {
+  if (!isRecord(payload)) {
+    throw new Error("invalid memory bundle: expected a JSON object");
+  }
+  if (payload.version !== MEMORY_INDEX_BUNDLE_VERSION) {
+    throw new Error(
+      `unsupported memory bundle version: ${String(payload.version)} (expected ${MEMORY_INDEX_BUNDLE_VERSION})`,
+    );
+  }
+  const provider = payload.provider;
+  if (
+    !isRecord(provider) ||
+    !isNonEmptyString(provider.id) ||
+    !isNonEmptyString(provider.model) ||
+    !isNonEmptyString(provider.providerKey)
+  ) {
+    throw new Error("invalid memory bundle: provider id, model and providerKey are required");
+  }
+  const chunking = payload.chunking;
+  if (
+    !isRecord(chunking) ||
+    !isFiniteNumber(chunking.tokens) ||
+    !isFiniteNumber(chunking.overlap)
+  ) {
+    throw new Error("invalid memory bundle: chunking settings are required");
+  }
+  if (!Array.isArray(payload.chunks)) {
+    throw new Error("invalid memory bundle: chunks must be an array");
+  }
+  const chunks = payload.chunks.map((chunk, index) => parseBundleChunk(chunk, index));
+  const vectorDims = isFiniteNumber(payload.vectorDims) ? payload.vectorDims : undefined;
+  const dims = vectorDims ?? chunks[0]?.embedding.length;
+  const mismatched = chunks.findIndex((chunk) => chunk.embedding.length !== dims);
+  if (mismatched >= 0) {
+    throw new Error(
+      `invalid memory bundle: chunk ${mismatched} embedding dims differ from ${dims}`,
+    );
+  }
+  return {
+    version: MEMORY_INDEX_BUNDLE_VERSION,
+    createdAt: typeof payload.createdAt === "string" ? payload.createdAt : "",
+    agentId: typeof payload.agentId === "string" ? payload.agentId : "",
+    provider: { id: provider.id, model: provider.model, providerKey: provider.providerKey },
+    chunking: { tokens: chunking.tokens, overlap: chunking.overlap },
+    ...(vectorDims !== undefined ? { vectorDims } : {}),
+    chunks,
+  };
+}
+
+/**
+ * Refuse bundles produced by a different embedding provider/model: vectors from
+ * another embedding space would silently corrupt search results.
+ */
+export function assertMemoryIndexBundleCompatible(
+  bundle: MemoryIndexBundle,
+  current: MemoryIndexBundleProvider,
+): void {
+  const mismatches: string[] = [];
+  if (bundle.provider.id !== current.id) {
+    mismatches.push(`provider ${bundle.provider.id} != ${current.id}`);
+  }
+  if (bundle.provider.model !== current.model) {
+    mismatches.push(`model ${bundle.provider.model} != ${current.model}`);
+  }
+  if (mismatches.length === 0 && bundle.provider.providerKey !== current.providerKey) {
+    mismatches.push("provider endpoint fingerprint differs");
+  }
+  if (mismatches.length > 0) {
+    throw new Error(
+      `memory bundle does not match this embedding provider: ${mismatches.join("; ")}`,
+    );
+  }
+}
+
+function isGzipPath(filePath: string): boolean {
+  return filePath.endsWith(".gz");
+}
+
+export async function writeMemoryIndexBundle(
+  filePath: string,
+  bundle: MemoryIndexBundle,
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const json = JSON.stringify(bundle);
+  const data = isGzipPath(filePath) ? await gzipAsync(json) : `${json}\n`;
+  await fs.writeFile(filePath, data, { mode: 0o600 });
+}
+
+export async function readMemoryIndexBundle(filePath: string): Promise<MemoryIndexBundle> {
+  const raw = await fs.readFile(filePath);
+  const text = isGzipPath(filePath)
+    ? (await gunzipAsync(raw)).toString("utf-8")
+    : raw.toString("utf-8");
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`invalid memory bundle: ${message}`, { cause: err });
+  }
+  return parseMemoryIndexBundle(payload);
+}
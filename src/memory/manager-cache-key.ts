@@ -46,7 +46,20 @@ export function computeMemoryManagerCacheKey(params: {
       },
       chunking: settings.chunking,
       sync: settings.sync,
-      query: settings.query,
+      query: {
+        ...settings.query,
+        rerank: {
+          provider: settings.query.rerank.provider,
+          model: settings.query.rerank.model,
+          remote: settings.query.rerank.remote
+            ? {
+                baseUrl: settings.query.rerank.remote.baseUrl,
+                headerNames: fingerprintHeaderNames(settings.query.rerank.remote.headers),
+              }
+            : undefined,
+          local: settings.query.rerank.local,
+        },
+      },
       cache: settings.cache,
     }),
   );
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyRecencyWeighting,
+  listChunkTimestamps,
+  rerankSearchResults,
+  selectMmrResults,
+} from "./manager-search.js";
+import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import { requireNodeSqlite } from "./sqlite.js";
+
+const result = (path: string, startLine: number, score: number, snippet: string) => ({
+  path,
+  startLine,
+  endLine: startLine + 9,
+  score,
+  snippet,
+  source: "memory",
+});
+
+describe("memory search rerank stage", () => {
+  const results = [
+    result("memory/a.md", 1, 0.9, "deploy the gateway with docker compose"),
+    result("memory/a.md", 5, 0.88, "deploy the gateway with docker compose up"),
+    result("memory/b.md", 1, 0.86, "deploy the gateway with docker compose today"),
+    result("memory/c.md", 1, 0.7, "rotate gateway tokens monthly"),
+  ];
+
+  it("MMR skips overlapping and near-identical chunks", () => {
+    const picked = selectMmrResults(results, { limit: 2, lambda: 0.5 });
+    expect(picked.map((entry) => `${entry.path}:${entry.startLine}`)).toEqual([
+      "memory/a.md:1",
+      "memory/c.md:1",
+    ]);
+  });
+
+  it("MMR with lambda 1 keeps score order", () => {
+    const picked = selectMmrResults(results, { limit: 3, lambda: 1 });
+    expect(picked).toEqual(results.slice(0, 3));
+  });
+
+  it("applies provider scores before diversity selection", async () => {
+    const rerank = vi.fn(async (_query: string, documents: string[]) =>
+      documents.map((doc) => (doc.includes("tokens") ? 0.99 : 0.1)),
+    );
+    const ranked = await rerankSearchResults({
+      query: "gateway tokens",
+      results,
+      limit: 2,
+      reranker: { id: "http", model: "test", rerank },
+    });
+    expect(rerank).toHaveBeenCalledWith(
+      "gateway tokens",
+      results.map((entry) => entry.snippet),
+    );
+    expect(ranked.map((entry) => [entry.path, entry.score])).toEqual([
+      ["memory/c.md", 0.99],
+      ["memory/a.md", 0.1],
+    ]);
+  });
+
+  it("decays session hits by half-life and records the factor", () => {
+    const nowMs = Date.parse("2026-03-31T00:00:00.000Z");
+    const day = 24 * 60 * 60 * 1000;
+    const weighted = applyRecencyWeighting(
+      [
+        { ...result("sessions/old.jsonl", 1, 0.9, "old"), source: "sessions" },
+        { ...result("sessions/new.jsonl", 1, 0.6, "new"), source: "sessions" },
+        result("MEMORY.md", 1, 0.5, "prefs"),
+      ],
+      {
+        nowMs,
+        halfLifeDays: { memory: 0, sessions: 30 },
+        timestampByChunk: new Map([
+          ["sessions/old.jsonl:1:10", nowMs - 60 * day],
+          ["sessions/new.jsonl:1:10", nowMs - day],
+          ["MEMORY.md:1:10", nowMs - 365 * day],
+        ]),
+      },
+    );
+    expect(weighted.map((entry) => entry.path)).toEqual([
+      "sessions/new.jsonl",
+      "MEMORY.md",
+      "sessions/old.jsonl",
+    ]);
+    expect(weighted[2].recency).toEqual({
+      baseScore: 0.9,
+      ageDays: 60,
+      halfLifeDays: 30,
+      factor: 0.25,
+    });
+    expect(weighted[2].score).toBeCloseTo(0.225);
+    expect(weighted[1].recency).toBeUndefined();
+  });
+
+  it("reads chunk timestamps and falls back to the file mtime", () => {
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(":memory:");
+    ensureMemoryIndexSchema({
+      db,
+      embeddingCacheTable: "embedding_cache",
+      ftsTable: "chunks_fts",
+      ftsEnabled: false,
+    });
+    db.prepare(
+      `INSERT INTO files (path, source, hash, mtime, size) VALUES ('sessions/a.jsonl', 'sessions', 'h', 900, 1)`,
+    ).run();
+    const insertChunk = db.prepare(
+      `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at, timestamp)
+       VALUES (?, 'sessions/a.jsonl', 'sessions', ?, ?, 'h', 'm', 't', '[]', 0, ?)`,
+    );
+    insertChunk.run("c1", 1, 4, 100);
+    insertChunk.run("c2", 5, 8, null);
+    const timestamps = listChunkTimestamps({
+      db,
+      results: [{ path: "sessions/a.jsonl", startLine: 1, endLine: 4 }],
+    });
+    expect(timestamps.get("sessions/a.jsonl:1:4")).toBe(100);
+    expect(timestamps.get("sessions/a.jsonl:5:8")).toBe(900);
+    db.close();
+  });
+});
@@ -1,4 +1,5 @@
 import type { DatabaseSync } from "node:sqlite";
+import type { RerankProvider } from "./rerank.js";
 import { truncateUtf16Safe } from "../utils.js";
 import { cosineSimilarity, parseEmbedding } from "./internal.js";
 
@@ -185,3 +186,185 @@ export async function searchKeyword(params: {
     };
   });
 }
+
+type RankedResult = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  snippet: string;
+  source: SearchSource;
+  recency?: {
+    baseScore: number;
+    ageDays: number;
+    halfLifeDays: number;
+    factor: number;
+  };
+};
+
+export type RecencyWeighting = {
+  nowMs: number;
+  /** Half-life per source; missing or 0 disables decay for that source. */
+  halfLifeDays: Record<string, number | undefined>;
+  /** Newest message time per chunk, keyed by `chunkTimestampKey`. */
+  timestampByChunk: Map<string, number>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function chunkTimestampKey(entry: { path: string; startLine: number; endLine: number }) {
+  return `${entry.path}:${entry.startLine}:${entry.endLine}`;
+}
+
+/**
+ * Look up chunk timestamps for the given hits. Chunks indexed before
+ * timestamps were recorded fall back to the file's last modified time.
+ */
+export function listChunkTimestamps(params: {
+  db: DatabaseSync;
+  results: Array<{ path: string; startLine: number; endLine: number }>;
+}): Map<string, number> {
+  const unique = Array.from(new Set(params.results.map((entry) => entry.path)));
+  const out = new Map<string, number>();
+  if (unique.length === 0) {
+    return out;
+  }
+  const rows = params.db
+    .prepare(
+      `SELECT c.path, c.start_line, c.end_line, COALESCE(c.timestamp, f.mtime) AS ts\n` +
+        ` FROM chunks c LEFT JOIN files f ON f.path = c.path\n` +
+        ` WHERE c.path IN (${unique.map(() => "?").join(", ")})`,
+    )
+    .all(...unique) as Array<{
+    path: string;
+    start_line: number;
+    end_line: number;
+    ts: number | null;
+  }>;
+  for (const row of rows) {
+    if (typeof row.ts === "number") {
+      out.set(
+        chunkTimestampKey({ path: row.path, startLine: row.start_line, endLine: row.end_line }),
+        row.ts,
+      );
+    }
+  }
+  return out;
+}
+
+/**
+ * Multiply scores by 0.5 ^ (ageDays / halfLifeDays) for sources with a
+ * half-life and re-sort. The factor is recorded on each result as `recency`.
+ */
+export function applyRecencyWeighting<T extends RankedResult>(
+  results: T[],
+  weighting: RecencyWeighting,
+): T[] {
+  const weighted = results.map((entry) => {
+    const halfLifeDays = weighting.halfLifeDays[entry.source] ?? 0;
+    const timestamp = weighting.timestampByChunk.get(chunkTimestampKey(entry));
+    if (!(halfLifeDays > 0) || timestamp === undefined) {
+      return entry;
+    }
+    const ageDays = Math.max(0, weighting.nowMs - timestamp) / DAY_MS;
+    const factor = 0.5 ** (ageDays / halfLifeDays);
+    return {
+      ...entry,
+      score: entry.score * factor,
+      recency: { baseScore: entry.score, ageDays, halfLifeDays, factor },
+    };
+  });
+  return weighted.toSorted((a, b) => b.score - a.score);
+}
+
+function tokenizeSnippet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Maximal marginal relevance: greedily picks results that balance score
+ * (`lambda`) against similarity to results already picked (`1 - lambda`).
+ * Overlapping chunks of the same file count as duplicates. Ties keep input order.
+ */
+export function selectMmrResults<T extends RankedResult>(
+  results: T[],
+  params: { limit: number; lambda: number },
+): T[] {
+  const limit = Math.max(0, Math.min(params.limit, results.length));
+  const lambda = Math.min(1, Math.max(0, params.lambda));
+  const tokens = results.map((entry) => tokenizeSnippet(entry.snippet));
+  const similarity = (i: number, j: number) => {
+    const a = results[i];
+    const b = results[j];
+    if (a.path === b.path && a.startLine <= b.endLine && b.startLine <= a.endLine) {
+      return 1;
+    }
+    return jaccard(tokens[i], tokens[j]);
+  };
+
+  const picked: number[] = [];
+  const remaining = new Set(results.map((_, index) => index));
+  while (picked.length < limit) {
+    let best = -1;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const index of remaining) {
+      const redundancy = picked.reduce((max, other) => Math.max(max, similarity(index, other)), 0);
+      const score = lambda * results[index].score - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    if (best < 0) {
+      break;
+    }
+    picked.push(best);
+    remaining.delete(best);
+  }
+  return picked.map((index) => results[index]);
+}
+
+/**
+ * Optional post-merge stage: rescore candidates with a rerank provider (the
+ * provider score replaces `score`), weight by recency, then apply MMR
+ * diversity when enabled.
+ */
+export async function rerankSearchResults<T extends RankedResult>(params: {
+  query: string;
+  results: T[];
+  limit: number;
+  reranker?: RerankProvider | null;
+  recency?: RecencyWeighting;
+  mmr?: { enabled: boolean; lambda: number };
+}): Promise<T[]> {
+  let ranked = params.results;
+  if (params.reranker && ranked.length > 0) {
+    const scores = await params.reranker.rerank(
+      params.query,
+      ranked.map((entry) => entry.snippet),
+    );
+    ranked = ranked
+      .map((entry, index) => ({ ...entry, score: scores[index] ?? 0 }))
+      .toSorted((a, b) => b.score - a.score);
+  }
+  if (params.recency) {
+    ranked = applyRecencyWeighting(ranked, params.recency);
+  }
+  if (params.mmr?.enabled) {
+    return selectMmrResults(ranked, { limit: params.limit, lambda: params.mmr.lambda });
+  }
+  return ranked.slice(0, params.limit);
+}
@@ -38,7 +38,24 @@ import {
   type OpenAiEmbeddingClient,
   type VoyageEmbeddingClient,
 } from "./embeddings.js";
+import {
+  copyMemoryFacts,
+  expireMemoryFact,
+  queryMemoryFacts,
+  upsertMemoryFact,
+  type MemoryFact,
+  type MemoryFactQuery,
+  type MemoryFactUpsert,
+} from "./facts.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
+import {
+  assertMemoryIndexBundleCompatible,
+  MEMORY_INDEX_BUNDLE_VERSION,
+  parseMemoryIndexBundle,
+  type MemoryIndexBundle,
+  type MemoryIndexBundleProvider,
+  type MemoryIndexImportResult,
+} from "./index-bundle.js";
 import {
   buildFileEntry,
   chunkMarkdown,
@@ -52,8 +69,16 @@ import {
   parseEmbedding,
   runWithConcurrency,
 } from "./internal.js";
-import { searchKeyword, searchVector } from "./manager-search.js";
+import {
+  listChunkTimestamps,
+  type RecencyWeighting,
+  rerankSearchResults,
+  searchKeyword,
+  searchVector,
+} from "./manager-search.js";
 import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import { computeEmbeddingProviderKey } from "./provider-key.js";
+import { createRerankProvider, type RerankProvider } from "./rerank.js";
 import { loadSqliteVecExtension } from "./sqlite-vec.js";
 import { requireNodeSqlite } from "./sqlite.js";
 
@@ -73,6 +98,8 @@ type SessionFileEntry = {
   size: number;
   hash: string;
   content: string;
+  /** Message time (ms) for each line of `content`, when the transcript records one. */
+  lineTimestamps: Array<number | undefined>;
 };
 
 type MemorySyncProgressState = {
@@ -109,6 +136,35 @@ const INDEX_CACHE = new Map<string, MemoryIndexManager>();
 const vectorToBlob = (embedding: number[]): Buffer =>
   Buffer.from(new Float32Array(embedding).buffer);
 
+/** Transcript timestamps are epoch ms on the message or an ISO string on the record. */
+function resolveMessageTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/** Newest message in the chunk's line range; memory files use their mtime. */
+function resolveChunkTimestamp(
+  entry: MemoryFileEntry | SessionFileEntry,
+  chunk: MemoryChunk,
+): number {
+  let newest: number | undefined;
+  if ("lineTimestamps" in entry) {
+    for (let line = chunk.startLine; line <= chunk.endLine; line++) {
+      const ts = entry.lineTimestamps[line - 1];
+      if (ts !== undefined && (newest === undefined || ts > newest)) {
+        newest = ts;
+      }
+    }
+  }
+  return newest ?? entry.mtimeMs;
+}
+
 export class MemoryIndexManager implements MemorySearchManager {
   private readonly cacheKey: string;
   private readonly cfg: OpenClawConfig;
@@ -150,6 +206,7 @@ export class MemoryIndexManager implements MemorySearchManager {
     loadError?: string;
   };
   private vectorReady: Promise<boolean> | null = null;
+  private reranker: Promise<RerankProvider | null> | null = null;
   private watcher: FSWatcher | null = null;
   private watchTimer: NodeJS.Timeout | null = null;
   private sessionWatchTimer: NodeJS.Timeout | null = null;
@@ -301,7 +358,11 @@ export class MemoryIndexManager implements MemorySearchManager {
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return await this.rerankResults(
+        cleaned,
+        vectorResults.filter((entry) => entry.score >= minScore),
+        maxResults,
+      );
     }
 
     const merged = this.mergeHybridResults({
@@ -311,7 +372,76 @@ export class MemoryIndexManager implements MemorySearchManager {
       textWeight: hybrid.textWeight,
     });
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+    return await this.rerankResults(
+      cleaned,
+      merged.filter((entry) => entry.score >= minScore),
+      maxResults,
+    );
+  }
+
+  private async rerankResults<T extends MemorySearchResult>(
+    query: string,
+    results: T[],
+    maxResults: number,
+  ): Promise<T[]> {
+    const { rerank, mmr } = this.settings.query;
+    const recency = this.resolveRecencyWeighting(results);
+    if (rerank.provider === "none" && !mmr.enabled && !recency) {
+      return results.slice(0, maxResults);
+    }
+    // Keep the rerank pool the same size as each retrieval pass.
+    const pool = results.slice(
+      0,
+      Math.min(200, Math.max(1, maxResults * this.settings.query.hybrid.candidateMultiplier)),
+    );
+    const reranker = await this.resolveReranker();
+    try {
+      return await rerankSearchResults({
+        query,
+        results: pool,
+        limit: maxResults,
+        reranker,
+        recency,
+        mmr,
+      });
+    } catch (err) {
+      log.warn(`memory rerank failed; using merged order: ${String(err)}`);
+      return await rerankSearchResults({ query, results: pool, limit: maxResults, recency, mmr });
+    }
+  }
+
+  private resolveRecencyWeighting(results: MemorySearchResult[]): RecencyWeighting | undefined {
+    const { halfLifeDays } = this.settings.query.recency;
+    const decayed = results.filter((entry) => halfLifeDays[entry.source] > 0);
+    if (decayed.length === 0) {
+      return undefined;
+    }
+    return {
+      nowMs: Date.now(),
+      halfLifeDays,
+      timestampByChunk: listChunkTimestamps({ db: this.db, results: decayed }),
+    };
+  }
+
+  private async resolveReranker(): Promise<RerankProvider | null> {
+    const rerank = this.settings.query.rerank;
+    if (rerank.provider === "none") {
+      return null;
+    }
+    if (!this.reranker) {
+      this.reranker = createRerankProvider({
+        config: this.cfg,
+        agentDir: resolveAgentDir(this.cfg, this.agentId),
+        provider: rerank.provider,
+        model: rerank.model,
+        remote: rerank.remote,
+        local: rerank.local,
+      }).catch((err) => {
+        log.warn(`memory rerank provider unavailable (${rerank.provider}): ${String(err)}`);
+        return null;
+      });
+    }
+    return await this.reranker;
   }
 
   private async searchVector(
@@ -468,6 +598,92 @@ export class MemoryIndexManager implements MemorySearchManager {
     return { text: slice.join("\n"), path: relPath };
   }
 
+  async upsertFact(input: MemoryFactUpsert): Promise<MemoryFact> {
+    return upsertMemoryFact(this.db, input);
+  }
+
+  async queryFacts(params?: MemoryFactQuery): Promise<MemoryFact[]> {
+    return queryMemoryFacts(this.db, params);
+  }
+
+  async expireFact(key: string, atMs?: number): Promise<MemoryFact | null> {
+    return expireMemoryFact(this.db, key, atMs);
+  }
+
+  /** Export indexed chunks and their embeddings as a portable bundle. */
+  async exportIndex(): Promise<MemoryIndexBundle> {
+    const meta = this.readMeta();
+    if (!meta) {
+      throw new Error("memory index is empty; run `openclaw memory index` first");
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT path, source, start_line, end_line, hash, embedding FROM chunks WHERE model = ?` +
+          ` ORDER BY path, start_line`,
+      )
+      .all(this.provider.model) as Array<{
+      path: string;
+      source: MemorySource;
+      start_line: number;
+      end_line: number;
+      hash: string;
+      embedding: string;
+    }>;
+    return {
+      version: MEMORY_INDEX_BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      agentId: this.agentId,
+      provider: this.bundleProvider(),
+      chunking: { tokens: meta.chunkTokens, overlap: meta.chunkOverlap },
+      ...(meta.vectorDims ? { vectorDims: meta.vectorDims } : {}),
+      chunks: rows
+        .map((row) => ({
+          path: row.path,
+          source: row.source,
+          startLine: row.start_line,
+          endLine: row.end_line,
+          hash: row.hash,
+          embedding: parseEmbedding(row.embedding),
+        }))
+        .filter((chunk) => chunk.embedding.length > 0),
+    };
+  }
+
+  /**
+   * Seed the embedding cache from a bundle so the next sync reuses its vectors
+   * instead of re-embedding unchanged chunks.
+   */
+  async importIndex(payload: unknown): Promise<MemoryIndexImportResult> {
+    const bundle = parseMemoryIndexBundle(payload);
+    assertMemoryIndexBundleCompatible(bundle, this.bundleProvider());
+    if (!this.cache.enabled) {
+      throw new Error("memory import requires the embedding cache (memorySearch.cache.enabled)");
+    }
+    const entries = new Map<string, number[]>();
+    for (const chunk of bundle.chunks) {
+      entries.set(chunk.hash, chunk.embedding);
+    }
+    try {
+      this.db.exec("BEGIN");
+      this.upsertEmbeddingCache(Array.from(entries, ([hash, embedding]) => ({ hash, embedding })));
+      this.db.exec("COMMIT");
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      throw err;
+    }
+    this.pruneEmbeddingCacheIfNeeded();
+    this.dirty = this.sources.has("memory");
+    return {
+      chunks: bundle.chunks.length,
+      embeddings: entries.size,
+      chunkingMatches:
+        bundle.chunking.tokens === this.settings.chunking.tokens &&
+        bundle.chunking.overlap === this.settings.chunking.overlap,
+    };
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
@@ -1452,6 +1668,7 @@ export class MemoryIndexManager implements MemorySearchManager {
 
     try {
       this.seedEmbeddingCache(originalDb);
+      copyMemoryFacts(originalDb, this.db);
       const shouldSyncMemory = this.sources.has("memory");
       const shouldSyncSessions = this.shouldSyncSessions(
         { reason: params.reason, force: params.force },
@@ -1604,6 +1821,7 @@ export class MemoryIndexManager implements MemorySearchManager {
       const raw = await fs.readFile(absPath, "utf-8");
       const lines = raw.split("\n");
       const collected: string[] = [];
+      const lineTimestamps: Array<number | undefined> = [];
       for (const line of lines) {
         if (!line.trim()) {
           continue;
@@ -1622,7 +1840,7 @@ export class MemoryIndexManager implements MemorySearchManager {
           continue;
         }
         const message = (record as { message?: unknown }).message as
-          | { role?: unknown; content?: unknown }
+          | { role?: unknown; content?: unknown; timestamp?: unknown }
           | undefined;
         if (!message || typeof message.role !== "string") {
           continue;
@@ -1636,6 +1854,10 @@ export class MemoryIndexManager implements MemorySearchManager {
         }
         const label = message.role === "user" ? "User" : "Assistant";
         collected.push(`${label}: ${text}`);
+        lineTimestamps.push(
+          resolveMessageTimestamp(message.timestamp) ??
+            resolveMessageTimestamp((record as { timestamp?: unknown }).timestamp),
+        );
       }
       const content = collected.join("\n");
       return {
@@ -1645,6 +1867,7 @@ export class MemoryIndexManager implements MemorySearchManager {
         size: stat.size,
         hash: hashText(content),
         content,
+        lineTimestamps,
       };
     } catch (err) {
       log.debug(`Failed reading session file ${absPath}: ${String(err)}`);
@@ -1829,6 +2052,19 @@ export class MemoryIndexManager implements MemorySearchManager {
     return embeddings;
   }
 
+  private bundleProvider(): MemoryIndexBundleProvider {
+    return {
+      id: this.provider.id,
+      model: this.provider.model,
+      providerKey: computeEmbeddingProviderKey({
+        providerId: this.provider.id,
+        providerModel: this.provider.model,
+        openAi: this.provider.id === "openai" ? this.openAi : undefined,
+        gemini: this.provider.id === "gemini" ? this.gemini : undefined,
+      }),
+    };
+  }
+
   private computeProviderKey(): string {
     if (this.provider.id === "openai" && this.openAi) {
       const entries = Object.entries(this.openAi.headers)
@@ -2351,14 +2587,15 @@ export class MemoryIndexManager implements MemorySearchManager {
       );
       this.db
         .prepare(
-          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at, timestamp)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
            ON CONFLICT(id) DO UPDATE SET
              hash=excluded.hash,
              model=excluded.model,
              text=excluded.text,
              embedding=excluded.embedding,
-             updated_at=excluded.updated_at`,
+             updated_at=excluded.updated_at,
+             timestamp=excluded.timestamp`,
         )
         .run(
           id,
@@ -2371,6 +2608,7 @@ export class MemoryIndexManager implements MemorySearchManager {
           chunk.text,
           JSON.stringify(embedding),
           now,
+          resolveChunkTimestamp(entry, chunk),
         );
       if (vectorReady && embedding.length > 0) {
         try {
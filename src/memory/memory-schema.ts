@@ -47,6 +47,19 @@ export function ensureMemoryIndexSchema(params: {
       PRIMARY KEY (provider, model, provider_key, hash)
     );
   `);
+  params.db.exec(`
+    CREATE TABLE IF NOT EXISTS facts (
+      key TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      value TEXT NOT NULL,
+      session_key TEXT,
+      message_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER
+    );
+  `);
+  params.db.exec(`CREATE INDEX IF NOT EXISTS idx_facts_expires_at ON facts(expires_at);`);
   params.db.exec(
     `CREATE INDEX IF NOT EXISTS idx_embedding_cache_updated_at ON ${params.embeddingCacheTable}(updated_at);`,
   );
@@ -76,6 +89,7 @@ export function ensureMemoryIndexSchema(params: {
 
   ensureColumn(params.db, "files", "source", "TEXT NOT NULL DEFAULT 'memory'");
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
+  ensureColumn(params.db, "chunks", "timestamp", "INTEGER");
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
 
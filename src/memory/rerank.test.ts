@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../agents/model-auth.js", () => ({
+  resolveApiKeyForProvider: vi.fn(),
+  requireApiKey: (auth: { apiKey?: string; mode?: string }, provider: string) => {
+    if (auth?.apiKey) {
+      return auth.apiKey;
+    }
+    throw new Error(`No API key resolved for provider "${provider}" (auth mode: ${auth?.mode}).`);
+  },
+}));
+
+const createFetchMock = (payload: unknown) =>
+  vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => payload,
+  })) as unknown as typeof fetch;
+
+describe("memory rerank providers", () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.resetModules();
+    vi.unstubAllGlobals();
+  });
+
+  it("posts to the Voyage rerank endpoint and maps scores back by index", async () => {
+    const fetchMock = createFetchMock({
+      data: [
+        { index: 1, relevance_score: 0.9 },
+        { index: 0, relevance_score: 0.2 },
+      ],
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { createRerankProvider } = await import("./rerank.js");
+    const authModule = await import("../agents/model-auth.js");
+    vi.mocked(authModule.resolveApiKeyForProvider).mockResolvedValue({
+      apiKey: "voyage-key-123",
+      mode: "api-key",
+      source: "test",
+    });
+
+    const provider = await createRerankProvider({ config: {} as never, provider: "voyage" });
+    expect(await provider.rerank("query", ["a", "b"])).toEqual([0.2, 0.9]);
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("https://api.voyageai.com/v1/rerank");
+    expect(((init?.headers ?? {}) as Record<string, string>).Authorization).toBe(
+      "Bearer voyage-key-123",
+    );
+    expect(JSON.parse(init?.body as string)).toEqual({
+      model: "rerank-2.5",
+      query: "query",
+      documents: ["a", "b"],
+    });
+  });
+
+  it("supports generic endpoints returning `results`", async () => {
+    const fetchMock = createFetchMock({ results: [{ index: 0, relevance_score: 0.5 }] });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { createRerankProvider } = await import("./rerank.js");
+    const provider = await createRerankProvider({
+      config: {} as never,
+      provider: "http",
+      model: "bge-reranker",
+      remote: { baseUrl: "http://localhost:8080/v1/" },
+    });
+    expect(await provider.rerank("q", ["a", "b"])).toEqual([0.5, 0]);
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("http://localhost:8080/v1/rerank");
+    expect(((init?.headers ?? {}) as Record<string, string>).Authorization).toBeUndefined();
+  });
+
+  it("requires a base url for the http provider", async () => {
+    const { createRerankProvider } = await import("./rerank.js");
+    await expect(
+      createRerankProvider({ config: {} as never, provider: "http", model: "m" }),
+    ).rejects.toThrow("requires query.rerank.remote.baseUrl");
+  });
+});
@@ -0,0 +1,188 @@
+import type { Llama, LlamaModel, LlamaRankingContext } from "node-llama-cpp";
+import type { OpenClawConfig } from "../config/config.js";
+import { requireApiKey, resolveApiKeyForProvider } from "../agents/model-auth.js";
+import { importNodeLlamaCpp } from "./node-llama.js";
+
+export type RerankProviderId = "voyage" | "http" | "local";
+
+export type RerankProvider = {
+  id: RerankProviderId;
+  model: string;
+  /** Relevance score per document (same order as `documents`); higher is better. */
+  rerank: (query: string, documents: string[]) => Promise<number[]>;
+};
+
+export type RerankProviderOptions = {
+  config: OpenClawConfig;
+  agentDir?: string;
+  provider: RerankProviderId;
+  model?: string;
+  remote?: {
+    baseUrl?: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+  };
+  local?: {
+    modelPath?: string;
+    modelCacheDir?: string;
+  };
+};
+
+export type HttpRerankClient = {
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+};
+
+export const DEFAULT_VOYAGE_RERANK_MODEL = "rerank-2.5";
+const DEFAULT_VOYAGE_BASE_URL = "https://api.voyageai.com/v1";
+const DEFAULT_LOCAL_RERANK_MODEL =
+  "hf:gpustack/bge-reranker-v2-m3-GGUF/bge-reranker-v2-m3-Q8_0.gguf";
+
+/**
+ * Parse a rerank response. Voyage returns `data`, Cohere/Jina-style endpoints
+ * return `results`; both carry `{ index, relevance_score }` entries.
+ */
+export function parseRerankResponse(payload: unknown, count: number): number[] {
+  const record = (payload ?? {}) as {
+    data?: Array<{ index?: number; relevance_score?: number }>;
+    results?: Array<{ index?: number; relevance_score?: number }>;
+  };
+  const entries = record.data ?? record.results ?? [];
+  const scores = Array.from({ length: count }, () => 0);
+  for (const entry of entries) {
+    const index = entry?.index;
+    const score = entry?.relevance_score;
+    if (
+      typeof index === "number" &&
+      index >= 0 &&
+      index < count &&
+      typeof score === "number" &&
+      Number.isFinite(score)
+    ) {
+      scores[index] = score;
+    }
+  }
+  return scores;
+}
+
+function createHttpRerankProvider(id: "voyage" | "http", client: HttpRerankClient): RerankProvider {
+  return {
+    id,
+    model: client.model,
+    rerank: async (query, documents) => {
+      if (documents.length === 0) {
+        return [];
+      }
+      const res = await fetch(client.url, {
+        method: "POST",
+        headers: client.headers,
+        body: JSON.stringify({ model: client.model, query, documents }),
+      });
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`${id} rerank failed: ${res.status} ${text}`);
+      }
+      return parseRerankResponse(await res.json(), documents.length);
+    },
+  };
+}
+
+export async function resolveHttpRerankClient(
+  options: RerankProviderOptions,
+): Promise<HttpRerankClient> {
+  const remote = options.remote;
+  const remoteApiKey = remote?.apiKey?.trim();
+  const remoteBaseUrl = remote?.baseUrl?.trim();
+
+  if (options.provider === "voyage") {
+    const apiKey = remoteApiKey
+      ? remoteApiKey
+      : requireApiKey(
+          await resolveApiKeyForProvider({
+            provider: "voyage",
+            cfg: options.config,
+            agentDir: options.agentDir,
+          }),
+          "voyage",
+        );
+    const providerConfig = options.config.models?.providers?.voyage;
+    const baseUrl = remoteBaseUrl || providerConfig?.baseUrl?.trim() || DEFAULT_VOYAGE_BASE_URL;
+    const headerOverrides = Object.assign({}, providerConfig?.headers, remote?.headers);
+    return {
+      url: `${baseUrl.replace(/\/$/, "")}/rerank`,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+        ...headerOverrides,
+      },
+      model: options.model?.trim() || DEFAULT_VOYAGE_RERANK_MODEL,
+    };
+  }
+
+  if (!remoteBaseUrl) {
+    throw new Error("memory rerank provider http requires query.rerank.remote.baseUrl");
+  }
+  const model = options.model?.trim();
+  if (!model) {
+    throw new Error("memory rerank provider http requires query.rerank.model");
+  }
+  return {
+    url: `${remoteBaseUrl.replace(/\/$/, "")}/rerank`,
+    headers: {
+      "Content-Type": "application/json",
+      ...(remoteApiKey ? { Authorization: `Bearer ${remoteApiKey}` } : {}),
+      ...remote?.headers,
+    },
+    model,
+  };
+}
+
+async function createLocalRerankProvider(options: RerankProviderOptions): Promise<RerankProvider> {
+  const modelPath =
+    options.local?.modelPath?.trim() || options.model?.trim() || DEFAULT_LOCAL_RERANK_MODEL;
+  const modelCacheDir = options.local?.modelCacheDir?.trim();
+
+  // Lazy-load node-llama-cpp to keep startup light unless local reranking is enabled.
+  const { getLlama, resolveModelFile, LlamaLogLevel } = await importNodeLlamaCpp();
+
+  let llama: Llama | null = null;
+  let rankingModel: LlamaModel | null = null;
+  let rankingContext: LlamaRankingContext | null = null;
+
+  const ensureContext = async () => {
+    if (!llama) {
+      llama = await getLlama({ logLevel: LlamaLogLevel.error });
+    }
+    if (!rankingModel) {
+      const resolved = await resolveModelFile(modelPath, modelCacheDir || undefined);
+      rankingModel = await llama.loadModel({ modelPath: resolved });
+    }
+    if (!rankingContext) {
+      rankingContext = await rankingModel.createRankingContext();
+    }
+    return rankingContext;
+  };
+
+  return {
+    id: "local",
+    model: modelPath,
+    rerank: async (query, documents) => {
+      if (documents.length === 0) {
+        return [];
+      }
+      const ctx = await ensureContext();
+      return await ctx.rankAll(query, documents);
+    },
+  };
+}
+
+export async function createRerankProvider(
+  options: RerankProviderOptions,
+): Promise<RerankProvider> {
+  if (options.provider === "local") {
+    return await createLocalRerankProvider(options);
+  }
+  const client = await resolveHttpRerankClient(options);
+  return createHttpRerankProvider(options.provider, client);
+}
@@ -1,3 +1,6 @@
+import type { MemoryFact, MemoryFactQuery, MemoryFactUpsert } from "./facts.js";
+import type { MemoryIndexBundle, MemoryIndexImportResult } from "./index-bundle.js";
+
 export type MemorySource = "memory" | "sessions";
 
 export type MemorySearchResult = {
@@ -8,6 +11,18 @@ export type MemorySearchResult = {
   snippet: string;
   source: MemorySource;
   citation?: string;
+  /** Recency weighting applied to `score` (only when a half-life is set for the source). */
+  recency?: MemorySearchRecency;
+};
+
+export type MemorySearchRecency = {
+  /** Score before the decay factor was applied. */
+  baseScore: number;
+  /** Days since the newest message in the chunk (memory files: last modified time). */
+  ageDays: number;
+  halfLifeDays: number;
+  /** Multiplier applied to the score: 0.5 ^ (ageDays / halfLifeDays). */
+  factor: number;
 };
 
 export type MemoryEmbeddingProbeResult = {
@@ -74,6 +89,11 @@ export interface MemorySearchManager {
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  upsertFact?(input: MemoryFactUpsert): Promise<MemoryFact>;
+  queryFacts?(params?: MemoryFactQuery): Promise<MemoryFact[]>;
+  expireFact?(key: string, atMs?: number): Promise<MemoryFact | null>;
+  exportIndex?(): Promise<MemoryIndexBundle>;
+  importIndex?(bundle: unknown): Promise<MemoryIndexImportResult>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
@@ -3,7 +3,7 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import fsPromises from "node:fs/promises";
 import path from "node:path";
-import { resolveAgentConfig } from "../agents/agent-scope.js";
+import { resolveAgentConfig, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import { resolveBrowserConfig } from "../browser/config.js";
 import {
   createBrowserControlContext,
@@ -14,7 +14,7 @@ import { loadConfig } from "../config/config.js";
 import { GatewayClient } from "../gateway/client.js";
 import { loadOrCreateDeviceIdentity } from "../infra/device-identity.js";
 import {
-  addAllowlistEntry,
+  addApprovalGrants,
   analyzeArgvCommand,
   evaluateExecAllowlist,
   evaluateShellAllowlist,
@@ -31,6 +31,7 @@ import {
   type ExecSecurity,
   type ExecApprovalsFile,
   type ExecAllowlistEntry,
+  type ExecAllowlistSegmentExplanation,
   type ExecCommandSegment,
 } from "../infra/exec-approvals.js";
 import {
@@ -906,12 +907,18 @@ async function handleInvoke(
   let allowlistMatches: ExecAllowlistEntry[] = [];
   let allowlistSatisfied = false;
   let segments: ExecCommandSegment[] = [];
+  let allowlistDenied: ExecAllowlistSegmentExplanation | undefined;
+  const grantSessionKey = params.sessionKey?.trim() || undefined;
+  // `paths` rules check against the agent's configured workspace, never the requested cwd.
+  const workspaceDir = agentId ? resolveAgentWorkspaceDir(cfg, agentId) : undefined;
   if (rawCommand) {
     const allowlistEval = evaluateShellAllowlist({
       command: rawCommand,
       allowlist: approvals.allowlist,
       safeBins,
       cwd: params.cwd ?? undefined,
+      workspaceDir,
+      sessionKey: grantSessionKey,
       env,
       skillBins: bins,
       autoAllowSkills,
@@ -921,6 +928,7 @@ async function handleInvoke(
     allowlistMatches = allowlistEval.allowlistMatches;
     allowlistSatisfied =
       security === "allowlist" && analysisOk ? allowlistEval.allowlistSatisfied : false;
+    allowlistDenied = allowlistEval.denied;
     segments = allowlistEval.segments;
   } else {
     const analysis = analyzeArgvCommand({ argv, cwd: params.cwd ?? undefined, env });
@@ -929,6 +937,8 @@ async function handleInvoke(
       allowlist: approvals.allowlist,
       safeBins,
       cwd: params.cwd ?? undefined,
+      workspaceDir,
+      sessionKey: grantSessionKey,
       skillBins: bins,
       autoAllowSkills,
     });
@@ -936,6 +946,7 @@ async function handleInvoke(
     allowlistMatches = allowlistEval.allowlistMatches;
     allowlistSatisfied =
       security === "allowlist" && analysisOk ? allowlistEval.allowlistSatisfied : false;
+    allowlistDenied = allowlistEval.denied;
     segments = analysis.segments;
   }
   const isWindows = process.platform === "win32";
@@ -947,12 +958,38 @@ async function handleInvoke(
     allowlistSatisfied = false;
   }
 
+  // Deny entries veto before any host sees the command, including the macOS app.
+  if (security === "allowlist" && allowlistDenied) {
+    await sendNodeEvent(
+      client,
+      "exec.denied",
+      buildExecEventPayload({
+        sessionKey,
+        runId,
+        host: "node",
+        command: cmdText,
+        reason: "allowlist-deny",
+      }),
+    );
+    await sendInvokeResult(client, frame, {
+      ok: false,
+      error: {
+        code: "UNAVAILABLE",
+        message: `SYSTEM_RUN_DENIED: ${allowlistDenied.command}: ${allowlistDenied.reason}`,
+      },
+    });
+    return;
+  }
+
   const useMacAppExec = process.platform === "darwin";
   if (useMacAppExec) {
+    // The companion app has no session-scoped grants; treat them as a one-off approval.
     const approvalDecision =
-      params.approvalDecision === "allow-once" || params.approvalDecision === "allow-always"
-        ? params.approvalDecision
-        : null;
+      params.approvalDecision === "allow-once" || params.approvalDecision === "allow-session"
+        ? "allow-once"
+        : params.approvalDecision === "allow-always"
+          ? "allow-always"
+          : null;
     const execRequest: ExecHostRequest = {
       command: argv,
       rawCommand: rawCommand || null,
@@ -1057,7 +1094,9 @@ async function handleInvoke(
   });
 
   const approvalDecision =
-    params.approvalDecision === "allow-once" || params.approvalDecision === "allow-always"
+    params.approvalDecision === "allow-once" ||
+    params.approvalDecision === "allow-session" ||
+    params.approvalDecision === "allow-always"
       ? params.approvalDecision
       : null;
   const approvedByAsk = approvalDecision !== null || params.approved === true;
@@ -1079,15 +1118,14 @@ async function handleInvoke(
     });
     return;
   }
-  if (approvalDecision === "allow-always" && security === "allowlist") {
-    if (analysisOk) {
-      for (const segment of segments) {
-        const pattern = segment.resolution?.resolvedPath ?? "";
-        if (pattern) {
-          addAllowlistEntry(approvals.file, agentId, pattern);
-        }
-      }
-    }
+  if (approvalDecision && security === "allowlist" && analysisOk) {
+    addApprovalGrants({
+      approvals: approvals.file,
+      agentId,
+      decision: approvalDecision,
+      segments,
+      sessionKey: grantSessionKey,
+    });
   }
 
   if (security === "allowlist" && (!analysisOk || !allowlistSatisfied) && !approvedByAsk) {
@@ -1,7 +1,11 @@
 import { createRequire } from "node:module";
 import type { PluginRuntime } from "./types.js";
 import { resolveEffectiveMessagesConfig, resolveHumanDelayConfig } from "../../agents/identity.js";
-import { createMemoryGetTool, createMemorySearchTool } from "../../agents/tools/memory-tool.js";
+import {
+  createMemoryFactTools,
+  createMemoryGetTool,
+  createMemorySearchTool,
+} from "../../agents/tools/memory-tool.js";
 import { handleSlackAction } from "../../agents/tools/slack-actions.js";
 import { handleWhatsAppAction } from "../../agents/tools/whatsapp-actions.js";
 import {
@@ -186,6 +190,7 @@ export function createPluginRuntime(): PluginRuntime {
       textToSpeechTelephony,
     },
     tools: {
+      createMemoryFactTools,
       createMemoryGetTool,
       createMemorySearchTool,
       registerMemoryCli,
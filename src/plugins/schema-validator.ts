@@ -1,10 +1,17 @@
 import AjvPkg, { type ErrorObject, type ValidateFunction } from "ajv";
 
-const ajv = new (AjvPkg as unknown as new (opts?: object) => import("ajv").default)({
-  allErrors: true,
-  strict: false,
-  removeAdditional: false,
-});
+type Ajv = import("ajv").default;
+
+function createAjv(opts?: object): Ajv {
+  return new (AjvPkg as unknown as new (opts?: object) => Ajv)({
+    allErrors: true,
+    strict: false,
+    removeAdditional: false,
+    ...opts,
+  });
+}
+
+const ajv = createAjv();
 
 type CachedValidator = {
   validate: ValidateFunction;
@@ -36,9 +43,68 @@ export function validateJsonSchemaValue(params: {
     schemaCache.set(params.cacheKey, cached);
   }
 
-  const ok = cached.validate(params.value);
-  if (ok) {
+  return runValidator(cached.validate, params.value);
+}
+
+function runValidator(
+  validate: ValidateFunction,
+  value: unknown,
+): { ok: true } | { ok: false; errors: string[] } {
+  if (validate(value)) {
     return { ok: true };
   }
-  return { ok: false, errors: formatAjvErrors(cached.validate.errors) };
+  return { ok: false, errors: formatAjvErrors(validate.errors) };
+}
+
+/**
+ * Validator cache for schemas supplied at runtime (by agents rather than plugins or config).
+ * It has its own Ajv instance and keeps at most `maxEntries` compiled schemas; evicted ones
+ * are dropped from Ajv as well. Schema `$id`s are not registered, so two schemas sharing an
+ * `$id` (or one compiled again after eviction) do not collide. `cacheKey` must identify the
+ * schema content.
+ */
+export function createBoundedSchemaValidator(params: { maxEntries: number }) {
+  const isolated = createAjv({ addUsedSchema: false });
+  const validators = new Map<string, CachedValidator>();
+
+  return {
+    validate(input: {
+      schema: Record<string, unknown>;
+      cacheKey: string;
+      value: unknown;
+    }): { ok: true } | { ok: false; errors: string[] } {
+      let cached = validators.get(input.cacheKey);
+      if (cached) {
+        // Refresh recency so the least recently used schema is evicted first.
+        validators.delete(input.cacheKey);
+        validators.set(input.cacheKey, cached);
+      } else {
+        let validate: ValidateFunction;
+        try {
+          validate = isolated.compile(input.schema);
+        } catch (err) {
+          // Ajv keeps schemas it failed to compile; nothing would ever evict them.
+          isolated.removeSchema(input.schema);
+          throw err;
+        }
+        cached = { validate, schema: input.schema };
+        validators.set(input.cacheKey, cached);
+        while (validators.size > params.maxEntries) {
+          const [oldestKey, oldest] = validators.entries().next().value as [
+            string,
+            CachedValidator,
+          ];
+          validators.delete(oldestKey);
+          isolated.removeSchema(oldest.schema);
+        }
+      }
+      return runValidator(cached.validate, input.value);
+    },
+    clear() {
+      for (const cached of validators.values()) {
+        isolated.removeSchema(cached.schema);
+      }
+      validators.clear();
+    },
+  };
 }
@@ -0,0 +1,191 @@
+import type {
+  AgentBinding,
+  AgentBindingMessageMatch,
+  AgentBindingTimeWindow,
+} from "../config/types.agents.js";
+
+/** Inbound message facts used by content-based bindings. */
+export type RouteMessage = {
+  text?: string | null;
+  /** MIME types (or "image"/"audio"/... kinds) of attached media. */
+  mediaTypes?: Array<string | null | undefined> | null;
+};
+
+/**
+ * Channels whose inbound handlers pass message content to routing. Config validation
+ * rejects `match.message` elsewhere, where the rule could never match.
+ */
+export const MESSAGE_RULE_CHANNELS = ["discord", "slack", "telegram", "whatsapp"] as const;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MEDIA_KINDS = new Set(["image", "audio", "video"]);
+
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (patternCache.has(pattern)) {
+    return patternCache.get(pattern) ?? null;
+  }
+  let compiled: RegExp | null = null;
+  try {
+    compiled = new RegExp(pattern, "i");
+  } catch {
+    compiled = null;
+  }
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
+
+function parseClockMinutes(raw: string | undefined): number | null {
+  const match = raw?.trim().match(/^(\d{2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+function resolveLocalDayAndMinutes(
+  nowMs: number,
+  timeZone: string,
+): { weekday: number; minutes: number } | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(new Date(nowMs));
+    const map: Record<string, string> = {};
+    for (const part of parts) {
+      if (part.type !== "literal") {
+        map[part.type] = part.value;
+      }
+    }
+    const weekday = WEEKDAYS.indexOf((map.weekday ?? "").slice(0, 3).toLowerCase());
+    const hour = Number(map.hour);
+    const minute = Number(map.minute);
+    if (weekday < 0 || !Number.isFinite(hour) || !Number.isFinite(minute)) {
+      return null;
+    }
+    return { weekday, minutes: hour * 60 + minute };
+  } catch {
+    return null;
+  }
+}
+
+export function supportsMessageRules(channel: string | undefined): boolean {
+  const normalized = (channel ?? "").trim().toLowerCase();
+  return (MESSAGE_RULE_CHANNELS as readonly string[]).includes(normalized);
+}
+
+export function hasBindingRule(match: AgentBinding["match"] | undefined): boolean {
+  return Boolean(match?.time || match?.message);
+}
+
+/**
+ * True when `nowMs` falls inside the window. For windows that wrap past
+ * midnight, `days` refers to the day the window opened.
+ */
+export function matchesTimeWindow(
+  window: AgentBindingTimeWindow,
+  nowMs: number,
+  defaultTimeZone: string,
+): boolean {
+  const start = parseClockMinutes(window.start);
+  const end = parseClockMinutes(window.end);
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+  const local = resolveLocalDayAndMinutes(nowMs, window.timezone?.trim() || defaultTimeZone);
+  if (!local) {
+    return false;
+  }
+  let openedOn: number;
+  if (end > start) {
+    if (local.minutes < start || local.minutes >= end) {
+      return false;
+    }
+    openedOn = local.weekday;
+  } else if (local.minutes >= start) {
+    openedOn = local.weekday;
+  } else if (local.minutes < end) {
+    openedOn = (local.weekday + 6) % 7;
+  } else {
+    return false;
+  }
+  return !window.days?.length || window.days.includes(openedOn);
+}
+
+function matchesAttachmentKind(kind: string, mediaType: string): boolean {
+  const wanted = kind.trim().toLowerCase();
+  const actual = mediaType.trim().toLowerCase();
+  if (!wanted || !actual) {
+    return false;
+  }
+  if (wanted === "any") {
+    return true;
+  }
+  const actualKind = actual.split("/")[0];
+  if (wanted === "document") {
+    return !MEDIA_KINDS.has(actualKind);
+  }
+  if (MEDIA_KINDS.has(wanted)) {
+    return actualKind === wanted;
+  }
+  // MIME type or prefix ("application/pdf", "application/").
+  return actual === wanted || (wanted.endsWith("/") && actual.startsWith(wanted));
+}
+
+/** Every predicate present on the rule must hold. */
+export function matchesMessageRule(
+  rule: AgentBindingMessageMatch,
+  message: RouteMessage | null | undefined,
+): boolean {
+  const text = message?.text ?? "";
+  if (rule.pattern) {
+    const regex = compilePattern(rule.pattern);
+    if (!regex || !regex.test(text)) {
+      return false;
+    }
+  }
+  if (rule.keywords?.length) {
+    const haystack = text.toLowerCase();
+    const hit = rule.keywords.some((keyword) => {
+      const needle = keyword.trim().toLowerCase();
+      return needle.length > 0 && haystack.includes(needle);
+    });
+    if (!hit) {
+      return false;
+    }
+  }
+  if (rule.attachments?.length) {
+    const mediaTypes = (message?.mediaTypes ?? []).filter(
+      (entry): entry is string => typeof entry === "string" && entry.trim().length > 0,
+    );
+    const hit = rule.attachments.some((kind) =>
+      mediaTypes.some((mediaType) => matchesAttachmentKind(kind, mediaType)),
+    );
+    if (!hit) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function matchesBindingRule(params: {
+  match: AgentBinding["match"];
+  message?: RouteMessage | null;
+  nowMs: number;
+  defaultTimeZone: string;
+}): boolean {
+  const { match } = params;
+  if (match.time && !matchesTimeWindow(match.time, params.nowMs, params.defaultTimeZone)) {
+    return false;
+  }
+  if (match.message && !matchesMessageRule(match.message, params.message)) {
+    return false;
+  }
+  return true;
+}
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "vitest";
 import type { OpenClawConfig } from "../config/config.js";
-import { resolveAgentRoute } from "./resolve-route.js";
+import { BindingsSchema } from "../config/zod-schema.agents.js";
+import { explainAgentRoute, resolveAgentRoute } from "./resolve-route.js";
 
 describe("resolveAgentRoute", () => {
   test("defaults to main/default when no bindings exist", () => {
@@ -435,3 +436,205 @@ describe("backward compatibility: peer.kind dm → direct", () => {
     expect(route.matchedBy).toBe("binding.peer");
   });
 });
+
+describe("rule bindings (time windows and message predicates)", () => {
+  const agents = { list: [{ id: "main" }, { id: "oncall" }, { id: "billing" }, { id: "media" }] };
+  // Monday 2026-03-02 23:30 UTC.
+  const mondayNight = Date.parse("2026-03-02T23:30:00.000Z");
+  const mondayNoon = Date.parse("2026-03-02T12:00:00.000Z");
+
+  test("time window routes after hours, including the part past midnight", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [
+        {
+          agentId: "oncall",
+          match: {
+            channel: "slack",
+            time: { start: "18:00", end: "08:00", days: [1, 2, 3, 4, 5], timezone: "UTC" },
+          },
+        },
+        { agentId: "main", match: { channel: "slack" } },
+      ],
+    };
+    const route = (nowMs: number) =>
+      resolveAgentRoute({ cfg, channel: "slack", peer: { kind: "channel", id: "C1" }, nowMs });
+
+    expect(route(mondayNight)).toMatchObject({ agentId: "oncall", matchedBy: "binding.rule" });
+    // Tuesday 03:00 belongs to Monday's window.
+    expect(route(Date.parse("2026-03-03T03:00:00.000Z")).agentId).toBe("oncall");
+    // Saturday 03:00 belongs to Friday's window; Sunday 03:00 to Saturday's (not listed).
+    expect(route(Date.parse("2026-03-07T03:00:00.000Z")).agentId).toBe("oncall");
+    expect(route(Date.parse("2026-03-08T03:00:00.000Z"))).toMatchObject({
+      agentId: "main",
+      matchedBy: "binding.account",
+    });
+    expect(route(mondayNoon).matchedBy).toBe("binding.account");
+  });
+
+  test("time windows default to the configured user timezone", () => {
+    const cfg: OpenClawConfig = {
+      agents: { ...agents, defaults: { userTimezone: "America/New_York" } },
+      bindings: [
+        { agentId: "oncall", match: { channel: "slack", time: { start: "18:00", end: "23:00" } } },
+      ],
+    };
+    // 23:30 UTC is 18:30 in New York.
+    const route = resolveAgentRoute({ cfg, channel: "slack", nowMs: mondayNight });
+    expect(route.agentId).toBe("oncall");
+  });
+
+  test("message predicates match pattern, keywords and attachments", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [
+        {
+          agentId: "billing",
+          match: { channel: "telegram", message: { pattern: "\\binvoice\\s+#\\d+" } },
+        },
+        {
+          agentId: "billing",
+          match: { channel: "telegram", message: { keywords: ["refund", "chargeback"] } },
+        },
+        {
+          agentId: "media",
+          match: { channel: "telegram", message: { attachments: ["image", "application/pdf"] } },
+        },
+      ],
+    };
+    const route = (message: { text?: string; mediaTypes?: string[] }) =>
+      resolveAgentRoute({ cfg, channel: "telegram", peer: { kind: "direct", id: "1" }, message });
+
+    expect(route({ text: "About Invoice #42" })).toMatchObject({
+      agentId: "billing",
+      matchedBy: "binding.rule",
+    });
+    expect(route({ text: "I want a REFUND" }).agentId).toBe("billing");
+    expect(route({ text: "look", mediaTypes: ["image/png"] }).agentId).toBe("media");
+    expect(route({ mediaTypes: ["application/pdf"] }).agentId).toBe("media");
+    expect(route({ text: "hello", mediaTypes: ["audio/ogg"] })).toMatchObject({
+      agentId: "main",
+      matchedBy: "default",
+    });
+    expect(route({}).matchedBy).toBe("default");
+  });
+
+  test("peer bindings beat rules; rules beat guild/account tiers in config order", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [
+        { agentId: "main", match: { channel: "discord", peer: { kind: "channel", id: "c1" } } },
+        { agentId: "media", match: { channel: "discord", guildId: "g1" } },
+        {
+          agentId: "billing",
+          match: { channel: "discord", guildId: "g1", message: { keywords: ["pay"] } },
+        },
+        { agentId: "oncall", match: { channel: "discord", message: { keywords: ["pay"] } } },
+      ],
+    };
+    const route = (guildId: string, peerId: string, text = "pay now") =>
+      resolveAgentRoute({
+        cfg,
+        channel: "discord",
+        guildId,
+        peer: { kind: "channel", id: peerId },
+        message: { text },
+      });
+    // An exact peer binding is the most specific match, even when a rule holds.
+    expect(route("g1", "c1")).toMatchObject({ agentId: "main", matchedBy: "binding.peer" });
+    expect(route("g1", "c2")).toMatchObject({ agentId: "billing", matchedBy: "binding.rule" });
+    // Guild-scoped rule does not apply elsewhere; the next rule wins.
+    expect(route("g2", "c2")).toMatchObject({ agentId: "oncall", matchedBy: "binding.rule" });
+    expect(route("g1", "c2", "hello")).toMatchObject({
+      agentId: "media",
+      matchedBy: "binding.guild",
+    });
+  });
+
+  test("rule scoped to a peer ignores other peers and never acts as a static binding", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [
+        {
+          agentId: "oncall",
+          match: {
+            channel: "whatsapp",
+            peer: { kind: "direct", id: "+1555" },
+            time: { start: "00:00", end: "24:00", timezone: "UTC", days: [0] },
+          },
+        },
+      ],
+    };
+    const route = (id: string, nowMs: number) =>
+      resolveAgentRoute({ cfg, channel: "whatsapp", peer: { kind: "direct", id }, nowMs });
+    // Sunday.
+    expect(route("+1555", Date.parse("2026-03-08T10:00:00.000Z")).agentId).toBe("oncall");
+    expect(route("+1999", Date.parse("2026-03-08T10:00:00.000Z")).agentId).toBe("main");
+    // Monday: rule does not hold and the peer binding is not used as a plain peer match.
+    expect(route("+1555", mondayNoon).matchedBy).toBe("default");
+  });
+
+  test("config validation rejects message rules on channels that do not pass message content", () => {
+    const parse = (channel: string) =>
+      BindingsSchema.safeParse([
+        { agentId: "billing", match: { channel, message: { keywords: ["refund"] } } },
+      ]);
+    expect(parse("telegram").success).toBe(true);
+    const rejected = parse("signal");
+    expect(rejected.success).toBe(false);
+    expect(rejected.error?.issues[0]?.path).toEqual([0, "match", "message"]);
+    expect(
+      BindingsSchema.safeParse([
+        { agentId: "oncall", match: { channel: "signal", time: { start: "18:00", end: "08:00" } } },
+      ]).success,
+    ).toBe(true);
+  });
+});
+
+describe("explainAgentRoute", () => {
+  const agents = { list: [{ id: "main" }, { id: "support" }, { id: "oncall" }] };
+
+  test("reports the selected binding, superseded matches and mismatches", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [
+        { agentId: "support", match: { channel: "slack", accountId: "*" } },
+        { agentId: "oncall", match: { channel: "discord", accountId: "*" } },
+        { agentId: "support", match: { channel: "discord", guildId: "g1" } },
+        { agentId: "oncall", match: { channel: "discord", accountId: "work" } },
+        {
+          agentId: "oncall",
+          match: { channel: "discord", time: { start: "18:00", end: "08:00", timezone: "UTC" } },
+        },
+      ],
+    };
+    const { route, bindings } = explainAgentRoute({
+      cfg,
+      channel: "discord",
+      guildId: "g1",
+      peer: { kind: "channel", id: "c1" },
+      nowMs: Date.parse("2026-03-09T12:00:00.000Z"),
+    });
+    expect(route).toMatchObject({ agentId: "support", matchedBy: "binding.guild" });
+    expect(bindings.map((entry) => [entry.selected, entry.matchedBy, entry.reason])).toEqual([
+      [false, undefined, "channel mismatch (binding slack)"],
+      [false, "binding.channel", "binding.channel matched; superseded by #2 (binding.guild)"],
+      [true, "binding.guild", "selected"],
+      [false, undefined, "account mismatch (binding work)"],
+      [false, undefined, "outside time window 18:00-08:00 UTC"],
+    ]);
+  });
+
+  test("notes when the selected agent falls back to the default", () => {
+    const cfg: OpenClawConfig = {
+      agents,
+      bindings: [{ agentId: "ghost", match: { channel: "telegram" } }],
+    };
+    const { route, bindings } = explainAgentRoute({ cfg, channel: "telegram" });
+    expect(route).toMatchObject({ agentId: "main", matchedBy: "binding.account" });
+    expect(bindings[0]).toMatchObject({
+      selected: true,
+      reason: 'selected (agent "ghost" not in agents.list; using main)',
+    });
+  });
+});
@@ -1,7 +1,17 @@
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding, AgentBindingTimeWindow } from "../config/types.agents.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { resolveUserTimezone } from "../agents/date-time.js";
 import { normalizeChatType } from "../channels/chat-type.js";
+import {
+  hasBindingRule,
+  matchesBindingRule,
+  matchesMessageRule,
+  matchesTimeWindow,
+  type RouteMessage,
+  supportsMessageRules,
+} from "./binding-rules.js";
 import { listBindings } from "./bindings.js";
 import {
   buildAgentMainSessionKey,
@@ -29,8 +39,14 @@ export type ResolveAgentRouteInput = {
   parentPeer?: RoutePeer | null;
   guildId?: string | null;
   teamId?: string | null;
+  /** Inbound message content for bindings with `match.message` rules. */
+  message?: RouteMessage | null;
+  /** Evaluation time for `match.time` rules (defaults to now). */
+  nowMs?: number;
 };
 
+export type { RouteMessage } from "./binding-rules.js";
+
 export type ResolvedAgentRoute = {
   agentId: string;
   channel: string;
@@ -41,6 +57,7 @@ export type ResolvedAgentRoute = {
   mainSessionKey: string;
   /** Match description for debugging/logging. */
   matchedBy:
+    | "binding.rule"
     | "binding.peer"
     | "binding.peer.parent"
     | "binding.guild"
@@ -185,6 +202,11 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     return matchesAccountId(binding.match?.accountId, accountId);
   });
 
+  // Rule bindings (time window / message predicates) only apply when their
+  // rule holds; static tiers ignore them.
+  const ruleBindings = bindings.filter((b) => hasBindingRule(b.match));
+  const staticBindings = bindings.filter((b) => !hasBindingRule(b.match));
+
   const dmScope = input.cfg.session?.dmScope ?? "main";
   const identityLinks = input.cfg.session?.identityLinks;
 
@@ -212,39 +234,73 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     };
   };
 
+  const parentPeer = input.parentPeer
+    ? { kind: input.parentPeer.kind, id: normalizeId(input.parentPeer.id) }
+    : null;
+
   if (peer) {
-    const peerMatch = bindings.find((b) => matchesPeer(b.match, peer));
+    const peerMatch = staticBindings.find((b) => matchesPeer(b.match, peer));
     if (peerMatch) {
       return choose(peerMatch.agentId, "binding.peer");
     }
   }
 
   // Thread parent inheritance: if peer (thread) didn't match, check parent peer binding
-  const parentPeer = input.parentPeer
-    ? { kind: input.parentPeer.kind, id: normalizeId(input.parentPeer.id) }
-    : null;
   if (parentPeer && parentPeer.id) {
-    const parentPeerMatch = bindings.find((b) => matchesPeer(b.match, parentPeer));
+    const parentPeerMatch = staticBindings.find((b) => matchesPeer(b.match, parentPeer));
     if (parentPeerMatch) {
       return choose(parentPeerMatch.agentId, "binding.peer.parent");
     }
   }
 
+  // Rules come after exact peer bindings and before guild/team/account tiers, in
+  // config order: the first binding whose scope (peer/guild/team, when set) and
+  // rule both match wins. A static binding for a peer always beats a rule.
+  if (ruleBindings.length > 0) {
+    const nowMs = input.nowMs ?? Date.now();
+    const defaultTimeZone = resolveUserTimezone(input.cfg.agents?.defaults?.userTimezone);
+    const ruleMatch = ruleBindings.find((b) => {
+      if (b.match.peer) {
+        const scoped =
+          (peer && matchesPeer(b.match, peer)) ||
+          (parentPeer?.id && matchesPeer(b.match, parentPeer));
+        if (!scoped) {
+          return false;
+        }
+      }
+      if (b.match.guildId && !matchesGuild(b.match, guildId)) {
+        return false;
+      }
+      if (b.match.teamId && !matchesTeam(b.match, teamId)) {
+        return false;
+      }
+      return matchesBindingRule({
+        match: b.match,
+        message: input.message,
+        nowMs,
+        defaultTimeZone,
+      });
+    });
+    if (ruleMatch) {
+      return choose(ruleMatch.agentId, "binding.rule");
+    }
+  }
+
   if (guildId) {
-    const guildMatch = bindings.find((b) => matchesGuild(b.match, guildId));
+    const guildMatch = staticBindings.find((b) => matchesGuild(b.match, guildId));
     if (guildMatch) {
       return choose(guildMatch.agentId, "binding.guild");
     }
   }
 
   if (teamId) {
-    const teamMatch = bindings.find((b) => matchesTeam(b.match, teamId));
+    const teamMatch = staticBindings.find((b) => matchesTeam(b.match, teamId));
     if (teamMatch) {
       return choose(teamMatch.agentId, "binding.team");
     }
   }
 
-  const accountMatch = bindings.find(
+  const accountMatch = staticBindings.find(
     (b) =>
       b.match?.accountId?.trim() !== "*" && !b.match?.peer && !b.match?.guildId && !b.match?.teamId,
   );
@@ -252,7 +308,7 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     return choose(accountMatch.agentId, "binding.account");
   }
 
-  const anyAccountMatch = bindings.find(
+  const anyAccountMatch = staticBindings.find(
     (b) =>
       b.match?.accountId?.trim() === "*" && !b.match?.peer && !b.match?.guildId && !b.match?.teamId,
   );
@@ -262,3 +318,146 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
 
   return choose(resolveDefaultAgentId(input.cfg), "default");
 }
+
+export type RouteBindingEvaluation = {
+  /** Position in `bindings` (config order). */
+  index: number;
+  agentId: string;
+  match: AgentBinding["match"] | undefined;
+  /** Tier the binding matched at; unset when it did not match this input. */
+  matchedBy?: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
+  /** True for the binding that produced the route. */
+  selected: boolean;
+  reason: string;
+};
+
+export type AgentRouteExplanation = {
+  route: ResolvedAgentRoute;
+  bindings: RouteBindingEvaluation[];
+};
+
+function formatTimeWindow(window: AgentBindingTimeWindow): string {
+  const zone = window.timezone?.trim() ? ` ${window.timezone.trim()}` : "";
+  const days = window.days?.length ? ` days ${window.days.join(",")}` : "";
+  return `${window.start}-${window.end}${zone}${days}`;
+}
+
+/**
+ * Evaluate every configured binding against a route input and report why each
+ * one did or did not match. Mirrors the tier order of `resolveAgentRoute`.
+ */
+export function explainAgentRoute(input: ResolveAgentRouteInput): AgentRouteExplanation {
+  const route = resolveAgentRoute(input);
+  const channel = normalizeToken(input.channel);
+  const accountId = normalizeAccountId(input.accountId);
+  const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
+  const parentPeer = input.parentPeer
+    ? { kind: input.parentPeer.kind, id: normalizeId(input.parentPeer.id) }
+    : null;
+  const guildId = normalizeId(input.guildId);
+  const teamId = normalizeId(input.teamId);
+  const nowMs = input.nowMs ?? Date.now();
+  const defaultTimeZone = resolveUserTimezone(input.cfg.agents?.defaults?.userTimezone);
+
+  const scopeMismatch = (match: AgentBinding["match"]): string | null => {
+    if (match.peer) {
+      if (!peer && !parentPeer?.id) {
+        return "binding requires a peer";
+      }
+      const scoped =
+        (peer && matchesPeer(match, peer)) || (parentPeer?.id && matchesPeer(match, parentPeer));
+      if (!scoped) {
+        return `peer mismatch (binding ${match.peer.kind}:${match.peer.id})`;
+      }
+    }
+    if (match.guildId && !matchesGuild(match, guildId)) {
+      return `guild mismatch (binding ${match.guildId})`;
+    }
+    if (match.teamId && !matchesTeam(match, teamId)) {
+      return `team mismatch (binding ${match.teamId})`;
+    }
+    return null;
+  };
+
+  const staticTier = (match: AgentBinding["match"]): RouteBindingEvaluation["matchedBy"] => {
+    if (peer && matchesPeer(match, peer)) {
+      return "binding.peer";
+    }
+    if (parentPeer?.id && matchesPeer(match, parentPeer)) {
+      return "binding.peer.parent";
+    }
+    if (guildId && matchesGuild(match, guildId)) {
+      return "binding.guild";
+    }
+    if (teamId && matchesTeam(match, teamId)) {
+      return "binding.team";
+    }
+    if (match.peer || match.guildId || match.teamId) {
+      return undefined;
+    }
+    return match.accountId?.trim() === "*" ? "binding.channel" : "binding.account";
+  };
+
+  const evaluations = listBindings(input.cfg).map((binding, index): RouteBindingEvaluation => {
+    const base = {
+      index,
+      agentId: typeof binding?.agentId === "string" ? binding.agentId : "",
+      match: binding?.match,
+      selected: false,
+    };
+    if (!binding || typeof binding !== "object" || !binding.match) {
+      return { ...base, reason: "invalid binding" };
+    }
+    const match = binding.match;
+    if (!matchesChannel(match, channel)) {
+      return { ...base, reason: `channel mismatch (binding ${match.channel ?? "unset"})` };
+    }
+    if (!matchesAccountId(match.accountId, accountId)) {
+      const expected = match.accountId?.trim() || DEFAULT_ACCOUNT_ID;
+      return { ...base, reason: `account mismatch (binding ${expected})` };
+    }
+    if (hasBindingRule(match)) {
+      const mismatch = scopeMismatch(match);
+      if (mismatch) {
+        return { ...base, reason: mismatch };
+      }
+      if (match.time && !matchesTimeWindow(match.time, nowMs, defaultTimeZone)) {
+        return { ...base, reason: `outside time window ${formatTimeWindow(match.time)}` };
+      }
+      if (match.message && !supportsMessageRules(channel)) {
+        return { ...base, reason: `message rules are not supported on ${channel}` };
+      }
+      if (match.message && !matchesMessageRule(match.message, input.message)) {
+        return { ...base, reason: "message rule not satisfied" };
+      }
+      return { ...base, matchedBy: "binding.rule", reason: "rule matched" };
+    }
+    const tier = staticTier(match);
+    if (!tier) {
+      return { ...base, reason: scopeMismatch(match) ?? "no matching tier" };
+    }
+    return { ...base, matchedBy: tier, reason: `${tier} matched` };
+  });
+
+  // The route comes from the first binding (config order) at the winning tier.
+  const winner =
+    route.matchedBy === "default"
+      ? undefined
+      : evaluations.find((entry) => entry.matchedBy === route.matchedBy);
+  for (const entry of evaluations) {
+    if (!entry.matchedBy) {
+      continue;
+    }
+    if (entry === winner) {
+      entry.selected = true;
+      entry.reason =
+        normalizeAgentId(entry.agentId) === normalizeAgentId(route.agentId)
+          ? "selected"
+          : `selected (agent "${entry.agentId}" not in agents.list; using ${route.agentId})`;
+    } else if (winner) {
+      entry.reason = `${entry.reason}; superseded by #${winner.index} (${winner.matchedBy})`;
+    }
+  }
+
+  return { route, bindings: evaluations };
+}
@@ -1,7 +1,12 @@
-import { describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it } from "vitest";
 import type { OpenClawConfig } from "../config/config.js";
 import type { SessionEntry } from "../config/sessions.js";
-import { resolveSendPolicy } from "./send-policy.js";
+import {
+  evaluateOutboundSendPolicy,
+  hasOutboundSendPolicyRules,
+  resetOutboundSendRateLimitsForTests,
+  resolveSendPolicy,
+} from "./send-policy.js";
 
 describe("resolveSendPolicy", () => {
   it("defaults to allow", () => {
@@ -56,3 +61,121 @@ describe("resolveSendPolicy", () => {
     expect(resolveSendPolicy({ cfg, sessionKey: "cron:job-1" })).toBe("deny");
   });
 });
+
+describe("evaluateOutboundSendPolicy", () => {
+  beforeEach(() => {
+    resetOutboundSendRateLimitsForTests();
+  });
+
+  it("allows when no per-message rules are configured", () => {
+    const cfg = {
+      session: { sendPolicy: { rules: [{ action: "deny", match: { keyPrefix: "cron:" } }] } },
+    } as OpenClawConfig;
+    expect(hasOutboundSendPolicyRules(cfg)).toBe(false);
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "telegram", to: "123", sessionKey: "cron:a" }),
+    ).toEqual({ decision: "allow" });
+  });
+
+  it("does not deny whole sessions from hold rules", () => {
+    const cfg = {
+      session: { sendPolicy: { rules: [{ action: "hold", match: { channel: "telegram" } }] } },
+    } as OpenClawConfig;
+    expect(resolveSendPolicy({ cfg, sessionKey: "agent:main:telegram:direct:1" })).toBe("allow");
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "telegram", to: "1", sessionKey: "main" }),
+    ).toEqual({ decision: "hold", ruleIndex: 0, reason: "held for approval" });
+    expect(evaluateOutboundSendPolicy({ cfg, channel: "slack", to: "C1" }).decision).toBe("allow");
+  });
+
+  it("holds inside quiet hours in the configured timezone", () => {
+    const cfg = {
+      session: {
+        sendPolicy: {
+          rules: [{ quietHours: { start: "22:00", end: "07:00", timezone: "UTC" } }],
+        },
+      },
+    } as OpenClawConfig;
+    const night = Date.parse("2026-03-07T23:30:00Z");
+    const day = Date.parse("2026-03-07T12:00:00Z");
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "whatsapp", to: "+1", nowMs: night }),
+    ).toEqual({ decision: "hold", ruleIndex: 0, reason: "quiet hours 22:00-07:00" });
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "whatsapp", to: "+1", nowMs: day }).decision,
+    ).toBe("allow");
+  });
+
+  it("uses the recipient's timezone for quiet hours", () => {
+    const cfg = {
+      session: {
+        sendPolicy: {
+          recipientTimezones: { "telegram:42": "Asia/Tokyo" },
+          rules: [{ quietHours: { start: "22:00", end: "07:00", timezone: "UTC" } }],
+        },
+      },
+    } as OpenClawConfig;
+    // 23:30 UTC is 08:30 in Tokyo.
+    const nowMs = Date.parse("2026-03-07T23:30:00Z");
+    expect(evaluateOutboundSendPolicy({ cfg, channel: "telegram", to: "42", nowMs }).decision).toBe(
+      "allow",
+    );
+    expect(evaluateOutboundSendPolicy({ cfg, channel: "telegram", to: "7", nowMs }).decision).toBe(
+      "hold",
+    );
+  });
+
+  it("applies the rate limit per session within the window", () => {
+    const cfg = {
+      session: {
+        sendPolicy: {
+          rules: [{ rateLimit: { max: 2, windowSeconds: 60, action: "deny" } }],
+        },
+      },
+    } as OpenClawConfig;
+    const send = (sessionKey: string, nowMs: number) =>
+      evaluateOutboundSendPolicy({ cfg, channel: "discord", to: "c", sessionKey, nowMs }).decision;
+    expect(send("a", 0)).toBe("allow");
+    expect(send("a", 1_000)).toBe("allow");
+    expect(send("a", 2_000)).toBe("deny");
+    expect(send("b", 2_000)).toBe("allow");
+    expect(send("a", 61_000)).toBe("allow");
+  });
+
+  it("does not count dry runs against the rate limit", () => {
+    const cfg = {
+      session: {
+        sendPolicy: {
+          rules: [{ rateLimit: { max: 1, windowSeconds: 60 } }],
+        },
+      },
+    } as OpenClawConfig;
+    const send = (dryRun: boolean) =>
+      evaluateOutboundSendPolicy({ cfg, channel: "discord", to: "c", nowMs: 0, dryRun });
+    expect(send(true).decision).toBe("allow");
+    expect(send(true).decision).toBe("allow");
+    expect(send(false).decision).toBe("allow");
+    expect(send(true)).toEqual({
+      decision: "hold",
+      ruleIndex: 0,
+      reason: "rate limit 1/60s exceeded",
+    });
+  });
+
+  it("shares channel-scoped rate limits across sessions", () => {
+    const cfg = {
+      session: {
+        sendPolicy: {
+          rules: [{ rateLimit: { max: 1, windowSeconds: 60, per: "channel" } }],
+        },
+      },
+    } as OpenClawConfig;
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "slack", to: "C1", sessionKey: "a", nowMs: 0 })
+        .decision,
+    ).toBe("allow");
+    expect(
+      evaluateOutboundSendPolicy({ cfg, channel: "slack", to: "C2", sessionKey: "b", nowMs: 10 }),
+    ).toEqual({ decision: "hold", ruleIndex: 0, reason: "rate limit 1/60s exceeded" });
+  });
+});
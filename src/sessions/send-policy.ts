@@ -1,9 +1,29 @@
 import type { OpenClawConfig } from "../config/config.js";
 import type { SessionChatType, SessionEntry } from "../config/sessions.js";
+import type {
+  SessionOutboundSendPolicyRule,
+  SessionSendPolicyMatch,
+} from "../config/types.base.js";
+import { resolveUserTimezone } from "../agents/date-time.js";
 import { normalizeChatType } from "../channels/chat-type.js";
+import {
+  readSendRateWindowsSync,
+  type SendRateWindowsFile,
+  writeSendRateWindows,
+} from "../infra/outbound/outbox.js";
+import { matchesTimeWindow } from "../routing/binding-rules.js";
 
 export type SessionSendPolicyDecision = "allow" | "deny";
 
+export type OutboundSendPolicyDecision = "allow" | "deny" | "hold";
+
+export type OutboundSendPolicyResult = {
+  decision: OutboundSendPolicyDecision;
+  /** Index into `session.sendPolicy.rules` of the rule that decided (when any). */
+  ruleIndex?: number;
+  reason?: string;
+};
+
 export function normalizeSendPolicy(raw?: string | null): SessionSendPolicyDecision | undefined {
   const value = raw?.trim().toLowerCase();
   if (value === "allow") {
@@ -20,6 +40,25 @@ function normalizeMatchValue(raw?: string | null) {
   return value ? value : undefined;
 }
 
+function matchesSendPolicyRule(
+  match: SessionSendPolicyMatch | undefined,
+  ctx: { channel?: string; chatType?: SessionChatType; sessionKey: string },
+): boolean {
+  const matchChannel = normalizeMatchValue(match?.channel);
+  const matchChatType = normalizeChatType(match?.chatType);
+  const matchPrefix = normalizeMatchValue(match?.keyPrefix);
+  if (matchChannel && matchChannel !== ctx.channel) {
+    return false;
+  }
+  if (matchChatType && matchChatType !== ctx.chatType) {
+    return false;
+  }
+  if (matchPrefix && !ctx.sessionKey.startsWith(matchPrefix)) {
+    return false;
+  }
+  return true;
+}
+
 function deriveChannelFromKey(key?: string) {
   if (!key) {
     return undefined;
@@ -44,21 +83,36 @@ function deriveChatTypeFromKey(key?: string): SessionChatType | undefined {
   return undefined;
 }
 
-export function resolveSendPolicy(params: {
+export type SessionSendPolicyExplanation = {
+  decision: SessionSendPolicyDecision;
+  /** The session's own override, `session.sendPolicy`, or the built-in allow. */
+  source: "session" | "config" | "default";
+  /** Index into `session.sendPolicy.rules` of the rule that decided (when any). */
+  ruleIndex?: number;
+};
+
+type SendPolicyParams = {
   cfg: OpenClawConfig;
   entry?: SessionEntry;
   sessionKey?: string;
   channel?: string;
   chatType?: SessionChatType;
-}): SessionSendPolicyDecision {
+};
+
+export function resolveSendPolicy(params: SendPolicyParams): SessionSendPolicyDecision {
+  return explainSendPolicy(params).decision;
+}
+
+/** Like `resolveSendPolicy`, also reporting where the decision came from. */
+export function explainSendPolicy(params: SendPolicyParams): SessionSendPolicyExplanation {
   const override = normalizeSendPolicy(params.entry?.sendPolicy);
   if (override) {
-    return override;
+    return { decision: override, source: "session" };
   }
 
   const policy = params.cfg.session?.sendPolicy;
   if (!policy) {
-    return "allow";
+    return { decision: "allow", source: "default" };
   }
 
   const channel =
@@ -71,36 +125,194 @@ export function resolveSendPolicy(params: {
     normalizeChatType(deriveChatTypeFromKey(params.sessionKey));
   const sessionKey = params.sessionKey ?? "";
 
-  let allowedMatch = false;
-  for (const rule of policy.rules ?? []) {
-    if (!rule) {
+  let allowedBy: number | undefined;
+  for (const [ruleIndex, rule] of (policy.rules ?? []).entries()) {
+    // Limit-only rules (rateLimit/quietHours without an action) apply per message.
+    if (!rule?.action) {
       continue;
     }
+    // "hold" lets the session run; its outbound messages are queued per message.
     const action = normalizeSendPolicy(rule.action) ?? "allow";
-    const match = rule.match ?? {};
-    const matchChannel = normalizeMatchValue(match.channel);
-    const matchChatType = normalizeChatType(match.chatType);
-    const matchPrefix = normalizeMatchValue(match.keyPrefix);
-
-    if (matchChannel && matchChannel !== channel) {
+    if (!matchesSendPolicyRule(rule.match, { channel, chatType, sessionKey })) {
       continue;
     }
-    if (matchChatType && matchChatType !== chatType) {
-      continue;
+    if (action === "deny") {
+      return { decision: "deny", source: "config", ruleIndex };
     }
-    if (matchPrefix && !sessionKey.startsWith(matchPrefix)) {
+    allowedBy ??= ruleIndex;
+  }
+
+  if (allowedBy !== undefined) {
+    return { decision: "allow", source: "config", ruleIndex: allowedBy };
+  }
+
+  const fallback = normalizeSendPolicy(policy.default);
+  return { decision: fallback ?? "allow", source: "config" };
+}
+
+// Loaded from the outbox state dir on first use so windows survive a gateway restart.
+let sendRateWindows: SendRateWindowsFile | null = null;
+
+function loadSendRateWindows(nowMs: number): SendRateWindowsFile {
+  if (sendRateWindows) {
+    return sendRateWindows;
+  }
+  sendRateWindows = {};
+  for (const [key, window] of Object.entries(readSendRateWindowsSync())) {
+    const sent = Array.isArray(window?.sent)
+      ? window.sent.filter((ts) => typeof ts === "number" && nowMs - ts < window.windowMs)
+      : [];
+    if (sent.length > 0) {
+      sendRateWindows[key] = { windowMs: window.windowMs, sent };
+    }
+  }
+  return sendRateWindows;
+}
+
+function resolveRateLimitKey(
+  rule: SessionOutboundSendPolicyRule,
+  ruleIndex: number,
+  params: { channel: string; accountId?: string; to: string; sessionKey?: string },
+): string {
+  const scope =
+    rule.rateLimit?.per === "channel"
+      ? `channel:${params.channel}:${params.accountId ?? ""}`
+      : `session:${params.sessionKey ?? `${params.channel}:${params.accountId ?? ""}:${params.to}`}`;
+  return `${ruleIndex}|${scope}`;
+}
+
+function pruneRateWindow(
+  windows: SendRateWindowsFile,
+  key: string,
+  windowMs: number,
+  nowMs: number,
+): number[] {
+  const kept = (windows[key]?.sent ?? []).filter((ts) => nowMs - ts < windowMs);
+  if (kept.length > 0) {
+    windows[key] = { windowMs, sent: kept };
+  } else {
+    delete windows[key];
+  }
+  return kept;
+}
+
+/**
+ * Quiet hours follow the recipient: `recipientTimezones` (keyed by `<channel>:<to>` or `<to>`)
+ * wins over the rule's timezone, which wins over the user timezone.
+ */
+function resolveRecipientTimezone(
+  cfg: OpenClawConfig,
+  params: { channel?: string; to: string },
+): string | undefined {
+  const map = cfg.session?.sendPolicy?.recipientTimezones;
+  if (!map) {
+    return undefined;
+  }
+  const to = params.to.trim();
+  const scoped = params.channel ? map[`${params.channel}:${to}`] : undefined;
+  return scoped?.trim() || map[to]?.trim() || undefined;
+}
+
+export function hasOutboundSendPolicyRules(cfg: OpenClawConfig): boolean {
+  return (cfg.session?.sendPolicy?.rules ?? []).some(
+    (rule) => rule?.action === "hold" || Boolean(rule?.rateLimit) || Boolean(rule?.quietHours),
+  );
+}
+
+/**
+ * Per-message outbound check: hold rules, quiet hours and rate limits from
+ * `session.sendPolicy.rules`. The first matching rule that does not allow wins.
+ * Allowed sends are counted against every matching rate limit unless `dryRun` is set.
+ */
+export function evaluateOutboundSendPolicy(params: {
+  cfg: OpenClawConfig;
+  channel: string;
+  to: string;
+  accountId?: string;
+  sessionKey?: string;
+  chatType?: SessionChatType;
+  /** Number of messages about to be sent (default: 1). */
+  count?: number;
+  nowMs?: number;
+  /** Decide without counting the send against rate limits (e.g. `routing.explain`). */
+  dryRun?: boolean;
+}): OutboundSendPolicyResult {
+  const rules = params.cfg.session?.sendPolicy?.rules ?? [];
+  if (rules.length === 0) {
+    return { decision: "allow" };
+  }
+  const nowMs = params.nowMs ?? Date.now();
+  const count = Math.max(1, params.count ?? 1);
+  const sessionKey = params.sessionKey ?? "";
+  const ctx = {
+    channel: normalizeMatchValue(params.channel) ?? deriveChannelFromKey(sessionKey),
+    chatType:
+      normalizeChatType(params.chatType) ?? normalizeChatType(deriveChatTypeFromKey(sessionKey)),
+    sessionKey,
+  };
+  const defaultTimeZone = resolveUserTimezone(params.cfg.agents?.defaults?.userTimezone);
+  const recipientTimeZone = resolveRecipientTimezone(params.cfg, {
+    channel: ctx.channel,
+    to: params.to,
+  });
+  const limited: Array<{ key: string; windowMs: number }> = [];
+  let windows: SendRateWindowsFile | undefined;
+
+  for (const [ruleIndex, rule] of rules.entries()) {
+    if (!rule || !matchesSendPolicyRule(rule.match, ctx)) {
       continue;
     }
-    if (action === "deny") {
-      return "deny";
+    // allow/deny actions gate whole sessions (resolveSendPolicy), not single messages.
+    if (rule.action === "hold") {
+      return { decision: "hold", ruleIndex, reason: "held for approval" };
+    }
+    const quietHours =
+      rule.quietHours && recipientTimeZone
+        ? { ...rule.quietHours, timezone: recipientTimeZone }
+        : rule.quietHours;
+    if (quietHours && matchesTimeWindow(quietHours, nowMs, defaultTimeZone)) {
+      return {
+        decision: quietHours.action ?? "hold",
+        ruleIndex,
+        reason: `quiet hours ${quietHours.start}-${quietHours.end}`,
+      };
+    }
+    if (rule.rateLimit) {
+      const windowMs = rule.rateLimit.windowSeconds * 1000;
+      const key = resolveRateLimitKey(rule, ruleIndex, {
+        channel: ctx.channel ?? params.channel,
+        accountId: params.accountId,
+        to: params.to,
+        sessionKey: params.sessionKey,
+      });
+      windows ??= loadSendRateWindows(nowMs);
+      const sent = params.dryRun
+        ? (windows[key]?.sent ?? []).filter((ts) => nowMs - ts < windowMs)
+        : pruneRateWindow(windows, key, windowMs, nowMs);
+      if (sent.length + count > rule.rateLimit.max) {
+        return {
+          decision: rule.rateLimit.action ?? "hold",
+          ruleIndex,
+          reason: `rate limit ${rule.rateLimit.max}/${rule.rateLimit.windowSeconds}s exceeded`,
+        };
+      }
+      limited.push({ key, windowMs });
     }
-    allowedMatch = true;
   }
 
-  if (allowedMatch) {
-    return "allow";
+  if (windows && limited.length > 0 && !params.dryRun) {
+    for (const { key, windowMs } of limited) {
+      const sent = windows[key]?.sent ?? [];
+      for (let i = 0; i < count; i += 1) {
+        sent.push(nowMs);
+      }
+      windows[key] = { windowMs, sent };
+    }
+    void writeSendRateWindows(windows);
   }
+  return { decision: "allow" };
+}
 
-  const fallback = normalizeSendPolicy(policy.default);
-  return fallback ?? "allow";
+export function resetOutboundSendRateLimitsForTests(): void {
+  sendRateWindows = {};
 }
@@ -191,6 +191,10 @@ export async function prepareSlackMessage(params: {
       kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
       id: isDirectMessage ? (message.user ?? "unknown") : message.channel,
     },
+    message: {
+      text: message.text,
+      mediaTypes: message.files?.map((file) => file.mimetype),
+    },
   });
 
   const baseSessionKey = route.sessionKey;
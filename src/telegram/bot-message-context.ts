@@ -174,6 +174,10 @@ export const buildTelegramMessageContext = async ({
       id: peerId,
     },
     parentPeer,
+    message: {
+      text: msg.text ?? msg.caption,
+      mediaTypes: allMedia.map((media) => media.contentType),
+    },
   });
   const baseSessionKey = route.sessionKey;
   // DMs: use raw messageThreadId for thread sessions (not forum topic ids)
@@ -9,8 +9,14 @@ declare module "node-llama-cpp" {
     getEmbeddingFor: (text: string) => Promise<LlamaEmbedding>;
   };
 
+  export type LlamaRankingContext = {
+    rankAll: (query: string, documents: string[]) => Promise<number[]>;
+  };
+
   export type LlamaModel = {
     createEmbeddingContext: () => Promise<LlamaEmbeddingContext>;
+    createRankingContext: () => Promise<LlamaRankingContext>;
+    tokenize: (text: string) => unknown[];
   };
 
   export type Llama = {
@@ -72,6 +72,7 @@ export function createWebOnMessageHandler(params: {
         kind: msg.chatType === "group" ? "group" : "direct",
         id: peerId,
       },
+      message: { text: msg.body, mediaTypes: [msg.mediaType] },
     });
     const groupHistoryKey =
       msg.chatType === "group"
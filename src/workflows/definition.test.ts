@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  findWorkspaceWorkflow,
+  loadWorkspaceWorkflows,
+  parseWorkflowDefinition,
+  resolveWorkflowInputs,
+} from "./definition.js";
+import {
+  evaluateWorkflowCondition,
+  renderWorkflowTemplate,
+  resolveForEachItems,
+} from "./expressions.js";
+
+describe("workflow definitions", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-workflows-"));
+    await fs.mkdir(path.join(workspaceDir, "workflows"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("loads workspace YAML files and reports broken ones", async () => {
+    await fs.writeFile(
+      path.join(workspaceDir, "workflows", "triage.yaml"),
+      [
+        "description: Triage open issues",
+        "inputs:",
+        "  repo: { required: true }",
+        "  label: bug",
+        "steps:",
+        "  - id: collect",
+        '    task: "List open {{inputs.label}} issues in {{inputs.repo}}, one per line."',
+        "  - id: analyze",
+        "    needs: collect",
+        '    forEach: "{{steps.collect.output}}"',
+        '    task: "Analyze {{item}}"',
+        "  - id: escalate",
+        "    when: { step: analyze, contains: critical }",
+        '    task: "Escalate: {{steps.analyze.output}}"',
+      ].join("\n"),
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "workflows", "loop.yml"),
+      ["steps:", "  - { id: a, needs: b, task: x }", "  - { id: b, needs: a, task: y }"].join("\n"),
+    );
+
+    const { workflows, errors } = await loadWorkspaceWorkflows(workspaceDir);
+    expect(workflows.map((entry) => entry.definition.name)).toEqual(["triage"]);
+    const escalate = workflows[0]?.definition.steps[2];
+    expect(escalate?.needs).toEqual(["analyze"]);
+    expect(escalate?.onError).toBe("fail");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.error).toContain("cycle: a -> b -> a");
+    await expect(findWorkspaceWorkflow(workspaceDir, "loop")).rejects.toThrow(/cycle/);
+    await expect(findWorkspaceWorkflow(workspaceDir, "missing")).resolves.toBeNull();
+
+    const definition = workflows[0].definition;
+    expect(resolveWorkflowInputs(definition, {})).toEqual({
+      ok: false,
+      error: "missing required input: repo",
+    });
+    expect(resolveWorkflowInputs(definition, { repo: "acme/app" })).toEqual({
+      ok: true,
+      inputs: { repo: "acme/app", label: "bug" },
+    });
+  });
+
+  it("rejects unknown needs and step references outside the dependency chain", () => {
+    expect(
+      parseWorkflowDefinition({ steps: [{ id: "a", task: "x", needs: ["nope"] }] }, "wf"),
+    ).toEqual({ ok: false, error: "step a needs unknown step: nope" });
+    expect(
+      parseWorkflowDefinition(
+        {
+          steps: [
+            { id: "a", task: "x" },
+            { id: "b", task: "{{steps.a.output}}" },
+          ],
+        },
+        "wf",
+      ),
+    ).toEqual({ ok: false, error: "step b references steps.a without needing it" });
+    expect(parseWorkflowDefinition({ steps: [{ id: "a", task: "x", retries: 2 }] }, "wf").ok).toBe(
+      false,
+    );
+  });
+
+  it("renders templates, fan-out items and conditions", () => {
+    const steps = {
+      collect: {
+        status: "ok" as const,
+        runs: [{ index: 0, status: "ok" as const, output: "- #12 crash\n- #14 typo" }],
+        output: "- #12 crash\n- #14 typo",
+      },
+    };
+    const ctx = { inputs: { repo: "acme/app" }, steps };
+    expect(renderWorkflowTemplate("{{inputs.repo}}: {{ steps.collect.status }} {{x}}", ctx)).toBe(
+      "acme/app: ok {{x}}",
+    );
+    expect(resolveForEachItems("{{steps.collect.output}}", ctx)).toEqual({
+      ok: true,
+      items: ["#12 crash", "#14 typo"],
+    });
+    expect(resolveForEachItems('["a", "b"]', ctx)).toEqual({ ok: true, items: ["a", "b"] });
+    expect(resolveForEachItems(Array.from({ length: 21 }, String), ctx).ok).toBe(false);
+    expect(evaluateWorkflowCondition({ step: "collect", contains: "CRASH" }, steps)).toBe(true);
+    expect(evaluateWorkflowCondition({ step: "collect", matches: "^urgent" }, steps)).toBe(false);
+    expect(evaluateWorkflowCondition({ step: "collect", status: "error", not: true }, steps)).toBe(
+      true,
+    );
+  });
+});
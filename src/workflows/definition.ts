@@ -0,0 +1,299 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { z } from "zod";
+import type { LoadedWorkflow, WorkflowDefinition, WorkflowStepDefinition } from "./types.js";
+import { listTemplateStepRefs } from "./expressions.js";
+
+export const WORKFLOWS_DIRNAME = "workflows";
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const InputSchema = z.union([
+  z.string(),
+  z
+    .object({
+      description: z.string().optional(),
+      default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      required: z.boolean().optional(),
+    })
+    .strict(),
+]);
+
+const ConditionSchema = z
+  .object({
+    step: z.string().regex(ID_PATTERN),
+    status: z.enum(["ok", "error", "skipped"]).optional(),
+    contains: z.string().optional(),
+    equals: z.string().optional(),
+    matches: z.string().optional(),
+    not: z.boolean().optional(),
+  })
+  .strict();
+
+const StepSchema = z
+  .object({
+    id: z.string().regex(ID_PATTERN, "step ids use letters, digits, - and _"),
+    agent: z.string().optional(),
+    task: z.string().min(1),
+    needs: z.union([z.string(), z.array(z.string())]).optional(),
+    model: z.string().optional(),
+    thinking: z.string().optional(),
+    timeoutSeconds: z.number().int().positive().optional(),
+    forEach: z.union([z.string(), z.array(z.union([z.string(), z.number()]))]).optional(),
+    when: ConditionSchema.optional(),
+    onError: z.enum(["fail", "continue"]).optional(),
+  })
+  .strict();
+
+const WorkflowSchema = z
+  .object({
+    name: z.string().regex(ID_PATTERN).optional(),
+    description: z.string().optional(),
+    agent: z.string().optional(),
+    inputs: z.record(z.string(), InputSchema).optional(),
+    steps: z.array(StepSchema).min(1),
+    output: z.string().optional(),
+  })
+  .strict();
+
+export type WorkflowParseResult =
+  | { ok: true; definition: WorkflowDefinition }
+  | { ok: false; error: string };
+
+export function resolveWorkflowsDir(workspaceDir: string) {
+  return path.join(workspaceDir, WORKFLOWS_DIRNAME);
+}
+
+/** Steps this step waits on, directly or through its own needs. */
+export function collectWorkflowAncestors(
+  steps: WorkflowStepDefinition[],
+  stepId: string,
+): Set<string> {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const seen = new Set<string>();
+  const stack = [...(byId.get(stepId)?.needs ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    stack.push(...(byId.get(id)?.needs ?? []));
+  }
+  return seen;
+}
+
+function findCycle(steps: WorkflowStepDefinition[]): string[] | null {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const state = new Map<string, "visiting" | "done">();
+  const trail: string[] = [];
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") {
+      return null;
+    }
+    if (state.get(id) === "visiting") {
+      return [...trail.slice(trail.indexOf(id)), id];
+    }
+    state.set(id, "visiting");
+    trail.push(id);
+    for (const need of byId.get(id)?.needs ?? []) {
+      const cycle = visit(need);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    trail.pop();
+    state.set(id, "done");
+    return null;
+  };
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+function validateGraph(definition: WorkflowDefinition): string | null {
+  const ids = new Set<string>();
+  for (const step of definition.steps) {
+    if (ids.has(step.id)) {
+      return `duplicate step id: ${step.id}`;
+    }
+    ids.add(step.id);
+  }
+  for (const step of definition.steps) {
+    for (const need of step.needs) {
+      if (!ids.has(need)) {
+        return `step ${step.id} needs unknown step: ${need}`;
+      }
+    }
+  }
+  const cycle = findCycle(definition.steps);
+  if (cycle) {
+    return `steps form a cycle: ${cycle.join(" -> ")}`;
+  }
+  for (const step of definition.steps) {
+    const ancestors = collectWorkflowAncestors(definition.steps, step.id);
+    const templates = [step.task, ...(typeof step.forEach === "string" ? [step.forEach] : [])];
+    for (const ref of templates.flatMap(listTemplateStepRefs)) {
+      if (!ancestors.has(ref)) {
+        return `step ${step.id} references steps.${ref} without needing it`;
+      }
+    }
+    if (step.when?.matches) {
+      try {
+        new RegExp(step.when.matches, "i");
+      } catch {
+        return `step ${step.id} has an invalid when.matches pattern`;
+      }
+    }
+  }
+  if (definition.output) {
+    for (const ref of listTemplateStepRefs(definition.output)) {
+      if (!ids.has(ref)) {
+        return `output references unknown step: ${ref}`;
+      }
+    }
+  }
+  return null;
+}
+
+export function parseWorkflowDefinition(raw: unknown, fallbackName: string): WorkflowParseResult {
+  const parsed = WorkflowSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, error: `${where}${issue?.message ?? "invalid workflow"}` };
+  }
+  const value = parsed.data;
+  const inputs: WorkflowDefinition["inputs"] = {};
+  for (const [key, input] of Object.entries(value.inputs ?? {})) {
+    inputs[key] =
+      typeof input === "string"
+        ? { default: input }
+        : {
+            description: input.description,
+            default: input.default === undefined ? undefined : String(input.default),
+            required: input.required,
+          };
+  }
+  const definition: WorkflowDefinition = {
+    name: value.name ?? fallbackName,
+    description: value.description,
+    agent: value.agent,
+    inputs,
+    output: value.output,
+    steps: value.steps.map((step) => {
+      const needs = typeof step.needs === "string" ? [step.needs] : (step.needs ?? []);
+      // A condition on a step implies waiting for it.
+      if (step.when && !needs.includes(step.when.step)) {
+        needs.push(step.when.step);
+      }
+      return {
+        id: step.id,
+        agent: step.agent,
+        task: step.task,
+        needs,
+        model: step.model,
+        thinking: step.thinking,
+        timeoutSeconds: step.timeoutSeconds,
+        forEach: Array.isArray(step.forEach) ? step.forEach.map(String) : step.forEach,
+        when: step.when,
+        onError: step.onError ?? "fail",
+      };
+    }),
+  };
+  const graphError = validateGraph(definition);
+  return graphError ? { ok: false, error: graphError } : { ok: true, definition };
+}
+
+export async function loadWorkflowFile(filePath: string): Promise<LoadedWorkflow> {
+  const text = await fs.readFile(filePath, "utf-8");
+  let raw: unknown;
+  try {
+    raw = YAML.parse(text);
+  } catch (err) {
+    throw new Error(`invalid workflow ${filePath}: ${String(err)}`, { cause: err });
+  }
+  const fallbackName = path.basename(filePath).replace(/\.ya?ml$/i, "");
+  const parsed = parseWorkflowDefinition(raw, fallbackName);
+  if (!parsed.ok) {
+    throw new Error(`invalid workflow ${filePath}: ${parsed.error}`);
+  }
+  return { definition: parsed.definition, filePath };
+}
+
+/** Every `workflows/*.yaml` in the workspace; broken files are reported, not thrown. */
+export async function loadWorkspaceWorkflows(workspaceDir: string): Promise<{
+  workflows: LoadedWorkflow[];
+  errors: Array<{ filePath: string; error: string }>;
+}> {
+  const dir = resolveWorkflowsDir(workspaceDir);
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return { workflows: [], errors: [] };
+  }
+  const workflows: LoadedWorkflow[] = [];
+  const errors: Array<{ filePath: string; error: string }> = [];
+  for (const name of names.filter((entry) => /\.ya?ml$/i.test(entry)).toSorted()) {
+    const filePath = path.join(dir, name);
+    try {
+      const loaded = await loadWorkflowFile(filePath);
+      if (workflows.some((entry) => entry.definition.name === loaded.definition.name)) {
+        errors.push({ filePath, error: `duplicate workflow name: ${loaded.definition.name}` });
+        continue;
+      }
+      workflows.push(loaded);
+    } catch (err) {
+      errors.push({ filePath, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { workflows, errors };
+}
+
+export async function findWorkspaceWorkflow(
+  workspaceDir: string,
+  name: string,
+): Promise<LoadedWorkflow | null> {
+  const { workflows, errors } = await loadWorkspaceWorkflows(workspaceDir);
+  const match = workflows.find((entry) => entry.definition.name === name);
+  if (match) {
+    return match;
+  }
+  // Surface the parse error when the requested workflow is the broken file.
+  const broken = errors.find(
+    (entry) => path.basename(entry.filePath).replace(/\.ya?ml$/i, "") === name,
+  );
+  if (broken) {
+    throw new Error(broken.error);
+  }
+  return null;
+}
+
+/** Fill defaults and check required inputs; unknown keys are rejected to catch typos. */
+export function resolveWorkflowInputs(
+  definition: WorkflowDefinition,
+  provided: Record<string, string>,
+): { ok: true; inputs: Record<string, string> } | { ok: false; error: string } {
+  const unknown = Object.keys(provided).filter((key) => !(key in definition.inputs));
+  if (unknown.length > 0) {
+    return { ok: false, error: `unknown input(s): ${unknown.join(", ")}` };
+  }
+  const inputs: Record<string, string> = {};
+  for (const [key, input] of Object.entries(definition.inputs)) {
+    const value = provided[key] ?? input.default;
+    if (value === undefined) {
+      if (input.required) {
+        return { ok: false, error: `missing required input: ${key}` };
+      }
+      continue;
+    }
+    inputs[key] = value;
+  }
+  return { ok: true, inputs };
+}
@@ -0,0 +1,125 @@
+import type { WorkflowStepCondition, WorkflowStepState } from "./types.js";
+
+/** Hard cap on fan-out so a chatty upstream step cannot spawn hundreds of runs. */
+export const WORKFLOW_MAX_FOREACH_ITEMS = 20;
+
+export type WorkflowTemplateContext = {
+  inputs: Record<string, string>;
+  steps: Record<string, WorkflowStepState>;
+  item?: string;
+  index?: number;
+};
+
+const TEMPLATE_RE = /\{\{\s*([a-zA-Z0-9_.-]+)\s*\}\}/g;
+const STEP_REF_RE = /^steps\.([a-zA-Z0-9_-]+)\.(output|outputs|status|error)$/;
+
+export function listTemplateStepRefs(template: string): string[] {
+  const refs: string[] = [];
+  for (const match of template.matchAll(TEMPLATE_RE)) {
+    const ref = STEP_REF_RE.exec(match[1] ?? "");
+    if (ref?.[1] && !refs.includes(ref[1])) {
+      refs.push(ref[1]);
+    }
+  }
+  return refs;
+}
+
+function resolveTemplateValue(expr: string, ctx: WorkflowTemplateContext): string {
+  if (expr === "item") {
+    return ctx.item ?? "";
+  }
+  if (expr === "index") {
+    return ctx.index === undefined ? "" : String(ctx.index);
+  }
+  if (expr.startsWith("inputs.")) {
+    return ctx.inputs[expr.slice("inputs.".length)] ?? "";
+  }
+  const ref = STEP_REF_RE.exec(expr);
+  if (!ref) {
+    // Leave unknown placeholders alone; agents see them verbatim.
+    return `{{${expr}}}`;
+  }
+  const step = ctx.steps[ref[1]];
+  switch (ref[2]) {
+    case "status":
+      return step?.status ?? "";
+    case "error":
+      return step?.error ?? "";
+    case "outputs":
+      return JSON.stringify((step?.runs ?? []).map((run) => run.output ?? ""));
+    default:
+      return step?.output ?? "";
+  }
+}
+
+export function renderWorkflowTemplate(template: string, ctx: WorkflowTemplateContext): string {
+  return template.replace(TEMPLATE_RE, (_match, expr: string) => resolveTemplateValue(expr, ctx));
+}
+
+/**
+ * Fan-out items. A list is rendered item by item; a string template is rendered once and
+ * read as a JSON array of strings, falling back to one item per non-empty line
+ * (list bullets and numbering are stripped).
+ */
+export function resolveForEachItems(
+  forEach: string | string[],
+  ctx: WorkflowTemplateContext,
+): { ok: true; items: string[] } | { ok: false; error: string } {
+  let items: string[];
+  if (Array.isArray(forEach)) {
+    items = forEach.map((entry) => renderWorkflowTemplate(entry, ctx));
+  } else {
+    const rendered = renderWorkflowTemplate(forEach, ctx).trim();
+    items = parseJsonStringArray(rendered) ?? splitListLines(rendered);
+  }
+  items = items.map((item) => item.trim()).filter(Boolean);
+  if (items.length > WORKFLOW_MAX_FOREACH_ITEMS) {
+    return {
+      ok: false,
+      error: `forEach produced ${items.length} items (max ${WORKFLOW_MAX_FOREACH_ITEMS})`,
+    };
+  }
+  return { ok: true, items };
+}
+
+function parseJsonStringArray(text: string): string[] | null {
+  if (!text.startsWith("[")) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.map((entry) => (typeof entry === "string" ? entry : JSON.stringify(entry)))
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function splitListLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, ""))
+    .filter((line) => line.trim());
+}
+
+export function evaluateWorkflowCondition(
+  when: WorkflowStepCondition,
+  steps: Record<string, WorkflowStepState>,
+): boolean {
+  const step = steps[when.step];
+  const output = (step?.output ?? "").trim();
+  const checks: boolean[] = [];
+  checks.push(step?.status === (when.status ?? "ok"));
+  if (when.contains !== undefined) {
+    checks.push(output.toLowerCase().includes(when.contains.toLowerCase()));
+  }
+  if (when.equals !== undefined) {
+    checks.push(output.toLowerCase() === when.equals.trim().toLowerCase());
+  }
+  if (when.matches !== undefined) {
+    checks.push(new RegExp(when.matches, "i").test(output));
+  }
+  const passed = checks.every(Boolean);
+  return when.not ? !passed : passed;
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SubagentRunOutcome } from "../agents/subagent-announce.js";
+import type { LoadedWorkflow, WorkflowRunRecord } from "./types.js";
+import { parseWorkflowDefinition } from "./definition.js";
+import {
+  cancelWorkflowRun,
+  flushWorkflowRunnerForTests,
+  getWorkflowRun,
+  initWorkflowRunner,
+  resetWorkflowRunnerForTests,
+  startWorkflowRun,
+  type WorkflowStepSpawn,
+} from "./runner.js";
+
+function loadWorkflow(raw: unknown): LoadedWorkflow {
+  const parsed = parseWorkflowDefinition(raw, "test");
+  if (!parsed.ok) {
+    throw new Error(parsed.error);
+  }
+  return { definition: parsed.definition, filePath: "/ws/workflows/test.yaml" };
+}
+
+describe("workflow runner", () => {
+  let spawned: WorkflowStepSpawn[];
+  let outputs: Map<string, string>;
+  let saved: Map<string, WorkflowRunRecord>;
+  let emitEnded: (runId: string, outcome: SubagentRunOutcome) => void;
+  const notifyRequester = vi.fn();
+  const abortStep = vi.fn();
+
+  beforeEach(() => {
+    spawned = [];
+    outputs = new Map();
+    saved = new Map();
+    notifyRequester.mockReset();
+    abortStep.mockReset();
+    resetWorkflowRunnerForTests({
+      spawnStep: async (params) => {
+        spawned.push(params);
+        return { runId: `sub-${spawned.length}` };
+      },
+      readStepOutput: async (sessionKey) => outputs.get(sessionKey),
+      abortStep,
+      onStepEnded: (listener) => {
+        emitEnded = listener;
+        return () => {};
+      },
+      getStepOutcome: () => undefined,
+      notifyRequester,
+      loadRuns: () => new Map(saved),
+      saveRuns: (runs) => {
+        saved = new Map([...runs].map(([id, run]) => [id, structuredClone(run)]));
+      },
+    });
+  });
+
+  afterEach(() => {
+    resetWorkflowRunnerForTests();
+  });
+
+  async function finishStep(
+    index: number,
+    output: string,
+    outcome: SubagentRunOutcome = { status: "ok" },
+  ) {
+    outputs.set(spawned[index].sessionKey, output);
+    emitEnded(`sub-${index + 1}`, outcome);
+    await flushWorkflowRunnerForTests();
+  }
+
+  it("fans out, fans in and skips steps whose condition fails", async () => {
+    const workflow = loadWorkflow({
+      inputs: { topic: { required: true } },
+      steps: [
+        { id: "plan", task: "Split {{inputs.topic}} into sections" },
+        { id: "write", needs: "plan", forEach: "{{steps.plan.output}}", task: "Write {{item}}" },
+        { id: "edit", needs: "write", task: "Edit:\n{{steps.write.output}}" },
+        { id: "alert", when: { step: "edit", contains: "TODO" }, task: "Flag gaps" },
+      ],
+    });
+    const started = startWorkflowRun({
+      workflow,
+      inputs: { topic: "caching" },
+      agentId: "main",
+      requesterSessionKey: "agent:main:main",
+      trigger: { kind: "chat" },
+    });
+    expect(started.ok).toBe(true);
+    const runId = started.ok ? started.run.runId : "";
+    await flushWorkflowRunnerForTests();
+    expect(spawned.map((entry) => entry.task)).toEqual(["Split caching into sections"]);
+    expect(spawned[0]?.sessionKey).toMatch(/^agent:main:subagent:/);
+
+    await finishStep(0, "1. intro\n2. eviction");
+    expect(spawned.slice(1).map((entry) => entry.task)).toEqual(["Write intro", "Write eviction"]);
+    expect(spawned[2]?.label).toBe("test/write#2");
+
+    await finishStep(2, "Eviction text");
+    expect(spawned).toHaveLength(3);
+    await finishStep(1, "Intro text");
+    expect(spawned[3]?.task).toBe("Edit:\nIntro text\n\nEviction text");
+
+    // Restart: only the persisted state survives.
+    resetWorkflowRunnerForTests({
+      spawnStep: async (params) => {
+        spawned.push(params);
+        return { runId: `sub-${spawned.length}` };
+      },
+      readStepOutput: async (sessionKey) => outputs.get(sessionKey),
+      abortStep,
+      onStepEnded: (listener) => {
+        emitEnded = listener;
+        return () => {};
+      },
+      getStepOutcome: (id) => (id === "sub-4" ? { status: "ok" } : undefined),
+      notifyRequester,
+      loadRuns: () => new Map(saved),
+      saveRuns: (runs) => {
+        saved = new Map(runs);
+      },
+    });
+    outputs.set(spawned[3].sessionKey, "Final draft");
+    initWorkflowRunner();
+    await flushWorkflowRunnerForTests();
+
+    const run = getWorkflowRun(runId);
+    expect(run?.status).toBe("ok");
+    expect(run?.steps.alert.status).toBe("skipped");
+    expect(run?.output).toBe("Final draft");
+    expect(spawned).toHaveLength(4);
+    expect(notifyRequester).toHaveBeenCalledWith(
+      expect.objectContaining({ runId }),
+      expect.stringContaining("Final draft"),
+    );
+  });
+
+  it("fails the workflow on a step error unless the step continues", async () => {
+    const workflow = loadWorkflow({
+      steps: [
+        { id: "lint", task: "lint", onError: "continue" },
+        { id: "test", task: "test" },
+        { id: "report", needs: ["lint", "test"], task: "report" },
+      ],
+    });
+    const started = startWorkflowRun({
+      workflow,
+      agentId: "main",
+      requesterSessionKey: "agent:main:main",
+      trigger: { kind: "cron", ref: "nightly" },
+    });
+    const runId = started.ok ? started.run.runId : "";
+    await flushWorkflowRunnerForTests();
+    expect(spawned).toHaveLength(2);
+
+    await finishStep(0, "", { status: "error", error: "lint crashed" });
+    expect(getWorkflowRun(runId)?.status).toBe("running");
+    await finishStep(1, "", { status: "error", error: "3 failures" });
+
+    const run = getWorkflowRun(runId);
+    expect(run?.status).toBe("error");
+    expect(run?.error).toBe("step test failed: 3 failures");
+    expect(run?.steps.report.status).toBe("skipped");
+    expect(notifyRequester).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining("failed: step test failed"),
+    );
+  });
+
+  it("cancels running steps and rejects missing inputs", async () => {
+    const workflow = loadWorkflow({
+      inputs: { target: { required: true } },
+      steps: [{ id: "deploy", task: "Deploy {{inputs.target}}" }],
+    });
+    expect(
+      startWorkflowRun({
+        workflow,
+        agentId: "main",
+        requesterSessionKey: "agent:main:main",
+        trigger: { kind: "hook" },
+      }),
+    ).toEqual({ ok: false, error: "missing required input: target" });
+
+    const started = startWorkflowRun({
+      workflow,
+      inputs: { target: "prod" },
+      agentId: "main",
+      requesterSessionKey: "agent:main:main",
+      trigger: { kind: "hook" },
+    });
+    const runId = started.ok ? started.run.runId : "";
+    await flushWorkflowRunnerForTests();
+    expect(cancelWorkflowRun(runId)).toBe(true);
+    expect(abortStep).toHaveBeenCalledWith(spawned[0]?.sessionKey);
+    expect(getWorkflowRun(runId)?.status).toBe("cancelled");
+
+    await finishStep(0, "done");
+    expect(getWorkflowRun(runId)?.status).toBe("cancelled");
+    expect(notifyRequester).not.toHaveBeenCalled();
+  });
+});
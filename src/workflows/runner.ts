@@ -0,0 +1,651 @@
+import crypto from "node:crypto";
+import type { SubagentRunOutcome } from "../agents/subagent-announce.js";
+import type { DeliveryContext } from "../utils/delivery-context.js";
+import type {
+  LoadedWorkflow,
+  WorkflowRunRecord,
+  WorkflowStepDefinition,
+  WorkflowStepRunState,
+  WorkflowStepState,
+  WorkflowTrigger,
+} from "./types.js";
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { AGENT_LANE_SUBAGENT } from "../agents/lanes.js";
+import { abortEmbeddedPiRun } from "../agents/pi-embedded.js";
+import { buildSubagentSystemPrompt } from "../agents/subagent-announce.js";
+import {
+  getSubagentRun,
+  onSubagentRunEnded,
+  registerSubagentRun,
+} from "../agents/subagent-registry.js";
+import { readLatestAssistantReply } from "../agents/tools/agent-step.js";
+import { clearSessionQueues } from "../auto-reply/reply/queue.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentMainSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { callGateway } from "../gateway/call.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
+import { normalizeDeliveryContext } from "../utils/delivery-context.js";
+import { findWorkspaceWorkflow, resolveWorkflowInputs } from "./definition.js";
+import {
+  evaluateWorkflowCondition,
+  renderWorkflowTemplate,
+  resolveForEachItems,
+} from "./expressions.js";
+import { loadWorkflowRunsFromDisk, saveWorkflowRunsToDisk } from "./store.js";
+
+export type WorkflowStepSpawn = {
+  run: WorkflowRunRecord;
+  step: WorkflowStepDefinition;
+  agentId: string;
+  sessionKey: string;
+  task: string;
+  label: string;
+};
+
+export type WorkflowRunnerDeps = {
+  spawnStep: (params: WorkflowStepSpawn) => Promise<{ runId: string }>;
+  readStepOutput: (sessionKey: string) => Promise<string | undefined>;
+  abortStep: (sessionKey: string) => void;
+  onStepEnded: (listener: (runId: string, outcome: SubagentRunOutcome) => void) => () => void;
+  /** Outcome of a spawned run; `null` when the registry no longer knows it. */
+  getStepOutcome: (runId: string) => SubagentRunOutcome | null | undefined;
+  notifyRequester: (run: WorkflowRunRecord, text: string) => void;
+  loadRuns: () => Map<string, WorkflowRunRecord>;
+  saveRuns: (runs: Map<string, WorkflowRunRecord>) => void;
+};
+
+const MAX_FINISHED_RUNS = 100;
+const NOTIFY_OUTPUT_MAX_CHARS = 2_000;
+
+const workflowRuns = new Map<string, WorkflowRunRecord>();
+const runQueues = new Map<string, Promise<void>>();
+let deps: WorkflowRunnerDeps = createDefaultWorkflowRunnerDeps();
+let listenerStop: (() => void) | null = null;
+// Use var to avoid TDZ when init runs across circular imports during bootstrap.
+var restoreAttempted = false;
+
+function persistWorkflowRuns() {
+  const finished = [...workflowRuns.values()]
+    .filter((run) => run.status !== "running")
+    .toSorted((a, b) => (b.endedAt ?? 0) - (a.endedAt ?? 0));
+  for (const run of finished.slice(MAX_FINISHED_RUNS)) {
+    workflowRuns.delete(run.runId);
+  }
+  try {
+    deps.saveRuns(workflowRuns);
+  } catch {
+    // ignore persistence failures
+  }
+}
+
+/** Serialize all state changes of one run; step completions can arrive concurrently. */
+function enqueueRunTask(runId: string, task: () => Promise<void>): Promise<void> {
+  const previous = runQueues.get(runId) ?? Promise.resolve();
+  const next = previous
+    .then(task)
+    .catch((err) => failWorkflowRun(runId, `workflow runner error: ${String(err)}`));
+  runQueues.set(runId, next);
+  void next.finally(() => {
+    if (runQueues.get(runId) === next) {
+      runQueues.delete(runId);
+    }
+  });
+  return next;
+}
+
+function ensureListener() {
+  if (listenerStop) {
+    return;
+  }
+  listenerStop = deps.onStepEnded((subagentRunId, outcome) => {
+    const run = findRunBySubagentRunId(subagentRunId);
+    if (run) {
+      void enqueueRunTask(run.runId, () => completeStepRun(run.runId, subagentRunId, outcome));
+    }
+  });
+}
+
+function findRunBySubagentRunId(subagentRunId: string) {
+  return [...workflowRuns.values()].find(
+    (run) =>
+      run.status === "running" &&
+      Object.values(run.steps).some((state) =>
+        state.runs.some((item) => item.subagentRunId === subagentRunId),
+      ),
+  );
+}
+
+function isFinished(status: WorkflowStepState["status"]) {
+  return status === "ok" || status === "error" || status === "skipped";
+}
+
+function templateContext(run: WorkflowRunRecord, item?: WorkflowStepRunState) {
+  return { inputs: run.inputs, steps: run.steps, item: item?.item, index: item?.index };
+}
+
+async function spawnStepRun(
+  run: WorkflowRunRecord,
+  step: WorkflowStepDefinition,
+  item: WorkflowStepRunState,
+) {
+  const agentId = normalizeAgentId(step.agent ?? run.definition.agent ?? run.agentId);
+  const sessionKey = `agent:${agentId}:subagent:${crypto.randomUUID()}`;
+  const task = renderWorkflowTemplate(step.task, templateContext(run, item));
+  const label = `${run.workflow}/${step.id}${item.item === undefined ? "" : `#${item.index + 1}`}`;
+  item.status = "running";
+  item.sessionKey = sessionKey;
+  item.startedAt = Date.now();
+  item.subagentRunId = undefined;
+  persistWorkflowRuns();
+  try {
+    const { runId } = await deps.spawnStep({ run, step, agentId, sessionKey, task, label });
+    item.subagentRunId = runId;
+    persistWorkflowRuns();
+    if (run.status !== "running") {
+      // Cancelled while the spawn was in flight.
+      deps.abortStep(sessionKey);
+      return;
+    }
+  } catch (err) {
+    item.status = "error";
+    item.error = err instanceof Error ? err.message : String(err);
+    item.endedAt = Date.now();
+    settleStep(run, step);
+    return;
+  }
+  // Very short runs can end before the id was recorded.
+  const subagentRunId = item.subagentRunId;
+  const outcome = deps.getStepOutcome(subagentRunId);
+  if (outcome) {
+    void enqueueRunTask(run.runId, () => completeStepRun(run.runId, subagentRunId, outcome));
+  }
+}
+
+async function startStep(run: WorkflowRunRecord, step: WorkflowStepDefinition) {
+  const state = run.steps[step.id];
+  if (step.forEach === undefined) {
+    state.runs = [{ index: 0, status: "pending" }];
+  } else {
+    const resolved = resolveForEachItems(step.forEach, templateContext(run));
+    if (!resolved.ok) {
+      state.status = "error";
+      state.error = resolved.error;
+      applyStepFailure(run, step);
+      return;
+    }
+    state.runs = resolved.items.map((item, index) => ({ index, item, status: "pending" }));
+  }
+  state.status = "running";
+  if (state.runs.length === 0) {
+    // Fan-out over nothing succeeds with empty output.
+    settleStep(run, step);
+    return;
+  }
+  persistWorkflowRuns();
+  for (const item of state.runs) {
+    if (run.status === "running" && item.status === "pending") {
+      await spawnStepRun(run, step, item);
+    }
+  }
+}
+
+async function completeStepRun(
+  workflowRunId: string,
+  subagentRunId: string,
+  outcome: SubagentRunOutcome,
+) {
+  const run = workflowRuns.get(workflowRunId);
+  if (!run || run.status !== "running") {
+    return;
+  }
+  const step = run.definition.steps.find((entry) =>
+    run.steps[entry.id]?.runs.some((item) => item.subagentRunId === subagentRunId),
+  );
+  const item = step
+    ? run.steps[step.id].runs.find((entry) => entry.subagentRunId === subagentRunId)
+    : undefined;
+  if (!step || !item || item.status !== "running") {
+    return;
+  }
+  let output: string | undefined;
+  try {
+    output = item.sessionKey ? await deps.readStepOutput(item.sessionKey) : undefined;
+  } catch {
+    output = undefined;
+  }
+  if (run.status !== "running" || item.status !== "running") {
+    return;
+  }
+  item.output = output?.trim() || undefined;
+  item.endedAt = Date.now();
+  if (outcome.status === "ok") {
+    item.status = "ok";
+  } else {
+    item.status = "error";
+    item.error = outcome.error ?? outcome.status;
+  }
+  settleStep(run, step);
+  await advanceWorkflowRun(run);
+}
+
+/** Close a step once every item finished; fan-in joins the item outputs. */
+function settleStep(run: WorkflowRunRecord, step: WorkflowStepDefinition) {
+  const state = run.steps[step.id];
+  if (state.runs.some((item) => !isFinished(item.status))) {
+    persistWorkflowRuns();
+    return;
+  }
+  const outputs = state.runs.map((item) => item.output).filter(Boolean);
+  state.output = outputs.join("\n\n");
+  const failed = state.runs.find((item) => item.status === "error");
+  if (failed) {
+    state.status = "error";
+    state.error =
+      state.runs.length > 1 ? `item ${failed.index + 1}: ${failed.error}` : failed.error;
+    applyStepFailure(run, step);
+    return;
+  }
+  state.status = "ok";
+  persistWorkflowRuns();
+}
+
+function applyStepFailure(run: WorkflowRunRecord, step: WorkflowStepDefinition) {
+  if (step.onError === "continue") {
+    persistWorkflowRuns();
+    return;
+  }
+  finishWorkflowRun(run, "error", `step ${step.id} failed: ${run.steps[step.id].error ?? "error"}`);
+}
+
+async function advanceWorkflowRun(run: WorkflowRunRecord) {
+  let progressed = true;
+  while (progressed && run.status === "running") {
+    progressed = false;
+    for (const step of run.definition.steps) {
+      const state = run.steps[step.id];
+      if (run.status !== "running") {
+        break;
+      }
+      if (state.status === "running") {
+        // Resume: items that never got a sub-agent run (restart mid-spawn).
+        for (const item of state.runs) {
+          if (item.status === "pending" || (item.status === "running" && !item.subagentRunId)) {
+            await spawnStepRun(run, step, item);
+            progressed = true;
+          }
+        }
+        continue;
+      }
+      if (state.status !== "pending") {
+        continue;
+      }
+      if (step.needs.some((id) => !isFinished(run.steps[id]?.status ?? "pending"))) {
+        continue;
+      }
+      // Skips propagate unless the step's own condition is about the skipped step.
+      const skippedNeed = step.needs.some(
+        (id) => run.steps[id]?.status === "skipped" && id !== step.when?.step,
+      );
+      if (skippedNeed || (step.when && !evaluateWorkflowCondition(step.when, run.steps))) {
+        state.status = "skipped";
+        progressed = true;
+        continue;
+      }
+      await startStep(run, step);
+      progressed = true;
+    }
+  }
+  if (run.status !== "running") {
+    return;
+  }
+  if (run.definition.steps.every((step) => isFinished(run.steps[step.id].status))) {
+    finishWorkflowRun(run, "ok");
+    return;
+  }
+  persistWorkflowRuns();
+}
+
+function abortRunningSteps(run: WorkflowRunRecord, reason: string) {
+  for (const state of Object.values(run.steps)) {
+    if (state.status === "pending") {
+      state.status = "skipped";
+    }
+    for (const item of state.runs) {
+      if (isFinished(item.status)) {
+        continue;
+      }
+      if (item.status === "running" && item.sessionKey) {
+        try {
+          deps.abortStep(item.sessionKey);
+        } catch {
+          // best effort
+        }
+      }
+      item.status = item.status === "pending" ? "skipped" : "error";
+      item.error = item.status === "error" ? reason : undefined;
+      item.endedAt = Date.now();
+    }
+    if (state.status === "running") {
+      state.status = "error";
+      state.error = reason;
+    }
+  }
+}
+
+function resolveWorkflowOutput(run: WorkflowRunRecord) {
+  if (run.definition.output) {
+    return renderWorkflowTemplate(run.definition.output, templateContext(run)).trim();
+  }
+  const last = run.definition.steps.toReversed().find((step) => run.steps[step.id].status === "ok");
+  return last ? run.steps[last.id].output : undefined;
+}
+
+function finishWorkflowRun(
+  run: WorkflowRunRecord,
+  status: "ok" | "error" | "cancelled",
+  error?: string,
+) {
+  if (run.status !== "running") {
+    return;
+  }
+  if (status !== "ok") {
+    abortRunningSteps(run, status === "cancelled" ? "cancelled" : "aborted");
+  }
+  run.status = status;
+  run.error = error;
+  run.endedAt = Date.now();
+  run.output = status === "ok" ? resolveWorkflowOutput(run) : undefined;
+  persistWorkflowRuns();
+  if (status === "cancelled") {
+    return;
+  }
+  const header =
+    status === "ok"
+      ? `Workflow ${run.workflow} (${run.runId}) finished.`
+      : `Workflow ${run.workflow} (${run.runId}) failed: ${error ?? "error"}`;
+  const output = run.output
+    ? run.output.length > NOTIFY_OUTPUT_MAX_CHARS
+      ? `${run.output.slice(0, NOTIFY_OUTPUT_MAX_CHARS)}…`
+      : run.output
+    : "";
+  try {
+    deps.notifyRequester(run, output ? `${header}\n${output}` : header);
+  } catch {
+    // ignore notification failures
+  }
+}
+
+function failWorkflowRun(runId: string, error: string) {
+  const run = workflowRuns.get(runId);
+  if (run) {
+    finishWorkflowRun(run, "error", error);
+  }
+}
+
+export function startWorkflowRun(params: {
+  workflow: LoadedWorkflow;
+  inputs?: Record<string, string>;
+  agentId: string;
+  requesterSessionKey: string;
+  requesterOrigin?: DeliveryContext;
+  trigger: WorkflowTrigger;
+}): { ok: true; run: WorkflowRunRecord } | { ok: false; error: string } {
+  const { definition, filePath } = params.workflow;
+  const inputs = resolveWorkflowInputs(definition, params.inputs ?? {});
+  if (!inputs.ok) {
+    return inputs;
+  }
+  const run: WorkflowRunRecord = {
+    runId: crypto.randomBytes(4).toString("hex"),
+    workflow: definition.name,
+    filePath,
+    definition,
+    agentId: normalizeAgentId(params.agentId),
+    requesterSessionKey: params.requesterSessionKey,
+    requesterOrigin: normalizeDeliveryContext(params.requesterOrigin),
+    inputs: inputs.inputs,
+    trigger: params.trigger,
+    status: "running",
+    steps: Object.fromEntries(
+      definition.steps.map((step) => [step.id, { status: "pending", runs: [] }]),
+    ),
+    createdAt: Date.now(),
+  };
+  workflowRuns.set(run.runId, run);
+  ensureListener();
+  persistWorkflowRuns();
+  void enqueueRunTask(run.runId, () => advanceWorkflowRun(run));
+  return { ok: true, run };
+}
+
+/**
+ * Start a workflow by name from the agent's workspace. Used by cron and hooks, which report
+ * to the agent's main session unless told otherwise.
+ */
+export async function startWorkspaceWorkflow(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  workflow: string;
+  inputs?: Record<string, string>;
+  requesterSessionKey?: string;
+  trigger: WorkflowTrigger;
+}): Promise<{ ok: true; run: WorkflowRunRecord } | { ok: false; error: string }> {
+  let workflow: LoadedWorkflow | null;
+  try {
+    workflow = await findWorkspaceWorkflow(
+      resolveAgentWorkspaceDir(params.cfg, params.agentId),
+      params.workflow,
+    );
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  if (!workflow) {
+    return { ok: false, error: `unknown workflow: ${params.workflow}` };
+  }
+  return startWorkflowRun({
+    workflow,
+    inputs: params.inputs,
+    agentId: params.agentId,
+    requesterSessionKey:
+      params.requesterSessionKey ??
+      resolveAgentMainSessionKey({ cfg: params.cfg, agentId: params.agentId }),
+    trigger: params.trigger,
+  });
+}
+
+export function cancelWorkflowRun(runId: string): boolean {
+  const run = workflowRuns.get(runId);
+  if (!run || run.status !== "running") {
+    return false;
+  }
+  finishWorkflowRun(run, "cancelled");
+  return true;
+}
+
+export function getWorkflowRun(runId: string): WorkflowRunRecord | undefined {
+  return workflowRuns.get(runId);
+}
+
+/** Newest first. */
+export function listWorkflowRuns(filter?: { requesterSessionKey?: string }): WorkflowRunRecord[] {
+  return [...workflowRuns.values()]
+    .filter(
+      (run) =>
+        !filter?.requesterSessionKey || run.requesterSessionKey === filter.requesterSessionKey,
+    )
+    .toSorted((a, b) => b.createdAt - a.createdAt);
+}
+
+export function formatWorkflowRunStatus(run: WorkflowRunRecord): string {
+  const lines = [`Workflow ${run.workflow} (${run.runId}): ${run.status}`];
+  for (const step of run.definition.steps) {
+    const state = run.steps[step.id];
+    const items =
+      state.runs.length > 1
+        ? ` ${state.runs.filter((item) => item.status === "ok").length}/${state.runs.length}`
+        : "";
+    const error = state.error ? ` — ${state.error}` : "";
+    lines.push(`• ${step.id}: ${state.status}${items}${error}`);
+  }
+  if (run.error) {
+    lines.push(`Error: ${run.error}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Restore persisted runs after a gateway restart: settle steps whose sub-agent runs ended
+ * while we were down and continue scheduling. Call after `initSubagentRegistry()`.
+ */
+export function initWorkflowRunner() {
+  if (restoreAttempted) {
+    return;
+  }
+  restoreAttempted = true;
+  try {
+    for (const [runId, run] of deps.loadRuns()) {
+      if (!workflowRuns.has(runId)) {
+        workflowRuns.set(runId, run);
+      }
+    }
+  } catch {
+    return;
+  }
+  const running = [...workflowRuns.values()].filter((run) => run.status === "running");
+  if (running.length === 0) {
+    return;
+  }
+  ensureListener();
+  for (const run of running) {
+    void enqueueRunTask(run.runId, async () => {
+      for (const step of run.definition.steps) {
+        for (const item of run.steps[step.id].runs) {
+          if (item.status !== "running" || !item.subagentRunId) {
+            continue;
+          }
+          const outcome = deps.getStepOutcome(item.subagentRunId);
+          if (outcome === null) {
+            item.status = "error";
+            item.error = "sub-agent run lost after restart";
+            item.endedAt = Date.now();
+            settleStep(run, step);
+          } else if (outcome) {
+            await completeStepRun(run.runId, item.subagentRunId, outcome);
+          }
+        }
+      }
+      await advanceWorkflowRun(run);
+    });
+  }
+}
+
+function abortStepSession(sessionKey: string) {
+  const cfg = loadConfig();
+  clearSessionQueues([sessionKey]);
+  const agentId = parseAgentSessionKey(sessionKey)?.agentId;
+  const store = loadSessionStore(resolveStorePath(cfg.session?.store, { agentId }));
+  const sessionId = store[sessionKey]?.sessionId;
+  if (sessionId) {
+    abortEmbeddedPiRun(sessionId);
+  }
+}
+
+async function spawnWorkflowStep(params: WorkflowStepSpawn): Promise<{ runId: string }> {
+  const { run, step, sessionKey, task, label } = params;
+  if (step.model) {
+    await callGateway({
+      method: "sessions.patch",
+      params: { key: sessionKey, model: step.model },
+      timeoutMs: 10_000,
+    });
+  }
+  if (step.thinking) {
+    await callGateway({
+      method: "sessions.patch",
+      params: { key: sessionKey, thinkingLevel: step.thinking === "off" ? null : step.thinking },
+      timeoutMs: 10_000,
+    });
+  }
+  const idempotencyKey = crypto.randomUUID();
+  const response = await callGateway<{ runId?: string }>({
+    method: "agent",
+    params: {
+      message: task,
+      sessionKey,
+      idempotencyKey,
+      deliver: false,
+      lane: AGENT_LANE_SUBAGENT,
+      extraSystemPrompt: buildSubagentSystemPrompt({
+        requesterSessionKey: run.requesterSessionKey,
+        requesterOrigin: run.requesterOrigin,
+        childSessionKey: sessionKey,
+        label,
+        task,
+      }),
+      timeout: step.timeoutSeconds,
+      label,
+      spawnedBy: run.requesterSessionKey,
+    },
+    timeoutMs: 10_000,
+  });
+  const runId =
+    typeof response?.runId === "string" && response.runId ? response.runId : idempotencyKey;
+  registerSubagentRun({
+    runId,
+    childSessionKey: sessionKey,
+    requesterSessionKey: run.requesterSessionKey,
+    requesterOrigin: run.requesterOrigin,
+    requesterDisplayKey: run.requesterSessionKey,
+    task,
+    cleanup: "keep",
+    label,
+    runTimeoutSeconds: step.timeoutSeconds,
+    announce: false,
+  });
+  return { runId };
+}
+
+function createDefaultWorkflowRunnerDeps(): WorkflowRunnerDeps {
+  return {
+    spawnStep: spawnWorkflowStep,
+    readStepOutput: (sessionKey) => readLatestAssistantReply({ sessionKey }),
+    abortStep: abortStepSession,
+    onStepEnded: (listener) =>
+      onSubagentRunEnded((entry) => {
+        if (entry.outcome) {
+          listener(entry.runId, entry.outcome);
+        }
+      }),
+    getStepOutcome: (runId) => {
+      const entry = getSubagentRun(runId);
+      return entry ? entry.outcome : null;
+    },
+    notifyRequester: (run, text) => {
+      enqueueSystemEvent(text, { sessionKey: run.requesterSessionKey });
+      requestHeartbeatNow({ reason: `workflow:${run.runId}` });
+    },
+    loadRuns: loadWorkflowRunsFromDisk,
+    saveRuns: saveWorkflowRunsToDisk,
+  };
+}
+
+export async function flushWorkflowRunnerForTests() {
+  while (runQueues.size > 0) {
+    await Promise.all(runQueues.values());
+  }
+}
+
+export function resetWorkflowRunnerForTests(overrides?: Partial<WorkflowRunnerDeps>) {
+  workflowRuns.clear();
+  runQueues.clear();
+  listenerStop?.();
+  listenerStop = null;
+  restoreAttempted = false;
+  deps = { ...createDefaultWorkflowRunnerDeps(), ...overrides };
+}
@@ -0,0 +1,32 @@
+import path from "node:path";
+import type { WorkflowRunRecord } from "./types.js";
+import { STATE_DIR } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+
+type PersistedWorkflowRuns = {
+  version: 1;
+  runs: Record<string, WorkflowRunRecord>;
+};
+
+export function resolveWorkflowRunsPath(): string {
+  return path.join(STATE_DIR, "workflows", "runs.json");
+}
+
+export function loadWorkflowRunsFromDisk(): Map<string, WorkflowRunRecord> {
+  const raw = loadJsonFile(resolveWorkflowRunsPath()) as Partial<PersistedWorkflowRuns> | undefined;
+  const out = new Map<string, WorkflowRunRecord>();
+  if (!raw || raw.version !== 1 || !raw.runs || typeof raw.runs !== "object") {
+    return out;
+  }
+  for (const [runId, entry] of Object.entries(raw.runs)) {
+    if (entry && typeof entry === "object" && entry.runId === runId && entry.definition) {
+      out.set(runId, entry);
+    }
+  }
+  return out;
+}
+
+export function saveWorkflowRunsToDisk(runs: Map<string, WorkflowRunRecord>) {
+  const serialized: PersistedWorkflowRuns = { version: 1, runs: Object.fromEntries(runs) };
+  saveJsonFile(resolveWorkflowRunsPath(), serialized);
+}
@@ -0,0 +1,97 @@
+import type { DeliveryContext } from "../utils/delivery-context.js";
+
+export type WorkflowInputDefinition = {
+  description?: string;
+  default?: string;
+  required?: boolean;
+};
+
+/** Gate a step on the result of an earlier one; every predicate given must hold. */
+export type WorkflowStepCondition = {
+  step: string;
+  status?: WorkflowStepStatus;
+  contains?: string;
+  equals?: string;
+  /** Case-insensitive regular expression tested against the step output. */
+  matches?: string;
+  not?: boolean;
+};
+
+export type WorkflowStepDefinition = {
+  id: string;
+  /** Agent that runs the step; defaults to the workflow agent, then the requester's agent. */
+  agent?: string;
+  /** Task template sent to the step's sub-agent. */
+  task: string;
+  needs: string[];
+  model?: string;
+  thinking?: string;
+  timeoutSeconds?: number;
+  /** Fan out: one sub-agent run per item (a list, or a template rendered to lines/JSON array). */
+  forEach?: string | string[];
+  when?: WorkflowStepCondition;
+  onError: "fail" | "continue";
+};
+
+export type WorkflowDefinition = {
+  name: string;
+  description?: string;
+  agent?: string;
+  inputs: Record<string, WorkflowInputDefinition>;
+  steps: WorkflowStepDefinition[];
+  /** Template for the final result; defaults to the output of the last step that ran. */
+  output?: string;
+};
+
+export type LoadedWorkflow = {
+  definition: WorkflowDefinition;
+  filePath: string;
+};
+
+export type WorkflowStepStatus = "pending" | "running" | "ok" | "error" | "skipped";
+
+export type WorkflowRunStatus = "running" | "ok" | "error" | "cancelled";
+
+export type WorkflowTrigger = {
+  kind: "chat" | "cron" | "hook" | "manual";
+  /** Cron job id, hook mapping name or sender id. */
+  ref?: string;
+};
+
+export type WorkflowStepRunState = {
+  index: number;
+  item?: string;
+  status: WorkflowStepStatus;
+  subagentRunId?: string;
+  sessionKey?: string;
+  startedAt?: number;
+  endedAt?: number;
+  output?: string;
+  error?: string;
+};
+
+export type WorkflowStepState = {
+  status: WorkflowStepStatus;
+  runs: WorkflowStepRunState[];
+  output?: string;
+  error?: string;
+};
+
+export type WorkflowRunRecord = {
+  runId: string;
+  workflow: string;
+  filePath: string;
+  /** Snapshot taken at start so edits to the file do not change a run mid-flight. */
+  definition: WorkflowDefinition;
+  agentId: string;
+  requesterSessionKey: string;
+  requesterOrigin?: DeliveryContext;
+  inputs: Record<string, string>;
+  trigger: WorkflowTrigger;
+  status: WorkflowRunStatus;
+  steps: Record<string, WorkflowStepState>;
+  createdAt: number;
+  endedAt?: number;
+  output?: string;
+  error?: string;
+};
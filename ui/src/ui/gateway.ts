@@ -15,6 +15,7 @@ export type GatewayEventFrame = {
   payload?: unknown;
   seq?: number;
   stateVersion?: { presence: number; health: number };
+  filtered?: boolean;
 };
 
 export type GatewayResponseFrame = {
@@ -257,7 +258,7 @@ export class GatewayBrowserClient {
       }
       const seq = typeof evt.seq === "number" ? evt.seq : null;
       if (seq !== null) {
-        if (this.lastSeq !== null && seq > this.lastSeq + 1) {
+        if (this.lastSeq !== null && seq > this.lastSeq + 1 && !evt.filtered) {
           this.opts.onGap?.({ expected: this.lastSeq + 1, received: seq });
         }
         this.lastSeq = seq;
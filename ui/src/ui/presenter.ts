@@ -59,6 +59,10 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "after") {
+    const status = s.status ?? "ok";
+    return status === "ok" ? `After ${s.jobId}` : `After ${s.jobId} (${status})`;
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
@@ -644,7 +644,8 @@ export type SessionUsageTimeSeries = {
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "cron"; expr: string; tz?: string }
+  | { kind: "after"; jobId: string; status?: "ok" | "error" | "any" };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";